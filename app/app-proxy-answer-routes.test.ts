@@ -0,0 +1,97 @@
+/**
+ * Route tests for POST /apps/editmuse/session/answer and /session/message
+ * Structured answers (ranges, multi-select lists) reach the quiz engine as sent
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ConciergeSessionStatus } from "@prisma/client";
+import {
+  applyQuizAction,
+  createQuizState,
+  normalizeQuizQuestions,
+  type QuizAction,
+  type QuizQuestion,
+  type QuizState,
+} from "~/utils/quiz-engine.server";
+
+const quizSession = vi.hoisted(() => ({
+  getQuizSession: vi.fn(),
+  advanceQuizSession: vi.fn(),
+  startQuizSession: vi.fn(),
+}));
+
+vi.mock("~/models/quiz-session.server", () => quizSession);
+vi.mock("~/db.server", () => ({ default: {} }));
+vi.mock("~/app-proxy.server", () => ({
+  validateAppProxySignature: () => true,
+  getShopFromAppProxy: (query: URLSearchParams) => query.get("shop"),
+}));
+vi.mock("~/utils/rate-limit.server", () => ({ guardProxyRequest: () => null }));
+
+const { action: answerAction } = await import("~/routes/apps.editmuse.session.answer");
+const { action: messageAction } = await import("~/routes/apps.editmuse.session.message");
+
+const questions = normalizeQuizQuestions([
+  { id: "budget", type: "range", question: "What's your budget?", min: 0, max: 1000 },
+  {
+    id: "styles",
+    type: "multi_select",
+    question: "Which styles?",
+    options: [
+      { value: "boho", label: "Boho, relaxed" },
+      { value: "modern", label: "Modern" },
+    ],
+  },
+]);
+
+function post(path: string, body: unknown): Request {
+  return new Request(`https://shop.example/apps/editmuse/session/${path}?shop=demo.myshopify.com&signature=x`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+/** Runs the mocked session through the real state machine and returns the stored answers */
+function trackAnswers(state: QuizState): () => QuizState["answers"] {
+  let current = state;
+  quizSession.getQuizSession.mockImplementation(async () => ({
+    session: { shop: { domain: "demo.myshopify.com" }, status: ConciergeSessionStatus.COLLECTING },
+    questions,
+    state: current,
+  }));
+  quizSession.advanceQuizSession.mockImplementation(
+    async ({ questions: qs, action }: { questions: QuizQuestion[]; action: QuizAction }) => {
+      current = applyQuizAction(qs, current, action);
+      return { done: current.currentId === null, step: 1, total: qs.length };
+    }
+  );
+  return () => current.answers;
+}
+
+describe("quiz answer routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("accepts a { min, max } range answer", async () => {
+    const answers = trackAnswers(createQuizState(questions));
+    const response = await answerAction({ request: post("answer", { sessionId: "s1", answer: { min: 50, max: 150 } }) } as never);
+    expect(response.status).toBe(200);
+    expect(answers().budget).toEqual({ min: 50, max: 150 });
+  });
+
+  it("keeps multi-select labels that contain commas intact", async () => {
+    const answers = trackAnswers({ currentId: "styles", answers: { budget: { min: 50, max: 150 } }, skipped: [], history: ["budget"] });
+    const response = await answerAction({ request: post("answer", { sessionId: "s1", answer: ["Boho, relaxed", "Modern"] }) } as never);
+    expect(response.status).toBe(200);
+    expect(answers().styles).toEqual(["boho", "modern"]);
+  });
+
+  it("passes a structured message through to the current question", async () => {
+    const answers = trackAnswers(createQuizState(questions));
+    const response = await messageAction({ request: post("message", { sessionId: "s1", message: { min: 20, max: 80 } }) } as never);
+    expect(response.status).toBe(200);
+    expect(answers().budget).toEqual({ min: 20, max: 80 });
+  });
+});
@@ -0,0 +1,95 @@
+import prisma from "~/db.server";
+import { validateAppProxySignature, getShopFromAppProxy } from "~/app-proxy.server";
+import { refineSessionResult } from "~/models/result-refinement.server";
+import { guardProxyRequest } from "~/utils/rate-limit.server";
+import { getOrCreateRequestId } from "~/utils/request-id.server";
+
+/**
+ * Refines a completed session's results (POST /apps/editmuse/session/refine, body { sid, instruction })
+ * Returns the new result version; the widget then reloads products through /session as usual.
+ */
+
+const MAX_INSTRUCTION_LENGTH = 300;
+
+const REFINE_ERROR_STATUS = {
+  NOT_FOUND: 404,
+  NOT_READY: 409,
+  NOT_REFINABLE: 409,
+  TOO_MANY_REFINEMENTS: 429,
+  CONFLICT: 409,
+} as const;
+
+/**
+ * Shared refine handler for app proxy routes
+ * @param request - The incoming request
+ * @param routePath - The route path for logging (e.g., "/apps/editmuse/session/refine" or "/session/refine")
+ */
+export async function proxySessionRefineAction(request: Request, routePath: string): Promise<Response> {
+  console.log(`[App Proxy] POST ${routePath}`);
+
+  const requestId = getOrCreateRequestId(request);
+  const headers = { "x-request-id": requestId };
+
+  if (request.method !== "POST") {
+    return Response.json({ ok: false, error: "Method not allowed", requestId }, { status: 405, headers });
+  }
+
+  const query = new URL(request.url).searchParams;
+  if (!validateAppProxySignature(query, process.env.SHOPIFY_API_SECRET || "")) {
+    return Response.json({ ok: false, error: "Invalid signature", requestId }, { status: 401, headers });
+  }
+  const shopDomain = getShopFromAppProxy(query);
+  if (!shopDomain) {
+    return Response.json({ ok: false, error: "Missing shop parameter", requestId }, { status: 400, headers });
+  }
+
+  let body: { sid?: unknown; instruction?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ ok: false, error: "Invalid JSON body", requestId }, { status: 400, headers });
+  }
+
+  const sessionId = typeof body.sid === "string" ? body.sid : "";
+  const instruction = typeof body.instruction === "string" ? body.instruction.trim().slice(0, MAX_INSTRUCTION_LENGTH) : "";
+  if (!sessionId || !instruction) {
+    return Response.json({ ok: false, error: "Missing sid or instruction", requestId }, { status: 400, headers });
+  }
+
+  const session = await prisma.conciergeSession.findUnique({
+    where: { publicToken: sessionId },
+    select: { visitorId: true, shop: { select: { domain: true } } },
+  });
+  if (!session) {
+    return Response.json({ ok: false, error: "Session not found", requestId }, { status: 404, headers });
+  }
+  if (session.shop.domain !== shopDomain) {
+    return Response.json({ ok: false, error: "Session shop mismatch", requestId }, { status: 403, headers });
+  }
+
+  const blocked = guardProxyRequest(request, "sessionMessage", shopDomain, session.visitorId);
+  if (blocked) {
+    return blocked;
+  }
+
+  const result = await refineSessionResult({ sessionToken: sessionId, instruction });
+  if (!result.ok) {
+    return Response.json(
+      { ok: false, error: result.error, errorCode: result.errorCode, requestId },
+      { status: REFINE_ERROR_STATUS[result.errorCode], headers }
+    );
+  }
+
+  return Response.json(
+    {
+      ok: true,
+      sid: sessionId,
+      changed: result.changed,
+      version: result.version,
+      productHandles: result.productHandles,
+      reasoning: result.reasoning,
+      requestId,
+    },
+    { headers }
+  );
+}
@@ -0,0 +1,161 @@
+import { UsageEventType } from "@prisma/client";
+import prisma from "~/db.server";
+import { validateAppProxySignature, getShopFromAppProxy } from "~/app-proxy.server";
+import { getOfflineAccessTokenForShop, fetchShopifyProductsByHandlesGraphQL } from "~/shopify-admin.server";
+import { fetchCatalogProducts } from "~/models/catalog-index.server";
+import { trackUsageEvent } from "~/models/billing.server";
+import { guardProxyRequest } from "~/utils/rate-limit.server";
+import { getOrCreateRequestId } from "~/utils/request-id.server";
+import {
+  DEFAULT_SIMILAR_LIMIT,
+  applyExperienceRules,
+  rankSimilarProducts,
+  type SimilarityProduct,
+} from "~/utils/similar-products.server";
+
+/**
+ * "More like this" for one recommended product (GET /apps/editmuse/session/similar?sid=...&handle=...)
+ * Deterministic (no AI call, no credits); the pool respects the session's experience rules and
+ * leaves out products already in the session's results.
+ */
+
+const SIMILAR_POOL_LIMIT = 250;
+
+type CatalogProduct = SimilarityProduct & {
+  image: string | null;
+  price: string | null;
+  priceAmount: string | null;
+  currencyCode: string | null;
+  url: string;
+};
+
+function parseJsonList(raw: string | null | undefined): string[] {
+  try {
+    const parsed = JSON.parse(raw || "[]");
+    return Array.isArray(parsed) ? parsed.filter((v): v is string => typeof v === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Shared similar-products handler for app proxy routes
+ * @param request - The incoming request
+ * @param routePath - The route path for logging (e.g., "/apps/editmuse/session/similar" or "/session/similar")
+ */
+export async function proxySessionSimilarLoader(request: Request, routePath: string): Promise<Response> {
+  console.log(`[App Proxy] GET ${routePath}`);
+
+  const requestId = getOrCreateRequestId(request);
+  const headers = { "x-request-id": requestId };
+  const query = new URL(request.url).searchParams;
+
+  const sessionId = query.get("sid");
+  const handle = query.get("handle");
+  if (!sessionId || !handle) {
+    return Response.json({ ok: false, error: "Missing sid or handle parameter", requestId }, { status: 400, headers });
+  }
+  const limit = parseInt(query.get("limit") || "", 10) || DEFAULT_SIMILAR_LIMIT;
+
+  const session = await prisma.conciergeSession.findUnique({
+    where: { publicToken: sessionId },
+    select: {
+      visitorId: true,
+      experienceId: true,
+      shop: { select: { id: true, domain: true } },
+      experience: { select: { includedCollections: true, excludedTags: true, inStockOnly: true } },
+      result: { select: { productHandles: true } },
+    },
+  });
+  if (!session) {
+    return Response.json({ ok: false, error: "Session not found", requestId }, { status: 404, headers });
+  }
+  const shopDomain = session.shop.domain;
+
+  // Validate HMAC signature if present (for App Proxy requests)
+  if (query.has("signature")) {
+    if (!validateAppProxySignature(query, process.env.SHOPIFY_API_SECRET || "")) {
+      return Response.json({ ok: false, error: "Invalid signature", requestId }, { status: 401, headers });
+    }
+    const queryShop = getShopFromAppProxy(query);
+    if (queryShop && queryShop !== shopDomain) {
+      return Response.json({ ok: false, error: "Session shop mismatch", requestId }, { status: 403, headers });
+    }
+  }
+
+  const blocked = guardProxyRequest(request, "similar", shopDomain, session.visitorId);
+  if (blocked) {
+    return blocked;
+  }
+
+  const accessToken = await getOfflineAccessTokenForShop(shopDomain);
+  if (!accessToken) {
+    return Response.json(
+      { ok: false, error: "App not properly installed. Please reinstall the app to continue.", requestId },
+      { status: 401, headers }
+    );
+  }
+
+  const includedCollections = parseJsonList(session.experience?.includedCollections);
+  const rules = {
+    excludedTags: parseJsonList(session.experience?.excludedTags),
+    inStockOnly: session.experience?.inStockOnly ?? false,
+  };
+
+  const catalog: CatalogProduct[] = await fetchCatalogProducts({
+    shopDomain,
+    accessToken,
+    limit: SIMILAR_POOL_LIMIT,
+    collectionIds: includedCollections.length > 0 ? includedCollections : undefined,
+  });
+
+  // The source may sit outside the experience's collections (or beyond the pool limit)
+  let source: SimilarityProduct | undefined = catalog.find((p) => p.handle === handle);
+  if (!source) {
+    const [fetched] = await fetchShopifyProductsByHandlesGraphQL({ shopDomain, accessToken, handles: [handle] });
+    source = fetched;
+  }
+  if (!source) {
+    return Response.json({ ok: false, error: "Product not found", requestId }, { status: 404, headers });
+  }
+
+  const rawHandles = session.result?.productHandles;
+  const resultHandles = Array.isArray(rawHandles) ? rawHandles.filter((h): h is string => typeof h === "string") : [];
+  const matches = rankSimilarProducts(source, applyExperienceRules(catalog, rules), { limit, excludeHandles: resultHandles });
+
+  await trackUsageEvent(
+    session.shop.id,
+    UsageEventType.SIMILAR_PRODUCTS_REQUESTED,
+    { sid: sessionId, experienceId: session.experienceId || null, handle, resultCount: matches.length },
+    0
+  ).catch((error) => {
+    console.error("[Similar Products] Failed to track usage event:", error);
+  });
+
+  console.log("[Similar Products] Served", {
+    sid: sessionId,
+    handle,
+    poolSize: catalog.length,
+    count: matches.length,
+    sharedType: matches.filter((m) => m.sharesType).length,
+  });
+
+  return Response.json(
+    {
+      ok: true,
+      sid: sessionId,
+      handle,
+      products: matches.map(({ product }) => ({
+        handle: product.handle,
+        title: product.title,
+        image: product.image,
+        price: product.price,
+        priceAmount: product.priceAmount || product.price,
+        currencyCode: product.currencyCode || null,
+        url: product.url,
+      })),
+      requestId,
+    },
+    { headers }
+  );
+}
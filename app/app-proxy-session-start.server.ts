@@ -2,13 +2,18 @@ import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
 import { validateAppProxySignature, getShopFromAppProxy } from "~/app-proxy.server";
 import prisma from "~/db.server";
 import { createConciergeSession, saveConciergeResult, addConciergeMessage } from "~/models/concierge.server";
-import { getAccessTokenForShop, fetchShopifyProducts, fetchShopifyProductDescriptionsByHandles, fetchShopifyProductsBySearchQuery } from "~/shopify-admin.server";
+import { notifySessionFinished, reportSessionProgress } from "~/models/session-progress.server";
+import { enqueueJob, sessionJobDedupeKey } from "~/models/job-queue.server";
+import { saveRefinementContext } from "~/models/result-refinement.server";
+import { getAccessTokenForShop } from "~/shopify-admin.server";
+import { fetchCatalogProducts, fetchCatalogProductDescriptionsByHandles, fetchCatalogProductsBySearchQuery } from "~/models/catalog-index.server";
 import { rankProductsWithAI, fallbackRanking } from "~/models/ai-ranking.server";
 import { parseIntentWithLLM } from "~/models/intent-parsing.server";
 import { ConciergeSessionStatus, ConciergeRole } from "@prisma/client";
-import { trackUsageEvent, chargeConciergeSessionOnce, getEntitlements } from "~/models/billing.server";
+import { trackUsageEvent, chargeConciergeSessionOnce, getEntitlements, checkDailyCreditCap } from "~/models/billing.server";
 import { createOverageUsageCharge } from "~/models/shopify-billing.server";
 import { withProxyLogging } from "~/utils/proxy-logging.server";
+import { guardProxyRequest, rateLimitedResponse } from "~/utils/rate-limit.server";
 import { ensureResultDiversity, generateEmptyResultSuggestions } from "~/models/result-quality.server";
 import {
   normalizeText,
@@ -18,10 +23,90 @@ import {
   bm25Score,
   calculateIDF,
   expandQueryTokens,
-  expandTokenMorphology,
+  extractSearchText,
+  unifiedNormalize,
 } from "~/utils/text-indexing.server";
+import {
+  applyBudgetFilterCandidates,
+  detectBoostTerms,
+  gateByFacets,
+  gateByHardTerms,
+  matchesHardTermWithBoundary,
+  preRankCandidates,
+} from "~/utils/candidate-retrieval.server";
+import { canonicalizeGroupKey, deriveFamilyKey } from "~/utils/product-family.server";
 import { expandTerms } from "~/utils/term-expansion.server";
 import { cleanReasoning, handleBundleReasoning } from "~/utils/reasoning-cleaner.server";
+import { normalizeQuizQuestions } from "~/utils/quiz-engine.server";
+import { OPTION_QUESTION_TYPES } from "~/utils/question-types";
+import { parseMerchandisingRules } from "~/utils/merchandising-rules";
+import { enforceMerchandisingOutcome } from "~/utils/merchandising-rules.server";
+import { buildProductExplanations, type ProductExplanations } from "~/utils/product-explanations.server";
+import {
+  applyAnswerSignalTerms,
+  dropHiddenAnswers,
+  extractAnswerSignals,
+  flattenAnswersForPipeline,
+  resolveAnswerEntries,
+  type AnswerIntentSignals,
+} from "~/utils/answer-signals.server";
+import {
+  createPipelineTrace,
+  formatPipelineTrace,
+  runPipelineStage,
+  type PipelineStageContext,
+} from "~/utils/pipeline-stage.server";
+import {
+  createRecommendationTrace,
+  recordGatingStep,
+  recordRejections,
+  saveRecommendationTrace,
+} from "~/models/recommendation-trace.server";
+import {
+  budgetRefillStage,
+  collectionIntentStage,
+  createDeepAttributeSearchStage,
+  createHybridRetrievalStage,
+  createPostDiversityRefillStage,
+  createSmartFetchStage,
+  groupBalancedWindowStage,
+  merchandisingRulesStage,
+  type StageDescriptionFetch,
+  type StageProductSearch,
+} from "~/models/pipeline-stages.server";
+import { getShopFacetMapping } from "~/models/facet-mapping.server";
+import { getEmbeddingProvider } from "~/models/embedding-provider.server";
+import { loadCandidateEmbeddings } from "~/models/product-embeddings.server";
+import { getShopRateTable } from "~/models/currency-rates.server";
+import {
+  parsePriceCeiling,
+  buildPriceRelaxationLadder,
+  describePriceBounds,
+  describePriceConstraint,
+  parsePriceConstraint,
+  priceConstraintBounds,
+  priceWithinBounds,
+  type PriceConstraint,
+} from "~/utils/price-constraint.server";
+import {
+  CURRENCY_PREFIX_PATTERN,
+  convertAmount,
+  detectCurrencyCode,
+  parsePresentmentCurrency,
+  type CurrencyRateTable,
+} from "~/utils/currency.server";
+import type { FacetMappingConfig, FacetValues } from "~/utils/facets.server";
+import {
+  extractAllowList,
+  mergeConstraints,
+  mergePreferences,
+  normKey,
+  parseConstraintsFromText,
+  parsePreferencesFromText,
+  type VariantConstraints,
+  type VariantPreferences,
+} from "~/utils/variant-constraints.server";
+import { MAX_REFINEMENT_CANDIDATES, toRefinementCandidate } from "~/utils/result-refinement.server";
 
 type UsageEventType = "SESSION_STARTED" | "AI_RANKING_EXECUTED";
 
@@ -37,6 +122,22 @@ function creditsForDeliveredCount(n: number): number {
   return 2; // 13-16 (clamp for now, extend if >16 supported)
 }
 
+// Used when the billing check fails (TRIAL plan defaults)
+const DEFAULT_ENTITLEMENTS = {
+  planTier: "TRIAL" as const,
+  includedCreditsX2: 0,
+  addonCreditsX2: 0,
+  usedCreditsX2: 0,
+  totalCreditsX2: 0,
+  remainingX2: 0,
+  experiencesLimit: 1,
+  candidateCap: 100,
+  canBasicReporting: true,
+  canMidReporting: false,
+  overageRatePerCredit: 0.12,
+  showTrialBadge: true,
+};
+
 const PRODUCT_POOL_LIMIT_FIRST = 200; // First fetch: 200 products
 const PRODUCT_POOL_LIMIT_MAX = 500;    // Maximum total products (if second fetch needed)
 // CANDIDATE_WINDOW_SIZE is now dynamic based on entitlements (calculated per request)
@@ -44,13 +145,6 @@ const MAX_AI_PASSES = 3;              // first pass + up to 2 top-up passes
 const MIN_CANDIDATES_FOR_AI = 50;     // enough variety for AI
 const MIN_CANDIDATES_FOR_DELIVERY = 16; // ensures top-up has room (>=2x 8-pack)
 
-type VariantConstraints = {
-  size: string | null;
-  color: string | null;
-  material: string | null;
-  allowValues?: Record<string, string[]>; // OR allow-list: attribute -> array of allowed values (case-normalized)
-};
-
 function pickString(obj: any, keys: string[]): string | null {
   for (const k of keys) {
     const v = obj?.[k];
@@ -59,11 +153,6 @@ function pickString(obj: any, keys: string[]): string | null {
   return null;
 }
 
-/**
- * Extract searchable text from product candidate (industry-agnostic)
- * Combines common catalog fields: title, handle, productType, tags, vendor, description snippet
- * Uses cleanDescription to strip HTML and normalize
- */
 /**
  * Normalize a group key by removing sale/clearance tokens and generic terms
  * (Legacy function - kept for backward compatibility with assignGroupKey)
@@ -89,148 +178,6 @@ function normalizeGroupKey(key: string): string {
   return normalized;
 }
 
-/**
- * Canonicalize a group key for merging duplicates (industry-agnostic)
- * Handles singular/plural, punctuation, capitalization, whitespace variants
- */
-function canonicalizeGroupKey(rawKey: string): string {
-  if (!rawKey || typeof rawKey !== "string") return "unknown";
-  
-  // Step 1: lowercase, trim
-  let canonical = rawKey.trim().toLowerCase();
-  
-  // Step 2: replace punctuation/separators with space, then collapse whitespace
-  canonical = canonical.replace(/[-_/.,'"]/g, " ").replace(/\s+/g, " ").trim();
-  
-  if (canonical.length === 0) return "unknown";
-  
-  // Step 3: Split into tokens
-  const tokens = canonical.split(/\s+/).filter(t => t.length > 0);
-  
-  // Step 4: Remove leading/trailing stop tokens (the, and, of) if standalone
-  const stopTokens = new Set(["the", "and", "of"]);
-  while (tokens.length > 0 && stopTokens.has(tokens[0])) {
-    tokens.shift();
-  }
-  while (tokens.length > 0 && stopTokens.has(tokens[tokens.length - 1])) {
-    tokens.pop();
-  }
-  
-  if (tokens.length === 0) return "unknown";
-  
-  // Step 5: Singularize tokens (conservative English)
-  const singularized = tokens.map(token => {
-    // Do not singularize short tokens or tokens with digits
-    if (token.length <= 3 || /\d/.test(token)) {
-      return token;
-    }
-    
-    // Conservative singularization rules
-    if (token.endsWith("ies") && token.length > 4) {
-      return token.slice(0, -3) + "y";
-    } else if (token.endsWith("sses") || token.endsWith("shes") || token.endsWith("ches") || token.endsWith("xes") || token.endsWith("zes")) {
-      return token.slice(0, -2);
-    } else if (token.endsWith("s") && !token.endsWith("ss") && token.length > 1) {
-      return token.slice(0, -1);
-    }
-    
-    return token;
-  });
-  
-  // Step 6: Remove duplicate tokens (keep order)
-  const uniqueTokens: string[] = [];
-  const seen = new Set<string>();
-  for (const token of singularized) {
-    if (!seen.has(token)) {
-      uniqueTokens.push(token);
-      seen.add(token);
-    }
-  }
-  
-  if (uniqueTokens.length === 0) return "unknown";
-  
-  return uniqueTokens.join(" ");
-}
-
-/**
- * Derive a coarse family key from a product (industry-agnostic)
- * Uses productType/category/collections/title/vendor with generic stopword removal
- */
-function deriveFamilyKey(candidate: any): { key: string; source: "productType" | "category" | "title" | "vendor" | "unknown" } {
-  // Base: productType > category > collections[0] > vendor > title
-  let base = "";
-  let source: "productType" | "category" | "title" | "vendor" | "unknown" = "unknown";
-  
-  if (candidate.productType && typeof candidate.productType === "string") {
-    base = candidate.productType;
-    source = "productType";
-  } else if (candidate.product_type && typeof candidate.product_type === "string") {
-    base = candidate.product_type;
-    source = "productType";
-  } else if (candidate.category && typeof candidate.category === "string") {
-    base = candidate.category;
-    source = "category";
-  } else if (candidate.collections && Array.isArray(candidate.collections) && candidate.collections.length > 0) {
-    const firstColl = candidate.collections[0];
-    base = typeof firstColl === "string" ? firstColl : (firstColl.title || firstColl.handle || "");
-    source = "category";
-  } else if (candidate.vendor && typeof candidate.vendor === "string") {
-    base = candidate.vendor;
-    source = "vendor";
-  } else if (candidate.title && typeof candidate.title === "string") {
-    base = candidate.title;
-    source = "title";
-  }
-  
-  if (!base || base.trim().length === 0) {
-    return { key: "unknown", source: "unknown" };
-  }
-  
-  // Normalize: lowercase, replace non-alphanum with space, collapse whitespace
-  let normalized = base.toLowerCase()
-    .replace(/[^\w\s]/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
-  
-  // Generic stopwords (NOT category nouns - industry-agnostic)
-  const stopwords = new Set([
-    "new", "sale", "best", "top", "premium", "classic", "basic", "limited", "edition", "bundle", "set", "pack",
-    "mens", "men", "women", "womens", "kids", "child", "unisex",
-    "small", "medium", "large", "xl", "xxl", "xxxl", "one", "size",
-    "and", "or", "for", "with", "without", "the", "a", "an", "of",
-    "cotton", "satin", "silk", "poly", "polyester", "linen", "leather", "wool", "denim",
-    "red", "blue", "black", "white", "green", "yellow", "pink", "grey", "gray", "brown", "beige", "navy",
-    "print", "printed", "plain", "striped", "floral", "pattern", "patterns"
-  ]);
-  
-  // Split into tokens, filter stopwords, numbers, and short tokens
-  const tokens = normalized.split(/\s+/)
-    .filter(t => {
-      const cleaned = t.trim();
-      return cleaned.length > 2 && 
-             !stopwords.has(cleaned) && 
-             !/^\d+$/.test(cleaned); // Drop pure numbers
-    });
-  
-  if (tokens.length === 0) {
-    return { key: "unknown", source: "unknown" };
-  }
-  
-  // Family key selection (generic heuristic):
-  // Prefer last token, else prefer longest token, else first token
-  let familyKey = tokens[tokens.length - 1]; // Last token
-  
-  // If last token is too short or common, try longest
-  if (familyKey.length < 4) {
-    const longest = tokens.reduce((a, b) => a.length > b.length ? a : b);
-    if (longest.length >= 4) {
-      familyKey = longest;
-    }
-  }
-  
-  return { key: familyKey, source };
-}
-
 /**
  * Assign a group key to a product (industry-agnostic, coarse grouping)
  * Strict priority: productType > collection > vendor > "unknown"
@@ -278,164 +225,6 @@ function assignGroupKey(candidate: any): { key: string; source: "productType" |
   return { key: "unknown", source: "unknown" };
 }
 
-/**
- * Unified normalize function: used everywhere for consistency
- * lowercasing, trimming, collapsing whitespace, converting hyphens/underscores to spaces, removing duplicate punctuation
- */
-function unifiedNormalize(text: string | null | undefined): string {
-  if (!text || typeof text !== "string") return "";
-  
-  return text
-    .toLowerCase()
-    .trim()
-    // Convert hyphens and underscores to spaces
-    .replace(/[-_]/g, " ")
-    // Remove duplicate punctuation (keep single instance)
-    .replace(/[.,;:!?]{2,}/g, (match) => match[0])
-    // Collapse whitespace
-    .replace(/\s+/g, " ")
-    .trim();
-}
-
-function extractSearchText(candidate: any, indexMetafields?: Array<{ namespace: string; key: string }> | null): string {
-  const parts: string[] = [];
-  
-  // Title
-  if (candidate.title && typeof candidate.title === "string") {
-    parts.push(candidate.title);
-  }
-  
-  // Handle (CRITICAL: often contains product type)
-  if (candidate.handle && typeof candidate.handle === "string") {
-    parts.push(candidate.handle);
-  }
-  
-  // ProductType (handles both productType and product_type)
-  const productType = candidate.productType || candidate.product_type;
-  if (productType && typeof productType === "string") {
-    parts.push(productType);
-  }
-  
-  // ProductCategory/Taxonomy (if available from Shopify)
-  if (candidate.productCategory && typeof candidate.productCategory === "string") {
-    parts.push(candidate.productCategory);
-  }
-  if (candidate.taxonomy && typeof candidate.taxonomy === "string") {
-    parts.push(candidate.taxonomy);
-  }
-  
-  // Collections (if available from Shopify GraphQL)
-  if (candidate.collections && Array.isArray(candidate.collections)) {
-    for (const coll of candidate.collections) {
-      if (typeof coll === "string") {
-        parts.push(coll);
-      } else if (coll && typeof coll === "object") {
-        if (coll.title && typeof coll.title === "string") {
-          parts.push(coll.title);
-        }
-        if (coll.handle && typeof coll.handle === "string") {
-          parts.push(coll.handle);
-        }
-      }
-    }
-  }
-  
-  // Tags (array or string)
-  if (Array.isArray(candidate.tags)) {
-    parts.push(...candidate.tags.filter((t: any) => typeof t === "string"));
-  } else if (candidate.tags && typeof candidate.tags === "string") {
-    parts.push(candidate.tags);
-  }
-  
-  // Vendor (optional)
-  if (candidate.vendor && typeof candidate.vendor === "string") {
-    parts.push(candidate.vendor);
-  }
-  
-  // Variant titles and SKUs (if available from Shopify GraphQL)
-  if (candidate.variants && Array.isArray(candidate.variants)) {
-    for (const variant of candidate.variants) {
-      if (variant && typeof variant === "object") {
-        if (variant.title && typeof variant.title === "string") {
-          parts.push(variant.title);
-        }
-        if (variant.sku && typeof variant.sku === "string") {
-          parts.push(variant.sku);
-        }
-      }
-    }
-  }
-  
-  // Option values (all option names and values)
-  if (candidate.optionValues && typeof candidate.optionValues === "object") {
-    for (const [key, values] of Object.entries(candidate.optionValues)) {
-      if (key && typeof key === "string") {
-        parts.push(key); // Option name (e.g., "Size", "Color")
-      }
-      if (Array.isArray(values)) {
-        parts.push(...values.filter((v: any) => typeof v === "string"));
-      } else if (values && typeof values === "string") {
-        parts.push(values);
-      }
-    }
-  }
-  
-  // Sizes, colors, materials (if available separately)
-  if (Array.isArray(candidate.sizes)) {
-    parts.push(...candidate.sizes.filter((s: any) => typeof s === "string"));
-  }
-  if (Array.isArray(candidate.colors)) {
-    parts.push(...candidate.colors.filter((c: any) => typeof c === "string"));
-  }
-  if (Array.isArray(candidate.materials)) {
-    parts.push(...candidate.materials.filter((m: any) => typeof m === "string"));
-  }
-  
-  // Metafields (if configured in Experience and available)
-  if (indexMetafields && Array.isArray(indexMetafields) && candidate.metafields) {
-    for (const metafieldConfig of indexMetafields) {
-      if (candidate.metafields[metafieldConfig.namespace] && 
-          candidate.metafields[metafieldConfig.namespace][metafieldConfig.key]) {
-        const value = candidate.metafields[metafieldConfig.namespace][metafieldConfig.key];
-        if (typeof value === "string") {
-          parts.push(value);
-        } else if (typeof value === "object" && value !== null) {
-          // Handle JSON metafields
-          try {
-            parts.push(JSON.stringify(value));
-          } catch (e) {
-            // Skip if not serializable
-          }
-        }
-      }
-    }
-  }
-  
-  // Description snippet (use existing cleanDescription if available, or extract snippet)
-  // When constraint terms exist, include longer description snippet (300-500 chars) for BM25 ranking
-  let descText = "";
-  if (candidate.description) {
-    descText = cleanDescription(candidate.description);
-  } else if (candidate.descPlain) {
-    descText = candidate.descPlain;
-  } else if (candidate.desc1000) {
-    descText = cleanDescription(candidate.desc1000);
-  }
-  
-  // Truncate description: use longer snippet (500 chars) when constraints exist, otherwise 400 chars
-  // This helps BM25 rank products that match constraint terms in description
-  const descMaxChars = 500; // Increased from 400 to help with constraint term matching
-  if (descText.length > descMaxChars) {
-    descText = descText.substring(0, descMaxChars);
-  }
-  if (descText) {
-    parts.push(descText);
-  }
-  
-  // Join and normalize using unified normalize
-  return unifiedNormalize(parts.join(" "));
-}
-
 /**
  * Check if product matches hard facet constraints (size/color/material)
  * Industry-agnostic: checks variant availability and option values
@@ -643,7 +432,7 @@ function getNonFacetHardTerms(
   });
 }
 
-function parseConstraintsFromAnswers(answersJson: any): VariantConstraints {
+function parseConstraintsFromAnswers(answersJson: any, answerSignals?: AnswerIntentSignals): VariantConstraints {
   // We don't know your exact answers shape, so we search common keys.
   // Works for { size: "Small" } or { answers: { size: "Small" } } etc.
   let root: any;
@@ -654,162 +443,41 @@ function parseConstraintsFromAnswers(answersJson: any): VariantConstraints {
   }
   root = root?.answers ?? root ?? {};
 
-  return {
+  const constraints: VariantConstraints = {
     size: pickString(root, ["size", "Size", "selectedSize", "variantSize"]),
     color: pickString(root, ["color", "colour", "Color", "Colour", "selectedColor", "selectedColour"]),
     material: pickString(root, ["material", "fabric", "Material", "Fabric"]),
   };
-}
 
-/**
- * Extract OR allow-list values from text (e.g., "Navy or Blue", "either A or B", "A / B")
- * Returns array of normalized values or null if no OR pattern found
- */
-function extractAllowList(text: string, validValues: string[]): string[] | null {
-  const t = text.toLowerCase();
-  
-  // Patterns for OR: "A or B", "either A or B", "A / B", "A, B, or C"
-  // Match words around "or", "either...or", or "/"
-  const orPatterns = [
-    /\b(\w+)\s+or\s+(\w+)\b/gi,
-    /\beither\s+(\w+)\s+or\s+(\w+)\b/gi,
-    /\b(\w+)\s*\/\s*(\w+)\b/gi,
-    /\b(\w+),\s*(\w+)(?:,\s*or\s+(\w+))?/gi,
-  ];
-  
-  for (const pattern of orPatterns) {
-    const match = pattern.exec(text);
-    if (match) {
-      const values: string[] = [];
-      // Extract all matched groups (skip full match at index 0)
-      for (let i = 1; i < match.length; i++) {
-        if (match[i]) {
-          const value = match[i].trim().toLowerCase();
-          // Check if value is in the valid values list (case-insensitive)
-          const normalized = validValues.find(v => v.toLowerCase() === value);
-          if (normalized) {
-            values.push(normalized);
-          }
-        }
-      }
-      if (values.length >= 2) {
-        // Normalize values (capitalize first letter)
-        return values.map(v => v.split(" ").map(w => w[0].toUpperCase() + w.slice(1)).join(" "));
+  // Typed quiz answers mapped to a hard facet (e.g. a color swatch question) win over key guessing
+  if (answerSignals) {
+    const facetAliases: Array<["size" | "color" | "material", string[]]> = [
+      ["size", ["size", "sizing"]],
+      ["color", ["color", "colour", "shade"]],
+      ["material", ["material", "fabric"]],
+    ];
+    const allowValues: Record<string, string[]> = {};
+    for (const [attribute, aliases] of facetAliases) {
+      const values = aliases.map(a => answerSignals.hardFacets[a]).find(v => Array.isArray(v) && v.length > 0);
+      if (!values) continue;
+      constraints[attribute] = values[0];
+      if (values.length > 1) {
+        allowValues[attribute] = values.map(v => v.toLowerCase());
       }
     }
-  }
-  
-  return null;
-}
-
-function parseConstraintsFromText(text: string): VariantConstraints {
-  const t = (text || "").toLowerCase();
-  const allowValues: Record<string, string[]> = {};
-
-  // Size parsing (keep conservative)
-  const sizeMap: Record<string, string> = {
-    "xxs": "XXS",
-    "xs": "XS",
-    "small": "Small",
-    "s": "S",
-    "medium": "Medium",
-    "m": "M",
-    "large": "Large",
-    "l": "L",
-    "xl": "XL",
-    "xxl": "XXL",
-  };
-  
-  const sizeValues = Object.keys(sizeMap);
-
-  // Common "UK 10" style sizes (fashion)
-  const ukDress = t.match(/\buk\s?(\d{1,2})\b/);
-  const numericSize = t.match(/\bsize\s?(\d{1,2})\b/);
-
-  // Try to extract OR allow-list for size first
-  const sizeAllowList = extractAllowList(text, sizeValues);
-  if (sizeAllowList) {
-    allowValues.size = sizeAllowList;
-    const sourceMatch = text.match(/\b(?:size\s+)?(?:either\s+)?\w+\s+(?:or|\/)\s+\w+/i);
-    if (sourceMatch) {
-      console.log("[Constraints] allow_list", { attribute: "size", values: sizeAllowList, sourceTextSnippet: sourceMatch[0] });
-    }
-  }
-
-  let size: string | null = null;
-  for (const key of Object.keys(sizeMap)) {
-    const re = new RegExp(`\\b${key}\\b`, "i");
-    if (re.test(text)) { size = sizeMap[key]; break; }
-  }
-  if (!size && ukDress?.[1]) size = `UK ${ukDress[1]}`;
-  if (!size && numericSize?.[1]) size = `Size ${numericSize[1]}`;
-
-  // Color parsing (simple list; expand later)
-  const colors = [
-    "black","white","grey","gray","navy","blue","green","red","pink","purple",
-    "beige","cream","brown","tan","orange","yellow","gold","silver","khaki",
-  ];
-  
-  // Try to extract OR allow-list for color first
-  const colorAllowList = extractAllowList(text, colors);
-  if (colorAllowList) {
-    allowValues.color = colorAllowList;
-    const sourceMatch = text.match(/\b(?:color|colour)?\s*(?:in\s+)?(?:either\s+)?\w+\s+(?:or|\/)\s+\w+/i);
-    if (sourceMatch) {
-      console.log("[Constraints] allow_list", { attribute: "color", values: colorAllowList, sourceTextSnippet: sourceMatch[0] });
-    }
-  }
-  
-  let color: string | null = null;
-  for (const c of colors) {
-    const re = new RegExp(`\\b${c}\\b`, "i");
-    if (re.test(text)) { color = c[0].toUpperCase() + c.slice(1); break; }
-  }
-
-  // Material/Ingredient parsing (industry-agnostic: Fashion, Beauty, Home, Health)
-  // Fashion: fabrics and materials
-  // Beauty: key ingredients
-  // Home: construction materials
-  // Health: active ingredients
-  const materials = [
-    // Fashion/Apparel materials
-    "cotton","linen","silk","wool","leather","denim","polyester","viscose","nylon","cashmere","spandex","elastane",
-    // Beauty/Cosmetics ingredients
-    "retinol","hyaluronic acid","vitamin c","niacinamide","peptide","ceramide","collagen","aloe vera","shea butter",
-    "coconut oil","argan oil","jojoba","glycerin","salicylic acid","benzoyl peroxide","squalane","snail mucin",
-    // Home/Garden materials
-    "wood","metal","glass","ceramic","plastic","bamboo","marble","granite","stainless steel","aluminum","brass","copper",
-    "fabric","upholstery","leather","rattan","wicker","mdf","particle board","solid wood",
-    // Health/Wellness ingredients
-    "protein","fiber","vitamin","mineral","omega","probiotic","prebiotic","antioxidant","turmeric","ginger","echinacea"
-  ];
-  
-  // Try to extract OR allow-list for material first
-  const materialAllowList = extractAllowList(text, materials);
-  if (materialAllowList) {
-    allowValues.material = materialAllowList;
-    const sourceMatch = text.match(/\b(?:material|fabric)?\s*(?:in\s+)?(?:either\s+)?\w+(?:\s+\w+)?\s+(?:or|\/)\s+\w+/i);
-    if (sourceMatch) {
-      console.log("[Constraints] allow_list", { attribute: "material", values: materialAllowList, sourceTextSnippet: sourceMatch[0] });
-    }
-  }
-  
-  let material: string | null = null;
-  for (const m of materials) {
-    const re = new RegExp(`\\b${m.replace(/\s+/g, "\\s+")}\\b`, "i");
-    if (re.test(text)) { 
-      material = m.split(" ").map(w => w[0].toUpperCase() + w.slice(1)).join(" "); 
-      break; 
+    if (Object.keys(allowValues).length > 0) {
+      constraints.allowValues = allowValues;
+      console.log("[Constraints] allow_list_from_answers", allowValues);
     }
   }
 
-  const result: VariantConstraints = { size, color, material };
-  if (Object.keys(allowValues).length > 0) {
-    result.allowValues = allowValues;
-  }
-  return result;
+  return constraints;
 }
 
+/**
+ * Extract OR allow-list values from text (e.g., "Navy or Blue", "either A or B", "A / B")
+ * Returns array of normalized values or null if no OR pattern found
+ */
 /**
  * Parse user intent into hard terms, soft terms, avoid terms, and facets
  * Industry-agnostic intent parsing
@@ -1269,7 +937,7 @@ async function fetchProductsByQueryPaginated(
   hasMorePages: boolean;
   totalFetched: number;
 }> {
-  // fetchShopifyProductsBySearchQuery is already imported at the top
+  // Index-first: reads the local catalog index when ready, otherwise the Admin API
   
   const allProducts: any[] = [];
   let cursor: string | null = null;
@@ -1281,10 +949,10 @@ async function fetchProductsByQueryPaginated(
     const currentPageSize = Math.min(pageSize, remaining);
     
     try {
-      // Note: fetchShopifyProductsBySearchQuery doesn't support cursor pagination yet
+      // Note: fetchCatalogProductsBySearchQuery doesn't support cursor pagination yet
       // For now, we'll fetch in batches by adjusting the query or using offset
       // This is a simplified version - in production, you'd want cursor-based pagination
-      const batch = await fetchShopifyProductsBySearchQuery({
+      const batch = await fetchCatalogProductsBySearchQuery({
         shopDomain,
         accessToken,
         query,
@@ -1732,124 +1400,55 @@ async function getShopCurrency(shopDomain: string, accessToken: string): Promise
 }
 
 /**
- * Convert currency symbol to ISO currency code
+ * Currencies a session's budgets are compared in
+ * shopperCurrency is what the storefront shows (Shopify Markets presentment currency, else the shop currency);
+ * amounts typed without a currency are in it
  */
-function currencySymbolToCode(symbol: string): string | null {
-  const mapping: Record<string, string> = {
-    "$": "USD",
-    "£": "GBP",
-    "€": "EUR",
-  };
-  return mapping[symbol] || null;
-}
+type BudgetCurrencyContext = {
+  shopCurrency: string | null;
+  shopperCurrency: string | null;
+  rateTable: CurrencyRateTable | null;
+};
 
 /**
- * Simple currency conversion (can be replaced with configurable FX rate source)
- * Returns conversion rate or 1.0 if currencies match or unknown
+ * Converts a shopper budget amount to the shop currency (catalog prices are in the shop currency)
+ * Without a rate the amount is kept as-is and the mismatch is logged
  */
-function getCurrencyConversionRate(fromCurrency: string | null, toCurrency: string | null): number {
-  if (!fromCurrency || !toCurrency || fromCurrency === toCurrency) {
-    return 1.0;
-  }
-  
-  // Default: treat as numeric if no conversion rate available
-  // In production, this could call an FX API or use cached rates
-  // For now, log mismatch and return 1.0 to treat as numeric
-  return 1.0;
+function convertBudgetToShopCurrency(
+  amount: number | null,
+  currency: string | null,
+  context: BudgetCurrencyContext,
+  label: string
+): number | null {
+  if (amount === null) return null;
+  const fromCurrency = currency || context.shopperCurrency;
+  const { shopCurrency, rateTable } = context;
+  if (!fromCurrency || !shopCurrency || fromCurrency === shopCurrency) return amount;
+
+  const convertedValue = rateTable ? convertAmount(amount, fromCurrency, shopCurrency, rateTable) : null;
+  if (convertedValue === null) {
+    console.log("[Currency] currency_mismatch", {
+      label,
+      userCurrency: fromCurrency,
+      shopCurrency,
+      originalValue: amount,
+      note: "Treating as numeric - no conversion rate available",
+      currencyMismatch: true
+    });
+    return amount;
+  }
+  console.log(`[Currency] converted_${label}`, {
+    userCurrency: fromCurrency,
+    shopCurrency,
+    originalValue: amount,
+    convertedValue,
+    currencyMismatch: true
+  });
+  return convertedValue;
 }
 
-/**
- * Parse numeric price ceiling from user intent text (industry-agnostic)
- * Extracts a single numeric ceiling (maxPriceCeiling) from natural language phrases
- * Supports currency symbols (£ $ €) and optional commas
- * Returns { value: number, currency: string | null } or null if no valid ceiling is found
- */
-function parsePriceCeiling(text: string): { value: number; currency: string | null } | null {
-  if (!text || typeof text !== "string") {
-    return null;
-  }
-
-  const normalizedText = text.toLowerCase();
-  
-  // Ordered list of regex patterns (first match wins)
-  // Supports: currency symbols (£ $ €), optional commas, integer/decimal numbers
-  const priceCeilingPatterns = [
-    // "budget is $600"
-    { pattern: /budget\s+is\s*([£$€]?)\s*(\d{1,3}(?:,\d{3})*(?:\.\d+)?|\d+(?:\.\d+)?)/i, name: "budget is" },
-    // "maximum budget is $600" or "max budget is $600"
-    { pattern: /(?:maximum|max)\s+budget\s+is\s*([£$€]?)\s*(\d{1,3}(?:,\d{3})*(?:\.\d+)?|\d+(?:\.\d+)?)/i, name: "max budget is" },
-    // "max budget $600" (without "is")
-    { pattern: /(?:maximum|max)\s+budget\s+([£$€]?)\s*(\d{1,3}(?:,\d{3})*(?:\.\d+)?|\d+(?:\.\d+)?)/i, name: "max budget" },
-    // "up to $600"
-    { pattern: /up\s+to\s+([£$€]?)\s*(\d{1,3}(?:,\d{3})*(?:\.\d+)?|\d+(?:\.\d+)?)/i, name: "up to" },
-    // "under $600" / "below $600" / "less than $600"
-    { pattern: /(?:under|below|less\s+than)\s+([£$€]?)\s*(\d{1,3}(?:,\d{3})*(?:\.\d+)?|\d+(?:\.\d+)?)/i, name: "under/below/less than" },
-    // "anything under 80" / "anything below 80"
-    { pattern: /anything\s+(?:under|below)\s+([£$€]?)\s*(\d{1,3}(?:,\d{3})*(?:\.\d+)?|\d+(?:\.\d+)?)/i, name: "anything under/below" },
-    // "total budget is $600" or "my total budget is $600"
-    { pattern: /(?:my\s+)?total\s+budget\s+is\s*([£$€]?)\s*(\d{1,3}(?:,\d{3})*(?:\.\d+)?|\d+(?:\.\d+)?)/i, name: "total budget is" },
-    // "$600 budget" or "$600 total" or "$600 for all"
-    { pattern: /([£$€])\s*(\d{1,3}(?:,\d{3})*(?:\.\d+)?|\d+(?:\.\d+)?)\s+(?:budget|total|for\s+all|for\s+everything)/i, name: "currency amount budget" },
-    // "total of $600" or "budget of $600"
-    { pattern: /(?:total|budget)\s+of\s+([£$€]?)\s*(\d{1,3}(?:,\d{3})*(?:\.\d+)?|\d+(?:\.\d+)?)/i, name: "total/budget of" },
-    // "spend $600" or "spending $600"
-    { pattern: /spend(?:ing)?\s+([£$€]?)\s*(\d{1,3}(?:,\d{3})*(?:\.\d+)?|\d+(?:\.\d+)?)/i, name: "spend/spending" },
-  ];
-  
-  for (const { pattern, name } of priceCeilingPatterns) {
-    const match = normalizedText.match(pattern);
-    if (match) {
-      // Extract currency symbol (if present) and numeric value
-      // Most patterns have: group 1 = optional currency, group 2 = value
-      // "currency amount budget" pattern has: group 1 = required currency, group 2 = value
-      let currencyDetected = "";
-      let valueStr = "";
-      
-      if (match.length >= 3 && match[2]) {
-        // Pattern has value in group 2
-        // Check if group 1 is a currency symbol
-        if (match[1] && /[£$€]/.test(match[1])) {
-          currencyDetected = match[1];
-          valueStr = match[2];
-        } else {
-          // Group 1 is optional currency (might be empty) or not a currency
-          currencyDetected = match[1] && /[£$€]/.test(match[1]) ? match[1] : "";
-          valueStr = match[2];
-        }
-      } else if (match[1]) {
-        // Only one capture group - could be currency or value
-        if (/[£$€]/.test(match[1])) {
-          currencyDetected = match[1];
-          // Value might be in the full match, need to extract
-          const fullMatch = match[0];
-          const afterCurrency = fullMatch.replace(new RegExp(`[£$€]\\s*`), "");
-          const numberMatch = afterCurrency.match(/(\d{1,3}(?:,\d{3})*(?:\.\d+)?|\d+(?:\.\d+)?)/);
-          valueStr = numberMatch ? numberMatch[1] : "";
-        } else {
-          // Group 1 is the value
-          valueStr = match[1];
-        }
-      }
-      
-      // Remove commas and parse safely
-      const cleanedValue = valueStr.replace(/,/g, "");
-      const parsed = parseFloat(cleanedValue);
-      
-      if (!isNaN(parsed) && isFinite(parsed) && parsed > 0) {
-        const currencyCode = currencyDetected ? currencySymbolToCode(currencyDetected) : null;
-        console.log("[Constraints] Parsed price ceiling", {
-          value: parsed,
-          pattern: name,
-          currencyDetected: currencyDetected || "none",
-          currencyCode: currencyCode || "none"
-        });
-        return { value: parsed, currency: currencyCode };
-      }
-    }
-  }
-  
-  return null;
-}
+// Non-capturing optional currency before an amount
+const OPTIONAL_CURRENCY_PREFIX = `(?:${CURRENCY_PREFIX_PATTERN}\\s*)?`;
 
 /**
  * Industry-agnostic: Normalize text for comparison (strip punctuation, normalize case, collapse whitespace, singularize)
@@ -1874,14 +1473,17 @@ function normalizeItemLabel(text: string): string {
  */
 async function satisfiesConstraintsStructuredOrTags(
   candidate: any, // EnrichedCandidate type - defined later in scope
-  constraints: Array<{ key: string; value: string }>,
-  facetVocabulary?: { optionNames: Set<string>; optionNameToValues: Map<string, Set<string>> }
+  constraints: Array<{ key: string; value: string; values?: string[] }>,
+  facetVocabulary?: { optionNames: Set<string>; optionNameToValues: Map<string, Set<string>>; mapping?: FacetMappingConfig }
 ): Promise<{ ok: boolean; conflict?: { facet: string; expected: string; actual: string; source: string } }> {
   if (constraints.length === 0) {
     return { ok: true };
   }
   
-  const { productSatisfiesConstraints, extractConstraintsFromTags, normalizeFacetValue } = await import("~/utils/facets.server");
+  const { productSatisfiesConstraints, extractConstraintsFromTags, extractMappedFacetValues, applyFacetMapping, getConstraintValues } = await import("~/utils/facets.server");
+  // Merchant facet mapping (Settings > Facet mapping): option names, tag prefixes and metafields -> facet
+  const facetMapping = facetVocabulary?.mapping;
+  const facetKeyOf = (name: string) => (facetMapping ? applyFacetMapping(name, facetMapping) : name.toLowerCase().trim());
   
   // Helper to check if two values match (with equivalence)
   function valueMatchesConstraint(productValue: string, constraintValue: string, constraintKey?: string): boolean {
@@ -1959,7 +1561,7 @@ async function satisfiesConstraintsStructuredOrTags(
   }
   
   // Step 1: Try structured matching (variants/options)
-  const structuredMatch = productSatisfiesConstraints(candidate, constraints, true);
+  const structuredMatch = productSatisfiesConstraints(candidate, constraints, true, facetMapping);
   if (structuredMatch) {
     return { ok: true };
   }
@@ -1973,23 +1575,23 @@ async function satisfiesConstraintsStructuredOrTags(
     for (const variant of candidate.variants) {
       if (Array.isArray(variant.selectedOptions)) {
         for (const opt of variant.selectedOptions) {
-          const optName = (opt.name || "").toLowerCase().trim();
+          const optName = facetKeyOf(opt.name || "");
           const optValue = (opt.value || "").toLowerCase().trim();
           
           for (const constraint of constraints) {
-            const constraintKey = constraint.key.toLowerCase().trim();
-            const constraintValue = constraint.value.toLowerCase().trim();
+            const constraintKey = facetKeyOf(constraint.key);
+            const constraintValues = getConstraintValues(constraint).map((v) => v.toLowerCase().trim());
             
             if (optName === constraintKey) {
-              // Check if values match (with equivalence)
-              const matches = valueMatchesConstraint(optValue, constraintValue, constraint.key);
+              // Check if values match (with equivalence) - any accepted alternative
+              const matches = constraintValues.some((constraintValue) => valueMatchesConstraint(optValue, constraintValue, constraint.key));
               if (!matches) {
                 // Explicit conflict in structured data
                 return {
                   ok: false,
                   conflict: {
                     facet: constraint.key,
-                    expected: constraint.value,
+                    expected: constraintValues.join(" | "),
                     actual: opt.value,
                     source: "variant_option"
                   }
@@ -2002,22 +1604,29 @@ async function satisfiesConstraintsStructuredOrTags(
     }
   }
   
-  // Step 3: Extract tag-derived constraints and check for conflicts
-  const tagConstraints = extractConstraintsFromTags(tags, discoveredOptionNames);
-  const tagConstraintsMap = new Map<string, string>();
+  // Step 3: Extract tag-derived (and merchant-mapped metafield) constraints and check for conflicts
+  const tagConstraints = extractConstraintsFromTags(tags, discoveredOptionNames, facetMapping);
+  const tagConstraintsMap = new Map<string, string[]>();
   for (const tc of tagConstraints) {
-    tagConstraintsMap.set(tc.key.toLowerCase(), tc.value.toLowerCase());
+    const key = tc.key.toLowerCase();
+    tagConstraintsMap.set(key, [...(tagConstraintsMap.get(key) || []), tc.value.toLowerCase()]);
+  }
+  for (const [facet, values] of extractMappedFacetValues({ metafields: candidate.metafields }, facetMapping)) {
+    if (!tagConstraintsMap.has(facet)) tagConstraintsMap.set(facet, values);
   }
   
   // Check if tag constraints conflict with requested constraints
   for (const constraint of constraints) {
-    const constraintKey = constraint.key.toLowerCase().trim();
-    const constraintValue = constraint.value.toLowerCase().trim();
-    const tagValue = tagConstraintsMap.get(constraintKey);
+    const constraintKey = facetKeyOf(constraint.key);
+    const constraintValues = getConstraintValues(constraint).map((v) => v.toLowerCase().trim());
+    const tagValues = tagConstraintsMap.get(constraintKey);
     
-    if (tagValue) {
+    if (tagValues && tagValues.length > 0) {
+      const tagValue = tagValues.join(", ");
       // Tag has this facet - check if it matches
-      const matches = valueMatchesConstraint(tagValue, constraintValue, constraint.key);
+      const matches = tagValues.some((value) =>
+        constraintValues.some((constraintValue) => valueMatchesConstraint(value, constraintValue, constraint.key))
+      );
       if (matches) {
         // Tag matches - accept
         return { ok: true };
@@ -2054,8 +1663,8 @@ async function satisfiesConstraintsStructuredOrTags(
     
     let tokenFallbackMatch = true;
     for (const constraint of constraints) {
-      const constraintValue = constraint.value.toLowerCase().trim();
-      if (!indexedText.includes(constraintValue)) {
+      const constraintValues = getConstraintValues(constraint).map((v) => v.toLowerCase().trim());
+      if (!constraintValues.some((constraintValue) => indexedText.includes(constraintValue))) {
         tokenFallbackMatch = false;
         break;
       }
@@ -2237,7 +1846,7 @@ function extractStructuredBundleItems(userIntent: string): Array<{
  * Parse bundle intent: detect multi-item queries (e.g., "3 piece suit, shirt and trousers")
  * Industry-agnostic bundle detection with per-item constraint extraction
  */
-function parseBundleIntentGeneric(userIntent: string): {
+function parseBundleIntentGeneric(userIntent: string, preferredCurrency?: string | null): {
   isBundle: boolean;
   items: Array<{ 
     hardTerms: string[]; 
@@ -2832,7 +2441,7 @@ function parseBundleIntentGeneric(userIntent: string): {
     }
     
     // Extract price ceiling scoped to this item (e.g., "suit under $100")
-    const itemPriceCeilingResult = parsePriceCeiling(itemContext);
+    const itemPriceCeilingResult = parsePriceCeiling(itemContext, preferredCurrency);
     
     // Build option constraints if any found
     if (itemSize || itemColor || itemMaterial) {
@@ -2867,7 +2476,7 @@ function parseBundleIntentGeneric(userIntent: string): {
   }
   
   // Extract total budget if mentioned using improved numeric constraint parsing
-  const totalBudgetResult = parsePriceCeiling(userIntent);
+  const totalBudgetResult = parsePriceCeiling(userIntent, preferredCurrency);
   const totalBudget = totalBudgetResult?.value ?? null;
   const totalBudgetCurrency = totalBudgetResult?.currency ?? null;
   
@@ -2907,40 +2516,6 @@ function parseBundleIntentGeneric(userIntent: string): {
   return { isBundle: true, items, totalBudget, totalBudgetCurrency: totalBudgetCurrency || null };
 }
 
-function mergeConstraints(a: VariantConstraints, b: VariantConstraints): VariantConstraints {
-  // a has priority over b
-  // Merge allowValues: a's allowValues take priority, but merge if both exist for same attribute
-  const allowValues: Record<string, string[]> = {};
-  if (a.allowValues) {
-    Object.assign(allowValues, a.allowValues);
-  }
-  if (b.allowValues) {
-    for (const [key, values] of Object.entries(b.allowValues)) {
-      if (!allowValues[key]) {
-        allowValues[key] = values;
-      }
-    }
-  }
-  
-  const result: VariantConstraints = {
-    size: a.size ?? b.size,
-    color: a.color ?? b.color,
-    material: a.material ?? b.material,
-  };
-  
-  if (Object.keys(allowValues).length > 0) {
-    result.allowValues = allowValues;
-  }
-  
-  return result;
-}
-
-type VariantPreferences = Record<string, string>;
-
-function normKey(key: string): string {
-  return key.trim().replace(/\s+/g, " ");
-}
-
 function equalKey(a: string, b: string): boolean {
   return a.trim().toLowerCase() === b.trim().toLowerCase();
 }
@@ -2971,19 +2546,20 @@ function findCanonicalOptionName(rawKey: string, knownOptionNames: string[]): st
   return null;
 }
 
-function mergePreferences(primary: VariantPreferences, secondary: VariantPreferences): VariantPreferences {
-  // primary wins
-  return { ...secondary, ...primary };
-}
-
-function escapeRegExp(s: string): string {
-  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
-
-function parsePreferencesFromAnswers(answersJson: any, knownOptionNames: string[]): VariantPreferences {
+function parsePreferencesFromAnswers(answersJson: any, knownOptionNames: string[], answerSignals?: AnswerIntentSignals): VariantPreferences {
   const root = answersJson?.answers ?? answersJson ?? {};
   const prefs: VariantPreferences = {};
 
+  // Case 0: typed quiz answers mapped to a facet (single value only - several values are an OR allow-list, not a preference)
+  if (answerSignals) {
+    for (const [facet, values] of Object.entries(answerSignals.hardFacets)) {
+      if (values.length !== 1) continue;
+      const canonical = findCanonicalOptionName(facet, knownOptionNames);
+      if (!canonical) continue;
+      prefs[normKey(canonical)] = values[0];
+    }
+  }
+
   // Case 1: simple object { Size: "Small", Color: "Green" }
   if (root && typeof root === "object" && !Array.isArray(root)) {
     for (const [rawK, rawV] of Object.entries(root)) {
@@ -3021,27 +2597,6 @@ function parsePreferencesFromAnswers(answersJson: any, knownOptionNames: string[
   return prefs;
 }
 
-function parsePreferencesFromText(text: string, knownOptionNames: string[]): VariantPreferences {
-  const prefs: VariantPreferences = {};
-  const t = (text || "").trim();
-  if (!t) return prefs;
-
-  // Try "OptionName: value" / "OptionName=value" / "OptionName value"
-  for (const optionName of knownOptionNames) {
-    const re = new RegExp(
-      `\\b${escapeRegExp(optionName)}\\b\\s*(?:[:=]|is|in)?\\s*([A-Za-z0-9][A-Za-z0-9 &/\\-]{0,30})`,
-      "i"
-    );
-    const m = t.match(re);
-    if (m?.[1]) prefs[normKey(optionName)] = m[1].trim();
-  }
-
-  // Fallback: keep Patch 2's size/color/material inference (optional)
-  // If you already have parseConstraintsFromText(), reuse it:
-  // - map size->Size, color->Color, material->Material if those option names exist.
-  return prefs;
-}
-
 /**
  * Unified handler for session/start route
  * @param args - React Router LoaderFunctionArgs or ActionFunctionArgs
@@ -3163,6 +2718,10 @@ export async function proxySessionStartAction(
   }
 
   const { experienceId, clientRequestId } = body;
+  // Storefront visitor ID (multi-touch attribution); bounded since it comes from localStorage
+  const visitorId = typeof body.visitorId === "string" && body.visitorId.trim() ? body.visitorId.trim().slice(0, 64) : null;
+  // Shopify Markets presentment currency of the storefront (budgets typed there are in it)
+  const presentment = parsePresentmentCurrency(body);
   let answers = body.answers;
   const messages = (body as any).messages; // Conversation messages (for chat mode)
   // NOTE: resultCount is ignored - Experience.resultCount is the ONLY source of truth
@@ -3464,14 +3023,18 @@ export async function proxySessionStartAction(
         normalized.type = "select";
       }
       
-      // Normalize select options to {value, label} format
-      if (normalized.type === "select" && normalized.options && Array.isArray(normalized.options)) {
+      // Normalize option lists to {value, label} format (image choices keep imageUrl)
+      if (OPTION_QUESTION_TYPES.includes(normalized.type) && normalized.options && Array.isArray(normalized.options)) {
         normalized.options = normalized.options.map((opt: any) => {
           if (typeof opt === "string") {
             return { value: opt, label: opt };
           }
           if (typeof opt === "object" && opt.value !== undefined) {
-            return { value: String(opt.value), label: String(opt.label || opt.value) };
+            return {
+              value: String(opt.value),
+              label: String(opt.label || opt.value),
+              ...(opt.imageUrl ? { imageUrl: String(opt.imageUrl) } : {}),
+            };
           }
           return { value: String(opt), label: String(opt) };
         });
@@ -3499,21 +3062,7 @@ export async function proxySessionStartAction(
     entitlements = await getEntitlements(shop.id);
   } catch (error) {
     console.error("[App Proxy] Error getting entitlements (non-blocking):", error);
-    // Use default entitlements if billing check fails (TRIAL plan defaults)
-    entitlements = {
-      planTier: "TRIAL" as const,
-      includedCreditsX2: 0,
-      addonCreditsX2: 0,
-      usedCreditsX2: 0,
-      totalCreditsX2: 0,
-      remainingX2: 0,
-      experiencesLimit: 1,
-      candidateCap: 100,
-      canBasicReporting: true,
-      canMidReporting: false,
-      overageRatePerCredit: 0.12,
-      showTrialBadge: true,
-    };
+    entitlements = DEFAULT_ENTITLEMENTS;
   }
 
   // Check if answers are provided - if not, just return questions without creating a session
@@ -3593,6 +3142,17 @@ export async function proxySessionStartAction(
     }, { status: 403 });
   }
 
+  // Abuse protection before anything billable: bots, per-visitor / per-shop rate limits, daily credit cap
+  const blocked = guardProxyRequest(request, "sessionStart", shopDomain, visitorId);
+  if (blocked) {
+    return blocked;
+  }
+  const dailyCap = await checkDailyCreditCap(shop.id, shop.dailyCreditCap);
+  if (dailyCap.reached) {
+    console.warn("[App Proxy] Daily credit cap reached - refusing new session", { shop: shopDomain, usedToday: dailyCap.usedToday, cap: shop.dailyCreditCap });
+    return rateLimitedResponse(dailyCap.retryAfterSeconds, "DAILY_LIMIT_REACHED");
+  }
+
   // Calculate dynamic AI window - SMALL-FIRST approach
   // Use candidateCap from plan, but apply reasonable defaults for small-first approach
   // Single-item: 20 candidates for first AI attempt, but can go up to candidateCap for top-up
@@ -3611,6 +3171,12 @@ export async function proxySessionStartAction(
   let aiWindow = baseAiWindow;
   console.log("[App Proxy] Base AI window:", aiWindow, "(singleItemWindow:", singleItemWindow, ", candidateCap:", entitlements.candidateCap, ")");
 
+  // Drop answers to questions hidden by branching (showIf) before they are stored,
+  // saved as conversation messages or parsed
+  if (Array.isArray(answers)) {
+    answers = dropHiddenAnswers(normalizeQuizQuestions(experience.questionsJson || "[]"), answers);
+  }
+
   // Store answers as JSON
   const answersJson = Array.isArray(answers) 
     ? JSON.stringify(answers) 
@@ -3635,6 +3201,7 @@ export async function proxySessionStartAction(
     resultCount: finalResultCount,
     answersJson,
     clientRequestId: clientRequestId && typeof clientRequestId === "string" ? clientRequestId.trim() : null,
+    visitorId,
   });
 
   // CRITICAL: Save answers as conversation messages for all modes (Quiz, Hybrid, Chat)
@@ -3690,10 +3257,13 @@ export async function proxySessionStartAction(
   // Small delay to ensure database commit completes (messages are saved asynchronously)
   await new Promise(resolve => setTimeout(resolve, 100)); // 100ms delay to ensure DB commit
 
-  // Update status to PROCESSING immediately
+  // Update status to PROCESSING immediately (the presentment currency is kept so a requeued job converts budgets the same way)
   await prisma.conciergeSession.update({
     where: { publicToken: sessionToken },
-    data: { status: ConciergeSessionStatus.PROCESSING },
+    data: {
+      status: ConciergeSessionStatus.PROCESSING,
+      presentmentJson: presentment ? JSON.stringify(presentment) : null,
+    },
   });
 
   // Track usage: session started
@@ -3706,47 +3276,9 @@ export async function proxySessionStartAction(
   console.log("[App Proxy] Session created:", sessionToken, "mode:", modeUsed, "experienceId:", experienceIdUsed);
   console.log("[App Proxy] Returning PENDING immediately", { sid: sessionToken, resultCount: finalResultCount });
 
-  // Start background processing asynchronously
-  setImmediate(async () => {
-    const startTime = Date.now();
-    console.log("[App Proxy] Background processing started", { sid: sessionToken });
-    
-    try {
-      await processSessionInBackground({
-        sessionToken,
-        shop,
-        shopDomain,
-        experience,
-        experienceIdUsed,
-        finalResultCount,
-        answersJson,
-        includedCollections: JSON.parse(experience.includedCollections || "[]") as string[],
-        excludedTags: JSON.parse(experience.excludedTags || "[]") as string[],
-        entitlements,
-        modeUsed,
-        baseAiWindow: Math.min(entitlements.candidateCap, 40), // Single-item window, respect candidateCap
-      });
-      
-      const durationMs = Date.now() - startTime;
-      console.log("[App Proxy] Background processing completed", { sid: sessionToken, durationMs });
-    } catch (error: any) {
-      const durationMs = Date.now() - startTime;
-      console.error("[App Proxy] Background processing failed", { sid: sessionToken, durationMs, error: error instanceof Error ? error.message : String(error) });
-      
-      // Mark session as FAILED
-      await prisma.conciergeSession.update({
-        where: { publicToken: sessionToken },
-        data: { status: ConciergeSessionStatus.FAILED },
-      }).catch(() => {});
-      
-      // Save error result
-      await saveConciergeResult({
-        sessionToken,
-        productHandles: [],
-        productIds: null,
-        reasoning: error instanceof Error ? error.message : "Error processing request. Please try again.",
-      }).catch(() => {});
-    }
+  // Queue background processing (durable: survives restarts, retried with backoff, see runSessionProcessingJob)
+  await enqueueJob("session.process", { sessionToken, presentment } satisfies SessionProcessingJobPayload, {
+    dedupeKey: sessionJobDedupeKey(sessionToken),
   });
 
   // Return immediately with PENDING status - processing will happen in background
@@ -3776,6 +3308,7 @@ async function processSessionInBackground({
   entitlements,
   modeUsed,
   baseAiWindow,
+  presentment,
 }: {
   sessionToken: string;
   shop: { id: string; domain: string };
@@ -3789,6 +3322,7 @@ async function processSessionInBackground({
   entitlements: any;
   modeUsed: string;
   baseAiWindow: number;
+  presentment: { currency: string; rate: number | null } | null;
 }): Promise<void> {
   // Track total processing duration for safety clamp
   const processStartTime = performance.now();
@@ -3860,6 +3394,13 @@ async function processSessionInBackground({
   } catch (e) {
     console.error("[App Proxy] Failed to parse answersJson in background processing:", e);
   }
+
+  // Structured signals from typed quiz answers (price range, facets, yes/no terms, rankings)
+  // Then flatten answers to text so the free-text parsers below see "50-150", "Navy, Black", etc.
+  const quizQuestions = normalizeQuizQuestions(experience.questionsJson || "[]");
+  const answerSignals = extractAnswerSignals(quizQuestions, resolveAnswerEntries(quizQuestions, answers));
+  answers = flattenAnswersForPipeline(answers);
+  console.log(`[AnswerSignals] priceMin=${answerSignals.priceMin ?? "null"} priceMax=${answerSignals.priceMax ?? "null"} hardFacets=${JSON.stringify(answerSignals.hardFacets)} hardTerms=[${answerSignals.hardTerms.join(", ")}] softTerms=[${answerSignals.softTerms.join(", ")}] avoidTerms=[${answerSignals.avoidTerms.join(", ")}]`);
   
   // If we have conversation messages but no answers, extract from conversation
   if (conversationMessages.length > 0 && answers.length === 0) {
@@ -3889,12 +3430,38 @@ async function processSessionInBackground({
     return; // Exit early - DO NOT fetch products, DO NOT call AI ranking, DO NOT bill
   }
 
-  // Parse answers to extract price/budget range if present
-  // Industry-agnostic: supports per-item budgets in bundle mode, most restrictive for single-item
-  let priceMin: number | null = null;
-  let priceMax: number | null = null;
-  let userCurrency: string | null = null; // Track user-specified currency from answers
+  await reportSessionProgress(sessionToken, { stage: "understanding" });
+
+  // Get access token from Session table
+  const accessToken = await getAccessTokenForShop(shopDomain);
+  
+  // Get shop currency (fetched once) - budgets below are detected against it and converted to it
+  let shopCurrency: string | null = null;
+  if (accessToken) {
+    shopCurrency = await getShopCurrency(shopDomain, accessToken);
+    console.log("[Currency] shop_currency", { shopCurrency: shopCurrency || "unknown" });
+  }
+  const shopperCurrency = presentment?.currency || shopCurrency;
+  let budgetRateTable: CurrencyRateTable | null = null;
+  if (shopCurrency) {
+    budgetRateTable = await getShopRateTable(shop.id, shopCurrency);
+    // The storefront's live Markets rate wins over a stored rate for the currency the shopper is browsing in
+    if (presentment?.rate && presentment.currency !== shopCurrency) {
+      budgetRateTable.rates[presentment.currency] = presentment.rate;
+    }
+  }
+  const budgetCurrencyContext: BudgetCurrencyContext = { shopCurrency, shopperCurrency, rateTable: budgetRateTable };
+  if (presentment) {
+    console.log("[Currency] presentment_currency", { presentmentCurrency: presentment.currency, rate: presentment.rate ?? "none", shopCurrency: shopCurrency || "unknown" });
+  }
+
+  // Parse answers to extract price/budget range if present
+  // Industry-agnostic: supports per-item budgets in bundle mode, most restrictive for single-item
+  let priceMin: number | null = null;
+  let priceMax: number | null = null;
+  let userCurrency: string | null = null; // Track user-specified currency from answers
   const detectedBudgets: Array<{ min: number | null; max: number | null; currency: string | null; source: string }> = []; // Track all detected budgets
+  let detectedPriceTarget: PriceConstraint | null = null; // "around 30 euros" - its bounds are in detectedBudgets
   
   // Issue 2/3 fix: Initialize per-item budgets array early (before global budget resolution)
   // This will be populated from conversation messages and answers array
@@ -4055,7 +3622,7 @@ async function processSessionInBackground({
           
           // If we found an item type, add as per-item budget
           if (itemType && minAmount > 0 && maxAmount > 0 && minAmount <= maxAmount) {
-            const currency = detectCurrencySymbol(answerStr) || (answerStr.includes("$") ? "USD" : null);
+            const currency = detectCurrencySymbol(answerStr);
             perItemBudgets.push({
               itemType,
               itemTerms,
@@ -4071,12 +3638,9 @@ async function processSessionInBackground({
     }
   }
   
-  // Helper to detect currency symbol in answer string
+  // Helper to detect the currency (symbol, code or word) in an answer string
   function detectCurrencySymbol(s: string): string | null {
-    if (s.includes("£")) return "GBP";
-    if (s.includes("$")) return "USD";
-    if (s.includes("€")) return "EUR";
-    return null;
+    return detectCurrencyCode(s, shopperCurrency);
   }
   
   if (Array.isArray(answers)) {
@@ -4087,32 +3651,18 @@ async function processSessionInBackground({
       let detectedMax: number | null = null;
       let detectedCurrency: string | null = null;
       
-      // First, check for minimum price patterns ("above", "over", "more than")
       const answerLower = answerStr.toLowerCase().trim();
       
-      // Handle "above $250", "over $250", "more than $250" (minimum price)
-      const abovePattern = /(?:above|over|more\s+than)\s+([£$€]?)\s*(\d{1,3}(?:,\d{3})*(?:\.\d+)?|\d+(?:\.\d+)?)/i;
-      const aboveMatch = answerStr.match(abovePattern);
-      if (aboveMatch) {
-        const currencySymbol = aboveMatch[1] || "";
-        const valueStr = aboveMatch[2] || "";
-        const cleanedValue = valueStr.replace(/,/g, "");
-        const parsed = parseFloat(cleanedValue);
-        if (!isNaN(parsed) && isFinite(parsed) && parsed > 0) {
-          detectedMin = parsed;
-          detectedCurrency = detectCurrencySymbol(answerStr);
-          detectedBudgets.push({ min: detectedMin, max: null, currency: detectedCurrency, source: answerStr });
-          continue; // Found minimum, move to next answer
+      // Ranges, floors, targets and ceilings: "between £50 and £80", "at least $200", "around 30 euros", "under $100"
+      const answerPriceConstraint = parsePriceConstraint(answerStr, shopperCurrency);
+      if (answerPriceConstraint !== null) {
+        const bounds = priceConstraintBounds(answerPriceConstraint);
+        detectedCurrency = answerPriceConstraint.currency;
+        detectedBudgets.push({ min: bounds.min, max: bounds.max, currency: detectedCurrency, source: answerStr });
+        if (answerPriceConstraint.target !== null && detectedPriceTarget === null) {
+          detectedPriceTarget = answerPriceConstraint;
         }
-      }
-      
-      // Then, try to extract price ceiling using improved parsing
-      const priceCeilingResult = parsePriceCeiling(answerStr);
-      if (priceCeilingResult !== null) {
-        detectedMax = priceCeilingResult.value;
-        detectedCurrency = priceCeilingResult.currency || null;
-        detectedBudgets.push({ min: null, max: detectedMax, currency: detectedCurrency, source: answerStr });
-        continue; // Found ceiling, move to next answer
+        continue; // Found a price constraint, move to next answer
       }
       
       // Fallback to legacy range parsing for backward compatibility
@@ -4254,11 +3804,11 @@ async function processSessionInBackground({
           // Try to extract item type and budget from this part
           // Pattern 1: "itemType [for] less than/then $amount" or "itemType [for] under $amount" (industry-agnostic)
           // Note: Handles typo "less then" as well as "less than"
-          const lessThanMatch = partTrimmed.match(/(.+?)\s+(?:for\s+)?(?:less\s+(?:than|then)|under)\s+\$?(\d+)/i);
+          const lessThanMatch = partTrimmed.match(new RegExp(`(.+?)\\s+(?:for\\s+)?(?:less\\s+(?:than|then)|under)\\s+${OPTIONAL_CURRENCY_PREFIX}(\\d+)`, "i"));
           if (lessThanMatch) {
             const itemPart = lessThanMatch[1].trim();
             const amount = parseFloat(lessThanMatch[2]);
-            const currency = detectCurrencySymbol(partTrimmed) || (partTrimmed.includes("$") ? "USD" : null);
+            const currency = detectCurrencySymbol(partTrimmed);
             
             // Extract item terms using industry-agnostic approach
             const itemTerms = extractItemTerms(itemPart);
@@ -4281,12 +3831,12 @@ async function processSessionInBackground({
           }
           
           // Pattern 2: "itemType [for] $min-$max" or "itemType [for] $min to $max" (range)
-          const rangeMatch = partTrimmed.match(/(.+?)\s+(?:for\s+)?\$?(\d+)[\s\-]+(?:to|and|-)\s+\$?(\d+)/i);
+          const rangeMatch = partTrimmed.match(new RegExp(`(.+?)\\s+(?:for\\s+)?${OPTIONAL_CURRENCY_PREFIX}(\\d+)[\\s\\-]+(?:to|and|-)\\s+${OPTIONAL_CURRENCY_PREFIX}(\\d+)`, "i"));
           if (rangeMatch) {
             const itemPart = rangeMatch[1].trim();
             const minAmount = parseFloat(rangeMatch[2]);
             const maxAmount = parseFloat(rangeMatch[3]);
-            const currency = detectCurrencySymbol(partTrimmed) || (partTrimmed.includes("$") ? "USD" : null);
+            const currency = detectCurrencySymbol(partTrimmed);
             
             // Extract item terms using industry-agnostic approach
             const itemTerms = extractItemTerms(itemPart);
@@ -4308,11 +3858,11 @@ async function processSessionInBackground({
           }
           
           // Pattern 3: "itemType for $amount" pattern (exact price)
-          const exactPriceMatch = partTrimmed.match(/(.+?)\s+for\s+\$?(\d+)/i);
+          const exactPriceMatch = partTrimmed.match(new RegExp(`(.+?)\\s+for\\s+${OPTIONAL_CURRENCY_PREFIX}(\\d+)`, "i"));
           if (exactPriceMatch) {
             const itemPart = exactPriceMatch[1].trim();
             const amount = parseFloat(exactPriceMatch[2]);
-            const currency = detectCurrencySymbol(partTrimmed) || (partTrimmed.includes("$") ? "USD" : null);
+            const currency = detectCurrencySymbol(partTrimmed);
             
             // Extract item terms using industry-agnostic approach
             const itemTerms = extractItemTerms(itemPart);
@@ -4380,26 +3930,44 @@ async function processSessionInBackground({
     }
   }
   
+  // Range / price slider answers are exact - they override budgets parsed from text
+  if (answerSignals.priceMin !== null || answerSignals.priceMax !== null) {
+    priceMin = answerSignals.priceMin;
+    priceMax = answerSignals.priceMax;
+    userCurrency = null; // Slider values are in the storefront currency
+    detectedPriceTarget = null;
+    console.log(`[Budget] source=range_question priceMin=${priceMin ?? "null"} priceMax=${priceMax ?? "null"}`);
+  }
+
   // Log budget detection summary - answers are the SINGLE source of truth
   if (priceMin !== null || priceMax !== null) {
     console.log(`[Budget] source=answers priceMin=${priceMin ?? "null"} priceMax=${priceMax ?? "null"} userCurrency=${userCurrency ?? "none"} ignore_llm_totalBudget=true`);
   }
   
+  // Catalog prices are in the shop currency: compare like with like from here on
+  // (per-item budgets keep their typed values and are converted where they are applied)
+  priceMin = convertBudgetToShopCurrency(priceMin, userCurrency, budgetCurrencyContext, "priceMin");
+  priceMax = convertBudgetToShopCurrency(priceMax, userCurrency, budgetCurrencyContext, "priceMax");
+
+  // Shopper's price intent in the shop currency: gating uses priceMin/priceMax, the target is kept to word relaxations
+  const activePriceConstraint = (constraint: PriceConstraint): PriceConstraint | null =>
+    constraint.min !== null || constraint.max !== null || constraint.target !== null ? constraint : null;
+  let priceConstraint = activePriceConstraint({
+    min: priceMin,
+    max: priceMax,
+    target: detectedPriceTarget?.target != null && (priceMin !== null || priceMax !== null)
+      ? convertBudgetToShopCurrency(detectedPriceTarget.target, detectedPriceTarget.currency, budgetCurrencyContext, "priceTarget")
+      : null,
+    tolerance: detectedPriceTarget?.tolerance ?? null,
+    currency: shopCurrency,
+  });
+
   // Store per-item budgets for bundle mode
   const perItemBudgetsForBundle = perItemBudgets;
 
-  // Get access token from Session table
-  const accessToken = await getAccessTokenForShop(shopDomain);
-  
-  // Get shop currency (cached, fetched once)
-  let shopCurrency: string | null = null;
-  if (accessToken) {
-    shopCurrency = await getShopCurrency(shopDomain, accessToken);
-    console.log("[Currency] shop_currency", { shopCurrency: shopCurrency || "unknown" });
-  }
-  
   let productHandles: string[] = [];
   let aiCallCount = 0; // Track AI ranking calls per session (should be 0 or 1)
+  let aiProductReasons: ProductExplanations | null = null; // Per-product reasons written by the AI ranking
   let intentParseCallCount = 0; // Track intent parsing calls per session (should be 0 or 1)
   
   // Performance timing variables
@@ -4410,6 +3978,20 @@ async function processSessionInBackground({
   let aiMs = 0; // Reset to 0 at start of each session background processing
   let saveMs = 0;
   
+  // Per-stage timing and added / removed handles for the staged parts of the pipeline
+  const pipelineCtx: PipelineStageContext = { trace: createPipelineTrace(), label: sessionToken };
+  // Persisted per session for the admin trace viewer (intent, gating, AI window, rejections)
+  const recommendationTrace = createRecommendationTrace();
+  recommendationTrace.stages = pipelineCtx.trace.entries;
+  const persistRecommendationTrace = async () => {
+    try {
+      await saveRecommendationTrace(sessionToken, recommendationTrace);
+    } catch (error) {
+      // The trace is diagnostic only - never fail the session over it
+      console.error("[Trace] Failed to save recommendation trace:", error);
+    }
+  };
+  
   // Declare finalHandlesGuaranteed early to ensure it's always in scope
   // Even if an exception occurs before its normal initialization
   let finalHandlesGuaranteed: string[] = [];
@@ -4423,6 +4005,18 @@ async function processSessionInBackground({
     if (accessToken) {
       const shopifyFetchStart = performance.now();
       
+      // Catalog access for the pipeline stages
+      const searchCatalog: StageProductSearch = (query, targetCount) =>
+        fetchProductsByQueryPaginated(shopDomain, accessToken, query, targetCount, 200);
+      const fetchDescriptions: StageDescriptionFetch = (handles) =>
+        fetchCatalogProductDescriptionsByHandles({ shopDomain, accessToken, handles });
+      const smartFetchStage = createSmartFetchStage({ search: searchCatalog, buildQuery: buildShopifySearchQuery });
+      const deepAttributeSearchStage = createDeepAttributeSearchStage({
+        search: searchCatalog,
+        buildQuery: buildShopifySearchQuery,
+        fetchDescriptions,
+      });
+      
       // ============================================
       // INTENT-FIRST SMART FETCH
       // ============================================
@@ -4471,225 +4065,17 @@ async function processSessionInBackground({
           console.log(`[SmartFetch] bundle_mode=true - skipping initial fetch, will fetch per itemType after intent parsing`);
           usingSmartFetch = false; // Skip initial SmartFetch for bundles
         } else {
-          // Step A: Build targeted query (using default field_restricted strategy)
-          let query = buildShopifySearchQuery(fetchSignals, 500, "field_restricted");
-        
-        if (query) {
-            console.log(`[SmartFetch] keywords=[${fetchSignals.keywords.join(", ")}] query="${query}"`);
-          console.log(`[SmartFetch] query_step=A query="${query.substring(0, 200)}${query.length > 200 ? "..." : ""}"`);
-          
-          try {
-              // Helper function to filter negative matches and phrase mismatches (industry-agnostic)
-              const filterNegativeMatches = (products: any[], keywords: string[], selections: string[] = []): any[] => {
-                const negativeIndicators = ["no", "sans", "free", "without", "not", "non", "zero", "0", "ohne", "sin"];
-                const meaningfulKeywords = keywords.filter(k => k.length >= 4); // Only meaningful terms
-                
-                // Extract phrase selections (multi-word phrases)
-                const phraseSelections = selections.filter(s => s.includes(" ") && s.trim().length >= 6);
-                
-                return products.filter((p: any) => {
-                  const searchableText = [
-                    p.title || "",
-                    p.productType || "",
-                    (p.tags || []).join(" "),
-                    p.vendor || "",
-                    p.handle || "" // Include handle to catch patterns like "0-perfume" in URL
-                  ].join(" ").toLowerCase();
-                  
-                  // Check for negative patterns with keywords (with space, hyphen, and percentage support)
-                  const hasNegativeMatch = meaningfulKeywords.some(keyword => {
-                    const keywordLower = keyword.toLowerCase();
-                    // Pattern 1a: negative indicator + keyword with space (e.g., "no perfume", "sans parfum")
-                    const pattern1a = new RegExp(`\\b(?:${negativeIndicators.join("|")})\\s+${keywordLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-                    // Pattern 1b: negative indicator + keyword with hyphen (e.g., "no-perfume", "0-perfume")
-                    const pattern1b = new RegExp(`\\b(?:${negativeIndicators.join("|")})[-_]${keywordLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-                    // Pattern 1c: negative indicator + % + keyword (e.g., "0% perfume", "zero% perfume")
-                    const pattern1c = new RegExp(`\\b(?:${negativeIndicators.join("|")})\\s*%\\s*${keywordLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-                    // Pattern 2a: keyword + negative indicator with space (e.g., "perfume free", "parfum sans")
-                    const pattern2a = new RegExp(`\\b${keywordLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s+(?:${negativeIndicators.join("|")})\\b`, 'i');
-                    // Pattern 2b: keyword + negative indicator with hyphen (e.g., "perfume-free", "parfum-sans")
-                    const pattern2b = new RegExp(`\\b${keywordLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}[-_](?:${negativeIndicators.join("|")})\\b`, 'i');
-                    // Pattern 2c: keyword + % + negative indicator (e.g., "perfume 0%", "parfum zero%")
-                    const pattern2c = new RegExp(`\\b${keywordLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s+%\\s*(?:${negativeIndicators.join("|")})\\b`, 'i');
-                    return pattern1a.test(searchableText) || pattern1b.test(searchableText) || pattern1c.test(searchableText) ||
-                           pattern2a.test(searchableText) || pattern2b.test(searchableText) || pattern2c.test(searchableText);
-                  });
-                  
-                  if (hasNegativeMatch) return false;
-                  
-                  // If we have phrase selections, filter out products that match individual tokens
-                  // in negative/unrelated contexts (e.g., "food" in "non food products" when searching "pet food")
-                  if (phraseSelections.length > 0 && keywords.length >= 2) {
-                    // Check if product matches the phrase (preferred)
-                    const matchesPhrase = phraseSelections.some(phrase => {
-                      const phraseLower = phrase.toLowerCase();
-                      // Check if phrase appears as a whole (word boundaries)
-                      const phrasePattern = new RegExp(`\\b${phraseLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-                      return phrasePattern.test(searchableText);
-                    });
-                    
-                    // If product matches the phrase, keep it
-                    if (matchesPhrase) {
-                      return true;
-                    }
-                    
-                    // If product doesn't match phrase, check if individual tokens appear in negative contexts
-                    // For example: "food" in "non food products" or "non-food products" should be filtered when searching "pet food"
-                    const hasTokenInNegativeContext = keywords.some(keyword => {
-                      const keywordLower = keyword.toLowerCase();
-                      // Check if keyword appears with a negative indicator before it (with space or hyphen)
-                      const negativeBeforePatternSpace = new RegExp(`\\b(?:${negativeIndicators.join("|")})\\s+${keywordLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-                      const negativeBeforePatternHyphen = new RegExp(`\\b(?:${negativeIndicators.join("|")})[-_]${keywordLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-                      return negativeBeforePatternSpace.test(searchableText) || negativeBeforePatternHyphen.test(searchableText);
-                    });
-                    
-                    // Filter out products where tokens appear in negative contexts
-                    if (hasTokenInNegativeContext) {
-                      return false;
-                    }
-                    
-                    // For phrase queries, if product doesn't match the phrase, require ALL meaningful tokens to match
-                    // This filters out products that only match one token (e.g., "food" in "Hair Food" when searching "pet food")
-                    // CRITICAL: Filter out stopwords from the "all tokens match" check - stopwords shouldn't block matches
-                    const stopwordsForPhraseCheck = new Set(["the", "a", "an", "and", "or", "but", "in", "on", "at", "to", "for", "of", "with", "by",
-                      "from", "as", "is", "was", "are", "were", "been", "be", "have", "has", "had", "do", "does", "did",
-                      "will", "would", "could", "should", "may", "might", "must", "can", "this", "that", "thats", "that's", "these", "those",
-                      "i", "you", "he", "she", "it", "we", "they", "me", "him", "her", "us", "them",
-                      "what", "which", "who", "whom", "where", "when", "why", "how", "if", "then", "else",
-                      "about", "above", "after", "before", "below", "between", "during", "through", "under", "over",
-                      "up", "down", "out", "off", "away", "back", "here", "there", "where", "everywhere", "nowhere",
-                      "some", "any", "all", "both", "each", "every", "few", "many", "most", "other", "some", "such",
-                      "no", "not", "none", "nothing", "nobody", "nowhere", "never", "neither", "nor",
-                      "want", "looking", "for", "need", "prefer", "like", "add", "also", "less", "than", "below", "over", "between", "then",
-                      "products", "product", "items", "item", "goods", "merchandise",
-                      "contain", "contains", "containing", "with", "having", "includes", "including",
-                      "which", "who", "whose", "where", "when",
-                      "something", "anything", "everything", "nothing", "some", "any", "all"]);
-                    
-                    const meaningfulKeywords = keywords.filter(k => {
-                      const kLower = k.toLowerCase();
-                      return kLower.length >= 3 && !stopwordsForPhraseCheck.has(kLower);
-                    });
-                    
-                    // Only require meaningful keywords to match (ignore stopwords)
-                    if (meaningfulKeywords.length > 0) {
-                      const allMeaningfulTokensMatch = meaningfulKeywords.every(keyword => {
-                        const keywordLower = keyword.toLowerCase();
-                        const keywordPattern = new RegExp(`\\b${keywordLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-                        return keywordPattern.test(searchableText);
-                      });
-                      
-                      // Only keep if all meaningful tokens match (not just one)
-                      if (!allMeaningfulTokensMatch) {
-                        return false;
-                      }
-                    }
-                  }
-                  
-                  return true;
-                });
-              };
-              
-            // Step A: Targeted fetch
-            const stepA = await fetchProductsByQueryPaginated(
-              shopDomain,
-              accessToken,
-              query,
-              SMART_FETCH_DESIRED_MIN,
-              200
-            );
-            
-            // Filter negative matches from Step A
-            const stepAFiltered = filterNegativeMatches(stepA.products, fetchSignals.keywords, fetchSignals.selections);
-            const stepAFilteredCount = stepA.products.length - stepAFiltered.length;
-            if (stepAFilteredCount > 0) {
-              console.log(`[SmartFetch] stepA filtered_negative_matches=${stepAFilteredCount} remaining=${stepAFiltered.length}`);
-            }
-            
-            smartFetchProducts = stepAFiltered;
-            const sampleTitles = stepA.products.slice(0, 5).map((p: any) => p.title || "").filter((t: string) => t.length > 0);
-            console.log(`[SmartFetch] fetched=${stepA.products.length} sample_titles=[${sampleTitles.join(", ")}]`);
-            console.log(`[SmartFetch] query_step=A fetched=${stepA.products.length} totalFetched=${stepA.totalFetched} hadMorePages=${stepA.hasMorePages}`);
-            
-            // Step B: Widen if insufficient (remove AND constraints, keep OR keywords)
-            if (smartFetchProducts.length < SMART_FETCH_DESIRED_MIN && stepA.hasMorePages) {
-              const widen1Query = buildShopifySearchQuery({
-                keywords: fetchSignals.keywords,
-                selections: [], // Drop selections for widening
-                hasMeaningfulSignals: fetchSignals.keywords.length > 0,
-              }, 400, "field_restricted");
-              
-              if (widen1Query && widen1Query !== query) {
-                console.log(`[SmartFetch] built_query="${widen1Query}"`);
-                console.log(`[SmartFetch] widen_step=1 query="${widen1Query.substring(0, 200)}${widen1Query.length > 200 ? "..." : ""}"`);
-                
-                const stepB = await fetchProductsByQueryPaginated(
-                  shopDomain,
-                  accessToken,
-                  widen1Query,
-                  SMART_FETCH_DESIRED_MIN - smartFetchProducts.length,
-                  200
-                );
-                
-                const sampleTitlesB = stepB.products.slice(0, 5).map((p: any) => p.title || "").filter((t: string) => t.length > 0);
-                console.log(`[SmartFetch] fetched=${stepB.products.length} sample_titles=[${sampleTitlesB.join(", ")}]`);
-                
-                // Filter negative matches from Step B
-                const stepBFiltered = filterNegativeMatches(stepB.products, fetchSignals.keywords, fetchSignals.selections);
-                const stepBFilteredCount = stepB.products.length - stepBFiltered.length;
-                if (stepBFilteredCount > 0) {
-                  console.log(`[SmartFetch] stepB filtered_negative_matches=${stepBFilteredCount} remaining=${stepBFiltered.length}`);
-                }
-                
-                // Deduplicate
-                const seenHandles = new Set(smartFetchProducts.map((p: any) => p.handle));
-                const newProducts = stepBFiltered.filter((p: any) => !seenHandles.has(p.handle));
-                smartFetchProducts.push(...newProducts);
-                
-                console.log(`[SmartFetch] widen_step=1 fetchedTotal=${smartFetchProducts.length}`);
-              }
-            }
-            
-            // Step C: Paginate more if still insufficient
-            if (smartFetchProducts.length < SMART_FETCH_DESIRED_MIN && smartFetchProducts.length < SMART_FETCH_CAP) {
-              console.log(`[SmartFetch] widen_step=2 paginate=true`);
-              
-              const stepC = await fetchProductsByQueryPaginated(
-                shopDomain,
-                accessToken,
-                query,
-                SMART_FETCH_CAP - smartFetchProducts.length,
-                200
-              );
-              
-              // Filter negative matches from Step C
-              const stepCFiltered = filterNegativeMatches(stepC.products, fetchSignals.keywords, fetchSignals.selections);
-              const stepCFilteredCount = stepC.products.length - stepCFiltered.length;
-              if (stepCFilteredCount > 0) {
-                console.log(`[SmartFetch] stepC filtered_negative_matches=${stepCFilteredCount} remaining=${stepCFiltered.length}`);
-              }
-              
-              // Deduplicate
-              const seenHandles = new Set(smartFetchProducts.map((p: any) => p.handle));
-              const newProducts = stepCFiltered.filter((p: any) => !seenHandles.has(p.handle));
-              smartFetchProducts.push(...newProducts);
-              
-              console.log(`[SmartFetch] widen_step=2 fetchedTotal=${smartFetchProducts.length}`);
-            }
-            
-            if (smartFetchProducts.length > 0) {
-              usingSmartFetch = true;
-              console.log(`[SmartFetch] final candidates=${smartFetchProducts.length} usingSmartFetch=true`);
-            } else {
-              console.log(`[SmartFetch] fallback_to_pool=true reason=insufficient_candidates`);
-            }
-          } catch (error) {
-            console.error(`[SmartFetch] Error during smart fetch:`, error);
-            console.log(`[SmartFetch] fallback_to_pool=true reason=query_error`);
-            smartFetchProducts = [];
-          }
-        } else {
-          console.log(`[SmartFetch] fallback_to_pool=true reason=no_keywords`);
+          const smartFetch = await runPipelineStage(smartFetchStage, {
+            signals: fetchSignals,
+            desiredMin: SMART_FETCH_DESIRED_MIN,
+            cap: SMART_FETCH_CAP,
+          }, pipelineCtx);
+          smartFetchProducts = smartFetch.products;
+          if (smartFetch.reason === "ok") {
+            usingSmartFetch = true;
+            console.log(`[SmartFetch] final candidates=${smartFetchProducts.length} usingSmartFetch=true`);
+          } else {
+            console.log(`[SmartFetch] fallback_to_pool=true reason=${smartFetch.reason}`);
           }
         }
       } else {
@@ -4728,7 +4114,7 @@ async function processSessionInBackground({
             } catch (error) {
               console.error(`[App Proxy] Query-based fetch error, falling back to collection-based fetch:`, error);
               // Fall back to collection-based fetch if query fails
-        products = await fetchShopifyProducts({
+        products = await fetchCatalogProducts({
         shopDomain,
         accessToken,
         limit: PRODUCT_POOL_LIMIT_FIRST,
@@ -4738,7 +4124,7 @@ async function processSessionInBackground({
           } else {
             // No query possible - use collection-based fetch (better than random)
             console.log(`[App Proxy] No query possible - using collection-based fetch`);
-            products = await fetchShopifyProducts({
+            products = await fetchCatalogProducts({
               shopDomain,
               accessToken,
               limit: PRODUCT_POOL_LIMIT_FIRST,
@@ -4748,7 +4134,7 @@ async function processSessionInBackground({
         } else {
           // No keywords at all - use collection-based fetch (better than random)
           console.log(`[App Proxy] No keywords available - using collection-based fetch`);
-          products = await fetchShopifyProducts({
+          products = await fetchCatalogProducts({
             shopDomain,
             accessToken,
             limit: PRODUCT_POOL_LIMIT_FIRST,
@@ -4959,7 +4345,7 @@ async function processSessionInBackground({
             } catch (error) {
               console.error(`[App Proxy] Stage 2 query-based fetch error, falling back to collection-based fetch:`, error);
               // Fall back to collection-based fetch if query fails
-              allProducts = await fetchShopifyProducts({
+              allProducts = await fetchCatalogProducts({
           shopDomain,
           accessToken,
           limit: PRODUCT_POOL_LIMIT_MAX,
@@ -4969,7 +4355,7 @@ async function processSessionInBackground({
           } else {
             // No query possible - use collection-based fetch (better than random)
             console.log(`[App Proxy] Stage 2 no query possible - using collection-based fetch`);
-            allProducts = await fetchShopifyProducts({
+            allProducts = await fetchCatalogProducts({
               shopDomain,
               accessToken,
               limit: PRODUCT_POOL_LIMIT_MAX,
@@ -4979,7 +4365,7 @@ async function processSessionInBackground({
         } else {
           // No keywords - use collection-based fetch (better than random)
           console.log(`[App Proxy] Stage 2 no keywords - using collection-based fetch`);
-          allProducts = await fetchShopifyProducts({
+          allProducts = await fetchCatalogProducts({
             shopDomain,
             accessToken,
             limit: PRODUCT_POOL_LIMIT_MAX,
@@ -5277,6 +4663,7 @@ async function processSessionInBackground({
         colors: Array.isArray((p as any).colors) ? (p as any).colors : [],
         materials: Array.isArray((p as any).materials) ? (p as any).materials : [],
         optionValues: (p as any).optionValues ?? {},
+        facets: ((p as any).facets ?? {}) as FacetValues, // Option facets by name (vintage, skin type, ...)
         metafields: (p as any).metafields || null, // Metafields object (namespace -> key -> value)
         };
       });
@@ -5294,6 +4681,7 @@ async function processSessionInBackground({
       });
       // Use enrichedCandidates for all subsequent operations
       let allCandidatesEnriched: EnrichedCandidate[] = enrichedCandidates;
+      await reportSessionProgress(sessionToken, { stage: "searching", productCount: enrichedCandidates.length });
       
       // Build Type Lexicon from Shopify catalog (Primary Item-Type Anchor)
       const { 
@@ -5307,8 +4695,17 @@ async function processSessionInBackground({
       console.log(`[TypeAnchor] lexicon_size=${typeLexicon.size} sample_terms=[${Array.from(typeLexicon).slice(0, 10).join(", ")}]`);
       
       // Discover facet vocabulary from candidate pool (industry-agnostic)
-      const { discoverFacetVocabulary, normalizeOptionName } = await import("~/utils/facets.server");
-      const facetVocabulary = discoverFacetVocabulary(enrichedCandidates);
+      const {
+        discoverFacetVocabulary,
+        applyFacetMapping,
+        buildAllowedFacetValues,
+        mergeFacetValues,
+        hardFacetsToFacetValues,
+      } = await import("~/utils/facets.server");
+      const facetMapping = await getShopFacetMapping(shop.id);
+      const facetVocabulary = discoverFacetVocabulary(enrichedCandidates, facetMapping);
+      // Option name -> facet under the merchant's mapping (same as normalizeOptionName when none is configured)
+      const normalizeOptionName = (name: string) => applyFacetMapping(name, facetMapping);
       const discoveredOptionNames = Array.from(facetVocabulary.optionNames);
       const optionNameCounts: Record<string, number> = {};
       for (const optName of discoveredOptionNames) {
@@ -5362,6 +4759,8 @@ async function processSessionInBackground({
         color: null,
         material: null
       };
+      // Generic facets from the intent (vintage, skin type, storage capacity, ...); size/color/material mirror hardFacets
+      let intentFacets: FacetValues = {};
       // Issue 1 fix: Track degraded facets so validation can skip them
       let degradedFacetsForValidation: Array<{ facet: string; value: string; coverage: number }> = [];
       // Create a map for quick lookup of degraded facets
@@ -5390,9 +4789,28 @@ async function processSessionInBackground({
         : undefined;
       
       // Try LLM intent parsing
-      const llmIntentResult = await parseIntentWithLLM(userIntent, conversationHistoryForIntent);
+      // The shop's discovered facet vocabulary is given to the LLM as the allowed facet names/values
+      const llmIntentResult = await parseIntentWithLLM(userIntent, conversationHistoryForIntent, {
+        allowedFacets: buildAllowedFacetValues(facetVocabulary),
+      });
       intentParseCallCount = llmIntentResult.fallbackUsed ? 0 : 1; // Track if LLM was used (not fallback)
       
+      // LLM price constraint only fills the gap when the shopper's answers gave no bounds (answers stay the source of truth)
+      const llmPriceConstraint = llmIntentResult.success && !llmIntentResult.intent?.isBundle ? llmIntentResult.intent?.priceConstraint ?? null : null;
+      if (llmPriceConstraint && priceMin === null && priceMax === null && perItemBudgets.length === 0) {
+        const llmBounds = priceConstraintBounds(llmPriceConstraint);
+        priceMin = convertBudgetToShopCurrency(llmBounds.min, llmPriceConstraint.currency, budgetCurrencyContext, "llm_priceMin");
+        priceMax = convertBudgetToShopCurrency(llmBounds.max, llmPriceConstraint.currency, budgetCurrencyContext, "llm_priceMax");
+        priceConstraint = activePriceConstraint({
+          min: priceMin,
+          max: priceMax,
+          target: convertBudgetToShopCurrency(llmPriceConstraint.target, llmPriceConstraint.currency, budgetCurrencyContext, "llm_priceTarget"),
+          tolerance: llmPriceConstraint.tolerance,
+          currency: shopCurrency,
+        });
+        console.log(`[Budget] source=llm priceMin=${priceMin ?? "null"} priceMax=${priceMax ?? "null"} target=${llmPriceConstraint.target ?? "null"}`);
+      }
+      
       // Parse user text into type terms vs attribute terms (Primary Item-Type Anchor)
       const typeParseResult = parseTypeTermsVsAttributes(userIntent, typeLexicon);
       console.log(`[TypeAnchor] parsed type_terms=[${typeParseResult.typeTerms.join(", ")}] attribute_terms=[${typeParseResult.attributeTerms.join(", ")}]`);
@@ -5476,6 +4894,7 @@ async function processSessionInBackground({
         hardTerms = Array.isArray(intent.hardTerms) ? intent.hardTerms.filter(t => typeof t === "string" && t.trim().length > 0) : [];
         softTerms = Array.isArray(intent.softTerms) ? intent.softTerms.filter(t => typeof t === "string" && t.trim().length > 0) : [];
         avoidTerms = Array.isArray(intent.avoidTerms) ? intent.avoidTerms.filter(t => typeof t === "string" && t.trim().length > 0) : [];
+        ({ hardTerms, softTerms, avoidTerms } = applyAnswerSignalTerms({ hardTerms, softTerms, avoidTerms }, answerSignals));
         
         // Filter out generic/meaningless words from hardTerms BEFORE adding constraint terms
         // These words are too broad and dilute search precision (industry-agnostic)
@@ -5790,7 +5209,7 @@ async function processSessionInBackground({
                       if (newProductsForDeepSearch.length > 0) {
                         // Fetch descriptions for these products
                         const deepFetchHandles = newProductsForDeepSearch.map((p: any) => p.handle);
-                        const descriptionMap = await fetchShopifyProductDescriptionsByHandles({
+                        const descriptionMap = await fetchCatalogProductDescriptionsByHandles({
                           shopDomain,
                           accessToken,
                           handles: deepFetchHandles,
@@ -5900,7 +5319,7 @@ async function processSessionInBackground({
         // Merge LLM-extracted facets with variant constraints from answers
         // This ensures we capture both LLM understanding and explicit user selections
         // EXPLICIT USER SELECTIONS ALWAYS WIN (variant constraints take precedence)
-      const fromAnswersForIntent = parseConstraintsFromAnswers(answersJson);
+      const fromAnswersForIntent = parseConstraintsFromAnswers(answersJson, answerSignals);
       const fromTextForIntent = parseConstraintsFromText(userIntent);
       const variantConstraintsForIntent = mergeConstraints(fromAnswersForIntent, fromTextForIntent);
       
@@ -6361,6 +5780,23 @@ async function processSessionInBackground({
             color: variantConstraintsForIntent.color || intent.hardFacets?.color || null,
             material: variantConstraintsForIntent.material || intent.hardFacets?.material || null
           };
+          
+          // Generic facets: size/color/material keep the precedence above; their alternatives ("red or navy")
+          // only apply when the chosen value came from the intent
+          intentFacets = {};
+          for (const [facet, values] of Object.entries(intent.facets || {})) {
+            if (facet === "size" || facet === "color" || facet === "material") {
+              const chosen = hardFacets[facet];
+              if (chosen) {
+                intentFacets[facet] = values.some(v => normalizeText(v) === normalizeText(chosen)) ? values : [chosen];
+              }
+            } else {
+              intentFacets[facet] = values;
+            }
+          }
+          if (Object.keys(intentFacets).length > 0) {
+            console.log(`[Intent] facets=${JSON.stringify(intentFacets)}`);
+          }
         }
         
         // Bundle mode: apply global hardFacets.size (and material if present) to every bundle item that lacks an explicit per-item size/material
@@ -6688,7 +6124,7 @@ async function processSessionInBackground({
         console.log("[Intent Parsing] ⚠️  LLM parsing failed, using pattern-based fallback:", llmIntentResult.error || "unknown error");
         
         // Get variant constraints for pattern-based parsing
-        const fromAnswersForIntent = parseConstraintsFromAnswers(answersJson);
+        const fromAnswersForIntent = parseConstraintsFromAnswers(answersJson, answerSignals);
         const fromTextForIntent = parseConstraintsFromText(userIntent);
         const variantConstraintsForIntent = mergeConstraints(fromAnswersForIntent, fromTextForIntent);
         
@@ -6697,10 +6133,11 @@ async function processSessionInBackground({
         hardTerms = intentParse.hardTerms;
         softTerms = intentParse.softTerms;
         avoidTerms = intentParse.avoidTerms;
+        ({ hardTerms, softTerms, avoidTerms } = applyAnswerSignalTerms({ hardTerms, softTerms, avoidTerms }, answerSignals));
         hardFacets = intentParse.hardFacets;
         
         // Parse bundle intent using pattern-based approach
-        bundleIntent = parseBundleIntentGeneric(userIntent);
+        bundleIntent = parseBundleIntentGeneric(userIntent, shopperCurrency);
         
         // CRITICAL FIX: If per-item budgets exist and totalBudget matches a per-item budget,
         // clear totalBudget to avoid treating it as a global budget
@@ -6781,398 +6218,50 @@ async function processSessionInBackground({
       // ============================================
       // If constraint terms detected, fetch products matching in description/metafields
       if (hasConstraintTerms && uniqueConstraintTerms.length > 0 && accessToken && !bundleIntent.isBundle) {
-        console.log(`[DeepSearch] starting_expansion constraint_terms=[${uniqueConstraintTerms.join(", ")}]`);
+        const deepSearch = await runPipelineStage(deepAttributeSearchStage, {
+          candidates: allCandidatesEnriched,
+          constraintTerms: uniqueConstraintTerms,
+          indexMetafields,
+        }, pipelineCtx);
+        allCandidatesEnriched = deepSearch.candidates as EnrichedCandidate[];
+      }
+      
+      // DEEP ATTRIBUTE SEARCH: If constraint terms exist, fetch descriptions for all candidates for BM25
+      // This ensures BM25 can rank products that match constraint terms in description
+      if (hasConstraintTerms && uniqueConstraintTerms.length > 0 && accessToken && allCandidatesEnriched.length > 0) {
+        console.log(`[DeepSearch] fetching_descriptions_for_bm25 candidate_count=${allCandidatesEnriched.length}`);
         
         try {
-          // For each constraint term, build a search query and fetch products
-          // Note: Shopify search only works on title/product_type/tags/vendor, so we'll fetch a broader set
-          // and then filter by checking descriptions locally
-          const deepSearchProducts: any[] = [];
-          const deepSearchHandles = new Set<string>();
-          
-          // Build a query using constraint terms (search in title/tags/product_type/vendor)
-          // This will get us products that might have the term in description even if not in title
-          const constraintQuery = buildShopifySearchQuery({
-            keywords: uniqueConstraintTerms,
-            selections: [],
-            hasMeaningfulSignals: true
-          }, 500);
-          
-          if (constraintQuery) {
-            console.log(`[DeepSearch] query="${constraintQuery}"`);
-            
-            // Fetch up to 250 products matching constraint terms
-            const deepFetch = await fetchProductsByQueryPaginated(
+          // Fetch descriptions for all candidates (up to 500 to avoid timeout)
+          const candidatesToEnrich = allCandidatesEnriched.slice(0, 500);
+          const handlesToFetch = candidatesToEnrich
+            .filter(c => !c.description && !c.descPlain)
+            .map(c => c.handle);
+          
+          if (handlesToFetch.length > 0) {
+            const descriptionMap = await fetchCatalogProductDescriptionsByHandles({
               shopDomain,
               accessToken,
-              constraintQuery,
-              250,
-              200
-            );
-            
-            console.log(`[DeepSearch] fetched=${deepFetch.products.length} from_shopify_search`);
+              handles: handlesToFetch,
+            });
             
-            // If Shopify search returned 0, try broader fetch strategies
-            if (deepFetch.products.length === 0) {
-              console.log(`[DeepSearch] shopify_returned_0 trying_broader_fetch strategies`);
-              
-              // Strategy 1: Extract base terms from constraint terms (e.g., "hydrochloric acid" -> "acid", "hydrochloric")
-              // Fetch products with base terms in title/tags (they might have full term in description)
-              const baseTerms: string[] = [];
-              for (const term of uniqueConstraintTerms) {
-                const words = term.toLowerCase().split(/\s+/).filter(w => w.length >= 3);
-                baseTerms.push(...words);
-              }
-              const uniqueBaseTerms = Array.from(new Set(baseTerms)).slice(0, 5); // Limit to 5 terms
+            // Enrich candidates with descriptions
+            for (const candidate of candidatesToEnrich) {
+              if (candidate.description || candidate.descPlain) continue; // Already has description
               
-              if (uniqueBaseTerms.length > 0) {
-                console.log(`[DeepSearch] broader_fetch_strategy=base_terms terms=[${uniqueBaseTerms.join(", ")}]`);
-                
-                const broaderQuery = buildShopifySearchQuery({
-                  keywords: uniqueBaseTerms,
-                  selections: [],
-                  hasMeaningfulSignals: true
-                }, 500, "broad_text", uniqueBaseTerms);
-                
-                if (broaderQuery) {
-                  const broaderFetch = await fetchProductsByQueryPaginated(
-                    shopDomain,
-                    accessToken,
-                    broaderQuery,
-                    500, // Fetch more products for broader search
-                    200
-                  );
-                  
-                  console.log(`[DeepSearch] broader_fetch fetched=${broaderFetch.products.length} with_base_terms`);
-                  
-                  if (broaderFetch.products.length > 0) {
-                    // Separate new products from existing ones
-                    const existingHandles = new Set(allCandidatesEnriched.map(c => c.handle));
-                    const newBroaderProducts = broaderFetch.products.filter((p: any) => !existingHandles.has(p.handle));
-                    const existingBroaderProducts = broaderFetch.products.filter((p: any) => existingHandles.has(p.handle));
-                    
-                    // Fetch descriptions for ALL products (new and existing) to check if they match constraint terms
-                    const allBroaderHandles = broaderFetch.products.map((p: any) => p.handle);
-                    const broaderDescriptionMap = await fetchShopifyProductDescriptionsByHandles({
-                      shopDomain,
-                      accessToken,
-                      handles: allBroaderHandles,
-                    });
-                    
-                    // Check new products
-                    let newMatches = 0;
-                    for (const product of newBroaderProducts) {
-                      const description = broaderDescriptionMap.get(product.handle) || null;
-                      const descPlain = cleanDescription(description);
-                      const descLower = descPlain.toLowerCase();
-                      
-                      // Check if any constraint term appears in description (word-boundary matching for phrases)
-                      const matchesConstraint = uniqueConstraintTerms.some(term => {
-                        const termLower = term.toLowerCase();
-                        if (term.includes(" ")) {
-                          // Multi-word phrase: check for exact phrase match
-                          return descLower.includes(termLower);
-                        } else {
-                          // Single word: use word-boundary matching
-                          const regex = new RegExp(`\\b${termLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-                          return regex.test(descLower);
-                        }
-                      });
-                      
-                      if (matchesConstraint && !deepSearchHandles.has(product.handle)) {
-                        deepSearchHandles.add(product.handle);
-                        deepSearchProducts.push(product);
-                        newMatches++;
-                      }
-                    }
-                    
-                    // Check existing products (they might have constraint terms in descriptions even if not in title)
-                    let existingMatches = 0;
-                    for (const product of existingBroaderProducts) {
-                      const description = broaderDescriptionMap.get(product.handle) || null;
-                      const descPlain = cleanDescription(description);
-                      const descLower = descPlain.toLowerCase();
-                      
-                      // Check if any constraint term appears in description
-                      const matchesConstraint = uniqueConstraintTerms.some(term => {
-                        const termLower = term.toLowerCase();
-                        if (term.includes(" ")) {
-                          return descLower.includes(termLower);
-                        } else {
-                          const regex = new RegExp(`\\b${termLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-                          return regex.test(descLower);
-                        }
-                      });
-                      
-                      if (matchesConstraint && !deepSearchHandles.has(product.handle)) {
-                        deepSearchHandles.add(product.handle);
-                        deepSearchProducts.push(product);
-                        existingMatches++;
-                      }
-                    }
-                    
-                    console.log(`[DeepSearch] broader_fetch matched_in_description=${deepSearchProducts.length} after_filtering (new=${newMatches} existing=${existingMatches} total_checked=${broaderFetch.products.length})`);
-                  }
-                }
-              }
+              const description = descriptionMap.get(candidate.handle) || null;
+              const descPlain = cleanDescription(description);
+              const desc1000 = descPlain.substring(0, 1000);
               
-              // Strategy 2: If still no results, fetch products from related product types found in initial candidates
-              if (deepSearchProducts.length === 0 && allCandidatesEnriched.length > 0) {
-                console.log(`[DeepSearch] broader_fetch_strategy=related_product_types`);
-                
-                // Extract product types from initial candidates
-                const productTypes = new Set<string>();
-                for (const candidate of allCandidatesEnriched.slice(0, 50)) { // Check first 50 candidates
-                  if (candidate.productType) {
-                    productTypes.add(candidate.productType);
-                  }
-                }
-                
-                const productTypeArray = Array.from(productTypes).slice(0, 3); // Limit to 3 product types
-                
-                if (productTypeArray.length > 0) {
-                  console.log(`[DeepSearch] broader_fetch product_types=[${productTypeArray.join(", ")}]`);
-                  
-                  // Fetch products with these product types
-                  for (const productType of productTypeArray) {
-                    if (deepSearchProducts.length >= 500) break; // Limit total fetch
-                    
-                    const productTypeQuery = buildShopifySearchQuery({
-                      keywords: [productType],
-                      selections: [],
-                      hasMeaningfulSignals: true
-                    }, 200, "field_restricted");
-                    
-                    if (productTypeQuery) {
-                      const productTypeFetch = await fetchProductsByQueryPaginated(
-                        shopDomain,
-                        accessToken,
-                        productTypeQuery,
-                        200,
-                        200
-                      );
-                      
-                      // Separate new products from existing ones
-                      const existingHandles = new Set([
-                        ...allCandidatesEnriched.map(c => c.handle),
-                        ...deepSearchProducts.map(p => p.handle)
-                      ]);
-                      const newProductTypeProducts = productTypeFetch.products.filter((p: any) => !existingHandles.has(p.handle));
-                      const existingProductTypeProducts = productTypeFetch.products.filter((p: any) => existingHandles.has(p.handle));
-                      
-                      // Fetch descriptions for ALL products (new and existing) to check if they match constraint terms
-                      const allProductTypeHandles = productTypeFetch.products.map((p: any) => p.handle);
-                      const productTypeDescriptionMap = await fetchShopifyProductDescriptionsByHandles({
-                        shopDomain,
-                        accessToken,
-                        handles: allProductTypeHandles,
-                      });
-                      
-                      // Check new products
-                      let newMatches = 0;
-                      for (const product of newProductTypeProducts) {
-                        const description = productTypeDescriptionMap.get(product.handle) || null;
-                        const descPlain = cleanDescription(description);
-                        const descLower = descPlain.toLowerCase();
-                        
-                        // Check if any constraint term appears in description
-                        const matchesConstraint = uniqueConstraintTerms.some(term => {
-                          const termLower = term.toLowerCase();
-                          if (term.includes(" ")) {
-                            return descLower.includes(termLower);
-                          } else {
-                            const regex = new RegExp(`\\b${termLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-                            return regex.test(descLower);
-                          }
-                        });
-                        
-                        if (matchesConstraint && !deepSearchHandles.has(product.handle)) {
-                          deepSearchHandles.add(product.handle);
-                          deepSearchProducts.push(product);
-                          newMatches++;
-                        }
-                      }
-                      
-                      // Check existing products (they might have constraint terms in descriptions even if not in title)
-                      let existingMatches = 0;
-                      for (const product of existingProductTypeProducts) {
-                        const description = productTypeDescriptionMap.get(product.handle) || null;
-                        const descPlain = cleanDescription(description);
-                        const descLower = descPlain.toLowerCase();
-                        
-                        // Check if any constraint term appears in description
-                        const matchesConstraint = uniqueConstraintTerms.some(term => {
-                          const termLower = term.toLowerCase();
-                          if (term.includes(" ")) {
-                            return descLower.includes(termLower);
-                          } else {
-                            const regex = new RegExp(`\\b${termLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-                            return regex.test(descLower);
-                          }
-                        });
-                        
-                        if (matchesConstraint && !deepSearchHandles.has(product.handle)) {
-                          deepSearchHandles.add(product.handle);
-                          deepSearchProducts.push(product);
-                          existingMatches++;
-                        }
-                      }
-                      
-                      if (productTypeFetch.products.length > 0) {
-                        console.log(`[DeepSearch] broader_fetch_product_type="${productType}" checked=${productTypeFetch.products.length} new_matches=${newMatches} existing_matches=${existingMatches}`);
-                      }
-                    }
-                  }
-                  
-                  console.log(`[DeepSearch] broader_fetch_product_types matched_in_description=${deepSearchProducts.length} after_filtering`);
-                }
-              }
-            }
-            
-            // Fetch descriptions for products from initial Shopify search (if any)
-            if (deepFetch.products.length > 0) {
-              const deepFetchHandles = deepFetch.products.map((p: any) => p.handle);
-              const descriptionMap = await fetchShopifyProductDescriptionsByHandles({
-                shopDomain,
-                accessToken,
-                handles: deepFetchHandles,
-              });
+              candidate.description = description;
+              candidate.descPlain = descPlain;
+              candidate.desc1000 = desc1000;
               
-              // Filter products that match constraint terms in description/metafields
-              for (const product of deepFetch.products) {
-                const description = descriptionMap.get(product.handle) || null;
-                const descPlain = cleanDescription(description);
-                const descLower = descPlain.toLowerCase();
-                
-                // Check if any constraint term appears in description
-                const matchesConstraint = uniqueConstraintTerms.some(term => {
-                  const termLower = term.toLowerCase();
-                  if (term.includes(" ")) {
-                    return descLower.includes(termLower);
-                  } else {
-                    const regex = new RegExp(`\\b${termLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-                    return regex.test(descLower);
-                  }
-                });
-                
-                if (matchesConstraint && !deepSearchHandles.has(product.handle)) {
-                  deepSearchHandles.add(product.handle);
-                  deepSearchProducts.push(product);
-                }
-              }
+              // Rebuild searchText with description (includes description snippet for BM25)
+              candidate.searchText = extractSearchText(candidate, indexMetafields);
             }
             
-            // Log final count
-            if (deepSearchProducts.length > 0) {
-              console.log(`[DeepSearch] matched_in_description=${deepSearchProducts.length} after_filtering (from initial=${deepFetch.products.length > 0 ? "yes" : "no"}, broader=${deepSearchProducts.length > (deepFetch.products.length > 0 ? deepFetch.products.filter(p => deepSearchHandles.has(p.handle)).length : 0) ? "yes" : "no"})`);
-            } else {
-              console.log(`[DeepSearch] matched_in_description=0 after_filtering`);
-            }
-            
-            // Merge deep search products into candidate pool (dedupe by handle)
-            const existingHandles = new Set(allCandidatesEnriched.map(c => c.handle));
-            const newDeepProducts = deepSearchProducts.filter((p: any) => !existingHandles.has(p.handle));
-            
-            if (newDeepProducts.length > 0) {
-              // Fetch descriptions for products that don't have them (from broader fetch)
-              const productsNeedingDescriptions = newDeepProducts.filter(p => !p.description);
-              let allDescriptionMap = new Map<string, string | null>();
-              
-              if (productsNeedingDescriptions.length > 0) {
-                const handlesNeedingDescriptions = productsNeedingDescriptions.map(p => p.handle);
-                allDescriptionMap = await fetchShopifyProductDescriptionsByHandles({
-                  shopDomain,
-                  accessToken,
-                  handles: handlesNeedingDescriptions,
-                });
-              }
-              
-              // Enrich new products and add to candidate pool
-              const enrichedDeepProducts: EnrichedCandidate[] = newDeepProducts.map((p: any) => {
-                // Get description from product or from description map
-                const description = p.description || allDescriptionMap.get(p.handle) || null;
-                const descPlain = cleanDescription(description);
-                const desc1000 = descPlain.substring(0, 1000);
-                  
-                  return {
-                    handle: p.handle,
-                    title: p.title,
-                    productType: p.productType || null,
-                    productCategory: null,
-                    taxonomy: null,
-                    collections: p.collections || null,
-                    variants: p.variants || null,
-                    tags: p.tags || [],
-                    vendor: p.vendor || null,
-                    price: p.priceAmount || p.price || null,
-                    priceMinAmount: null,
-                    priceMaxAmount: null,
-                    priceCurrency: p.currencyCode || null,
-                    description: description,
-                    descPlain: descPlain,
-                    desc1000: desc1000,
-                    available: p.available,
-                    sizes: Array.isArray(p.sizes) ? p.sizes : [],
-                    colors: Array.isArray(p.colors) ? p.colors : [],
-                    materials: Array.isArray(p.materials) ? p.materials : [],
-                    optionValues: p.optionValues ?? {},
-                    metafields: p.metafields || null,
-                    searchText: extractSearchText({
-                      ...p,
-                      description: description,
-                      descPlain: descPlain,
-                      desc1000: desc1000,
-                    }, indexMetafields),
-                  } as EnrichedCandidate;
-                });
-                
-              // Add to candidate pool
-              allCandidatesEnriched = [...allCandidatesEnriched, ...enrichedDeepProducts];
-              console.log(`[DeepSearch] merged=${enrichedDeepProducts.length} total_candidates=${allCandidatesEnriched.length}`);
-            }
-          }
-        } catch (error) {
-          console.error(`[DeepSearch] error during expansion:`, error);
-          // Continue with existing candidates if deep search fails
-        }
-      }
-      
-      // DEEP ATTRIBUTE SEARCH: If constraint terms exist, fetch descriptions for all candidates for BM25
-      // This ensures BM25 can rank products that match constraint terms in description
-      if (hasConstraintTerms && uniqueConstraintTerms.length > 0 && accessToken && allCandidatesEnriched.length > 0) {
-        console.log(`[DeepSearch] fetching_descriptions_for_bm25 candidate_count=${allCandidatesEnriched.length}`);
-        
-        try {
-          // Fetch descriptions for all candidates (up to 500 to avoid timeout)
-          const candidatesToEnrich = allCandidatesEnriched.slice(0, 500);
-          const handlesToFetch = candidatesToEnrich
-            .filter(c => !c.description && !c.descPlain)
-            .map(c => c.handle);
-          
-          if (handlesToFetch.length > 0) {
-            const descriptionMap = await fetchShopifyProductDescriptionsByHandles({
-              shopDomain,
-              accessToken,
-              handles: handlesToFetch,
-            });
-            
-            // Enrich candidates with descriptions
-            for (const candidate of candidatesToEnrich) {
-              if (candidate.description || candidate.descPlain) continue; // Already has description
-              
-              const description = descriptionMap.get(candidate.handle) || null;
-              const descPlain = cleanDescription(description);
-              const desc1000 = descPlain.substring(0, 1000);
-              
-              candidate.description = description;
-              candidate.descPlain = descPlain;
-              candidate.desc1000 = desc1000;
-              
-              // Rebuild searchText with description (includes description snippet for BM25)
-              candidate.searchText = extractSearchText(candidate, indexMetafields);
-            }
-            
-            console.log(`[DeepSearch] enriched_with_descriptions count=${handlesToFetch.length}`);
+            console.log(`[DeepSearch] enriched_with_descriptions count=${handlesToFetch.length}`);
             
             // Re-tokenize candidates for indexing (include descriptions in BM25)
             const updatedCandidateDocs = allCandidatesEnriched.map(c => ({
@@ -7194,38 +6283,15 @@ async function processSessionInBackground({
       // ============================================
       // Only detect collection intent if NOT a bundle (isBundle=false)
       // Collection intent means user wants a mixed set (e.g., "outfit", "set", "kit") without explicit bundle items
-      if (!bundleIntent.isBundle) {
-        const lowerIntent = userIntent.toLowerCase();
-        const collectionPhrases = [
-          "outfit", "set", "kit", "bundle", "complete", "whole", "everything i need",
-          "for a", "recommend me items for", "build me a", "put together", "create a",
-          "full", "entire", "all", "combination", "collection", "ensemble"
-        ];
-        
-        // Check for collection phrases
-        const hasCollectionPhrase = collectionPhrases.some(phrase => lowerIntent.includes(phrase));
-        
-        // Check for event/context soft terms without explicit product type
-        // If softTerms contain event/context words (wedding, dinner, interview, work, casual, formal, etc.)
-        // AND hardTerms is empty or very minimal, treat as collection intent
-        const eventContextTerms = [
-          "wedding", "dinner", "interview", "work", "casual", "formal", "party", "event",
-          "occasion", "meeting", "date", "business", "professional", "sport", "exercise",
-          "travel", "vacation", "holiday", "celebration", "gift", "present"
-        ];
-        const hasEventContext = softTerms.some(term => 
-          eventContextTerms.some(event => term.toLowerCase().includes(event))
-        );
-        const hasMinimalHardTerms = hardTerms.length <= 1; // Only generic terms like "blue" or "large"
-        
-        collectionIntent = hasCollectionPhrase || (hasEventContext && hasMinimalHardTerms);
-        
-        if (collectionIntent) {
-          const reason = hasCollectionPhrase 
-            ? `collection_phrase:${collectionPhrases.find(p => lowerIntent.includes(p))}`
-            : `event_context_without_product_type:${softTerms.filter(t => eventContextTerms.some(e => t.toLowerCase().includes(e))).join(",")}`;
-          console.log(`[CollectionIntent] enabled=true reason=${reason} isBundle=false`);
-        }
+      const collectionIntentResult = await runPipelineStage(collectionIntentStage, {
+        userIntent,
+        hardTerms,
+        softTerms,
+        isBundle: bundleIntent.isBundle,
+      }, pipelineCtx);
+      collectionIntent = collectionIntentResult.collectionIntent;
+      if (collectionIntent) {
+        console.log(`[CollectionIntent] enabled=true reason=${collectionIntentResult.reason} isBundle=false`);
       }
       
       // Log requested groups (normalized) for bundle mode
@@ -7247,69 +6313,14 @@ async function processSessionInBackground({
         console.log("[Bundle] requestedTypes derived from canonical_type (not colors)", requestedTypes);
       }
       
-      // Currency conversion: Convert user budget to shop currency
-      let convertedPriceMax: number | null = priceMax;
-      let convertedTotalBudget: number | null = bundleIntent.totalBudget;
-      let currencyMismatch = false;
-      
-      if (shopCurrency && accessToken) {
-        // Get user currency from bundle intent or answers
-        const userCurrencyFromBundle = bundleIntent.totalBudgetCurrency || userCurrency;
-        
-        if (userCurrencyFromBundle && userCurrencyFromBundle !== shopCurrency) {
-          currencyMismatch = true;
-          const conversionRate = getCurrencyConversionRate(userCurrencyFromBundle, shopCurrency);
-          
-          if (conversionRate !== 1.0) {
-            // Convert if rate available
-            if (priceMax !== null) {
-              convertedPriceMax = priceMax * conversionRate;
-              console.log("[Currency] converted_priceMax", {
-                userCurrency: userCurrencyFromBundle,
-                shopCurrency,
-                originalValue: priceMax,
-                convertedValue: convertedPriceMax,
-                conversionRate,
-                currencyMismatch: true
-              });
-            }
-            if (bundleIntent.totalBudget !== null) {
-              convertedTotalBudget = bundleIntent.totalBudget * conversionRate;
-              console.log("[Currency] converted_totalBudget", {
-                userCurrency: userCurrencyFromBundle,
-                shopCurrency,
-                originalValue: bundleIntent.totalBudget,
-                convertedValue: convertedTotalBudget,
-                conversionRate,
-                currencyMismatch: true
-              });
-            }
-          } else {
-            // No conversion rate - treat as numeric and log mismatch
-            console.log("[Currency] currency_mismatch", {
-              userCurrency: userCurrencyFromBundle,
-              shopCurrency,
-              originalValue: priceMax || bundleIntent.totalBudget,
-              convertedValue: priceMax || bundleIntent.totalBudget,
-              note: "Treating as numeric - no conversion rate available",
-              currencyMismatch: true
-            });
-          }
-        } else {
-          // Currencies match or no user currency specified
-          console.log("[Currency] currency_match", {
-            userCurrency: userCurrencyFromBundle || "none",
-            shopCurrency,
-            note: "Currencies match or no user currency specified",
-            currencyMismatch: false
-          });
-        }
-      }
-      
-      // Use converted values
-      priceMax = convertedPriceMax;
+      // Currency conversion: priceMin/priceMax are already in the shop currency; convert the bundle total
       if (bundleIntent.totalBudget !== null) {
-        bundleIntent.totalBudget = convertedTotalBudget;
+        bundleIntent.totalBudget = convertBudgetToShopCurrency(
+          bundleIntent.totalBudget,
+          bundleIntent.totalBudgetCurrency || userCurrency,
+          budgetCurrencyContext,
+          "totalBudget"
+        );
       }
       
       // Calculate dynamic AI window - SMALL-FIRST approach
@@ -7342,6 +6353,7 @@ async function processSessionInBackground({
         allowValues?: Record<string, string[]>; // OR allow-list: attribute -> array of allowed values
       };
           priceCeiling?: number | null;
+          userCurrency?: string | null; // Currency the priceCeiling was typed in
           includeTerms?: string[];
           excludeTerms?: string[];
         };
@@ -8110,6 +7122,20 @@ async function processSessionInBackground({
       console.log("[App Proxy] [Layer 2] Soft terms:", softTerms);
       console.log("[App Proxy] [Layer 2] Avoid terms:", avoidTerms);
       console.log("[App Proxy] [Layer 2] Hard facets:", hardFacets);
+      recommendationTrace.intent = {
+        userIntent,
+        parsedBy: llmIntentUsed ? "llm" : "pattern",
+        isBundle: bundleIntent.isBundle,
+        bundleItems: bundleIntent.items.map(item => ({ hardTerms: item.hardTerms, quantity: item.quantity || 1 })),
+        hardTerms: [...hardTerms],
+        softTerms: [...softTerms],
+        avoidTerms: [...avoidTerms],
+        hardFacets: { ...hardFacets },
+        facets: { ...intentFacets },
+        priceMin,
+        priceMax,
+      };
+      recordGatingStep(recommendationTrace, "candidates", allCandidatesEnriched.length);
       
       // EARLY AVOID TERMS FILTERING: Filter allCandidatesEnriched immediately after intent parsing
       // This ensures products with avoid terms are removed before any gating or ranking
@@ -8133,7 +7159,7 @@ async function processSessionInBackground({
               .map(c => c.handle);
             
             if (handlesToFetch.length > 0) {
-              const descriptionMap = await fetchShopifyProductDescriptionsByHandles({
+              const descriptionMap = await fetchCatalogProductDescriptionsByHandles({
                 shopDomain,
                 accessToken,
                 handles: handlesToFetch,
@@ -8286,7 +7312,7 @@ async function processSessionInBackground({
       
       // Initialize variantConstraints2 BEFORE gating (needed in filter callback)
       // Build variantPreferences with priority (Answers > Text) - needed for constraints
-      const prefsFromAnswers = parsePreferencesFromAnswers(answersJson, knownOptionNames);
+      const prefsFromAnswers = parsePreferencesFromAnswers(answersJson, knownOptionNames, answerSignals);
       
       // In bundle mode, only parse preferences from text if user explicitly indicates global constraints
       let prefsFromText: VariantPreferences = {};
@@ -8357,7 +7383,7 @@ async function processSessionInBackground({
         }
       }
 
-      const fromAnswersForVariant = parseConstraintsFromAnswers(answersJson);
+      const fromAnswersForVariant = parseConstraintsFromAnswers(answersJson, answerSignals);
       
       // In bundle mode, skip free-text-derived global variant constraints unless explicitly global
       let fromTextForVariant: VariantConstraints = { size: null, color: null, material: null };
@@ -8422,32 +7448,26 @@ async function processSessionInBackground({
         return cleaned.length > 0 ? cleaned : null;
       };
       
-      // Build a map of all constraints (from hardFacets + variantConstraints2.allowValues + bundle per-item constraints)
+      // Build a map of all constraints (from hardFacets + intent facets + variantConstraints2.allowValues + bundle per-item constraints)
       // This makes it industry-agnostic - works for any facet type (size, color, material, scent, finish, capacity, etc.)
-      const allConstraints = new Map<string, string>(); // facetName -> constraintValue
+      // Values of one facet are alternatives (OR): "2015 or 2016 vintage"
+      const allConstraints = new Map<string, string[]>(); // facetName -> accepted values
+      const cleanFacetValues = (values: string[]): string[] =>
+        values.map(cleanFacetValue).filter((v): v is string => !!v);
       
-      // Add constraints from hardFacets (backwards compatibility for size/color/material)
-      if (hardFacets.size) {
-        const cleaned = cleanFacetValue(hardFacets.size);
-        if (cleaned) allConstraints.set("size", cleaned);
-      }
-      if (hardFacets.color) {
-        const cleaned = cleanFacetValue(hardFacets.color);
-        if (cleaned) allConstraints.set("color", cleaned);
-      }
-      if (hardFacets.material) {
-        const cleaned = cleanFacetValue(hardFacets.material);
-        if (cleaned) allConstraints.set("material", cleaned);
+      // Add constraints from hardFacets (backwards compatibility for size/color/material) and the intent's generic facets
+      for (const [facetName, values] of Object.entries(mergeFacetValues([hardFacetsToFacetValues(hardFacets), intentFacets], facetMapping))) {
+        const cleaned = cleanFacetValues(values);
+        if (cleaned.length > 0) allConstraints.set(facetName, cleaned);
       }
       
       // Add constraints from variantConstraints2.allowValues (generic, works for any facet)
       if (variantConstraints2.allowValues) {
         for (const [facetName, allowedValues] of Object.entries(variantConstraints2.allowValues)) {
-          // For allowValues, we use the first value as the primary constraint (OR logic handled in gating)
           if (Array.isArray(allowedValues) && allowedValues.length > 0) {
             const normalizedFacetName = normalizeOptionName(facetName);
-            const cleaned = cleanFacetValue(allowedValues[0]);
-            if (cleaned && !allConstraints.has(normalizedFacetName)) {
+            const cleaned = cleanFacetValues(allowedValues);
+            if (cleaned.length > 0 && !allConstraints.has(normalizedFacetName)) {
               allConstraints.set(normalizedFacetName, cleaned);
             }
           }
@@ -8462,331 +7482,42 @@ async function processSessionInBackground({
             if (itemOptionConstraints.size) {
               const cleaned = cleanFacetValue(itemOptionConstraints.size);
               if (cleaned && !allConstraints.has("size")) {
-                allConstraints.set("size", cleaned); // Use first item's size for coverage
+                allConstraints.set("size", [cleaned]); // Use first item's size for coverage
               }
             }
             if (itemOptionConstraints.color) {
               const cleaned = cleanFacetValue(itemOptionConstraints.color);
               if (cleaned && !allConstraints.has("color")) {
-                allConstraints.set("color", cleaned); // Use first item's color for coverage
+                allConstraints.set("color", [cleaned]); // Use first item's color for coverage
               }
             }
             if (itemOptionConstraints.material) {
               const cleaned = cleanFacetValue(itemOptionConstraints.material);
               if (cleaned && !allConstraints.has("material")) {
-                allConstraints.set("material", cleaned); // Use first item's material for coverage
-              }
-            }
-          }
-        }
-      }
-      
-      // Compute coverage for each constraint using facetVocabulary (industry-agnostic)
-      const facetCoverage = new Map<string, number>(); // facetName -> coverage (0.0 to 1.0)
-      const facetCoverageLog: Record<string, number> = {};
-      
-      if (totalCandidates > 0) {
-        for (const [facetName, constraintValue] of allConstraints.entries()) {
-          // Count candidates that have this facet in structured data (variants/options)
-          let candidatesWithFacet = 0;
-          
-          for (const candidate of allCandidatesEnriched) {
-            // Check if candidate has this facet in variants/options
-            let hasFacet = false;
-            
-            // Check variants' selectedOptions
-            if (Array.isArray(candidate.variants)) {
-              for (const variant of candidate.variants) {
-                if (Array.isArray(variant.selectedOptions)) {
-                  for (const option of variant.selectedOptions) {
-                    const normalizedOptionName = normalizeOptionName(option.name || "");
-                    if (normalizedOptionName === facetName) {
-                      hasFacet = true;
-                      break;
-                    }
-                  }
-                  if (hasFacet) break;
-                }
-              }
-            }
-            
-            // Also check optionValues (REST API format)
-            if (!hasFacet && candidate.optionValues && typeof candidate.optionValues === "object") {
-              for (const optName of Object.keys(candidate.optionValues)) {
-                const normalizedOptName = normalizeOptionName(optName);
-                if (normalizedOptName === facetName) {
-                  hasFacet = true;
-                  break;
-                }
-              }
-            }
-            
-            // Legacy support: check c.colors, c.sizes, c.materials for backwards compatibility
-            if (!hasFacet) {
-              if (facetName === "color" && candidate.colors && candidate.colors.length > 0) hasFacet = true;
-              if (facetName === "size" && candidate.sizes && candidate.sizes.length > 0) hasFacet = true;
-              if (facetName === "material" && candidate.materials && candidate.materials.length > 0) hasFacet = true;
-            }
-            
-            // Fix: Also check tag-derived facets (cf-color-*, cf-size-*, cf-material-*) for accurate coverage
-            if (!hasFacet && Array.isArray(candidate.tags)) {
-              const normalizedFacetName = facetName.toLowerCase();
-              for (const tag of candidate.tags) {
-                if (typeof tag === "string") {
-                  const tagLower = tag.toLowerCase();
-                  if ((normalizedFacetName === "color" && tagLower.startsWith("cf-color-")) ||
-                      (normalizedFacetName === "size" && tagLower.startsWith("cf-size-")) ||
-                      (normalizedFacetName === "material" && tagLower.startsWith("cf-material-"))) {
-                    hasFacet = true;
-                    break;
-                  }
-                }
+                allConstraints.set("material", [cleaned]); // Use first item's material for coverage
               }
             }
-            
-            if (hasFacet) candidatesWithFacet++;
           }
-          
-          const coverage = candidatesWithFacet / totalCandidates;
-          facetCoverage.set(facetName, coverage);
-          facetCoverageLog[facetName] = coverage;
         }
       }
       
-      console.log(`[FacetCoverage] ${JSON.stringify(facetCoverageLog)} totals=${totalCandidates}`);
-      
-      // STEP 2: Confidence rule - if coverage < 0.25, move facet to softTerms instead of enforcing
-      // This works for ANY facet type (size, color, material, scent, finish, capacity, etc.)
-      const enforcedFacets: { size: string | null; color: string | null; material: string | null } = {
-        size: null,
-        color: null,
-        material: null
-      };
-      const enforcedConstraints = new Map<string, string>(); // Generic map for any facet type
+      // Facet coverage, confidence rule (coverage < 0.25 moves the facet to softTerms) and facet gating
+      const facetGate = gateByFacets(allCandidatesEnriched, {
+        constraints: allConstraints,
+        allowValues: variantConstraints2.allowValues,
+        inStockOnly: experience.inStockOnly === true,
+        facetMapping,
+        indexMetafields,
+      });
+      const facetCoverageLog = facetGate.coverage;
+      const { enforcedConstraints, enforcedFacets } = facetGate;
       // Issue 1 fix: Use outer scope variable for degraded facets (declared earlier)
-      degradedFacetsForValidation = []; // Reset for this gating pass
-      degradedFacetsMap = new Map(); // Reset map
-      
-      for (const [facetName, constraintValue] of allConstraints.entries()) {
-        const coverage = facetCoverage.get(facetName) || 0;
-        
-        if (coverage < 0.25) {
-          // Low coverage - move to softTerms
-          softTerms.push(constraintValue);
-          degradedFacetsForValidation.push({ facet: facetName, value: constraintValue, coverage });
-          degradedFacetsMap.set(facetName.toLowerCase(), true);
-          console.log(`[Degrade] reason=low_facet_coverage facet=${facetName} selected=${constraintValue} coverage=${coverage.toFixed(3)} moved_to_softTerms=true`);
-        } else {
-          // High enough coverage - enforce as hard constraint
-          enforcedConstraints.set(facetName, constraintValue);
-          
-          // Also set in enforcedFacets for backwards compatibility (size/color/material)
-          if (facetName === "size") enforcedFacets.size = constraintValue;
-          if (facetName === "color") enforcedFacets.color = constraintValue;
-          if (facetName === "material") enforcedFacets.material = constraintValue;
-        }
+      degradedFacetsForValidation = facetGate.degraded.map(({ facet, value, coverage }) => ({ facet, value, coverage }));
+      degradedFacetsMap = new Map(facetGate.degraded.map(d => [d.facet.toLowerCase(), true]));
+      for (const degraded of facetGate.degraded) {
+        softTerms.push(...degraded.values);
       }
-      
-      // Log degraded facets map
-      if (degradedFacetsMap.size > 0) {
-        const degradedList = Array.from(degradedFacetsMap.keys()).join(",");
-        console.log(`[Degrade] degradedFacets=${degradedList}`);
-      }
-      
-      // STEP 3: Apply facet gating with fallback matching for missing structured facets
-      let gatedCandidates: EnrichedCandidate[] = allCandidatesEnriched.filter(c => {
-        // Helper to check if a facet value matches (structured OR indexedText fallback)
-        // For color constraints: also check variants - do NOT reject products if any variant matches
-        const checkFacetMatch = (facetValue: string | null, structuredValues: string[], indexedText: string, facetName: string, candidate: EnrichedCandidate): boolean => {
-          if (!facetValue) return true; // No constraint
-          
-          // First try structured matching
-          if (structuredValues.length > 0) {
-            const hasStructuredMatch = structuredValues.some((val: string) => {
-              const normalizedVal = normalizeText(val);
-              const normalizedFacet = normalizeText(facetValue);
-              return normalizedVal === normalizedFacet ||
-                     normalizedVal.includes(normalizedFacet) ||
-                     normalizedFacet.includes(normalizedVal);
-            });
-            if (hasStructuredMatch) return true;
-          }
-          
-          // For color constraints: check variants if product-level doesn't match
-          // Do NOT reject products at product-level if any variant matches
-          if (facetName === "color" && Array.isArray(candidate.variants)) {
-            const normalizedFacet = normalizeText(facetValue);
-            for (const variant of candidate.variants) {
-              if (Array.isArray(variant.selectedOptions)) {
-                for (const option of variant.selectedOptions) {
-                  const normalizedOptionName = normalizeOptionName(option.name || "");
-                  if (normalizedOptionName === "color" && option.value) {
-                    const normalizedVal = normalizeText(option.value);
-                    if (normalizedVal === normalizedFacet ||
-                        normalizedVal.includes(normalizedFacet) ||
-                        normalizedFacet.includes(normalizedVal)) {
-                      console.log(`[VariantMatch] product=${candidate.handle} variant_color="${option.value}" matches_constraint="${facetValue}"`);
-                      return true; // Variant matches - keep product
-                    }
-                  }
-                }
-              }
-            }
-          }
-          
-          // Fallback: check indexedText if structured facet is missing
-          const facetLower = normalizeText(facetValue);
-          if (indexedText.includes(facetLower)) {
-            return true; // Found in indexedText
-          }
-          
-          return false;
-        };
-        
-        // Helper to extract structured values for a facet from candidate (industry-agnostic)
-        const getStructuredValuesForFacet = (candidate: EnrichedCandidate, facetName: string): string[] => {
-          const values: string[] = [];
-          
-          // Check variants' selectedOptions
-          if (Array.isArray(candidate.variants)) {
-            for (const variant of candidate.variants) {
-              if (Array.isArray(variant.selectedOptions)) {
-                for (const option of variant.selectedOptions) {
-                  const normalizedOptionName = normalizeOptionName(option.name || "");
-                  if (normalizedOptionName === facetName && option.value) {
-                    values.push(option.value);
-                  }
-                }
-              }
-            }
-          }
-          
-          // Also check optionValues (REST API format)
-          if (candidate.optionValues && typeof candidate.optionValues === "object") {
-            for (const [optName, optValues] of Object.entries(candidate.optionValues)) {
-              const normalizedOptName = normalizeOptionName(optName);
-              if (normalizedOptName === facetName && Array.isArray(optValues)) {
-                values.push(...optValues.filter(v => typeof v === "string"));
-              }
-            }
-          }
-          
-          // Legacy support: check c.colors, c.sizes, c.materials for backwards compatibility
-          if (facetName === "color" && candidate.colors) values.push(...candidate.colors);
-          if (facetName === "size" && candidate.sizes) values.push(...candidate.sizes);
-          if (facetName === "material" && candidate.materials) values.push(...candidate.materials);
-          
-          return values;
-        };
-        
-        const indexedText = unifiedNormalize(c.searchText || extractSearchText(c, indexMetafields));
-        
-        // Check ALL enforced constraints (industry-agnostic: works for any facet type)
-        for (const [facetName, constraintValue] of enforcedConstraints.entries()) {
-          const structuredValues = getStructuredValuesForFacet(c, facetName);
-          if (!checkFacetMatch(constraintValue, structuredValues, indexedText, facetName, c)) {
-            return false;
-          }
-        }
-        
-        // Legacy: Also check enforcedFacets for backwards compatibility (size/color/material)
-        if (enforcedFacets.size) {
-          if (!checkFacetMatch(enforcedFacets.size, c.sizes || [], indexedText, "size", c)) {
-            return false;
-          }
-        }
-        
-        if (enforcedFacets.color) {
-          if (!checkFacetMatch(enforcedFacets.color, c.colors || [], indexedText, "color", c)) {
-            return false;
-          }
-        }
-        
-        if (enforcedFacets.material) {
-          if (!checkFacetMatch(enforcedFacets.material, c.materials || [], indexedText, "material", c)) {
-            return false;
-          }
-        }
-        
-        // Check allowValues (OR logic) with fallback - industry-agnostic: works for any facet type
-        // For color constraints: also check variants - do NOT reject products if any variant matches
-        const allowValues = variantConstraints2.allowValues;
-        
-        if (allowValues) {
-          for (const [facetName, allowedValues] of Object.entries(allowValues)) {
-            if (!Array.isArray(allowedValues) || allowedValues.length === 0) continue;
-            
-            const normalizedFacetName = normalizeOptionName(facetName);
-            
-            // Skip if this facet is already enforced (don't double-check)
-            if (enforcedConstraints.has(normalizedFacetName)) continue;
-            
-            // Get structured values for this facet
-            const structuredValues = getStructuredValuesForFacet(c, normalizedFacetName);
-            
-            // Check if any allowed value matches (structured OR indexedText)
-            let hasMatch = structuredValues.some((val: string) => 
-              allowedValues.some(allowedValue => {
-                const normalizedVal = normalizeText(val);
-                const normalizedAllowed = normalizeText(allowedValue);
-                return normalizedVal === normalizedAllowed ||
-                       normalizedVal.includes(normalizedAllowed) ||
-                       normalizedAllowed.includes(normalizedVal);
-              })
-            ) || allowedValues.some(allowedValue => 
-              indexedText.includes(normalizeText(allowedValue))
-            );
-            
-            // For color constraints: also check variants if product-level doesn't match
-            if (!hasMatch && normalizedFacetName === "color" && Array.isArray(c.variants)) {
-              for (const variant of c.variants) {
-                if (Array.isArray(variant.selectedOptions)) {
-                  for (const option of variant.selectedOptions) {
-                    const normalizedOptionName = normalizeOptionName(option.name || "");
-                    if (normalizedOptionName === "color" && option.value) {
-                      const normalizedVal = normalizeText(option.value);
-                      const variantHasMatch = allowedValues.some((allowed: string) => {
-                        const normalizedAllowed = normalizeText(allowed);
-                        return normalizedVal === normalizedAllowed ||
-                               normalizedVal.includes(normalizedAllowed) ||
-                               normalizedAllowed.includes(normalizedVal);
-                      });
-                      if (variantHasMatch) {
-                        console.log(`[VariantMatch] product=${c.handle} variant_color="${option.value}" matches_allowValues=[${allowedValues.join(", ")}]`);
-                        hasMatch = true;
-                        break;
-                      }
-                    }
-                  }
-                }
-                if (hasMatch) break;
-              }
-            }
-            
-            if (!hasMatch) return false;
-          }
-        }
-        
-        // Check availability (only if experience.inStockOnly is true)
-        // Don't filter by availability here if coverage is high - let it pass through for fallback matching
-        if (experience.inStockOnly) {
-          const hasAvailableVariant = c.available === true || 
-            (c.variants && Array.isArray(c.variants) && c.variants.some((v: any) => 
-              v.available === true || v.availableForSale === true
-            ));
-          if (!hasAvailableVariant) {
-            // Log detailed rejection reason for debugging
-            const availableStatus = c.available;
-            const variantCount = Array.isArray(c.variants) ? c.variants.length : 0;
-            const variantAvailableCount = Array.isArray(c.variants) ? 
-              c.variants.filter((v: any) => v.available === true || v.availableForSale === true).length : 0;
-            console.log(`[Availability] rejected handle=${c.handle} productAvailable=${availableStatus} variantCount=${variantCount} variantAvailableCount=${variantAvailableCount} reason=inStockOnly_required`);
-            return false; // Reject due to availability requirement
-          }
-        }
-        
-        return true;
-      });
+      let gatedCandidates: EnrichedCandidate[] = facetGate.candidates;
       
       const afterFacetGating = gatedCandidates.length;
       const facetGatingReduction = beforeFacetGating - afterFacetGating;
@@ -8803,775 +7534,195 @@ async function processSessionInBackground({
       } else {
       console.log("[App Proxy] [Layer 2] After facet gating:", gatedCandidates.length, "candidates");
       }
-      
-      // Denylist for common false positives (word that contains the term but isn't the term)
-      const DENYLIST: Record<string, string[]> = {
-        "suit": ["suitcase", "suitable", "suited", "suiting"],
+      recommendationTrace.facetCoverage = {
+        totalCandidates,
+        coverage: { ...facetCoverageLog },
+        enforced: Array.from(enforcedConstraints.keys()),
+        degraded: degradedFacetsForValidation.map(d => ({ ...d })),
+        before: beforeFacetGating,
+        after: afterFacetGating,
       };
-      
-      // Helper function for word-boundary matching of hard terms
-      // Matches terms with word boundaries to prevent false positives (e.g., "suit" matches " suit " but not "suitable")
-      function matchesHardTermWithBoundary(searchText: string, hardTerm: string): boolean {
-        // Normalize the search text
-        const normalized = normalizeText(searchText);
-        const normalizedTerm = normalizeText(hardTerm);
-        
-        // Escape special regex characters in the term
-        const escapedTerm = normalizedTerm.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-        
-        // Check if term contains spaces (multi-word phrase)
-        if (normalizedTerm.includes(" ")) {
-          // Multi-word: require phrase match with word boundaries (normalized whitespace)
-          // Replace spaces with \s+ to allow flexible whitespace
-          const phrasePattern = escapedTerm.replace(/\s+/g, "\\s+");
-          const regex = new RegExp(`\\b${phrasePattern}\\b`, "i");
-          return regex.test(normalized);
-        } else {
-          // Single word: match with word boundaries (e.g., \bsuit\b)
-          const regex = new RegExp(`\\b${escapedTerm}\\b`, "i");
-          const hasMatch = regex.test(normalized);
-          
-          if (!hasMatch) {
-            return false;
-          }
-          
-          // Check denylist: if term has denylist entries and match is only substring-based, reject
-          const denylistTerms = DENYLIST[normalizedTerm];
-          if (denylistTerms && denylistTerms.length > 0) {
-            // Check if any denylist term appears in the normalized text
-            for (const denied of denylistTerms) {
-              const deniedRegex = new RegExp(`\\b${denied.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`, "i");
-              if (deniedRegex.test(normalized)) {
-                // Denylist term found - this is a false positive, reject the match
-                return false;
-              }
-            }
-          }
-          
-          return true;
-        }
-      }
+      recordGatingStep(recommendationTrace, "facet_gating", afterFacetGating);
       
       // Industry-agnostic boost terms (detected from user intent)
-      // These provide additional matching signals when present in user queries
-      // Works for any industry: "3 piece", "set", "kit", "bundle", etc.
-      const boostTerms = new Set<string>();
-      const lowerIntent = userIntent.toLowerCase();
-      
-      // Generic multi-piece/set patterns (industry-agnostic)
-      if (/\b(3\s*piece|three\s*piece|4\s*piece|four\s*piece|5\s*piece|five\s*piece)\b/i.test(lowerIntent)) {
-        const match = lowerIntent.match(/\b(\d+\s*piece|three\s*piece|four\s*piece|five\s*piece)\b/i);
-        if (match) {
-          boostTerms.add(match[1].toLowerCase());
-        }
-      }
+      const boostTerms = detectBoostTerms(userIntent);
       
-      // Generic collection terms (industry-agnostic)
-      if (/\b(set|kit|bundle|collection|suite|system)\b/i.test(lowerIntent)) {
-        const match = lowerIntent.match(/\b(set|kit|bundle|collection|suite|system)\b/i);
-        if (match) {
-          boostTerms.add(match[1].toLowerCase());
-        }
-      }
-      
-      // Budget filter helper: applies priceMin/priceMax constraints to candidates using range overlap
-      // CRITICAL: priceMin/priceMax from answers is the SINGLE source of truth
-      // Do NOT use LLM totalBudget or priceCeiling for filtering
-      function applyBudgetFilterCandidates<T extends { priceAmount?: any; price?: any; priceMinAmount?: number | null; priceMaxAmount?: number | null }>(
-        candidates: T[],
-        priceMin: number | null,
-        priceMax: number | null
-      ): T[] {
-        const hadBudget = typeof priceMin === "number" || typeof priceMax === "number";
-        if (!hadBudget) return candidates;
-
-        const before = candidates.length;
-        let removedBelow = 0;
-        let removedAbove = 0;
-        
-        // Log budget filtering (industry-agnostic)
-        if (hadBudget) {
-          console.log(`[BudgetFilter] applying budget min=${priceMin ?? "null"} max=${priceMax ?? "null"} before=${before}`);
-        }
-        
-        const out = candidates.filter(c => {
-          // Get price range from candidate (prefer explicit min/max, fallback to single price)
-          const candidateMin = (c as any).priceMinAmount ?? null;
-          const candidateMax = (c as any).priceMaxAmount ?? null;
-          const singlePrice = c.priceAmount != null ? parseFloat(String(c.priceAmount)) : (c.price != null ? parseFloat(String(c.price)) : NaN);
-          
-          // If we have explicit min/max, use range overlap logic
-          if (candidateMin !== null || candidateMax !== null) {
-            const candMin = candidateMin ?? candidateMax ?? (Number.isFinite(singlePrice) ? singlePrice : null);
-            const candMax = candidateMax ?? candidateMin ?? (Number.isFinite(singlePrice) ? singlePrice : null);
-            
-            if (candMin === null || candMax === null) {
-              // Missing price data - keep it (don't drop unknown)
-              return true;
-            }
-            
-            // Range overlap: candidateMax >= budgetMin AND candidateMin <= budgetMax
-            // Only apply floor filter when priceMin is present
-            if (typeof priceMin === "number" && candMax < priceMin) {
-              removedBelow++;
-              return false;
-            }
-            // Only apply ceiling filter when priceMax is present
-            if (typeof priceMax === "number" && candMin > priceMax) {
-              removedAbove++;
-              return false;
-            }
-            return true;
-          }
-          
-          // Fallback to single price logic for backwards compatibility
-          if (!Number.isFinite(singlePrice)) return true; // keep unknown prices
-          // Only apply floor filter when priceMin is present
-          if (typeof priceMin === "number" && singlePrice < priceMin) {
-            removedBelow++;
-            return false;
-          }
-          // Only apply ceiling filter when priceMax is present
-          if (typeof priceMax === "number" && singlePrice > priceMax) {
-            removedAbove++;
-            return false;
-          }
-          return true;
-        });
-        
-        const after = out.length;
-        
-        // Log budget filtering results (industry-agnostic)
-        if (hadBudget && (removedBelow > 0 || removedAbove > 0)) {
-          console.log(`[BudgetFilter] after=${after} removed_below_min=${removedBelow} removed_above_max=${removedAbove} min=${priceMin ?? "null"} max=${priceMax ?? "null"}`);
-        }
-        if (before !== after) {
-          console.log(`[BudgetFilter] applied=true before=${before} after=${after} min=${priceMin ?? "null"} max=${priceMax ?? "null"}`);
-          console.log(`[BudgetConstraint] applied=true floor=${priceMin ?? "null"} ceiling=${priceMax ?? "null"} removedBelow=${removedBelow} removedAbove=${removedAbove}`);
-        } else {
-          console.log(`[BudgetFilter] applied=true no_change count=${before} min=${priceMin ?? "null"} max=${priceMax ?? "null"}`);
-        }
-        return out;
-      }
-      
-      // Gate 2: Hard terms (STRICT: must match ALL hard terms when count >= 2, OR at least one when count == 1)
-      // Use word-boundary matching on normalized text (title/productType/tags/descPlain), not substring
-      let trustFallback = false;
-      let noMatchDetected = false; // BUG FIX #2: Track no_match flag to short-circuit pipeline
-      const strictGate: EnrichedCandidate[] = [];
-      let strictGateCount = 0; // Declare outside if block for use in type anchor gating
-      
-      // Keep baseCandidates separate from gatedCandidates (candidates after facet gating)
-      const baseCandidates = [...gatedCandidates];
+      // Gate 2: Hard terms (strict gate, morphology retry, staged fallback B/C/D; see gateByHardTerms)
+      let trustFallback = false;
+      let noMatchDetected = false; // BUG FIX #2: Track no_match flag to short-circuit pipeline
+      const strictGate: EnrichedCandidate[] = [];
+      let strictGateCount = 0; // Declare outside if block for use in type anchor gating
       
       if (hardTerms.length > 0) {
-        // Build normalized haystack using extractSearchText (includes ALL fields: title, handle, productType, tags, vendor, options, description)
-        // Use unifiedNormalize for consistency
-        const requireAllHardTerms = hardTerms.length >= 2; // AND logic when 2+ terms
-        
-        // Build hardTermTokens with morphology variants
-        const hardTermTokens = new Set<string>();
-        for (const term of hardTerms) {
-          const normalized = unifiedNormalize(term);
-          const tokens = tokenize(normalized);
-          // Add morphology variants for each token
-          for (const token of tokens) {
-            const morphVariants = expandTokenMorphology(token);
-            for (const variant of morphVariants) {
-              hardTermTokens.add(variant);
-            }
-          }
-        }
-        
-        // For single-term queries, allow any morphology variant match
-        // For multi-term queries, still require all original terms (morphology helps with individual term matching)
-        for (const candidate of gatedCandidates) {
-          // Use extractSearchText which includes all relevant fields, then normalize
-          const haystack = unifiedNormalize(candidate.searchText || extractSearchText(candidate, indexMetafields));
-          const candidateTokens = new Set(tokenize(haystack));
-          
-          // STRICT GATING: Require ALL hard terms when count >= 2 (AND logic)
-          let matchesHardTerms: boolean;
-          if (requireAllHardTerms) {
-            // AND logic: ALL hard terms must match (check original phrases OR token variants for single terms)
-            matchesHardTerms = hardTerms.every(phrase => {
-              const normalizedPhrase = unifiedNormalize(phrase);
-              // First try phrase match
-              if (matchesHardTermWithBoundary(haystack, normalizedPhrase)) {
-                return true;
-              }
-              // For single-word terms, also check morphology variants
-              const phraseTokens = tokenize(normalizedPhrase);
-              if (phraseTokens.length === 1) {
-                const morphVariants = expandTokenMorphology(phraseTokens[0]);
-                return Array.from(morphVariants).some(variant => candidateTokens.has(variant));
-              }
-              return false;
-            });
-          } else {
-            // OR logic: at least one hard term must match (when only 1 term)
-            // For single term, check phrase OR any morphology variant
-            const normalizedPhrase = unifiedNormalize(hardTerms[0]);
-            matchesHardTerms = matchesHardTermWithBoundary(haystack, normalizedPhrase);
-            if (!matchesHardTerms) {
-              // Try morphology variants
-              const phraseTokens = tokenize(normalizedPhrase);
-              if (phraseTokens.length === 1) {
-                const morphVariants = expandTokenMorphology(phraseTokens[0]);
-                matchesHardTerms = Array.from(morphVariants).some(variant => candidateTokens.has(variant));
-              }
-            }
-          }
-          
-          // Also check boost terms (if user intent suggests them) - boost terms are optional, not required
-          const hasBoostTerm = Array.from(boostTerms).some(term => {
-            const normalizedTerm = unifiedNormalize(term);
-            return matchesHardTermWithBoundary(haystack, normalizedTerm);
-          });
-          
-          // Include candidate if it matches hard terms (AND/OR based on count) OR has boost term
-          if (matchesHardTerms || hasBoostTerm) {
-            strictGate.push(candidate);
-          }
-        }
-        
-        // Filter avoid terms from strict gate (industry-agnostic)
-        // Normalize avoid terms to handle misspellings and plural/singular variations
-        const normalizeAvoidTerm = (term: string): string[] => {
-          const normalized = term.toLowerCase().trim();
-          const variants: string[] = [normalized];
-          
-          // Handle common misspellings (industry-agnostic)
-          const misspellings: Record<string, string> = {
-            "paterns": "patterns",
-            "patern": "pattern",
-            "pater": "pattern",
-          };
-          
-          if (misspellings[normalized]) {
-            variants.push(misspellings[normalized]);
-          }
-          
-          // Handle plural/singular variations (industry-agnostic)
-          if (normalized.endsWith("s") && normalized.length > 1) {
-            // Remove 's' for singular
-            variants.push(normalized.slice(0, -1));
-          } else if (normalized.length > 1) {
-            // Add 's' for plural
-            variants.push(normalized + "s");
-            // Also try 'es' for words ending in certain letters
-            if (/[sxz]$/.test(normalized) || /[ch]sh$/.test(normalized)) {
-              variants.push(normalized + "es");
-            }
-          }
-          
-          return Array.from(new Set(variants));
-        };
-        
-        // Build normalized avoid term set
-        const avoidTermVariants = new Set<string>();
-        for (const avoidTerm of avoidTerms) {
-          const variants = normalizeAvoidTerm(avoidTerm);
-          for (const variant of variants) {
-            avoidTermVariants.add(variant);
-          }
-        }
-        
-        // Filter out products that contain any avoid term variant
-        if (avoidTermVariants.size > 0) {
-          const beforeAvoidFilter = strictGate.length;
-          const filteredStrictGate = strictGate.filter(candidate => {
-            const searchableText = unifiedNormalize(
-              candidate.searchText || extractSearchText(candidate, indexMetafields)
-            );
-            
-            // Check if any avoid term variant appears in searchable text
-            const hasAvoidTerm = Array.from(avoidTermVariants).some(avoidVariant => {
-              // Use word boundary matching for better precision
-              const pattern = new RegExp(`\\b${avoidVariant.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-              return pattern.test(searchableText);
-            });
-            
-            if (hasAvoidTerm) {
-              console.log(`[AvoidFilter] Rejected ${candidate.handle} - contains avoid term variant`);
-              return false;
-            }
-            return true;
-          });
-          
-          const afterAvoidFilter = filteredStrictGate.length;
-          if (beforeAvoidFilter !== afterAvoidFilter) {
-            console.log(`[AvoidFilter] filtered=${beforeAvoidFilter - afterAvoidFilter} remaining=${afterAvoidFilter} avoidTerms=[${Array.from(avoidTermVariants).join(", ")}]`);
-          }
-          strictGate.length = 0;
-          strictGate.push(...filteredStrictGate);
-        }
-        
-        console.log("[App Proxy] [Layer 2] Strict gate (hard terms + facets):", strictGate.length, "candidates");
-        
-        // Budget diagnostic: Log strictGate items before budget filter (when budget is active)
-        if (hadBudget && (priceMin !== null || priceMax !== null) && strictGate.length > 0) {
-          const strictGateSample = strictGate
-            .slice(0, 15)
-            .map(c => ({
-              handle: c.handle,
-              title: c.title,
-              available: c.available,
-              priceMinAmount: (c as any).priceMinAmount ?? null,
-              priceMaxAmount: (c as any).priceMaxAmount ?? null,
-              priceAmount: (c as any).priceAmount || (c as any).price || null,
-            }));
-          console.log(`[BudgetDebug] strictGate_before_budget count=${strictGate.length} min=${priceMin ?? "null"} sample=${JSON.stringify(strictGateSample)}`);
-        }
-        
-        // STAGED FALLBACK LOGIC
-        // Stage A: strict (hard terms + facets) - only broaden if not enough for requestedCount
-        const buffer = 6; // Small buffer to ensure we have enough for AI ranking
-        strictGateCount = strictGate.length; // Update value declared above
-        const minNeededForRequested = finalResultCount + buffer;
-        
-        console.log(`[Gating] strictGateCount=${strictGateCount} requestedCount=${finalResultCount} buffer=${buffer} minNeeded=${minNeededForRequested}`);
-        
-        // Store original hardTerms before any expansion for NO_MATCH fallback
-        const originalHardTermsForNoMatch = hardTerms.filter(t => {
-          // Filter to only original terms (not synonyms) by checking if term was in original intent
-          // This is approximate - in practice, we'll use the expanded terms for retry
-          return true; // Keep all for now, will refine if needed
+        const hardTermGate = gateByHardTerms(gatedCandidates, {
+          hardTerms,
+          boostTerms,
+          avoidTerms,
+          priceMin,
+          priceMax,
+          resultCount: finalResultCount,
+          minCandidatesForAI: MIN_CANDIDATES_FOR_AI,
+          indexMetafields,
+          onStep: (step, count) => recordGatingStep(recommendationTrace, step, count),
         });
-        
-        if (strictGateCount >= minNeededForRequested) {
-          // Stage A: Strict gate is sufficient - keep it
-          const beforeBudget = strictGate.length;
-          gatedCandidates = applyBudgetFilterCandidates(strictGate, priceMin, priceMax);
-          const afterBudget = gatedCandidates.length;
-          
-          // Budget diagnostic: Log strictGate after budget filter
-          if (hadBudget && (priceMin !== null || priceMax !== null) && afterBudget > 0) {
-            const afterBudgetSample = gatedCandidates
-              .slice(0, 15)
-              .map(c => ({
-                handle: c.handle,
-                title: c.title,
-                available: c.available,
-                priceMinAmount: (c as any).priceMinAmount ?? null,
-                priceMaxAmount: (c as any).priceMaxAmount ?? null,
-                priceAmount: (c as any).priceAmount || (c as any).price || null,
-              }));
-            console.log(`[BudgetDebug] strictGate_after_budget before=${beforeBudget} after=${afterBudget} min=${priceMin ?? "null"} sample=${JSON.stringify(afterBudgetSample)}`);
-          }
-          
-          trustFallback = false;
-          console.log(`[Gating] Stage A: strict (hard terms + facets) - strictGateCount=${strictGateCount} >= minNeeded=${minNeededForRequested} trustFallback=false`);
-        } else if (strictGateCount === 0) {
-          // CRITICAL: strictGateCount==0 - retry with morphology + decompounding expansion
-          console.log(`[Gating] strictGateCount=0 - retrying with morphology and decompounding expansion`);
-          
-          // Build vocabulary from baseCandidates (candidates after facet gating)
-          const vocab = new Set<string>();
-          for (const candidate of baseCandidates) {
-            const haystack = unifiedNormalize(candidate.searchText || extractSearchText(candidate, indexMetafields));
-            const tokens = tokenize(haystack);
-            for (const token of tokens) {
-              if (token.length >= 4) { // Only consider tokens length >= 4 for vocab
-                vocab.add(token);
-              }
-            }
-          }
-          
-          // Build original query tokens
-          const originalQueryTokens: string[] = [];
-          for (const term of hardTerms) {
-            const normalized = unifiedNormalize(term);
-            const tokens = tokenize(normalized);
-            originalQueryTokens.push(...tokens);
-          }
-          
-          // Expand query tokens with morphology + decompounding
-          const expandedTokens = expandQueryTokens(originalQueryTokens, vocab);
-          const originalTokensArray = Array.from(new Set(originalQueryTokens));
-          const expandedTokensArray = Array.from(expandedTokens);
-          const addedTokens = expandedTokensArray.filter(t => !originalTokensArray.includes(t));
-          
-          if (addedTokens.length > 0) {
-            console.log(`[Morphology] originalTokens=[${originalTokensArray.join(",")}] expandedTokens=[${expandedTokensArray.join(",")}] applied=true`);
-            if (addedTokens.some(t => vocab.has(t))) {
-              console.log(`[Decompound] applied=true addedTokens=[${addedTokens.filter(t => vocab.has(t)).join(",")}]`);
-            }
-          }
-          
-          // Retry strict gate using expanded tokens (OR logic - match any expanded token)
-          // Industry-agnostic: Filter out irrelevant matches where hard term appears only as part of compound words
-          // (e.g., "top-coat" nail polish or "one-coat" pet product vs actual "coat" clothing)
-          // MODE-AGNOSTIC: This logic applies to Quiz, Chat, and Hybrid modes identically
-          const retryStrictGate: EnrichedCandidate[] = [];
-          const primaryHardTerm = hardTerms[0]; // Use first hard term for validation
-          const isSingleWordTerm = primaryHardTerm && primaryHardTerm.split(/\s+/).length === 1;
-          
-          for (const candidate of baseCandidates) {
-            const haystack = unifiedNormalize(candidate.searchText || extractSearchText(candidate, indexMetafields));
-            const candidateTokens = new Set(tokenize(haystack));
-            
-            // Check if any expanded token matches
-            const hasMatch = Array.from(expandedTokens).some(token => candidateTokens.has(token));
-            if (!hasMatch) continue;
-            
-            // Industry-agnostic: For single-word hard terms, validate that the term appears meaningfully
-            // Filter out products where term only appears as part of compound words (e.g., "top-coat", "one-coat")
-            if (isSingleWordTerm) {
-              const primaryTerm = unifiedNormalize(primaryHardTerm);
-              const titleNormalized = unifiedNormalize(candidate.title || "");
-              const productTypeNormalized = candidate.productType ? unifiedNormalize(candidate.productType) : "";
-              
-              // Check if term appears as standalone word (with word boundaries) in title or productType
-              const standaloneRegex = new RegExp(`\\b${primaryTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-              const titleHasStandalone = standaloneRegex.test(titleNormalized);
-              const productTypeHasStandalone = productTypeNormalized ? standaloneRegex.test(productTypeNormalized) : false;
-              
-              // Check if term appears only as part of compound (e.g., "top-coat", "one-coat")
-              const titleHasCompound = titleNormalized.includes(primaryTerm) && !titleHasStandalone;
-              
-              // If term only appears as compound in title AND not in productType, likely irrelevant
-              // Allow if productType contains the term (even if compound) OR if title has standalone term
-              if (titleHasCompound && !productTypeHasStandalone && !productTypeNormalized.includes(primaryTerm)) {
-                // Additional check: if productType suggests different category, filter out
-                // Industry-agnostic: check if productType is clearly unrelated (e.g., "Beauty", "Pet", "Health")
-                const unrelatedCategories = ["beauty", "pet", "health", "cosmetic", "nail", "hair", "skin", "treatment", "medicine"];
-                const productTypeIsUnrelated = unrelatedCategories.some(cat => productTypeNormalized.includes(cat));
-                
-                if (productTypeIsUnrelated) {
-                  continue; // Skip - likely irrelevant match (e.g., "top-coat" nail polish)
-                }
-              }
-            }
-            
-            retryStrictGate.push(candidate);
-          }
-          
-          if (retryStrictGate.length > 0) {
-            strictGateCount = retryStrictGate.length;
-            // Don't apply budget filter during gating retry - apply it later after we have enough candidates
-            // Budget filter should only be applied once we have sufficient candidates to choose from
-            gatedCandidates = retryStrictGate;
-            strictGateCount = gatedCandidates.length;
-            trustFallback = false;
-            console.log(`[Gating] Retry with morphology/decompound succeeded: strictGateCount=${strictGateCount} trustFallback=false (budget filter deferred)`);
-          } else {
-            // Still 0 - try BM25 with expanded token filter
-            console.log(`[Gating] strictGateCount still 0 after morphology retry - trying BM25 with expanded token filter`);
-            
-            // Filter candidates to require at least one expanded token match
-            const bm25Filtered = baseCandidates.filter(candidate => {
-              const haystack = unifiedNormalize(candidate.searchText || extractSearchText(candidate, indexMetafields));
-              const candidateTokens = new Set(tokenize(haystack));
-              return Array.from(expandedTokens).some(token => candidateTokens.has(token));
-            });
-            
-            if (bm25Filtered.length > 0) {
-              // Use BM25 ranking on filtered candidates
-              const candidateDocs = bm25Filtered.map(c => ({
-                candidate: c,
-                tokens: tokenize(c.searchText || extractSearchText(c, indexMetafields)),
-              }));
-              
-              const idf = calculateIDF(candidateDocs.map(d => ({ tokens: d.tokens })));
-              const avgDocLen = candidateDocs.reduce((sum, d) => sum + d.tokens.length, 0) / candidateDocs.length || 1;
-              
-              const queryTokensArray = Array.from(expandedTokens);
-              const scoredCandidates = candidateDocs.map(d => {
-                const docTokenFreq = new Map<string, number>();
-                for (const token of d.tokens) {
-                  docTokenFreq.set(token, (docTokenFreq.get(token) || 0) + 1);
-                }
-                const score = bm25Score(queryTokensArray, d.tokens, docTokenFreq, d.tokens.length, avgDocLen, idf);
-                return { candidate: d.candidate, score };
-              });
-              
-              scoredCandidates.sort((a, b) => {
-                if (Math.abs(b.score - a.score) > 0.01) return b.score - a.score;
-                if (a.candidate.available !== b.candidate.available) return a.candidate.available ? -1 : 1;
-                return a.candidate.handle.localeCompare(b.candidate.handle);
-              });
-              
-              // Don't apply budget filter during BM25 retry - apply it later after we have enough candidates
-              gatedCandidates = scoredCandidates.map(s => s.candidate);
-              strictGateCount = gatedCandidates.length;
-              trustFallback = false;
-              console.log(`[Gating] BM25 with expanded token filter succeeded: strictGateCount=${strictGateCount} trustFallback=false (budget filter deferred)`);
-            } else {
-              // All stages failed - try targeted Shopify search fallback if conditions are met
-              if (hardTerms.length > 0 && mightHaveMorePages && accessToken && shopDomain) {
-                console.log(`[Gating] strictGateCount=0 - attempting targeted Shopify search fallback`);
+        strictGate.push(...hardTermGate.strictGate);
+        strictGateCount = hardTermGate.strictGateCount;
+        gatedCandidates = hardTermGate.candidates;
+        trustFallback = hardTermGate.trustFallback;
+        if (hardTermGate.relaxNote) {
+          relaxNotes.push(hardTermGate.relaxNote);
+        }
+        
+        if (hardTermGate.stage === "no_match") {
+          // All gating stages failed - try targeted Shopify search fallback if conditions are met
+          if (mightHaveMorePages && accessToken && shopDomain) {
+            console.log(`[Gating] strictGateCount=0 - attempting targeted Shopify search fallback`);
                 
-                try {
-                  // Build search queries with built-in synonym expansion if experience.searchSynonymsJson is empty
-                  const searchQueries: string[] = [];
-                  const hasSearchSynonyms = experience.searchSynonymsJson !== null && experience.searchSynonymsJson !== undefined && experience.searchSynonymsJson !== "";
+            try {
+              // Build search queries with built-in synonym expansion if experience.searchSynonymsJson is empty
+              const searchQueries: string[] = [];
+              const hasSearchSynonyms = experience.searchSynonymsJson !== null && experience.searchSynonymsJson !== undefined && experience.searchSynonymsJson !== "";
                   
-                  for (const hardTerm of hardTerms) {
-                    // Use the hard term as-is for search query
-                    // If synonyms are configured in experience.searchSynonymsJson, they should already be in hardTerms
-                    // Otherwise, Shopify's search will handle partial matches and relevance
-                    searchQueries.push(hardTerm);
-                  }
+              for (const hardTerm of hardTerms) {
+                // Use the hard term as-is for search query
+                // If synonyms are configured in experience.searchSynonymsJson, they should already be in hardTerms
+                // Otherwise, Shopify's search will handle partial matches and relevance
+                searchQueries.push(hardTerm);
+              }
                   
-                  // Fetch products for each search query (cap at 250-300 per query, total cap to avoid huge payloads)
-                  const MAX_SEARCH_RESULTS_PER_QUERY = 250;
-                  const MAX_TOTAL_SEARCH_RESULTS = 500;
-                  const fallbackProducts: any[] = [];
-                  // Track handles from all existing candidates to avoid duplicates
-                  const seenHandles = new Set<string>(allCandidatesEnriched.map(c => c.handle));
+              // Fetch products for each search query (cap at 250-300 per query, total cap to avoid huge payloads)
+              const MAX_SEARCH_RESULTS_PER_QUERY = 250;
+              const MAX_TOTAL_SEARCH_RESULTS = 500;
+              const fallbackProducts: any[] = [];
+              // Track handles from all existing candidates to avoid duplicates
+              const seenHandles = new Set<string>(allCandidatesEnriched.map(c => c.handle));
                   
-                  for (const searchQuery of searchQueries) {
-                    if (fallbackProducts.length >= MAX_TOTAL_SEARCH_RESULTS) break;
+              for (const searchQuery of searchQueries) {
+                if (fallbackProducts.length >= MAX_TOTAL_SEARCH_RESULTS) break;
                     
-                    const remaining = MAX_TOTAL_SEARCH_RESULTS - fallbackProducts.length;
-                    const queryLimit = Math.min(MAX_SEARCH_RESULTS_PER_QUERY, remaining);
+                const remaining = MAX_TOTAL_SEARCH_RESULTS - fallbackProducts.length;
+                const queryLimit = Math.min(MAX_SEARCH_RESULTS_PER_QUERY, remaining);
                     
-                    try {
-                      const searchResults = await fetchShopifyProductsBySearchQuery({
-                        shopDomain,
-                        accessToken,
-                        query: searchQuery,
-                        targetCount: queryLimit,
-                      });
-                      
-                      // Filter and dedupe
-                      for (const product of searchResults) {
-                        if (seenHandles.has(product.handle)) continue;
-                        if ((product as any).status === "ARCHIVED" || (product as any).status === "DRAFT") continue;
-                        if (excludedTags.length > 0) {
-                          const productTags = product.tags || [];
-                          if (excludedTags.some(excludedTag => 
-                            productTags.some((tag: string) => tag.toLowerCase() === excludedTag.toLowerCase())
-                          )) continue;
-                        }
-                        if (experience.inStockOnly && !product.available) continue;
-                        
-                        seenHandles.add(product.handle);
-                        fallbackProducts.push(product);
-                      }
+                try {
+                  const searchResults = await fetchCatalogProductsBySearchQuery({
+                    shopDomain,
+                    accessToken,
+                    query: searchQuery,
+                    targetCount: queryLimit,
+                  });
                       
-                      console.log(`[Shopify Search Fallback] enabled=true term="${searchQuery}" fetched=${searchResults.length} merged_total=${fallbackProducts.length}`);
-                    } catch (error) {
-                      console.error(`[Shopify Search Fallback] Error fetching for term "${searchQuery}":`, error);
+                  // Filter and dedupe
+                  for (const product of searchResults) {
+                    if (seenHandles.has(product.handle)) continue;
+                    if ((product as any).status === "ARCHIVED" || (product as any).status === "DRAFT") continue;
+                    if (excludedTags.length > 0) {
+                      const productTags = product.tags || [];
+                      if (excludedTags.some(excludedTag => 
+                        productTags.some((tag: string) => tag.toLowerCase() === excludedTag.toLowerCase())
+                      )) continue;
                     }
+                    if (experience.inStockOnly && !product.available) continue;
+                        
+                    seenHandles.add(product.handle);
+                    fallbackProducts.push(product);
                   }
+                      
+                  console.log(`[Shopify Search Fallback] enabled=true term="${searchQuery}" fetched=${searchResults.length} merged_total=${fallbackProducts.length}`);
+                } catch (error) {
+                  console.error(`[Shopify Search Fallback] Error fetching for term "${searchQuery}":`, error);
+                }
+              }
                   
-                  if (fallbackProducts.length > 0) {
-                    // Merge into product pool and rerun indexing/gating
-                    const mergedProducts = [...baseProducts, ...fallbackProducts];
-                    const mergedTotal = mergedProducts.length;
+              if (fallbackProducts.length > 0) {
+                // Merge into product pool and rerun indexing/gating
+                const mergedProducts = [...baseProducts, ...fallbackProducts];
+                const mergedTotal = mergedProducts.length;
                     
-                    console.log(`[Shopify Search Fallback] merged_total=${mergedTotal} (added ${fallbackProducts.length} from search)`);
-                    
-                    // Re-enrich candidates with merged products
-                    // Note: We need to rebuild allCandidatesEnriched with the merged products
-                    // This is a simplified approach - in practice, you'd want to properly re-index
-                    const mergedEnriched: EnrichedCandidate[] = mergedProducts.map((p: any) => {
-                      const descPlain = cleanDescription(p.description || null);
-                      const desc1000 = descPlain.substring(0, 1000);
-                      return {
-                        handle: p.handle,
-                        title: p.title,
-                        tags: p.tags || [],
-                        productType: p.productType || null,
-                        vendor: p.vendor || null,
-                        price: p.priceAmount || p.price || null,
-                        description: p.description || null,
-                        descPlain,
-                        desc1000,
-                        searchText: buildSearchText({
-                          title: p.title,
-                          productType: p.productType || null,
-                          vendor: p.vendor || null,
-                          tags: p.tags || [],
-                          optionValues: (p as any).optionValues ?? {},
-                          sizes: Array.isArray((p as any).sizes) ? (p as any).sizes : [],
-                          colors: Array.isArray((p as any).colors) ? (p as any).colors : [],
-                          materials: Array.isArray((p as any).materials) ? (p as any).materials : [],
-                          desc1000,
-                        }),
-                        available: p.available,
-                        sizes: Array.isArray((p as any).sizes) ? (p as any).sizes : [],
-                        colors: Array.isArray((p as any).colors) ? (p as any).colors : [],
-                        materials: Array.isArray((p as any).materials) ? (p as any).materials : [],
-                        optionValues: (p as any).optionValues ?? {},
-                      } as EnrichedCandidate;
-                    });
+                console.log(`[Shopify Search Fallback] merged_total=${mergedTotal} (added ${fallbackProducts.length} from search)`);
                     
-                    // Update allCandidatesEnriched and rerun strict gate
-                    allCandidatesEnriched = mergedEnriched;
-                    gatedCandidates = applyBudgetFilterCandidates(allCandidatesEnriched, priceMin, priceMax);
-                    console.log(`[Gating] reset_to_all_candidates budget_enforced=true count=${gatedCandidates.length}`);
+                // Re-enrich candidates with merged products
+                // Note: We need to rebuild allCandidatesEnriched with the merged products
+                // This is a simplified approach - in practice, you'd want to properly re-index
+                const mergedEnriched: EnrichedCandidate[] = mergedProducts.map((p: any) => {
+                  const descPlain = cleanDescription(p.description || null);
+                  const desc1000 = descPlain.substring(0, 1000);
+                  return {
+                    handle: p.handle,
+                    title: p.title,
+                    tags: p.tags || [],
+                    productType: p.productType || null,
+                    vendor: p.vendor || null,
+                    price: p.priceAmount || p.price || null,
+                    description: p.description || null,
+                    descPlain,
+                    desc1000,
+                    searchText: buildSearchText({
+                      title: p.title,
+                      productType: p.productType || null,
+                      vendor: p.vendor || null,
+                      tags: p.tags || [],
+                      optionValues: (p as any).optionValues ?? {},
+                      sizes: Array.isArray((p as any).sizes) ? (p as any).sizes : [],
+                      colors: Array.isArray((p as any).colors) ? (p as any).colors : [],
+                      materials: Array.isArray((p as any).materials) ? (p as any).materials : [],
+                      desc1000,
+                    }),
+                    available: p.available,
+                    sizes: Array.isArray((p as any).sizes) ? (p as any).sizes : [],
+                    colors: Array.isArray((p as any).colors) ? (p as any).colors : [],
+                    materials: Array.isArray((p as any).materials) ? (p as any).materials : [],
+                    optionValues: (p as any).optionValues ?? {},
+                  } as EnrichedCandidate;
+                });
                     
-                    // Rerun strict gate
-                    const retryStrictGate: EnrichedCandidate[] = [];
-                    for (const candidate of allCandidatesEnriched) {
-                      const haystack = unifiedNormalize(candidate.searchText || extractSearchText(candidate, indexMetafields));
-                      const hasHardTermMatch = hardTerms.some(phrase => {
-                        const normalizedPhrase = unifiedNormalize(phrase);
-                        return matchesHardTermWithBoundary(haystack, normalizedPhrase);
-                      });
-                      if (hasHardTermMatch) {
-                        retryStrictGate.push(candidate);
-                      }
-                    }
+                // Update allCandidatesEnriched and rerun strict gate
+                allCandidatesEnriched = mergedEnriched;
+                gatedCandidates = applyBudgetFilterCandidates(allCandidatesEnriched, priceMin, priceMax);
+                console.log(`[Gating] reset_to_all_candidates budget_enforced=true count=${gatedCandidates.length}`);
                     
-                    if (retryStrictGate.length > 0) {
-                      strictGateCount = retryStrictGate.length;
-                      gatedCandidates = applyBudgetFilterCandidates(retryStrictGate, priceMin, priceMax);
-                      strictGateCount = gatedCandidates.length;
-                      trustFallback = false;
-                      console.log(`[Gating] fallback_search_used=true strictGateCount_before=0 strictGateCount_after=${strictGateCount}`);
-                    } else {
-                      // Still 0 after search fallback - return NO_MATCH
-                      console.log(`[Gating] no_match=true reason=all_gating_stages_failed_including_search_fallback`);
-                      noMatchDetected = true;
-                      gatedCandidates = [];
-                    }
-                  } else {
-                    // No search results - return NO_MATCH
-                    console.log(`[Gating] no_match=true reason=all_gating_stages_failed_search_fallback_returned_0`);
-                    noMatchDetected = true;
-                    gatedCandidates = [];
+                // Rerun strict gate
+                const retryStrictGate: EnrichedCandidate[] = [];
+                for (const candidate of allCandidatesEnriched) {
+                  const haystack = unifiedNormalize(candidate.searchText || extractSearchText(candidate, indexMetafields));
+                  const hasHardTermMatch = hardTerms.some(phrase => {
+                    const normalizedPhrase = unifiedNormalize(phrase);
+                    return matchesHardTermWithBoundary(haystack, normalizedPhrase);
+                  });
+                  if (hasHardTermMatch) {
+                    retryStrictGate.push(candidate);
                   }
-                } catch (error) {
-                  console.error(`[Gating] Error in targeted search fallback:`, error);
-                  // Fall through to NO_MATCH
-                  console.log(`[Gating] no_match=true reason=all_gating_stages_failed_search_fallback_error`);
+                }
+                    
+                if (retryStrictGate.length > 0) {
+                  strictGateCount = retryStrictGate.length;
+                  gatedCandidates = applyBudgetFilterCandidates(retryStrictGate, priceMin, priceMax);
+                  strictGateCount = gatedCandidates.length;
+                  trustFallback = false;
+                  console.log(`[Gating] fallback_search_used=true strictGateCount_before=0 strictGateCount_after=${strictGateCount}`);
+                } else {
+                  // Still 0 after search fallback - return NO_MATCH
+                  console.log(`[Gating] no_match=true reason=all_gating_stages_failed_including_search_fallback`);
                   noMatchDetected = true;
                   gatedCandidates = [];
                 }
-            } else {
-              // All stages failed - return NO_MATCH
-              console.log(`[Gating] no_match=true reason=all_gating_stages_failed (strictGateCount=0, synonym_retry=0, bm25_filter=0)`);
-              noMatchDetected = true; // Set flag to short-circuit pipeline
-              gatedCandidates = []; // Ensure gatedCandidates is empty
-              // Will be handled below to return NO_MATCH result
-              }
-            }
-          }
-        } else {
-          // Need to broaden - implement staged fallback
-          console.log(`[Gating] strictGateCount=${strictGateCount} < minNeeded=${minNeededForRequested} - starting staged fallback`);
-          
-          // Stage B: Relax facets only (keep ALL hard terms)
-          // Build candidates that match ALL hardTerms but relax facet constraints
-          const stageB = gatedCandidates.filter(candidate => {
-            const haystack = unifiedNormalize(candidate.searchText || extractSearchText(candidate, indexMetafields));
-            
-            // Must match ALL hard terms (keep all hardTerms, don't drop any)
-            const matchesAllHardTerms = hardTerms.every(phrase => {
-              const normalizedPhrase = unifiedNormalize(phrase);
-              return matchesHardTermWithBoundary(haystack, normalizedPhrase);
-            });
-            return matchesAllHardTerms;
-          });
-          
-          console.log(`[Gating] Stage B: relax facets only - count=${stageB.length} (strictGateCount=${strictGateCount})`);
-          
-          if (stageB.length >= minNeededForRequested) {
-            gatedCandidates = applyBudgetFilterCandidates(stageB, priceMin, priceMax);
-            trustFallback = false;
-            console.log(`[Gating] Stage B: relax facets only (keep all hardTerms) - count=${gatedCandidates.length} anchor_terms=[${hardTerms.join(", ")}] trustFallback=false`);
-              } else {
-            // Stage C: Relax hard terms (allow token containment matching)
-            // Use token-based matching: check if any normalized hard term token appears in indexed text
-            // BUT: prioritize primary/canonical terms and filter out negative matches
-            const hardTermTokens = new Set<string>();
-            const primaryTermTokens = new Set<string>(); // Original terms before expansion (more important)
-            const expandedTermTokens = new Set<string>(); // Expanded terms (less important)
-            
-            // Separate primary terms (from original hardTerms before expansion) from expanded terms
-            // For now, treat all hardTerms equally, but prioritize longer/more specific terms
-            hardTerms.forEach(phrase => {
-              const normalized = unifiedNormalize(phrase);
-              const tokens = tokenize(normalized);
-              tokens.forEach(t => hardTermTokens.add(t));
-              
-              // Prioritize multi-word phrases and longer terms (more specific)
-              if (phrase.includes(" ") || phrase.length >= 6) {
-                tokens.forEach(t => primaryTermTokens.add(t));
               } else {
-                tokens.forEach(t => expandedTermTokens.add(t));
-              }
-            });
-            
-            // Filter out common stopwords that cause false matches
-            const stopwordTokens = new Set(["de", "du", "des", "le", "la", "les", "un", "une", "eau", "eau"]);
-            const meaningfulTokens = Array.from(hardTermTokens).filter(t => 
-              t.length >= 3 && !stopwordTokens.has(t.toLowerCase())
-            );
-            
-            const stageC = gatedCandidates.filter(candidate => {
-              const haystack = unifiedNormalize(candidate.searchText || extractSearchText(candidate, indexMetafields));
-              const haystackLower = haystack.toLowerCase();
-              
-              // Filter out negative matches (industry-agnostic)
-              // Detect negative patterns dynamically based on hard terms
-              // Common negative indicators: "no", "sans", "free", "without", "not", "non", "zero"
-              const negativeIndicators = ["no", "sans", "free", "without", "not", "non", "zero", "0", "ohne", "sin"];
-              
-              // Build negative patterns dynamically for each primary hard term (industry-agnostic)
-              const primaryHardTerms = hardTerms.filter(term => term.length >= 4); // Only meaningful terms
-              const hasNegativeMatch = primaryHardTerms.some(term => {
-                const termLower = term.toLowerCase();
-                // Pattern 1: negative indicator + term (e.g., "no perfume", "sans parfum")
-                const pattern1 = new RegExp(`\\b(?:${negativeIndicators.join("|")})\\s+${termLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-                // Pattern 2: term + negative indicator (e.g., "perfume free", "parfum sans")
-                const pattern2 = new RegExp(`\\b${termLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s+(?:${negativeIndicators.join("|")})\\b`, 'i');
-                return pattern1.test(haystackLower) || pattern2.test(haystackLower);
-              });
-              
-              if (hasNegativeMatch) {
-                return false; // Exclude negative matches
-              }
-              
-              const candidateTokens = new Set(tokenize(haystack));
-              
-              // Check if at least one meaningful hard term token appears in candidate
-              // Prioritize primary terms if available
-              if (primaryTermTokens.size > 0) {
-                const primaryMatch = Array.from(primaryTermTokens).some(token => 
-                  token.length >= 3 && !stopwordTokens.has(token.toLowerCase()) && candidateTokens.has(token)
-                );
-                if (primaryMatch) return true;
-              }
-              
-              // Fallback to any meaningful token
-              return meaningfulTokens.some(token => candidateTokens.has(token));
-            });
-            
-            console.log(`[Gating] Stage C: token containment - count=${stageC.length} hardTermTokens=[${Array.from(hardTermTokens).join(", ")}]`);
-            
-            if (stageC.length >= MIN_CANDIDATES_FOR_AI) {
-              gatedCandidates = applyBudgetFilterCandidates(stageC, priceMin, priceMax);
-              trustFallback = false;
-              console.log(`[Gating] Stage C: relax hard terms (token containment, keep all terms) - count=${gatedCandidates.length} anchor_terms=[${hardTerms.join(", ")}] trustFallback=false`);
-          } else {
-              // Stage D: BM25 over full pool but filtered to items that match at least 1 normalized hard token
-              // Use BM25 ranking but only include candidates with at least one token match
-              const stageD = gatedCandidates.filter(candidate => {
-                const haystack = unifiedNormalize(candidate.searchText || extractSearchText(candidate, indexMetafields));
-                const candidateTokens = new Set(tokenize(haystack));
-                
-                // Must match at least one hard term token
-                return Array.from(hardTermTokens).some(token => candidateTokens.has(token));
-              });
-              
-              console.log(`[Gating] Stage D: BM25 with token filter - count=${stageD.length}`);
-              
-              if (stageD.length > 0) {
-                gatedCandidates = applyBudgetFilterCandidates(stageD, priceMin, priceMax);
-                trustFallback = false;
-                console.log(`[Gating] Stage D: BM25 with token filter - count=${gatedCandidates.length} anchor_terms=[${hardTerms.join(", ")}] trustFallback=false`);
-              } else {
-                // All stages failed - mark for emergency fallback (no billing)
-            trustFallback = true;
-                relaxNotes.push(`No matches found for "${hardTerms.join(", ")}" after staged fallback.`);
-                console.log(`[Gating] All stages failed - emergency fallback required - count=${gatedCandidates.length} anchor_terms=[${hardTerms.join(", ")}] trustFallback=true`);
+                // No search results - return NO_MATCH
+                console.log(`[Gating] no_match=true reason=all_gating_stages_failed_search_fallback_returned_0`);
+                noMatchDetected = true;
+                gatedCandidates = [];
               }
+            } catch (error) {
+              console.error(`[Gating] Error in targeted search fallback:`, error);
+              // Fall through to NO_MATCH
+              console.log(`[Gating] no_match=true reason=all_gating_stages_failed_search_fallback_error`);
+              noMatchDetected = true;
+              gatedCandidates = [];
             }
+          } else {
+            // All stages failed - return NO_MATCH
+            console.log(`[Gating] no_match=true reason=all_gating_stages_failed (strictGateCount=0, synonym_retry=0, bm25_filter=0)`);
+            noMatchDetected = true; // Set flag to short-circuit pipeline
+            gatedCandidates = []; // Will be handled below to return NO_MATCH result
           }
         }
       } else {
@@ -9682,6 +7833,7 @@ async function processSessionInBackground({
       // Store strict gate candidates for fallback ranking (if strictGateCount > 0, fallback must use strict gate only)
       const strictGateCandidates = strictGate.length > 0 ? [...strictGate] : undefined;
       console.log("[App Proxy] [Layer 2] Final gated pool:", gatedCandidates.length, "candidates");
+      recordGatingStep(recommendationTrace, "final_gated_pool", gatedCandidates.length, trustFallback ? "trustFallback" : undefined);
       
       // Budget sanity check before AI window selection
       console.log(`[BudgetSanity] gated_before_ai=${gatedCandidates.length} min=${priceMin ?? "null"} max=${priceMax ?? "null"}`);
@@ -9737,563 +7889,73 @@ async function processSessionInBackground({
         });
         
         console.log("[App Proxy] NO_MATCH result saved - session marked COMPLETE with 0 products (SKIPPED: BM25 ranking, AI ranking, billing)");
+        await persistRecommendationTrace();
         return; // Exit early - DO NOT continue to BM25 ranking, DO NOT call AI ranking, DO NOT bill
       } else if (gatedCandidates.length === 0 && beforeFacetGating > 0) {
-        // Candidates existed before facet gating but were removed - this is due to low coverage facets
-        // Continue with partial results (will use fallback logic later)
-        console.log(`[Gating] candidates_removed_by_facets before=${beforeFacetGating} after=${gatedCandidates.length} - continuing with fallback logic`);
-      }
-      
-      // BUNDLE/HARD-TERM PATH: Continue processing (only if we have candidates)
-      // Reduce AI window when no hardTerms (max 30 candidates for speed)
-      if (hardTerms.length === 0 && aiWindow > noHardTermsWindow) {
-        aiWindow = noHardTermsWindow;
-        console.log("[App Proxy] AI window reduced to", noHardTermsWindow, "(no hardTerms)");
-      }
-      
-      // Pre-rank gated candidates with BM25 + boosts
-      const bm25StartSingle = performance.now();
-      console.log("[App Proxy] [Layer 2] Pre-ranking candidates with BM25");
-      
-      // TypeAnchor boost mode is already determined above (typeAnchorInBoostMode variable)
-      // Use it for BM25 boosting
-      
-      const rankedCandidates = gatedCandidates.map(c => {
-        const docTokens = tokenize(c.searchText);
-        const docTokenFreq = new Map<string, number>();
-        for (const token of docTokens) {
-          docTokenFreq.set(token, (docTokenFreq.get(token) || 0) + 1);
-        }
-        
-        // BM25 score
-        let score = bm25Score(allQueryTokens, docTokens, docTokenFreq, docTokens.length, avgDocLen, idf);
-        
-        // Boost for exact phrase match using normalized haystack: title + productType + tags.join(" ") + vendor + searchText
-        const haystack = [
-          c.title || "",
-          c.productType || "",
-          (c.tags || []).join(" "),
-          c.vendor || "",
-          c.searchText || "",
-        ].join(" ");
-        
-        for (const hardTerm of hardTerms) {
-          if (matchesHardTermWithBoundary(haystack, hardTerm)) {
-            score += 2.0; // Boost for exact phrase match with word boundaries
-          }
-        }
-        
-        // Boost for generic collection/multi-piece terms (industry-agnostic)
-        for (const boostTerm of boostTerms) {
-          if (matchesHardTermWithBoundary(haystack, boostTerm)) {
-            score += 1.5; // Boost for collection/multi-piece terms
-          }
-        }
-        
-        // TypeAnchor boost (when in boost mode, not filter mode)
-        if (typeAnchorInBoostMode && primaryTypeAnchor) {
-          if (productMatchesTypeAnchor(c, primaryTypeAnchor) || 
-              (typeAnchorVariants.length > 1 && typeAnchorVariants.some(variant => productMatchesTypeAnchor(c, variant)))) {
-            score += 3.0; // Strong boost for type anchor match when in boost mode
-          }
-        }
-        
-        // Boost for facet matches
-        if (hardFacets.size && c.sizes.some((s: string) => normalizeText(s) === normalizeText(hardFacets.size))) {
-          score += 1.5;
-        }
-        if (hardFacets.color && c.colors.some((col: string) => normalizeText(col) === normalizeText(hardFacets.color))) {
-          score += 1.5;
-        }
-        if (hardFacets.material && c.materials.some((m: string) => normalizeText(m) === normalizeText(hardFacets.material))) {
-          score += 1.5;
-        }
-        
-        // Penalty for avoid terms (use extractSearchText for consistency)
-        if (avoidTerms.length > 0) {
-          const searchText = extractSearchText(c);
-          const avoidMatches = avoidTerms.filter(avoid => searchText.includes(avoid.toLowerCase())).length;
-          score -= avoidMatches * 1.0;
-        }
-        
-        return { candidate: c, score };
-      });
-      
-      // Sort by score descending
-      rankedCandidates.sort((a, b) => b.score - a.score);
-      
-      // ============================================
-      // GROUP-BALANCED WINDOW SELECTION (for collection intent)
-      // ============================================
-      let topCandidates: EnrichedCandidate[];
-      
-      if (collectionIntent && !bundleIntent.isBundle) {
-        // ============================================
-        // FAMILY-BASED GROUPING (coarse, industry-agnostic)
-        // ============================================
-        // Derive family keys for all ranked candidates
-        const candidatesWithFamilies = rankedCandidates.map(r => {
-          const familyInfo = deriveFamilyKey(r.candidate);
-          const rawKey = familyInfo.key;
-          const canonicalKey = canonicalizeGroupKey(rawKey);
-          return {
-            ...r,
-            familyKey: canonicalKey, // Use canonical key for grouping
-            rawFamilyKey: rawKey, // Keep raw key for reference
-            familySource: familyInfo.source
-          };
-        });
-        
-        // Log familyKey source for a few items (sample)
-        const sampleFamilySources: Record<string, number> = {};
-        candidatesWithFamilies.slice(0, 10).forEach(c => {
-          sampleFamilySources[c.familySource] = (sampleFamilySources[c.familySource] || 0) + 1;
-        });
-        console.log(`[CollectionIntent] familyKey_source sample=${JSON.stringify(sampleFamilySources)}`);
-        
-        // ============================================
-        // COMPUTE INTENT STRENGTH
-        // ============================================
-        // Get preferences count (from LLM intent if available)
-        // Note: preferences are merged into softTerms earlier, but we can still count them if LLM provided them
-        let preferencesCount = 0;
-        if (llmIntentUsed && llmIntentResult?.intent?.preferences) {
-          preferencesCount = Array.isArray(llmIntentResult.intent.preferences) ? llmIntentResult.intent.preferences.length : 0;
-        }
-        
-        const intentStrength = Math.min(1.0, Math.max(0.0, (hardTerms.length * 2 + softTerms.length + preferencesCount) / 6));
-        console.log(`[CollectionIntent] intent_strength=${intentStrength.toFixed(2)} hardTerms=${hardTerms.length} softTerms=${softTerms.length} preferences=${preferencesCount}`);
-        
-        // ============================================
-        // COMPUTE COMMITMENT SCORE PER FAMILY
-        // ============================================
-        // Group candidates by family for commitment calculation
-        const familyCandidatesMap = new Map<string, typeof candidatesWithFamilies>();
-        candidatesWithFamilies.forEach(c => {
-          if (!familyCandidatesMap.has(c.familyKey)) {
-            familyCandidatesMap.set(c.familyKey, []);
-          }
-          familyCandidatesMap.get(c.familyKey)!.push(c);
-        });
-        
-        // Compute commitment score per family
-        const familyCommitmentScores = new Map<string, number>();
-        const allPrices: number[] = [];
-        const allTitleLengths: number[] = [];
-        const allDescLengths: number[] = [];
-        const allVariantCounts: number[] = [];
-        
-        // First pass: collect global stats for normalization
-        candidatesWithFamilies.forEach(c => {
-          const price = c.candidate.price ? parseFloat(String(c.candidate.price)) : 0;
-          if (Number.isFinite(price) && price > 0) allPrices.push(price);
-          
-          const titleLen = c.candidate.title ? String(c.candidate.title).length : 0;
-          if (titleLen > 0) allTitleLengths.push(titleLen);
-          
-          const descLen = c.candidate.description ? String(c.candidate.description).length : 0;
-          if (descLen > 0) allDescLengths.push(descLen);
-          
-          // Count variants/options
-          const optionValues = c.candidate.optionValues || {};
-          const variantCount = Object.keys(optionValues).length;
-          if (variantCount > 0) allVariantCounts.push(variantCount);
-        });
-        
-        const medianPrice = allPrices.length > 0 ? [...allPrices].sort((a, b) => a - b)[Math.floor(allPrices.length / 2)] : 0;
-        const avgTitleLength = allTitleLengths.length > 0 ? allTitleLengths.reduce((a, b) => a + b, 0) / allTitleLengths.length : 0;
-        const avgDescLength = allDescLengths.length > 0 ? allDescLengths.reduce((a, b) => a + b, 0) / allDescLengths.length : 0;
-        const avgVariantCount = allVariantCounts.length > 0 ? allVariantCounts.reduce((a, b) => a + b, 0) / allVariantCounts.length : 0;
-        
-        // Second pass: compute commitment score per family
-        familyCandidatesMap.forEach((candidates, familyKey) => {
-          const familyPrices: number[] = [];
-          const familyTitleLengths: number[] = [];
-          const familyDescLengths: number[] = [];
-          const familyVariantCounts: number[] = [];
-          let hasSetBundleKit = false;
-          
-          candidates.forEach(c => {
-            const price = c.candidate.price ? parseFloat(String(c.candidate.price)) : 0;
-            if (Number.isFinite(price) && price > 0) familyPrices.push(price);
-            
-            const titleLen = c.candidate.title ? String(c.candidate.title).length : 0;
-            if (titleLen > 0) familyTitleLengths.push(titleLen);
-            
-            const descLen = c.candidate.description ? String(c.candidate.description).length : 0;
-            if (descLen > 0) familyDescLengths.push(descLen);
-            
-            const optionValues = c.candidate.optionValues || {};
-            const variantCount = Object.keys(optionValues).length;
-            if (variantCount > 0) familyVariantCounts.push(variantCount);
-            
-            // Check for set/bundle/kit/complete signals (generic, industry-agnostic)
-            const searchText = extractSearchText(c.candidate).toLowerCase();
-            if (/\b(set|bundle|kit|complete|pack|collection|ensemble)\b/.test(searchText)) {
-              hasSetBundleKit = true;
-            }
-          });
-          
-          const familyMedianPrice = familyPrices.length > 0 
-            ? [...familyPrices].sort((a, b) => a - b)[Math.floor(familyPrices.length / 2)] 
-            : 0;
-          const familyAvgTitleLength = familyTitleLengths.length > 0 
-            ? familyTitleLengths.reduce((a, b) => a + b, 0) / familyTitleLengths.length 
-            : 0;
-          const familyAvgDescLength = familyDescLengths.length > 0 
-            ? familyDescLengths.reduce((a, b) => a + b, 0) / familyDescLengths.length 
-            : 0;
-          const familyAvgVariantCount = familyVariantCounts.length > 0 
-            ? familyVariantCounts.reduce((a, b) => a + b, 0) / familyVariantCounts.length 
-            : 0;
-          
-          // Compute normalized commitment components (0..1 each)
-          const priceComponent = medianPrice > 0 ? Math.min(1.0, familyMedianPrice / (medianPrice * 2)) : 0.5;
-          const complexityComponent = avgTitleLength > 0 && avgDescLength > 0
-            ? Math.min(1.0, ((familyAvgTitleLength / avgTitleLength) + (familyAvgDescLength / avgDescLength)) / 2)
-            : 0.5;
-          const variantComponent = avgVariantCount > 0
-            ? Math.min(1.0, familyAvgVariantCount / (avgVariantCount * 2))
-            : 0.5;
-          const setBundleComponent = hasSetBundleKit ? 0.8 : 0.3;
-          
-          // Weighted average (normalize to 0..1)
-          const commitmentScore = (priceComponent * 0.4 + complexityComponent * 0.2 + variantComponent * 0.2 + setBundleComponent * 0.2);
-          familyCommitmentScores.set(familyKey, commitmentScore);
-        });
-        
-        // Log commitment scores
-        const perFamilyCommitment: Record<string, number> = {};
-        familyCommitmentScores.forEach((score, key) => {
-          perFamilyCommitment[key] = parseFloat(score.toFixed(2));
-        });
-        console.log(`[CollectionIntent] per_family_commitment=${JSON.stringify(perFamilyCommitment)}`);
-        
-        // ============================================
-        // CANONICALIZE AND MERGE FAMILY GROUPS
-        // ============================================
-        // First, build raw family stats (before canonicalization)
-        // Note: candidatesWithFamilies already has canonicalKey in familyKey, but we need to use rawFamilyKey for proper merging
-        const rawFamilyStats = new Map<string, { count: number; topBM25: number; commitmentScore: number; rawKey: string }>();
-        candidatesWithFamilies.forEach(c => {
-          // Use rawFamilyKey (original) for building raw stats, then canonicalize for merging
-          const rawKey = c.rawFamilyKey || c.familyKey; // Fallback to familyKey if rawFamilyKey missing
-          const existing = rawFamilyStats.get(rawKey);
-          // Get commitment score using the canonical key (familyKey)
-          const commitmentScore = familyCommitmentScores.get(c.familyKey) || 0.5;
-          if (!existing || c.score > existing.topBM25) {
-            rawFamilyStats.set(rawKey, {
-              count: (existing?.count || 0) + 1,
-              topBM25: c.score,
-              commitmentScore,
-              rawKey
-            });
-          } else {
-            rawFamilyStats.set(rawKey, {
-              ...existing,
-              count: existing.count + 1,
-              commitmentScore,
-              rawKey
-            });
-          }
-        });
-        
-        // Log sample normalization for debugging
-        const normalizationSample: Array<{ raw: string; canonical: string }> = [];
-        Array.from(rawFamilyStats.keys()).slice(0, 10).forEach(rawKey => {
-          const canonical = canonicalizeGroupKey(rawKey);
-          normalizationSample.push({ raw: rawKey, canonical });
-        });
-        console.log(`[CollectionIntent] group_key_normalization sample=${JSON.stringify(normalizationSample)}`);
-        
-        // Merge groups by canonicalKey
-        const canonicalFamilyStats = new Map<string, { 
-          count: number; 
-          topBM25: number; 
-          commitmentScore: number; 
-          mergedFrom: string[];
-        }>();
-        
-        rawFamilyStats.forEach((stats, rawKey) => {
-          const canonicalKey = canonicalizeGroupKey(rawKey);
-          const existing = canonicalFamilyStats.get(canonicalKey);
-          
-          if (!existing) {
-            canonicalFamilyStats.set(canonicalKey, {
-              count: stats.count,
-              topBM25: stats.topBM25,
-              commitmentScore: stats.commitmentScore,
-              mergedFrom: [rawKey]
-            });
-          } else {
-            // Merge: sum counts, max BM25, max commitment
-            canonicalFamilyStats.set(canonicalKey, {
-              count: existing.count + stats.count,
-              topBM25: Math.max(existing.topBM25, stats.topBM25),
-              commitmentScore: Math.max(existing.commitmentScore, stats.commitmentScore),
-              mergedFrom: [...existing.mergedFrom, rawKey]
-            });
-          }
-        });
-        
-        // Log merged groups (show examples of merges)
-        const mergedExamples: Array<{ canonical: string; mergedFrom: string[] }> = [];
-        canonicalFamilyStats.forEach((stats, canonicalKey) => {
-          if (stats.mergedFrom.length > 1) {
-            mergedExamples.push({ canonical: canonicalKey, mergedFrom: stats.mergedFrom });
-          }
-        });
-        const removedCount = rawFamilyStats.size - canonicalFamilyStats.size;
-        console.log(`[CollectionIntent] merged_groups removed=${removedCount} examples=${JSON.stringify(mergedExamples.slice(0, 5))}`);
-        
-        // Score each family: maxBM25 (or avgBM25 + count) - using maxBM25 for simplicity
-        const familyGroups = Array.from(canonicalFamilyStats.entries())
-          .map(([canonicalKey, stats]) => ({ 
-            key: canonicalKey, // Use canonical key
-            rawKey: stats.mergedFrom[0], // Keep first raw key for reference
-            ...stats 
-          }))
-          .sort((a, b) => {
-            // First by top BM25 score (descending)
-            if (Math.abs(b.topBM25 - a.topBM25) > 0.01) {
-              return b.topBM25 - a.topBM25;
-            }
-            // Then by count (descending)
-            return b.count - a.count;
-          });
-        
-        console.log(`[CollectionIntent] family_groups=${JSON.stringify(familyGroups.slice(0, 10).map(f => ({ key: f.key, count: f.count, topBM25: f.topBM25.toFixed(2), commitment: f.commitmentScore.toFixed(2), mergedFrom: f.mergedFrom.length > 1 ? f.mergedFrom : undefined })))}`);
-        
-        // ============================================
-        // FILTER FAMILIES BASED ON INTENT STRENGTH
-        // ============================================
-        // Always include the top 1 family by BM25 relevance
-        const topFamily = familyGroups.length > 0 ? familyGroups[0] : null;
-        const topFamilyBM25 = topFamily ? topFamily.topBM25 : 0;
-        
-        // Filter families based on intent strength and commitment
-        let filteredFamilies: Array<{ key: string; count: number; topBM25: number; commitmentScore: number }> = [];
-        const excludedFamilies: Array<{ key: string; reason: string }> = [];
-        
-        if (topFamily) {
-          filteredFamilies.push(topFamily); // Always include top family
-        }
-        
-        // For remaining families, apply filtering when intent strength is low
-        for (let i = 1; i < familyGroups.length && filteredFamilies.length < 4; i++) {
-          const family = familyGroups[i];
-          
-          // Skip if similar to already chosen
-          const isSimilar = filteredFamilies.some(chosen => 
-            chosen.key.includes(family.key) || family.key.includes(chosen.key)
-          );
-          if (isSimilar) continue;
-          
-          // Skip "unknown" unless we have <2 families or it's close to top BM25
-          if (family.key === "unknown") {
-            if (filteredFamilies.length >= 2 && family.topBM25 < topFamilyBM25 * 0.85) {
-              excludedFamilies.push({ key: family.key, reason: "unknown_low_relevance" });
-              continue;
-            }
-          }
-          
-          // Apply commitment filtering when intent strength is low
-          if (intentStrength < 0.35) {
-            const commitmentScore = family.commitmentScore;
-            const bm25Ratio = topFamilyBM25 > 0 ? family.topBM25 / topFamilyBM25 : 0;
-            
-            // Exclude high-commitment families unless BM25 is close to top
-            if (commitmentScore > 0.65 && bm25Ratio < 0.85) {
-              excludedFamilies.push({ 
-                key: family.key, 
-                reason: `high_commitment_low_intent commitment=${commitmentScore.toFixed(2)} bm25Ratio=${bm25Ratio.toFixed(2)}` 
-              });
-              continue;
-            }
-          }
-          
-          filteredFamilies.push(family);
-        }
-        
-        // If we still have <2 families, include "unknown" as last resort
-        if (filteredFamilies.length < 2) {
-          const unknownFamily = familyGroups.find(f => f.key === "unknown");
-          if (unknownFamily && !filteredFamilies.some(f => f.key === "unknown")) {
-            filteredFamilies.push(unknownFamily);
-          }
-          
-          // Also add any remaining families if still <2
-          if (filteredFamilies.length < 2) {
-            const remaining = familyGroups
-              .filter(f => !filteredFamilies.some(chosen => chosen.key === f.key))
-              .slice(0, 2 - filteredFamilies.length);
-            filteredFamilies.push(...remaining);
-          }
-        }
-        
-        console.log(`[CollectionIntent] filtered_families=${JSON.stringify(filteredFamilies.map(f => ({ key: f.key, count: f.count, topBM25: f.topBM25.toFixed(2), commitment: f.commitmentScore.toFixed(2) })))} excluded=${JSON.stringify(excludedFamilies)}`);
-        
-        // Use filtered families as chosen families
-        let chosenFamilies: Array<{ key: string; count: number; topBM25: number }> = filteredFamilies.map(f => ({
-          key: f.key,
-          count: f.count,
-          topBM25: f.topBM25
-        }));
-        
-        const candidatePool = familyGroups;
-        const totalCount = candidatesWithFamilies.length;
-        
-        // ============================================
-        // DOMINANT FAMILY DETECTION (fixed calculation)
-        // ============================================
-        const dominantFamilyKey = chosenFamilies.length > 0 ? chosenFamilies[0].key : null;
-        let dominantCount = 0;
-        
-        if (dominantFamilyKey) {
-          dominantCount = candidatesWithFamilies.filter(c => c.familyKey === dominantFamilyKey).length;
-        }
-        
-        const share = totalCount > 0 ? Math.min(1.0, Math.max(0.0, dominantCount / totalCount)) : 0;
-        const dominantDetected = totalCount >= 12 && share >= 0.70;
-        
-        if (dominantDetected && dominantFamilyKey) {
-          console.log(`[CollectionIntent] dominant_family_detected=true token=${dominantFamilyKey} share=${share.toFixed(2)} dominantCount=${dominantCount} total=${totalCount}`);
-          
-          // Force inclusion of at least 2 families (expand if needed)
-          const remainingFamilies = candidatePool.filter(f => 
-            !chosenFamilies.some(chosen => chosen.key === f.key) &&
-            !chosenFamilies.some(chosen => chosen.key.includes(f.key) || f.key.includes(chosen.key))
-          );
-          
-          // Force-pick families that don't match the dominant family
-          const distinctFamilies = remainingFamilies.filter(f => f.key !== dominantFamilyKey);
-          
-          // Expand to at least 2 families, up to 4
-          const toAdd = Math.min(4 - chosenFamilies.length, distinctFamilies.length);
-          chosenFamilies.push(...distinctFamilies.slice(0, toAdd));
-          
-          // If still not enough, add any remaining distinct families
-          if (chosenFamilies.length < 2) {
-            const moreDistinct = remainingFamilies.slice(0, 2 - chosenFamilies.length);
-            chosenFamilies.push(...moreDistinct);
-          }
-        } else if (dominantFamilyKey) {
-          console.log(`[CollectionIntent] dominant_family_detected=false token=${dominantFamilyKey} share=${share.toFixed(2)} dominantCount=${dominantCount} total=${totalCount}`);
-        }
-        
-        // Check if catalog is limited (only one family available)
-        if (familyGroups.length <= 1) {
-          console.log(`[CollectionIntent] limited_catalog=true reason=only_one_family_available`);
-        }
-        
-        const chosenFamilyKeys = chosenFamilies.map(f => f.key);
-        console.log(`[CollectionIntent] chosenFamilies=${JSON.stringify(chosenFamilies.map(f => ({ key: f.key, count: f.count, topBM25: f.topBM25.toFixed(2) })))}`);
-        
-        // ============================================
-        // ROUND-ROBIN BALANCED WINDOW (30 candidates)
-        // ============================================
-        // Partition into buckets per chosen familyKey (preserve BM25 order inside each bucket)
-        const familyBuckets = new Map<string, typeof candidatesWithFamilies>();
-        chosenFamilyKeys.forEach(familyKey => {
-          const bucket = candidatesWithFamilies
-            .filter(c => c.familyKey === familyKey)
-            .slice(0, Math.ceil(aiWindow / chosenFamilyKeys.length) + 5); // Take extra for round-robin
-          familyBuckets.set(familyKey, bucket);
-        });
-        
-        // Fill windowSize=30 via round-robin cycling buckets
-        const balanced30: typeof candidatesWithFamilies = [];
-        const windowSize30 = Math.min(30, aiWindow * 1.5); // Use 30 or 1.5x aiWindow, whichever is smaller
-        let roundRobinIndex = 0;
-        
-        while (balanced30.length < windowSize30) {
-          let addedThisRound = false;
-          
-          chosenFamilyKeys.forEach(familyKey => {
-            if (balanced30.length >= windowSize30) return;
-            
-            const bucket = familyBuckets.get(familyKey) || [];
-            if (bucket.length > roundRobinIndex) {
-              balanced30.push(bucket[roundRobinIndex]);
-              addedThisRound = true;
-            }
-          });
-          
-          if (!addedThisRound) break; // All buckets exhausted
-          roundRobinIndex++;
-        }
-        
-        // Fill remaining slots with highest-scored candidates from any family
-        if (balanced30.length < windowSize30) {
-          const remaining = candidatesWithFamilies
-            .filter(c => !balanced30.some(b => b.candidate.handle === c.candidate.handle))
-            .slice(0, windowSize30 - balanced30.length);
-          balanced30.push(...remaining);
-        }
-        
-        // Log per-family counts for balanced 30
-        const perFamilyCounts30: Record<string, number> = {};
-        balanced30.forEach(c => {
-          perFamilyCounts30[c.familyKey] = (perFamilyCounts30[c.familyKey] || 0) + 1;
-        });
-        console.log(`[CollectionIntent] ai_window_balanced windowSize=30 perFamilyCounts=${JSON.stringify(perFamilyCounts30)}`);
-        
-        // ============================================
-        // SAFETY GUARD: Force at least 2 families in final 20
-        // ============================================
-        // Check if query contains outfit-like phrases
-        const lowerIntent = userIntent.toLowerCase();
-        const hasOutfitPhrase = lowerIntent.includes("outfit") || lowerIntent.includes("ensemble") || lowerIntent.includes("set");
-        
-        let final20: typeof candidatesWithFamilies = [];
-        
-        if (hasOutfitPhrase && dominantDetected && chosenFamilyKeys.length >= 2) {
-          // Force inclusion of at least 2 families, each contributing at least 2 items if possible
-          const minFamilies = Math.min(4, chosenFamilyKeys.length);
-          const familiesToUse = chosenFamilyKeys.slice(0, minFamilies);
-          const itemsPerFamily = Math.floor(20 / familiesToUse.length);
-          const extraItems = 20 % familiesToUse.length;
-          
-          familiesToUse.forEach((familyKey, idx) => {
-            const targetCount = itemsPerFamily + (idx < extraItems ? 1 : 0);
-            const familyItems = balanced30
-              .filter(c => c.familyKey === familyKey)
-              .slice(0, targetCount);
-            final20.push(...familyItems);
-          });
-          
-          // Fill remaining slots from balanced30 if needed
-          if (final20.length < 20) {
-            const remaining = balanced30
-              .filter(c => !final20.some(f => f.candidate.handle === c.candidate.handle))
-              .slice(0, 20 - final20.length);
-            final20.push(...remaining);
-          }
-          
-          // Log per-family counts for final 20
-          const perFamilyCounts20: Record<string, number> = {};
-          final20.forEach(c => {
-            perFamilyCounts20[c.familyKey] = (perFamilyCounts20[c.familyKey] || 0) + 1;
-          });
-          console.log(`[CollectionIntent] ai_candidates20_perFamily=${JSON.stringify(perFamilyCounts20)}`);
-        } else {
-          // Standard: take first 20 from balanced 30
-          final20 = balanced30.slice(0, 20);
-          
-          // Log per-family counts for final 20
-          const perFamilyCounts20: Record<string, number> = {};
-          final20.forEach(c => {
-            perFamilyCounts20[c.familyKey] = (perFamilyCounts20[c.familyKey] || 0) + 1;
-          });
-          console.log(`[CollectionIntent] ai_candidates20_perFamily=${JSON.stringify(perFamilyCounts20)}`);
-        }
-        
-        topCandidates = final20.slice(0, aiWindow).map(r => r.candidate);
-      } else {
-        // Standard behavior: take top aiWindow candidates
-        topCandidates = rankedCandidates.slice(0, aiWindow).map(r => r.candidate);
+        // Candidates existed before facet gating but were removed - this is due to low coverage facets
+        // Continue with partial results (will use fallback logic later)
+        console.log(`[Gating] candidates_removed_by_facets before=${beforeFacetGating} after=${gatedCandidates.length} - continuing with fallback logic`);
+      }
+      
+      // BUNDLE/HARD-TERM PATH: Continue processing (only if we have candidates)
+      // Reduce AI window when no hardTerms (max 30 candidates for speed)
+      if (hardTerms.length === 0 && aiWindow > noHardTermsWindow) {
+        aiWindow = noHardTermsWindow;
+        console.log("[App Proxy] AI window reduced to", noHardTermsWindow, "(no hardTerms)");
       }
       
+      // Pre-rank gated candidates with BM25 + boosts
+      const bm25StartSingle = performance.now();
+      console.log("[App Proxy] [Layer 2] Pre-ranking candidates with BM25");
+      
+      // TypeAnchor boost applies only when the anchor was kept as a boost rather than a filter (typeAnchorInBoostMode)
+      const anchor = typeAnchorInBoostMode ? primaryTypeAnchor : null;
+      const rankedCandidates = preRankCandidates(gatedCandidates, {
+        queryTokens: allQueryTokens,
+        index: { idf, avgDocLen },
+        hardTerms,
+        boostTerms,
+        hardFacets,
+        avoidTerms,
+        matchesTypeAnchor: anchor
+          ? (c) => productMatchesTypeAnchor(c, anchor) ||
+              (typeAnchorVariants.length > 1 && typeAnchorVariants.some(variant => productMatchesTypeAnchor(c, variant)))
+          : null,
+      });
+      
+      // Hybrid retrieval: fuse the BM25 order with vector similarity when an embedding provider is configured
+      const embeddingProvider = getEmbeddingProvider();
+      const hybridRanked = embeddingProvider
+        ? (await runPipelineStage(createHybridRetrievalStage({
+            embedQuery: async (text) => (await embeddingProvider.embed([text]))[0],
+            loadVectors: (candidates) => loadCandidateEmbeddings(shopDomain, candidates, embeddingProvider),
+          }), {
+            ranked: rankedCandidates,
+            queryText: [userIntent, ...hardTerms, ...softTerms].join(" "),
+            aiWindow,
+          }, pipelineCtx)).ranked
+        : rankedCandidates;
+      
+      // ============================================
+      // GROUP-BALANCED WINDOW SELECTION (for collection intent)
+      // ============================================
+      let preferencesCount = 0;
+      if (llmIntentUsed && llmIntentResult?.intent?.preferences) {
+        preferencesCount = Array.isArray(llmIntentResult.intent.preferences) ? llmIntentResult.intent.preferences.length : 0;
+      }
+      const balancedWindow = await runPipelineStage(groupBalancedWindowStage, {
+        ranked: hybridRanked,
+        aiWindow,
+        collectionIntent,
+        isBundle: bundleIntent.isBundle,
+        userIntent,
+        hardTermCount: hardTerms.length,
+        softTermCount: softTerms.length,
+        preferencesCount,
+      }, pipelineCtx);
+      // The window holds the same candidate objects that went in, so they are still enriched
+      const topCandidates = balancedWindow.candidates as EnrichedCandidate[];
+      
       console.log("[App Proxy] [Layer 2] Pre-ranked top", topCandidates.length, "candidates for AI");
       const bm25EndSingle = performance.now();
       const bm25MsSingle = Math.round(bm25EndSingle - bm25StartSingle);
@@ -10494,8 +8156,12 @@ async function processSessionInBackground({
               );
               
               if (itemTypeMatches || itemTermsMatch) {
-                if (perItemBudget.min !== null && itemPriceMin === null) itemPriceMin = perItemBudget.min;
-                if (perItemBudget.max !== null && itemPriceMax === null) itemPriceMax = perItemBudget.max;
+                if (perItemBudget.min !== null && itemPriceMin === null) {
+                  itemPriceMin = convertBudgetToShopCurrency(perItemBudget.min, perItemBudget.currency, budgetCurrencyContext, "item_priceMin");
+                }
+                if (perItemBudget.max !== null && itemPriceMax === null) {
+                  itemPriceMax = convertBudgetToShopCurrency(perItemBudget.max, perItemBudget.currency, budgetCurrencyContext, "item_priceMax");
+                }
                 console.log(`[Bundle] itemIndex=${itemIdx} itemType=${itemTypeForBudget} budget_min=${itemPriceMin ?? "null"} budget_max=${itemPriceMax ?? "null"} reason=matched_per_item_budget source="${perItemBudget.source.substring(0, 50)}"`);
                 break; // Use first match
               }
@@ -10509,8 +8175,12 @@ async function processSessionInBackground({
               // Check if budget source mentions this item type
               if (budgetSourceLower.includes(itemTypeLower) || 
                   itemTermsLower.some(term => budgetSourceLower.includes(term))) {
-                if (budget.min !== null && itemPriceMin === null) itemPriceMin = budget.min;
-                if (budget.max !== null && itemPriceMax === null) itemPriceMax = budget.max;
+                if (budget.min !== null && itemPriceMin === null) {
+                  itemPriceMin = convertBudgetToShopCurrency(budget.min, budget.currency, budgetCurrencyContext, "item_priceMin");
+                }
+                if (budget.max !== null && itemPriceMax === null) {
+                  itemPriceMax = convertBudgetToShopCurrency(budget.max, budget.currency, budgetCurrencyContext, "item_priceMax");
+                }
                 console.log(`[Bundle] itemIndex=${itemIdx} itemType=${itemTypeForBudget} budget_min=${itemPriceMin ?? "null"} budget_max=${itemPriceMax ?? "null"} reason=matched_detected_budget`);
                 break;
               }
@@ -11042,7 +8712,12 @@ async function processSessionInBackground({
           // Second pass: apply budget filter (item-specific price ceiling or allocated budget)
           
           // Prefer item-specific price ceiling over allocated budget
-          const itemPriceCeiling = itemConstraints?.priceCeiling;
+          const itemPriceCeiling = convertBudgetToShopCurrency(
+            itemConstraints?.priceCeiling ?? null,
+            itemConstraints?.userCurrency ?? null,
+            budgetCurrencyContext,
+            "item_priceCeiling"
+          );
           const budgetMax = itemPriceCeiling !== undefined && itemPriceCeiling !== null 
             ? itemPriceCeiling 
             : (bundleItem.budgetMax !== undefined && bundleItem.budgetMax !== null ? bundleItem.budgetMax : null);
@@ -11127,6 +8802,13 @@ async function processSessionInBackground({
       console.log("[App Proxy] [Layer 3] Sending", sortedCandidates.length, "pre-ranked candidates to AI");
       }
 
+      // The deterministic pre-ranking is streamed as a preview while the AI ranks (bundle pools are not grouped yet)
+      await reportSessionProgress(sessionToken, {
+        stage: "ranking",
+        productCount: sortedCandidates.length,
+        partialHandles: isBundleMode ? [] : sortedCandidates.slice(0, finalResultCount).map(c => c.handle),
+      });
+
       // AI pass #1 + Top-up passes (deterministic)
       const targetCount = Math.min(finalResultCount, sortedCandidates.length);
 
@@ -11202,7 +8884,7 @@ async function processSessionInBackground({
         if (bundleCandidatesForAI.length > 0 && accessToken) {
           console.log("[App Proxy] [Layer 1] Fetching descriptions for", bundleCandidatesForAI.length, "bundle AI candidates");
           const aiHandles = bundleCandidatesForAI.map(c => c.handle);
-          const descriptionMap = await fetchShopifyProductDescriptionsByHandles({
+          const descriptionMap = await fetchCatalogProductDescriptionsByHandles({
             shopDomain,
             accessToken,
             handles: aiHandles,
@@ -11235,11 +8917,11 @@ async function processSessionInBackground({
           console.log("[App Proxy] [Layer 1] Enriched", bundleCandidatesForAI.length, "bundle candidates with descriptions");
         }
         
-        // Convert hardFacets to array format for AI prompt
-        const hardFacetsForAI: { size?: string[]; color?: string[]; material?: string[] } = {};
-        if (hardFacets.size) hardFacetsForAI.size = [hardFacets.size];
-        if (hardFacets.color) hardFacetsForAI.color = [hardFacets.color];
-        if (hardFacets.material) hardFacetsForAI.material = [hardFacets.material];
+        // Convert hardFacets + generic intent facets to array format for AI prompt (degraded facets are soft terms now)
+        const hardFacetsForAI: FacetValues = Object.fromEntries(
+          Object.entries(mergeFacetValues([hardFacetsToFacetValues(hardFacets), intentFacets], facetMapping))
+            .filter(([facet]) => !degradedFacetsMap.has(facet))
+        );
         
         // Track whether AI returned valid parsed structured output
         // Variables already declared above for top-up access
@@ -11280,6 +8962,10 @@ async function processSessionInBackground({
           );
           // Measure aiMs immediately after AI call completes
           aiMs += Math.round(performance.now() - aiStartBundle);
+          recommendationTrace.aiWindow = bundleCandidatesForAI.map(c => c.handle);
+          recommendationTrace.source = aiBundle.source;
+          recommendationTrace.parseFailReason = aiBundle.parseFailReason || null;
+          recommendationTrace.trustFallback = aiBundle.trustFallback;
           
           // Check if AI succeeded: valid parsed structured output with handles
           if (aiBundle.selectedHandles?.length) {
@@ -11550,6 +9236,9 @@ async function processSessionInBackground({
           aiMs += Math.round(performance.now() - aiStartBundle);
           bundleAiSucceeded = false;
           parseFailReason = error instanceof Error ? error.message : String(error);
+          recommendationTrace.aiWindow = bundleCandidatesForAI.map(c => c.handle);
+          recommendationTrace.source = "fallback";
+          recommendationTrace.parseFailReason = parseFailReason;
           // Fallback to deterministic selection with budget-aware helper
           const itemPools = new Map<number, EnrichedCandidate[]>();
           for (const c of sortedCandidates) {
@@ -11640,7 +9329,7 @@ async function processSessionInBackground({
       if (window1.length > 0 && accessToken) {
         console.log("[App Proxy] [Layer 1] Fetching descriptions for", window1.length, "AI candidates");
         const aiHandles = window1.map(c => c.handle);
-        const descriptionMap = await fetchShopifyProductDescriptionsByHandles({
+        const descriptionMap = await fetchCatalogProductDescriptionsByHandles({
           shopDomain,
           accessToken,
           handles: aiHandles,
@@ -11673,11 +9362,11 @@ async function processSessionInBackground({
         console.log("[App Proxy] [Layer 1] Enriched", window1.length, "candidates with descriptions");
       }
       
-      // Convert hardFacets to array format for AI prompt
-      const hardFacetsForAI: { size?: string[]; color?: string[]; material?: string[] } = {};
-      if (hardFacets.size) hardFacetsForAI.size = [hardFacets.size];
-      if (hardFacets.color) hardFacetsForAI.color = [hardFacets.color];
-      if (hardFacets.material) hardFacetsForAI.material = [hardFacets.material];
+      // Convert hardFacets + generic intent facets to array format for AI prompt (degraded facets are soft terms now)
+      const hardFacetsForAI: FacetValues = Object.fromEntries(
+        Object.entries(mergeFacetValues([hardFacetsToFacetValues(hardFacets), intentFacets], facetMapping))
+          .filter(([facet]) => !degradedFacetsMap.has(facet))
+      );
       
       // Measure aiMs ONLY around the actual AI call
       const aiStartSingle = performance.now();
@@ -11710,15 +9399,22 @@ async function processSessionInBackground({
             experienceIdUsed,
             strictGateCount,
             strictGateCandidates,
-            conversationMessages // Pass conversation context
+            conversationMessages, // Pass conversation context
+            experience.tone
           );
         // Measure aiMs immediately after AI call completes
         aiMs += Math.round(performance.now() - aiStartSingle);
+        aiProductReasons = ai1.productReasons || null;
+        recommendationTrace.aiWindow = window1.map(c => c.handle);
+        recommendationTrace.source = ai1.source;
+        recommendationTrace.cacheHit = ai1.cacheHit === true;
+        recommendationTrace.parseFailReason = ai1.parseFailReason || null;
+        recommendationTrace.trustFallback = ai1.trustFallback;
 
       if (ai1.selectedHandles?.length) {
         // Log source metadata
         if (ai1.source === "ai") {
-          console.log("[AI Ranking] source=ai trustFallback=", ai1.trustFallback);
+          console.log("[AI Ranking] source=ai trustFallback=", ai1.trustFallback, "cacheHit=", ai1.cacheHit === true);
         } else {
           console.log("[AI Ranking] source=fallback parse_fail_reason=", ai1.parseFailReason || "unknown");
         }
@@ -11755,7 +9451,7 @@ async function processSessionInBackground({
           });
           
           if (handlesNeedingDescriptions.length > 0 && accessToken) {
-            const descriptionMap = await fetchShopifyProductDescriptionsByHandles({
+            const descriptionMap = await fetchCatalogProductDescriptionsByHandles({
               shopDomain,
               accessToken,
               handles: handlesNeedingDescriptions,
@@ -11937,7 +9633,7 @@ async function processSessionInBackground({
                         if (newProducts.length > 0) {
                           // Fetch descriptions for new products
                           const newHandles = newProducts.map((p: any) => p.handle);
-                          const descriptionMap = await fetchShopifyProductDescriptionsByHandles({
+                          const descriptionMap = await fetchCatalogProductDescriptionsByHandles({
                             shopDomain,
                             accessToken,
                             handles: newHandles,
@@ -12053,7 +9749,7 @@ async function processSessionInBackground({
             
             if (remainingNeedingDescriptions.length > 0 && accessToken) {
               const remainingHandles = remainingNeedingDescriptions.map(c => c.handle);
-              const remainingDescriptionMap = await fetchShopifyProductDescriptionsByHandles({
+              const remainingDescriptionMap = await fetchCatalogProductDescriptionsByHandles({
                 shopDomain,
                 accessToken,
                 handles: remainingHandles,
@@ -12344,6 +10040,9 @@ async function processSessionInBackground({
         console.error("[App Proxy] AI ranking error:", error);
         // Measure aiMs for failed AI call
         aiMs += Math.round(performance.now() - aiStartSingle);
+        recommendationTrace.aiWindow = window1.map(c => c.handle);
+        recommendationTrace.source = "fallback";
+        recommendationTrace.parseFailReason = error instanceof Error ? error.message : String(error);
         // Fallback to deterministic ranking
         if (hardTerms.length === 0 && gatedCandidates.length > 0) {
           console.log("[App Proxy] No-hard-terms: AI failed, using deterministic ranking from gated pool");
@@ -12517,7 +10216,8 @@ async function processSessionInBackground({
         hardTerms: string[],
         hardFacets: { size: string | null; color: string | null; material: string | null },
         trustFallback: boolean,
-        degradedFacets?: Array<{ facet: string; value: string; coverage: number }>
+        degradedFacets?: Array<{ facet: string; value: string; coverage: number }>,
+        facets: FacetValues = {}
       ): Promise<string[]> {
         if (trustFallback) {
           // Trust fallback: allow all handles
@@ -12527,8 +10227,9 @@ async function processSessionInBackground({
         const validHandles: string[] = [];
         
         // Convert hardFacets to generic constraints using new facet system
-        const { convertHardFacetsToConstraints, productSatisfiesConstraints } = await import("~/utils/facets.server");
-        let facetConstraints = convertHardFacetsToConstraints(hardFacets);
+        const { convertHardFacetsToConstraints, convertFacetValuesToConstraints, mergeConstraints: mergeFacetConstraints, productSatisfiesConstraints } = await import("~/utils/facets.server");
+        // Generic facets carry the alternatives; they override the single legacy value for the same facet
+        let facetConstraints = mergeFacetConstraints(convertHardFacetsToConstraints(hardFacets), convertFacetValuesToConstraints(facets));
         
         // Issue 1 fix: Exclude degraded facets from validation (they were moved to softTerms)
         if (degradedFacets && degradedFacets.length > 0) {
@@ -13269,7 +10970,7 @@ async function processSessionInBackground({
         }
       } else {
         // Single-item validation (non-bundle or trustFallback)
-        validatedHandles = await validateFinalHandles(finalHandles, gatedCandidates, hardTerms, hardFacets, trustFallback, degradedFacetsForValidation);
+        validatedHandles = await validateFinalHandles(finalHandles, gatedCandidates, hardTerms, hardFacets, trustFallback, degradedFacetsForValidation, intentFacets);
         
         // Safety test log: confirm validation fix
         console.log(`[Validation] final_validated_count=${validatedHandles.length} from_ai_count=${finalHandles.length}`);
@@ -13901,6 +11602,22 @@ async function processSessionInBackground({
         optionValues: c.optionValues,
       }));
       
+      // Merchandising rules (pin / boost / bury / exclude) apply to the ranked result before diversity;
+      // pins and exclusions are re-applied after the refill / budget steps below
+      const merchandising = await runPipelineStage(merchandisingRulesStage, {
+        handles: (finalSource === "ai" && finalHandles.length > 0) ? finalHandles : finalHandlesGuaranteed,
+        candidates: allCandidatesEnriched,
+        rules: parseMerchandisingRules(experience.merchandisingRulesJson),
+        query: userIntent,
+        intentTerms: [...hardTerms, ...softTerms],
+        resultCount: targetCount,
+      }, pipelineCtx);
+      if (merchandising.applied.length > 0) {
+        recommendationTrace.merchandising = merchandising.applied;
+        if (finalSource === "ai" && finalHandles.length > 0) finalHandles = merchandising.handles;
+        else finalHandlesGuaranteed = merchandising.handles;
+      }
+
       // Only apply diversity if we have handles to diversify
       // CRITICAL: Use finalHandles (which contains AI result) for diversity, not finalHandlesGuaranteed
       // finalHandlesGuaranteed might be empty if validation filtered everything, but AI handles should be preserved
@@ -13941,251 +11658,25 @@ async function processSessionInBackground({
       // ============================================
       // If diversity reduced handles below requestedCount, refill back to requestedCount
       // by selecting additional valid handles from itemGatedPools while respecting per-item slotPlan and constraints
-      if (isBundleMode && diverseHandles.length < finalResultCount && bundleIntent.isBundle && bundleIntent.items.length >= 2) {
-        const beforeRefill = diverseHandles.length;
-        const usedHandlesSet = new Set(diverseHandles);
-        const refillNeeded = finalResultCount - diverseHandles.length;
-        
-        // Get slotPlan for bundle items
-        const slotPlan = allocateSlotsAcrossTypes(bundleIntent.items, finalResultCount);
-        
-        // Count current handles per item type using aiItemIndexMap (preferred) or inferring
-        const handlesPerItem = new Map<number, string[]>();
-        diverseHandles.forEach(handle => {
-          let itemIdx: number | null = null;
-          // Use aiItemIndexMap if available (preferred)
-          if (aiItemIndexMap && aiItemIndexMap.has(handle)) {
-            itemIdx = aiItemIndexMap.get(handle)!;
-          } else {
-            // Fallback: infer from candidate matching
-          const candidate = allCandidatesEnriched.find(c => c.handle === handle);
-          if (candidate) {
-              for (let idx = 0; idx < bundleIntent.items.length; idx++) {
-                const item = bundleIntent.items[idx];
-              const itemHardTerms = item.hardTerms || [];
-              const slotDescriptor = itemHardTerms.join(" ");
-              const slotScore = scoreProductForSlot(candidate, slotDescriptor);
-              
-              if (slotScore >= 0.1) {
-                  itemIdx = idx;
-                  break;
-                }
-              }
-            }
-          }
-          
-          if (itemIdx !== null) {
-                if (!handlesPerItem.has(itemIdx)) {
-                  handlesPerItem.set(itemIdx, []);
-                }
-                handlesPerItem.get(itemIdx)!.push(handle);
-          }
-        });
-        
-        // REQUIREMENT 3: Refill per-item from itemGatedPools (not global remaining_candidates)
-        const refillHandlesByItem = new Map<number, string[]>();
-        for (let itemIdx = 0; itemIdx < bundleIntent.items.length; itemIdx++) {
-          const currentCount = handlesPerItem.get(itemIdx)?.length || 0;
-          const targetSlots = slotPlan.get(itemIdx) || 0;
-          const neededForThisItem = Math.max(0, targetSlots - currentCount);
-          
-          if (neededForThisItem > 0) {
-            // Get item pool from itemGatedPools (built earlier in bundle flow)
-            const itemPoolData = itemGatedPools.find(pool => pool.itemIndex === itemIdx);
-            const itemPool = itemPoolData?.candidates || [];
-            
-            if (itemPool.length === 0) {
-              // Fallback: build itemPool from allCandidatesEnriched if itemGatedPools not available
-              const item = bundleIntent.items[itemIdx];
-              const itemHardTerms = item.hardTerms || [];
-              const fallbackPool: EnrichedCandidate[] = [];
-              for (const c of allCandidatesEnriched) {
-                const haystack = [
-                  c.title || "",
-                  c.productType || "",
-                  (c.tags || []).join(" "),
-                  c.vendor || "",
-                  c.searchText || "",
-                ].join(" ");
-                const hasItemMatch = itemHardTerms.some(term => matchesHardTermWithBoundary(haystack, term));
-                if (hasItemMatch) {
-                  fallbackPool.push(c);
-                }
-              }
-              itemPool.push(...fallbackPool);
-            }
-            
-            // Get item-specific constraints for gating
-            const item = bundleIntent.items[itemIdx];
-            const itemConstraints = item.constraints;
-            const itemOptionConstraints = itemConstraints?.optionConstraints;
-            const itemHardTerms = item.hardTerms || [];
-            
-            // Build merged per-item constraints (item-specific only in bundle mode)
-            const itemGenericConstraints: Array<{ key: string; value: string }> = [];
-            
-            // Add item-specific constraints
-            if (itemOptionConstraints?.size) {
-              itemGenericConstraints.push({ key: "size", value: itemOptionConstraints.size });
-            }
-            if (itemOptionConstraints?.color) {
-              itemGenericConstraints.push({ key: "color", value: itemOptionConstraints.color });
-            }
-            if (itemOptionConstraints?.material) {
-              itemGenericConstraints.push({ key: "material", value: itemOptionConstraints.material });
-            }
-            
-            // In bundle mode, do NOT merge global hardFacets to prevent over-constraint
-            if (!bundleIntent.isBundle) {
-              if (hardFacets.size && !itemOptionConstraints?.size) {
-                itemGenericConstraints.push({ key: "size", value: hardFacets.size });
-              }
-              if (hardFacets.color && !itemOptionConstraints?.color) {
-                itemGenericConstraints.push({ key: "color", value: hardFacets.color });
-              }
-              if (hardFacets.material && !itemOptionConstraints?.material) {
-                itemGenericConstraints.push({ key: "material", value: hardFacets.material });
-              }
-            }
-            
-            // Filter candidates from itemPool by constraints and availability
-            const itemCandidates: EnrichedCandidate[] = [];
-            for (const c of itemPool) {
-              if (usedHandlesSet.has(c.handle) || refillHandlesByItem.get(itemIdx)?.includes(c.handle)) continue;
-              
-              // Check constraints using satisfiesConstraintsStructuredOrTags (constraint-aware)
-              if (itemGenericConstraints.length > 0) {
-                const constraintResult = await satisfiesConstraintsStructuredOrTags(c, itemGenericConstraints, facetVocabulary);
-                if (!constraintResult.ok) {
-                  if (constraintResult.conflict) {
-                    console.log(`[TopUp] bundle_refill skip_conflict itemIndex=${itemIdx} facet=${constraintResult.conflict.facet} expected=${constraintResult.conflict.expected} actual=${constraintResult.conflict.actual} source=${constraintResult.conflict.source} handle=${c.handle}`);
-                  }
-                  continue; // Skip this candidate - doesn't satisfy constraints
-                }
-              }
-                
-                // Check availability
-              if (experience.inStockOnly && !c.available) continue;
-              
-              itemCandidates.push(c);
-            }
-            
-            // Sort candidates by slot score (descending), then price (ascending)
-            const sortedItemCandidates = itemCandidates
-              .sort((a, b) => {
-                const slotDescriptor = itemHardTerms.join(" ");
-                const scoreA = scoreProductForSlot(a, slotDescriptor);
-                const scoreB = scoreProductForSlot(b, slotDescriptor);
-                if (Math.abs(scoreA - scoreB) > 0.01) {
-                  return scoreB - scoreA;
-                }
-                const priceA = a.price ? parseFloat(String(a.price)) : Infinity;
-                const priceB = b.price ? parseFloat(String(b.price)) : Infinity;
-                return priceA - priceB;
-              })
-              .slice(0, neededForThisItem);
-            
-            const refillHandlesForItem = sortedItemCandidates.map(c => c.handle);
-            refillHandlesByItem.set(itemIdx, refillHandlesForItem);
-            
-            // Update aiItemIndexMap for refilled handles
-            for (const handle of refillHandlesForItem) {
-              if (aiItemIndexMap) {
-                aiItemIndexMap.set(handle, itemIdx);
-              }
-            }
-            
-            console.log(`[BundleRefill] itemIndex=${itemIdx} added=${refillHandlesForItem.length} reason=needed_${neededForThisItem}_slots`);
-          }
-        }
-        
-        // REQUIREMENT 4: Assemble final handles by interleaving per-item lists (preserve per-item balance)
-        // DO NOT just slice a flat list - that can remove the only shirts
-        const allRefillHandles: string[] = [];
-        for (const handles of refillHandlesByItem.values()) {
-          allRefillHandles.push(...handles);
-        }
-        
-        // Interleave diverseHandles and refillHandles to preserve per-item balance
-        // First, group diverseHandles by itemIdx
-        const diverseHandlesByItem = new Map<number, string[]>();
-        for (const handle of diverseHandles) {
-          let itemIdx: number | null = null;
-            if (aiItemIndexMap && 'has' in aiItemIndexMap) {
-              const map = aiItemIndexMap as Map<string, number>;
-              if (map.has(handle)) {
-                itemIdx = map.get(handle)!;
-              }
-        } else {
-            // Fallback: infer from candidate
-            const candidate = allCandidatesEnriched.find(c => c.handle === handle);
-            if (candidate) {
-              for (let idx = 0; idx < bundleIntent.items.length; idx++) {
-                const item = bundleIntent.items[idx];
-                const itemHardTerms = item.hardTerms || [];
-                const slotDescriptor = itemHardTerms.join(" ");
-                const slotScore = scoreProductForSlot(candidate, slotDescriptor);
-                if (slotScore >= 0.1) {
-                  itemIdx = idx;
-                  break;
-                }
-              }
-            }
-          }
-          
-          if (itemIdx !== null) {
-            if (!diverseHandlesByItem.has(itemIdx)) {
-              diverseHandlesByItem.set(itemIdx, []);
-            }
-            diverseHandlesByItem.get(itemIdx)!.push(handle);
-          }
-        }
-        
-        // Build final handles by interleaving per-item (round-robin style, respecting slotPlan)
-        const finalHandlesByItem = new Map<number, string[]>();
-        for (let itemIdx = 0; itemIdx < bundleIntent.items.length; itemIdx++) {
-          const diverse = diverseHandlesByItem.get(itemIdx) || [];
-          const refill = refillHandlesByItem.get(itemIdx) || [];
-          finalHandlesByItem.set(itemIdx, [...diverse, ...refill]);
-        }
-        
-        // Interleave handles per-item to preserve balance (ensure at least 1 per type if available)
-        const interleavedHandles: string[] = [];
-        const maxPerItem = Math.max(...Array.from(finalHandlesByItem.values()).map(h => h.length));
-        
-        for (let round = 0; round < maxPerItem && interleavedHandles.length < finalResultCount; round++) {
-          for (let itemIdx = 0; itemIdx < bundleIntent.items.length && interleavedHandles.length < finalResultCount; itemIdx++) {
-            const handles = finalHandlesByItem.get(itemIdx) || [];
-            if (round < handles.length) {
-              interleavedHandles.push(handles[round]);
-            }
-          }
-        }
-        
-        // If still under target, add remaining handles in order
-        if (interleavedHandles.length < finalResultCount) {
-          for (let itemIdx = 0; itemIdx < bundleIntent.items.length && interleavedHandles.length < finalResultCount; itemIdx++) {
-            const handles = finalHandlesByItem.get(itemIdx) || [];
-            for (const handle of handles) {
-              if (!interleavedHandles.includes(handle) && interleavedHandles.length < finalResultCount) {
-                interleavedHandles.push(handle);
-              }
-            }
-          }
-        }
-        
-        diverseHandles = interleavedHandles.slice(0, finalResultCount);
-        
-        // Log per-item counts after refill
-        const perItemCountsAfterRefill = Array.from(finalHandlesByItem.entries()).map(([idx, handles]) => {
-          return `item${idx}=${handles.length}`;
-        }).join(" ");
-        console.log(`[BundleRefill] per_item_after_refill ${perItemCountsAfterRefill}`);
-        
-        const aiCoreUsed = finalSource === "ai" && !trustFallback;
-        console.log(`[Bundle] post-diversity refill: before=${beforeRefill} after=${diverseHandles.length} added=${allRefillHandles.length} source=itemGatedPools aiCoreUsed=${aiCoreUsed}`);
-        if (aiCoreUsed) {
-          console.log(`[ResultSource] final=ai aiCoreUsed=true diversityRefill=true refillCount=${allRefillHandles.length}`);
+      const postDiversityRefill = await runPipelineStage(createPostDiversityRefillStage({
+        satisfiesConstraints: (candidate, constraints) => satisfiesConstraintsStructuredOrTags(candidate, constraints, facetVocabulary),
+        scoreForSlot: (candidate, slotDescriptor) => scoreProductForSlot(candidate, slotDescriptor),
+      }), {
+        handles: diverseHandles,
+        requestedCount: finalResultCount,
+        isBundle: isBundleMode && bundleIntent.isBundle,
+        items: bundleIntent.items,
+        slotPlan: allocateSlotsAcrossTypes(bundleIntent.items, finalResultCount),
+        itemIndexByHandle: aiItemIndexMap ?? null,
+        itemPools: itemGatedPools,
+        candidates: allCandidatesEnriched,
+        inStockOnly: experience.inStockOnly,
+        aiCoreUsed: finalSource === "ai" && !trustFallback,
+      }, pipelineCtx);
+      diverseHandles = postDiversityRefill.handles;
+      if (aiItemIndexMap) {
+        for (const [handle, itemIdx] of postDiversityRefill.itemIndexByHandle) {
+          aiItemIndexMap.set(handle, itemIdx);
         }
       }
       
@@ -14602,13 +12093,15 @@ async function processSessionInBackground({
       
       // BUDGET ENFORCEMENT: Apply budget per-item (single) or per-outfit (bundle), NOT per-list-sum
       let constraintExceeded = false;
-      const maxPriceCeiling = priceMax; // priceMax is the numeric ceiling extracted from user input
-      if (typeof maxPriceCeiling === "number" && maxPriceCeiling > 0 && handlesToSave.length > 0) {
+      const maxPriceCeiling = typeof priceMax === "number" && priceMax > 0 ? priceMax : null; // priceMax is the numeric ceiling extracted from user input
+      const minPriceFloor = typeof priceMin === "number" && priceMin > 0 ? priceMin : null; // "at least $200", "between £50 and £80"
+      let priceRelaxationNote: string | null = null; // Shopper-facing note when the price range had to be widened
+      if ((maxPriceCeiling !== null || minPriceFloor !== null) && handlesToSave.length > 0) {
         const candidateMapForCheck = new Map(allCandidatesEnriched.map(c => [c.handle, c]));
         
         // BUNDLE BUDGET SEMANTICS: For bundles, budget applies to ONE complete outfit (1 per group), not all options
         // Check if this is a bundle with totalBudget
-        const isBundleWithBudget = isBundleMode && bundleIntent.isBundle && bundleIntent.items.length >= 2 && bundleIntent.totalBudget !== null;
+        const isBundleWithBudget = maxPriceCeiling !== null && isBundleMode && bundleIntent.isBundle && bundleIntent.items.length >= 2 && bundleIntent.totalBudget !== null;
         
         // Prepare handles with prices for analysis
         const handlesWithPrices = handlesToSave.map(handle => {
@@ -14751,10 +12244,11 @@ async function processSessionInBackground({
           }
         } else {
           // SINGLE-ITEM FLOW: Budget applies per item, NOT per list sum
-          // Filter items individually: remove items where price > maxPriceCeiling
+          // Filter items individually: remove items outside [minPriceFloor, maxPriceCeiling] (unknown price 0 is kept)
           const beforeCount = handlesToSave.length;
+          const strictBounds = { min: minPriceFloor, max: maxPriceCeiling };
           const filteredHandles = handlesWithPrices
-            .filter(({ price }) => price <= maxPriceCeiling)
+            .filter(({ price }) => price <= 0 || priceWithinBounds(price, strictBounds))
             .map(({ handle }) => handle)
             .slice(0, finalResultCount); // Cap at requested count (8, 12, or 16)
           
@@ -14771,6 +12265,7 @@ async function processSessionInBackground({
           
           console.log("[Constraints] budget_scope=per_item", {
             ceiling: maxPriceCeiling,
+            floor: minPriceFloor,
             removedOverCeiling,
             kept: filteredHandles.length,
             beforeCount,
@@ -14781,131 +12276,34 @@ async function processSessionInBackground({
           // BUDGET REFILL (after budget constraints)
           // ============================================
           // If deliveredCount < requestedCount after budget filtering, refill from remaining candidates
-          if (filteredHandles.length < finalResultCount && filteredHandles.length < beforeCount) {
-            const handlesToRefill = finalResultCount - filteredHandles.length;
-            const usedHandlesSet = new Set(filteredHandles);
-            
-            // Get remaining candidates that satisfy constraints (price, availability, non-duplicate)
-            const remainingCandidates = allCandidatesEnriched
-              .filter(c => {
-                if (usedHandlesSet.has(c.handle)) return false; // Skip already used
-                if (!c.available && experience.inStockOnly) return false; // Skip unavailable if inStockOnly
-                const price = c.price ? parseFloat(String(c.price)) : 0;
-                if (Number.isFinite(price) && price > maxPriceCeiling) return false; // Skip over budget
-                return true;
-              });
-            
-            // If collectionIntent=true, preserve family coverage when refilling
-            if (collectionIntent && !bundleIntent.isBundle) {
-              // Get current family coverage
-              const currentFamilies = new Set<string>();
-              filteredHandles.forEach(handle => {
-                const candidate = candidateMapForCheck.get(handle);
-                if (candidate) {
-                  const familyInfo = deriveFamilyKey(candidate);
-                  currentFamilies.add(familyInfo.key);
-                }
-              });
-              
-              // Get the chosen families from earlier (same logic as window selection)
-              const candidatesWithFamilies = remainingCandidates.map(c => {
-                const familyInfo = deriveFamilyKey(c);
-                return {
-                  candidate: c,
-                  familyKey: familyInfo.key
-                };
-              });
-              
-              const familyFreq = new Map<string, number>();
-              candidatesWithFamilies.forEach(c => {
-                familyFreq.set(c.familyKey, (familyFreq.get(c.familyKey) || 0) + 1);
-              });
-              
-              const rankedFamilies = Array.from(familyFreq.entries())
-                .map(([key, count]) => ({ key, count }))
-                .sort((a, b) => b.count - a.count);
-              
-              // Pick distinct families (up to 4)
-              const chosenFamilies: string[] = [];
-              for (const family of rankedFamilies) {
-                if (chosenFamilies.length >= 4) break;
-                const isSimilar = chosenFamilies.some(chosen => 
-                  chosen.includes(family.key) || family.key.includes(chosen)
-                );
-                if (!isSimilar) {
-                  chosenFamilies.push(family.key);
-                }
-              }
-              
-              if (chosenFamilies.length < 2) {
-                chosenFamilies.push(...rankedFamilies.slice(0, 2 - chosenFamilies.length).map(f => f.key));
-              }
-              
-              // Prioritize refilling missing families first, then fill remaining slots
-              const refillHandles: string[] = [];
-              const missingFamilies = chosenFamilies.filter((f: string) => !currentFamilies.has(f));
-              
-              // First, refill missing families (one per missing family)
-              for (const missingFamily of missingFamilies) {
-                if (refillHandles.length >= handlesToRefill) break;
-                
-                const familyCandidates = remainingCandidates
-                  .filter(c => {
-                    const familyInfo = deriveFamilyKey(c);
-                    return familyInfo.key === missingFamily && !usedHandlesSet.has(c.handle);
-                  })
-                  .sort((a, b) => {
-                    // Sort by BM25-like score (use searchText match with hardTerms)
-                    const aScore = hardTerms.length > 0 ? (extractSearchText(a).toLowerCase().includes(hardTerms[0]?.toLowerCase() || "") ? 1 : 0) : 0;
-                    const bScore = hardTerms.length > 0 ? (extractSearchText(b).toLowerCase().includes(hardTerms[0]?.toLowerCase() || "") ? 1 : 0) : 0;
-                    return bScore - aScore;
-                  });
-                
-                if (familyCandidates.length > 0) {
-                  refillHandles.push(familyCandidates[0].handle);
-                  usedHandlesSet.add(familyCandidates[0].handle);
-                }
-              }
-              
-              // Then fill remaining slots from any group (prioritize by BM25-like score)
-              if (refillHandles.length < handlesToRefill) {
-                const remaining = remainingCandidates
-                  .filter(c => !usedHandlesSet.has(c.handle))
-                  .sort((a, b) => {
-                    const aScore = hardTerms.length > 0 ? (extractSearchText(a).toLowerCase().includes(hardTerms[0]?.toLowerCase() || "") ? 1 : 0) : 0;
-                    const bScore = hardTerms.length > 0 ? (extractSearchText(b).toLowerCase().includes(hardTerms[0]?.toLowerCase() || "") ? 1 : 0) : 0;
-                    return bScore - aScore;
-                  })
-                  .slice(0, handlesToRefill - refillHandles.length)
-                  .map(c => c.handle);
-                
-                refillHandles.push(...remaining);
-              }
-              
-              filteredHandles.push(...refillHandles);
-              // Mark that we refilled from remaining candidates (resultSource will be set to "fallback" later, not "ai")
-              if (refillHandles.length > 0) {
-                usedRefillFromRemaining = true;
-              }
-              console.log(`[Refill] after_budget delivered=${filteredHandles.length} requested=${finalResultCount} added=${refillHandles.length} reason=budget collectionIntent=true`);
-            } else {
-              // Standard refill: just take top remaining candidates
-              const refillHandles = remainingCandidates
-                .slice(0, handlesToRefill)
-                .map(c => c.handle);
-              
-              filteredHandles.push(...refillHandles);
-              // Mark that we refilled from remaining candidates (resultSource will be set to "fallback" later, not "ai")
-              if (refillHandles.length > 0) {
-                usedRefillFromRemaining = true;
-              }
-              console.log(`[Refill] after_budget delivered=${filteredHandles.length} requested=${finalResultCount} added=${refillHandles.length} reason=budget`);
-            }
-            
-            // Update handlesToSave and deliveredCount
-            handlesToSave = filteredHandles.slice(0, finalResultCount); // Cap at requested count
+          const budgetRefill = await runPipelineStage(budgetRefillStage, {
+            handles: filteredHandles,
+            removedOverCeiling,
+            requestedCount: finalResultCount,
+            maxPriceCeiling,
+            minPriceFloor,
+            relaxationLadder: buildPriceRelaxationLadder(strictBounds),
+            candidates: allCandidatesEnriched,
+            inStockOnly: experience.inStockOnly,
+            collectionIntent: collectionIntent && !bundleIntent.isBundle,
+            hardTerms,
+          }, pipelineCtx);
+          if (budgetRefill.added > 0) {
+            // Refilled from remaining candidates (resultSource will be set to "fallback" later, not "ai")
+            usedRefillFromRemaining = true;
+            handlesToSave = budgetRefill.handles;
             deliveredCount = handlesToSave.length;
           }
+          if (budgetRefill.relaxedTo) {
+            const strictCount = budgetRefill.handles.filter((handle) => {
+              const candidate = candidateMapForCheck.get(handle);
+              const price = candidate && candidate.price ? parseFloat(String(candidate.price)) : 0;
+              return !(Number.isFinite(price) && price > 0) || priceWithinBounds(price, strictBounds);
+            }).length;
+            const asked = describePriceConstraint(priceConstraint ?? { ...strictBounds, target: null, tolerance: null, currency: shopCurrency }, shopCurrency);
+            priceRelaxationNote = `Only ${strictCount} ${strictCount === 1 ? "product matched" : "products matched"} ${asked}, so I've added close matches ${describePriceBounds(budgetRefill.relaxedTo, shopCurrency)}.`;
+            console.log(`[Budget] relaxed strict=${strictCount} asked="${asked}" relaxedTo=${JSON.stringify(budgetRefill.relaxedTo)}`);
+          }
         }
       }
       
@@ -15200,6 +12598,15 @@ async function processSessionInBackground({
         }
       }
       
+      // Merchandising pins / exclusions win over diversity and refills (an exclusion never empties the result)
+      if (merchandising.pins.length > 0 || merchandising.excluded.length > 0) {
+        const merchandised = enforceMerchandisingOutcome(handlesToSave, merchandising, finalResultCount);
+        if (merchandised.length > 0) {
+          handlesToSave = merchandised;
+          deliveredCount = merchandised.length;
+        }
+      }
+
       // FINAL VALIDATION: Ensure handlesToSave contains valid handles
       const validHandles = handlesToSave.filter(handle => {
         const candidate = allCandidatesEnriched.find(c => c.handle === handle);
@@ -15398,6 +12805,9 @@ async function processSessionInBackground({
           finalReasoningToSave += ` I've expanded the selection slightly to give you more great options to choose from.`;
         }
       }
+      if (priceRelaxationNote && !finalReasoningToSave.includes(priceRelaxationNote)) {
+        finalReasoningToSave += ` ${priceRelaxationNote}`;
+      }
       
       // Calculate billedCount: 0 if emergency_fallback_unmatched, otherwise deliveredCount
       const billedCount = resultSource === "emergency_fallback_unmatched" ? 0 : deliveredCountFinal;
@@ -15425,16 +12835,53 @@ async function processSessionInBackground({
       // (It's stored for frontend parsing but shouldn't be displayed)
       reasoningToSave = cleanReasoning(reasoningToSave) || reasoningToSave;
       
+      // "Why we picked this" per card: the AI's reason where it gave one, otherwise built from the matched terms
+      const productExplanations = buildProductExplanations(
+        deliveredHandlesFinal,
+        allCandidatesEnriched,
+        aiProductReasons,
+        { hardTerms, softTerms, hardFacets: { ...hardFacets, ...intentFacets }, priceMin, priceMax },
+        experience.tone
+      );
+
       await saveConciergeResult({
         sessionToken,
         productHandles: deliveredHandlesFinal, // Use authoritative final handles (flat list for backward compatibility)
         productIds: null,
         reasoning: reasoningToSave,
+        productExplanations,
       });
       saveMs = Math.round(performance.now() - saveStart);
 
       console.log("[App Proxy] Results saved, session marked COMPLETE. deliveredCount=", deliveredCount);
 
+      // Keep the parsed intent and a compact, ranked candidate pool so the shopper can refine these
+      // results ("cheaper", "in black") without another catalog fetch (single-item results only)
+      if (!isBundleModeForReasoning && deliveredCountFinal > 0) {
+        const deliveredSet = new Set(deliveredHandlesFinal);
+        const refinementPool = [
+          ...deliveredHandlesFinal
+            .map(handle => allCandidatesEnriched.find(c => c.handle === handle))
+            .filter((c): c is EnrichedCandidate => !!c),
+          ...sortedCandidates.filter(c => !deliveredSet.has(c.handle)),
+        ].slice(0, MAX_REFINEMENT_CANDIDATES);
+        await saveRefinementContext(sessionToken, {
+          userIntent,
+          hardTerms,
+          softTerms,
+          avoidTerms,
+          variantConstraints: variantConstraints2,
+          variantPreferences,
+          priceBounds: priceMin !== null || priceMax !== null ? { min: priceMin, max: priceMax } : null,
+          currency: budgetCurrencyContext,
+          resultCount: finalResultCount,
+          tone: experience.tone || null,
+          candidates: refinementPool.map(toRefinementCandidate),
+        }).catch((error) => {
+          console.error("[App Proxy] Failed to save refinement context (results unaffected):", error);
+        });
+      }
+
       // BUG FIX #4: Log metrics - per-item stats for bundle mode, single-item stats otherwise
       if (isBundleModeForReasoning && bundleIntent.items.length >= 2) {
         // Bundle metrics: per-item stats
@@ -15539,6 +12986,19 @@ async function processSessionInBackground({
         aiMs,
         saveMs,
       });
+      console.log("[Pipeline] trace", { sid: sessionToken, stages: formatPipelineTrace(pipelineCtx.trace) });
+
+      const traceCandidateByHandle = new Map(allCandidatesEnriched.map(c => [c.handle, c]));
+      recordRejections(
+        recommendationTrace,
+        recommendationTrace.aiWindow
+          .map(handle => traceCandidateByHandle.get(handle))
+          .filter((c): c is EnrichedCandidate => !!c),
+        deliveredHandlesFinal,
+        { hardTerms, avoidTerms, hardFacets, priceMax, inStockOnly: experience.inStockOnly }
+      );
+      recommendationTrace.finalHandles = deliveredHandlesFinal;
+      await persistRecommendationTrace();
 
       // NOTE: Billing is NOT performed here - will be handled separately when results are delivered
     } else {
@@ -15566,27 +13026,105 @@ async function processSessionInBackground({
       });
     }
   } catch (error: any) {
-    // If error occurs in product fetching/processing, re-throw to be caught by outer try-catch
+    // Re-throw to the job runner: it retries with backoff and marks the session FAILED
+    // only once attempts are exhausted (failSessionProcessing)
     console.error("[App Proxy] Error in product fetching/processing:", error);
-      // Mark session as FAILED
-      await prisma.conciergeSession.update({
-        where: { publicToken: sessionToken },
-        data: { 
-          status: ConciergeSessionStatus.FAILED,
-        },
-      }).catch(() => {});
-      
-      // Save error result
-      await saveConciergeResult({
-        sessionToken,
-        productHandles: [],
-        productIds: null,
-        reasoning: error instanceof Error ? error.message : "Error processing request. Please try again.",
-      }).catch(() => {});
-      
-      // Re-throw to be caught by outer handler in setImmediate
-      throw error;
-    }
+    throw error;
+  }
+}
+
+export type SessionProcessingJobPayload = {
+  sessionToken: string;
+  presentment: { currency: string; rate: number | null } | null;
+};
+
+/**
+ * Job handler for "session.process": rebuilds the processing context from the stored session
+ * (experience, entitlements, answers) so a retry or another instance can run it after a restart
+ */
+export async function runSessionProcessingJob(payload: SessionProcessingJobPayload, attempt: number): Promise<void> {
+  const { sessionToken } = payload;
+  const startTime = Date.now();
+  const session = await prisma.conciergeSession.findUnique({
+    where: { publicToken: sessionToken },
+    include: { shop: { select: { id: true, domain: true } }, experience: true },
+  });
+  if (!session) {
+    console.warn("[App Proxy] Queued session no longer exists - skipping", { sid: sessionToken });
+    return;
+  }
+  if (session.status === ConciergeSessionStatus.COMPLETE || session.status === ConciergeSessionStatus.FAILED) {
+    console.log("[App Proxy] Queued session already finished - skipping", { sid: sessionToken, status: session.status });
+    return;
+  }
+  const experience = session.experience;
+  if (!experience) {
+    throw new Error("Experience not found for session");
+  }
+
+  let entitlements;
+  try {
+    entitlements = await getEntitlements(session.shopId);
+  } catch (error) {
+    console.error("[App Proxy] Error getting entitlements (non-blocking):", error);
+    entitlements = DEFAULT_ENTITLEMENTS;
+  }
+  const validModes = ["quiz", "chat", "hybrid"];
+
+  if (session.status !== ConciergeSessionStatus.PROCESSING) {
+    await prisma.conciergeSession.update({
+      where: { id: session.id },
+      data: { status: ConciergeSessionStatus.PROCESSING },
+    });
+  }
+
+  console.log("[App Proxy] Background processing started", { sid: sessionToken, attempt });
+  try {
+    await processSessionInBackground({
+      sessionToken,
+      shop: session.shop,
+      shopDomain: session.shop.domain,
+      experience,
+      experienceIdUsed: experience.id,
+      finalResultCount: session.resultCount,
+      answersJson: session.answersJson,
+      includedCollections: JSON.parse(experience.includedCollections || "[]") as string[],
+      excludedTags: JSON.parse(experience.excludedTags || "[]") as string[],
+      entitlements,
+      modeUsed: validModes.includes(experience.mode) ? experience.mode : "hybrid",
+      baseAiWindow: Math.min(entitlements.candidateCap, 40), // Single-item window, respect candidateCap
+      presentment: payload.presentment,
+    });
+    console.log("[App Proxy] Background processing completed", { sid: sessionToken, attempt, durationMs: Date.now() - startTime });
+  } catch (error) {
+    console.error("[App Proxy] Background processing failed", {
+      sid: sessionToken,
+      attempt,
+      durationMs: Date.now() - startTime,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  } finally {
+    notifySessionFinished(sessionToken);
+  }
+}
+
+/**
+ * Marks a session FAILED with an error result (dead-lettered job or stale session)
+ */
+export async function failSessionProcessing(sessionToken: string, reason: string): Promise<void> {
+  // saveConciergeResult marks the session COMPLETE, so the FAILED status is written after it
+  await saveConciergeResult({
+    sessionToken,
+    productHandles: [],
+    productIds: null,
+    reasoning: reason,
+  }).catch(() => {});
+  await prisma.conciergeSession.update({
+    where: { publicToken: sessionToken },
+    data: { status: ConciergeSessionStatus.FAILED },
+  }).catch(() => {});
+  notifySessionFinished(sessionToken);
 }
 
 
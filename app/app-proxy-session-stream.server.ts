@@ -0,0 +1,182 @@
+import { ConciergeSessionStatus } from "@prisma/client";
+import prisma from "~/db.server";
+import { validateAppProxySignature, getShopFromAppProxy } from "~/app-proxy.server";
+import { getOfflineAccessTokenForShop, fetchShopifyProductsByHandlesGraphQL } from "~/shopify-admin.server";
+import { parseSessionProgress, waitForSessionProgress } from "~/models/session-progress.server";
+import { getOrCreateRequestId } from "~/utils/request-id.server";
+
+/**
+ * Server-sent events for a processing session (GET /apps/editmuse/session/stream?sid=...)
+ * Events: "progress" (stage + message), "partial" (deterministic pre-ranking products),
+ * "complete" (final AI-ranked products), "failed" and "timeout". The widget falls back to
+ * polling /session when the stream errors or times out, and still loads results through
+ * /session, so delivery and billing stay there.
+ */
+
+const STREAM_READ_INTERVAL_MS = 1000; // DB re-read when no in-process update arrives (other instance)
+const STREAM_HEARTBEAT_MS = 15000;
+const STREAM_MAX_DURATION_MS = 180000; // Matches the widget's max poll time
+
+type StreamProduct = {
+  handle: string;
+  title: string;
+  image: string | null;
+  price: string | null;
+  priceAmount: string | null;
+  currencyCode: string | null;
+  url: string;
+};
+
+function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+async function loadStreamProducts(shopDomain: string, accessToken: string, handles: string[]): Promise<StreamProduct[]> {
+  if (handles.length === 0) return [];
+  const products = await fetchShopifyProductsByHandlesGraphQL({ shopDomain, accessToken, handles });
+  const byHandle = new Map(products.map((p) => [p.handle, p]));
+  return handles
+    .map((h) => byHandle.get(h))
+    .filter((p): p is NonNullable<typeof p> => Boolean(p))
+    .map((p) => ({
+      handle: p.handle,
+      title: p.title,
+      image: p.image,
+      price: p.price,
+      priceAmount: p.priceAmount || p.price,
+      currencyCode: p.currencyCode || null,
+      url: p.url,
+    }));
+}
+
+/**
+ * Shared session stream handler for app proxy routes
+ * @param request - The incoming request
+ * @param routePath - The route path for logging (e.g., "/apps/editmuse/session/stream" or "/session/stream")
+ */
+export async function proxySessionStreamLoader(request: Request, routePath: string): Promise<Response> {
+  console.log(`[App Proxy] GET ${routePath}`);
+
+  const requestId = getOrCreateRequestId(request);
+  const query = new URL(request.url).searchParams;
+  const jsonHeaders = { "Content-Type": "application/json", "x-request-id": requestId };
+
+  const sessionId = query.get("sid");
+  if (!sessionId) {
+    return Response.json({ ok: false, error: "Missing sid parameter", requestId }, { status: 400, headers: jsonHeaders });
+  }
+
+  const session = await prisma.conciergeSession.findUnique({
+    where: { publicToken: sessionId },
+    select: { id: true, shop: { select: { domain: true } } },
+  });
+  if (!session) {
+    return Response.json({ ok: false, error: "Session not found", requestId }, { status: 404, headers: jsonHeaders });
+  }
+  const shopDomain = session.shop.domain;
+
+  // Validate HMAC signature if present (for App Proxy requests)
+  if (query.has("signature")) {
+    if (!validateAppProxySignature(query, process.env.SHOPIFY_API_SECRET || "")) {
+      return Response.json({ ok: false, error: "Invalid signature", requestId }, { status: 401, headers: jsonHeaders });
+    }
+    const queryShop = getShopFromAppProxy(query);
+    if (queryShop && queryShop !== shopDomain) {
+      return Response.json({ ok: false, error: "Session shop mismatch", requestId }, { status: 403, headers: jsonHeaders });
+    }
+  }
+
+  const accessToken = await getOfflineAccessTokenForShop(shopDomain);
+  if (!accessToken) {
+    return Response.json(
+      { ok: false, error: "App not properly installed. Please reinstall the app to continue.", requestId },
+      { status: 401, headers: jsonHeaders }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  request.signal.addEventListener("abort", () => abort.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!abort.signal.aborted) controller.enqueue(encoder.encode(formatSseEvent(event, data)));
+      };
+      const startedAt = Date.now();
+      let lastHeartbeatAt = startedAt;
+      let lastProgressAt: string | null = null;
+      let partialSent = false;
+
+      try {
+        while (!abort.signal.aborted) {
+          const current = await prisma.conciergeSession.findUnique({
+            where: { id: session.id },
+            select: { status: true, progressJson: true, result: { select: { productHandles: true, reasoning: true } } },
+          });
+          if (!current) {
+            send("failed", { sid: sessionId, error: "Session not found" });
+            break;
+          }
+
+          if (current.status === ConciergeSessionStatus.FAILED) {
+            send("failed", { sid: sessionId, error: current.result?.reasoning || "Session processing failed" });
+            break;
+          }
+
+          if (current.status === ConciergeSessionStatus.COMPLETE && current.result) {
+            const raw = current.result.productHandles;
+            const handles = Array.isArray(raw) ? raw.filter((h): h is string => typeof h === "string") : [];
+            send("complete", {
+              sid: sessionId,
+              status: "COMPLETE",
+              products: await loadStreamProducts(shopDomain, accessToken, handles),
+              reasoning: current.result.reasoning || null,
+            });
+            break;
+          }
+
+          const progress = parseSessionProgress(current.progressJson);
+          if (progress && progress.updatedAt !== lastProgressAt) {
+            lastProgressAt = progress.updatedAt;
+            send("progress", { sid: sessionId, stage: progress.stage, message: progress.message, productCount: progress.productCount });
+            if (!partialSent && progress.partialHandles.length > 0) {
+              partialSent = true;
+              send("partial", { sid: sessionId, products: await loadStreamProducts(shopDomain, accessToken, progress.partialHandles) });
+            }
+          }
+
+          const now = Date.now();
+          if (now - startedAt >= STREAM_MAX_DURATION_MS) {
+            send("timeout", { sid: sessionId });
+            break;
+          }
+          if (now - lastHeartbeatAt >= STREAM_HEARTBEAT_MS) {
+            lastHeartbeatAt = now;
+            if (!abort.signal.aborted) controller.enqueue(encoder.encode(": keep-alive\n\n"));
+          }
+
+          await waitForSessionProgress(sessionId, STREAM_READ_INTERVAL_MS, abort.signal);
+        }
+      } catch (error) {
+        console.error("[Session Stream] Failed", { sid: sessionId, requestId, error: error instanceof Error ? error.message : String(error) });
+        send("failed", { sid: sessionId, error: "Stream interrupted" });
+      } finally {
+        if (!abort.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no", // Disable proxy buffering so events are flushed as they happen
+      "x-request-id": requestId,
+    },
+  });
+}
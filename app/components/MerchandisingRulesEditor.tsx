@@ -0,0 +1,293 @@
+/**
+ * Merchandising rules editor for the experience form: pin / boost / bury / exclude rules with
+ * product and query conditions, plus a preview of the catalog products each rule affects
+ * (posted to the create / edit route's "preview_merchandising" action).
+ */
+
+import { useState } from "react";
+import { useFetcher } from "react-router";
+import {
+  MAX_MERCHANDISING_RULES,
+  MAX_PIN_POSITION,
+  MERCHANDISING_ACTIONS,
+  describeMerchandisingRule,
+  type MerchandisingAction,
+  type MerchandisingConditions,
+  type MerchandisingRule,
+} from "~/utils/merchandising-rules";
+
+type RulePreview = {
+  ruleId: string;
+  firesForQuery: boolean | null;
+  matchCount: number;
+  matches: Array<{ handle: string; title: string | null }>;
+};
+
+type PreviewData = { preview?: RulePreview[]; sampleSize?: number; error?: string };
+
+type MerchandisingRulesEditorProps = {
+  rules: MerchandisingRule[];
+  onChange: (rules: MerchandisingRule[]) => void;
+};
+
+type ListCondition = "tags" | "vendors" | "collections" | "handles" | "queryTerms" | "intentTerms";
+
+const PRODUCT_FIELDS: Array<{ key: ListCondition; label: string; placeholder: string }> = [
+  { key: "tags", label: "Product tags", placeholder: "bestseller, new-arrival" },
+  { key: "vendors", label: "Vendors", placeholder: "Acme" },
+  { key: "collections", label: "Collections (handle or title)", placeholder: "spring-collection" },
+  { key: "handles", label: "Products (handles)", placeholder: "classic-tee" },
+];
+
+const QUERY_FIELDS: Array<{ key: ListCondition; label: string; placeholder: string }> = [
+  { key: "queryTerms", label: "When the request mentions", placeholder: "gift, present" },
+  { key: "intentTerms", label: "When the parsed intent includes", placeholder: "dress" },
+];
+
+const inputStyle = {
+  width: "100%",
+  padding: "0.5rem",
+  border: "1px solid rgba(11,11,15,0.12)",
+  borderRadius: "12px",
+};
+
+const labelStyle = { display: "block", marginBottom: "0.25rem", fontSize: "0.875rem", fontWeight: "500" } as const;
+const mutedStyle = { fontSize: "0.75rem", color: "rgba(11,11,15,0.62)" };
+
+function newRuleId(rules: MerchandisingRule[]): string {
+  const used = new Set(rules.map((r) => r.id));
+  let id = `rule_${rules.length + 1}`;
+  while (used.has(id)) {
+    id = `rule_${Math.random().toString(36).slice(2, 8)}`;
+  }
+  return id;
+}
+
+function splitList(value: string): string[] | undefined {
+  const terms = value.split(",").map((t) => t.trim()).filter(Boolean);
+  return terms.length > 0 ? terms : undefined;
+}
+
+function parsePrice(value: string): number | null {
+  const price = parseFloat(value);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+}
+
+export function MerchandisingRulesEditor({ rules, onChange }: MerchandisingRulesEditorProps) {
+  const fetcher = useFetcher<PreviewData>();
+  const [sampleQuery, setSampleQuery] = useState("");
+  const previewing = fetcher.state !== "idle";
+  const previews = new Map((fetcher.data?.preview || []).map((p) => [p.ruleId, p]));
+
+  const updateRule = (index: number, changes: Partial<MerchandisingRule>) => {
+    const next = [...rules];
+    next[index] = { ...next[index], ...changes };
+    if (next[index].action === "pin" && next[index].position === undefined) next[index].position = 1;
+    if (next[index].action !== "pin") delete next[index].position;
+    onChange(next);
+  };
+
+  const updateConditions = (index: number, changes: Partial<MerchandisingConditions>) => {
+    const conditions = { ...rules[index].conditions, ...changes };
+    (Object.keys(conditions) as Array<keyof MerchandisingConditions>).forEach((key) => {
+      if (conditions[key] === undefined || conditions[key] === null) delete conditions[key];
+    });
+    updateRule(index, { conditions });
+  };
+
+  const addRule = () => {
+    onChange([...rules, { id: newRuleId(rules), name: "", enabled: true, action: "boost", conditions: {} }]);
+  };
+
+  const preview = () => {
+    fetcher.submit(
+      { actionType: "preview_merchandising", merchandisingRulesJson: JSON.stringify(rules), sampleQuery },
+      { method: "post" }
+    );
+  };
+
+  const listField = (index: number, field: { key: ListCondition; label: string; placeholder: string }) => {
+    const rule = rules[index];
+    const inputId = `merch-${rule.id}-${field.key}`;
+    return (
+      <div key={field.key}>
+        <label htmlFor={inputId} style={labelStyle}>{field.label}</label>
+        <input
+          id={inputId}
+          type="text"
+          defaultValue={(rule.conditions[field.key] || []).join(", ")}
+          onChange={(e) => updateConditions(index, { [field.key]: splitList(e.currentTarget.value) })}
+          placeholder={field.placeholder}
+          style={inputStyle}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      {rules.length === 0 ? (
+        <div style={{ textAlign: "center", padding: "1.5rem", color: "rgba(11,11,15,0.62)" }}>
+          No rules yet. Results follow the AI ranking as is.
+        </div>
+      ) : (
+        rules.map((rule, index) => {
+          const rulePreview = previews.get(rule.id);
+          return (
+            <div
+              key={rule.id}
+              style={{
+                border: "1px solid rgba(11,11,15,0.12)",
+                borderRadius: "12px",
+                padding: "1rem",
+                marginBottom: "1rem",
+                opacity: rule.enabled ? 1 : 0.6,
+              }}
+            >
+              <div style={{ display: "flex", gap: "0.5rem", alignItems: "flex-end", marginBottom: "0.75rem" }}>
+                <div style={{ flex: 2 }}>
+                  <label htmlFor={`merch-${rule.id}-name`} style={labelStyle}>Rule name</label>
+                  <input
+                    id={`merch-${rule.id}-name`}
+                    type="text"
+                    value={rule.name}
+                    onChange={(e) => updateRule(index, { name: e.currentTarget.value })}
+                    placeholder="Bestseller first for gifts"
+                    style={inputStyle}
+                  />
+                </div>
+                <div style={{ flex: 1 }}>
+                  <label htmlFor={`merch-${rule.id}-action`} style={labelStyle}>Action</label>
+                  <select
+                    id={`merch-${rule.id}-action`}
+                    value={rule.action}
+                    onChange={(e) => updateRule(index, { action: e.currentTarget.value as MerchandisingAction })}
+                    style={inputStyle}
+                  >
+                    {MERCHANDISING_ACTIONS.map((a) => (
+                      <option key={a.action} value={a.action}>{a.label}</option>
+                    ))}
+                  </select>
+                </div>
+                {rule.action === "pin" && (
+                  <div style={{ width: "6rem" }}>
+                    <label htmlFor={`merch-${rule.id}-position`} style={labelStyle}>Position</label>
+                    <input
+                      id={`merch-${rule.id}-position`}
+                      type="number"
+                      min={1}
+                      max={MAX_PIN_POSITION}
+                      value={rule.position ?? 1}
+                      onChange={(e) => updateRule(index, { position: Math.min(Math.max(parseInt(e.currentTarget.value, 10) || 1, 1), MAX_PIN_POSITION) })}
+                      style={inputStyle}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "0.75rem", marginBottom: "0.75rem" }}>
+                {PRODUCT_FIELDS.map((field) => listField(index, field))}
+                <div>
+                  <label htmlFor={`merch-${rule.id}-min-price`} style={labelStyle}>Min price</label>
+                  <input
+                    id={`merch-${rule.id}-min-price`}
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={rule.conditions.minPrice ?? ""}
+                    onChange={(e) => updateConditions(index, { minPrice: parsePrice(e.currentTarget.value) })}
+                    style={inputStyle}
+                  />
+                </div>
+                <div>
+                  <label htmlFor={`merch-${rule.id}-max-price`} style={labelStyle}>Max price</label>
+                  <input
+                    id={`merch-${rule.id}-max-price`}
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={rule.conditions.maxPrice ?? ""}
+                    onChange={(e) => updateConditions(index, { maxPrice: parsePrice(e.currentTarget.value) })}
+                    style={inputStyle}
+                  />
+                </div>
+                {QUERY_FIELDS.map((field) => listField(index, field))}
+              </div>
+
+              <div style={{ ...mutedStyle, marginBottom: "0.5rem" }}>{describeMerchandisingRule(rule)}</div>
+
+              {rulePreview && (
+                <div style={{ marginBottom: "0.5rem", fontSize: "0.875rem" }}>
+                  {rulePreview.firesForQuery === false && (
+                    <div style={{ color: "#B45309" }}>Does not fire for the sample request.</div>
+                  )}
+                  <div>
+                    Affects {rulePreview.matchCount} product{rulePreview.matchCount === 1 ? "" : "s"}
+                    {rulePreview.matches.length > 0 ? ": " : ""}
+                    {rulePreview.matches.map((m) => m.title || m.handle).join(", ")}
+                    {rulePreview.matchCount > rulePreview.matches.length ? `, +${rulePreview.matchCount - rulePreview.matches.length} more` : ""}
+                  </div>
+                </div>
+              )}
+
+              <div style={{ display: "flex", gap: "1rem", alignItems: "center" }}>
+                <label style={{ display: "flex", alignItems: "center", gap: "0.5rem", fontSize: "0.875rem" }}>
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => updateRule(index, { enabled: e.currentTarget.checked })}
+                  />
+                  Enabled
+                </label>
+                <button
+                  type="button"
+                  onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                  style={{ background: "none", border: "none", color: "#DC2626", cursor: "pointer", fontSize: "0.875rem" }}
+                >
+                  Remove rule
+                </button>
+              </div>
+            </div>
+          );
+        })
+      )}
+
+      {fetcher.data?.error && (
+        <div style={{ color: "#DC2626", fontSize: "0.875rem", marginBottom: "0.5rem" }}>{fetcher.data.error}</div>
+      )}
+      {fetcher.data?.sampleSize !== undefined && !fetcher.data.error && (
+        <div style={{ ...mutedStyle, marginBottom: "0.5rem" }}>Preview checked {fetcher.data.sampleSize} catalog products.</div>
+      )}
+
+      <div style={{ display: "flex", gap: "0.5rem", alignItems: "flex-end" }}>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="merch-sample-query" style={labelStyle}>Sample request (optional)</label>
+          <input
+            id="merch-sample-query"
+            type="text"
+            value={sampleQuery}
+            onChange={(e) => setSampleQuery(e.currentTarget.value)}
+            placeholder="a gift for my sister"
+            style={inputStyle}
+          />
+        </div>
+        <button
+          type="button"
+          onClick={preview}
+          disabled={previewing || rules.length === 0}
+          style={{ padding: "0.5rem 1rem", border: "1px solid rgba(11,11,15,0.12)", borderRadius: "12px", background: "#FFFFFF", cursor: "pointer" }}
+        >
+          {previewing ? "Previewing..." : "Preview matches"}
+        </button>
+        <button
+          type="button"
+          onClick={addRule}
+          disabled={rules.length >= MAX_MERCHANDISING_RULES}
+          style={{ padding: "0.5rem 1rem", border: "none", borderRadius: "12px", background: "#7C3AED", color: "#FFFFFF", cursor: "pointer" }}
+        >
+          Add Rule
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+/**
+ * Quiz branching controls for the experience question builder:
+ * "optional" (shopper can skip) and a single "show only if" rule on an earlier choice question (select, multi-select, image choice, yes / no).
+ * Conditions reference question ids; the editor gives every question one, and a source question
+ * that still lacks one gets it on first use.
+ */
+
+import {
+  OPTION_QUESTION_TYPES,
+  defaultQuestionId,
+  isQuestionType,
+  type QuestionDefinition,
+  type QuestionOptionDefinition,
+} from "~/utils/question-types";
+
+const YES_NO_OPTIONS: QuestionOptionDefinition[] = [
+  { value: "yes", label: "Yes" },
+  { value: "no", label: "No" },
+];
+
+function sourceOptions(source: QuestionDefinition): QuestionOptionDefinition[] {
+  return source.type === "yes_no" && !Array.isArray(source.options) ? YES_NO_OPTIONS : source.options || [];
+}
+
+type QuestionLogicFieldsProps = {
+  questions: QuestionDefinition[];
+  index: number;
+  onChange: (questions: QuestionDefinition[]) => void;
+};
+
+export function QuestionLogicFields({ questions, index, onChange }: QuestionLogicFieldsProps) {
+  const q = questions[index];
+  const condition = Array.isArray(q.showIf) ? q.showIf[0] : q.showIf;
+  const sources = questions
+    .map((source, sourceIndex) => ({ source, sourceIndex }))
+    .filter(({ source, sourceIndex }) => sourceIndex < index && ((isQuestionType(source.type) && OPTION_QUESTION_TYPES.includes(source.type)) || source.type === "yes_no"));
+  const selectedSourceIndex = condition
+    ? questions.findIndex((source, sourceIndex) => (source.id || `q${sourceIndex + 1}`) === condition.questionId)
+    : -1;
+  const selectedSource = selectedSourceIndex >= 0 ? questions[selectedSourceIndex] : null;
+
+  const updateQuestion = (changes: Partial<QuestionDefinition>, sourceIndex?: number) => {
+    const newQuestions = [...questions];
+    if (sourceIndex !== undefined && !newQuestions[sourceIndex].id) {
+      newQuestions[sourceIndex] = { ...newQuestions[sourceIndex], id: defaultQuestionId(newQuestions, sourceIndex) };
+    }
+    newQuestions[index] = { ...newQuestions[index], ...changes };
+    if (newQuestions[index].showIf === undefined) {
+      delete newQuestions[index].showIf;
+    }
+    onChange(newQuestions);
+  };
+
+  return (
+    <div style={{ marginBottom: "0.75rem" }}>
+      <label style={{ display: "flex", alignItems: "center", gap: "0.5rem", marginBottom: "0.5rem", fontSize: "0.875rem" }}>
+        <input
+          type="checkbox"
+          checked={q.optional === true}
+          onChange={(e) => updateQuestion({ optional: e.target.checked })}
+        />
+        Optional (shoppers can skip this question)
+      </label>
+
+      {index > 0 && (
+        <div>
+          <label htmlFor={`question-${index}-show-if`} style={{ display: "block", marginBottom: "0.25rem", fontSize: "0.875rem", fontWeight: "500" }}>
+            Show only if
+          </label>
+          {sources.length === 0 ? (
+            <div style={{ fontSize: "0.75rem", color: "rgba(11,11,15,0.62)" }}>
+              Add a choice question before this one to show it conditionally.
+            </div>
+          ) : (
+            <div style={{ display: "flex", gap: "0.5rem" }}>
+              <select
+                id={`question-${index}-show-if`}
+                value={selectedSourceIndex >= 0 ? String(selectedSourceIndex) : ""}
+                onChange={(e) => {
+                  if (e.target.value === "") {
+                    updateQuestion({ showIf: undefined });
+                    return;
+                  }
+                  const sourceIndex = Number(e.target.value);
+                  const source = questions[sourceIndex];
+                  const questionId = source.id || defaultQuestionId(questions, sourceIndex);
+                  const firstOption = sourceOptions(source)[0];
+                  const equals = typeof firstOption === "object" ? firstOption?.value || "" : String(firstOption || "");
+                  updateQuestion({ showIf: { questionId, equals } }, sourceIndex);
+                }}
+                style={{ flex: 1, padding: "0.5rem", border: "1px solid #ccc", borderRadius: "4px" }}
+              >
+                <option value="">Always show</option>
+                {sources.map(({ source, sourceIndex }) => (
+                  <option key={sourceIndex} value={String(sourceIndex)}>
+                    Question {sourceIndex + 1}: {source.question || "(untitled)"}
+                  </option>
+                ))}
+              </select>
+              {selectedSource && condition && (
+                <select
+                  value={condition?.equals || ""}
+                  onChange={(e) => updateQuestion({ showIf: { questionId: condition.questionId, equals: e.target.value } })}
+                  style={{ flex: 1, padding: "0.5rem", border: "1px solid #ccc", borderRadius: "4px" }}
+                >
+                  {sourceOptions(selectedSource).map((opt, optIndex) => {
+                    const normalizedOpt = typeof opt === "object" ? opt : { value: opt, label: opt };
+                    return (
+                      <option key={optIndex} value={normalizedOpt.value}>
+                        is &quot;{normalizedOpt.label || normalizedOpt.value}&quot;
+                      </option>
+                    );
+                  })}
+                </select>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
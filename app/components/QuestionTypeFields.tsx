@@ -0,0 +1,144 @@
+/**
+ * Per-type settings for the experience question builder:
+ * range bounds / step / unit, image choice "allow multiple", and the intent signal
+ * (how the answer feeds search: soft / hard / avoid term, product facet, price range).
+ */
+
+import {
+  QUESTION_SIGNAL_KINDS,
+  defaultSignalForType,
+  type QuestionDefinition,
+  type QuestionSignalKind,
+} from "~/utils/question-types";
+
+type QuestionTypeFieldsProps = {
+  questions: QuestionDefinition[];
+  index: number;
+  onChange: (questions: QuestionDefinition[]) => void;
+};
+
+const inputStyle = { width: "100%", padding: "0.5rem", border: "1px solid #ccc", borderRadius: "4px" };
+const labelStyle = { display: "block", marginBottom: "0.25rem", fontSize: "0.875rem", fontWeight: "500" };
+
+export function QuestionTypeFields({ questions, index, onChange }: QuestionTypeFieldsProps) {
+  const q = questions[index];
+  const signal = q.signal || defaultSignalForType(q.type);
+  const signalKinds = QUESTION_SIGNAL_KINDS.filter((k) => k.kind !== "price" || q.type === "range");
+
+  const updateQuestion = (changes: Partial<QuestionDefinition>) => {
+    const newQuestions = [...questions];
+    newQuestions[index] = { ...newQuestions[index], ...changes };
+    onChange(newQuestions);
+  };
+
+  const updateNumber = (field: "min" | "max" | "step", value: string) => {
+    updateQuestion({ [field]: value === "" ? undefined : Number(value) });
+  };
+
+  return (
+    <div style={{ marginBottom: "0.75rem" }}>
+      {q.type === "range" && (
+        <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: "0.5rem", marginBottom: "0.75rem" }}>
+          <div>
+            <label htmlFor={`question-${index}-min`} style={labelStyle}>Minimum</label>
+            <input
+              id={`question-${index}-min`}
+              type="number"
+              value={q.min ?? ""}
+              onChange={(e) => updateNumber("min", e.target.value)}
+              style={inputStyle}
+            />
+          </div>
+          <div>
+            <label htmlFor={`question-${index}-max`} style={labelStyle}>Maximum</label>
+            <input
+              id={`question-${index}-max`}
+              type="number"
+              value={q.max ?? ""}
+              onChange={(e) => updateNumber("max", e.target.value)}
+              style={inputStyle}
+            />
+          </div>
+          <div>
+            <label htmlFor={`question-${index}-step`} style={labelStyle}>Step</label>
+            <input
+              id={`question-${index}-step`}
+              type="number"
+              min="0"
+              value={q.step ?? ""}
+              onChange={(e) => updateNumber("step", e.target.value)}
+              placeholder="1"
+              style={inputStyle}
+            />
+          </div>
+          <div>
+            <label htmlFor={`question-${index}-unit`} style={labelStyle}>Unit</label>
+            <input
+              id={`question-${index}-unit`}
+              type="text"
+              value={q.unit ?? ""}
+              onChange={(e) => updateQuestion({ unit: e.target.value })}
+              placeholder="currency"
+              style={inputStyle}
+            />
+          </div>
+        </div>
+      )}
+
+      {q.type === "image_choice" && (
+        <label style={{ display: "flex", alignItems: "center", gap: "0.5rem", marginBottom: "0.5rem", fontSize: "0.875rem" }}>
+          <input
+            type="checkbox"
+            checked={q.multiple === true}
+            onChange={(e) => updateQuestion({ multiple: e.target.checked })}
+          />
+          Allow multiple choices
+        </label>
+      )}
+
+      <div style={{ display: "flex", gap: "0.5rem", alignItems: "flex-end" }}>
+        <div style={{ flex: 1 }}>
+          <label htmlFor={`question-${index}-signal`} style={labelStyle}>
+            Answer is used as
+          </label>
+          <select
+            id={`question-${index}-signal`}
+            value={signal.kind}
+            onChange={(e) => updateQuestion({ signal: { ...signal, kind: e.target.value as QuestionSignalKind } })}
+            style={inputStyle}
+          >
+            {signalKinds.map((k) => (
+              <option key={k.kind} value={k.kind}>{k.label}</option>
+            ))}
+          </select>
+        </div>
+        {signal.kind === "hard_facet" && (
+          <div style={{ flex: 1 }}>
+            <label htmlFor={`question-${index}-facet`} style={labelStyle}>Facet name</label>
+            <input
+              id={`question-${index}-facet`}
+              type="text"
+              value={signal.facet || ""}
+              onChange={(e) => updateQuestion({ signal: { ...signal, facet: e.target.value } })}
+              placeholder="e.g. color, size, material"
+              style={inputStyle}
+            />
+          </div>
+        )}
+        {q.type === "yes_no" && signal.kind !== "none" && (
+          <div style={{ flex: 1 }}>
+            <label htmlFor={`question-${index}-term`} style={labelStyle}>Applies when &quot;Yes&quot;</label>
+            <input
+              id={`question-${index}-term`}
+              type="text"
+              value={signal.term || ""}
+              onChange={(e) => updateQuestion({ signal: { ...signal, term: e.target.value } })}
+              placeholder="e.g. waterproof"
+              style={inputStyle}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
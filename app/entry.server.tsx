@@ -7,10 +7,18 @@ import { isbot } from "isbot";
 import { addDocumentResponseHeaders } from "./shopify.server";
 import { initSentry } from "./utils/sentry.server";
 import { getOrCreateRequestId, addRequestIdHeader } from "./utils/request-id.server";
+import { startBackgroundJobs } from "./utils/background-jobs.server";
+import { startJobWorker } from "./utils/job-worker.server";
 
 // Initialize Sentry on module load
 initSentry();
 
+// Schedule maintenance jobs (data retention)
+startBackgroundJobs();
+
+// Process queued jobs (session recommendations) and sweep stale sessions
+startJobWorker();
+
 export const streamTimeout = 5000;
 
 export default async function handleRequest(
@@ -55,13 +55,17 @@ export function validateEnv() {
   const aiRankingEnabled = featureAIRanking !== "false" && featureAIRanking !== "0";
   const openaiKey = process.env.OPENAI_API_KEY;
   const openaiModel = process.env.OPENAI_MODEL || "gpt-4o-mini";
+  const llmProvider = (process.env.LLM_PROVIDER || "openai").toLowerCase();
   
   console.log("[ENV] ===== OpenAI Configuration =====");
   console.log("[ENV] FEATURE_AI_RANKING:", featureAIRanking || "(not set, default: enabled)");
+  console.log("[ENV] LLM_PROVIDER:", llmProvider);
   console.log("[ENV] OPENAI_API_KEY:", openaiKey ? "SET (length: " + openaiKey.length + ")" : "NOT SET");
   console.log("[ENV] OPENAI_MODEL:", openaiModel);
   
-  if (aiRankingEnabled) {
+  if (aiRankingEnabled && llmProvider !== "openai") {
+    console.log("[ENV] ✅ AI ranking ENABLED via LLM provider:", llmProvider);
+  } else if (aiRankingEnabled) {
     if (!openaiKey) {
       console.warn(
         "[ENV] ⚠️  WARNING: FEATURE_AI_RANKING is enabled but OPENAI_API_KEY is not set.\n" +
@@ -76,6 +80,16 @@ export function validateEnv() {
   }
   console.log("[ENV] =====================================");
 
+  const embeddingProvider = (process.env.EMBEDDING_PROVIDER || "").toLowerCase();
+  if (embeddingProvider && embeddingProvider !== "none") {
+    console.log("[ENV] ✅ Hybrid retrieval ENABLED via EMBEDDING_PROVIDER:", embeddingProvider, "model:", process.env.EMBEDDING_MODEL || "(provider default)");
+    if (embeddingProvider === "openai" && !openaiKey) {
+      console.warn("[ENV] ⚠️  WARNING: EMBEDDING_PROVIDER=openai but OPENAI_API_KEY is not set. Ranking stays lexical (BM25 only).");
+    }
+  } else {
+    console.log("[ENV] Hybrid retrieval DISABLED (EMBEDDING_PROVIDER not set, BM25 only)");
+  }
+
   return {
     appUrl,
     parsedOrigin,
@@ -12,10 +12,11 @@
 
 // NOTE: Billing is handled separately after final results are computed
 
-import crypto from "crypto";
 import prisma from "~/db.server";
-import OpenAI from "openai";
+import { getLLMProvider, llmChat, LLMProviderError } from "~/models/llm-provider.server";
+import { getCachedRanking, getRankingCacheScope, rankingCacheKeyFor, setCachedRanking } from "~/models/ranking-cache.server";
 import { cleanReasoning, combineReasonings } from "~/utils/reasoning-cleaner.server";
+import { cleanProductExplanation, explanationToneInstruction, type ProductExplanations } from "~/utils/product-explanations.server";
 
 interface ProductCandidate {
   handle: string;
@@ -30,6 +31,7 @@ interface ProductCandidate {
   colors?: string[];
   materials?: string[];
   optionValues?: Record<string, string[]>;
+  facets?: Record<string, string[]>; // Option facets by name, size/color/material included
 }
 
 interface RankingResult {
@@ -39,11 +41,7 @@ interface RankingResult {
 
 interface HardConstraints {
   hardTerms: string[];
-  hardFacets?: {
-    size?: string[];
-    color?: string[];
-    material?: string[];
-  };
+  hardFacets?: Record<string, string[]>; // Facet -> accepted values (size, color, material, vintage, skin type, ...)
   avoidTerms: string[];
   trustFallback: boolean;
   isBundle?: boolean;
@@ -52,11 +50,7 @@ interface HardConstraints {
 
 interface Evidence {
   matchedHardTerms: string[];
-  matchedFacets?: {
-    size?: string[];
-    color?: string[];
-    material?: string[];
-  };
+  matchedFacets?: Record<string, string[]>;
   fieldsUsed: string[];
 }
 
@@ -90,12 +84,9 @@ interface StructuredBundleResult {
   rejected_candidates?: RejectedCandidate[];
 }
 
-const OPENAI_CHAT_COMPLETIONS_URL = "https://api.openai.com/v1/chat/completions";
-const DEFAULT_MODEL = "gpt-4o-mini";
 const TIMEOUT_MS = Number(process.env.OPENAI_TIMEOUT_MS ?? "20000"); // Configurable timeout, default 20 seconds
 const TIMEOUT_MS_BUNDLE = Number(process.env.OPENAI_TIMEOUT_MS_BUNDLE ?? "12000"); // Stricter timeout for bundle mode, default 12 seconds
 const MAX_RETRIES = 1; // Max 1 retry, so at most 2 attempts total (initial attempt + 1 retry)
-const CACHE_DURATION_HOURS = 0; // Cache disabled - always use fresh AI ranking
 const MAX_DESCRIPTION_LENGTH = 1000; // Increased from 200 to allow full description analysis
 
 // Service tier configuration for Responses API
@@ -158,14 +149,6 @@ const JSON_MODE_SUPPORTED_MODELS = new Set([
   "o1-mini",
 ]);
 
-// Models that support JSON schema (response_format: { type: "json_schema", json_schema: {...} })
-const JSON_SCHEMA_SUPPORTED_MODELS = new Set([
-  "gpt-4o",
-  "gpt-4o-mini",
-  "gpt-4-turbo",
-  "gpt-4-turbo-preview",
-]);
-
 /**
  * Strips HTML tags and cleans product description
  * Removes HTML entities, preserves text content
@@ -602,20 +585,20 @@ function validateRankingSchema(
  */
 export function isAIRankingEnabled(): boolean {
   const featureFlag = process.env.FEATURE_AI_RANKING;
-  const apiKey = process.env.OPENAI_API_KEY;
-  const hasApiKey = !!apiKey;
+  const provider = getLLMProvider();
+  const providerConfigured = provider.isConfigured();
   
   console.log("[AI Ranking] Checking AI ranking status:");
   console.log("[AI Ranking]   FEATURE_AI_RANKING:", featureFlag || "(not set, default: enabled)");
-  console.log("[AI Ranking]   OPENAI_API_KEY:", hasApiKey ? "SET" : "NOT SET");
+  console.log("[AI Ranking]   LLM provider:", provider.name, providerConfigured ? "CONFIGURED" : "NOT CONFIGURED");
   
   if (featureFlag === "false" || featureFlag === "0") {
     console.log("[AI Ranking] ❌ DISABLED via FEATURE_AI_RANKING flag");
     return false;
   }
   
-  if (!hasApiKey) {
-    console.log("[AI Ranking] ❌ DISABLED - OPENAI_API_KEY not set in environment");
+  if (!providerConfigured) {
+    console.log(`[AI Ranking] ❌ DISABLED - LLM provider "${provider.name}" not configured (e.g. OPENAI_API_KEY not set)`);
     return false;
   }
   
@@ -624,10 +607,10 @@ export function isAIRankingEnabled(): boolean {
 }
 
 /**
- * Gets the OpenAI model to use
+ * Gets the model to use (provider default: OPENAI_MODEL for OpenAI, LLM_MODEL for compatible servers)
  */
 export function getOpenAIModel(): string {
-  return process.env.OPENAI_MODEL || DEFAULT_MODEL;
+  return getLLMProvider().getDefaultModel();
 }
 
 /**
@@ -727,76 +710,6 @@ function deterministicRanking(
   };
 }
 
-/**
- * Generates a cache key from user intent and product catalog
- */
-function generateCacheKey(
-  userIntent: string,
-  candidates: ProductCandidate[],
-  resultCount: number,
-  variantConstraints?: { size: string | null; color: string | null; material: string | null },
-  variantPreferences?: Record<string, string>,
-  includeTerms?: string[],
-  avoidTerms?: string[]
-): string {
-  // Normalize user intent (trim, lowercase for better cache hits)
-  const normalizedIntent = (userIntent || "").trim().toLowerCase();
-  
-  // Create product hash (just handles, sorted for consistency)
-  const productHandles = candidates.map(c => c.handle).sort().join(",");
-  
-  // Create variant hash
-  const variantHash = JSON.stringify({
-    constraints: variantConstraints || {},
-    preferences: variantPreferences || {},
-    includeTerms: (includeTerms || []).sort(),
-    avoidTerms: (avoidTerms || []).sort(),
-  });
-  
-  // Combine all inputs
-  const cacheInput = `${normalizedIntent}|${productHandles}|${resultCount}|${variantHash}`;
-  
-  // Generate SHA256 hash
-  return crypto.createHash("sha256").update(cacheInput).digest("hex");
-}
-
-/**
- * Checks cache for existing ranking result
- * Cache disabled - always returns null to force fresh AI ranking
- */
-async function getCachedRanking(
-  cacheKey: string,
-  shopId?: string
-): Promise<{ 
-  selectedHandles: string[];
-  reasoning?: string | null;
-  trustFallback: boolean;
-  source: "ai" | "fallback";
-  parseFailReason?: string | null;
-} | null> {
-  // Cache disabled - always return null to force fresh AI ranking
-  console.log("[AI Ranking] Cache disabled - will call OpenAI");
-  return null;
-}
-
-/**
- * Stores ranking result in cache
- * Cache disabled - no-op function
- */
-async function setCachedRanking(
-  cacheKey: string,
-  shopId: string,
-  userIntent: string,
-  candidates: ProductCandidate[],
-  selectedHandles: string[],
-  reasoning: string | null,
-  resultCount: number
-): Promise<void> {
-  // Cache disabled - do nothing
-  // This function is kept for API compatibility but doesn't cache anything
-  return;
-}
-
 /**
  * Ranks products using OpenAI based on user intent
  * 
@@ -811,7 +724,8 @@ async function setCachedRanking(
  * @param avoidTerms - Keywords to avoid in results
  * @param hardConstraints - Hard constraints (hardTerms, hardFacets, avoidTerms, trustFallback)
  * @param experienceId - Experience ID for prompt cache key (optional)
- * @returns Ranked product handles and reasoning (always returns a result, falls back to deterministic ranking if AI fails)
+ * @param tone - Experience tone for the per-product reasons (optional)
+ * @returns Ranked product handles, reasoning and per-product reasons (always returns a result, falls back to deterministic ranking if AI fails)
  */
 export async function rankProductsWithAI(
   userIntent: string,
@@ -827,14 +741,17 @@ export async function rankProductsWithAI(
   experienceId?: string | null,
   strictGateCount?: number,
   strictGateCandidates?: ProductCandidate[],
-  conversationMessages?: Array<{ role: "system" | "user" | "assistant"; content: string }>
+  conversationMessages?: Array<{ role: "system" | "user" | "assistant"; content: string }>,
+  tone?: string | null
 ): Promise<{ 
   selectedHandles: string[];
   reasoning?: string | null;
+  productReasons?: ProductExplanations | null;
   trustFallback: boolean;
   source: "ai" | "fallback" | "ai_failed_fallback_bm25";
   parseFailReason?: string | null;
   bundleSelections?: Array<{ itemIndex: number; handle: string }>;
+  cacheHit?: boolean;
 }> {
   // Helper function to determine fallback scope and candidates
   const getFallbackCandidates = (): { candidates: ProductCandidate[]; scope: "strict_gate" | "full_pool" } => {
@@ -851,12 +768,12 @@ export async function rankProductsWithAI(
     return deterministicRanking(fallback.candidates, resultCount, variantPreferences, "No candidates to rank");
   }
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    console.log("[AI Ranking] source=fallback parse_fail_reason=OPENAI_API_KEY not set");
+  const llmProvider = getLLMProvider();
+  if (!llmProvider.isConfigured()) {
+    console.log("[AI Ranking] source=fallback parse_fail_reason=LLM provider not configured");
     const fallback = getFallbackCandidates();
     console.log("[AI Ranking] fallback_scope=", fallback.scope);
-    return deterministicRanking(fallback.candidates, resultCount, variantPreferences, "OPENAI_API_KEY not set");
+    return deterministicRanking(fallback.candidates, resultCount, variantPreferences, "LLM provider not configured");
   }
 
   if (!isAIRankingEnabled()) {
@@ -866,27 +783,42 @@ export async function rankProductsWithAI(
     return deterministicRanking(fallback.candidates, resultCount, variantPreferences, "Feature disabled via FEATURE_AI_RANKING");
   }
   
-  // Check cache first
-  if (shopId) {
-    const cacheKey = generateCacheKey(
-      userIntent,
-      candidates,
-      resultCount,
-      variantConstraints,
-      variantPreferences,
-      includeTerms,
-      avoidTerms
-    );
-    
-    const cached = await getCachedRanking(cacheKey, shopId);
+  // Check cache first (bundles are never cached: their per-item selections are not stored)
+  const cacheScope = shopId && !hardConstraints?.isBundle
+    ? await getRankingCacheScope(shopId, experienceId).catch((error) => {
+        console.error("[AI Ranking] Cache scope lookup failed (continuing without cache):", error);
+        return null;
+      })
+    : null;
+  const cacheKey = cacheScope
+    ? rankingCacheKeyFor(cacheScope, {
+        userIntent,
+        candidateHandles: candidates.map(c => c.handle),
+        resultCount,
+        variantConstraints,
+        variantPreferences,
+        includeTerms,
+        avoidTerms,
+        hardTerms: hardConstraints?.hardTerms,
+        hardFacets: hardConstraints?.hardFacets,
+        trustFallback: hardConstraints?.trustFallback,
+      })
+    : null;
+  if (cacheScope && cacheKey) {
+    const cached = await getCachedRanking(cacheScope, cacheKey, sessionToken).catch((error) => {
+      console.error("[AI Ranking] Cache read failed (calling the AI):", error);
+      return null;
+    });
     if (cached) {
-      return cached; // Return cached result, no OpenAI call needed!
+      return { ...cached, trustFallback: hardConstraints?.trustFallback || false }; // No LLM call needed
     }
+  } else {
+    console.log("[AI Ranking] Cache off for this call", { bundle: !!hardConstraints?.isBundle, shopId: shopId || null });
   }
 
   const model = getOpenAIModel();
   const supportsJsonMode = JSON_MODE_SUPPORTED_MODELS.has(model);
-  const supportsJsonSchema = JSON_SCHEMA_SUPPORTED_MODELS.has(model);
+  const supportsJsonSchema = llmProvider.supportsJsonSchema(model);
   console.log("[AI Ranking] Starting AI ranking with model:", model, "candidates:", candidates.length);
   console.log("[AI Ranking] json_mode=", supportsJsonMode);
   console.log("[AI Ranking] json_schema=", supportsJsonSchema);
@@ -913,15 +845,11 @@ export async function rankProductsWithAI(
   const finalAvoidTerms = [...new Set([...(avoidTerms || []), ...avoidTermsFromConstraints])];
   
   // Build hardFacets object for prompt (only include if present)
-  const hardFacetsForPrompt: { size?: string[]; color?: string[]; material?: string[] } = {};
-  if (hardFacetsRaw.size && hardFacetsRaw.size.length > 0) {
-    hardFacetsForPrompt.size = hardFacetsRaw.size;
-  }
-  if (hardFacetsRaw.color && hardFacetsRaw.color.length > 0) {
-    hardFacetsForPrompt.color = hardFacetsRaw.color;
-  }
-  if (hardFacetsRaw.material && hardFacetsRaw.material.length > 0) {
-    hardFacetsForPrompt.material = hardFacetsRaw.material;
+  const hardFacetsForPrompt: Record<string, string[]> = {};
+  for (const [facet, values] of Object.entries(hardFacetsRaw)) {
+    if (Array.isArray(values) && values.length > 0) {
+      hardFacetsForPrompt[facet] = values;
+    }
   }
   // If variantConstraints provided but not in hardFacets, check if we should include them
   if (variantConstraints && Object.keys(hardFacetsForPrompt).length === 0) {
@@ -1038,11 +966,14 @@ export async function rankProductsWithAI(
     const colors = (p.colors && p.colors.length > 0) ? p.colors.slice(0, 20).join(", ") : "none";
     const materials = (p.materials && p.materials.length > 0) ? p.materials.slice(0, 20).join(", ") : "none";
     
-    // Cap optionValues: max 3 keys, max 10 values per key
+    // Cap optionValues: max 3 keys (options named by a hardFacet first), max 10 values per key
     let optionValuesJson = "{}";
     if (p.optionValues && typeof p.optionValues === "object") {
       const cappedOptionValues: Record<string, string[]> = {};
-      const keys = Object.keys(p.optionValues).slice(0, 3);
+      const facetNames = Object.keys(hardFacetsForPrompt);
+      const keys = Object.keys(p.optionValues)
+        .sort((a, b) => Number(facetNames.includes(b.toLowerCase().trim())) - Number(facetNames.includes(a.toLowerCase().trim())))
+        .slice(0, 3);
       for (const key of keys) {
         const values = (p.optionValues[key] || []);
         if (Array.isArray(values)) {
@@ -1052,6 +983,12 @@ export async function rankProductsWithAI(
       optionValuesJson = JSON.stringify(cappedOptionValues);
     }
     
+    // Facets beyond size/color/material (vintage, skin type, ...): max 5 facets, max 10 values each
+    const otherFacets = Object.entries(p.facets ?? {})
+      .filter(([facet]) => facet !== "size" && facet !== "color" && facet !== "material")
+      .slice(0, 5)
+      .map(([facet, values]) => `${facet}: ${values.slice(0, 10).join(", ")}`);
+    
     const descriptionSnippet = extractDescriptionSnippet(p, 400);
     
     return `${idx + 1}. handle: ${p.handle}
@@ -1064,7 +1001,7 @@ export async function rankProductsWithAI(
    sizes: ${sizes}
    colors: ${colors}
    materials: ${materials}
-   optionValues: ${optionValuesJson}
+   optionValues: ${optionValuesJson}${otherFacets.length > 0 ? `\n   facets: ${otherFacets.join("; ")}` : ""}
    descriptionSnippet: ${descriptionSnippet || ""}`;
   }).join("\n\n");
   }
@@ -1157,7 +1094,7 @@ ${bundleItems.some(item => item.budgetMax) ? `- Total budget: $${bundleItems.red
 HARD CONSTRAINT RULES:
 ${trustFallback ? `- trustFallback=true: You may show alternatives when exact matches are insufficient, but MUST label each as "exact", "good", or "fallback"` : `- trustFallback=false: EVERY returned product MUST satisfy ALL of the following:
   a) At least one hardTerm match for its itemIndex in (title OR productType OR tags OR descriptionSnippet)
-  b) ALL hardFacets must match when provided (size, color, material)
+  b) ALL hardFacets must match when provided (size, color, material or any other facet, e.g. vintage, shade, storage capacity); a facet with several values matches if ANY value matches
   c) Must NOT contain any avoidTerms in title/tags/descriptionSnippet (unless avoidTerms is empty)
   d) Handle MUST exist in that itemIndex's candidate group`}
 
@@ -1192,8 +1129,8 @@ REQUIREMENTS:
     : `You are an expert product recommendation assistant for an e-commerce store. Your task is to rank products from a pre-filtered candidate list based on strict matching rules.
 
 CRITICAL OUTPUT FORMAT (MINIMAL):
-- Return ONLY the fields required by the schema - no extra keys, no explanations, no evidence, no reasons
-- Do not include explanations, reasons, evidence, or extra keys
+- Return ONLY the fields required by the schema - no extra keys, no evidence
+- The only prose allowed is the short per-item "reason" shown to the shopper
 - Keep output concise to avoid truncation
 - Return ONLY valid JSON (no markdown, no prose, no explanations outside JSON)
 - Output must be parseable JSON.parse() directly
@@ -1202,7 +1139,7 @@ CRITICAL OUTPUT FORMAT (MINIMAL):
 HARD CONSTRAINT RULES:
 ${hardTerms.length === 0 ? `- hardTerms is EMPTY: Rank products by soft terms + overall relevance. Do NOT reject products for missing hardTerms since none were specified. Prioritize products that match soft terms, variant preferences, and overall relevance to the user's intent.` : trustFallback ? `- trustFallback=true: You may show alternatives when exact matches are insufficient, but MUST label each as "exact", "good", or "fallback"` : `- trustFallback=false: EVERY returned product MUST satisfy ALL of the following:
   a) At least one hardTerm match in (title OR productType OR tags OR descriptionSnippet)
-  b) ALL hardFacets must match when provided (size, color, material)
+  b) ALL hardFacets must match when provided (size, color, material or any other facet, e.g. vintage, shade, storage capacity); a facet with several values matches if ANY value matches
   c) Must NOT contain any avoidTerms in title/tags/descriptionSnippet (unless avoidTerms is empty)`}
 
 CATEGORY DRIFT PREVENTION (INDUSTRY-AGNOSTIC):
@@ -1213,7 +1150,7 @@ CATEGORY DRIFT PREVENTION (INDUSTRY-AGNOSTIC):
 
 MATCHING REQUIREMENTS:
 1. Check title, productType, tags, and descriptionSnippet for hardTerm matches
-2. Verify hardFacet matches in sizes/colors/materials arrays
+2. Verify hardFacet matches in sizes/colors/materials arrays; other facets in optionValues, then title/tags/descriptionSnippet
 3. Exclude products containing avoidTerms in title/tags/descriptionSnippet
 5. Score 0-100 based on relevance (higher = better match)
 
@@ -1224,11 +1161,15 @@ OUTPUT SCHEMA (MUST be exactly this structure - MINIMAL):
     {
       "handle": "exact-handle-from-candidate-list",
       "label": "exact",
-      "score": 85
+      "score": 85,
+      "reason": "One short sentence for the shopper"
     }
   ]
 }
 
+REASONS:
+- ${explanationToneInstruction(tone)}
+
 CRITICAL REQUIREMENT - YOU MUST FOLLOW THIS:
 - "selected" array MUST contain exactly ${resultCount} items (or all candidates if fewer than ${resultCount})
 - NEVER return an empty "selected" array - if candidates are available, you MUST select at least one item
@@ -1347,7 +1288,7 @@ Return ONLY the JSON object matching the bundle schema - no markdown, no prose o
    - No avoidTerms in title/tags/descriptionSnippet`
       : `1. For each candidate, check if it satisfies the hard constraints:
    - At least one hardTerm in title/productType/tags/descriptionSnippet
-   - All hardFacets match (size/color/material in candidate arrays)
+   - All hardFacets match (size/color/material in candidate arrays, other facets in optionValues/title/tags)
    - No avoidTerms in title/tags/descriptionSnippet`;
     
     return `Shopper Intent:
@@ -1380,6 +1321,7 @@ ${matchingRequirements}
    - Exact handle (MUST match EXACTLY from allowedHandles above - case-sensitive, identical string)
    - Label: "exact" if all constraints satisfied, "good" or "fallback" if trustFallback=true
    - Score: 0-100 based on match quality
+   - Reason: one short sentence for the shopper on why this product fits (see REASONS)
 
 CRITICAL: Handles must match EXACTLY from allowedHandles. Do NOT invent, modify, prefix, or alter handles.
 
@@ -1397,8 +1339,9 @@ Return ONLY the JSON object matching the schema - no markdown, no prose outside
         handle: { type: "string" },
         score: { type: "number", minimum: 0, maximum: 100 },
         label: { type: "string", enum: ["exact", "good", "fallback"] },
+        reason: { type: "string" },
       },
-      required: ["handle", "score", "label"],
+      required: ["handle", "score", "label", "reason"],
       additionalProperties: false,
     };
     
@@ -1526,9 +1469,6 @@ Return ONLY the JSON object matching the schema - no markdown, no prose outside
         console.log("[AI Ranking] First attempt using compressed prompt (adaptive compression)");
       }
 
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
       // Determine API endpoint based on structured outputs support
       let apiUsed: "chat";
       // Use ONLY Chat Completions API with structured outputs (json_schema)
@@ -1637,59 +1577,37 @@ Return ONLY the JSON object matching the schema - no markdown, no prose outside
         console.warn("[AI Ranking] Model does not support json_schema, falling back to json_object mode");
       }
 
-      // Use OpenAI SDK for structured parsing with strict JSON schema
-      const openai = new OpenAI({
-        apiKey: apiKey,
-        timeout: timeoutMs,
-      });
-
-      // Build SDK request parameters (matching requestBody for logging consistency)
-      const sdkRequestParams = {
-        model: model,
-        messages: messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
-        response_format: supportsJsonSchema ? {
-          type: "json_schema" as const,
-          json_schema: {
-            name: isBundle ? "structured_bundle_result" : "structured_ranking_result",
-            strict: true,
-            schema: buildJsonSchema(isBundle),
-          },
-        } : { type: "json_object" as const },
-        temperature: 0,
-        max_tokens: 1400, // Increased to 1400 for all ranking to reduce truncation risk
-      };
-
-      let completion: any; // Use 'any' since parse() returns a different type with parsed output
+      let completion;
       try {
-        // Use chat.completions.parse() for structured outputs - this ensures message.parsed is populated
         console.log("[AI Ranking] max_tokens=1400");
         console.log("[AI Ranking] include_description_snippets=true snippet_max_chars=400");
         console.log("[AI Ranking] schema=minimal_v1");
-        if (supportsJsonSchema) {
-          // Use parse() method for structured outputs with json_schema
-          completion = await openai.chat.completions.parse({
-            model: model,
-            messages: messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
-            response_format: {
-              type: "json_schema" as const,
-              json_schema: {
-                name: isBundle ? "structured_bundle_result" : "structured_ranking_result",
-                strict: true,
-                schema: buildJsonSchema(isBundle),
-              },
-            },
-            temperature: 0,
-            max_tokens: 1400,
-          });
-        } else {
-          // Fallback to create() for json_object mode (parse() requires json_schema)
-          completion = await openai.chat.completions.create(sdkRequestParams);
+        // Single provider attempt per loop iteration - retries here shrink the prompt, so the loop owns them
+        completion = await llmChat({
+          purpose: "ranking",
+          model,
+          messages,
+          ...(supportsJsonSchema
+            ? {
+                jsonSchema: {
+                  name: isBundle ? "structured_bundle_result" : "structured_ranking_result",
+                  strict: true,
+                  schema: buildJsonSchema(isBundle),
+                },
+              }
+            : { jsonObject: true }),
+          temperature: 0,
+          maxTokens: 1400, // Increased to 1400 for all ranking to reduce truncation risk
+          timeoutMs,
+          retries: 0,
+        }, llmProvider);
+      } catch (providerError) {
+        if (!(providerError instanceof LLMProviderError)) {
+          throw providerError;
         }
-      } catch (sdkError: any) {
-        clearTimeout(timeoutId);
         
         // Handle timeout/abort
-        if (sdkError.name === "AbortError" || controller.signal.aborted || sdkError.message?.includes("timeout")) {
+        if (providerError.kind === "timeout") {
           lastError = new Error(`Request timeout after ${timeoutMs}ms`);
           lastParseFailReason = `Request timeout after ${timeoutMs}ms`;
           responseStatus = null;
@@ -1698,38 +1616,33 @@ Return ONLY the JSON object matching the schema - no markdown, no prose outside
         }
         
         // Handle API errors
-        if (sdkError.status) {
-          responseStatus = sdkError.status;
-          responseId = sdkError.request_id || null;
-          const errorType = sdkError.type || null;
-          const errorCode = sdkError.code || null;
+        if (providerError.kind === "http" && providerError.status) {
+          responseStatus = providerError.status;
+          responseId = providerError.requestId;
           let failReason = `HTTP ${responseStatus}`;
-          if (errorType) failReason += ` ${errorType}`;
-          if (errorCode) failReason += ` (${errorCode})`;
+          if (providerError.type) failReason += ` ${providerError.type}`;
+          if (providerError.code) failReason += ` (${providerError.code})`;
           
           console.log("[AI Ranking] attempt=", attempt + 1, "status=", responseStatus, "fail_type=http fail_reason=", failReason, responseId ? `response_id=${responseId}` : "");
-          lastError = sdkError;
+          lastError = providerError;
           lastParseFailReason = failReason;
           continue; // Try again if retries remaining
         }
         
-        // Re-throw other errors
-        throw sdkError;
+        // Re-throw other errors (network, config, missing fixture)
+        throw providerError;
       }
-
-      clearTimeout(timeoutId);
       
       // Extract response metadata
-      responseStatus = 200; // SDK handles HTTP, assume success if we got here
+      responseStatus = 200; // Provider handles HTTP, assume success if we got here
       responseId = completion.id || null;
       bodyResponseId = completion.id || null;
       
-      // Parse structured output from SDK
-      // With strict JSON schema, the SDK provides parsed output in message.parsed
+      // Parse structured output from provider
+      // With strict JSON schema, the provider returns JSON-parsed content in completion.parsed
       let structuredResult: StructuredRankingResult | StructuredBundleResult | null = null;
       
-      const message = completion.choices?.[0]?.message;
-      if (!message) {
+      if (completion.content === null && !completion.refusal) {
         const parseResponseId = completion.id || responseId || bodyResponseId || null;
         console.log("[AI Ranking] attempt=", attempt + 1, "status=", responseStatus || "unknown", "fail_type=parse fail_reason=No message in choices", parseResponseId ? `response_id=${parseResponseId}` : "");
         lastError = new Error("No message in choices array");
@@ -1738,7 +1651,7 @@ Return ONLY the JSON object matching the schema - no markdown, no prose outside
       }
       
       // Check for refusal
-      if (message.refusal) {
+      if (completion.refusal) {
         const refusalResponseId = completion.id || responseId || bodyResponseId || null;
         console.log("[AI Ranking] attempt=", attempt + 1, "status=", responseStatus || "unknown", "fail_type=parse fail_reason=Model refusal", refusalResponseId ? `response_id=${refusalResponseId}` : "");
         console.log("[AI Ranking] Model refused to generate structured output");
@@ -1747,29 +1660,15 @@ Return ONLY the JSON object matching the schema - no markdown, no prose outside
         continue; // Try again if retries remaining
       }
 
-      // Use parsed output from SDK (structured outputs with strict schema)
-      // When using parse() method, message.parsed is guaranteed to be populated for json_schema mode
-      const messageWithParsed = message as any; // Type assertion to access parsed property
-      
-      if (messageWithParsed.parsed) {
-        // SDK parse() method provides parsed output directly (structured outputs with strict schema)
-        structuredResult = messageWithParsed.parsed as StructuredRankingResult | StructuredBundleResult;
-        console.log("[AI Ranking] structured_outputs=true");
+      if (completion.parsed && typeof completion.parsed === "object") {
+        structuredResult = completion.parsed as StructuredRankingResult | StructuredBundleResult;
+        console.log(`[AI Ranking] structured_outputs=${supportsJsonSchema}`);
         console.log("[AI Ranking] parsed_output=true");
-      } else if (supportsJsonSchema) {
-        // This should not happen with parse() method - treat as failure
-        const parseResponseId = bodyResponseId || responseId || null;
-        console.log("[AI Ranking] attempt=", attempt + 1, "status=", responseStatus || "unknown", "fail_type=parse fail_reason=Missing parsed output from SDK parse() method", parseResponseId ? `response_id=${parseResponseId}` : "");
-        lastError = new Error("Missing parsed output from SDK parse() method");
-        lastParseFailReason = "Missing parsed output from SDK parse() method";
-        continue; // This will eventually fallback after MAX_RETRIES
       } else {
-        // For json_object fallback mode, we used create() not parse(), so parsed won't exist
-        // This is an extreme safety fallback - should not normally reach here
         const parseResponseId = bodyResponseId || responseId || null;
-        console.log("[AI Ranking] attempt=", attempt + 1, "status=", responseStatus || "unknown", "fail_type=parse fail_reason=No parsed output (json_object fallback mode)", parseResponseId ? `response_id=${parseResponseId}` : "");
-        lastError = new Error("No parsed output (json_object fallback mode)");
-        lastParseFailReason = "No parsed output (json_object fallback mode)";
+        console.log("[AI Ranking] attempt=", attempt + 1, "status=", responseStatus || "unknown", "fail_type=parse fail_reason=Response content is not valid JSON", completion.finishReason ? `finish_reason=${completion.finishReason}` : "", parseResponseId ? `response_id=${parseResponseId}` : "");
+        lastError = new Error("Response content is not valid JSON");
+        lastParseFailReason = "Response content is not valid JSON";
         continue; // This will eventually fallback after MAX_RETRIES
       }
 
@@ -2363,10 +2262,7 @@ Return ONLY the JSON object matching the schema - no markdown, no prose outside
       if (!trustFallback && hardTerms.length > 0) {
         const matchedTerms = [...new Set(validSelectedItems.flatMap(item => item.evidence?.matchedHardTerms || []))];
         const primaryTerms = matchedTerms.slice(0, 2).join(" and ");
-        const facetParts: string[] = [];
-        if (hardFacetsForPrompt.size) facetParts.push(hardFacetsForPrompt.size.join(" or "));
-        if (hardFacetsForPrompt.color) facetParts.push(hardFacetsForPrompt.color.join(" or "));
-        if (hardFacetsForPrompt.material) facetParts.push(hardFacetsForPrompt.material.join(" or "));
+        const facetParts = Object.values(hardFacetsForPrompt).map((values) => values.join(" or "));
             const facetsText = facetParts.length > 0 ? ` in ${facetParts.join(", ")}` : "";
             reasoning = `I've curated a selection of ${primaryTerms}${facetsText} that perfectly match what you're looking for.`;
       } else if (trustFallback && hardTerms.length > 0) {
@@ -2380,30 +2276,26 @@ Return ONLY the JSON object matching the schema - no markdown, no prose outside
       // Final cleanup of reasoning
       reasoning = cleanReasoning(reasoning) || reasoning; // Use original if cleaning removes everything
 
+      // Per-product reasons for the result cards (products without one get a deterministic explanation later)
+      const productReasons: ProductExplanations = {};
+      for (const item of validSelectedItems.slice(0, resultCount)) {
+        const reason = cleanProductExplanation(item.reason);
+        if (reason) productReasons[item.handle.trim()] = reason;
+      }
+
       console.log("[AI Ranking] source=ai trustFallback=", trustFallback, "final_result_source=ai");
       console.log("[AI Ranking] Successfully ranked", selectedHandles.length, "products");
       
       // Cache the result for future requests (best-effort, don't block)
-      if (shopId) {
-        const cacheKey = generateCacheKey(
-          userIntent,
-          candidates,
-          resultCount,
-          variantConstraints,
-          variantPreferences,
-          includeTerms,
-          avoidTerms
-        );
-        // Store in cache asynchronously (don't await, don't block return)
-        setCachedRanking(
-          cacheKey,
-          shopId,
+      if (cacheScope && cacheKey) {
+        setCachedRanking(cacheScope, cacheKey, {
           userIntent,
-          candidates,
+          candidateHandles: candidates.map(c => c.handle),
           selectedHandles,
-          reasoning || null,
-          resultCount
-        ).catch(err => {
+          reasoning: reasoning || null,
+          productReasons,
+          resultCount,
+        }).catch(err => {
           console.error("[AI Ranking] Error caching result (non-blocking):", err);
         });
       }
@@ -2415,6 +2307,7 @@ Return ONLY the JSON object matching the schema - no markdown, no prose outside
       return {
         selectedHandles,
         reasoning: reasoning || null,
+        productReasons,
         trustFallback,
         source: "ai",
         parseFailReason: null,
@@ -2437,7 +2330,7 @@ Return ONLY the JSON object matching the schema - no markdown, no prose outside
       const errorParam = error?.param || error?.error?.param || null;
       
       // Get request payload keys for debugging (without logging full content)
-      // Use requestBody for logging (built above, matches SDK request)
+      // Use requestBody for logging (built above, matches provider request)
       const requestPayloadKeys = requestBody ? Object.keys(requestBody) : [];
       const responseFormatKeys = requestBody?.response_format ? Object.keys(requestBody.response_format) : [];
       
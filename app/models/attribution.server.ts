@@ -56,8 +56,9 @@ export async function upsertAttributionAttempt(params: {
   sessionToken: string | null;
   cartToken?: string | null;
   checkoutToken?: string | null;
+  visitorId?: string | null;
 }): Promise<void> {
-  const { shopId, sessionId, sessionToken, cartToken, checkoutToken } = params;
+  const { shopId, sessionId, sessionToken, cartToken, checkoutToken, visitorId } = params;
 
   // Determine deduplication key: prefer checkoutToken, fallback to cartToken
   let existing: any = null;
@@ -89,6 +90,7 @@ export async function upsertAttributionAttempt(params: {
         sessionToken: sessionToken || existing.sessionToken,
         cartToken: cartToken || existing.cartToken,
         checkoutToken: checkoutToken || existing.checkoutToken,
+        visitorId: visitorId || existing.visitorId,
       },
     });
   } else {
@@ -100,6 +102,7 @@ export async function upsertAttributionAttempt(params: {
         sessionToken: sessionToken || null,
         cartToken: cartToken || null,
         checkoutToken: checkoutToken || null,
+        visitorId: visitorId || null,
       },
     });
   }
@@ -117,6 +120,9 @@ export async function upsertOrderAttribution(params: {
   totalPrice: string;
   currencyCode: string | null;
   orderNumber?: string | null;
+  experienceId?: string | null;
+  matchedBy?: "checkout_token" | "cart_token" | null;
+  touches?: AttributionTouch[];
 }): Promise<void> {
   const {
     shopId,
@@ -127,6 +133,9 @@ export async function upsertOrderAttribution(params: {
     totalPrice,
     currencyCode,
     orderNumber,
+    experienceId,
+    matchedBy,
+    touches,
   } = params;
 
   // Check if already exists (using unique constraint would handle this, but we check explicitly)
@@ -150,10 +159,455 @@ export async function upsertOrderAttribution(params: {
       orderNumber: orderNumber || null,
       sessionId: sessionId || null,
       sessionToken: sessionToken || null,
+      experienceId: experienceId || null,
+      matchedBy: matchedBy || null,
       attributionType,
       totalPrice,
       currencyCode: currencyCode || null,
+      ...(touches && touches.length > 0 ? { touches: { create: touches } } : {}),
     },
   });
 }
 
+/**
+ * Order attribution (opt-in). Off by default so the app stays at PCD Level 0:
+ * the orders/create webhook is only registered for shops that grant the optional read_orders scope.
+ */
+export const ORDER_ATTRIBUTION_SCOPE = "read_orders";
+
+export type ParsedOrder = {
+  orderId: string; // gid://shopify/Order/123
+  orderNumber: string | null;
+  cartToken: string | null;
+  checkoutToken: string | null;
+  totalPrice: string; // Shop currency, so totals across orders add up
+  currencyCode: string | null;
+  productGids: string[];
+};
+
+type MoneyPayload = { amount?: string | number; currency_code?: string };
+
+type OrderWebhookPayload = {
+  id?: string | number;
+  admin_graphql_api_id?: string;
+  name?: string;
+  order_number?: string | number;
+  cart_token?: string | null;
+  checkout_token?: string | null;
+  total_price?: string | number;
+  currency?: string;
+  total_price_set?: { shop_money?: MoneyPayload; presentment_money?: MoneyPayload };
+  line_items?: Array<{ product_id?: string | number | null }>;
+};
+
+type AdminGraphQLClient = {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
+};
+
+/**
+ * Cart tokens from the storefront may carry a "?key=..." suffix that orders do not
+ */
+export function normalizeCartToken(token: string | null | undefined): string | null {
+  if (!token) return null;
+  const base = token.split("?")[0].trim();
+  return base || null;
+}
+
+/**
+ * Keeps only the orders/create fields attribution needs (no customer, address or payment data)
+ */
+export function parseOrderWebhook(payload: unknown): ParsedOrder | null {
+  if (!payload || typeof payload !== "object") return null;
+  const order = payload as OrderWebhookPayload;
+  if (order.id == null && !order.admin_graphql_api_id) return null;
+
+  const lineItems = Array.isArray(order.line_items) ? order.line_items : [];
+  const productGids = Array.from(
+    new Set(
+      lineItems
+        .filter((item) => item?.product_id != null)
+        .map((item) => `gid://shopify/Product/${item.product_id}`)
+    )
+  );
+
+  // The shop-money total: orders placed in other presentment currencies still sum to one figure
+  const shopMoney = order.total_price_set?.shop_money;
+  const shopTotal = shopMoney?.amount != null && shopMoney.currency_code
+    ? { amount: String(shopMoney.amount), currencyCode: shopMoney.currency_code }
+    : null;
+
+  return {
+    orderId: typeof order.admin_graphql_api_id === "string" ? order.admin_graphql_api_id : `gid://shopify/Order/${order.id}`,
+    orderNumber: typeof order.name === "string" ? order.name : order.order_number != null ? String(order.order_number) : null,
+    cartToken: normalizeCartToken(order.cart_token),
+    checkoutToken: typeof order.checkout_token === "string" && order.checkout_token ? order.checkout_token : null,
+    totalPrice: shopTotal ? shopTotal.amount : order.total_price != null ? String(order.total_price) : "0",
+    currencyCode: shopTotal ? shopTotal.currencyCode : typeof order.currency === "string" ? order.currency : null,
+    productGids,
+  };
+}
+
+/**
+ * "direct" when the order contains a product the session recommended, else "assisted"
+ */
+export function classifyOrderAttribution(orderProductGids: string[], recommendedProductGids: Set<string>): "direct" | "assisted" {
+  return orderProductGids.some((gid) => recommendedProductGids.has(gid)) ? "direct" : "assisted";
+}
+
+/**
+ * Latest attempt for the order: checkout token first (exact), then cart token
+ */
+async function findAttemptForOrder(shopId: string, order: ParsedOrder) {
+  if (order.checkoutToken) {
+    const byCheckout = await prisma.attributionAttempt.findFirst({
+      where: { shopId, checkoutToken: order.checkoutToken },
+      orderBy: { createdAt: "desc" },
+    });
+    if (byCheckout) return { attempt: byCheckout, matchedBy: "checkout_token" as const };
+  }
+
+  if (order.cartToken) {
+    const byCart = await prisma.attributionAttempt.findFirst({
+      where: {
+        shopId,
+        OR: [{ cartToken: order.cartToken }, { cartToken: { startsWith: `${order.cartToken}?` } }],
+      },
+      orderBy: { createdAt: "desc" },
+    });
+    if (byCart) return { attempt: byCart, matchedBy: "cart_token" as const };
+  }
+
+  return null;
+}
+
+/**
+ * Attribution settings (per shop): how far back sessions earn credit, and how credit is split between them
+ */
+export type AttributionModel = "last_touch" | "first_touch" | "linear";
+
+export const ATTRIBUTION_MODELS: AttributionModel[] = ["last_touch", "first_touch", "linear"];
+export const ATTRIBUTION_WINDOWS = [1, 7, 30];
+const MAX_ATTRIBUTION_WINDOW_DAYS = 30; // Touches are recorded for the widest window so settings can change later
+
+export type AttributionSettings = { windowDays: number; model: AttributionModel };
+
+export function resolveAttributionSettings(shop: { attributionWindowDays?: number | null; attributionModel?: string | null }): AttributionSettings {
+  const windowDays = ATTRIBUTION_WINDOWS.includes(shop.attributionWindowDays ?? -1) ? (shop.attributionWindowDays as number) : 7;
+  const model = (ATTRIBUTION_MODELS as string[]).includes(shop.attributionModel || "") ? (shop.attributionModel as AttributionModel) : "last_touch";
+  return { windowDays, model };
+}
+
+export type AttributionTouch = {
+  sessionId: string;
+  experienceId: string | null;
+  touchedAt: Date;
+  direct: boolean; // The session recommended a product in the order
+};
+
+/**
+ * Splits one order's credit across the touches inside the window (weights sum to 1, or no touches)
+ */
+export function allocateAttributionCredit(
+  touches: AttributionTouch[],
+  orderCreatedAt: Date,
+  settings: AttributionSettings
+): Array<AttributionTouch & { weight: number }> {
+  const windowStart = orderCreatedAt.getTime() - settings.windowDays * 24 * 60 * 60 * 1000;
+  const inWindow = touches
+    .filter((t) => t.touchedAt.getTime() >= windowStart && t.touchedAt.getTime() <= orderCreatedAt.getTime())
+    .sort((a, b) => a.touchedAt.getTime() - b.touchedAt.getTime());
+  if (inWindow.length === 0) return [];
+
+  if (settings.model === "first_touch") return [{ ...inWindow[0], weight: 1 }];
+  if (settings.model === "linear") return inWindow.map((t) => ({ ...t, weight: 1 / inWindow.length }));
+  return [{ ...inWindow[inWindow.length - 1], weight: 1 }];
+}
+
+export async function updateAttributionSettings(shopId: string, settings: { windowDays: number; model: string }): Promise<AttributionSettings> {
+  if (!ATTRIBUTION_WINDOWS.includes(settings.windowDays)) {
+    throw new Error(`Attribution window must be one of ${ATTRIBUTION_WINDOWS.join(", ")} days`);
+  }
+  if (!(ATTRIBUTION_MODELS as string[]).includes(settings.model)) {
+    throw new Error(`Unknown attribution model: ${settings.model}`);
+  }
+  await prisma.shop.update({
+    where: { id: shopId },
+    data: { attributionWindowDays: settings.windowDays, attributionModel: settings.model },
+  });
+  return { windowDays: settings.windowDays, model: settings.model as AttributionModel };
+}
+
+/**
+ * Maps each session's recommended handles to product gids via the local catalog index
+ */
+async function getRecommendedProductGidsBySession(
+  shopId: string,
+  sessions: Array<{ id: string; result: { productHandles: unknown } | null }>
+): Promise<Map<string, Set<string>>> {
+  const handlesBySession = new Map<string, string[]>();
+  for (const session of sessions) {
+    const handles = session.result?.productHandles;
+    handlesBySession.set(session.id, Array.isArray(handles) ? handles.filter((h): h is string => typeof h === "string") : []);
+  }
+
+  const allHandles = Array.from(new Set(Array.from(handlesBySession.values()).flat()));
+  const products = allHandles.length > 0
+    ? await prisma.catalogProduct.findMany({
+        where: { shopId, handle: { in: allHandles } },
+        select: { handle: true, productGid: true },
+      })
+    : [];
+  const gidByHandle = new Map(products.map((p) => [p.handle, p.productGid]));
+
+  const result = new Map<string, Set<string>>();
+  for (const [sessionId, handles] of handlesBySession) {
+    result.set(sessionId, new Set(handles.map((h) => gidByHandle.get(h)).filter((gid): gid is string => !!gid)));
+  }
+  return result;
+}
+
+/**
+ * orders/create handler: matches the order to an AttributionAttempt and records an OrderAttribution
+ * with one touch per session the visitor ran in the last 30 days. Orders without a matching attempt are not stored.
+ */
+export async function recordOrderFromWebhook(
+  shopDomain: string,
+  payload: unknown
+): Promise<{ status: "disabled" | "invalid" | "unmatched" | "attributed"; attributionType?: "direct" | "assisted"; touches?: number }> {
+  const shop = await prisma.shop.findUnique({
+    where: { domain: shopDomain },
+    select: { id: true, orderAttributionEnabled: true },
+  });
+  if (!shop || !shop.orderAttributionEnabled) return { status: "disabled" };
+
+  const order = parseOrderWebhook(payload);
+  if (!order) return { status: "invalid" };
+
+  const match = await findAttemptForOrder(shop.id, order);
+  if (!match) return { status: "unmatched" };
+
+  const sessionSelect = { id: true, publicToken: true, experienceId: true, visitorId: true, createdAt: true, result: { select: { productHandles: true } } };
+  const matchedSession = await prisma.conciergeSession.findFirst({
+    where: { id: match.attempt.sessionId, shopId: shop.id },
+    select: sessionSelect,
+  });
+
+  // Every session the visitor ran in the widest window (the matched session is always a touch)
+  const now = new Date();
+  const visitorId = match.attempt.visitorId || matchedSession?.visitorId || null;
+  const visitorSessions = visitorId
+    ? await prisma.conciergeSession.findMany({
+        where: {
+          shopId: shop.id,
+          visitorId,
+          createdAt: { gte: new Date(now.getTime() - MAX_ATTRIBUTION_WINDOW_DAYS * 24 * 60 * 60 * 1000), lte: now },
+        },
+        select: sessionSelect,
+      })
+    : [];
+  const sessions = [...visitorSessions];
+  if (matchedSession && !sessions.some((s) => s.id === matchedSession.id)) sessions.push(matchedSession);
+
+  const recommendedBySession = await getRecommendedProductGidsBySession(shop.id, sessions);
+  const touches: AttributionTouch[] = sessions.map((s) => ({
+    sessionId: s.id,
+    experienceId: s.experienceId,
+    touchedAt: s.createdAt,
+    direct: classifyOrderAttribution(order.productGids, recommendedBySession.get(s.id) || new Set()) === "direct",
+  }));
+
+  // The row's own type reflects the matched session; reports re-derive it from the credited touches
+  const attributionType = touches.find((t) => t.sessionId === matchedSession?.id)?.direct ? "direct" : "assisted";
+
+  await upsertOrderAttribution({
+    shopId: shop.id,
+    orderId: order.orderId,
+    orderNumber: order.orderNumber,
+    sessionId: matchedSession?.id || match.attempt.sessionId,
+    sessionToken: matchedSession?.publicToken || match.attempt.sessionToken,
+    experienceId: matchedSession?.experienceId || null,
+    matchedBy: match.matchedBy,
+    attributionType,
+    totalPrice: order.totalPrice,
+    currencyCode: order.currencyCode,
+    touches,
+  });
+
+  await prisma.attributionAttempt.update({
+    where: { id: match.attempt.id },
+    data: { matchedAt: now },
+  });
+
+  return { status: "attributed", attributionType, touches: touches.length };
+}
+
+export type AttributedRevenueRow = {
+  experienceId: string | null;
+  experienceName: string;
+  orders: number; // Credited orders (fractional under the linear model)
+  directOrders: number;
+  assistedOrders: number;
+  revenue: number;
+  currencyCode: string | null;
+};
+
+export type AttributionReport = {
+  settings: AttributionSettings;
+  totals: { orders: number; directOrders: number; assistedOrders: number; revenue: number; currencyCode: string | null };
+  byExperience: AttributedRevenueRow[];
+};
+
+/**
+ * Attributed orders and revenue in a date range under the shop's window and model.
+ * Used by the dashboard and its CSV export so both report the same numbers.
+ */
+export async function getAttributionReport(shopId: string, from: Date, to: Date): Promise<AttributionReport> {
+  const shop = await prisma.shop.findUnique({
+    where: { id: shopId },
+    select: { attributionWindowDays: true, attributionModel: true },
+  });
+  const settings = resolveAttributionSettings(shop || {});
+  const report: AttributionReport = {
+    settings,
+    totals: { orders: 0, directOrders: 0, assistedOrders: 0, revenue: 0, currencyCode: null },
+    byExperience: [],
+  };
+
+  const orders = await prisma.orderAttribution.findMany({
+    where: { shopId, createdAt: { gte: from, lte: to }, attributionType: { in: ["direct", "assisted"] } },
+    select: { sessionId: true, experienceId: true, attributionType: true, totalPrice: true, currencyCode: true, createdAt: true, touches: true },
+  });
+  if (orders.length === 0) return report;
+
+  const rows = new Map<string, AttributedRevenueRow>();
+  for (const order of orders) {
+    // Orders recorded before multi-touch carry only their matched session
+    const touches: AttributionTouch[] = order.touches.length > 0
+      ? order.touches
+      : [{ sessionId: order.sessionId || "", experienceId: order.experienceId, touchedAt: order.createdAt, direct: order.attributionType === "direct" }];
+    const credits = allocateAttributionCredit(touches, order.createdAt, settings);
+    if (credits.length === 0) continue; // No session inside the window
+
+    const total = parseFloat(order.totalPrice) || 0;
+    const orderIsDirect = credits.some((c) => c.direct);
+    report.totals.orders++;
+    report.totals.revenue += total;
+    if (orderIsDirect) report.totals.directOrders++;
+    else report.totals.assistedOrders++;
+    report.totals.currencyCode = report.totals.currencyCode || order.currencyCode;
+
+    for (const credit of credits) {
+      const key = credit.experienceId || "none";
+      const row = rows.get(key) ?? {
+        experienceId: credit.experienceId,
+        experienceName: "",
+        orders: 0,
+        directOrders: 0,
+        assistedOrders: 0,
+        revenue: 0,
+        currencyCode: order.currencyCode,
+      };
+      row.orders += credit.weight;
+      if (credit.direct) row.directOrders += credit.weight;
+      else row.assistedOrders += credit.weight;
+      row.revenue += total * credit.weight;
+      rows.set(key, row);
+    }
+  }
+
+  const experienceIds = Array.from(rows.values()).map((r) => r.experienceId).filter((id): id is string => !!id);
+  const experiences = experienceIds.length > 0
+    ? await prisma.experience.findMany({ where: { id: { in: experienceIds } }, select: { id: true, name: true } })
+    : [];
+  const names = new Map(experiences.map((e) => [e.id, e.name]));
+  for (const row of rows.values()) {
+    row.experienceName = row.experienceId ? names.get(row.experienceId) || "Deleted experience" : "No experience";
+  }
+
+  report.byExperience = Array.from(rows.values()).sort((a, b) => b.revenue - a.revenue);
+  return report;
+}
+
+async function adminGraphQLData<T>(admin: AdminGraphQLClient, query: string, variables?: Record<string, unknown>): Promise<T | undefined> {
+  const response = await admin.graphql(query, { variables: variables || {} });
+  const body = (await response.json()) as { data?: T; errors?: unknown };
+  if (body.errors) {
+    throw new Error(`GraphQL errors: ${JSON.stringify(body.errors)}`);
+  }
+  return body.data;
+}
+
+type UserError = { field: string[] | null; message: string };
+
+/**
+ * Turns order attribution on: verifies read_orders was granted and registers the shop's orders/create webhook
+ */
+export async function enableOrderAttribution(admin: AdminGraphQLClient, shopId: string, appUrl: string): Promise<void> {
+  const scopes = await adminGraphQLData<{ currentAppInstallation: { accessScopes: Array<{ handle: string }> } }>(admin, `#graphql
+    query { currentAppInstallation { accessScopes { handle } } }
+  `);
+  const granted = (scopes?.currentAppInstallation?.accessScopes || []).map((s) => s.handle);
+  if (!granted.includes(ORDER_ATTRIBUTION_SCOPE)) {
+    throw new Error("The read_orders permission has not been granted");
+  }
+
+  const shop = await prisma.shop.findUnique({ where: { id: shopId }, select: { orderWebhookSubscriptionId: true } });
+  let subscriptionId = shop?.orderWebhookSubscriptionId || null;
+
+  if (!subscriptionId) {
+    const data = await adminGraphQLData<{
+      webhookSubscriptionCreate: { webhookSubscription: { id: string } | null; userErrors: UserError[] };
+    }>(admin, `#graphql
+      mutation webhookSubscriptionCreate($topic: WebhookSubscriptionTopic!, $webhookSubscription: WebhookSubscriptionInput!) {
+        webhookSubscriptionCreate(topic: $topic, webhookSubscription: $webhookSubscription) {
+          webhookSubscription { id }
+          userErrors { field message }
+        }
+      }
+    `, {
+      topic: "ORDERS_CREATE",
+      webhookSubscription: { callbackUrl: `${appUrl.replace(/\/$/, "")}/webhooks/orders/create`, format: "JSON" },
+    });
+    const userErrors = data?.webhookSubscriptionCreate?.userErrors || [];
+    if (userErrors.length > 0) {
+      throw new Error(`Failed to register orders/create webhook: ${userErrors.map((e) => e.message).join(", ")}`);
+    }
+    subscriptionId = data?.webhookSubscriptionCreate?.webhookSubscription?.id || null;
+  }
+
+  await prisma.shop.update({
+    where: { id: shopId },
+    data: { orderAttributionEnabled: true, orderWebhookSubscriptionId: subscriptionId },
+  });
+  console.log("[Attribution] Order attribution enabled", { shopId, subscriptionId });
+}
+
+/**
+ * Turns order attribution off and removes the orders/create webhook (back to PCD Level 0).
+ * Already recorded OrderAttribution rows are kept.
+ */
+export async function disableOrderAttribution(admin: AdminGraphQLClient | null, shopId: string): Promise<void> {
+  const shop = await prisma.shop.findUnique({ where: { id: shopId }, select: { orderWebhookSubscriptionId: true } });
+
+  if (admin && shop?.orderWebhookSubscriptionId) {
+    try {
+      await adminGraphQLData(admin, `#graphql
+        mutation webhookSubscriptionDelete($id: ID!) {
+          webhookSubscriptionDelete(id: $id) {
+            deletedWebhookSubscriptionId
+            userErrors { field message }
+          }
+        }
+      `, { id: shop.orderWebhookSubscriptionId });
+    } catch (error) {
+      // The subscription may already be gone (e.g. scope revoked); the handler ignores disabled shops anyway
+      console.error("[Attribution] Failed to delete orders/create webhook:", error);
+    }
+  }
+
+  await prisma.shop.update({
+    where: { id: shopId },
+    data: { orderAttributionEnabled: false, orderWebhookSubscriptionId: null },
+  });
+  console.log("[Attribution] Order attribution disabled", { shopId });
+}
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for order attribution helpers
+ * orders/create parsing, cart token normalization, direct / assisted classification and multi-touch credit
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  allocateAttributionCredit,
+  classifyOrderAttribution,
+  normalizeCartToken,
+  parseOrderWebhook,
+  resolveAttributionSettings,
+  type AttributionTouch,
+} from "./attribution.server";
+
+describe("parseOrderWebhook", () => {
+  it("keeps only the fields attribution needs", () => {
+    const order = parseOrderWebhook({
+      id: 820982911946154500,
+      admin_graphql_api_id: "gid://shopify/Order/820982911946154500",
+      name: "#1001",
+      cart_token: "c1-abc123?key=secret",
+      checkout_token: "chk_456",
+      total_price: "129.90",
+      currency: "EUR",
+      customer: { email: "john@example.com" },
+      line_items: [{ product_id: 111 }, { product_id: 222 }, { product_id: 111 }, { product_id: null }],
+    });
+
+    expect(order).toEqual({
+      orderId: "gid://shopify/Order/820982911946154500",
+      orderNumber: "#1001",
+      cartToken: "c1-abc123",
+      checkoutToken: "chk_456",
+      totalPrice: "129.90",
+      currencyCode: "EUR",
+      productGids: ["gid://shopify/Product/111", "gid://shopify/Product/222"],
+    });
+  });
+
+  it("records the shop-money total for orders in another presentment currency", () => {
+    const order = parseOrderWebhook({
+      id: 7,
+      total_price: "129.90",
+      currency: "EUR",
+      total_price_set: {
+        shop_money: { amount: "139.50", currency_code: "USD" },
+        presentment_money: { amount: "129.90", currency_code: "EUR" },
+      },
+    });
+    expect(order?.totalPrice).toBe("139.50");
+    expect(order?.currencyCode).toBe("USD");
+  });
+
+  it("builds the order gid from the numeric id and rejects empty payloads", () => {
+    expect(parseOrderWebhook({ id: 42, total_price: 10 })?.orderId).toBe("gid://shopify/Order/42");
+    expect(parseOrderWebhook({})).toBeNull();
+    expect(parseOrderWebhook(null)).toBeNull();
+  });
+});
+
+describe("normalizeCartToken", () => {
+  it("strips the key suffix storefront cart tokens carry", () => {
+    expect(normalizeCartToken("c1-abc123?key=secret")).toBe("c1-abc123");
+    expect(normalizeCartToken("c1-abc123")).toBe("c1-abc123");
+    expect(normalizeCartToken("")).toBeNull();
+    expect(normalizeCartToken(null)).toBeNull();
+  });
+});
+
+describe("classifyOrderAttribution", () => {
+  const recommended = new Set(["gid://shopify/Product/111"]);
+
+  it("is direct when the order contains a recommended product", () => {
+    expect(classifyOrderAttribution(["gid://shopify/Product/999", "gid://shopify/Product/111"], recommended)).toBe("direct");
+  });
+
+  it("is assisted otherwise", () => {
+    expect(classifyOrderAttribution(["gid://shopify/Product/999"], recommended)).toBe("assisted");
+    expect(classifyOrderAttribution([], new Set())).toBe("assisted");
+  });
+});
+
+describe("allocateAttributionCredit", () => {
+  const orderAt = new Date("2026-03-10T12:00:00Z");
+  const touch = (sessionId: string, daysBefore: number, direct = false): AttributionTouch => ({
+    sessionId,
+    experienceId: `exp_${sessionId}`,
+    touchedAt: new Date(orderAt.getTime() - daysBefore * 24 * 60 * 60 * 1000),
+    direct,
+  });
+  const touches = [touch("b", 3, true), touch("a", 20), touch("c", 0.5)];
+
+  it("credits the latest session in the window under last touch", () => {
+    const credits = allocateAttributionCredit(touches, orderAt, { windowDays: 7, model: "last_touch" });
+    expect(credits.map((c) => [c.sessionId, c.weight])).toEqual([["c", 1]]);
+  });
+
+  it("credits the earliest session in the window under first touch", () => {
+    expect(allocateAttributionCredit(touches, orderAt, { windowDays: 7, model: "first_touch" })[0].sessionId).toBe("b");
+    expect(allocateAttributionCredit(touches, orderAt, { windowDays: 30, model: "first_touch" })[0].sessionId).toBe("a");
+  });
+
+  it("splits credit evenly under linear", () => {
+    const credits = allocateAttributionCredit(touches, orderAt, { windowDays: 30, model: "linear" });
+    expect(credits.map((c) => c.sessionId)).toEqual(["a", "b", "c"]);
+    expect(credits.reduce((sum, c) => sum + c.weight, 0)).toBeCloseTo(1);
+  });
+
+  it("ignores sessions outside the window or after the order", () => {
+    expect(allocateAttributionCredit([touch("a", 2)], orderAt, { windowDays: 1, model: "last_touch" })).toEqual([]);
+    expect(allocateAttributionCredit([touch("late", -1)], orderAt, { windowDays: 7, model: "linear" })).toEqual([]);
+  });
+});
+
+describe("resolveAttributionSettings", () => {
+  it("falls back to a 7 day last-touch window for unknown values", () => {
+    expect(resolveAttributionSettings({ attributionWindowDays: 30, attributionModel: "linear" })).toEqual({ windowDays: 30, model: "linear" });
+    expect(resolveAttributionSettings({ attributionWindowDays: 14, attributionModel: "u_shaped" })).toEqual({ windowDays: 7, model: "last_touch" });
+  });
+});
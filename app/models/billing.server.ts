@@ -527,6 +527,40 @@ export async function trackUsageEvent(
   });
 }
 
+/**
+ * Credits charged since the start of the current UTC day
+ */
+export async function getCreditsBurnedToday(shopId: string, now: Date = new Date()): Promise<number> {
+  const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const result = await prisma.usageEvent.aggregate({
+    where: { shopId, eventType: "AI_RANKING_EXECUTED", createdAt: { gte: startOfDay } },
+    _sum: { creditsBurned: true },
+  });
+  return result._sum.creditsBurned || 0;
+}
+
+/**
+ * Daily credit spend cap (Shop.dailyCreditCap). Checked when a session starts; sessions already
+ * processing are still delivered and charged, so the cap can be exceeded by those in flight.
+ * retryAfterSeconds is the time until the next UTC day.
+ */
+export async function checkDailyCreditCap(
+  shopId: string,
+  dailyCreditCap: number | null,
+  now: Date = new Date()
+): Promise<{ reached: boolean; usedToday: number; retryAfterSeconds: number }> {
+  if (dailyCreditCap === null || dailyCreditCap === undefined) {
+    return { reached: false, usedToday: 0, retryAfterSeconds: 0 };
+  }
+  const usedToday = await getCreditsBurnedToday(shopId, now);
+  const nextDay = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return {
+    reached: usedToday >= dailyCreditCap,
+    usedToday,
+    retryAfterSeconds: Math.ceil((nextDay - now.getTime()) / 1000),
+  };
+}
+
 /**
  * Get monthly usage for a shop
  */
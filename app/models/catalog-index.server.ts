@@ -0,0 +1,715 @@
+/**
+ * Local product catalog index
+ * Full bulk import at install, kept fresh by product/collection webhooks.
+ * The recommendation pipeline reads candidates from here and falls back to
+ * live Admin API fetches when the index is disabled, not ready, or has no match.
+ */
+
+import prisma from "~/db.server";
+import { apiVersion } from "~/shopify.server";
+import { enqueueEmbeddingRefresh } from "~/models/product-embeddings.server";
+import {
+  fetchShopifyProducts,
+  fetchShopifyProductsBySearchQuery,
+  fetchShopifyProductDescriptionsByHandles,
+  mapGraphQLProductNode,
+  type MappedShopifyProduct,
+} from "~/shopify-admin.server";
+import {
+  attachBulkChildNode,
+  buildCatalogSearchText,
+  extractSearchTermsFromQuery,
+  mapBulkProductNode,
+  mapWebhookProductPayload,
+  toCollectionGid,
+  toGraphQLProductNode,
+  toProductGid,
+  type BulkJsonlLine,
+  type CatalogProductBundle,
+  type ProductWebhookPayload,
+} from "~/utils/catalog-mapping.server";
+
+const BULK_POLL_INTERVAL_MS = 5000;
+const BULK_POLL_TIMEOUT_MS = 30 * 60 * 1000;
+const WRITE_BATCH_SIZE = 50;
+// A "running" import older than this is considered abandoned (e.g. process restarted)
+const STALE_IMPORT_MS = 60 * 60 * 1000;
+
+function scheduleEmbeddingRefresh(shopDomain: string): Promise<void> {
+  // Embeddings are an optional ranking signal; failing to schedule them never fails the catalog write
+  return enqueueEmbeddingRefresh(shopDomain).catch((error) => {
+    console.error("[Catalog Index] Failed to schedule embedding refresh", { shopDomain, error: error instanceof Error ? error.message : String(error) });
+  });
+}
+
+const BULK_PRODUCTS_QUERY = `
+{
+  products {
+    edges {
+      node {
+        id
+        handle
+        title
+        description
+        productType
+        vendor
+        status
+        tags
+        createdAt
+        updatedAt
+        totalInventory
+        onlineStoreUrl
+        featuredImage { url }
+        priceRangeV2 {
+          minVariantPrice { amount currencyCode }
+          maxVariantPrice { amount currencyCode }
+        }
+        options { name position values }
+        category { fullName }
+        variants {
+          edges {
+            node {
+              id
+              title
+              price
+              availableForSale
+              inventoryPolicy
+              position
+              selectedOptions { name value }
+            }
+          }
+        }
+        metafields {
+          edges {
+            node { id namespace key value type }
+          }
+        }
+        collections {
+          edges {
+            node { id handle title }
+          }
+        }
+      }
+    }
+  }
+}
+`;
+
+const PRODUCT_INCLUDE = {
+  variants: true,
+  options: true,
+  metafields: true,
+  collections: { include: { collection: true } },
+} as const;
+
+/**
+ * Checks if pipeline reads from the catalog index
+ * Set FEATURE_CATALOG_INDEX=false to force live Admin API fetching
+ */
+export function isCatalogIndexEnabled(): boolean {
+  const featureFlag = process.env.FEATURE_CATALOG_INDEX;
+  return featureFlag !== "false" && featureFlag !== "0";
+}
+
+type BulkOperationNodeData = {
+  node?: { id?: string; status?: string; errorCode?: string | null; objectCount?: string; url?: string | null } | null;
+};
+
+type BulkOperationRunQueryData = {
+  bulkOperationRunQuery?: {
+    bulkOperation?: { id: string; status: string } | null;
+    userErrors?: Array<{ field?: string[] | null; message: string }>;
+  } | null;
+};
+
+type CollectionProductsPage = {
+  pageInfo?: { hasNextPage: boolean; endCursor: string | null };
+  nodes?: Array<{ id?: string } | null>;
+};
+
+type CollectionProductIdsData = {
+  collection?: { products?: CollectionProductsPage } | null;
+};
+
+async function adminGraphQL<T>(shopDomain: string, accessToken: string, query: string, variables?: Record<string, unknown>): Promise<T | undefined> {
+  const url = `https://${shopDomain}/admin/api/${apiVersion}/graphql.json`;
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "X-Shopify-Access-Token": accessToken,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ query, variables }),
+    redirect: "manual",
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text().catch(() => "");
+    throw new Error(
+      `Shopify GraphQL API error: ${response.status} ${response.statusText}\n` +
+      `URL: ${url}\n` +
+      `Response: ${errorBody.substring(0, 500)}`
+    );
+  }
+
+  const data = (await response.json()) as { data?: T; errors?: unknown };
+  if (data.errors) {
+    throw new Error(`Shopify GraphQL errors: ${JSON.stringify(data.errors)}`);
+  }
+  return data.data;
+}
+
+/**
+ * Writes one product and its child rows
+ * When preserveMissing is true, null fields the source cannot provide (currency, URL, category)
+ * keep their indexed values, and undefined metafields/collections are left untouched
+ */
+async function writeProductBundle(
+  shopId: string,
+  bundle: CatalogProductBundle,
+  options: { syncedAt: Date; preserveMissing: boolean; collectionIdCache?: Map<string, string> }
+): Promise<void> {
+  const { product } = bundle;
+  const searchText = buildCatalogSearchText(product);
+
+  const fields = {
+    handle: product.handle,
+    title: product.title,
+    description: product.description,
+    productType: product.productType,
+    vendor: product.vendor,
+    status: product.status,
+    tags: product.tags,
+    imageUrl: product.imageUrl,
+    onlineStoreUrl: product.onlineStoreUrl,
+    minPrice: product.minPrice,
+    maxPrice: product.maxPrice,
+    currencyCode: product.currencyCode,
+    totalInventory: product.totalInventory,
+    categoryFullName: product.categoryFullName,
+    shopifyCreatedAt: product.shopifyCreatedAt,
+    shopifyUpdatedAt: product.shopifyUpdatedAt,
+    searchText,
+    syncedAt: options.syncedAt,
+  };
+
+  const updateFields: Record<string, unknown> = { ...fields };
+  if (options.preserveMissing) {
+    for (const key of ["onlineStoreUrl", "currencyCode", "categoryFullName", "shopifyCreatedAt"] as const) {
+      if (fields[key] === null) delete updateFields[key];
+    }
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const row = await tx.catalogProduct.upsert({
+      where: { shopId_productGid: { shopId, productGid: product.productGid } },
+      create: { shopId, productGid: product.productGid, ...fields },
+      update: updateFields,
+      select: { id: true },
+    });
+
+    await tx.catalogVariant.deleteMany({ where: { productId: row.id } });
+    if (bundle.variants.length > 0) {
+      await tx.catalogVariant.createMany({
+        data: bundle.variants.map(v => ({ productId: row.id, ...v })),
+        skipDuplicates: true,
+      });
+    }
+
+    await tx.catalogOption.deleteMany({ where: { productId: row.id } });
+    if (bundle.options.length > 0) {
+      await tx.catalogOption.createMany({
+        data: bundle.options.map(o => ({ productId: row.id, ...o })),
+      });
+    }
+
+    if (bundle.metafields !== undefined) {
+      await tx.catalogMetafield.deleteMany({ where: { productId: row.id } });
+      if (bundle.metafields.length > 0) {
+        await tx.catalogMetafield.createMany({
+          data: bundle.metafields.map(mf => ({ productId: row.id, ...mf })),
+          skipDuplicates: true,
+        });
+      }
+    }
+
+    if (bundle.collections !== undefined) {
+      const collectionIds: string[] = [];
+      for (const ref of bundle.collections) {
+        let collectionId = options.collectionIdCache?.get(ref.collectionGid);
+        if (!collectionId) {
+          const collection = await tx.catalogCollection.upsert({
+            where: { shopId_collectionGid: { shopId, collectionGid: ref.collectionGid } },
+            create: { shopId, ...ref },
+            update: { handle: ref.handle, title: ref.title },
+            select: { id: true },
+          });
+          collectionId = collection.id;
+          options.collectionIdCache?.set(ref.collectionGid, collectionId);
+        }
+        collectionIds.push(collectionId);
+      }
+
+      await tx.catalogProductCollection.deleteMany({ where: { productId: row.id } });
+      if (collectionIds.length > 0) {
+        await tx.catalogProductCollection.createMany({
+          data: collectionIds.map(collectionId => ({ productId: row.id, collectionId })),
+          skipDuplicates: true,
+        });
+      }
+    }
+  });
+}
+
+async function pollBulkOperation(shopDomain: string, accessToken: string, operationId: string): Promise<{ status: string; url: string | null; errorCode: string | null; objectCount: number }> {
+  const startedAt = Date.now();
+
+  while (Date.now() - startedAt < BULK_POLL_TIMEOUT_MS) {
+    await new Promise(resolve => setTimeout(resolve, BULK_POLL_INTERVAL_MS));
+
+    const data = await adminGraphQL<BulkOperationNodeData>(
+      shopDomain,
+      accessToken,
+      `query getBulkOperation($id: ID!) {
+        node(id: $id) {
+          ... on BulkOperation { id status errorCode objectCount url }
+        }
+      }`,
+      { id: operationId }
+    );
+
+    const op = data?.node;
+    const status = String(op?.status || "");
+    if (status !== "CREATED" && status !== "RUNNING") {
+      return {
+        status,
+        url: op?.url || null,
+        errorCode: op?.errorCode || null,
+        objectCount: parseInt(op?.objectCount || "0", 10) || 0,
+      };
+    }
+  }
+
+  throw new Error(`Bulk operation ${operationId} did not finish within ${BULK_POLL_TIMEOUT_MS / 60000} minutes`);
+}
+
+/**
+ * Streams a bulk operation JSONL file, invoking onLine for every parsed object
+ */
+async function streamJsonl(url: string, onLine: (obj: BulkJsonlLine) => Promise<void>): Promise<void> {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download bulk operation result: ${response.status} ${response.statusText}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+      if (line) await onLine(JSON.parse(line));
+    }
+
+    if (done) break;
+  }
+
+  if (buffer.trim()) await onLine(JSON.parse(buffer.trim()));
+}
+
+/**
+ * Runs a full catalog import for a shop via the Bulk Operations API
+ * Replaces every indexed product and prunes products that no longer exist
+ */
+export async function runCatalogBulkImport(shopDomain: string, accessToken: string): Promise<{ productCount: number; pruned: number }> {
+  const shop = await prisma.shop.findUnique({ where: { domain: shopDomain } });
+  if (!shop) {
+    throw new Error(`Shop not found: ${shopDomain}`);
+  }
+
+  const startedAt = new Date();
+  await prisma.catalogSyncState.upsert({
+    where: { shopId: shop.id },
+    create: { shopId: shop.id, status: "running" },
+    update: { status: "running", lastError: null },
+  });
+
+  try {
+    const started = await adminGraphQL<BulkOperationRunQueryData>(
+      shopDomain,
+      accessToken,
+      `mutation runCatalogImport($query: String!) {
+        bulkOperationRunQuery(query: $query) {
+          bulkOperation { id status }
+          userErrors { field message }
+        }
+      }`,
+      { query: BULK_PRODUCTS_QUERY }
+    );
+
+    const userErrors = started?.bulkOperationRunQuery?.userErrors || [];
+    const operationId: string | undefined = started?.bulkOperationRunQuery?.bulkOperation?.id;
+    if (userErrors.length > 0 || !operationId) {
+      throw new Error(`bulkOperationRunQuery failed: ${JSON.stringify(userErrors)}`);
+    }
+
+    await prisma.catalogSyncState.update({
+      where: { shopId: shop.id },
+      data: { bulkOperationId: operationId },
+    });
+    console.log("[Catalog Index] Bulk import started", { shopDomain, operationId });
+
+    const result = await pollBulkOperation(shopDomain, accessToken, operationId);
+    if (result.status !== "COMPLETED") {
+      throw new Error(`Bulk operation ended with status ${result.status}${result.errorCode ? ` (${result.errorCode})` : ""}`);
+    }
+
+    let productCount = 0;
+    let orphanLines = 0;
+
+    // url is null when the shop has no products
+    if (result.url) {
+      const collectionIdCache = new Map<string, string>();
+      const pending = new Map<string, CatalogProductBundle>();
+
+      const flush = async () => {
+        for (const bundle of pending.values()) {
+          await writeProductBundle(shop.id, bundle, { syncedAt: startedAt, preserveMissing: false, collectionIdCache });
+          productCount++;
+        }
+        pending.clear();
+      };
+
+      await streamJsonl(result.url, async (obj) => {
+        if (!obj.__parentId) {
+          // Children always follow their parent, so earlier products are complete once a batch fills
+          if (pending.size >= WRITE_BATCH_SIZE) await flush();
+          pending.set(obj.id, mapBulkProductNode(obj));
+          return;
+        }
+
+        const parent = pending.get(obj.__parentId);
+        if (!parent || !attachBulkChildNode(parent, obj)) {
+          orphanLines++;
+        }
+      });
+      await flush();
+    }
+
+    const pruned = await prisma.catalogProduct.deleteMany({
+      where: { shopId: shop.id, syncedAt: { lt: startedAt } },
+    });
+
+    await prisma.catalogSyncState.update({
+      where: { shopId: shop.id },
+      data: {
+        status: "complete",
+        productCount: await prisma.catalogProduct.count({ where: { shopId: shop.id } }),
+        lastFullSyncAt: new Date(),
+        catalogVersion: { increment: 1 },
+      },
+    });
+
+    await scheduleEmbeddingRefresh(shopDomain);
+
+    console.log("[Catalog Index] Bulk import complete", {
+      shopDomain,
+      productCount,
+      pruned: pruned.count,
+      orphanLines,
+      durationMs: Date.now() - startedAt.getTime(),
+    });
+
+    return { productCount, pruned: pruned.count };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[Catalog Index] Bulk import failed", { shopDomain, error: message });
+    await prisma.catalogSyncState.update({
+      where: { shopId: shop.id },
+      data: { status: "failed", lastError: message.substring(0, 1000) },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Starts a background full import unless the index is already built or an import is in flight
+ * Called after OAuth so freshly installed shops get an index without blocking the admin
+ */
+export async function startCatalogImportIfNeeded(shopDomain: string, accessToken: string): Promise<void> {
+  if (!accessToken) return;
+
+  const shop = await prisma.shop.upsert({
+    where: { domain: shopDomain },
+    create: { domain: shopDomain, accessToken },
+    update: {},
+    include: { catalogSyncState: true },
+  });
+
+  const state = shop.catalogSyncState;
+  if (state?.lastFullSyncAt) return;
+  if (state?.status === "running" && Date.now() - state.updatedAt.getTime() < STALE_IMPORT_MS) return;
+
+  runCatalogBulkImport(shopDomain, accessToken).catch(() => {
+    // Already logged and recorded on CatalogSyncState; pipeline keeps using live fetches
+  });
+}
+
+// Every applied webhook bumps the catalog version, which retires AI ranking cache entries
+async function touchWebhookState(shopId: string): Promise<void> {
+  await prisma.catalogSyncState.upsert({
+    where: { shopId },
+    create: { shopId, lastWebhookAt: new Date(), catalogVersion: 1 },
+    update: { lastWebhookAt: new Date(), catalogVersion: { increment: 1 } },
+  });
+}
+
+/**
+ * Applies a products/create or products/update webhook body
+ * Out-of-order deliveries older than the indexed row are ignored
+ */
+export async function upsertCatalogProductFromWebhook(shopDomain: string, payload: unknown): Promise<boolean> {
+  const shop = await prisma.shop.findUnique({ where: { domain: shopDomain } });
+  if (!shop) return false;
+
+  const bundle = mapWebhookProductPayload(payload as ProductWebhookPayload);
+  if (!bundle.product.handle) return false;
+
+  const existing = await prisma.catalogProduct.findUnique({
+    where: { shopId_productGid: { shopId: shop.id, productGid: bundle.product.productGid } },
+    select: { shopifyUpdatedAt: true },
+  });
+  if (
+    existing?.shopifyUpdatedAt &&
+    bundle.product.shopifyUpdatedAt &&
+    existing.shopifyUpdatedAt > bundle.product.shopifyUpdatedAt
+  ) {
+    console.log("[Catalog Index] Skipping stale product webhook", { shopDomain, productGid: bundle.product.productGid });
+    return false;
+  }
+
+  await writeProductBundle(shop.id, bundle, { syncedAt: new Date(), preserveMissing: true });
+  await touchWebhookState(shop.id);
+  await scheduleEmbeddingRefresh(shopDomain);
+  return true;
+}
+
+/**
+ * Applies a products/delete webhook body
+ */
+export async function deleteCatalogProductFromWebhook(shopDomain: string, payload: { id?: string | number } | null): Promise<number> {
+  if (!payload?.id) return 0;
+
+  const shop = await prisma.shop.findUnique({ where: { domain: shopDomain } });
+  if (!shop) return 0;
+
+  const deleted = await prisma.catalogProduct.deleteMany({
+    where: { shopId: shop.id, productGid: toProductGid(payload.id) },
+  });
+  await touchWebhookState(shop.id);
+  if (deleted.count > 0) await scheduleEmbeddingRefresh(shopDomain);
+  return deleted.count;
+}
+
+/**
+ * Applies a collections/update webhook body
+ * The payload has no membership, so product links are re-read from the Admin API when a token is available
+ */
+export async function upsertCatalogCollectionFromWebhook(
+  shopDomain: string,
+  payload: { id?: string | number; admin_graphql_api_id?: string; handle?: string; title?: string } | null,
+  accessToken: string | null
+): Promise<void> {
+  if (!payload?.id && !payload?.admin_graphql_api_id) return;
+
+  const shop = await prisma.shop.findUnique({ where: { domain: shopDomain } });
+  if (!shop) return;
+
+  const collectionGid = payload.admin_graphql_api_id || toCollectionGid(payload.id as string | number);
+  const collection = await prisma.catalogCollection.upsert({
+    where: { shopId_collectionGid: { shopId: shop.id, collectionGid } },
+    create: { shopId: shop.id, collectionGid, handle: payload.handle || "", title: payload.title || "" },
+    update: {
+      ...(payload.handle ? { handle: payload.handle } : {}),
+      ...(payload.title ? { title: payload.title } : {}),
+    },
+  });
+
+  if (accessToken) {
+    const productGids: string[] = [];
+    let cursor: string | null = null;
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const data: CollectionProductIdsData | undefined = await adminGraphQL<CollectionProductIdsData>(
+        shopDomain,
+        accessToken,
+        `query getCollectionProductIds($id: ID!, $after: String) {
+          collection(id: $id) {
+            products(first: 250, after: $after) {
+              pageInfo { hasNextPage endCursor }
+              nodes { id }
+            }
+          }
+        }`,
+        { id: collectionGid, after: cursor }
+      );
+
+      const products: CollectionProductsPage | undefined = data?.collection?.products;
+      for (const node of products?.nodes || []) {
+        if (node?.id) productGids.push(node.id);
+      }
+      hasNextPage = products?.pageInfo?.hasNextPage || false;
+      cursor = products?.pageInfo?.endCursor || null;
+    }
+
+    const indexed = await prisma.catalogProduct.findMany({
+      where: { shopId: shop.id, productGid: { in: productGids } },
+      select: { id: true },
+    });
+
+    await prisma.$transaction([
+      prisma.catalogProductCollection.deleteMany({ where: { collectionId: collection.id } }),
+      prisma.catalogProductCollection.createMany({
+        data: indexed.map(p => ({ productId: p.id, collectionId: collection.id })),
+        skipDuplicates: true,
+      }),
+    ]);
+  }
+
+  await touchWebhookState(shop.id);
+}
+
+/**
+ * Returns the shop id when the index can serve reads, null when callers should fetch live
+ */
+async function getReadyCatalogShopId(shopDomain: string): Promise<string | null> {
+  if (!isCatalogIndexEnabled()) return null;
+
+  const shop = await prisma.shop.findUnique({
+    where: { domain: shopDomain },
+    select: { id: true, catalogSyncState: { select: { lastFullSyncAt: true } } },
+  });
+
+  return shop?.catalogSyncState?.lastFullSyncAt ? shop.id : null;
+}
+
+async function readIndexedProducts(
+  shopDomain: string,
+  options: { limit: number; collectionIds?: string[]; query?: string }
+): Promise<MappedShopifyProduct[] | null> {
+  try {
+    const shopId = await getReadyCatalogShopId(shopDomain);
+    if (!shopId) return null;
+
+    const terms = options.query ? extractSearchTermsFromQuery(options.query) : [];
+    if (options.query && terms.length === 0) return null;
+
+    const rows = await prisma.catalogProduct.findMany({
+      where: {
+        shopId,
+        // Drafts and archived products stay indexed (webhooks keep them current) but are never served
+        status: "ACTIVE",
+        ...(options.collectionIds && options.collectionIds.length > 0
+          ? { collections: { some: { collection: { collectionGid: { in: options.collectionIds.map(toCollectionGid) } } } } }
+          : {}),
+        ...(terms.length > 0 ? { OR: terms.map(term => ({ searchText: { contains: term } })) } : {}),
+      },
+      include: PRODUCT_INCLUDE,
+      orderBy: { shopifyCreatedAt: "desc" },
+      take: options.limit,
+    });
+
+    if (rows.length === 0) return null;
+
+    console.log("[Catalog Index] Served products from index", {
+      shopDomain,
+      count: rows.length,
+      terms: terms.length,
+      collections: options.collectionIds?.length || 0,
+    });
+
+    return rows.map(row => mapGraphQLProductNode(toGraphQLProductNode(row)));
+  } catch (error) {
+    console.error("[Catalog Index] Index read failed, falling back to live fetch:", error);
+    return null;
+  }
+}
+
+/**
+ * Products served by the index-first fetchers: index reads are mapped exactly like a live
+ * GraphQL fetch, the live fallbacks only guarantee the base fields
+ */
+export type CatalogFetchedProduct = Awaited<ReturnType<typeof fetchShopifyProducts>>[number] & Partial<MappedShopifyProduct>;
+
+/**
+ * Index-first equivalent of fetchShopifyProducts
+ */
+export async function fetchCatalogProducts(args: {
+  shopDomain: string;
+  accessToken: string;
+  limit?: number;
+  collectionIds?: string[];
+}): Promise<CatalogFetchedProduct[]> {
+  const indexed = await readIndexedProducts(args.shopDomain, {
+    limit: args.limit ?? 50,
+    collectionIds: args.collectionIds,
+  });
+  return indexed ?? fetchShopifyProducts(args);
+}
+
+/**
+ * Index-first equivalent of fetchShopifyProductsBySearchQuery
+ */
+export async function fetchCatalogProductsBySearchQuery(args: {
+  shopDomain: string;
+  accessToken: string;
+  query: string;
+  targetCount?: number;
+}): Promise<CatalogFetchedProduct[]> {
+  const indexed = await readIndexedProducts(args.shopDomain, {
+    limit: args.targetCount ?? 250,
+    query: args.query,
+  });
+  return indexed ?? fetchShopifyProductsBySearchQuery(args);
+}
+
+/**
+ * Index-first equivalent of fetchShopifyProductDescriptionsByHandles
+ * Handles missing from the index are fetched live
+ */
+export async function fetchCatalogProductDescriptionsByHandles(args: {
+  shopDomain: string;
+  accessToken: string;
+  handles: string[];
+}): Promise<Map<string, string | null>> {
+  const safeHandles = (args.handles || []).filter(Boolean);
+  const shopId = safeHandles.length > 0 ? await getReadyCatalogShopId(args.shopDomain).catch(() => null) : null;
+  if (!shopId) return fetchShopifyProductDescriptionsByHandles(args);
+
+  const rows = await prisma.catalogProduct.findMany({
+    where: { shopId, handle: { in: safeHandles } },
+    select: { handle: true, description: true },
+  });
+
+  const descriptionMap = new Map<string, string | null>();
+  for (const row of rows) {
+    descriptionMap.set(row.handle, row.description);
+  }
+
+  const missing = safeHandles.filter(h => !descriptionMap.has(h));
+  if (missing.length > 0) {
+    const live = await fetchShopifyProductDescriptionsByHandles({ ...args, handles: missing });
+    for (const [handle, description] of live) {
+      descriptionMap.set(handle, description);
+    }
+  }
+
+  return descriptionMap;
+}
@@ -1,5 +1,5 @@
 import prisma from "~/db.server";
-import { ConciergeSessionStatus, ConciergeRole } from "@prisma/client";
+import { ConciergeSessionStatus, ConciergeRole, Prisma } from "@prisma/client";
 import { randomBytes } from "crypto";
 
 /**
@@ -85,12 +85,14 @@ export async function createConciergeSession({
   resultCount = 8,
   answersJson,
   clientRequestId,
+  visitorId,
 }: {
   shopId: string;
   experienceId?: string | null;
   resultCount?: number;
   answersJson?: string;
   clientRequestId?: string | null;
+  visitorId?: string | null;
 }): Promise<string> {
   // Generate a unique public token
   const publicToken = randomBytes(32).toString("base64url");
@@ -109,6 +111,7 @@ export async function createConciergeSession({
       queryRaw: queryData?.raw || null,
       queryNormalized: queryData?.normalized || null,
       clientRequestId: clientRequestId || null,
+      visitorId: visitorId || null,
     },
   });
 
@@ -123,11 +126,13 @@ export async function saveConciergeResult({
   productHandles,
   productIds,
   reasoning,
+  productExplanations,
 }: {
   sessionToken: string;
   productHandles: string[];
   productIds?: string[] | null;
   reasoning?: string | null;
+  productExplanations?: Record<string, string> | null; // handle -> "why we picked this"
 }): Promise<void> {
   // Find session by token
   const session = await prisma.conciergeSession.findUnique({
@@ -148,11 +153,13 @@ export async function saveConciergeResult({
         productHandles: productHandles,
         productIds: productIds || undefined,
         reasoning: reasoning || null,
+        productExplanations: productExplanations || Prisma.DbNull,
       },
       update: {
         productHandles: productHandles,
         productIds: productIds || undefined,
         reasoning: reasoning || null,
+        productExplanations: productExplanations || Prisma.DbNull,
       },
     }),
     prisma.conciergeSession.update({
@@ -0,0 +1,137 @@
+import prisma from "~/db.server";
+import {
+  SUPPORTED_CURRENCY_CODES,
+  normalizeCurrencyCode,
+  parseRateImport,
+  type CurrencyRateTable,
+} from "~/utils/currency.server";
+
+/**
+ * Per-shop FX rates used to compare shopper budgets with catalog prices (utils/currency.server)
+ * Rates are set manually or imported from a file on the Currencies page; the storefront's
+ * Shopify Markets presentment rate, when sent by the widget, takes precedence for that currency.
+ */
+
+const RATE_TABLE_TTL_MS = 10 * 60 * 1000;
+const MAX_RATE = 1_000_000;
+
+const rateTableCache = new Map<string, { rates: Record<string, number>; loadedAt: number }>();
+
+type AdminGraphQLClient = {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
+};
+
+export type ShopRateRow = {
+  id: string;
+  currency: string;
+  rate: number;
+  source: string;
+  updatedAt: string;
+};
+
+export function invalidateShopRateTable(shopId: string) {
+  rateTableCache.delete(shopId);
+}
+
+/**
+ * The shop's rate table (cached per shop). Failures fall back to no rates so sessions keep working.
+ */
+export async function getShopRateTable(shopId: string, baseCurrency: string): Promise<CurrencyRateTable> {
+  const cached = rateTableCache.get(shopId);
+  if (cached && Date.now() - cached.loadedAt < RATE_TABLE_TTL_MS) {
+    return { baseCurrency, rates: { ...cached.rates } };
+  }
+
+  const rates: Record<string, number> = {};
+  try {
+    const rows = await prisma.currencyRate.findMany({ where: { shopId }, select: { currency: true, rate: true } });
+    rows.forEach((row) => {
+      rates[row.currency] = row.rate;
+    });
+    rateTableCache.set(shopId, { rates, loadedAt: Date.now() });
+  } catch (error) {
+    console.warn("[Currency] Failed to load rate table:", error);
+  }
+  return { baseCurrency, rates: { ...rates } };
+}
+
+export async function listShopRates(shopId: string): Promise<ShopRateRow[]> {
+  const rows = await prisma.currencyRate.findMany({ where: { shopId }, orderBy: { currency: "asc" } });
+  return rows.map((row) => ({
+    id: row.id,
+    currency: row.currency,
+    rate: row.rate,
+    source: row.source,
+    updatedAt: row.updatedAt.toISOString(),
+  }));
+}
+
+function validateRate(currency: string | null, rate: number, shopCurrency: string): string {
+  if (!currency || !SUPPORTED_CURRENCY_CODES.includes(currency)) {
+    throw new Error("Choose a supported currency code");
+  }
+  if (currency === shopCurrency) {
+    throw new Error(`${currency} is the shop currency`);
+  }
+  if (!Number.isFinite(rate) || rate <= 0 || rate > MAX_RATE) {
+    throw new Error("The rate must be a positive number");
+  }
+  return currency;
+}
+
+export async function setShopRate(shopId: string, shopCurrency: string, rawCurrency: string, rate: number) {
+  const currency = validateRate(normalizeCurrencyCode(rawCurrency), rate, shopCurrency);
+  const row = await prisma.currencyRate.upsert({
+    where: { shopId_currency: { shopId, currency } },
+    create: { shopId, currency, rate, source: "manual" },
+    update: { rate, source: "manual" },
+  });
+  invalidateShopRateTable(shopId);
+  return row;
+}
+
+export async function deleteShopRate(shopId: string, id: string) {
+  const { count } = await prisma.currencyRate.deleteMany({ where: { id, shopId } });
+  invalidateShopRateTable(shopId);
+  return count > 0;
+}
+
+/**
+ * Imports a CSV or JSON rate file (see parseRateImport); valid rows are saved even when others fail
+ */
+export async function importShopRates(shopId: string, shopCurrency: string, fileText: string) {
+  const { rates, errors } = parseRateImport(fileText, shopCurrency);
+  const entries = Object.entries(rates).filter(([, rate]) => rate <= MAX_RATE);
+  await prisma.$transaction(
+    entries.map(([currency, rate]) =>
+      prisma.currencyRate.upsert({
+        where: { shopId_currency: { shopId, currency } },
+        create: { shopId, currency, rate, source: "import" },
+        update: { rate, source: "import" },
+      })
+    )
+  );
+  invalidateShopRateTable(shopId);
+  return { imported: entries.length, errors };
+}
+
+/**
+ * Shop currency and the Shopify Markets presentment currencies enabled on the storefront
+ */
+export async function getStoreCurrencies(admin: AdminGraphQLClient): Promise<{ shopCurrency: string | null; presentmentCurrencies: string[] }> {
+  const response = await admin.graphql(`#graphql
+    query { shop { currencyCode enabledPresentmentCurrencies } }
+  `);
+  const body = (await response.json()) as {
+    data?: { shop?: { currencyCode?: string; enabledPresentmentCurrencies?: string[] } };
+    errors?: unknown;
+  };
+  if (body.errors) {
+    throw new Error(`GraphQL errors: ${JSON.stringify(body.errors)}`);
+  }
+  const shopCurrency = normalizeCurrencyCode(body.data?.shop?.currencyCode);
+  const presentmentCurrencies = (body.data?.shop?.enabledPresentmentCurrencies || [])
+    .map(normalizeCurrencyCode)
+    .filter((code): code is string => !!code && code !== shopCurrency);
+  return { shopCurrency, presentmentCurrencies };
+}
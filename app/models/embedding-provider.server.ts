@@ -0,0 +1,247 @@
+/**
+ * Pluggable embedding provider layer for EditMuse
+ *
+ * Turns product and query text into vectors for hybrid (BM25 + vector) retrieval.
+ * Providers:
+ * - "openai": OpenAI Embeddings API
+ * - "openai_compatible": any OpenAI-compatible /embeddings endpoint via EMBEDDING_BASE_URL
+ * - "local": deterministic hashed bag-of-words vectors (tests / CI, no network)
+ *
+ * Selected with EMBEDDING_PROVIDER. Unset means hybrid retrieval is off and ranking stays lexical.
+ */
+
+import crypto from "crypto";
+import { tokenize } from "~/utils/text-indexing.server";
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  /** Stored with every vector; vectors from different models are never compared */
+  getModel(): string;
+  /** One vector per input text, same order */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export class EmbeddingProviderError extends Error {
+  status: number | null;
+
+  constructor(message: string, status: number | null = null) {
+    super(message);
+    this.name = "EmbeddingProviderError";
+    this.status = status;
+  }
+}
+
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+const DEFAULT_TIMEOUT_MS = 10000;
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+const LOCAL_DIMENSIONS = 256;
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible /embeddings
+// ---------------------------------------------------------------------------
+
+export interface OpenAICompatibleEmbeddingOptions {
+  name?: string;
+  baseUrl: string;
+  apiKey?: string | null;
+  model?: string;
+  /** Optional shortened output size (text-embedding-3 models) */
+  dimensions?: number | null;
+  timeoutMs?: number;
+  requireApiKey?: boolean;
+}
+
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  private readonly baseUrl: string;
+  private readonly apiKey: string | null;
+  private readonly model: string;
+  private readonly dimensions: number | null;
+  private readonly timeoutMs: number;
+  private readonly requireApiKey: boolean;
+
+  constructor(options: OpenAICompatibleEmbeddingOptions) {
+    this.name = options.name || "openai_compatible";
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.apiKey = options.apiKey || null;
+    this.model = options.model || DEFAULT_EMBEDDING_MODEL;
+    this.dimensions = options.dimensions || null;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.requireApiKey = options.requireApiKey ?? false;
+  }
+
+  isConfigured(): boolean {
+    return !this.requireApiKey || !!this.apiKey;
+  }
+
+  getModel(): string {
+    return this.dimensions ? `${this.model}:${this.dimensions}` : this.model;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    if (!this.isConfigured()) {
+      throw new EmbeddingProviderError(`${this.name}: API key not set`);
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await fetch(`${this.baseUrl}/embeddings`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { "Authorization": `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.model,
+          input: texts,
+          ...(this.dimensions ? { dimensions: this.dimensions } : {}),
+        }),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => "");
+        throw new EmbeddingProviderError(`HTTP ${response.status}${errorText ? `: ${errorText.substring(0, 200)}` : ""}`, response.status);
+      }
+
+      const data = (await response.json()) as { data?: Array<{ index?: number; embedding?: number[] }> } | null;
+      const rows = Array.isArray(data?.data) ? data.data : [];
+      const vectors: number[][] = new Array(texts.length);
+      rows.forEach((row, position) => {
+        vectors[typeof row.index === "number" ? row.index : position] = Array.isArray(row.embedding) ? row.embedding : [];
+      });
+      if (vectors.filter(Boolean).length !== texts.length) {
+        throw new EmbeddingProviderError(`${this.name}: expected ${texts.length} embeddings, got ${rows.length}`);
+      }
+      return vectors;
+    } catch (error) {
+      if (error instanceof EmbeddingProviderError) throw error;
+      if (controller.signal.aborted) {
+        throw new EmbeddingProviderError(`Request timeout after ${this.timeoutMs}ms`);
+      }
+      throw new EmbeddingProviderError(error instanceof Error ? error.message : String(error));
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+function parseDimensions(raw: string | undefined): number | null {
+  const value = parseInt(raw || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * OpenAI Embeddings (api.openai.com); reuses OPENAI_API_KEY
+ */
+export function createOpenAIEmbeddingProvider(): OpenAICompatibleEmbeddingProvider {
+  return new OpenAICompatibleEmbeddingProvider({
+    name: "openai",
+    baseUrl: process.env.OPENAI_BASE_URL || OPENAI_BASE_URL,
+    apiKey: process.env.OPENAI_API_KEY,
+    model: process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL,
+    dimensions: parseDimensions(process.env.EMBEDDING_DIMENSIONS),
+    requireApiKey: true,
+  });
+}
+
+/**
+ * Self-hosted / third-party embeddings server
+ * EMBEDDING_BASE_URL (e.g. http://localhost:11434/v1), EMBEDDING_API_KEY (optional), EMBEDDING_MODEL
+ */
+export function createOpenAICompatibleEmbeddingProvider(): OpenAICompatibleEmbeddingProvider {
+  return new OpenAICompatibleEmbeddingProvider({
+    name: "openai_compatible",
+    baseUrl: process.env.EMBEDDING_BASE_URL || process.env.LLM_BASE_URL || OPENAI_BASE_URL,
+    apiKey: process.env.EMBEDDING_API_KEY || null,
+    model: process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL,
+    dimensions: parseDimensions(process.env.EMBEDDING_DIMENSIONS),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Local deterministic stub
+// ---------------------------------------------------------------------------
+
+/**
+ * Hashed bag of tokens (plus character trigrams, so "jacket" and "jackets" stay close), L2-normalized
+ * Same text always gives the same vector; no semantics beyond shared words, but enough for tests
+ * and for exercising the hybrid pipeline without an API key.
+ */
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local";
+  private readonly dimensions: number;
+
+  constructor(dimensions: number = LOCAL_DIMENSIONS) {
+    this.dimensions = dimensions;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  getModel(): string {
+    return `local-hash-${this.dimensions}`;
+  }
+
+  private bucket(feature: string): { index: number; sign: number } {
+    const digest = crypto.createHash("md5").update(feature).digest();
+    return { index: digest.readUInt32BE(0) % this.dimensions, sign: digest[4] & 1 ? 1 : -1 };
+  }
+
+  embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const token of tokenize(text)) {
+      const features = [`w:${token}`];
+      const padded = `#${token}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) features.push(`g:${padded.slice(i, i + 3)}`);
+      features.forEach((feature, position) => {
+        const { index, sign } = this.bucket(feature);
+        vector[index] += sign * (position === 0 ? 1 : 0.5 / Math.max(1, features.length - 1));
+      });
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map((v) => v / norm) : vector;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+let activeProvider: EmbeddingProvider | null | undefined;
+
+/**
+ * Builds the provider selected by EMBEDDING_PROVIDER (null when unset or "none")
+ */
+export function createEmbeddingProviderFromEnv(): EmbeddingProvider | null {
+  const providerName = (process.env.EMBEDDING_PROVIDER || "").toLowerCase();
+  if (providerName === "openai") return createOpenAIEmbeddingProvider();
+  if (providerName === "openai_compatible") return createOpenAICompatibleEmbeddingProvider();
+  if (providerName === "local") return new LocalHashEmbeddingProvider();
+  return null;
+}
+
+/**
+ * Returns the active provider (created from env on first use), or null when hybrid retrieval is off
+ */
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  if (activeProvider === undefined) {
+    activeProvider = createEmbeddingProviderFromEnv();
+    console.log("[Embeddings] provider=", activeProvider?.name ?? "none", "configured=", activeProvider?.isConfigured() ?? false);
+  }
+  return activeProvider && activeProvider.isConfigured() ? activeProvider : null;
+}
+
+/**
+ * Overrides the active provider (tests, eval scripts). Pass undefined to rebuild from env, null to turn hybrid retrieval off.
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null | undefined): void {
+  activeProvider = provider;
+}
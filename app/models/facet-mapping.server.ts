@@ -0,0 +1,148 @@
+import prisma from "~/db.server";
+import type { Prisma } from "@prisma/client";
+import {
+  discoverFacetVocabulary,
+  discoverTagPrefixes,
+  normalizeOptionName,
+  type FacetMappingConfig,
+} from "~/utils/facets.server";
+
+/**
+ * Per-shop facet mapping: which option names, tag prefixes and metafields feed which facet
+ * Stored as Shop.facetMappingJson; the session-start pipeline passes it to discoverFacetVocabulary and gating.
+ */
+
+export const CANONICAL_FACETS = ["size", "color", "material"];
+
+const DISCOVERY_SAMPLE_SIZE = 500; // Products scanned from the catalog index
+const MAX_FACET_NAME_LENGTH = 40;
+
+export type DiscoveredFacetSource = {
+  source: string; // Normalized option name, tag prefix or "namespace.key"
+  productCount: number;
+  sampleValues: string[];
+};
+
+export type CatalogFacetDiscovery = {
+  productsScanned: number;
+  optionNames: DiscoveredFacetSource[];
+  tagPrefixes: DiscoveredFacetSource[];
+  metafieldKeys: DiscoveredFacetSource[];
+};
+
+function cleanFacetName(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const cleaned = value.toLowerCase().trim().replace(/\s+/g, " ").slice(0, MAX_FACET_NAME_LENGTH);
+  return cleaned.length > 0 ? cleaned : null;
+}
+
+/**
+ * Validates stored or submitted JSON into a FacetMappingConfig (unknown fields and empty entries are dropped)
+ */
+export function parseFacetMappingConfig(raw: unknown): FacetMappingConfig {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+  const input = raw as Record<string, unknown>;
+  const config: FacetMappingConfig = {};
+
+  if (input.preferredOptionNameAliases && typeof input.preferredOptionNameAliases === "object") {
+    const aliases: Record<string, string> = {};
+    for (const [source, facet] of Object.entries(input.preferredOptionNameAliases as Record<string, unknown>)) {
+      const from = cleanFacetName(source);
+      const to = cleanFacetName(facet);
+      if (from && to && normalizeOptionName(from) !== to) aliases[normalizeOptionName(from)] = to;
+    }
+    if (Object.keys(aliases).length > 0) config.preferredOptionNameAliases = aliases;
+  }
+
+  const cleanList = (value: unknown) =>
+    Array.isArray(value) ? Array.from(new Set(value.map(cleanFacetName).filter((v): v is string => !!v))) : [];
+  const metafieldKeys = cleanList(input.metafieldKeysForConstraints).filter((k) => k.includes("."));
+  if (metafieldKeys.length > 0) config.metafieldKeysForConstraints = metafieldKeys;
+  const tagPrefixes = cleanList(input.tagPrefixes);
+  if (tagPrefixes.length > 0) config.tagPrefixes = tagPrefixes;
+  const customFacets = cleanList(input.customFacets).filter((f) => !CANONICAL_FACETS.includes(f));
+  if (customFacets.length > 0) config.customFacets = customFacets;
+  if (input.tagPrefixesEnabled === false) config.tagPrefixesEnabled = false;
+
+  return config;
+}
+
+/**
+ * The shop's mapping, or undefined when the merchant has not configured one (built-in behaviour)
+ */
+export async function getShopFacetMapping(shopId: string): Promise<FacetMappingConfig | undefined> {
+  const shop = await prisma.shop.findUnique({ where: { id: shopId }, select: { facetMappingJson: true } });
+  if (!shop?.facetMappingJson) return undefined;
+  const config = parseFacetMappingConfig(shop.facetMappingJson);
+  return Object.keys(config).length > 0 ? config : undefined;
+}
+
+export async function saveShopFacetMapping(shopId: string, raw: unknown): Promise<FacetMappingConfig> {
+  const config = parseFacetMappingConfig(raw);
+  await prisma.shop.update({
+    where: { id: shopId },
+    data: { facetMappingJson: config as Prisma.InputJsonValue },
+  });
+  return config;
+}
+
+/**
+ * Scans the catalog index for facet-like data: variant option names, tag prefixes and metafield keys
+ */
+export async function discoverCatalogFacets(shopId: string): Promise<CatalogFacetDiscovery> {
+  const products = await prisma.catalogProduct.findMany({
+    where: { shopId, status: "ACTIVE" },
+    select: {
+      tags: true,
+      variants: { select: { selectedOptions: true } },
+      metafields: { select: { namespace: true, key: true, value: true } },
+    },
+    orderBy: { shopifyUpdatedAt: "desc" },
+    take: DISCOVERY_SAMPLE_SIZE,
+  });
+
+  const optionProductCounts = new Map<string, number>();
+  const candidates = products.map((p) => {
+    const variants = p.variants.map((v) => ({
+      selectedOptions: Array.isArray(v.selectedOptions) ? (v.selectedOptions as Array<{ name: string; value: string }>) : [],
+    }));
+    const names = new Set(variants.flatMap((v) => v.selectedOptions.map((o) => normalizeOptionName(o.name))));
+    names.forEach((name) => optionProductCounts.set(name, (optionProductCounts.get(name) || 0) + 1));
+    return { variants };
+  });
+
+  // Shopify's single-variant placeholder option is not a facet
+  const vocabulary = discoverFacetVocabulary(candidates);
+  const optionNames = Array.from(vocabulary.optionNames)
+    .filter((name) => name !== "title")
+    .map((name) => ({
+      source: name,
+      productCount: optionProductCounts.get(name) || 0,
+      sampleValues: Array.from(vocabulary.optionNameToValues.get(name) || []).slice(0, 5),
+    }))
+    .sort((a, b) => b.productCount - a.productCount);
+
+  const tagLists = products.map((p) => (Array.isArray(p.tags) ? p.tags.filter((t): t is string => typeof t === "string") : []));
+  const tagPrefixes = discoverTagPrefixes(tagLists).map((t) => ({
+    source: t.prefix,
+    productCount: t.productCount,
+    sampleValues: t.sampleValues,
+  }));
+
+  const metafieldStats = new Map<string, { productCount: number; values: Set<string> }>();
+  for (const product of products) {
+    for (const metafield of product.metafields) {
+      if (!metafield.value) continue;
+      const key = `${metafield.namespace}.${metafield.key}`.toLowerCase();
+      const entry = metafieldStats.get(key) ?? { productCount: 0, values: new Set<string>() };
+      entry.productCount++;
+      if (entry.values.size < 5) entry.values.add(metafield.value.slice(0, 60));
+      metafieldStats.set(key, entry);
+    }
+  }
+  const metafieldKeys = Array.from(metafieldStats.entries())
+    .map(([source, entry]) => ({ source, productCount: entry.productCount, sampleValues: Array.from(entry.values) }))
+    .sort((a, b) => b.productCount - a.productCount);
+
+  return { productsScanned: products.length, optionNames, tagPrefixes, metafieldKeys };
+}
@@ -0,0 +1,33 @@
+/**
+ * Unit tests for per-shop facet mapping storage
+ * Validation of saved / submitted configs
+ */
+
+import { describe, expect, it } from "vitest";
+import { parseFacetMappingConfig } from "./facet-mapping.server";
+
+describe("parseFacetMappingConfig", () => {
+  it("normalizes aliases and lists and drops invalid entries", () => {
+    expect(
+      parseFacetMappingConfig({
+        preferredOptionNameAliases: { " Shade ": "Color", colour: "color", "": "fit", size: 3 },
+        tagPrefixes: ["Fit", "fit", ""],
+        metafieldKeysForConstraints: ["custom.fabric", "no_namespace"],
+        customFacets: ["Scent  Family", "size"],
+        tagPrefixesEnabled: true,
+        unknown: "ignored",
+      })
+    ).toEqual({
+      preferredOptionNameAliases: { shade: "color" },
+      tagPrefixes: ["fit"],
+      metafieldKeysForConstraints: ["custom.fabric"],
+      customFacets: ["scent family"],
+    });
+  });
+
+  it("keeps tag adapters off only when explicitly disabled", () => {
+    expect(parseFacetMappingConfig({ tagPrefixesEnabled: false })).toEqual({ tagPrefixesEnabled: false });
+    expect(parseFacetMappingConfig(null)).toEqual({});
+    expect(parseFacetMappingConfig(["size"])).toEqual({});
+  });
+});
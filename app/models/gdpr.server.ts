@@ -0,0 +1,440 @@
+import prisma from "~/db.server";
+import { Prisma } from "@prisma/client";
+import { sessionJobDedupeKey } from "~/models/job-queue.server";
+import { embeddingJobDedupeKey } from "~/models/product-embeddings.server";
+
+/**
+ * GDPR compliance: customers/data_request, customers/redact and shop/redact
+ *
+ * EditMuse never stores a Shopify customer ID. Customer records are located through the order IDs in
+ * the payload (OrderAttribution -> ConciergeSession) and through the customer's email / phone appearing
+ * in free text the shopper typed (ConciergeMessage.text, ConciergeSession.answersJson).
+ * Every request is written to GdprRequest, which is keyed by shop domain so it survives shop/redact.
+ */
+
+export type GdprTopic = "customers/data_request" | "customers/redact" | "shop/redact";
+
+export type GdprSubject = {
+  customerId: string | null;
+  email: string | null;
+  phone: string | null;
+  orderIds: string[];
+};
+
+export type GdprRecordCounts = {
+  conciergeSessions: number;
+  conciergeMessages: number;
+  usageEvents: number;
+  attributionAttempts: number;
+  orderAttributions: number;
+};
+
+type CustomerRecords = {
+  orderAttributions: Array<Prisma.OrderAttributionGetPayload<object>>;
+  sessions: Array<Prisma.ConciergeSessionGetPayload<{ include: { messages: true; result: true } }>>;
+  attributionAttempts: Array<Prisma.AttributionAttemptGetPayload<object>>;
+  usageEvents: Array<Prisma.UsageEventGetPayload<object>>;
+};
+
+const MIN_TEXT_MATCH_LENGTH = 6; // Shorter emails / phones would match unrelated text
+const JOB_DELETE_CHUNK = 1000;
+
+/**
+ * Order IDs as numbers and as Admin API GIDs, since OrderAttribution.orderId may hold either
+ */
+export function orderIdVariants(orderIds: string[]): string[] {
+  const variants = new Set<string>();
+  for (const id of orderIds) {
+    const numeric = id.replace(/^gid:\/\/shopify\/Order\//, "");
+    variants.add(numeric);
+    variants.add(`gid://shopify/Order/${numeric}`);
+  }
+  return Array.from(variants);
+}
+
+/**
+ * Extracts the customer and orders from a customers/data_request or customers/redact payload
+ */
+export function parseGdprSubject(payload: unknown): GdprSubject {
+  const body = (payload && typeof payload === "object" ? payload : {}) as Record<string, unknown>;
+  const customer = (body.customer && typeof body.customer === "object" ? body.customer : {}) as Record<string, unknown>;
+  const orders = [
+    ...(Array.isArray(body.orders_requested) ? body.orders_requested : []),
+    ...(Array.isArray(body.orders_to_redact) ? body.orders_to_redact : []),
+  ];
+
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null);
+
+  return {
+    customerId: customer.id != null ? String(customer.id) : null,
+    email: text(customer.email),
+    phone: text(customer.phone),
+    orderIds: Array.from(new Set(orders.filter((o) => o != null).map((o) => String(o)))),
+  };
+}
+
+function emptyCounts(): GdprRecordCounts {
+  return { conciergeSessions: 0, conciergeMessages: 0, usageEvents: 0, attributionAttempts: 0, orderAttributions: 0 };
+}
+
+function parseJson(value: string | null): unknown {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Finds every record tied to the customer within one shop
+ */
+async function findCustomerRecords(shopId: string, subject: GdprSubject): Promise<CustomerRecords> {
+  const orderAttributions = subject.orderIds.length > 0
+    ? await prisma.orderAttribution.findMany({
+        where: { shopId, orderId: { in: orderIdVariants(subject.orderIds) } },
+      })
+    : [];
+
+  const sessionIds = new Set<string>();
+  const sessionTokens = new Set<string>();
+  for (const order of orderAttributions) {
+    if (order.sessionId) sessionIds.add(order.sessionId);
+    if (order.sessionToken) sessionTokens.add(order.sessionToken);
+  }
+
+  // Free text the shopper typed may contain their email or phone number
+  const textNeedles = [subject.email, subject.phone].filter(
+    (v): v is string => !!v && v.length >= MIN_TEXT_MATCH_LENGTH
+  );
+  for (const needle of textNeedles) {
+    const [messages, answered] = await Promise.all([
+      prisma.conciergeMessage.findMany({
+        where: { session: { shopId }, text: { contains: needle, mode: "insensitive" } },
+        select: { sessionId: true },
+      }),
+      prisma.conciergeSession.findMany({
+        where: { shopId, answersJson: { contains: needle, mode: "insensitive" } },
+        select: { id: true },
+      }),
+    ]);
+    messages.forEach((m) => sessionIds.add(m.sessionId));
+    answered.forEach((s) => sessionIds.add(s.id));
+  }
+
+  const sessions = sessionIds.size > 0 || sessionTokens.size > 0
+    ? await prisma.conciergeSession.findMany({
+        where: {
+          shopId,
+          OR: [
+            { id: { in: Array.from(sessionIds) } },
+            { publicToken: { in: Array.from(sessionTokens) } },
+            { sessionToken: { in: Array.from(sessionTokens) } },
+          ],
+        },
+        include: { messages: { orderBy: { createdAt: "asc" } }, result: true },
+        orderBy: { createdAt: "asc" },
+      })
+    : [];
+
+  for (const session of sessions) {
+    sessionIds.add(session.id);
+    sessionTokens.add(session.publicToken);
+    if (session.sessionToken) sessionTokens.add(session.sessionToken);
+  }
+
+  if (sessionIds.size === 0 && sessionTokens.size === 0) {
+    return { orderAttributions, sessions, attributionAttempts: [], usageEvents: [] };
+  }
+
+  const [attributionAttempts, usageEvents] = await Promise.all([
+    prisma.attributionAttempt.findMany({
+      where: {
+        shopId,
+        OR: [
+          { sessionId: { in: Array.from(sessionIds) } },
+          { sessionToken: { in: Array.from(sessionTokens) } },
+        ],
+      },
+    }),
+    // UsageEvent.metadata is a JSON string carrying sessionToken / sid / conciergeSessionId
+    prisma.usageEvent.findMany({
+      where: {
+        shopId,
+        OR: [...sessionIds, ...sessionTokens].map((key) => ({ metadata: { contains: key } })),
+      },
+    }),
+  ]);
+
+  return { orderAttributions, sessions, attributionAttempts, usageEvents };
+}
+
+function countRecords(records: CustomerRecords): GdprRecordCounts {
+  return {
+    conciergeSessions: records.sessions.length,
+    conciergeMessages: records.sessions.reduce((sum, s) => sum + s.messages.length, 0),
+    usageEvents: records.usageEvents.length,
+    attributionAttempts: records.attributionAttempts.length,
+    orderAttributions: records.orderAttributions.length,
+  };
+}
+
+/**
+ * JSON bundle answering customers/data_request (handed to the merchant, who forwards it to the customer)
+ */
+function buildCustomerExport(shopDomain: string, subject: GdprSubject, records: CustomerRecords) {
+  return {
+    shop: shopDomain,
+    customerId: subject.customerId,
+    ordersRequested: subject.orderIds,
+    generatedAt: new Date().toISOString(),
+    orders: records.orderAttributions.map((o) => ({
+      orderId: o.orderId,
+      orderNumber: o.orderNumber,
+      attributionType: o.attributionType,
+      totalPrice: o.totalPrice,
+      currencyCode: o.currencyCode,
+      createdAt: o.createdAt.toISOString(),
+    })),
+    sessions: records.sessions.map((s) => ({
+      id: s.id,
+      status: s.status,
+      query: s.queryRaw,
+      answers: parseJson(s.answersJson),
+      createdAt: s.createdAt.toISOString(),
+      messages: s.messages.map((m) => ({
+        role: m.role,
+        text: m.text,
+        imageUrl: m.imageUrl,
+        createdAt: m.createdAt.toISOString(),
+      })),
+      result: s.result
+        ? { productHandles: s.result.productHandles, reasoning: s.result.reasoning, createdAt: s.result.createdAt.toISOString() }
+        : null,
+    })),
+    attributionAttempts: records.attributionAttempts.map((a) => ({
+      sessionId: a.sessionId,
+      cartToken: a.cartToken,
+      checkoutToken: a.checkoutToken,
+      matchedAt: a.matchedAt?.toISOString() ?? null,
+      createdAt: a.createdAt.toISOString(),
+    })),
+    usageEvents: records.usageEvents.map((e) => ({
+      eventType: e.eventType,
+      metadata: parseJson(e.metadata),
+      createdAt: e.createdAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Irreversibly removes the customer's records.
+ * Sessions are deleted (messages, results and traces cascade); usage events and order attributions are kept
+ * for billing and revenue totals but stripped of anything linking them to the customer.
+ */
+async function redactCustomerRecords(shopDomain: string, subject: GdprSubject, records: CustomerRecords) {
+  await prisma.$transaction(async (tx) => {
+    if (records.usageEvents.length > 0) {
+      await tx.usageEvent.updateMany({
+        where: { id: { in: records.usageEvents.map((e) => e.id) } },
+        data: { metadata: null },
+      });
+    }
+    if (records.attributionAttempts.length > 0) {
+      await tx.attributionAttempt.deleteMany({
+        where: { id: { in: records.attributionAttempts.map((a) => a.id) } },
+      });
+    }
+    for (const order of records.orderAttributions) {
+      await tx.orderAttribution.update({
+        where: { id: order.id },
+        data: { orderId: `redacted_${order.id}`, orderNumber: null, sessionId: null, sessionToken: null },
+      });
+    }
+    // Multi-touch credit stays with the order; only the link to the visitor's sessions is removed
+    const redactedOrderIds = records.orderAttributions.map((o) => o.id);
+    const redactedSessionIds = records.sessions.map((s) => s.id);
+    if (redactedOrderIds.length > 0 || redactedSessionIds.length > 0) {
+      await tx.orderAttributionTouch.updateMany({
+        where: { OR: [{ orderAttributionId: { in: redactedOrderIds } }, { sessionId: { in: redactedSessionIds } }] },
+        data: { sessionId: "redacted" },
+      });
+    }
+    if (records.sessions.length > 0) {
+      await tx.conciergeSession.deleteMany({
+        where: { id: { in: records.sessions.map((s) => s.id) } },
+      });
+      // Queued or finished processing jobs for these sessions are not linked by a relation
+      await tx.backgroundJob.deleteMany({
+        where: { dedupeKey: { in: records.sessions.map((s) => sessionJobDedupeKey(s.publicToken)) } },
+      });
+    }
+    // Earlier export bundles hold the same data
+    if (subject.customerId) {
+      await tx.gdprRequest.updateMany({
+        where: { shopDomain, customerId: subject.customerId, exportJson: { not: Prisma.DbNull } },
+        data: { exportJson: Prisma.DbNull },
+      });
+    }
+  });
+}
+
+/**
+ * Deletes the shop's background jobs, whose payloadJson / lastError may hold session tokens and shop data.
+ * Jobs have no shop relation: session jobs are found by dedupe key, embedding jobs by payload shop domain.
+ */
+function shopJobDeletions(shopDomain: string, sessionTokens: string[]): Prisma.PrismaPromise<Prisma.BatchPayload>[] {
+  const operations = [
+    prisma.backgroundJob.deleteMany({
+      where: {
+        OR: [
+          { dedupeKey: embeddingJobDedupeKey(shopDomain) },
+          { payloadJson: { path: ["shopDomain"], equals: shopDomain } },
+        ],
+      },
+    }),
+  ];
+  for (let i = 0; i < sessionTokens.length; i += JOB_DELETE_CHUNK) {
+    const keys = sessionTokens.slice(i, i + JOB_DELETE_CHUNK).map(sessionJobDedupeKey);
+    operations.push(prisma.backgroundJob.deleteMany({ where: { dedupeKey: { in: keys } } }));
+  }
+  return operations;
+}
+
+/**
+ * shop/redact (sent 48 hours after uninstall): deletes the shop and everything cascading from it
+ */
+async function redactShop(shopDomain: string): Promise<GdprRecordCounts> {
+  const counts = emptyCounts();
+  const shop = await prisma.shop.findUnique({ where: { domain: shopDomain }, select: { id: true } });
+  const sessionTokens = shop
+    ? (await prisma.conciergeSession.findMany({ where: { shopId: shop.id }, select: { publicToken: true } })).map((s) => s.publicToken)
+    : [];
+
+  if (shop) {
+    const [conciergeSessions, conciergeMessages, usageEvents, attributionAttempts, orderAttributions] = await Promise.all([
+      prisma.conciergeSession.count({ where: { shopId: shop.id } }),
+      prisma.conciergeMessage.count({ where: { session: { shopId: shop.id } } }),
+      prisma.usageEvent.count({ where: { shopId: shop.id } }),
+      prisma.attributionAttempt.count({ where: { shopId: shop.id } }),
+      prisma.orderAttribution.count({ where: { shopId: shop.id } }),
+    ]);
+    Object.assign(counts, { conciergeSessions, conciergeMessages, usageEvents, attributionAttempts, orderAttributions });
+  }
+
+  await prisma.$transaction([
+    ...shopJobDeletions(shopDomain, sessionTokens),
+    prisma.shop.deleteMany({ where: { domain: shopDomain } }),
+    prisma.session.deleteMany({ where: { shop: shopDomain } }),
+    prisma.gdprRequest.updateMany({
+      where: { shopDomain, exportJson: { not: Prisma.DbNull } },
+      data: { exportJson: Prisma.DbNull },
+    }),
+  ]);
+
+  return counts;
+}
+
+/**
+ * Processes one compliance webhook and records it in the audit log.
+ * Duplicate deliveries (same webhook ID) of a completed request are not processed again.
+ * Throws on failure (after marking the audit row failed) so Shopify retries the delivery.
+ */
+export async function handleGdprWebhook(params: {
+  topic: GdprTopic;
+  shopDomain: string;
+  payload: unknown;
+  webhookId?: string | null;
+}) {
+  const { topic, shopDomain, payload } = params;
+  const webhookId = params.webhookId || null;
+  const subject = topic === "shop/redact"
+    ? { customerId: null, email: null, phone: null, orderIds: [] }
+    : parseGdprSubject(payload);
+
+  if (webhookId) {
+    const existing = await prisma.gdprRequest.findUnique({ where: { webhookId } });
+    if (existing?.status === "completed") {
+      console.log("[GDPR] Duplicate webhook, already completed", { topic, shopDomain, webhookId });
+      return existing;
+    }
+  }
+
+  const auditData = { shopDomain, topic, customerId: subject.customerId, orderIds: subject.orderIds, status: "received", error: null };
+  const audit = webhookId
+    ? await prisma.gdprRequest.upsert({ where: { webhookId }, create: { webhookId, ...auditData }, update: auditData })
+    : await prisma.gdprRequest.create({ data: auditData });
+
+  try {
+    let counts = emptyCounts();
+    let exportJson: Prisma.InputJsonValue | undefined;
+
+    if (topic === "shop/redact") {
+      counts = await redactShop(shopDomain);
+    } else {
+      const shop = await prisma.shop.findUnique({ where: { domain: shopDomain }, select: { id: true } });
+      // No shop row means the shop was already redacted: nothing is stored for the customer
+      if (shop) {
+        const records = await findCustomerRecords(shop.id, subject);
+        counts = countRecords(records);
+        if (topic === "customers/data_request") {
+          exportJson = buildCustomerExport(shopDomain, subject, records) as Prisma.InputJsonValue;
+        } else {
+          await redactCustomerRecords(shopDomain, subject, records);
+        }
+      }
+    }
+
+    console.log("[GDPR] Completed", { topic, shopDomain, requestId: audit.id, counts });
+    return await prisma.gdprRequest.update({
+      where: { id: audit.id },
+      data: {
+        status: "completed",
+        recordCountsJson: counts as unknown as Prisma.InputJsonValue,
+        ...(exportJson !== undefined ? { exportJson } : {}),
+        completedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[GDPR] Failed", { topic, shopDomain, requestId: audit.id, error: message });
+    await prisma.gdprRequest.update({
+      where: { id: audit.id },
+      data: { status: "failed", error: message },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Audit log for the admin (latest first)
+ */
+export async function listGdprRequests(shopDomain: string, limit: number = 50) {
+  return prisma.gdprRequest.findMany({
+    where: { shopDomain },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+    select: {
+      id: true,
+      topic: true,
+      customerId: true,
+      orderIds: true,
+      status: true,
+      recordCountsJson: true,
+      error: true,
+      createdAt: true,
+      completedAt: true,
+    },
+  });
+}
+
+/**
+ * Export bundle of a completed customers/data_request (null once redacted)
+ */
+export async function getGdprExport(shopDomain: string, requestId: string) {
+  const request = await prisma.gdprRequest.findFirst({
+    where: { id: requestId, shopDomain, topic: "customers/data_request" },
+    select: { id: true, customerId: true, exportJson: true, createdAt: true },
+  });
+  return request?.exportJson ? request : null;
+}
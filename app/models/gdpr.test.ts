@@ -0,0 +1,47 @@
+/**
+ * Unit tests for GDPR webhook payload handling
+ * Customer / order extraction and order ID matching
+ */
+
+import { describe, expect, it } from "vitest";
+import { orderIdVariants, parseGdprSubject } from "./gdpr.server";
+
+describe("parseGdprSubject", () => {
+  it("extracts the customer and requested orders from customers/data_request", () => {
+    const subject = parseGdprSubject({
+      shop_id: 954889,
+      shop_domain: "example.myshopify.com",
+      orders_requested: [299938, 280263, 220458],
+      customer: { id: 191167, email: " john@example.com ", phone: "555-625-1199" },
+      data_request: { id: 9999 },
+    });
+
+    expect(subject).toEqual({
+      customerId: "191167",
+      email: "john@example.com",
+      phone: "555-625-1199",
+      orderIds: ["299938", "280263", "220458"],
+    });
+  });
+
+  it("reads orders_to_redact from customers/redact and tolerates missing fields", () => {
+    expect(parseGdprSubject({ customer: { id: 1, email: "", phone: null }, orders_to_redact: [5, 5] })).toEqual({
+      customerId: "1",
+      email: null,
+      phone: null,
+      orderIds: ["5"],
+    });
+    expect(parseGdprSubject(null)).toEqual({ customerId: null, email: null, phone: null, orderIds: [] });
+  });
+});
+
+describe("orderIdVariants", () => {
+  it("matches numeric IDs and Admin API GIDs", () => {
+    expect(orderIdVariants(["42", "gid://shopify/Order/7"])).toEqual([
+      "42",
+      "gid://shopify/Order/42",
+      "7",
+      "gid://shopify/Order/7",
+    ]);
+  });
+});
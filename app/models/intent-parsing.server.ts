@@ -1,13 +1,15 @@
 /**
  * LLM-powered intent parsing for EditMuse
  * 
- * Uses OpenAI to understand user queries and extract structured intent,
+ * Uses the configured LLM provider to understand user queries and extract structured intent,
  * replacing fragile regex-based pattern matching with natural language understanding.
  * 
  * Industry-agnostic: Works for any product catalog without hardcoded categories.
  */
 
-const OPENAI_CHAT_COMPLETIONS_URL = "https://api.openai.com/v1/chat/completions";
+import { getLLMProvider, llmChat, LLMProviderError } from "~/models/llm-provider.server";
+import { mergeFacetValues, normalizeFacetValue, normalizeOptionName, type FacetValues } from "~/utils/facets.server";
+import { normalizePriceConstraint, type PriceConstraint } from "~/utils/price-constraint.server";
 
 interface ParsedIntent {
   isBundle: boolean;
@@ -19,6 +21,7 @@ interface ParsedIntent {
     color: string | null;
     material: string | null;
   };
+  facets: FacetValues; // Generic facets (size/color/material included), e.g. { vintage: ["2015"], "skin type": ["oily"] }
   bundleItems?: Array<{
     hardTerms: string[];
     quantity: number;
@@ -35,6 +38,7 @@ interface ParsedIntent {
   }>;
   totalBudget: number | null;
   totalBudgetCurrency: string | null;
+  priceConstraint: PriceConstraint | null; // Single-item price range/floor/target/ceiling, e.g. { min: 50, max: 80, ... }
   preferences?: string[]; // Style/preference terms (e.g., "plain", "wireless", "organic")
 }
 
@@ -45,11 +49,16 @@ interface IntentParseResult {
   fallbackUsed?: boolean;
 }
 
-const DEFAULT_MODEL = "gpt-4o-mini";
 const INTENT_PARSE_TIMEOUT_BASE_MS = 20000; // Base 20 seconds for intent parsing
 const INTENT_PARSE_TIMEOUT_MAX_MS = 30000; // Cap at 30 seconds
 const INTENT_PARSE_RETRY_BACKOFF_MIN_MS = 300; // Minimum backoff for retry
 const INTENT_PARSE_RETRY_BACKOFF_MAX_MS = 800; // Maximum backoff for retry
+const LEGACY_FACETS = ["size", "color", "material"];
+
+interface IntentParseOptions {
+  // Facet names/values discovered in the shop's catalog; the LLM is told to use only these
+  allowedFacets?: FacetValues;
+}
 
 /**
  * Calculate dynamic timeout based on conversation length
@@ -67,16 +76,6 @@ function calculateIntentParseTimeout(conversationHistory?: Array<{ role: string;
   return Math.min(timeoutMs, INTENT_PARSE_TIMEOUT_MAX_MS);
 }
 
-/**
- * Check if an error is a timeout/abort error
- */
-function isTimeoutError(error: any): boolean {
-  return error?.name === "AbortError" || 
-         error?.message?.toLowerCase().includes("timeout") ||
-         error?.message?.toLowerCase().includes("aborted") ||
-         error?.code === "ECONNABORTED";
-}
-
 /**
  * Build JSON schema for structured intent output
  */
@@ -122,6 +121,26 @@ function buildIntentSchema() {
         required: ["size", "color", "material"],
         additionalProperties: false
       },
+      facets: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            name: {
+              type: "string",
+              description: "Facet name, lowercase (e.g., 'size', 'color', 'vintage', 'skin type', 'shade', 'storage capacity')"
+            },
+            values: {
+              type: "array",
+              items: { type: "string" },
+              description: "Requested values; more than one means any of them is acceptable (e.g., ['2015', '2016'])"
+            }
+          },
+          required: ["name", "values"],
+          additionalProperties: false
+        },
+        description: "Every explicit facet constraint, including size/color/material (e.g., [{name: 'vintage', values: ['2015']}])"
+      },
       bundleItems: {
         type: "array",
         items: {
@@ -189,13 +208,31 @@ function buildIntentSchema() {
         anyOf: [{ type: "string" }, { type: "null" }],
         description: "Currency code if detected (e.g., 'USD', 'GBP', 'EUR')"
       },
+      priceConstraint: {
+        anyOf: [
+          {
+            type: "object",
+            properties: {
+              min: { anyOf: [{ type: "number" }, { type: "null" }] },
+              max: { anyOf: [{ type: "number" }, { type: "null" }] },
+              target: { anyOf: [{ type: "number" }, { type: "null" }] },
+              tolerance: { anyOf: [{ type: "number" }, { type: "null" }] },
+              currency: { anyOf: [{ type: "string" }, { type: "null" }] }
+            },
+            required: ["min", "max", "target", "tolerance", "currency"],
+            additionalProperties: false
+          },
+          { type: "null" }
+        ],
+        description: "Price range for a single item (e.g., 'between £50 and £80' → min 50, max 80; 'at least $200' → min 200; 'around 30 euros' → target 30)"
+      },
       preferences: {
         type: "array",
         items: { type: "string" },
         description: "Style or preference terms that guide selection but aren't hard requirements (e.g., 'plain', 'wireless', 'organic', 'eco-friendly')"
       }
     },
-    required: ["isBundle", "hardTerms", "softTerms", "avoidTerms", "hardFacets", "bundleItems", "totalBudget", "totalBudgetCurrency", "preferences"],
+    required: ["isBundle", "hardTerms", "softTerms", "avoidTerms", "hardFacets", "facets", "bundleItems", "totalBudget", "totalBudgetCurrency", "priceConstraint", "preferences"],
     additionalProperties: false
   };
   
@@ -207,24 +244,84 @@ function buildIntentSchema() {
 }
 
 /**
- * Single attempt at parsing intent with OpenAI LLM
+ * Normalize the LLM's facet list into a facet -> values map
+ * With allowed facets (the shop's vocabulary), facet names outside it are dropped (size/color/material are
+ * always kept), values are snapped to the catalog spelling, and values matching no catalog value are dropped.
+ */
+export function normalizeIntentFacets(raw: unknown, allowedFacets?: FacetValues): FacetValues {
+  const entries: Array<[string, unknown]> = Array.isArray(raw)
+    ? raw.filter((f) => f && typeof f === "object").map((f) => [String(f.name ?? ""), f.values])
+    : raw && typeof raw === "object"
+      ? Object.entries(raw as Record<string, unknown>)
+      : [];
+
+  const facets: FacetValues = {};
+  for (const [rawName, rawValues] of entries) {
+    const name = normalizeOptionName(rawName);
+    const values = (Array.isArray(rawValues) ? rawValues : [rawValues])
+      .filter((v): v is string => typeof v === "string" && v.trim().length > 0)
+      .map((v) => v.trim());
+    if (!name || values.length === 0) continue;
+
+    const allowed = allowedFacets?.[name];
+    if (!allowedFacets || Object.keys(allowedFacets).length === 0 || (!allowed && LEGACY_FACETS.includes(name))) {
+      facets[name] = values;
+      continue;
+    }
+    if (!allowed) {
+      console.log(`[Intent Parsing] dropped_facet name="${name}" reason=not_in_catalog`);
+      continue;
+    }
+
+    const kept: string[] = [];
+    for (const value of values) {
+      const normalized = normalizeFacetValue(value);
+      const exact = allowed.find((a) => normalizeFacetValue(a) === normalized);
+      if (exact) {
+        kept.push(exact);
+      } else if (allowed.some((a) => normalizeFacetValue(a).includes(normalized) || normalized.includes(normalizeFacetValue(a)))) {
+        kept.push(value); // Partial match - gating matches it against the catalog values
+      } else {
+        console.log(`[Intent Parsing] dropped_facet_value name="${name}" value="${value}" reason=not_in_catalog`);
+      }
+    }
+    if (kept.length > 0) facets[name] = kept;
+  }
+  return mergeFacetValues([facets]);
+}
+
+/**
+ * Prompt block listing the shop's facets and their allowed values
+ */
+function buildAllowedFacetsPrompt(allowedFacets?: FacetValues): string {
+  if (!allowedFacets || Object.keys(allowedFacets).length === 0) return "";
+  const lines = Object.entries(allowedFacets).map(([name, values]) => `- ${name}: ${values.join(", ")}`);
+  return `
+
+**STORE FACETS (allowed values):**
+This store's catalog uses these facets. Only use these facet names in "facets" (size/color/material are always allowed), and copy values exactly as listed. If the shopper asks for a value that is not listed, keep it in hardTerms instead.
+${lines.join("\n")}`;
+}
+
+/**
+ * Parse intent with the configured LLM provider (provider handles timeout + retries)
  */
 async function parseIntentAttempt(
   userQuery: string,
   conversationHistory: Array<{ role: "system" | "user" | "assistant"; content: string }> | undefined,
-  timeoutMs: number
+  timeoutMs: number,
+  retries: number,
+  allowedFacets?: FacetValues
 ): Promise<IntentParseResult> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
+  const provider = getLLMProvider();
+  if (!provider.isConfigured()) {
     return {
       success: false,
-      error: "OPENAI_API_KEY not set",
+      error: `LLM provider "${provider.name}" not configured`,
       fallbackUsed: true
     };
   }
 
-  const model = process.env.OPENAI_MODEL || DEFAULT_MODEL;
-
   // Build system prompt for intent understanding
   const systemPrompt = `You are an expert at understanding user shopping queries and extracting structured intent. You work for ANY industry (fashion, electronics, home goods, beauty, health, automotive, food, sports, etc.).
 
@@ -232,7 +329,10 @@ Your task is to analyze the user's query and extract:
 1. **Hard Terms**: Concrete, searchable product terms and attributes (e.g., "blue", "shirt", "laptop", "sofa", "cotton", "wireless", "large", "organic", "rechargeable")
 2. **Soft Terms**: Abstract concepts, context, or style preferences (e.g., "formal", "casual", "work", "wedding", "eco-friendly", "comfortable", "stylish")
 3. **Avoid Terms**: Things the user wants to exclude (e.g., "no prints", "avoid plastic", "not red", "without batteries", "no floral", "don't want X")
-4. **Hard Facets**: Specific size, color, or material constraints if mentioned (works for any industry)
+4. **Hard Facets**: Specific facet constraints if mentioned (works for any industry)
+   - List EVERY facet constraint in "facets" as {name, values}: size, color and material, but also vintage, skin type, shade, scent, storage capacity, etc.
+   - Also copy size/color/material into hardFacets (first value)
+   - Several acceptable values for one facet go into the same entry (e.g., "2015 or 2016 vintage" → {name: "vintage", values: ["2015", "2016"]})
    - **CRITICAL**: Explicit sizes/colors/materials MUST be assigned to hardFacets (and per-item optionConstraints in bundle mode), NOT left in hardTerms
    - **CRITICAL**: For bundleItems, hardTerms MUST include the core product noun/type (e.g., "suit", "shirt", "trouser", "lipstick", "sofa"), NOT just adjectives like colors
    - **CRITICAL**: Each bundleItem should have itemType field set to the product type (not color/size/material). If missing, it will be derived from hardTerms.
@@ -241,6 +341,10 @@ Your task is to analyze the user's query and extract:
    - Example: "blue shirt in medium, black trousers in large" → bundleItems: [{hardTerms: ["shirt"], itemType: "shirt", constraints: {optionConstraints: {size: "medium", color: "blue"}}}, {hardTerms: ["trouser"], itemType: "trouser", constraints: {optionConstraints: {size: "large", color: "black"}}}]
 5. **Bundle Detection**: Whether the user wants MULTIPLE DISTINCT products (e.g., "laptop and mouse", "sofa and table", "suit and shirt") vs a single item
 6. **Preferences**: Style or feature preferences that guide selection (e.g., "plain", "wireless", "organic", "rechargeable", "waterproof", "eco-friendly")
+7. **Price Constraint**: For a single item, the price the user asked for as {min, max, target, tolerance, currency}
+   - "under $100" → max: 100; "at least $200" → min: 200; "between £50 and £80" → min: 50, max: 80
+   - "around 30 euros" → target: 30, tolerance: null (or a fraction such as 0.1 if the user says how close, e.g. "give or take 10%")
+   - currency is the ISO code if stated or implied by a symbol/word, else null; priceConstraint is null if no price is mentioned
 
 **CRITICAL RULES (MUST FOLLOW):**
 1. **Product vs Preference**: 
@@ -275,12 +379,19 @@ Your task is to analyze the user's query and extract:
 
 6. **Context Awareness**: Use conversation history to understand context (e.g., follow-up questions)
 
+7. **Prices Are Not Terms**: Never put prices or amounts in hardTerms/softTerms; use priceConstraint (single item) or totalBudget (bundle)
+
 **EXAMPLES (diverse industries and query types):**
 - Fashion Single: "Blue shirt but no prints or floral, i want plain" → isBundle: false, hardTerms: ["blue", "shirt"], avoidTerms: ["prints", "floral"], preferences: ["plain"]
 - Fashion Single: "i want a blue shirt, no floral or print, i want it plain" → isBundle: false, hardTerms: ["blue", "shirt"], avoidTerms: ["floral", "print"], preferences: ["plain"]
-- Electronics Single: "Wireless headphones under $100" → isBundle: false, hardTerms: ["wireless", "headphones"], totalBudget: 100, preferences: ["wireless"]
+- Electronics Single: "Wireless headphones under $100" → isBundle: false, hardTerms: ["wireless", "headphones"], totalBudget: 100, priceConstraint: {min: null, max: 100, target: null, tolerance: null, currency: "USD"}, preferences: ["wireless"]
+- Fashion Single: "A leather jacket between £150 and £250" → isBundle: false, hardTerms: ["leather", "jacket"], priceConstraint: {min: 150, max: 250, target: null, tolerance: null, currency: "GBP"}
+- Wine Single: "A red wine around 30 euros" → isBundle: false, hardTerms: ["red", "wine"], priceConstraint: {min: null, max: null, target: 30, tolerance: null, currency: "EUR"}
 - Electronics Single: "I need a laptop for work" → isBundle: false, hardTerms: ["laptop"], softTerms: ["work"]
-- Home Single: "Comfortable sofa in gray" → isBundle: false, hardTerms: ["sofa"], softTerms: ["comfortable"], hardFacets: {color: "gray", size: null, material: null}
+- Home Single: "Comfortable sofa in gray" → isBundle: false, hardTerms: ["sofa"], softTerms: ["comfortable"], hardFacets: {color: "gray", size: null, material: null}, facets: [{name: "color", values: ["gray"]}]
+- Wine Single: "A 2015 Rioja" → isBundle: false, hardTerms: ["rioja"], facets: [{name: "vintage", values: ["2015"]}]
+- Beauty Single: "Foundation for oily skin in shade 120" → isBundle: false, hardTerms: ["foundation"], facets: [{name: "skin type", values: ["oily"]}, {name: "shade", values: ["120"]}]
+- Electronics Single: "iPhone with 256GB" → isBundle: false, hardTerms: ["iphone"], facets: [{name: "storage capacity", values: ["256GB"]}]
 - Home Bundle: "Sofa and coffee table" → isBundle: true, bundleItems: [{"hardTerms": ["sofa"]}, {"hardTerms": ["coffee", "table"]}]
 - Beauty Single: "Organic face cream without parabens" → isBundle: false, hardTerms: ["organic", "face", "cream"], avoidTerms: ["parabens"], preferences: ["organic"]
 - Fashion Bundle: "Suit, shirt and trousers for $500" → isBundle: true, bundleItems: [{"hardTerms": ["suit"]}, {"hardTerms": ["shirt"]}, {"hardTerms": ["trousers"]}], totalBudget: 500
@@ -295,7 +406,7 @@ Your task is to analyze the user's query and extract:
 - All arrays must be arrays (even if empty)
 - All objects must have required fields (can be null)
 - Bundle items only populated if isBundle is true
-- Preferences array can be empty if none detected`;
+- Preferences array can be empty if none detected${buildAllowedFacetsPrompt(allowedFacets)}`;
 
   // Build messages array
   const messages: Array<{ role: "system" | "user" | "assistant"; content: string }> = [];
@@ -322,70 +433,34 @@ Your task is to analyze the user's query and extract:
     content: `Parse the intent from this query: "${userQuery}"`
   });
 
-  // Build request body with strict JSON schema
-  const requestBody = {
-    model,
-    messages,
-    response_format: {
-      type: "json_schema",
-      json_schema: {
+  try {
+    // Strict JSON schema, deterministic output
+    const response = await llmChat({
+      purpose: "intent",
+      messages,
+      jsonSchema: {
         name: "parsed_intent",
         strict: true,
         schema: buildIntentSchema()
-      }
-    },
-    temperature: 0, // Deterministic output
-    max_tokens: 500
-  };
-
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-    const response = await fetch(OPENAI_CHAT_COMPLETIONS_URL, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`,
-        "Content-Type": "application/json"
       },
-      signal: controller.signal,
-      body: JSON.stringify(requestBody)
+      temperature: 0,
+      maxTokens: 500,
+      timeoutMs,
+      retries,
+      retryBackoffMs: { min: INTENT_PARSE_RETRY_BACKOFF_MIN_MS, max: INTENT_PARSE_RETRY_BACKOFF_MAX_MS }
     });
 
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.warn("[Intent Parsing] OpenAI API error:", response.status, errorText.substring(0, 200));
+    let parsedIntent: ParsedIntent;
+    if (response.parsed && typeof response.parsed === "object") {
+      parsedIntent = response.parsed as ParsedIntent;
+      console.log("[Intent Parsing] structured_outputs=true (parsed from content)");
+    } else if (response.content) {
+      console.warn("[Intent Parsing] JSON parse error: content is not valid JSON");
       return {
         success: false,
-        error: `HTTP ${response.status}`,
+        error: "Failed to parse JSON response",
         fallbackUsed: true
       };
-    }
-
-    const data = await response.json();
-    const message = data.choices?.[0]?.message;
-    
-    // Try to use parsed output first (if available from structured outputs)
-    let parsedIntent: ParsedIntent;
-    if (message?.parsed) {
-      // Use parsed output directly (structured outputs with strict schema)
-      parsedIntent = message.parsed as ParsedIntent;
-      console.log("[Intent Parsing] structured_outputs=true (using parsed output)");
-    } else if (message?.content) {
-      // Fallback to parsing JSON from content
-      try {
-        parsedIntent = JSON.parse(message.content);
-        console.log("[Intent Parsing] structured_outputs=true (parsed from content)");
-      } catch (parseError) {
-        console.warn("[Intent Parsing] JSON parse error:", parseError);
-        return {
-          success: false,
-          error: "Failed to parse JSON response",
-          fallbackUsed: true
-        };
-      }
     } else {
       return {
         success: false,
@@ -419,6 +494,18 @@ Your task is to analyze the user's query and extract:
       }
     }
     
+    // Generic facets: keep size/color/material in sync with hardFacets
+    const facets = normalizeIntentFacets(parsedIntent.facets, allowedFacets);
+    for (const facet of LEGACY_FACETS as Array<"size" | "color" | "material">) {
+      const legacyValue = parsedIntent.hardFacets[facet];
+      if (legacyValue) {
+        facets[facet] = mergeFacetValues([{ [facet]: [legacyValue] }, { [facet]: facets[facet] ?? [] }])[facet];
+      } else if (facets[facet]?.length) {
+        parsedIntent.hardFacets[facet] = facets[facet][0];
+      }
+    }
+    parsedIntent.facets = facets;
+    
     // Validate bundle structure
     if (parsedIntent.isBundle === true) {
       if (!parsedIntent.bundleItems || !Array.isArray(parsedIntent.bundleItems)) {
@@ -464,6 +551,7 @@ Your task is to analyze the user's query and extract:
     if (parsedIntent.totalBudgetCurrency !== null && typeof parsedIntent.totalBudgetCurrency !== "string") {
       parsedIntent.totalBudgetCurrency = null;
     }
+    parsedIntent.priceConstraint = normalizePriceConstraint(parsedIntent.priceConstraint);
     
     // Normalize string arrays (remove empty strings, trim)
     parsedIntent.hardTerms = parsedIntent.hardTerms.filter(t => typeof t === "string" && t.trim().length > 0).map(t => t.trim());
@@ -478,7 +566,9 @@ Your task is to analyze the user's query and extract:
       avoidTermsCount: parsedIntent.avoidTerms.length,
       preferencesCount: parsedIntent.preferences.length,
       bundleItemsCount: parsedIntent.bundleItems?.length || 0,
-      totalBudget: parsedIntent.totalBudget
+      facets: Object.keys(parsedIntent.facets),
+      totalBudget: parsedIntent.totalBudget,
+      priceConstraint: parsedIntent.priceConstraint
     });
 
     return {
@@ -488,7 +578,7 @@ Your task is to analyze the user's query and extract:
     };
 
   } catch (error: any) {
-    if (isTimeoutError(error)) {
+    if (error instanceof LLMProviderError && error.kind === "timeout") {
       console.warn("[Intent Parsing] Timeout after", timeoutMs, "ms");
       return {
         success: false,
@@ -497,6 +587,15 @@ Your task is to analyze the user's query and extract:
       };
     }
     
+    if (error instanceof LLMProviderError && error.kind === "http") {
+      console.warn("[Intent Parsing] LLM API error:", error.status, error.message.substring(0, 200));
+      return {
+        success: false,
+        error: `HTTP ${error.status}`,
+        fallbackUsed: true
+      };
+    }
+    
     console.warn("[Intent Parsing] Error:", error.message || String(error));
     return {
       success: false,
@@ -507,37 +606,23 @@ Your task is to analyze the user's query and extract:
 }
 
 /**
- * Parse user intent using OpenAI LLM with retry on timeout
+ * Parse user intent using the configured LLM provider (one retry on timeout / transient errors)
  * Returns structured intent that replaces pattern-based parsing
  */
 export async function parseIntentWithLLM(
   userQuery: string,
-  conversationHistory?: Array<{ role: "system" | "user" | "assistant"; content: string }>
+  conversationHistory?: Array<{ role: "system" | "user" | "assistant"; content: string }>,
+  options: IntentParseOptions = {}
 ): Promise<IntentParseResult> {
   // Calculate dynamic timeout
   const timeoutMs = calculateIntentParseTimeout(conversationHistory);
   
-  // First attempt
-  let result = await parseIntentAttempt(userQuery, conversationHistory, timeoutMs);
+  const result = await parseIntentAttempt(userQuery, conversationHistory, timeoutMs, 1, options.allowedFacets);
   
-  // Retry only on timeout errors
   if (!result.success && result.error === "Request timeout") {
-    // Small jitter backoff (300-800ms)
-    const backoffMs = INTENT_PARSE_RETRY_BACKOFF_MIN_MS + 
-      Math.floor(Math.random() * (INTENT_PARSE_RETRY_BACKOFF_MAX_MS - INTENT_PARSE_RETRY_BACKOFF_MIN_MS));
-    
-    console.log(`[Intent Parsing] Retrying after timeout, backoff=${backoffMs}ms`);
-    await new Promise(resolve => setTimeout(resolve, backoffMs));
-    
-    // Second attempt
-    result = await parseIntentAttempt(userQuery, conversationHistory, timeoutMs);
-    
-    if (!result.success) {
-      // Both attempts failed - mark clearly in logs
-      console.warn(`[Intent Parsing] fallback=pattern timeout=true attempts=2`);
-    }
+    // Both attempts failed - mark clearly in logs
+    console.warn(`[Intent Parsing] fallback=pattern timeout=true attempts=2`);
   }
   
   return result;
 }
-
@@ -0,0 +1,35 @@
+/**
+ * Unit tests for LLM intent parsing helpers
+ * Generic facets and how the shop's facet vocabulary constrains them
+ */
+
+import { describe, expect, it } from "vitest";
+import { normalizeIntentFacets } from "./intent-parsing.server";
+
+describe("normalizeIntentFacets", () => {
+  it("turns the LLM facet list into a facet -> values map", () => {
+    expect(
+      normalizeIntentFacets([
+        { name: "Vintage", values: ["2015", " 2016 "] },
+        { name: "Colour", values: ["Red"] },
+        { name: "skin type", values: [] },
+      ])
+    ).toEqual({ vintage: ["2015", "2016"], color: ["Red"] });
+  });
+
+  it("keeps facets and values within the shop's vocabulary", () => {
+    const allowed = { "skin type": ["oily", "dry"], shade: ["120 ivory", "220 beige"] };
+
+    expect(
+      normalizeIntentFacets(
+        [
+          { name: "skin type", values: ["Oily", "sensitive"] },
+          { name: "shade", values: ["120"] },
+          { name: "vintage", values: ["2015"] },
+          { name: "size", values: ["30ml"] },
+        ],
+        allowed
+      )
+    ).toEqual({ "skin type": ["oily"], shade: ["120"], size: ["30ml"] });
+  });
+});
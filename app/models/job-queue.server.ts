@@ -0,0 +1,218 @@
+import prisma from "~/db.server";
+import { BackgroundJobStatus, Prisma, type BackgroundJob } from "@prisma/client";
+
+/**
+ * Postgres-backed job queue (BackgroundJob table, no external broker)
+ * Workers (utils/background-jobs.server) claim due jobs with a lease; a worker that dies stops
+ * renewing it and the job is claimed again once the lease expires. Failures are retried with
+ * exponential backoff until maxAttempts, then the job is dead-lettered (status DEAD).
+ */
+
+export type JobType = "session.process" | "embeddings.refresh";
+
+/**
+ * One processing job per concierge session
+ */
+export function sessionJobDedupeKey(sessionToken: string): string {
+  return `session:${sessionToken}`;
+}
+
+export const DEFAULT_JOB_LEASE_MS = 2 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+const MAX_ERROR_LENGTH = 2000;
+
+type EnqueueListener = () => void;
+const enqueueListeners = new Set<EnqueueListener>();
+
+/**
+ * Called after a job is enqueued in this process, so a local worker can claim it right away
+ */
+export function onJobEnqueued(listener: EnqueueListener): () => void {
+  enqueueListeners.add(listener);
+  return () => enqueueListeners.delete(listener);
+}
+
+/**
+ * Delay before retry number `attempt` (1-based): 5s, 10s, 20s, ... capped at 5 minutes
+ */
+export function computeRetryDelayMs(attempt: number): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** exponent);
+}
+
+/**
+ * Adds a job. With a dedupeKey, an existing job for the same key is reused (and re-queued when it is
+ * dead or completed and `requeue` is set), so retried requests never process the same session twice.
+ */
+export async function enqueueJob(
+  type: JobType,
+  payload: Prisma.InputJsonValue,
+  options: { dedupeKey?: string; maxAttempts?: number; runAt?: Date; requeue?: boolean } = {}
+): Promise<BackgroundJob> {
+  const data = {
+    type,
+    payloadJson: payload,
+    maxAttempts: options.maxAttempts ?? 3,
+    runAt: options.runAt ?? new Date(),
+  };
+
+  let job: BackgroundJob;
+  if (options.dedupeKey) {
+    const existing = await prisma.backgroundJob.findUnique({ where: { dedupeKey: options.dedupeKey } });
+    const finished = existing?.status === BackgroundJobStatus.DEAD || existing?.status === BackgroundJobStatus.COMPLETED;
+    if (existing && !(finished && options.requeue)) {
+      return existing;
+    }
+    job = existing
+      ? await prisma.backgroundJob.update({
+          where: { id: existing.id },
+          data: { ...data, status: BackgroundJobStatus.QUEUED, attempts: 0, leaseOwner: null, leaseExpiresAt: null, finishedAt: null },
+        })
+      : await prisma.backgroundJob.create({ data: { ...data, dedupeKey: options.dedupeKey } });
+  } else {
+    job = await prisma.backgroundJob.create({ data });
+  }
+
+  console.log("[Job Queue] Enqueued", { jobId: job.id, type, dedupeKey: options.dedupeKey ?? null });
+  enqueueListeners.forEach((listener) => listener());
+  return job;
+}
+
+/**
+ * Claims the oldest due job of the given types: QUEUED and due, or RUNNING with an expired lease.
+ * SKIP LOCKED lets several workers (and instances) claim concurrently without taking the same job.
+ */
+export async function claimNextJob(
+  types: JobType[],
+  workerId: string,
+  leaseMs: number = DEFAULT_JOB_LEASE_MS
+): Promise<BackgroundJob | null> {
+  if (types.length === 0) return null;
+  const rows = await prisma.$queryRaw<BackgroundJob[]>`
+    UPDATE "BackgroundJob"
+    SET "status" = 'RUNNING',
+        "attempts" = "attempts" + 1,
+        "leaseOwner" = ${workerId},
+        "leaseExpiresAt" = NOW() + (${leaseMs} * INTERVAL '1 millisecond'),
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "BackgroundJob"
+      WHERE "type" IN (${Prisma.join(types)})
+        AND "attempts" < "maxAttempts"
+        AND (
+          ("status" = 'QUEUED' AND "runAt" <= NOW())
+          OR ("status" = 'RUNNING' AND "leaseExpiresAt" < NOW())
+        )
+      ORDER BY "runAt" ASC
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING *
+  `;
+  return rows[0] ?? null;
+}
+
+/**
+ * Extends the lease while the handler is still running; false when the job was taken over
+ */
+export async function renewJobLease(jobId: string, workerId: string, leaseMs: number = DEFAULT_JOB_LEASE_MS): Promise<boolean> {
+  const { count } = await prisma.backgroundJob.updateMany({
+    where: { id: jobId, leaseOwner: workerId, status: BackgroundJobStatus.RUNNING },
+    data: { leaseExpiresAt: new Date(Date.now() + leaseMs) },
+  });
+  return count > 0;
+}
+
+export async function completeJob(jobId: string, workerId: string): Promise<void> {
+  await prisma.backgroundJob.updateMany({
+    where: { id: jobId, leaseOwner: workerId },
+    data: { status: BackgroundJobStatus.COMPLETED, leaseOwner: null, leaseExpiresAt: null, finishedAt: new Date() },
+  });
+}
+
+/**
+ * Records a failed attempt: re-queued with backoff, or dead-lettered when out of attempts.
+ * Returns the resulting status so the caller can run its dead-letter handling.
+ */
+export async function failJob(job: BackgroundJob, workerId: string, error: unknown): Promise<BackgroundJobStatus> {
+  const lastError = (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH);
+  const dead = job.attempts >= job.maxAttempts;
+  await prisma.backgroundJob.updateMany({
+    where: { id: job.id, leaseOwner: workerId },
+    data: dead
+      ? { status: BackgroundJobStatus.DEAD, lastError, leaseOwner: null, leaseExpiresAt: null, finishedAt: new Date() }
+      : {
+          status: BackgroundJobStatus.QUEUED,
+          lastError,
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          runAt: new Date(Date.now() + computeRetryDelayMs(job.attempts)),
+        },
+  });
+  console.warn("[Job Queue] Job failed", { jobId: job.id, type: job.type, attempt: job.attempts, dead, error: lastError });
+  return dead ? BackgroundJobStatus.DEAD : BackgroundJobStatus.QUEUED;
+}
+
+/**
+ * Dead-letters RUNNING jobs whose lease expired on their last attempt (claimNextJob skips them)
+ */
+export async function deadLetterExpiredJobs(now: Date = new Date()): Promise<BackgroundJob[]> {
+  const expired = await prisma.backgroundJob.findMany({
+    where: { status: BackgroundJobStatus.RUNNING, leaseExpiresAt: { lt: now } },
+  });
+  const exhausted = expired.filter((job) => job.attempts >= job.maxAttempts);
+  if (exhausted.length === 0) return [];
+  await prisma.backgroundJob.updateMany({
+    where: { id: { in: exhausted.map((job) => job.id) }, status: BackgroundJobStatus.RUNNING },
+    data: { status: BackgroundJobStatus.DEAD, lastError: "Lease expired on the last attempt", leaseOwner: null, finishedAt: now },
+  });
+  return exhausted;
+}
+
+export type JobQueueStats = {
+  counts: Record<BackgroundJobStatus, number>;
+  oldestQueuedAt: Date | null; // Oldest job waiting to run (queue age)
+  oldestRunningAt: Date | null;
+  expiredLeases: number;
+  recentDead: Array<{ id: string; type: string; attempts: number; lastError: string | null; finishedAt: Date | null }>;
+};
+
+/**
+ * Queue depth and age for app.diagnose (all shops: the queue is shared)
+ */
+export async function getJobQueueStats(now: Date = new Date()): Promise<JobQueueStats> {
+  const grouped = await prisma.backgroundJob.groupBy({ by: ["status"], _count: { _all: true } });
+  const counts = { QUEUED: 0, RUNNING: 0, COMPLETED: 0, DEAD: 0 } as Record<BackgroundJobStatus, number>;
+  grouped.forEach((row) => {
+    counts[row.status] = row._count._all;
+  });
+
+  const [oldestQueued, oldestRunning, expiredLeases, recentDead] = await Promise.all([
+    prisma.backgroundJob.findFirst({
+      where: { status: BackgroundJobStatus.QUEUED },
+      orderBy: { createdAt: "asc" },
+      select: { createdAt: true },
+    }),
+    prisma.backgroundJob.findFirst({
+      where: { status: BackgroundJobStatus.RUNNING },
+      orderBy: { createdAt: "asc" },
+      select: { createdAt: true },
+    }),
+    prisma.backgroundJob.count({ where: { status: BackgroundJobStatus.RUNNING, leaseExpiresAt: { lt: now } } }),
+    prisma.backgroundJob.findMany({
+      where: { status: BackgroundJobStatus.DEAD },
+      orderBy: { finishedAt: "desc" },
+      take: 10,
+      select: { id: true, type: true, attempts: true, lastError: true, finishedAt: true },
+    }),
+  ]);
+
+  return {
+    counts,
+    oldestQueuedAt: oldestQueued?.createdAt ?? null,
+    oldestRunningAt: oldestRunning?.createdAt ?? null,
+    expiredLeases,
+    recentDead,
+  };
+}
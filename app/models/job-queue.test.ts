@@ -0,0 +1,52 @@
+/**
+ * Unit tests for the background job queue
+ * Retry backoff and the stale session sweeper decision
+ */
+
+import { describe, expect, it } from "vitest";
+import { BackgroundJobStatus } from "@prisma/client";
+import { computeRetryDelayMs, sessionJobDedupeKey } from "./job-queue.server";
+import { decideStaleSessionAction, MAX_SESSION_PROCESSING_MS, STALE_SESSION_MS } from "~/utils/job-worker.server";
+
+describe("computeRetryDelayMs", () => {
+  it("doubles the delay for each attempt", () => {
+    expect(computeRetryDelayMs(1)).toBe(5000);
+    expect(computeRetryDelayMs(2)).toBe(10000);
+    expect(computeRetryDelayMs(3)).toBe(20000);
+  });
+
+  it("caps the delay at five minutes", () => {
+    expect(computeRetryDelayMs(20)).toBe(5 * 60 * 1000);
+    expect(computeRetryDelayMs(0)).toBe(5000);
+  });
+});
+
+describe("sessionJobDedupeKey", () => {
+  it("keys processing jobs by session token", () => {
+    expect(sessionJobDedupeKey("abc")).toBe("session:abc");
+  });
+});
+
+describe("decideStaleSessionAction", () => {
+  const now = new Date("2026-01-01T12:00:00Z");
+  const ago = (ms: number) => new Date(now.getTime() - ms);
+
+  it("waits while the queue still owns the session", () => {
+    const session = { createdAt: ago(STALE_SESSION_MS * 2), updatedAt: ago(STALE_SESSION_MS * 2) };
+    expect(decideStaleSessionAction(session, BackgroundJobStatus.QUEUED, now)).toBe("wait");
+    expect(decideStaleSessionAction(session, BackgroundJobStatus.RUNNING, now)).toBe("wait");
+  });
+
+  it("requeues a stale session that has no job", () => {
+    expect(decideStaleSessionAction({ createdAt: ago(STALE_SESSION_MS), updatedAt: ago(STALE_SESSION_MS) }, null, now)).toBe("requeue");
+    expect(decideStaleSessionAction({ createdAt: ago(STALE_SESSION_MS), updatedAt: ago(1000) }, null, now)).toBe("wait");
+  });
+
+  it("fails dead-lettered, finished and overdue sessions", () => {
+    const recent = { createdAt: ago(STALE_SESSION_MS), updatedAt: ago(STALE_SESSION_MS) };
+    expect(decideStaleSessionAction(recent, BackgroundJobStatus.DEAD, now)).toBe("fail");
+    expect(decideStaleSessionAction(recent, BackgroundJobStatus.COMPLETED, now)).toBe("fail");
+    const overdue = { createdAt: ago(MAX_SESSION_PROCESSING_MS), updatedAt: ago(STALE_SESSION_MS) };
+    expect(decideStaleSessionAction(overdue, BackgroundJobStatus.RUNNING, now)).toBe("fail");
+  });
+});
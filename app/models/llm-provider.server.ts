@@ -0,0 +1,631 @@
+/**
+ * Pluggable LLM provider layer for EditMuse
+ *
+ * One interface for chat completion, JSON-schema output, timeouts, retries and token accounting.
+ * Providers:
+ * - "openai": OpenAI Chat Completions (default)
+ * - "openai_compatible": any OpenAI-compatible server (vLLM, Ollama, LM Studio, etc.) via LLM_BASE_URL
+ * - "fixture": deterministic replay of recorded responses (tests / CI, no network)
+ *
+ * Selected with LLM_PROVIDER. Callers never talk to a vendor URL directly.
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+
+export type LLMRole = "system" | "user" | "assistant";
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+export interface LLMJsonSchema {
+  name: string;
+  schema: Record<string, unknown>;
+  strict?: boolean;
+}
+
+export interface LLMChatRequest {
+  /** Caller tag used for fixtures and token accounting (e.g. "ranking", "intent", "synonyms") */
+  purpose: string;
+  messages: LLMMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** Structured output with a strict JSON schema */
+  jsonSchema?: LLMJsonSchema;
+  /** Free-form JSON object output (for models without json_schema support) */
+  jsonObject?: boolean;
+  timeoutMs?: number;
+  /** Extra attempts after the first on retryable failures (timeout, 429, 5xx, network). Default 0 */
+  retries?: number;
+  /** Jittered backoff range between attempts */
+  retryBackoffMs?: { min: number; max: number };
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMChatResponse {
+  id: string | null;
+  model: string;
+  content: string | null;
+  /** JSON-parsed content when jsonSchema/jsonObject was requested and content parsed cleanly */
+  parsed: unknown;
+  refusal: string | null;
+  finishReason: string | null;
+  usage: LLMUsage;
+  attempts: number;
+  latencyMs: number;
+}
+
+export type LLMErrorKind = "config" | "timeout" | "http" | "network" | "fixture_missing";
+
+export class LLMProviderError extends Error {
+  kind: LLMErrorKind;
+  status: number | null;
+  type: string | null;
+  code: string | null;
+  requestId: string | null;
+
+  constructor(
+    kind: LLMErrorKind,
+    message: string,
+    details: { status?: number | null; type?: string | null; code?: string | null; requestId?: string | null } = {}
+  ) {
+    super(message);
+    this.name = "LLMProviderError";
+    this.kind = kind;
+    this.status = details.status ?? null;
+    this.type = details.type ?? null;
+    this.code = details.code ?? null;
+    this.requestId = details.requestId ?? null;
+  }
+
+  get retryable(): boolean {
+    if (this.kind === "timeout" || this.kind === "network") return true;
+    return this.kind === "http" && this.status !== null && (this.status === 429 || this.status >= 500);
+  }
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  /** True when the provider has what it needs (API key, fixtures) to serve requests */
+  isConfigured(): boolean;
+  /** Default model when the request does not specify one */
+  getDefaultModel(): string;
+  /** Whether strict json_schema response_format is supported for a model */
+  supportsJsonSchema(model: string): boolean;
+  chat(request: LLMChatRequest): Promise<LLMChatResponse>;
+}
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+const DEFAULT_TIMEOUT_MS = 20000;
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+// Models known to accept response_format json_schema on api.openai.com
+const OPENAI_JSON_SCHEMA_MODELS = new Set([
+  "gpt-4o",
+  "gpt-4o-mini",
+  "gpt-4-turbo",
+  "gpt-4-turbo-preview",
+]);
+
+// Wire shapes of /chat/completions (only the fields read here)
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+}
+
+interface ChatCompletionBody {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string | null; refusal?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatCompletionUsage;
+}
+
+interface ChatCompletionErrorBody {
+  error?: { message?: string; type?: string; code?: string | null };
+}
+
+// ---------------------------------------------------------------------------
+// Token accounting
+// ---------------------------------------------------------------------------
+
+export interface LLMUsageTotals extends LLMUsage {
+  calls: number;
+  failures: number;
+}
+
+const usageByPurpose = new Map<string, LLMUsageTotals>();
+
+function emptyTotals(): LLMUsageTotals {
+  return { calls: 0, failures: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+}
+
+function recordUsage(purpose: string, usage: LLMUsage | null): void {
+  const totals = usageByPurpose.get(purpose) || emptyTotals();
+  totals.calls++;
+  if (usage) {
+    totals.promptTokens += usage.promptTokens;
+    totals.completionTokens += usage.completionTokens;
+    totals.totalTokens += usage.totalTokens;
+  } else {
+    totals.failures++;
+  }
+  usageByPurpose.set(purpose, totals);
+}
+
+/**
+ * Returns token totals per purpose since process start (or last reset)
+ */
+export function getLLMUsageTotals(): Record<string, LLMUsageTotals> {
+  return Object.fromEntries(Array.from(usageByPurpose.entries()).map(([k, v]) => [k, { ...v }]));
+}
+
+export function resetLLMUsageTotals(): void {
+  usageByPurpose.clear();
+}
+
+function normalizeUsage(raw: ChatCompletionUsage | null | undefined): LLMUsage {
+  const promptTokens = Number(raw?.prompt_tokens ?? raw?.promptTokens ?? 0) || 0;
+  const completionTokens = Number(raw?.completion_tokens ?? raw?.completionTokens ?? 0) || 0;
+  const totalTokens = Number(raw?.total_tokens ?? raw?.totalTokens ?? promptTokens + completionTokens) || 0;
+  return { promptTokens, completionTokens, totalTokens };
+}
+
+function parseJsonContent(content: string | null): unknown {
+  if (!content) return null;
+  try {
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError");
+}
+
+function errorMessage(error: unknown): string {
+  return (error instanceof Error && error.message) || String(error);
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI / OpenAI-compatible
+// ---------------------------------------------------------------------------
+
+export interface OpenAICompatibleOptions {
+  name?: string;
+  baseUrl: string;
+  apiKey?: string | null;
+  defaultModel?: string;
+  /** null = every model supports json_schema (typical for self-hosted servers with guided decoding) */
+  jsonSchemaModels?: Set<string> | null;
+  headers?: Record<string, string>;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  private readonly baseUrl: string;
+  private readonly apiKey: string | null;
+  private readonly defaultModel: string;
+  private readonly jsonSchemaModels: Set<string> | null;
+  private readonly headers: Record<string, string>;
+  private readonly requireApiKey: boolean;
+
+  constructor(options: OpenAICompatibleOptions & { requireApiKey?: boolean }) {
+    this.name = options.name || "openai_compatible";
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.apiKey = options.apiKey || null;
+    this.defaultModel = options.defaultModel || DEFAULT_MODEL;
+    this.jsonSchemaModels = options.jsonSchemaModels === undefined ? null : options.jsonSchemaModels;
+    this.headers = options.headers || {};
+    this.requireApiKey = options.requireApiKey ?? false;
+  }
+
+  isConfigured(): boolean {
+    return !this.requireApiKey || !!this.apiKey;
+  }
+
+  getDefaultModel(): string {
+    return this.defaultModel;
+  }
+
+  supportsJsonSchema(model: string): boolean {
+    return this.jsonSchemaModels === null || this.jsonSchemaModels.has(model);
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    if (!this.isConfigured()) {
+      throw new LLMProviderError("config", `${this.name}: API key not set`);
+    }
+
+    const model = request.model || this.defaultModel;
+    const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const body: Record<string, unknown> = {
+      model,
+      messages: request.messages,
+    };
+    if (request.temperature !== undefined) body.temperature = request.temperature;
+    if (request.maxTokens !== undefined) body.max_tokens = request.maxTokens;
+    if (request.jsonSchema) {
+      body.response_format = {
+        type: "json_schema",
+        json_schema: {
+          name: request.jsonSchema.name,
+          strict: request.jsonSchema.strict ?? true,
+          schema: request.jsonSchema.schema,
+        },
+      };
+    } else if (request.jsonObject) {
+      body.response_format = { type: "json_object" };
+    }
+
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { "Authorization": `Bearer ${this.apiKey}` } : {}),
+          ...this.headers,
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      clearTimeout(timeoutId);
+      if (isAbortError(error) || controller.signal.aborted) {
+        throw new LLMProviderError("timeout", `Request timeout after ${timeoutMs}ms`);
+      }
+      throw new LLMProviderError("network", errorMessage(error));
+    }
+
+    const requestId = response.headers.get("x-request-id");
+
+    let data: ChatCompletionBody | null;
+    try {
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => "");
+        const errorJson = parseJsonContent(errorText) as ChatCompletionErrorBody | null;
+        throw new LLMProviderError(
+          "http",
+          `HTTP ${response.status}${errorJson?.error?.message ? `: ${errorJson.error.message}` : errorText ? `: ${errorText.substring(0, 200)}` : ""}`,
+          {
+            status: response.status,
+            type: errorJson?.error?.type || null,
+            code: errorJson?.error?.code || null,
+            requestId,
+          }
+        );
+      }
+      data = (await response.json()) as ChatCompletionBody | null;
+    } catch (error) {
+      if (error instanceof LLMProviderError) throw error;
+      if (isAbortError(error) || controller.signal.aborted) {
+        throw new LLMProviderError("timeout", `Request timeout after ${timeoutMs}ms`);
+      }
+      throw new LLMProviderError("network", errorMessage(error), { status: response.status, requestId });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    const choice = data?.choices?.[0];
+    const content: string | null = typeof choice?.message?.content === "string" ? choice.message.content : null;
+    const wantsJson = !!request.jsonSchema || !!request.jsonObject;
+
+    return {
+      id: data?.id || requestId || null,
+      model: data?.model || model,
+      content,
+      parsed: wantsJson ? parseJsonContent(content) : null,
+      refusal: choice?.message?.refusal || null,
+      finishReason: choice?.finish_reason || null,
+      usage: normalizeUsage(data?.usage),
+      attempts: 1,
+      latencyMs: Date.now() - startedAt,
+    };
+  }
+}
+
+/**
+ * OpenAI Chat Completions (api.openai.com)
+ */
+export function createOpenAIProvider(): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider({
+    name: "openai",
+    baseUrl: process.env.OPENAI_BASE_URL || OPENAI_BASE_URL,
+    apiKey: process.env.OPENAI_API_KEY,
+    defaultModel: process.env.OPENAI_MODEL || DEFAULT_MODEL,
+    jsonSchemaModels: OPENAI_JSON_SCHEMA_MODELS,
+    requireApiKey: true,
+  });
+}
+
+/**
+ * Self-hosted / third-party OpenAI-compatible server
+ * LLM_BASE_URL (e.g. http://localhost:11434/v1), LLM_API_KEY (optional), LLM_MODEL,
+ * LLM_JSON_SCHEMA=false when the server cannot do guided JSON output
+ */
+export function createOpenAICompatibleProvider(): OpenAICompatibleProvider {
+  const jsonSchemaFlag = process.env.LLM_JSON_SCHEMA;
+  return new OpenAICompatibleProvider({
+    name: "openai_compatible",
+    baseUrl: process.env.LLM_BASE_URL || OPENAI_BASE_URL,
+    apiKey: process.env.LLM_API_KEY || null,
+    defaultModel: process.env.LLM_MODEL || process.env.OPENAI_MODEL || DEFAULT_MODEL,
+    jsonSchemaModels: jsonSchemaFlag === "false" || jsonSchemaFlag === "0" ? new Set() : null,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Fixture replay
+// ---------------------------------------------------------------------------
+
+export interface LLMFixtureResponse {
+  content?: string | null;
+  /** Convenience: serialized into content when content is omitted */
+  parsed?: unknown;
+  refusal?: string | null;
+  finishReason?: string | null;
+  usage?: Partial<LLMUsage>;
+}
+
+export interface LLMFixture {
+  purpose: string;
+  /** Exact request key (see fixtureKeyForRequest); most specific match */
+  key?: string;
+  /** Substring of the last user message; used when no exact key matches */
+  match?: string;
+  response: LLMFixtureResponse;
+}
+
+export type LLMFixtureResponder = (request: LLMChatRequest) => LLMFixtureResponse | null;
+
+/**
+ * Stable key for a request: purpose + messages + schema name (model and sampling settings excluded)
+ */
+export function fixtureKeyForRequest(request: LLMChatRequest): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify({
+      purpose: request.purpose,
+      messages: request.messages.map(m => ({ role: m.role, content: m.content })),
+      schema: request.jsonSchema?.name || null,
+    }))
+    .digest("hex")
+    .substring(0, 32);
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Replays recorded responses with no network access
+ * Lookup order: exact key -> "match" substring -> purpose default -> responder function
+ */
+export class FixtureReplayProvider implements LLMProvider {
+  readonly name = "fixture";
+  private readonly fixtures: LLMFixture[];
+  private readonly responders: Record<string, LLMFixtureResponder>;
+
+  constructor(options: { fixtures?: LLMFixture[]; responders?: Record<string, LLMFixtureResponder> } = {}) {
+    this.fixtures = options.fixtures || [];
+    this.responders = options.responders || {};
+  }
+
+  /**
+   * Load fixtures from a JSON file: either an array of fixtures or { fixtures: [...] }
+   */
+  static fromFile(path: string, responders?: Record<string, LLMFixtureResponder>): FixtureReplayProvider {
+    const raw = JSON.parse(fs.readFileSync(path, "utf8"));
+    const fixtures: LLMFixture[] = Array.isArray(raw) ? raw : Array.isArray(raw?.fixtures) ? raw.fixtures : [];
+    return new FixtureReplayProvider({ fixtures, responders });
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  getDefaultModel(): string {
+    return "fixture";
+  }
+
+  supportsJsonSchema(): boolean {
+    return true;
+  }
+
+  private lookup(request: LLMChatRequest): LLMFixtureResponse | null {
+    const key = fixtureKeyForRequest(request);
+    const forPurpose = this.fixtures.filter(f => f.purpose === request.purpose);
+
+    const exact = forPurpose.find(f => f.key === key);
+    if (exact) return exact.response;
+
+    const lastUser = [...request.messages].reverse().find(m => m.role === "user")?.content || "";
+    const matched = forPurpose.find(f => !f.key && f.match && lastUser.includes(f.match));
+    if (matched) return matched.response;
+
+    const fallback = forPurpose.find(f => !f.key && !f.match);
+    if (fallback) return fallback.response;
+
+    return this.responders[request.purpose]?.(request) ?? null;
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const fixture = this.lookup(request);
+    if (!fixture) {
+      throw new LLMProviderError(
+        "fixture_missing",
+        `No fixture for purpose="${request.purpose}" key=${fixtureKeyForRequest(request)}`
+      );
+    }
+
+    const content = fixture.content !== undefined
+      ? fixture.content
+      : fixture.parsed !== undefined ? JSON.stringify(fixture.parsed) : null;
+    const promptTokens = request.messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+    const completionTokens = content ? estimateTokens(content) : 0;
+    const wantsJson = !!request.jsonSchema || !!request.jsonObject;
+
+    return {
+      id: `fixture-${fixtureKeyForRequest(request).substring(0, 12)}`,
+      model: request.model || "fixture",
+      content,
+      parsed: wantsJson ? parseJsonContent(content) : null,
+      refusal: fixture.refusal ?? null,
+      finishReason: fixture.finishReason ?? "stop",
+      usage: {
+        promptTokens: fixture.usage?.promptTokens ?? promptTokens,
+        completionTokens: fixture.usage?.completionTokens ?? completionTokens,
+        totalTokens: fixture.usage?.totalTokens ?? promptTokens + completionTokens,
+      },
+      attempts: 1,
+      latencyMs: 0,
+    };
+  }
+}
+
+/**
+ * Wraps a provider and appends every successful exchange to a fixture file
+ * Used to record fixtures against a real model for later replay in CI
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(private readonly inner: LLMProvider, private readonly path: string) {
+    this.name = `${inner.name}+record`;
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured();
+  }
+
+  getDefaultModel(): string {
+    return this.inner.getDefaultModel();
+  }
+
+  supportsJsonSchema(model: string): boolean {
+    return this.inner.supportsJsonSchema(model);
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const response = await this.inner.chat(request);
+
+    let existing: LLMFixture[] = [];
+    if (fs.existsSync(this.path)) {
+      const raw = JSON.parse(fs.readFileSync(this.path, "utf8"));
+      existing = Array.isArray(raw) ? raw : raw?.fixtures || [];
+    }
+    const key = fixtureKeyForRequest(request);
+    const next = existing.filter(f => !(f.purpose === request.purpose && f.key === key));
+    next.push({
+      purpose: request.purpose,
+      key,
+      response: {
+        content: response.content,
+        refusal: response.refusal,
+        finishReason: response.finishReason,
+        usage: response.usage,
+      },
+    });
+    fs.writeFileSync(this.path, JSON.stringify({ fixtures: next }, null, 2));
+
+    return response;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Registry + call wrapper
+// ---------------------------------------------------------------------------
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Builds the provider selected by LLM_PROVIDER
+ */
+export function createLLMProviderFromEnv(): LLMProvider {
+  const providerName = (process.env.LLM_PROVIDER || "openai").toLowerCase();
+
+  let provider: LLMProvider;
+  if (providerName === "fixture") {
+    const path = process.env.LLM_FIXTURE_PATH;
+    provider = path ? FixtureReplayProvider.fromFile(path) : new FixtureReplayProvider();
+  } else if (providerName === "openai_compatible") {
+    provider = createOpenAICompatibleProvider();
+  } else {
+    provider = createOpenAIProvider();
+  }
+
+  const recordPath = process.env.LLM_FIXTURE_RECORD_PATH;
+  if (recordPath && providerName !== "fixture") {
+    provider = new RecordingProvider(provider, recordPath);
+  }
+
+  return provider;
+}
+
+/**
+ * Returns the active provider (created from env on first use)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createLLMProviderFromEnv();
+    console.log("[LLM] provider=", activeProvider.name, "configured=", activeProvider.isConfigured());
+  }
+  return activeProvider;
+}
+
+/**
+ * Overrides the active provider (tests, eval scripts). Pass null to rebuild from env.
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
+
+/**
+ * Runs a chat request on the active provider with retries and token accounting
+ */
+export async function llmChat(request: LLMChatRequest, provider: LLMProvider = getLLMProvider()): Promise<LLMChatResponse> {
+  const retries = Math.max(0, request.retries ?? 0);
+  const backoff = request.retryBackoffMs || { min: 300, max: 800 };
+  const startedAt = Date.now();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await provider.chat(request);
+      recordUsage(request.purpose, response.usage);
+      console.log("[LLM] purpose=", request.purpose, "provider=", provider.name, "model=", response.model,
+        "attempts=", attempt + 1, "prompt_tokens=", response.usage.promptTokens,
+        "completion_tokens=", response.usage.completionTokens, "latency_ms=", Date.now() - startedAt);
+      return { ...response, attempts: attempt + 1, latencyMs: Date.now() - startedAt };
+    } catch (error) {
+      const retryable = error instanceof LLMProviderError && error.retryable;
+      if (!retryable || attempt >= retries) {
+        recordUsage(request.purpose, null);
+        throw error;
+      }
+
+      const backoffMs = backoff.min + Math.floor(Math.random() * Math.max(0, backoff.max - backoff.min));
+      console.log(`[LLM] purpose=${request.purpose} retrying after ${(error as LLMProviderError).kind}, backoff=${backoffMs}ms`);
+      await new Promise(resolve => setTimeout(resolve, backoffMs));
+    }
+  }
+}
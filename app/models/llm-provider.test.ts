@@ -0,0 +1,155 @@
+/**
+ * Unit tests for the LLM provider layer
+ * Fixture replay, retries, token accounting, and an offline AI ranking run
+ */
+
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  FixtureReplayProvider,
+  LLMProviderError,
+  fixtureKeyForRequest,
+  getLLMUsageTotals,
+  llmChat,
+  resetLLMUsageTotals,
+  setLLMProvider,
+  type LLMChatRequest,
+  type LLMChatResponse,
+  type LLMProvider,
+} from "./llm-provider.server";
+import { rankProductsWithAI } from "./ai-ranking.server";
+
+const baseRequest: LLMChatRequest = {
+  purpose: "intent",
+  messages: [
+    { role: "system", content: "Parse intent" },
+    { role: "user", content: "Parse the intent from this query: \"blue linen shirt\"" },
+  ],
+  jsonSchema: { name: "parsed_intent", schema: { type: "object" } },
+};
+
+afterEach(() => {
+  setLLMProvider(null);
+  resetLLMUsageTotals();
+});
+
+describe("FixtureReplayProvider", () => {
+  it("prefers exact key, then match substring, then purpose default", async () => {
+    const provider = new FixtureReplayProvider({
+      fixtures: [
+        { purpose: "intent", response: { parsed: { source: "default" } } },
+        { purpose: "intent", match: "linen", response: { parsed: { source: "match" } } },
+        { purpose: "intent", key: fixtureKeyForRequest(baseRequest), response: { parsed: { source: "exact" } } },
+      ],
+    });
+
+    expect((await provider.chat(baseRequest)).parsed).toEqual({ source: "exact" });
+
+    const other = { ...baseRequest, messages: [{ role: "user" as const, content: "linen trousers" }] };
+    expect((await provider.chat(other)).parsed).toEqual({ source: "match" });
+
+    const unrelated = { ...baseRequest, messages: [{ role: "user" as const, content: "wool coat" }] };
+    expect((await provider.chat(unrelated)).parsed).toEqual({ source: "default" });
+  });
+
+  it("falls back to a responder and throws when nothing matches", async () => {
+    const provider = new FixtureReplayProvider({
+      responders: { synonyms: () => ({ content: "[\"sneakers\"]" }) },
+    });
+
+    const synonyms = await provider.chat({ purpose: "synonyms", messages: [{ role: "user", content: "trainers" }] });
+    expect(synonyms.content).toBe("[\"sneakers\"]");
+    expect(synonyms.parsed).toBeNull();
+
+    await expect(provider.chat(baseRequest)).rejects.toMatchObject({ kind: "fixture_missing" });
+  });
+});
+
+describe("llmChat", () => {
+  function flakyProvider(failures: LLMProviderError[]): LLMProvider & { calls: number } {
+    return {
+      name: "flaky",
+      calls: 0,
+      isConfigured: () => true,
+      getDefaultModel: () => "test",
+      supportsJsonSchema: () => true,
+      async chat(): Promise<LLMChatResponse> {
+        this.calls++;
+        const failure = failures.shift();
+        if (failure) throw failure;
+        return {
+          id: "ok",
+          model: "test",
+          content: "{}",
+          parsed: {},
+          refusal: null,
+          finishReason: "stop",
+          usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+          attempts: 1,
+          latencyMs: 1,
+        };
+      },
+    };
+  }
+
+  it("retries transient failures up to the retry budget", async () => {
+    const provider = flakyProvider([new LLMProviderError("timeout", "Request timeout after 10ms")]);
+    const response = await llmChat({ ...baseRequest, retries: 1, retryBackoffMs: { min: 0, max: 0 } }, provider);
+    expect(response.attempts).toBe(2);
+    expect(provider.calls).toBe(2);
+  });
+
+  it("does not retry non-transient HTTP errors", async () => {
+    const provider = flakyProvider([new LLMProviderError("http", "HTTP 400", { status: 400 })]);
+    await expect(llmChat({ ...baseRequest, retries: 2 }, provider)).rejects.toMatchObject({ status: 400 });
+    expect(provider.calls).toBe(1);
+  });
+
+  it("accumulates token usage per purpose", async () => {
+    const provider = flakyProvider([]);
+    await llmChat(baseRequest, provider);
+    await llmChat(baseRequest, provider);
+    expect(getLLMUsageTotals().intent).toEqual({
+      calls: 2,
+      failures: 0,
+      promptTokens: 20,
+      completionTokens: 10,
+      totalTokens: 30,
+    });
+  });
+});
+
+describe("rankProductsWithAI offline", () => {
+  it("runs the ranking pipeline against the fixture provider with no network", async () => {
+    const candidates = ["linen-shirt", "wool-coat", "denim-jacket"].map((handle, i) => ({
+      handle,
+      title: handle.replace("-", " "),
+      tags: [],
+      productType: null,
+      vendor: null,
+      price: String(40 + i * 10),
+      description: null,
+      available: true,
+    }));
+
+    setLLMProvider(new FixtureReplayProvider({
+      fixtures: [{
+        purpose: "ranking",
+        response: {
+          parsed: {
+            trustFallback: false,
+            selected: [
+              { handle: "wool-coat", score: 90, label: "exact" },
+              { handle: "linen-shirt", score: 70, label: "good" },
+            ],
+          },
+        },
+      }],
+    }));
+
+    const result = await rankProductsWithAI("warm coat", candidates, 2);
+
+    expect(result.source).toBe("ai");
+    expect(result.selectedHandles.slice(0, 2)).toEqual(["wool-coat", "linen-shirt"]);
+    expect(getLLMUsageTotals().ranking?.calls).toBe(1);
+  });
+});
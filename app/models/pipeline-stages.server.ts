@@ -0,0 +1,1050 @@
+/**
+ * Recommendation pipeline stages (see utils/pipeline-stage.server.ts for the contract)
+ * Steps of processSessionInBackground that run on their own: catalog access is injected
+ * (search / description fetchers), so each stage can be exercised against a fixture catalog.
+ */
+
+import type { PipelineStage } from "~/utils/pipeline-stage.server";
+import { cleanDescription, extractSearchText } from "~/utils/text-indexing.server";
+import { canonicalizeGroupKey, deriveFamilyKey } from "~/utils/product-family.server";
+import { priceWithinBounds, type PriceBounds } from "~/utils/price-constraint.server";
+import { fuseHybridRanking } from "~/utils/hybrid-retrieval.server";
+import { matchesHardTermWithBoundary } from "~/utils/candidate-retrieval.server";
+import { applyMerchandisingRules, type MerchandisingOutcome } from "~/utils/merchandising-rules.server";
+import type { MerchandisingRule } from "~/utils/merchandising-rules";
+
+/**
+ * Minimal product / candidate shape the stages rely on; the pipeline passes richer objects through untouched
+ */
+export type StageCandidate = {
+  handle: string;
+  title?: string | null;
+  productType?: string | null;
+  vendor?: string | null;
+  tags?: string[] | null;
+  description?: string | null;
+  price?: string | number | null;
+  priceAmount?: string | number | null;
+  available?: boolean;
+  [key: string]: unknown;
+};
+
+export type FetchSignals = { keywords: string[]; selections: string[]; hasMeaningfulSignals: boolean };
+
+export type StageProductSearch = (
+  query: string,
+  targetCount: number
+) => Promise<{ products: StageCandidate[]; hasMorePages: boolean; totalFetched: number }>;
+
+export type StageQueryBuilder = (
+  signals: FetchSignals,
+  maxQueryLength: number,
+  strategy?: "field_restricted" | "broad_text" | "two_pass",
+  expandedTerms?: string[]
+) => string | null;
+
+export type StageDescriptionFetch = (handles: string[]) => Promise<Map<string, string | null>>;
+
+function handlesOf(items: Array<{ handle: string }>): string[] {
+  return items.map((item) => item.handle);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// ============================================
+// INTENT-FIRST SMART FETCH
+// ============================================
+
+const NEGATIVE_INDICATORS = ["no", "sans", "free", "without", "not", "non", "zero", "0", "ohne", "sin"];
+
+// Stopwords ignored by the "all tokens must match" check for phrase queries
+const PHRASE_CHECK_STOPWORDS = new Set(["the", "a", "an", "and", "or", "but", "in", "on", "at", "to", "for", "of", "with", "by",
+  "from", "as", "is", "was", "are", "were", "been", "be", "have", "has", "had", "do", "does", "did",
+  "will", "would", "could", "should", "may", "might", "must", "can", "this", "that", "thats", "that's", "these", "those",
+  "i", "you", "he", "she", "it", "we", "they", "me", "him", "her", "us", "them",
+  "what", "which", "who", "whom", "where", "when", "why", "how", "if", "then", "else",
+  "about", "above", "after", "before", "below", "between", "during", "through", "under", "over",
+  "up", "down", "out", "off", "away", "back", "here", "there", "everywhere", "nowhere",
+  "some", "any", "all", "both", "each", "every", "few", "many", "most", "other", "such",
+  "no", "not", "none", "nothing", "nobody", "never", "neither", "nor",
+  "want", "looking", "need", "prefer", "like", "add", "also", "less", "than",
+  "products", "product", "items", "item", "goods", "merchandise",
+  "contain", "contains", "containing", "having", "includes", "including",
+  "whose", "something", "anything", "everything"]);
+
+/**
+ * Drops products that only match a keyword in a negated form ("perfume-free", "no perfume", "0% perfume")
+ * and, for phrase selections, products that match just one token of the phrase (e.g. "Hair Food" for "pet food")
+ */
+export function filterNegativeMatches<T extends StageCandidate>(products: T[], keywords: string[], selections: string[] = []): T[] {
+  const negatives = NEGATIVE_INDICATORS.join("|");
+  const meaningfulKeywords = keywords.filter((k) => k.length >= 4);
+  const phraseSelections = selections.filter((s) => s.includes(" ") && s.trim().length >= 6);
+
+  return products.filter((p) => {
+    const searchableText = [
+      p.title || "",
+      p.productType || "",
+      (p.tags || []).join(" "),
+      p.vendor || "",
+      p.handle || "", // Include handle to catch patterns like "0-perfume" in URL
+    ].join(" ").toLowerCase();
+
+    const hasNegativeMatch = meaningfulKeywords.some((keyword) => {
+      const k = escapeRegExp(keyword.toLowerCase());
+      return [
+        new RegExp(`\\b(?:${negatives})\\s+${k}\\b`, "i"),
+        new RegExp(`\\b(?:${negatives})[-_]${k}\\b`, "i"),
+        new RegExp(`\\b(?:${negatives})\\s*%\\s*${k}\\b`, "i"),
+        new RegExp(`\\b${k}\\s+(?:${negatives})\\b`, "i"),
+        new RegExp(`\\b${k}[-_](?:${negatives})\\b`, "i"),
+        new RegExp(`\\b${k}\\s+%\\s*(?:${negatives})\\b`, "i"),
+      ].some((pattern) => pattern.test(searchableText));
+    });
+    if (hasNegativeMatch) return false;
+
+    if (phraseSelections.length > 0 && keywords.length >= 2) {
+      const matchesPhrase = phraseSelections.some((phrase) =>
+        new RegExp(`\\b${escapeRegExp(phrase.toLowerCase())}\\b`, "i").test(searchableText)
+      );
+      if (matchesPhrase) return true;
+
+      const hasTokenInNegativeContext = keywords.some((keyword) => {
+        const k = escapeRegExp(keyword.toLowerCase());
+        return new RegExp(`\\b(?:${negatives})\\s+${k}\\b`, "i").test(searchableText) ||
+          new RegExp(`\\b(?:${negatives})[-_]${k}\\b`, "i").test(searchableText);
+      });
+      if (hasTokenInNegativeContext) return false;
+
+      // Not the phrase: require every meaningful token to match, not just one
+      const phraseKeywords = keywords.filter((k) => k.length >= 3 && !PHRASE_CHECK_STOPWORDS.has(k.toLowerCase()));
+      if (phraseKeywords.length > 0) {
+        const allMatch = phraseKeywords.every((keyword) =>
+          new RegExp(`\\b${escapeRegExp(keyword.toLowerCase())}\\b`, "i").test(searchableText)
+        );
+        if (!allMatch) return false;
+      }
+    }
+
+    return true;
+  });
+}
+
+export type SmartFetchInput = {
+  signals: FetchSignals;
+  desiredMin: number;
+  cap: number;
+};
+
+export type SmartFetchOutput = {
+  products: StageCandidate[];
+  reason: "ok" | "no_keywords" | "insufficient_candidates" | "query_error";
+};
+
+/**
+ * Targeted catalog fetch from quiz / chat signals: query (A), widen without selections (B), paginate (C)
+ */
+export function createSmartFetchStage(deps: {
+  search: StageProductSearch;
+  buildQuery: StageQueryBuilder;
+}): PipelineStage<SmartFetchInput, SmartFetchOutput> {
+  return {
+    name: "intent_first_smart_fetch",
+    async run({ signals, desiredMin, cap }) {
+      const query = deps.buildQuery(signals, 500, "field_restricted");
+      if (!query) return { products: [], reason: "no_keywords" };
+
+      console.log(`[SmartFetch] keywords=[${signals.keywords.join(", ")}] query="${query}"`);
+      console.log(`[SmartFetch] query_step=A query="${query.substring(0, 200)}${query.length > 200 ? "..." : ""}"`);
+
+      const addFiltered = (products: StageCandidate[], into: StageCandidate[], step: string) => {
+        const filtered = filterNegativeMatches(products, signals.keywords, signals.selections);
+        if (products.length > filtered.length) {
+          console.log(`[SmartFetch] step${step} filtered_negative_matches=${products.length - filtered.length} remaining=${filtered.length}`);
+        }
+        const seen = new Set(handlesOf(into));
+        into.push(...filtered.filter((p) => !seen.has(p.handle)));
+      };
+
+      // Step A: Targeted fetch
+      const stepA = await deps.search(query, desiredMin);
+      const products: StageCandidate[] = [];
+      addFiltered(stepA.products, products, "A");
+      const sampleTitles = stepA.products.slice(0, 5).map((p) => p.title || "").filter((t) => t.length > 0);
+      console.log(`[SmartFetch] fetched=${stepA.products.length} sample_titles=[${sampleTitles.join(", ")}]`);
+      console.log(`[SmartFetch] query_step=A fetched=${stepA.products.length} totalFetched=${stepA.totalFetched} hadMorePages=${stepA.hasMorePages}`);
+
+      // Step B: Widen if insufficient (remove AND constraints, keep OR keywords)
+      if (products.length < desiredMin && stepA.hasMorePages) {
+        const widenQuery = deps.buildQuery({
+          keywords: signals.keywords,
+          selections: [],
+          hasMeaningfulSignals: signals.keywords.length > 0,
+        }, 400, "field_restricted");
+        if (widenQuery && widenQuery !== query) {
+          console.log(`[SmartFetch] built_query="${widenQuery}"`);
+          console.log(`[SmartFetch] widen_step=1 query="${widenQuery.substring(0, 200)}${widenQuery.length > 200 ? "..." : ""}"`);
+          const stepB = await deps.search(widenQuery, desiredMin - products.length);
+          const sampleTitlesB = stepB.products.slice(0, 5).map((p) => p.title || "").filter((t) => t.length > 0);
+          console.log(`[SmartFetch] fetched=${stepB.products.length} sample_titles=[${sampleTitlesB.join(", ")}]`);
+          addFiltered(stepB.products, products, "B");
+          console.log(`[SmartFetch] widen_step=1 fetchedTotal=${products.length}`);
+        }
+      }
+
+      // Step C: Paginate more if still insufficient
+      if (products.length < desiredMin && products.length < cap) {
+        console.log(`[SmartFetch] widen_step=2 paginate=true`);
+        const stepC = await deps.search(query, cap - products.length);
+        addFiltered(stepC.products, products, "C");
+        console.log(`[SmartFetch] widen_step=2 fetchedTotal=${products.length}`);
+      }
+
+      return { products, reason: products.length > 0 ? "ok" : "insufficient_candidates" };
+    },
+    fallback: () => ({ products: [], reason: "query_error" }),
+    inputHandles: () => [],
+    outputHandles: (output) => handlesOf(output.products),
+    describe: (output) => `reason=${output.reason}`,
+  };
+}
+
+// ============================================
+// DEEP ATTRIBUTE SEARCH
+// ============================================
+
+/**
+ * Whether a product description mentions any constraint term (phrases as substrings, words on word boundaries)
+ */
+export function descriptionMatchesTerms(description: string | null | undefined, terms: string[]): boolean {
+  const descLower = cleanDescription(description).toLowerCase();
+  if (!descLower) return false;
+  return terms.some((term) => {
+    const termLower = term.toLowerCase();
+    if (term.includes(" ")) return descLower.includes(termLower);
+    return new RegExp(`\\b${escapeRegExp(termLower)}\\b`, "i").test(descLower);
+  });
+}
+
+export type DeepAttributeSearchInput = {
+  candidates: StageCandidate[];
+  constraintTerms: string[]; // "contains X", "with Y" - usually only found in descriptions
+  indexMetafields?: Array<{ namespace: string; key: string }> | null;
+};
+
+export type DeepAttributeSearchOutput = {
+  candidates: StageCandidate[];
+  matched: number;
+};
+
+function toDeepSearchCandidate(
+  p: StageCandidate,
+  description: string | null,
+  indexMetafields?: Array<{ namespace: string; key: string }> | null
+): StageCandidate {
+  const descPlain = cleanDescription(description);
+  const desc1000 = descPlain.substring(0, 1000);
+  return {
+    handle: p.handle,
+    title: p.title,
+    productType: p.productType || null,
+    productCategory: null,
+    taxonomy: null,
+    collections: p.collections || null,
+    variants: p.variants || null,
+    tags: p.tags || [],
+    vendor: p.vendor || null,
+    price: p.priceAmount || p.price || null,
+    priceMinAmount: null,
+    priceMaxAmount: null,
+    priceCurrency: p.currencyCode || null,
+    description,
+    descPlain,
+    desc1000,
+    available: p.available,
+    sizes: Array.isArray(p.sizes) ? p.sizes : [],
+    colors: Array.isArray(p.colors) ? p.colors : [],
+    materials: Array.isArray(p.materials) ? p.materials : [],
+    optionValues: p.optionValues ?? {},
+    metafields: p.metafields || null,
+    searchText: extractSearchText({ ...p, description, descPlain, desc1000 }, indexMetafields),
+  };
+}
+
+/**
+ * Adds products whose descriptions mention constraint terms. Shopify search only covers
+ * title / type / tags / vendor, so matches are confirmed locally against descriptions.
+ * Broader strategies when search finds nothing: base words of the terms, then product types of current candidates.
+ */
+export function createDeepAttributeSearchStage(deps: {
+  search: StageProductSearch;
+  buildQuery: StageQueryBuilder;
+  fetchDescriptions: StageDescriptionFetch;
+}): PipelineStage<DeepAttributeSearchInput, DeepAttributeSearchOutput> {
+  return {
+    name: "deep_attribute_search",
+    enabled: ({ constraintTerms }) => constraintTerms.length > 0,
+    async run({ candidates, constraintTerms, indexMetafields }) {
+      console.log(`[DeepSearch] starting_expansion constraint_terms=[${constraintTerms.join(", ")}]`);
+      const matches: StageCandidate[] = [];
+      const matchedHandles = new Set<string>();
+
+      // New products first, then products already in the pool (same order the matches are merged in)
+      const collectMatches = async (products: StageCandidate[], knownHandles: Set<string>) => {
+        const descriptions = await deps.fetchDescriptions(handlesOf(products));
+        const ordered = [
+          ...products.filter((p) => !knownHandles.has(p.handle)),
+          ...products.filter((p) => knownHandles.has(p.handle)),
+        ];
+        let added = 0;
+        for (const product of ordered) {
+          if (matchedHandles.has(product.handle)) continue;
+          if (descriptionMatchesTerms(descriptions.get(product.handle) || null, constraintTerms)) {
+            matchedHandles.add(product.handle);
+            matches.push(product);
+            added++;
+          }
+        }
+        return added;
+      };
+
+      const query = deps.buildQuery({ keywords: constraintTerms, selections: [], hasMeaningfulSignals: true }, 500);
+      if (!query) return { candidates, matched: 0 };
+      console.log(`[DeepSearch] query="${query}"`);
+
+      const deepFetch = await deps.search(query, 250);
+      console.log(`[DeepSearch] fetched=${deepFetch.products.length} from_shopify_search`);
+
+      if (deepFetch.products.length === 0) {
+        console.log(`[DeepSearch] shopify_returned_0 trying_broader_fetch strategies`);
+
+        // Strategy 1: base words of the constraint terms ("hydrochloric acid" -> "hydrochloric", "acid")
+        const baseTerms = Array.from(new Set(
+          constraintTerms.flatMap((term) => term.toLowerCase().split(/\s+/).filter((w) => w.length >= 3))
+        )).slice(0, 5);
+        if (baseTerms.length > 0) {
+          console.log(`[DeepSearch] broader_fetch_strategy=base_terms terms=[${baseTerms.join(", ")}]`);
+          const broaderQuery = deps.buildQuery({ keywords: baseTerms, selections: [], hasMeaningfulSignals: true }, 500, "broad_text", baseTerms);
+          if (broaderQuery) {
+            const broaderFetch = await deps.search(broaderQuery, 500);
+            console.log(`[DeepSearch] broader_fetch fetched=${broaderFetch.products.length} with_base_terms`);
+            if (broaderFetch.products.length > 0) {
+              const added = await collectMatches(broaderFetch.products, new Set(handlesOf(candidates)));
+              console.log(`[DeepSearch] broader_fetch matched_in_description=${added} total_checked=${broaderFetch.products.length}`);
+            }
+          }
+        }
+
+        // Strategy 2: product types of the current candidates
+        if (matches.length === 0 && candidates.length > 0) {
+          console.log(`[DeepSearch] broader_fetch_strategy=related_product_types`);
+          const productTypes = Array.from(new Set(
+            candidates.slice(0, 50).map((c) => c.productType).filter((t): t is string => !!t)
+          )).slice(0, 3);
+          if (productTypes.length > 0) {
+            console.log(`[DeepSearch] broader_fetch product_types=[${productTypes.join(", ")}]`);
+            for (const productType of productTypes) {
+              if (matches.length >= 500) break;
+              const typeQuery = deps.buildQuery({ keywords: [productType], selections: [], hasMeaningfulSignals: true }, 200, "field_restricted");
+              if (!typeQuery) continue;
+              const typeFetch = await deps.search(typeQuery, 200);
+              const known = new Set([...handlesOf(candidates), ...handlesOf(matches)]);
+              const added = await collectMatches(typeFetch.products, known);
+              if (typeFetch.products.length > 0) {
+                console.log(`[DeepSearch] broader_fetch_product_type="${productType}" checked=${typeFetch.products.length} matches=${added}`);
+              }
+            }
+          }
+        }
+      } else {
+        await collectMatches(deepFetch.products, new Set());
+      }
+
+      console.log(`[DeepSearch] matched_in_description=${matches.length} after_filtering`);
+
+      // Merge into the candidate pool (dedupe by handle)
+      const existing = new Set(handlesOf(candidates));
+      const newProducts = matches.filter((p) => !existing.has(p.handle));
+      if (newProducts.length === 0) return { candidates, matched: matches.length };
+
+      const needingDescriptions = newProducts.filter((p) => !p.description).map((p) => p.handle);
+      const descriptions = needingDescriptions.length > 0
+        ? await deps.fetchDescriptions(needingDescriptions)
+        : new Map<string, string | null>();
+      const enriched = newProducts.map((p) =>
+        toDeepSearchCandidate(p, p.description || descriptions.get(p.handle) || null, indexMetafields)
+      );
+      console.log(`[DeepSearch] merged=${enriched.length} total_candidates=${candidates.length + enriched.length}`);
+      return { candidates: [...candidates, ...enriched], matched: matches.length };
+    },
+    fallback: ({ candidates }) => ({ candidates, matched: 0 }),
+    inputHandles: ({ candidates }) => handlesOf(candidates),
+    outputHandles: ({ candidates }) => handlesOf(candidates),
+    describe: ({ matched }) => `matched=${matched}`,
+  };
+}
+
+// ============================================
+// COLLECTION INTENT DETECTION
+// ============================================
+
+const COLLECTION_PHRASES = [
+  "outfit", "set", "kit", "bundle", "complete", "whole", "everything i need",
+  "for a", "recommend me items for", "build me a", "put together", "create a",
+  "full", "entire", "all", "combination", "collection", "ensemble",
+];
+
+const EVENT_CONTEXT_TERMS = [
+  "wedding", "dinner", "interview", "work", "casual", "formal", "party", "event",
+  "occasion", "meeting", "date", "business", "professional", "sport", "exercise",
+  "travel", "vacation", "holiday", "celebration", "gift", "present",
+];
+
+export type CollectionIntentInput = {
+  userIntent: string;
+  hardTerms: string[];
+  softTerms: string[];
+  isBundle: boolean;
+};
+
+export type CollectionIntentOutput = {
+  collectionIntent: boolean;
+  reason: string | null;
+};
+
+/**
+ * Multi-item intent for single-item queries: "an outfit for a wedding" wants a mixed set,
+ * not eight of the same thing. Explicit bundles are handled separately.
+ */
+export const collectionIntentStage: PipelineStage<CollectionIntentInput, CollectionIntentOutput> = {
+  name: "collection_intent",
+  enabled: ({ isBundle }) => !isBundle,
+  run({ userIntent, hardTerms, softTerms }) {
+    const lowerIntent = userIntent.toLowerCase();
+    const phrase = COLLECTION_PHRASES.find((p) => lowerIntent.includes(p));
+    const eventTerms = softTerms.filter((term) => EVENT_CONTEXT_TERMS.some((event) => term.toLowerCase().includes(event)));
+    const hasMinimalHardTerms = hardTerms.length <= 1; // Only generic terms like "blue" or "large"
+
+    if (phrase) {
+      return { collectionIntent: true, reason: `collection_phrase:${phrase}` };
+    }
+    if (eventTerms.length > 0 && hasMinimalHardTerms) {
+      return { collectionIntent: true, reason: `event_context_without_product_type:${eventTerms.join(",")}` };
+    }
+    return { collectionIntent: false, reason: null };
+  },
+  fallback: () => ({ collectionIntent: false, reason: null }),
+  describe: ({ collectionIntent, reason }) => `collectionIntent=${collectionIntent}${reason ? ` reason=${reason}` : ""}`,
+};
+
+// ============================================
+// GROUP-BALANCED WINDOW SELECTION
+// ============================================
+
+export type RankedCandidate<T extends StageCandidate = StageCandidate> = { candidate: T; score: number };
+
+export type GroupBalancedWindowInput<T extends StageCandidate = StageCandidate> = {
+  ranked: RankedCandidate<T>[]; // BM25 (or hybrid BM25 + vector) order, best first
+  aiWindow: number;
+  collectionIntent: boolean;
+  isBundle: boolean;
+  userIntent: string;
+  hardTermCount: number;
+  softTermCount: number;
+  preferencesCount: number;
+};
+
+export type GroupBalancedWindowOutput<T extends StageCandidate = StageCandidate> = {
+  candidates: T[];
+  families: string[]; // Chosen family keys (empty for the plain top-N window)
+};
+
+type FamilyCandidate<T extends StageCandidate> = RankedCandidate<T> & { familyKey: string; rawFamilyKey: string };
+
+function median(values: number[]): number {
+  return values.length > 0 ? [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)] : 0;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function candidateStats(candidate: StageCandidate) {
+  const price = candidate.price ? parseFloat(String(candidate.price)) : 0;
+  return {
+    price: Number.isFinite(price) && price > 0 ? price : 0,
+    titleLength: candidate.title ? String(candidate.title).length : 0,
+    descLength: candidate.description ? String(candidate.description).length : 0,
+    variantCount: Object.keys(candidate.optionValues || {}).length,
+  };
+}
+
+/**
+ * Commitment score per family (0..1): expensive, complex, many-variant or set/kit families
+ * are "bigger commitments" and are only mixed in when intent is strong enough
+ */
+function computeFamilyCommitment<T extends StageCandidate>(candidates: FamilyCandidate<T>[]): Map<string, number> {
+  const stats = candidates.map((c) => candidateStats(c.candidate));
+  const medianPrice = median(stats.map((s) => s.price).filter((v) => v > 0));
+  const avgTitleLength = average(stats.map((s) => s.titleLength).filter((v) => v > 0));
+  const avgDescLength = average(stats.map((s) => s.descLength).filter((v) => v > 0));
+  const avgVariantCount = average(stats.map((s) => s.variantCount).filter((v) => v > 0));
+
+  const byFamily = new Map<string, FamilyCandidate<T>[]>();
+  for (const c of candidates) {
+    byFamily.set(c.familyKey, [...(byFamily.get(c.familyKey) || []), c]);
+  }
+
+  const scores = new Map<string, number>();
+  byFamily.forEach((members, familyKey) => {
+    const memberStats = members.map((c) => candidateStats(c.candidate));
+    const hasSetBundleKit = members.some((c) =>
+      /\b(set|bundle|kit|complete|pack|collection|ensemble)\b/.test(extractSearchText(c.candidate).toLowerCase())
+    );
+    const familyMedianPrice = median(memberStats.map((s) => s.price).filter((v) => v > 0));
+    const familyAvgTitleLength = average(memberStats.map((s) => s.titleLength).filter((v) => v > 0));
+    const familyAvgDescLength = average(memberStats.map((s) => s.descLength).filter((v) => v > 0));
+    const familyAvgVariantCount = average(memberStats.map((s) => s.variantCount).filter((v) => v > 0));
+
+    const priceComponent = medianPrice > 0 ? Math.min(1.0, familyMedianPrice / (medianPrice * 2)) : 0.5;
+    const complexityComponent = avgTitleLength > 0 && avgDescLength > 0
+      ? Math.min(1.0, ((familyAvgTitleLength / avgTitleLength) + (familyAvgDescLength / avgDescLength)) / 2)
+      : 0.5;
+    const variantComponent = avgVariantCount > 0 ? Math.min(1.0, familyAvgVariantCount / (avgVariantCount * 2)) : 0.5;
+    const setBundleComponent = hasSetBundleKit ? 0.8 : 0.3;
+
+    scores.set(familyKey, priceComponent * 0.4 + complexityComponent * 0.2 + variantComponent * 0.2 + setBundleComponent * 0.2);
+  });
+  return scores;
+}
+
+function countByFamily<T extends StageCandidate>(items: FamilyCandidate<T>[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  items.forEach((c) => {
+    counts[c.familyKey] = (counts[c.familyKey] || 0) + 1;
+  });
+  return counts;
+}
+
+/**
+ * Picks the AI window. With collection intent the window round-robins across up to 4 product
+ * families (filtered by intent strength and commitment) so the AI sees a mixed set;
+ * otherwise it is the top aiWindow candidates by score.
+ */
+export function selectGroupBalancedWindow<T extends StageCandidate>(input: GroupBalancedWindowInput<T>): GroupBalancedWindowOutput<T> {
+  const { ranked, aiWindow } = input;
+  if (!input.collectionIntent || input.isBundle) {
+    return { candidates: ranked.slice(0, aiWindow).map((r) => r.candidate), families: [] };
+  }
+
+  const withFamilies: FamilyCandidate<T>[] = ranked.map((r) => {
+    const rawKey = deriveFamilyKey(r.candidate).key;
+    return { ...r, familyKey: canonicalizeGroupKey(rawKey), rawFamilyKey: rawKey };
+  });
+
+  const intentStrength = Math.min(1.0, Math.max(0.0, (input.hardTermCount * 2 + input.softTermCount + input.preferencesCount) / 6));
+  console.log(`[CollectionIntent] intent_strength=${intentStrength.toFixed(2)} hardTerms=${input.hardTermCount} softTerms=${input.softTermCount} preferences=${input.preferencesCount}`);
+
+  const commitment = computeFamilyCommitment(withFamilies);
+  console.log(`[CollectionIntent] per_family_commitment=${JSON.stringify(Object.fromEntries(
+    Array.from(commitment.entries()).map(([key, score]) => [key, parseFloat(score.toFixed(2))])
+  ))}`);
+
+  // Raw family stats, then merge raw keys that canonicalize to the same family
+  const rawStats = new Map<string, { count: number; topBM25: number; commitmentScore: number }>();
+  withFamilies.forEach((c) => {
+    const existing = rawStats.get(c.rawFamilyKey);
+    rawStats.set(c.rawFamilyKey, {
+      count: (existing?.count || 0) + 1,
+      topBM25: Math.max(existing?.topBM25 ?? c.score, c.score),
+      commitmentScore: commitment.get(c.familyKey) || 0.5,
+    });
+  });
+  const canonicalStats = new Map<string, { count: number; topBM25: number; commitmentScore: number; mergedFrom: string[] }>();
+  rawStats.forEach((stats, rawKey) => {
+    const key = canonicalizeGroupKey(rawKey);
+    const existing = canonicalStats.get(key);
+    canonicalStats.set(key, existing
+      ? {
+          count: existing.count + stats.count,
+          topBM25: Math.max(existing.topBM25, stats.topBM25),
+          commitmentScore: Math.max(existing.commitmentScore, stats.commitmentScore),
+          mergedFrom: [...existing.mergedFrom, rawKey],
+        }
+      : { ...stats, mergedFrom: [rawKey] });
+  });
+
+  const familyGroups = Array.from(canonicalStats.entries())
+    .map(([key, stats]) => ({ key, ...stats }))
+    .sort((a, b) => (Math.abs(b.topBM25 - a.topBM25) > 0.01 ? b.topBM25 - a.topBM25 : b.count - a.count));
+  const mergedExamples = familyGroups.filter((f) => f.mergedFrom.length > 1).map((f) => ({ canonical: f.key, mergedFrom: f.mergedFrom }));
+  console.log(`[CollectionIntent] merged_groups removed=${rawStats.size - canonicalStats.size} examples=${JSON.stringify(mergedExamples.slice(0, 5))}`);
+  console.log(`[CollectionIntent] family_groups=${JSON.stringify(familyGroups.slice(0, 10).map((f) => ({ key: f.key, count: f.count, topBM25: f.topBM25.toFixed(2), commitment: f.commitmentScore.toFixed(2), mergedFrom: f.mergedFrom.length > 1 ? f.mergedFrom : undefined })))}`);
+
+  // Always keep the top family; add up to 3 more unless similar, low-relevance "unknown",
+  // or high-commitment families when intent is weak
+  const topFamily = familyGroups[0] || null;
+  const topBM25 = topFamily ? topFamily.topBM25 : 0;
+  const chosen: typeof familyGroups = topFamily ? [topFamily] : [];
+  const excluded: Array<{ key: string; reason: string }> = [];
+  for (const family of familyGroups.slice(1)) {
+    if (chosen.length >= 4) break;
+    if (chosen.some((c) => c.key.includes(family.key) || family.key.includes(c.key))) continue;
+    if (family.key === "unknown" && chosen.length >= 2 && family.topBM25 < topBM25 * 0.85) {
+      excluded.push({ key: family.key, reason: "unknown_low_relevance" });
+      continue;
+    }
+    const bm25Ratio = topBM25 > 0 ? family.topBM25 / topBM25 : 0;
+    if (intentStrength < 0.35 && family.commitmentScore > 0.65 && bm25Ratio < 0.85) {
+      excluded.push({ key: family.key, reason: `high_commitment_low_intent commitment=${family.commitmentScore.toFixed(2)} bm25Ratio=${bm25Ratio.toFixed(2)}` });
+      continue;
+    }
+    chosen.push(family);
+  }
+  if (chosen.length < 2) {
+    const unknownFamily = familyGroups.find((f) => f.key === "unknown");
+    if (unknownFamily && !chosen.some((f) => f.key === "unknown")) chosen.push(unknownFamily);
+    if (chosen.length < 2) {
+      chosen.push(...familyGroups.filter((f) => !chosen.some((c) => c.key === f.key)).slice(0, 2 - chosen.length));
+    }
+  }
+  console.log(`[CollectionIntent] filtered_families=${JSON.stringify(chosen.map((f) => ({ key: f.key, count: f.count })))} excluded=${JSON.stringify(excluded)}`);
+
+  // Dominant family: one family with >= 70% of a reasonably large pool - force in distinct families
+  const totalCount = withFamilies.length;
+  const dominantKey = chosen.length > 0 ? chosen[0].key : null;
+  const dominantCount = dominantKey ? withFamilies.filter((c) => c.familyKey === dominantKey).length : 0;
+  const share = totalCount > 0 ? Math.min(1.0, dominantCount / totalCount) : 0;
+  const dominantDetected = totalCount >= 12 && share >= 0.70;
+  if (dominantDetected && dominantKey) {
+    const remaining = familyGroups.filter((f) =>
+      !chosen.some((c) => c.key === f.key || c.key.includes(f.key) || f.key.includes(c.key))
+    );
+    const distinct = remaining.filter((f) => f.key !== dominantKey);
+    chosen.push(...distinct.slice(0, Math.min(4 - chosen.length, distinct.length)));
+    if (chosen.length < 2) chosen.push(...remaining.slice(0, 2 - chosen.length));
+  }
+  if (dominantKey) {
+    console.log(`[CollectionIntent] dominant_family_detected=${dominantDetected} token=${dominantKey} share=${share.toFixed(2)} dominantCount=${dominantCount} total=${totalCount}`);
+  }
+  if (familyGroups.length <= 1) {
+    console.log(`[CollectionIntent] limited_catalog=true reason=only_one_family_available`);
+  }
+  console.log(`[CollectionIntent] chosenFamilies=${JSON.stringify(chosen.map((f) => ({ key: f.key, count: f.count, topBM25: f.topBM25.toFixed(2) })))}`);
+
+  // Round-robin across chosen family buckets (BM25 order kept inside each bucket)
+  const familyKeys = chosen.map((f) => f.key);
+  const buckets = new Map(familyKeys.map((key) => [
+    key,
+    withFamilies.filter((c) => c.familyKey === key).slice(0, Math.ceil(aiWindow / familyKeys.length) + 5),
+  ]));
+  const windowSize = Math.min(30, aiWindow * 1.5);
+  const balanced: FamilyCandidate<T>[] = [];
+  for (let round = 0; balanced.length < windowSize; round++) {
+    let addedThisRound = false;
+    for (const key of familyKeys) {
+      if (balanced.length >= windowSize) break;
+      const bucket = buckets.get(key) || [];
+      if (bucket.length > round) {
+        balanced.push(bucket[round]);
+        addedThisRound = true;
+      }
+    }
+    if (!addedThisRound) break;
+  }
+  if (balanced.length < windowSize) {
+    const used = new Set(balanced.map((b) => b.candidate.handle));
+    balanced.push(...withFamilies.filter((c) => !used.has(c.candidate.handle)).slice(0, windowSize - balanced.length));
+  }
+  console.log(`[CollectionIntent] ai_window_balanced windowSize=30 perFamilyCounts=${JSON.stringify(countByFamily(balanced))}`);
+
+  // Safety guard: outfit-like queries over a dominant family get at least 2 families in the top 20
+  const lowerIntent = input.userIntent.toLowerCase();
+  const hasOutfitPhrase = lowerIntent.includes("outfit") || lowerIntent.includes("ensemble") || lowerIntent.includes("set");
+  let final20: FamilyCandidate<T>[];
+  if (hasOutfitPhrase && dominantDetected && familyKeys.length >= 2) {
+    const familiesToUse = familyKeys.slice(0, Math.min(4, familyKeys.length));
+    const perFamily = Math.floor(20 / familiesToUse.length);
+    const extra = 20 % familiesToUse.length;
+    final20 = familiesToUse.flatMap((key, idx) =>
+      balanced.filter((c) => c.familyKey === key).slice(0, perFamily + (idx < extra ? 1 : 0))
+    );
+    if (final20.length < 20) {
+      const used = new Set(final20.map((f) => f.candidate.handle));
+      final20.push(...balanced.filter((c) => !used.has(c.candidate.handle)).slice(0, 20 - final20.length));
+    }
+  } else {
+    final20 = balanced.slice(0, 20);
+  }
+  console.log(`[CollectionIntent] ai_candidates20_perFamily=${JSON.stringify(countByFamily(final20))}`);
+
+  return { candidates: final20.slice(0, aiWindow).map((r) => r.candidate), families: familyKeys };
+}
+
+export const groupBalancedWindowStage: PipelineStage<GroupBalancedWindowInput<StageCandidate>, GroupBalancedWindowOutput<StageCandidate>> = {
+  name: "group_balanced_window",
+  run: (input) => selectGroupBalancedWindow(input),
+  fallback: ({ ranked, aiWindow }) => ({ candidates: ranked.slice(0, aiWindow).map((r) => r.candidate), families: [] }),
+  inputHandles: ({ ranked }) => ranked.map((r) => r.candidate.handle),
+  outputHandles: ({ candidates }) => handlesOf(candidates),
+  describe: ({ families }) => (families.length > 0 ? `families=${families.join("|")}` : undefined),
+};
+
+// ============================================
+// HYBRID RETRIEVAL
+// ============================================
+
+export type HybridRetrievalInput<T extends StageCandidate = StageCandidate> = {
+  ranked: RankedCandidate<T>[]; // BM25 order, best first
+  queryText: string;
+  aiWindow: number;
+};
+
+export type HybridRetrievalOutput<T extends StageCandidate = StageCandidate> = {
+  ranked: RankedCandidate<T>[];
+  aiWindow: number;
+  vectorCount: number;
+  promoted: string[]; // Handles the vector ranking moved into the AI window
+};
+
+/**
+ * Fuses the BM25 ranking with vector similarity to the shopper's query (reciprocal rank fusion),
+ * so products described in different words than the query can still reach the AI window.
+ * Embeddings are injected: the query embedder and the candidate vector loader (stored + inline).
+ */
+export function createHybridRetrievalStage(deps: {
+  embedQuery: (text: string) => Promise<number[]>;
+  loadVectors: (candidates: StageCandidate[]) => Promise<Map<string, number[]>>;
+}): PipelineStage<HybridRetrievalInput, HybridRetrievalOutput> {
+  return {
+    name: "hybrid_retrieval",
+    enabled: ({ ranked, queryText }) => ranked.length > 1 && queryText.trim().length > 0,
+    async run({ ranked, queryText, aiWindow }) {
+      const [queryVector, vectors] = await Promise.all([
+        deps.embedQuery(queryText),
+        deps.loadVectors(ranked.map((r) => r.candidate)),
+      ]);
+      const fused = fuseHybridRanking(ranked, queryVector, vectors, { window: aiWindow });
+      console.log(`[HybridRetrieval] candidates=${ranked.length} with_vectors=${fused.vectorCount} promoted=[${fused.promoted.slice(0, 10).join(", ")}]`);
+      return { ranked: fused.ranked, aiWindow, vectorCount: fused.vectorCount, promoted: fused.promoted };
+    },
+    fallback: ({ ranked, aiWindow }) => ({ ranked, aiWindow, vectorCount: 0, promoted: [] }),
+    // Only the window matters downstream: added / removed = moved into / out of the AI window
+    inputHandles: ({ ranked, aiWindow }) => ranked.slice(0, aiWindow).map((r) => r.candidate.handle),
+    outputHandles: ({ ranked, aiWindow }) => ranked.slice(0, aiWindow).map((r) => r.candidate.handle),
+    describe: ({ vectorCount, promoted }) => `vectors=${vectorCount} promoted=${promoted.length}`,
+  };
+}
+
+// ============================================
+// MERCHANDISING RULES
+// ============================================
+
+export type MerchandisingRulesInput = {
+  handles: string[]; // Ranked result, best first
+  candidates: StageCandidate[]; // Pool pins are taken from
+  rules: MerchandisingRule[];
+  query: string;
+  intentTerms: string[];
+  resultCount: number;
+};
+
+/**
+ * Applies the experience's merchandising rules (pin / boost / bury / exclude) to the AI-ranked
+ * result before diversity; the outcome is kept so pins and exclusions can be re-applied later
+ */
+export const merchandisingRulesStage: PipelineStage<MerchandisingRulesInput, MerchandisingOutcome> = {
+  name: "merchandising_rules",
+  enabled: ({ rules, handles }) => rules.length > 0 && handles.length > 0,
+  run({ handles, candidates, rules, query, intentTerms, resultCount }) {
+    const outcome = applyMerchandisingRules(handles, candidates, rules, { query, intentTerms }, resultCount);
+    console.log(`[Merchandising] rules=${rules.length} applied=[${outcome.applied.map((a) => `${a.ruleId}:${a.action}:${a.handles.length}`).join(", ")}] pins=[${outcome.pins.map((p) => `${p.handle}@${p.position}`).join(", ")}]`);
+    return outcome;
+  },
+  fallback: ({ handles }) => ({ handles, applied: [], excluded: [], pins: [] }),
+  inputHandles: ({ handles }) => handles,
+  outputHandles: ({ handles }) => handles,
+  describe: ({ applied, pins }) => `applied=${applied.length} pins=${pins.length}`,
+};
+
+// ============================================
+// POST-DIVERSITY REFILL (bundles)
+// ============================================
+
+export type BundleRefillItem = {
+  hardTerms?: string[];
+  constraints?: {
+    optionConstraints?: { size?: string | null; color?: string | null; material?: string | null };
+  } | null;
+};
+
+export type StageConstraintCheck = (
+  candidate: StageCandidate,
+  constraints: Array<{ key: string; value: string }>
+) => Promise<{ ok: boolean; conflict?: { facet: string; expected: string; actual: string; source: string } }>;
+
+export type StageSlotScorer = (candidate: StageCandidate, slotDescriptor: string) => number;
+
+export type PostDiversityRefillInput = {
+  handles: string[]; // Result after diversity
+  requestedCount: number;
+  isBundle: boolean;
+  items: BundleRefillItem[];
+  slotPlan: Map<number, number>; // Item index -> target slots
+  itemIndexByHandle: ReadonlyMap<string, number> | null; // AI item assignment, when the AI returned one
+  itemPools: Array<{ itemIndex: number; candidates: StageCandidate[] }>; // Per-item gated pools
+  candidates: StageCandidate[]; // Full enriched pool (fallback when an item has no gated pool)
+  inStockOnly: boolean;
+  aiCoreUsed: boolean;
+};
+
+export type PostDiversityRefillOutput = {
+  handles: string[];
+  added: number;
+  itemIndexByHandle: Map<string, number>; // Item assignment of the refilled handles
+};
+
+/**
+ * Refills a bundle result that diversity shrank below the requested count, per item from the
+ * item's gated pool (respecting the slot plan and the item's size / color / material), then
+ * interleaves the items so every item type keeps a slot. Constraint checks and slot scoring
+ * are injected because they depend on the shop's facet vocabulary.
+ */
+export function createPostDiversityRefillStage(deps: {
+  satisfiesConstraints: StageConstraintCheck;
+  scoreForSlot: StageSlotScorer;
+}): PipelineStage<PostDiversityRefillInput, PostDiversityRefillOutput> {
+  return {
+    name: "post_diversity_refill",
+    enabled: ({ isBundle, handles, requestedCount, items }) => isBundle && handles.length < requestedCount && items.length >= 2,
+    async run({ handles, requestedCount, items, slotPlan, itemIndexByHandle, itemPools, candidates, inStockOnly, aiCoreUsed }) {
+      const used = new Set(handles);
+      const byHandle = new Map(candidates.map((c) => [c.handle, c]));
+      const slotDescriptor = (itemIdx: number) => (items[itemIdx].hardTerms || []).join(" ");
+
+      // AI assignment first, otherwise the first item whose hard terms the product matches
+      const itemIndexOf = (handle: string): number | null => {
+        const assigned = itemIndexByHandle?.get(handle);
+        if (assigned !== undefined) return assigned;
+        const candidate = byHandle.get(handle);
+        if (!candidate) return null;
+        for (let idx = 0; idx < items.length; idx++) {
+          if (deps.scoreForSlot(candidate, slotDescriptor(idx)) >= 0.1) return idx;
+        }
+        return null;
+      };
+
+      const handlesByItem = new Map<number, string[]>();
+      for (const handle of handles) {
+        const itemIdx = itemIndexOf(handle);
+        if (itemIdx === null) continue;
+        if (!handlesByItem.has(itemIdx)) handlesByItem.set(itemIdx, []);
+        handlesByItem.get(itemIdx)!.push(handle);
+      }
+
+      const refillByItem = new Map<number, string[]>();
+      const refilledItemIndex = new Map<string, number>();
+      for (let itemIdx = 0; itemIdx < items.length; itemIdx++) {
+        const needed = Math.max(0, (slotPlan.get(itemIdx) || 0) - (handlesByItem.get(itemIdx)?.length || 0));
+        if (needed === 0) continue;
+
+        const item = items[itemIdx];
+        const itemHardTerms = item.hardTerms || [];
+        let pool = itemPools.find((p) => p.itemIndex === itemIdx)?.candidates || [];
+        if (pool.length === 0) {
+          // No gated pool for this item: take candidates mentioning one of its hard terms
+          pool = candidates.filter((c) => {
+            const haystack = [c.title || "", c.productType || "", (c.tags || []).join(" "), c.vendor || "", String(c.searchText || "")].join(" ");
+            return itemHardTerms.some((term) => matchesHardTermWithBoundary(haystack, term));
+          });
+        }
+
+        // Bundle items are gated on their own constraints only (global facets would over-constrain)
+        const optionConstraints = item.constraints?.optionConstraints;
+        const constraints: Array<{ key: string; value: string }> = [];
+        if (optionConstraints?.size) constraints.push({ key: "size", value: optionConstraints.size });
+        if (optionConstraints?.color) constraints.push({ key: "color", value: optionConstraints.color });
+        if (optionConstraints?.material) constraints.push({ key: "material", value: optionConstraints.material });
+
+        const eligible: StageCandidate[] = [];
+        for (const c of pool) {
+          if (used.has(c.handle) || eligible.some((e) => e.handle === c.handle)) continue;
+          if (constraints.length > 0) {
+            const result = await deps.satisfiesConstraints(c, constraints);
+            if (!result.ok) {
+              if (result.conflict) {
+                console.log(`[TopUp] bundle_refill skip_conflict itemIndex=${itemIdx} facet=${result.conflict.facet} expected=${result.conflict.expected} actual=${result.conflict.actual} source=${result.conflict.source} handle=${c.handle}`);
+              }
+              continue;
+            }
+          }
+          if (inStockOnly && !c.available) continue;
+          eligible.push(c);
+        }
+
+        // Best slot match first, then cheapest
+        const descriptor = slotDescriptor(itemIdx);
+        const refill = eligible
+          .sort((a, b) => {
+            const scoreA = deps.scoreForSlot(a, descriptor);
+            const scoreB = deps.scoreForSlot(b, descriptor);
+            if (Math.abs(scoreA - scoreB) > 0.01) return scoreB - scoreA;
+            const priceA = a.price ? parseFloat(String(a.price)) : Infinity;
+            const priceB = b.price ? parseFloat(String(b.price)) : Infinity;
+            return priceA - priceB;
+          })
+          .slice(0, needed)
+          .map((c) => c.handle);
+        refillByItem.set(itemIdx, refill);
+        refill.forEach((handle) => {
+          used.add(handle);
+          refilledItemIndex.set(handle, itemIdx);
+        });
+        console.log(`[BundleRefill] itemIndex=${itemIdx} added=${refill.length} reason=needed_${needed}_slots`);
+      }
+
+      // Interleave per item (round-robin) so trimming to the requested count keeps every item type
+      const perItem = items.map((_, itemIdx) => [...(handlesByItem.get(itemIdx) || []), ...(refillByItem.get(itemIdx) || [])]);
+      const interleaved: string[] = [];
+      const maxPerItem = Math.max(0, ...perItem.map((list) => list.length));
+      for (let round = 0; round < maxPerItem && interleaved.length < requestedCount; round++) {
+        for (const list of perItem) {
+          if (interleaved.length >= requestedCount) break;
+          if (round < list.length) interleaved.push(list[round]);
+        }
+      }
+
+      const added = Array.from(refillByItem.values()).reduce((sum, list) => sum + list.length, 0);
+      console.log(`[BundleRefill] per_item_after_refill ${perItem.map((list, idx) => `item${idx}=${list.length}`).join(" ")}`);
+      console.log(`[Bundle] post-diversity refill: before=${handles.length} after=${interleaved.length} added=${added} source=itemGatedPools aiCoreUsed=${aiCoreUsed}`);
+      if (aiCoreUsed) {
+        console.log(`[ResultSource] final=ai aiCoreUsed=true diversityRefill=true refillCount=${added}`);
+      }
+      return { handles: interleaved, added, itemIndexByHandle: refilledItemIndex };
+    },
+    fallback: ({ handles }) => ({ handles, added: 0, itemIndexByHandle: new Map() }),
+    inputHandles: ({ handles }) => handles,
+    outputHandles: ({ handles }) => handles,
+    describe: ({ added }) => `added=${added}`,
+  };
+}
+
+// ============================================
+// BUDGET REFILL
+// ============================================
+
+export type BudgetRefillInput = {
+  handles: string[]; // Handles kept after removing items outside the price bounds
+  removedOverCeiling: number; // Removed by the ceiling or the floor
+  requestedCount: number;
+  maxPriceCeiling: number | null;
+  minPriceFloor?: number | null;
+  relaxationLadder?: PriceBounds[]; // Wider bounds tried in order when the strict bounds cannot fill the result
+  candidates: StageCandidate[]; // Full enriched pool, best first
+  inStockOnly: boolean;
+  collectionIntent: boolean; // Already false for bundles
+  hardTerms: string[];
+};
+
+export type BudgetRefillOutput = {
+  handles: string[];
+  added: number;
+  relaxedTo?: PriceBounds; // Widest bounds used, only set when strict bounds were not enough
+};
+
+/**
+ * Refills results emptied by the budget bounds from remaining in-budget candidates.
+ * With collection intent, families missing from the result are refilled first; if still short,
+ * candidates within each step of the relaxation ladder are added in order.
+ */
+export const budgetRefillStage: PipelineStage<BudgetRefillInput, BudgetRefillOutput> = {
+  name: "budget_refill",
+  enabled: ({ handles, requestedCount, removedOverCeiling, relaxationLadder }) =>
+    handles.length < requestedCount && (removedOverCeiling > 0 || (relaxationLadder?.length ?? 0) > 0),
+  run({ handles, requestedCount, maxPriceCeiling, minPriceFloor = null, relaxationLadder = [], candidates, inStockOnly, collectionIntent, hardTerms }) {
+    const needed = requestedCount - handles.length;
+    const used = new Set(handles);
+    // Unknown prices (missing or 0) are not held against the bounds
+    const fitsBounds = (c: StageCandidate, bounds: PriceBounds) => {
+      const price = c.price ? parseFloat(String(c.price)) : 0;
+      return !(Number.isFinite(price) && price > 0) || priceWithinBounds(price, bounds);
+    };
+    const remaining = candidates.filter((c) => {
+      if (used.has(c.handle)) return false;
+      if (!c.available && inStockOnly) return false;
+      return fitsBounds(c, { min: minPriceFloor, max: maxPriceCeiling });
+    });
+
+    let refill: string[];
+    if (collectionIntent) {
+      const byHandle = new Map(candidates.map((c) => [c.handle, c]));
+      const currentFamilies = new Set(
+        handles.map((h) => byHandle.get(h)).filter((c): c is StageCandidate => !!c).map((c) => deriveFamilyKey(c).key)
+      );
+
+      // Distinct families among the remaining candidates, most frequent first (up to 4)
+      const familyFreq = new Map<string, number>();
+      remaining.forEach((c) => {
+        const key = deriveFamilyKey(c).key;
+        familyFreq.set(key, (familyFreq.get(key) || 0) + 1);
+      });
+      const rankedFamilies = Array.from(familyFreq.entries()).sort((a, b) => b[1] - a[1]).map(([key]) => key);
+      const chosenFamilies: string[] = [];
+      for (const key of rankedFamilies) {
+        if (chosenFamilies.length >= 4) break;
+        if (!chosenFamilies.some((c) => c.includes(key) || key.includes(c))) chosenFamilies.push(key);
+      }
+      if (chosenFamilies.length < 2) chosenFamilies.push(...rankedFamilies.slice(0, 2 - chosenFamilies.length));
+
+      // Candidates mentioning the first hard term sort first
+      const firstHardTerm = hardTerms[0]?.toLowerCase() || "";
+      const termScore = (c: StageCandidate) =>
+        hardTerms.length > 0 && extractSearchText(c).toLowerCase().includes(firstHardTerm) ? 1 : 0;
+
+      refill = [];
+      for (const family of chosenFamilies.filter((f) => !currentFamilies.has(f))) {
+        if (refill.length >= needed) break;
+        const best = remaining
+          .filter((c) => deriveFamilyKey(c).key === family && !used.has(c.handle))
+          .sort((a, b) => termScore(b) - termScore(a))[0];
+        if (best) {
+          refill.push(best.handle);
+          used.add(best.handle);
+        }
+      }
+      if (refill.length < needed) {
+        refill.push(...remaining
+          .filter((c) => !used.has(c.handle))
+          .sort((a, b) => termScore(b) - termScore(a))
+          .slice(0, needed - refill.length)
+          .map((c) => c.handle));
+      }
+    } else {
+      refill = remaining.slice(0, needed).map((c) => c.handle);
+    }
+
+    let relaxedTo: PriceBounds | undefined;
+    refill.forEach((handle) => used.add(handle));
+    for (const bounds of relaxationLadder) {
+      if (refill.length >= needed) break;
+      const widened = candidates
+        .filter((c) => !used.has(c.handle) && (c.available || !inStockOnly) && fitsBounds(c, bounds))
+        .slice(0, needed - refill.length)
+        .map((c) => c.handle);
+      if (widened.length === 0) continue;
+      widened.forEach((handle) => used.add(handle));
+      refill.push(...widened);
+      relaxedTo = bounds;
+    }
+
+    console.log(`[Refill] after_budget delivered=${handles.length + refill.length} requested=${requestedCount} added=${refill.length} reason=budget${collectionIntent ? " collectionIntent=true" : ""}${relaxedTo ? ` relaxedTo=${relaxedTo.min ?? "-"}..${relaxedTo.max ?? "-"}` : ""}`);
+    const output: BudgetRefillOutput = { handles: [...handles, ...refill].slice(0, requestedCount), added: refill.length };
+    if (relaxedTo) output.relaxedTo = relaxedTo;
+    return output;
+  },
+  fallback: ({ handles }) => ({ handles, added: 0 }),
+  inputHandles: ({ handles }) => handles,
+  outputHandles: ({ handles }) => handles,
+};
@@ -0,0 +1,417 @@
+/**
+ * Unit tests for the recommendation pipeline stages
+ * Each stage runs against a small fixture catalog with in-memory search / description fetchers
+ */
+
+import { describe, expect, it } from "vitest";
+import { createPipelineTrace, runPipelineStage } from "~/utils/pipeline-stage.server";
+import { LocalHashEmbeddingProvider } from "./embedding-provider.server";
+import {
+  budgetRefillStage,
+  collectionIntentStage,
+  createDeepAttributeSearchStage,
+  createHybridRetrievalStage,
+  createPostDiversityRefillStage,
+  createSmartFetchStage,
+  filterNegativeMatches,
+  groupBalancedWindowStage,
+  merchandisingRulesStage,
+  selectGroupBalancedWindow,
+  type StageCandidate,
+  type StageConstraintCheck,
+  type StageProductSearch,
+  type StageQueryBuilder,
+} from "./pipeline-stages.server";
+
+const catalog: StageCandidate[] = [
+  { handle: "linen-shirt", title: "Linen Shirt", productType: "Shirts", vendor: "Acme", tags: ["summer"], price: "40", available: true },
+  { handle: "oxford-shirt", title: "Oxford Shirt", productType: "Shirts", vendor: "Acme", tags: [], price: "55", available: true },
+  { handle: "chino-trousers", title: "Chino Trousers", productType: "Trousers", vendor: "Acme", tags: [], price: "70", available: true },
+  { handle: "wool-trousers", title: "Wool Trousers", productType: "Trousers", vendor: "Acme", tags: [], price: "120", available: true },
+  { handle: "leather-belt", title: "Leather Belt", productType: "Belts", vendor: "Acme", tags: [], price: "30", available: true },
+  { handle: "suede-shoes", title: "Suede Shoes", productType: "Shoes", vendor: "Acme", tags: [], price: "150", available: false },
+  { handle: "perfume-free-lotion", title: "Perfume-Free Lotion", productType: "Lotion", vendor: "Skin", tags: [], price: "12", available: true },
+  { handle: "rose-perfume", title: "Rose Perfume", productType: "Perfume", vendor: "Skin", tags: [], price: "60", available: true },
+];
+
+const descriptions: Record<string, string> = {
+  "linen-shirt": "<p>Breathable shirt with mother of pearl buttons.</p>",
+  "oxford-shirt": "Classic shirt with button-down collar.",
+  "chino-trousers": "Trousers with a hidden drawstring.",
+  "wool-trousers": "Warm trousers for winter.",
+};
+
+// Query = the keywords joined; search matches any keyword in title / type
+const buildQuery: StageQueryBuilder = (signals) =>
+  signals.keywords.length > 0 ? signals.keywords.join(" OR ") : null;
+
+function createSearch(calls: string[] = []): StageProductSearch {
+  return async (query, targetCount) => {
+    calls.push(query);
+    const terms = query.toLowerCase().split(" or ");
+    const products = catalog.filter((p) =>
+      terms.some((t) => `${p.title} ${p.productType}`.toLowerCase().includes(t))
+    );
+    return { products: products.slice(0, targetCount), hasMorePages: false, totalFetched: products.length };
+  };
+}
+
+const fetchDescriptions = async (handles: string[]) =>
+  new Map(handles.map((h) => [h, descriptions[h] ?? null]));
+
+const ranked = (handles: string[]) =>
+  handles.map((handle, i) => ({ candidate: catalog.find((c) => c.handle === handle)!, score: 10 - i }));
+
+describe("filterNegativeMatches", () => {
+  it("drops products that only mention a keyword in a negated form", () => {
+    const result = filterNegativeMatches(catalog, ["perfume"]);
+    expect(result.map((p) => p.handle)).toContain("rose-perfume");
+    expect(result.map((p) => p.handle)).not.toContain("perfume-free-lotion");
+  });
+});
+
+describe("intent_first_smart_fetch", () => {
+  it("fetches matching products and reports the reason", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    const stage = createSmartFetchStage({ search: createSearch(), buildQuery });
+    const result = await runPipelineStage(stage, {
+      signals: { keywords: ["shirt"], selections: [], hasMeaningfulSignals: true },
+      desiredMin: 2,
+      cap: 10,
+    }, ctx);
+
+    expect(result.reason).toBe("ok");
+    expect(result.products.map((p) => p.handle)).toEqual(["linen-shirt", "oxford-shirt"]);
+    expect(ctx.trace.entries[0]).toMatchObject({ stage: "intent_first_smart_fetch", addedCount: 2, note: "reason=ok" });
+  });
+
+  it("falls back to the pool reason when search fails", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    const stage = createSmartFetchStage({
+      search: async () => {
+        throw new Error("throttled");
+      },
+      buildQuery,
+    });
+    const result = await runPipelineStage(stage, {
+      signals: { keywords: ["shirt"], selections: [], hasMeaningfulSignals: true },
+      desiredMin: 2,
+      cap: 10,
+    }, ctx);
+
+    expect(result).toEqual({ products: [], reason: "query_error" });
+    expect(ctx.trace.entries[0].status).toBe("failed");
+  });
+});
+
+describe("deep_attribute_search", () => {
+  it("adds products whose descriptions mention the constraint term", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    const stage = createDeepAttributeSearchStage({ search: createSearch(), buildQuery, fetchDescriptions });
+    const result = await runPipelineStage(stage, {
+      candidates: [catalog[2]],
+      constraintTerms: ["shirt", "drawstring"],
+    }, ctx);
+
+    // Only descriptions matter: the shirts mention "shirt", the chinos (already present) mention "drawstring"
+    expect(result.candidates.map((c) => c.handle)).toEqual(["chino-trousers", "linen-shirt", "oxford-shirt"]);
+    expect(result.candidates[1].searchText).toContain("mother of pearl");
+    expect(ctx.trace.entries[0]).toMatchObject({ added: ["linen-shirt", "oxford-shirt"], removed: [] });
+  });
+
+  it("keeps the candidates when there are no constraint terms", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    const stage = createDeepAttributeSearchStage({ search: createSearch(), buildQuery, fetchDescriptions });
+    const result = await runPipelineStage(stage, { candidates: [catalog[0]], constraintTerms: [] }, ctx);
+
+    expect(result.candidates).toEqual([catalog[0]]);
+    expect(ctx.trace.entries[0].status).toBe("skipped");
+  });
+});
+
+describe("collection_intent", () => {
+  const ctx = () => ({ trace: createPipelineTrace() });
+
+  it("detects collection phrases", async () => {
+    const result = await runPipelineStage(collectionIntentStage, {
+      userIntent: "Build me an outfit",
+      hardTerms: [],
+      softTerms: [],
+      isBundle: false,
+    }, ctx());
+    expect(result).toEqual({ collectionIntent: true, reason: "collection_phrase:outfit" });
+  });
+
+  it("detects event context without a product type", async () => {
+    const result = await runPipelineStage(collectionIntentStage, {
+      userIntent: "something nice",
+      hardTerms: ["blue"],
+      softTerms: ["wedding guest"],
+      isBundle: false,
+    }, ctx());
+    expect(result.reason).toBe("event_context_without_product_type:wedding guest");
+  });
+
+  it("is skipped for explicit bundles", async () => {
+    const trace = ctx();
+    const result = await runPipelineStage(collectionIntentStage, {
+      userIntent: "an outfit: shirt and trousers",
+      hardTerms: [],
+      softTerms: [],
+      isBundle: true,
+    }, trace);
+    expect(result.collectionIntent).toBe(false);
+    expect(trace.trace.entries[0].status).toBe("skipped");
+  });
+});
+
+describe("group_balanced_window", () => {
+  const base = {
+    isBundle: false,
+    userIntent: "an outfit",
+    hardTermCount: 1,
+    softTermCount: 1,
+    preferencesCount: 0,
+  };
+
+  it("takes the top candidates without collection intent", () => {
+    const result = selectGroupBalancedWindow({
+      ...base,
+      ranked: ranked(["linen-shirt", "oxford-shirt", "chino-trousers"]),
+      aiWindow: 2,
+      collectionIntent: false,
+    });
+    expect(result.candidates.map((c) => c.handle)).toEqual(["linen-shirt", "oxford-shirt"]);
+    expect(result.families).toEqual([]);
+  });
+
+  it("round-robins across product families with collection intent", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    const result = await runPipelineStage(groupBalancedWindowStage, {
+      ...base,
+      ranked: ranked(["linen-shirt", "oxford-shirt", "chino-trousers", "wool-trousers", "leather-belt"]),
+      aiWindow: 4,
+      collectionIntent: true,
+    }, ctx);
+
+    expect(result.candidates.map((c) => c.handle)).toEqual(["linen-shirt", "chino-trousers", "leather-belt", "oxford-shirt"]);
+    expect(result.families).toEqual(["shirt", "trouser", "belt"]);
+    expect(ctx.trace.entries[0].removed).toEqual(["wool-trousers"]);
+  });
+});
+
+describe("hybrid_retrieval", () => {
+  const provider = new LocalHashEmbeddingProvider();
+  const deps = {
+    embedQuery: async (text: string) => provider.embedOne(text),
+    loadVectors: async (candidates: StageCandidate[]) =>
+      new Map(candidates.map((c) => [c.handle, provider.embedOne(`${c.title} ${c.productType}`)])),
+  };
+
+  it("pulls semantically closer candidates into the AI window", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    const result = await runPipelineStage(createHybridRetrievalStage(deps), {
+      ranked: ranked(["linen-shirt", "wool-trousers", "oxford-shirt", "leather-belt", "chino-trousers"]),
+      queryText: "trousers",
+      aiWindow: 1,
+    }, ctx);
+
+    expect(result.ranked[0].candidate.handle).toBe("wool-trousers");
+    expect(result.vectorCount).toBe(5);
+    expect(result.promoted).toEqual(["wool-trousers"]);
+    expect(ctx.trace.entries[0]).toMatchObject({ added: ["wool-trousers"], removed: ["linen-shirt"] });
+  });
+
+  it("keeps the BM25 order when embeddings fail", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    const failing = createHybridRetrievalStage({ ...deps, embedQuery: async () => { throw new Error("provider down"); } });
+    const input = ranked(["linen-shirt", "oxford-shirt"]);
+    const result = await runPipelineStage(failing, { ranked: input, queryText: "shirt", aiWindow: 2 }, ctx);
+
+    expect(result.ranked).toEqual(input);
+    expect(ctx.trace.entries[0].status).toBe("failed");
+  });
+});
+
+describe("merchandising_rules", () => {
+  const base = {
+    candidates: catalog,
+    rules: [{ id: "r1", name: "Bury Acme", enabled: true, action: "bury" as const, conditions: { vendors: ["Acme"] } }],
+    query: "gift",
+    intentTerms: [],
+    resultCount: 3,
+  };
+
+  it("applies the rules to the ranked handles", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    const result = await runPipelineStage(merchandisingRulesStage, {
+      ...base,
+      handles: ["linen-shirt", "rose-perfume", "oxford-shirt"],
+    }, ctx);
+
+    expect(result.handles).toEqual(["rose-perfume", "linen-shirt", "oxford-shirt"]);
+    expect(result.applied.map((a) => a.ruleId)).toEqual(["r1"]);
+  });
+
+  it("keeps the ranked handles when a rule cannot be applied", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    const result = await runPipelineStage(merchandisingRulesStage, {
+      ...base,
+      // Tags stored as a plain string instead of a list
+      candidates: [{ ...catalog[0], tags: "summer" as unknown as string[] }],
+      rules: [{ id: "r2", name: "Exclude summer", enabled: true, action: "exclude" as const, conditions: { tags: ["summer"] } }],
+      handles: ["linen-shirt", "oxford-shirt"],
+    }, ctx);
+
+    expect(result).toEqual({ handles: ["linen-shirt", "oxford-shirt"], applied: [], excluded: [], pins: [] });
+    expect(ctx.trace.entries[0].status).toBe("failed");
+  });
+});
+
+describe("post_diversity_refill", () => {
+  const byHandle = (handles: string[]) => catalog.filter((c) => handles.includes(c.handle));
+  const scoreForSlot = (candidate: StageCandidate, slotDescriptor: string) =>
+    slotDescriptor.split(" ").some((term) => term && String(candidate.title).toLowerCase().includes(term)) ? 1 : 0;
+  const satisfiesConstraints: StageConstraintCheck = async () => ({ ok: true });
+  const base = {
+    handles: ["linen-shirt", "oxford-shirt"],
+    requestedCount: 4,
+    isBundle: true,
+    items: [{ hardTerms: ["shirt"] }, { hardTerms: ["trousers"] }],
+    slotPlan: new Map([[0, 2], [1, 2]]),
+    itemIndexByHandle: new Map([["linen-shirt", 0], ["oxford-shirt", 0]]),
+    itemPools: [{ itemIndex: 1, candidates: byHandle(["wool-trousers", "chino-trousers"]) }],
+    candidates: catalog,
+    inStockOnly: true,
+    aiCoreUsed: true,
+  };
+
+  it("refills each item from its pool and interleaves the items", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    const result = await runPipelineStage(createPostDiversityRefillStage({ satisfiesConstraints, scoreForSlot }), base, ctx);
+
+    expect(result.handles).toEqual(["linen-shirt", "chino-trousers", "oxford-shirt", "wool-trousers"]);
+    expect(result.added).toBe(2);
+    expect(Array.from(result.itemIndexByHandle)).toEqual([["chino-trousers", 1], ["wool-trousers", 1]]);
+  });
+
+  it("is skipped outside bundles", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    const result = await runPipelineStage(createPostDiversityRefillStage({ satisfiesConstraints, scoreForSlot }), { ...base, isBundle: false }, ctx);
+
+    expect(result.handles).toEqual(base.handles);
+    expect(ctx.trace.entries[0].status).toBe("skipped");
+  });
+
+  it("keeps the diversified handles when the constraint check fails", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    const failing = createPostDiversityRefillStage({
+      satisfiesConstraints: async () => {
+        throw new Error("facet vocabulary unavailable");
+      },
+      scoreForSlot,
+    });
+    const result = await runPipelineStage(failing, {
+      ...base,
+      items: [{ hardTerms: ["shirt"] }, { hardTerms: ["trousers"], constraints: { optionConstraints: { color: "navy" } } }],
+    }, ctx);
+
+    expect(result).toEqual({ handles: base.handles, added: 0, itemIndexByHandle: new Map() });
+    expect(ctx.trace.entries[0].status).toBe("failed");
+  });
+});
+
+describe("budget_refill", () => {
+  const base = {
+    requestedCount: 4,
+    maxPriceCeiling: 100,
+    candidates: catalog,
+    inStockOnly: true,
+    hardTerms: [],
+  };
+
+  it("refills with in-budget, in-stock candidates", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    const result = await runPipelineStage(budgetRefillStage, {
+      ...base,
+      handles: ["linen-shirt"],
+      removedOverCeiling: 2,
+      collectionIntent: false,
+    }, ctx);
+
+    expect(result).toEqual({ handles: ["linen-shirt", "oxford-shirt", "chino-trousers", "leather-belt"], added: 3 });
+    expect(ctx.trace.entries[0].added).toEqual(["oxford-shirt", "chino-trousers", "leather-belt"]);
+  });
+
+  it("prefers families missing from the result with collection intent", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    const result = await runPipelineStage(budgetRefillStage, {
+      ...base,
+      candidates: catalog.slice(0, 6),
+      requestedCount: 3,
+      handles: ["linen-shirt"],
+      removedOverCeiling: 1,
+      collectionIntent: true,
+    }, ctx);
+
+    expect(result.handles).toEqual(["linen-shirt", "chino-trousers", "leather-belt"]);
+  });
+
+  it("keeps refills above the price floor", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    const result = await runPipelineStage(budgetRefillStage, {
+      ...base,
+      requestedCount: 3,
+      minPriceFloor: 50,
+      handles: ["oxford-shirt"],
+      removedOverCeiling: 2,
+      collectionIntent: false,
+    }, ctx);
+
+    expect(result).toEqual({ handles: ["oxford-shirt", "chino-trousers", "rose-perfume"], added: 2 });
+  });
+
+  it("widens the price range step by step when the strict range cannot fill the result", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    const result = await runPipelineStage(budgetRefillStage, {
+      ...base,
+      requestedCount: 3,
+      maxPriceCeiling: 60,
+      minPriceFloor: 50,
+      relaxationLadder: [{ min: 40, max: 75 }, { min: 25, max: 130 }],
+      handles: ["oxford-shirt"],
+      removedOverCeiling: 0,
+      collectionIntent: false,
+    }, ctx);
+
+    expect(result).toEqual({ handles: ["oxford-shirt", "rose-perfume", "linen-shirt"], added: 2, relaxedTo: { min: 40, max: 75 } });
+  });
+
+  it("is skipped when nothing was removed by the budget", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    const result = await runPipelineStage(budgetRefillStage, {
+      ...base,
+      handles: ["linen-shirt"],
+      removedOverCeiling: 0,
+      collectionIntent: false,
+    }, ctx);
+
+    expect(result).toEqual({ handles: ["linen-shirt"], added: 0 });
+    expect(ctx.trace.entries[0].status).toBe("skipped");
+  });
+
+  it("keeps the budget-filtered handles when the pool is malformed", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    const result = await runPipelineStage(budgetRefillStage, {
+      ...base,
+      // An enrichment miss left a hole in the pool
+      candidates: [null as unknown as StageCandidate, ...catalog],
+      handles: ["linen-shirt"],
+      removedOverCeiling: 2,
+      collectionIntent: false,
+    }, ctx);
+
+    expect(result).toEqual({ handles: ["linen-shirt"], added: 0 });
+    expect(ctx.trace.entries[0].status).toBe("failed");
+  });
+});
@@ -0,0 +1,147 @@
+import prisma from "~/db.server";
+import { enqueueJob } from "~/models/job-queue.server";
+import { getEmbeddingProvider, type EmbeddingProvider } from "~/models/embedding-provider.server";
+import { buildEmbeddingText, embeddingTextHash, type EmbeddableProduct } from "~/utils/hybrid-retrieval.server";
+
+/**
+ * Stored product embeddings (ProductEmbedding, one row per shop + handle)
+ * The catalog index keeps them fresh through an "embeddings.refresh" job enqueued by product webhooks
+ * and bulk imports; candidates without a stored vector (shops without an index, brand-new products)
+ * are embedded inline during a session, up to a small cap.
+ */
+
+const EMBED_BATCH_SIZE = 64;
+const MAX_INLINE_EMBEDS = 100;
+// Webhooks tend to arrive in bursts (bulk edits); one refresh shortly after covers the burst
+const REFRESH_DEBOUNCE_MS = 30 * 1000;
+
+export type EmbeddingRefreshJobPayload = { shopDomain: string };
+
+export function embeddingJobDedupeKey(shopDomain: string): string {
+  return `embeddings:${shopDomain}`;
+}
+
+/**
+ * Schedules a refresh of a shop's embeddings (no-op when hybrid retrieval is off)
+ */
+export async function enqueueEmbeddingRefresh(shopDomain: string): Promise<void> {
+  if (!getEmbeddingProvider()) return;
+  await enqueueJob("embeddings.refresh", { shopDomain }, {
+    dedupeKey: embeddingJobDedupeKey(shopDomain),
+    runAt: new Date(Date.now() + REFRESH_DEBOUNCE_MS),
+    requeue: true,
+  });
+}
+
+type EmbeddingRow = {
+  handle: string;
+  productGid: string | null;
+  text: string;
+  textHash: string;
+};
+
+async function embedInBatches(provider: EmbeddingProvider, texts: string[]): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+    vectors.push(...(await provider.embed(texts.slice(i, i + EMBED_BATCH_SIZE))));
+  }
+  return vectors;
+}
+
+async function writeEmbeddings(shopId: string, model: string, rows: EmbeddingRow[], vectors: number[][]): Promise<void> {
+  await prisma.$transaction(rows.map((row, index) => {
+    const data = { model, dimensions: vectors[index].length, vector: vectors[index], textHash: row.textHash };
+    return prisma.productEmbedding.upsert({
+      where: { shopId_handle: { shopId, handle: row.handle } },
+      create: { shopId, handle: row.handle, productGid: row.productGid, ...data },
+      // Inline rows carry no productGid; never clear one set by the catalog refresh
+      update: { ...data, productGid: row.productGid ?? undefined },
+    });
+  }));
+}
+
+function toEmbeddingRow(product: EmbeddableProduct & { handle: string; productGid?: string | null }): EmbeddingRow {
+  const text = buildEmbeddingText(product);
+  return { handle: product.handle, productGid: product.productGid ?? null, text, textHash: embeddingTextHash(text) };
+}
+
+/**
+ * Re-embeds indexed products whose text or model changed, and drops embeddings of products
+ * that left the index (rows embedded inline for shops without an index are kept)
+ */
+export async function refreshShopEmbeddings(shopDomain: string): Promise<{ embedded: number; unchanged: number; pruned: number }> {
+  const provider = getEmbeddingProvider();
+  if (!provider) return { embedded: 0, unchanged: 0, pruned: 0 };
+
+  const shop = await prisma.shop.findUnique({ where: { domain: shopDomain }, select: { id: true } });
+  if (!shop) return { embedded: 0, unchanged: 0, pruned: 0 };
+
+  const products = await prisma.catalogProduct.findMany({
+    where: { shopId: shop.id },
+    select: { handle: true, productGid: true, title: true, productType: true, vendor: true, tags: true, description: true },
+  });
+  const existing = await prisma.productEmbedding.findMany({
+    where: { shopId: shop.id },
+    select: { handle: true, model: true, textHash: true, productGid: true },
+  });
+  const existingByHandle = new Map(existing.map((row) => [row.handle, row]));
+  const model = provider.getModel();
+
+  const rows = products.map((p) => toEmbeddingRow({
+    ...p,
+    tags: Array.isArray(p.tags) ? p.tags.filter((t): t is string => typeof t === "string") : [],
+  }));
+  const changed = rows.filter((row) => {
+    const stored = existingByHandle.get(row.handle);
+    return !stored || stored.model !== model || stored.textHash !== row.textHash;
+  });
+  for (let i = 0; i < changed.length; i += EMBED_BATCH_SIZE) {
+    const batch = changed.slice(i, i + EMBED_BATCH_SIZE);
+    await writeEmbeddings(shop.id, model, batch, await provider.embed(batch.map((row) => row.text)));
+  }
+
+  const indexedHandles = new Set(products.map((p) => p.handle));
+  const staleHandles = existing.filter((row) => row.productGid && !indexedHandles.has(row.handle)).map((row) => row.handle);
+  const pruned = staleHandles.length > 0
+    ? (await prisma.productEmbedding.deleteMany({ where: { shopId: shop.id, handle: { in: staleHandles } } })).count
+    : 0;
+
+  console.log("[Embeddings] Shop refreshed", { shopDomain, model, embedded: changed.length, unchanged: rows.length - changed.length, pruned });
+  return { embedded: changed.length, unchanged: rows.length - changed.length, pruned };
+}
+
+/**
+ * Vectors for pipeline candidates: stored rows for the active model, plus inline embeddings for
+ * up to MAX_INLINE_EMBEDS candidates without one (in the order given, so pass best-first)
+ */
+export async function loadCandidateEmbeddings(
+  shopDomain: string,
+  candidates: Array<EmbeddableProduct & { handle: string }>,
+  provider: EmbeddingProvider
+): Promise<Map<string, number[]>> {
+  const vectors = new Map<string, number[]>();
+  if (candidates.length === 0) return vectors;
+
+  const shop = await prisma.shop.findUnique({ where: { domain: shopDomain }, select: { id: true } });
+  if (!shop) return vectors;
+
+  const model = provider.getModel();
+  const stored = await prisma.productEmbedding.findMany({
+    where: { shopId: shop.id, model, handle: { in: candidates.map((c) => c.handle) } },
+    select: { handle: true, vector: true },
+  });
+  stored.forEach((row) => vectors.set(row.handle, row.vector));
+
+  const missing = candidates.filter((c) => !vectors.has(c.handle)).slice(0, MAX_INLINE_EMBEDS).map(toEmbeddingRow);
+  if (missing.length > 0) {
+    const computed = await embedInBatches(provider, missing.map((row) => row.text));
+    missing.forEach((row, index) => vectors.set(row.handle, computed[index]));
+    // Kept for the next session; the refresh job replaces them once the product is indexed
+    void writeEmbeddings(shop.id, model, missing, computed).catch((error) => {
+      console.error("[Embeddings] Failed to store inline embeddings:", error instanceof Error ? error.message : String(error));
+    });
+  }
+
+  return vectors;
+}
+
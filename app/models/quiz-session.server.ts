@@ -0,0 +1,186 @@
+import prisma from "~/db.server";
+import { ConciergeRole } from "@prisma/client";
+import {
+  addConciergeMessage,
+  createConciergeSession,
+  extractQueryFromAnswers,
+} from "~/models/concierge.server";
+import {
+  applyQuizAction,
+  buildQuizAnswers,
+  formatQuizAnswer,
+  createQuizState,
+  getCurrentQuestion,
+  getQuizProgress,
+  isQuizComplete,
+  normalizeQuizQuestions,
+  parseQuizState,
+  type QuizAction,
+  type QuizAnswerEntry,
+  type QuizAnswerValue,
+  type QuizQuestion,
+  type QuizState,
+} from "~/utils/quiz-engine.server";
+
+/**
+ * Question shape returned to the storefront (no branching rules exposed)
+ */
+export type PublicQuizQuestion = {
+  id: string;
+  type: string;
+  question: string;
+  placeholder?: string;
+  options?: Array<{ value: string; label: string; imageUrl?: string }>;
+  multiple?: boolean;
+  min?: number;
+  max?: number;
+  step?: number;
+  unit?: string;
+  optional: boolean;
+};
+
+export type QuizSessionStep = {
+  done: boolean;
+  nextQuestion: PublicQuizQuestion | null;
+  currentAnswer: QuizAnswerValue | null; // Previous answer for the current question (prefill after going back)
+  step: number;
+  total: number;
+  canGoBack: boolean;
+  answers: QuizAnswerEntry[];
+};
+
+function toPublicQuizQuestion(question: QuizQuestion): PublicQuizQuestion {
+  return {
+    id: question.id,
+    type: question.type,
+    question: question.question,
+    ...(question.placeholder !== undefined ? { placeholder: question.placeholder } : {}),
+    ...(question.options ? { options: question.options } : {}),
+    ...(question.multiple !== undefined ? { multiple: question.multiple } : {}),
+    ...(question.type === "range" ? { min: question.min, max: question.max, step: question.step, unit: question.unit } : {}),
+    optional: question.optional,
+  };
+}
+
+function buildQuizSessionStep(questions: QuizQuestion[], state: QuizState): QuizSessionStep {
+  const current = getCurrentQuestion(questions, state);
+  const { step, total } = getQuizProgress(questions, state);
+  return {
+    done: isQuizComplete(questions, state),
+    nextQuestion: current ? toPublicQuizQuestion(current) : null,
+    currentAnswer: current ? state.answers[current.id] ?? null : null,
+    step,
+    total,
+    canGoBack: state.history.length > 0,
+    answers: buildQuizAnswers(questions, state),
+  };
+}
+
+/**
+ * Index of the current question in questionsJson; questions.length once finished
+ */
+function quizStepIndex(questions: QuizQuestion[], state: QuizState): number {
+  if (!state.currentId) return questions.length;
+  return questions.findIndex((q) => q.id === state.currentId);
+}
+
+/**
+ * Loads a session with its experience questions and restored quiz state
+ */
+export async function getQuizSession(sessionToken: string) {
+  const session = await prisma.conciergeSession.findUnique({
+    where: { publicToken: sessionToken },
+    include: { shop: true, experience: true },
+  });
+  if (!session) return null;
+
+  const questions = normalizeQuizQuestions(session.experience?.questionsJson || "[]");
+  const state = parseQuizState(session.quizStateJson, questions);
+  return { session, questions, state };
+}
+
+/**
+ * Creates a COLLECTING session for the step-by-step flow and returns the first question
+ */
+export async function startQuizSession({
+  shopId,
+  experienceId,
+  clientRequestId,
+}: {
+  shopId: string;
+  experienceId: string;
+  clientRequestId?: string | null;
+}): Promise<{ sessionToken: string; step: QuizSessionStep } | null> {
+  const experience = await prisma.experience.findFirst({
+    where: { id: experienceId, shopId },
+  });
+  if (!experience) return null;
+
+  const questions = normalizeQuizQuestions(experience.questionsJson);
+  const state = createQuizState(questions);
+
+  const sessionToken = await createConciergeSession({
+    shopId,
+    experienceId: experience.id,
+    resultCount: Number(experience.resultCount ?? 8),
+    answersJson: "[]",
+    clientRequestId: clientRequestId || null,
+  });
+
+  await prisma.conciergeSession.update({
+    where: { publicToken: sessionToken },
+    data: {
+      quizStep: quizStepIndex(questions, state),
+      quizStateJson: JSON.stringify(state),
+    },
+  });
+
+  return { sessionToken, step: buildQuizSessionStep(questions, state) };
+}
+
+/**
+ * Applies an answer / skip / back action to a session and persists the new state.
+ * Answers are also stored as USER messages and synced into answersJson so the
+ * recommendation pipeline sees the same shape as a one-shot /session/start.
+ * Throws QuizStateError when the action is not valid for the current step.
+ */
+export async function advanceQuizSession({
+  sessionToken,
+  questions,
+  state,
+  action,
+}: {
+  sessionToken: string;
+  questions: QuizQuestion[];
+  state: QuizState;
+  action: QuizAction;
+}): Promise<QuizSessionStep> {
+  const nextState = applyQuizAction(questions, state, action);
+  const answers = buildQuizAnswers(questions, nextState);
+  const answersJson = JSON.stringify(answers);
+  const queryData = extractQueryFromAnswers(answersJson);
+
+  await prisma.conciergeSession.update({
+    where: { publicToken: sessionToken },
+    data: {
+      quizStep: quizStepIndex(questions, nextState),
+      quizStateJson: JSON.stringify(nextState),
+      answersJson,
+      queryRaw: queryData?.raw || null,
+      queryNormalized: queryData?.normalized || null,
+    },
+  });
+
+  const answeredQuestion = action.type === "answer" ? questions.find((q) => q.id === state.currentId) : undefined;
+  const answeredValue = answeredQuestion ? nextState.answers[answeredQuestion.id] : undefined;
+  if (answeredQuestion && answeredValue !== undefined) {
+    await addConciergeMessage({
+      sessionToken,
+      role: ConciergeRole.USER,
+      text: `${answeredQuestion.question}: ${formatQuizAnswer(answeredQuestion, answeredValue)}`,
+      imageUrl: null,
+    });
+  }
+
+  return buildQuizSessionStep(questions, nextState);
+}
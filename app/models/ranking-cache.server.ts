@@ -0,0 +1,176 @@
+import prisma from "~/db.server";
+import { UsageEventType } from "@prisma/client";
+import { trackUsageEvent } from "~/models/billing.server";
+import { DEFAULT_RANKING_CACHE_HOURS } from "~/utils/ranking-cache-options";
+import { parseProductExplanations, type ProductExplanations } from "~/utils/product-explanations.server";
+import {
+  buildRankingCacheKey,
+  candidateWindowHash,
+  experienceConfigHash,
+  normalizeRankingIntent,
+  type RankingCacheKeyInput,
+} from "~/utils/ranking-cache-key.server";
+
+/**
+ * AI ranking cache (AIRankingCache)
+ * Entries are keyed on the shop's catalog version and the experience's ranking config (see
+ * utils/ranking-cache-key.server), so a product webhook or an experience edit makes old entries
+ * unreachable; they then expire and are purged by the retention job. Each hit is counted on the
+ * entry and recorded as an AI_RANKING_CACHE_HIT usage event.
+ */
+
+export type RankingCacheScope = {
+  shopId: string;
+  experienceId: string | null;
+  catalogVersion: number;
+  configHash: string;
+  freshnessHours: number;
+};
+
+export type CachedRanking = {
+  selectedHandles: string[];
+  reasoning: string | null;
+  productReasons: ProductExplanations | null;
+  source: "ai";
+  parseFailReason: null;
+  cacheHit: true;
+};
+
+/**
+ * Catalog version + experience config for a ranking call; null when the experience turned the cache off
+ */
+export async function getRankingCacheScope(shopId: string, experienceId: string | null | undefined): Promise<RankingCacheScope | null> {
+  const [syncState, experience] = await Promise.all([
+    prisma.catalogSyncState.findUnique({ where: { shopId }, select: { catalogVersion: true } }),
+    experienceId
+      ? prisma.experience.findFirst({
+          where: { id: experienceId, shopId },
+          select: {
+            mode: true,
+            resultCount: true,
+            tone: true,
+            includedCollections: true,
+            excludedTags: true,
+            inStockOnly: true,
+            searchSynonymsJson: true,
+            rankingCacheHours: true,
+          },
+        })
+      : Promise.resolve(null),
+  ]);
+
+  const freshnessHours = experience ? experience.rankingCacheHours : DEFAULT_RANKING_CACHE_HOURS;
+  if (freshnessHours <= 0) return null;
+
+  return {
+    shopId,
+    experienceId: experience ? experienceId! : null,
+    catalogVersion: syncState?.catalogVersion ?? 0,
+    configHash: experienceConfigHash(experience),
+    freshnessHours,
+  };
+}
+
+export function rankingCacheKeyFor(scope: RankingCacheScope, input: Omit<RankingCacheKeyInput, "catalogVersion" | "configHash">): string {
+  return buildRankingCacheKey({ ...input, catalogVersion: scope.catalogVersion, configHash: scope.configHash });
+}
+
+/**
+ * Returns an unexpired entry and records the hit
+ */
+export async function getCachedRanking(
+  scope: RankingCacheScope,
+  cacheKey: string,
+  sessionToken?: string
+): Promise<CachedRanking | null> {
+  const entry = await prisma.aIRankingCache.findUnique({ where: { cacheKey } });
+  if (!entry || entry.shopId !== scope.shopId || entry.expiresAt <= new Date()) {
+    return null;
+  }
+
+  let selectedHandles: string[];
+  try {
+    const parsed = JSON.parse(entry.rankedHandles);
+    selectedHandles = Array.isArray(parsed) ? parsed.filter((h): h is string => typeof h === "string") : [];
+  } catch {
+    return null;
+  }
+  if (selectedHandles.length === 0) return null;
+
+  let productReasons: ProductExplanations | null = null;
+  if (entry.productReasons) {
+    try {
+      productReasons = parseProductExplanations(JSON.parse(entry.productReasons));
+    } catch {
+      productReasons = null;
+    }
+  }
+
+  await prisma.aIRankingCache.update({
+    where: { id: entry.id },
+    data: { hitCount: { increment: 1 }, lastHitAt: new Date() },
+  });
+  await trackUsageEvent(scope.shopId, UsageEventType.AI_RANKING_CACHE_HIT, {
+    sessionToken: sessionToken || null,
+    experienceId: scope.experienceId,
+    catalogVersion: scope.catalogVersion,
+    ageMinutes: Math.round((Date.now() - entry.createdAt.getTime()) / 60000),
+  }, 0);
+
+  console.log("[AI Ranking] Cache hit", { cacheKey: cacheKey.substring(0, 12), catalogVersion: scope.catalogVersion, hitCount: entry.hitCount + 1 });
+  return { selectedHandles, reasoning: entry.reasoning, productReasons, source: "ai", parseFailReason: null, cacheHit: true };
+}
+
+/**
+ * Stores a successful AI ranking for the experience's freshness window
+ */
+export async function setCachedRanking(
+  scope: RankingCacheScope,
+  cacheKey: string,
+  entry: {
+    userIntent: string;
+    candidateHandles: string[];
+    selectedHandles: string[];
+    reasoning: string | null;
+    productReasons?: ProductExplanations | null;
+    resultCount: number;
+  }
+): Promise<void> {
+  const expiresAt = new Date(Date.now() + scope.freshnessHours * 60 * 60 * 1000);
+  const data = {
+    shopId: scope.shopId,
+    experienceId: scope.experienceId,
+    userIntent: normalizeRankingIntent(entry.userIntent).substring(0, 500),
+    productHash: candidateWindowHash(entry.candidateHandles),
+    catalogVersion: scope.catalogVersion,
+    configHash: scope.configHash,
+    rankedHandles: JSON.stringify(entry.selectedHandles),
+    reasoning: entry.reasoning,
+    productReasons: entry.productReasons ? JSON.stringify(entry.productReasons) : null,
+    resultCount: entry.resultCount,
+    expiresAt,
+  };
+  await prisma.aIRankingCache.upsert({
+    where: { cacheKey },
+    create: { cacheKey, ...data },
+    update: { ...data, hitCount: 0, lastHitAt: null, createdAt: new Date() },
+  });
+}
+
+export type RankingCacheStats = {
+  hits: number;
+  liveEntries: number;
+};
+
+/**
+ * Cache hits in a period (usage events) and entries still serving
+ */
+export async function getRankingCacheStats(shopId: string, from: Date, to: Date): Promise<RankingCacheStats> {
+  const [hits, liveEntries] = await Promise.all([
+    prisma.usageEvent.count({
+      where: { shopId, eventType: UsageEventType.AI_RANKING_CACHE_HIT, createdAt: { gte: from, lte: to } },
+    }),
+    prisma.aIRankingCache.count({ where: { shopId, expiresAt: { gt: new Date() } } }),
+  ]);
+  return { hits, liveEntries };
+}
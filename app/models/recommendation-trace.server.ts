@@ -0,0 +1,187 @@
+import prisma from "~/db.server";
+import type { Prisma } from "@prisma/client";
+import type { PipelineStageTraceEntry } from "~/utils/pipeline-stage.server";
+import { extractSearchText } from "~/utils/text-indexing.server";
+import type { MerchandisingRuleEffect } from "~/utils/merchandising-rules.server";
+
+/**
+ * Recommendation trace: a structured record of how one session's results were produced,
+ * so merchants can see why a shopper got these products (admin drill-down: app.sessions.$id)
+ */
+
+export type TraceRankingSource = "ai" | "fallback" | "ai_failed_fallback_bm25";
+
+export type RecommendationTraceIntent = {
+  userIntent: string;
+  parsedBy: "llm" | "pattern";
+  isBundle: boolean;
+  bundleItems: Array<{ hardTerms: string[]; quantity: number }>;
+  hardTerms: string[];
+  softTerms: string[];
+  avoidTerms: string[];
+  hardFacets: Record<string, string | null>;
+  facets?: Record<string, string[]>; // Generic facets (vintage, skin type, ...); absent on older traces
+  priceMin: number | null;
+  priceMax: number | null;
+};
+
+export type RecommendationTraceGatingStep = {
+  step: string;
+  count: number;
+  note?: string;
+};
+
+export type RecommendationTraceFacetCoverage = {
+  totalCandidates: number;
+  coverage: Record<string, number>; // STEP 1: share of candidates carrying the facet (0..1)
+  enforced: string[]; // STEP 2: facets kept as hard constraints
+  degraded: Array<{ facet: string; value: string; coverage: number }>; // STEP 2: low coverage, moved to soft terms
+  before: number | null; // STEP 3: candidates before / after facet gating
+  after: number | null;
+};
+
+export type RecommendationTraceRejection = {
+  handle: string;
+  title: string | null;
+  why: string;
+};
+
+export type RecommendationTraceData = {
+  version: 1;
+  intent: RecommendationTraceIntent | null;
+  gating: RecommendationTraceGatingStep[];
+  facetCoverage: RecommendationTraceFacetCoverage | null;
+  aiWindow: string[]; // Handles sent to rankProductsWithAI
+  source: TraceRankingSource | null;
+  cacheHit?: boolean; // Ranking served from the AI ranking cache (no LLM call)
+  merchandising?: MerchandisingRuleEffect[]; // Experience merchandising rules that changed the ranked result
+  parseFailReason: string | null;
+  trustFallback: boolean;
+  rejected: RecommendationTraceRejection[]; // AI window candidates that did not make the final result
+  finalHandles: string[];
+  stages: PipelineStageTraceEntry[];
+};
+
+const MAX_TRACE_REJECTIONS = 50;
+
+export function createRecommendationTrace(): RecommendationTraceData {
+  return {
+    version: 1,
+    intent: null,
+    gating: [],
+    facetCoverage: null,
+    aiWindow: [],
+    source: null,
+    parseFailReason: null,
+    trustFallback: false,
+    rejected: [],
+    finalHandles: [],
+    stages: [],
+  };
+}
+
+export function recordGatingStep(trace: RecommendationTraceData, step: string, count: number, note?: string): void {
+  trace.gating.push({ step, count, ...(note ? { note } : {}) });
+}
+
+/**
+ * Short deterministic reason a candidate fails the session constraints;
+ * "not selected" when it satisfies them and simply ranked below the results
+ */
+export function explainRejection(
+  candidate: { handle: string; price?: string | number | null; available?: boolean; [key: string]: unknown },
+  constraints: {
+    hardTerms: string[];
+    avoidTerms: string[];
+    hardFacets?: Record<string, string | null | undefined>;
+    priceMax?: number | null;
+    inStockOnly?: boolean;
+  }
+): string {
+  const text = extractSearchText(candidate).toLowerCase();
+  if (constraints.inStockOnly && candidate.available === false) return "out of stock";
+
+  const price = candidate.price ? parseFloat(String(candidate.price)) : NaN;
+  if (constraints.priceMax != null && Number.isFinite(price) && price > constraints.priceMax) {
+    return `over budget (${price} > ${constraints.priceMax})`;
+  }
+
+  const avoided = constraints.avoidTerms.find((t) => t && text.includes(t.toLowerCase()));
+  if (avoided) return `contains avoided term "${avoided}"`;
+
+  if (constraints.hardTerms.length > 0 && !constraints.hardTerms.some((t) => text.includes(t.toLowerCase()))) {
+    return `missing required term (${constraints.hardTerms.slice(0, 3).join(", ")})`;
+  }
+
+  for (const [facet, value] of Object.entries(constraints.hardFacets || {})) {
+    if (!value) continue;
+    const values = Array.isArray(candidate[`${facet}s`]) ? (candidate[`${facet}s`] as string[]) : [];
+    const wanted = value.toLowerCase();
+    if (!values.some((v) => String(v).toLowerCase().includes(wanted)) && !text.includes(wanted)) {
+      return `${facet} "${value}" not available`;
+    }
+  }
+
+  return "not selected (ranked lower)";
+}
+
+/**
+ * Fills the rejected list from the AI window: every window candidate missing from the final result
+ */
+export function recordRejections(
+  trace: RecommendationTraceData,
+  windowCandidates: Array<{ handle: string; title?: string | null; [key: string]: unknown }>,
+  finalHandles: string[],
+  constraints: Parameters<typeof explainRejection>[1]
+): void {
+  const kept = new Set(finalHandles);
+  trace.rejected = windowCandidates
+    .filter((c) => !kept.has(c.handle))
+    .slice(0, MAX_TRACE_REJECTIONS)
+    .map((c) => ({ handle: c.handle, title: c.title ?? null, why: explainRejection(c, constraints) }));
+}
+
+/**
+ * Upserts the trace for a session (one trace per session; a re-run replaces it)
+ */
+export async function saveRecommendationTrace(sessionToken: string, trace: RecommendationTraceData): Promise<void> {
+  const session = await prisma.conciergeSession.findUnique({
+    where: { publicToken: sessionToken },
+    select: { id: true },
+  });
+  if (!session) {
+    throw new Error(`ConciergeSession not found for token: ${sessionToken}`);
+  }
+
+  const data = {
+    source: trace.source,
+    parseFailReason: trace.parseFailReason,
+    traceJson: trace as unknown as Prisma.InputJsonValue,
+  };
+  await prisma.recommendationTrace.upsert({
+    where: { sessionId: session.id },
+    create: { sessionId: session.id, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Session with its trace, scoped to the shop (admin drill-down)
+ */
+export async function getSessionTrace(shopId: string, sessionId: string) {
+  const session = await prisma.conciergeSession.findFirst({
+    where: { id: sessionId, shopId },
+    include: {
+      experience: { select: { id: true, name: true } },
+      result: true,
+      trace: true,
+      refinements: { orderBy: { version: "asc" } },
+    },
+  });
+  if (!session) return null;
+
+  return {
+    session,
+    trace: session.trace ? (session.trace.traceJson as unknown as RecommendationTraceData) : null,
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Unit tests for the recommendation trace helpers
+ * Rejection reasons and the rejected list built from the AI window
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  createRecommendationTrace,
+  explainRejection,
+  recordGatingStep,
+  recordRejections,
+} from "./recommendation-trace.server";
+
+const constraints = {
+  hardTerms: ["shirt"],
+  avoidTerms: ["polyester"],
+  hardFacets: { size: null, color: "blue", material: null },
+  priceMax: 100,
+  inStockOnly: true,
+};
+
+const candidate = (overrides: Record<string, unknown>) => ({
+  handle: "linen-shirt",
+  title: "Linen Shirt",
+  productType: "Shirts",
+  tags: [],
+  colors: ["Blue"],
+  price: "40",
+  available: true,
+  ...overrides,
+});
+
+describe("explainRejection", () => {
+  it("reports the first failing constraint", () => {
+    expect(explainRejection(candidate({ available: false }), constraints)).toBe("out of stock");
+    expect(explainRejection(candidate({ price: "140" }), constraints)).toBe("over budget (140 > 100)");
+    expect(explainRejection(candidate({ title: "Polyester Shirt" }), constraints)).toBe('contains avoided term "polyester"');
+    expect(explainRejection(candidate({ handle: "linen-trousers", title: "Linen Trousers", productType: "Trousers" }), constraints))
+      .toBe("missing required term (shirt)");
+    expect(explainRejection(candidate({ colors: ["Red"] }), constraints)).toBe('color "blue" not available');
+  });
+
+  it("falls back to ranking when every constraint is satisfied", () => {
+    expect(explainRejection(candidate({}), constraints)).toBe("not selected (ranked lower)");
+  });
+});
+
+describe("recordRejections", () => {
+  it("lists AI window candidates missing from the final result", () => {
+    const trace = createRecommendationTrace();
+    recordGatingStep(trace, "final_gated_pool", 3, "trustFallback");
+
+    recordRejections(
+      trace,
+      [candidate({}), candidate({ handle: "oxford-shirt", title: "Oxford Shirt", price: "120" }), candidate({ handle: "silk-shirt", title: null })],
+      ["linen-shirt"],
+      constraints
+    );
+
+    expect(trace.gating).toEqual([{ step: "final_gated_pool", count: 3, note: "trustFallback" }]);
+    expect(trace.rejected).toEqual([
+      { handle: "oxford-shirt", title: "Oxford Shirt", why: "over budget (120 > 100)" },
+      { handle: "silk-shirt", title: null, why: "not selected (ranked lower)" },
+    ]);
+  });
+});
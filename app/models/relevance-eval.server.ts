@@ -0,0 +1,307 @@
+import fs from "fs";
+import { FixtureReplayProvider, setLLMProvider, type LLMFixture, type LLMFixtureResponder } from "~/models/llm-provider.server";
+import { rankProductsWithAI } from "~/models/ai-ranking.server";
+import { ensureResultDiversity, measureResultDiversity } from "~/models/result-quality.server";
+import { type EmbeddingProvider } from "~/models/embedding-provider.server";
+import {
+  collectionIntentStage,
+  createHybridRetrievalStage,
+  groupBalancedWindowStage,
+  merchandisingRulesStage,
+  type RankedCandidate,
+} from "~/models/pipeline-stages.server";
+import { applyExperienceRules } from "~/utils/similar-products.server";
+import { parseMerchandisingRules } from "~/utils/merchandising-rules";
+import { enforceMerchandisingOutcome } from "~/utils/merchandising-rules.server";
+import { buildEmbeddingText } from "~/utils/hybrid-retrieval.server";
+import {
+  applyBudgetFilterCandidates,
+  buildBM25Index,
+  detectBoostTerms,
+  gateByFacets,
+  gateByHardTerms,
+  preRankCandidates,
+} from "~/utils/candidate-retrieval.server";
+import { hardFacetsToFacetValues } from "~/utils/facets.server";
+import { expandTerms } from "~/utils/term-expansion.server";
+import { extractSearchText, tokenize } from "~/utils/text-indexing.server";
+import { parseConstraintsFromText } from "~/utils/variant-constraints.server";
+import { parsePriceConstraint, priceConstraintBounds } from "~/utils/price-constraint.server";
+import { createPipelineTrace, runPipelineStage } from "~/utils/pipeline-stage.server";
+import {
+  buildEvalReport,
+  DEFAULT_EVAL_K,
+  scoreEvalQuery,
+  type EvalCatalogProduct,
+  type EvalQueryResult,
+  type EvalReport,
+  type GoldenQuery,
+  type GoldenSet,
+} from "~/utils/relevance-eval.server";
+
+/**
+ * Offline relevance evaluation runner
+ * Runs each golden query through the single-item recommendation path (experience rules, term
+ * expansion, budget, the pipeline's facet and hard-term gating and BM25 pre-rank, optional hybrid
+ * retrieval, AI window, AI ranking, merchandising rules, diversity)
+ * against a fixture catalog, with the LLM replaced by a deterministic stub. No database or network.
+ */
+
+const DEFAULT_AI_WINDOW = 20;
+const DEFAULT_RESULT_COUNT = 8;
+// Same floor the session pipeline uses before relaxing hard terms to token containment
+const MIN_CANDIDATES_FOR_AI = 50;
+
+export type RelevanceEvalOptions = {
+  /** Recorded LLM responses (purpose "ranking", usually with "match"); unmatched calls use the stub ranker */
+  llmFixtures?: LLMFixture[];
+  /** Turns on the hybrid_retrieval stage (e.g. LocalHashEmbeddingProvider) */
+  embeddingProvider?: EmbeddingProvider | null;
+  aiWindow?: number;
+};
+
+type EvalCandidate = {
+  handle: string;
+  title: string;
+  tags: string[];
+  productType: string | null;
+  vendor: string | null;
+  price: string | null;
+  description: string | null;
+  available: boolean;
+  sizes: string[];
+  colors: string[];
+  materials: string[];
+  optionValues: Record<string, string[]>;
+  searchText: string;
+};
+
+export type StubRankingWindow = {
+  /** Handles of the candidates passed to rankProductsWithAI, in window order */
+  handles: string[];
+  resultCount: number;
+};
+
+/**
+ * Stub ranker: selects from the window the pipeline handed to rankProductsWithAI, in window
+ * order, so a run measures retrieval and post-processing rather than a model
+ */
+export function createStubRankingResponder(window: StubRankingWindow): LLMFixtureResponder {
+  return () => {
+    if (window.handles.length === 0) {
+      throw new Error("Stub ranker called with an empty candidate window");
+    }
+    const selected = window.handles.slice(0, window.resultCount || window.handles.length);
+    return {
+      parsed: {
+        trustFallback: false,
+        selected: selected.map((handle, i) => ({ handle, score: 100 - i, label: i < selected.length / 2 ? "exact" : "good" })),
+      },
+    };
+  };
+}
+
+export function createEvalLLMProvider(fixtures: LLMFixture[], window: StubRankingWindow): FixtureReplayProvider {
+  return new FixtureReplayProvider({ fixtures, responders: { ranking: createStubRankingResponder(window) } });
+}
+
+function toCandidate(product: EvalCatalogProduct): EvalCandidate {
+  const candidate = {
+    handle: product.handle,
+    title: product.title,
+    tags: product.tags || [],
+    productType: product.productType ?? null,
+    vendor: product.vendor ?? null,
+    price: product.price ?? null,
+    description: product.description ?? null,
+    available: product.available !== false,
+    sizes: product.sizes || [],
+    colors: product.colors || [],
+    materials: product.materials || [],
+    optionValues: product.optionValues || {},
+  };
+  return { ...candidate, searchText: extractSearchText(candidate) };
+}
+
+/**
+ * Runs one golden query through the offline pipeline and returns the final result handles
+ * The stub LLM provider is installed for the ranking call only; the env provider is restored after.
+ */
+export async function runEvalQuery(
+  query: GoldenQuery,
+  catalog: EvalCatalogProduct[],
+  experience: GoldenSet["experience"] = {},
+  options: RelevanceEvalOptions = {}
+): Promise<{ results: string[]; candidates: EvalCandidate[] }> {
+  const resultCount = query.resultCount ?? experience.resultCount ?? DEFAULT_RESULT_COUNT;
+  const ctx = { trace: createPipelineTrace(), label: `eval:${query.id}` };
+
+  // Golden hard terms stand in for the LLM intent; the rest of the query becomes soft terms
+  const hardTokens = new Set((query.hardTerms || []).flatMap((term) => tokenize(term)));
+  const querySoftTerms = tokenize(query.query).filter((token) => token.length >= 3 && !hardTokens.has(token));
+  // Deterministic expansion only: no shop, so no vocabulary and no LLM synonyms
+  const hardTerms = Array.from((await expandTerms(query.hardTerms || [], { vocabulary: null })).expandedTerms);
+  const softTerms = Array.from((await expandTerms(querySoftTerms, { vocabulary: null })).expandedTerms);
+  const boostTerms = detectBoostTerms(query.query);
+  const variantConstraints = parseConstraintsFromText(query.query);
+  const hardFacets = { size: variantConstraints.size, color: variantConstraints.color, material: variantConstraints.material };
+  const priceConstraint = parsePriceConstraint(query.query);
+  const bounds = priceConstraint ? priceConstraintBounds(priceConstraint) : { min: null, max: null };
+
+  const catalogPool = applyExperienceRules(catalog, {
+    excludedTags: experience.excludedTags || [],
+    inStockOnly: experience.inStockOnly === true,
+  }).map(toCandidate);
+  const pool = applyBudgetFilterCandidates(catalogPool, bounds.min, bounds.max);
+  const index = buildBM25Index(pool.map((c) => ({ tokens: tokenize(c.searchText) })));
+
+  const facetGate = gateByFacets(pool, {
+    constraints: new Map(Object.entries(hardFacetsToFacetValues(hardFacets))),
+    allowValues: variantConstraints.allowValues,
+    inStockOnly: experience.inStockOnly === true,
+  });
+  softTerms.push(...facetGate.degraded.flatMap((d) => d.values));
+  const hardTermGate = gateByHardTerms(facetGate.candidates, {
+    hardTerms,
+    boostTerms,
+    avoidTerms: [],
+    priceMin: bounds.min,
+    priceMax: bounds.max,
+    resultCount,
+    minCandidatesForAI: MIN_CANDIDATES_FOR_AI,
+  });
+  if (hardTermGate.stage === "no_match") {
+    return { results: [], candidates: pool };
+  }
+
+  let aiWindow = options.aiWindow ?? DEFAULT_AI_WINDOW;
+  let ranked = preRankCandidates(hardTermGate.candidates, {
+    queryTokens: [...hardTerms, ...softTerms].flatMap((term) => tokenize(term)),
+    index,
+    hardTerms,
+    boostTerms,
+    hardFacets,
+    avoidTerms: [],
+  });
+
+  const embeddingProvider = options.embeddingProvider;
+  if (embeddingProvider) {
+    const hybrid = await runPipelineStage(createHybridRetrievalStage({
+      embedQuery: async (text) => (await embeddingProvider.embed([text]))[0],
+      loadVectors: async (candidates) => {
+        const vectors = await embeddingProvider.embed(candidates.map((c) => buildEmbeddingText(c as EvalCandidate)));
+        return new Map(candidates.map((c, i) => [c.handle, vectors[i]]));
+      },
+    }), { ranked, queryText: [query.query, ...hardTerms, ...softTerms].join(" "), aiWindow }, ctx);
+    ranked = hybrid.ranked as RankedCandidate<EvalCandidate>[];
+    aiWindow = hybrid.aiWindow;
+  }
+
+  const { collectionIntent } = await runPipelineStage(collectionIntentStage, {
+    userIntent: query.query,
+    hardTerms,
+    softTerms,
+    isBundle: false,
+  }, ctx);
+  const { candidates: window } = await runPipelineStage(groupBalancedWindowStage, {
+    ranked,
+    aiWindow,
+    collectionIntent,
+    isBundle: false,
+    userIntent: query.query,
+    hardTermCount: hardTerms.length,
+    softTermCount: softTerms.length,
+    preferencesCount: 0,
+  }, ctx);
+  const windowCandidates = window as EvalCandidate[];
+
+  setLLMProvider(createEvalLLMProvider(options.llmFixtures || [], { handles: windowCandidates.map((c) => c.handle), resultCount }));
+  let ranking: Awaited<ReturnType<typeof rankProductsWithAI>>;
+  try {
+    ranking = await rankProductsWithAI(
+      query.query,
+      windowCandidates,
+      resultCount,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      hardTerms.length > 0 ? { hardTerms, avoidTerms: [], trustFallback: hardTermGate.trustFallback } : undefined
+    );
+  } finally {
+    setLLMProvider(null);
+  }
+  const merchandising = await runPipelineStage(merchandisingRulesStage, {
+    handles: ranking.selectedHandles,
+    candidates: pool,
+    rules: parseMerchandisingRules(experience.merchandisingRules ?? []),
+    query: query.query,
+    intentTerms: hardTerms,
+    resultCount,
+  }, ctx);
+  const results = enforceMerchandisingOutcome(
+    ensureResultDiversity(merchandising.handles, pool, resultCount),
+    merchandising,
+    resultCount
+  );
+  return { results, candidates: pool };
+}
+
+/**
+ * Runs a golden set and scores it
+ */
+export async function runRelevanceEval(
+  catalog: EvalCatalogProduct[],
+  golden: GoldenSet,
+  options: RelevanceEvalOptions = {}
+): Promise<EvalReport> {
+  const k = golden.k ?? DEFAULT_EVAL_K;
+  const catalogByHandle = new Map(catalog.map((p) => [p.handle, p]));
+  const queries: EvalQueryResult[] = [];
+
+  for (const query of golden.queries) {
+    const { results, candidates } = await runEvalQuery(query, catalog, golden.experience, options);
+    const diversity = measureResultDiversity(results, candidates).overallScore;
+    queries.push(scoreEvalQuery(query, results, catalogByHandle, k, diversity));
+  }
+
+  return buildEvalReport(golden.name || "golden", k, queries);
+}
+
+function readJson<T>(path: string): T {
+  return JSON.parse(fs.readFileSync(path, "utf8")) as T;
+}
+
+/**
+ * Catalog: an array of products or { products: [...] }
+ */
+export function loadEvalCatalog(path: string): EvalCatalogProduct[] {
+  const raw = readJson<EvalCatalogProduct[] | { products?: EvalCatalogProduct[] }>(path);
+  return Array.isArray(raw) ? raw : raw.products || [];
+}
+
+export function loadGoldenSet(path: string): GoldenSet {
+  const raw = readJson<GoldenSet>(path);
+  if (!Array.isArray(raw?.queries)) {
+    throw new Error(`Golden set ${path} has no "queries" array`);
+  }
+  return raw;
+}
+
+/**
+ * LLM fixtures in the recording format (array or { fixtures: [...] }, see RecordingProvider)
+ */
+export function loadLLMFixtures(path: string): LLMFixture[] {
+  const raw = readJson<LLMFixture[] | { fixtures?: LLMFixture[] }>(path);
+  return Array.isArray(raw) ? raw : raw.fixtures || [];
+}
+
+export function loadEvalReport(path: string): EvalReport | null {
+  return fs.existsSync(path) ? readJson<EvalReport>(path) : null;
+}
+
+export function saveEvalReport(path: string, report: EvalReport): void {
+  fs.writeFileSync(path, `${JSON.stringify(report, null, 2)}\n`);
+}
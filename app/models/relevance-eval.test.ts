@@ -0,0 +1,54 @@
+/**
+ * Offline relevance run over the sample golden set (scripts/relevance-eval)
+ * Fails when the pipeline scores worse than the committed baseline; after an intended change,
+ * refresh it with `npm run eval:relevance -- --write-baseline`.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  createEvalLLMProvider,
+  loadEvalCatalog,
+  loadEvalReport,
+  loadGoldenSet,
+  runRelevanceEval,
+} from "./relevance-eval.server";
+import { diffEvalReports, formatEvalDiff } from "~/utils/relevance-eval.server";
+
+const FIXTURE_DIR = "scripts/relevance-eval";
+
+describe("stub ranking provider", () => {
+  it("returns the window's candidates in order, or a recorded fixture when one matches", async () => {
+    const provider = createEvalLLMProvider(
+      [{ purpose: "ranking", match: "silk", response: { parsed: { trustFallback: false, selected: [] } } }],
+      { handles: ["wool-coat", "rain-jacket", "belt"], resultCount: 2 }
+    );
+
+    const stubbed = await provider.chat({ purpose: "ranking", messages: [{ role: "user", content: "warm coat" }], jsonObject: true });
+    expect(stubbed.parsed).toMatchObject({ selected: [{ handle: "wool-coat" }, { handle: "rain-jacket" }] });
+    expect((stubbed.parsed as { selected: unknown[] }).selected).toHaveLength(2);
+
+    const recorded = await provider.chat({ purpose: "ranking", messages: [{ role: "user", content: "silk dress" }], jsonObject: true });
+    expect(recorded.parsed).toMatchObject({ selected: [] });
+  });
+
+  it("fails loudly when there is no candidate window to rank", async () => {
+    const provider = createEvalLLMProvider([], { handles: [], resultCount: 2 });
+    await expect(
+      provider.chat({ purpose: "ranking", messages: [{ role: "user", content: "warm coat" }], jsonObject: true })
+    ).rejects.toThrow("empty candidate window");
+  });
+});
+
+describe("golden set", () => {
+  it("does not regress against the saved baseline", async () => {
+    const report = await runRelevanceEval(
+      loadEvalCatalog(`${FIXTURE_DIR}/catalog.json`),
+      loadGoldenSet(`${FIXTURE_DIR}/golden.json`)
+    );
+    const baseline = loadEvalReport(`${FIXTURE_DIR}/baseline.json`);
+    expect(baseline).not.toBeNull();
+
+    const diff = diffEvalReports(baseline!, report);
+    expect(diff.regressed, formatEvalDiff(diff)).toBe(false);
+  });
+});
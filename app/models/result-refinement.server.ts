@@ -0,0 +1,162 @@
+import prisma from "~/db.server";
+import { ConciergeSessionStatus, Prisma } from "@prisma/client";
+import {
+  applyRefinement,
+  knownOptionNamesFor,
+  parseRefinementInstruction,
+  type RefinementContext,
+} from "~/utils/result-refinement.server";
+import { buildProductExplanations, parseProductExplanations } from "~/utils/product-explanations.server";
+
+/**
+ * Refinement rounds on a completed session's results
+ * Each round re-ranks the candidate pool stored with the result (refineContextJson), writes a new
+ * result version and keeps the round as a ConciergeRefinement row. No catalog fetch, no AI call and
+ * no charge: the session was already charged when its results were first delivered.
+ * Concurrent rounds on the same session are serialised by the result version: the round that
+ * loses the race changes nothing and reports CONFLICT.
+ */
+
+export const MAX_REFINEMENT_ROUNDS = 10;
+
+export type RefineSessionResult =
+  | { ok: true; changed: true; version: number; productHandles: string[]; reasoning: string }
+  | { ok: true; changed: false; version: number; productHandles: string[]; reasoning: string }
+  | { ok: false; errorCode: "NOT_FOUND" | "NOT_READY" | "NOT_REFINABLE" | "TOO_MANY_REFINEMENTS" | "CONFLICT"; error: string };
+
+/**
+ * Stores the refinement context next to the result (called once the pipeline has saved the result)
+ */
+export async function saveRefinementContext(sessionToken: string, context: RefinementContext): Promise<void> {
+  const session = await prisma.conciergeSession.findUnique({
+    where: { publicToken: sessionToken },
+    select: { id: true },
+  });
+  if (!session) return;
+  await prisma.conciergeResult.updateMany({
+    where: { sessionId: session.id },
+    data: { refineContextJson: context as unknown as Prisma.InputJsonValue },
+  });
+}
+
+function toHandles(raw: Prisma.JsonValue | null | undefined): string[] {
+  return Array.isArray(raw) ? raw.filter((h): h is string => typeof h === "string") : [];
+}
+
+/**
+ * Applies one refinement instruction to a session's current results
+ * When nothing in the pool fits, the current results are kept and the round is not recorded.
+ */
+export async function refineSessionResult({
+  sessionToken,
+  instruction,
+}: {
+  sessionToken: string;
+  instruction: string;
+}): Promise<RefineSessionResult> {
+  const session = await prisma.conciergeSession.findUnique({
+    where: { publicToken: sessionToken },
+    select: {
+      id: true,
+      status: true,
+      result: { select: { id: true, productHandles: true, productExplanations: true, version: true, refineContextJson: true } },
+      _count: { select: { refinements: true } },
+    },
+  });
+  if (!session) {
+    return { ok: false, errorCode: "NOT_FOUND", error: "Session not found" };
+  }
+  if (session.status !== ConciergeSessionStatus.COMPLETE || !session.result) {
+    return { ok: false, errorCode: "NOT_READY", error: "Results are not ready yet" };
+  }
+  if (!session.result.refineContextJson) {
+    return { ok: false, errorCode: "NOT_REFINABLE", error: "These results can't be refined. Please start a new search." };
+  }
+  if (session._count.refinements >= MAX_REFINEMENT_ROUNDS) {
+    return { ok: false, errorCode: "TOO_MANY_REFINEMENTS", error: "You've refined these results a lot - try starting a new search." };
+  }
+
+  const context = session.result.refineContextJson as unknown as RefinementContext;
+  const currentHandles = toHandles(session.result.productHandles);
+  const request = parseRefinementInstruction(instruction, knownOptionNamesFor(context), context.currency.shopperCurrency);
+  const outcome = applyRefinement(context, currentHandles, request);
+
+  if (outcome.handles.length === 0) {
+    return {
+      ok: true,
+      changed: false,
+      version: session.result.version,
+      productHandles: currentHandles,
+      reasoning: "I couldn't find anything else that fits that, so I've kept your current picks.",
+    };
+  }
+
+  // The refined constraints become the baseline for the next round
+  const nextContext: RefinementContext = {
+    ...context,
+    variantConstraints: outcome.constraints,
+    variantPreferences: outcome.preferences,
+    avoidTerms: outcome.avoidTerms,
+    priceBounds: outcome.priceBounds,
+  };
+  const version = session.result.version + 1;
+
+  // Products kept from the previous version keep their explanation; new ones are explained against the refined request
+  const productExplanations = buildProductExplanations(
+    outcome.handles,
+    context.candidates,
+    parseProductExplanations(session.result.productExplanations),
+    {
+      hardTerms: context.hardTerms,
+      softTerms: [...context.softTerms, ...request.includeTerms],
+      hardFacets: { size: outcome.constraints.size, color: outcome.constraints.color, material: outcome.constraints.material },
+      priceMin: outcome.priceBounds?.min ?? null,
+      priceMax: outcome.priceBounds?.max ?? null,
+    },
+    context.tone
+  );
+
+  const result = session.result;
+  const applied = await prisma.$transaction(async (tx) => {
+    // Only advance from the version this round was computed against; a concurrent round already moved it
+    const updated = await tx.conciergeResult.updateMany({
+      where: { id: result.id, version: result.version },
+      data: {
+        productHandles: outcome.handles,
+        productIds: Prisma.DbNull,
+        reasoning: outcome.reasoning,
+        productExplanations,
+        version,
+        refineContextJson: nextContext as unknown as Prisma.InputJsonValue,
+      },
+    });
+    if (updated.count === 0) return false;
+
+    await tx.conciergeRefinement.create({
+      data: {
+        sessionId: session.id,
+        version,
+        instruction: request.instruction,
+        requestJson: request as unknown as Prisma.InputJsonValue,
+        previousHandles: currentHandles,
+        productHandles: outcome.handles,
+        candidateCount: context.candidates.length,
+      },
+    });
+    return true;
+  });
+
+  if (!applied) {
+    return { ok: false, errorCode: "CONFLICT", error: "Your results were just updated. Please try again." };
+  }
+
+  console.log("[Refinement] Result refined", {
+    sessionToken,
+    version,
+    instruction: request.instruction,
+    previousCount: currentHandles.length,
+    refinedCount: outcome.handles.length,
+  });
+
+  return { ok: true, changed: true, version, productHandles: outcome.handles, reasoning: outcome.reasoning };
+}
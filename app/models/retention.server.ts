@@ -0,0 +1,269 @@
+import prisma from "~/db.server";
+import type { Prisma, UsageEventType } from "@prisma/client";
+
+/**
+ * Data retention: per-table policies and the batch purge / rollup job
+ * Runs across all shops (background-jobs.server schedules it); each run is recorded in RetentionRun
+ */
+
+export type RetentionTable =
+  | "appProxyLog"
+  | "appError"
+  | "usageEvent"
+  | "conciergeMessage"
+  | "aiRankingCache"
+  | "queryExpansionCache"
+  | "backgroundJob";
+
+export type RetentionPolicy = {
+  label: string;
+  action: "delete" | "rollup" | "expire"; // expire = delete rows past their expiresAt
+  days: number | null; // null for "expire" policies
+  perShop?: boolean; // Overridable by Shop.conversationRetentionDays
+};
+
+export const RETENTION_POLICIES: Record<RetentionTable, RetentionPolicy> = {
+  appProxyLog: { label: "App proxy logs", action: "delete", days: 14 },
+  appError: { label: "Error logs", action: "delete", days: 30 },
+  usageEvent: { label: "Usage events (rolled up into daily totals)", action: "rollup", days: 400 },
+  conciergeMessage: { label: "Conversation messages and answers", action: "delete", days: 90, perShop: true },
+  aiRankingCache: { label: "AI ranking cache", action: "expire", days: null },
+  queryExpansionCache: { label: "Query expansion cache", action: "expire", days: null },
+  backgroundJob: { label: "Finished background jobs", action: "delete", days: 14 },
+};
+
+export const CONVERSATION_RETENTION_MIN_DAYS = 7;
+export const CONVERSATION_RETENTION_MAX_DAYS = 730;
+
+export type RetentionRowCounts = Record<RetentionTable, number>;
+
+const BATCH_SIZE = 1000;
+const MAX_BATCHES_PER_TABLE = 50; // Caps one run at 50k rows per table; the next run continues
+const RUN_LEASE_MS = 30 * 60 * 1000; // A "running" row older than this is considered dead
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Conversation retention for a shop: its own setting clamped to the allowed range, else the default
+ */
+export function resolveConversationRetentionDays(shopSetting: number | null | undefined): number {
+  if (shopSetting == null || !Number.isFinite(shopSetting)) {
+    return RETENTION_POLICIES.conciergeMessage.days as number;
+  }
+  return Math.min(CONVERSATION_RETENTION_MAX_DAYS, Math.max(CONVERSATION_RETENTION_MIN_DAYS, Math.round(shopSetting)));
+}
+
+function cutoffFor(days: number, now: Date): Date {
+  return new Date(now.getTime() - days * DAY_MS);
+}
+
+/**
+ * Groups usage events into per-shop, per-day (UTC), per-type totals
+ */
+export function rollupUsageEvents(
+  events: Array<{ shopId: string; eventType: UsageEventType; creditsBurned: number; createdAt: Date }>
+): Array<{ shopId: string; day: Date; eventType: UsageEventType; count: number; creditsBurned: number }> {
+  const groups = new Map<string, { shopId: string; day: Date; eventType: UsageEventType; count: number; creditsBurned: number }>();
+  for (const event of events) {
+    const day = new Date(Date.UTC(event.createdAt.getUTCFullYear(), event.createdAt.getUTCMonth(), event.createdAt.getUTCDate()));
+    const key = `${event.shopId}|${day.toISOString()}|${event.eventType}`;
+    const group = groups.get(key) ?? { shopId: event.shopId, day, eventType: event.eventType, count: 0, creditsBurned: 0 };
+    group.count += 1;
+    group.creditsBurned += event.creditsBurned;
+    groups.set(key, group);
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * Repeatedly selects up to BATCH_SIZE ids and deletes them, until a short batch or the batch cap
+ */
+async function deleteInBatches(
+  findIds: (take: number) => Promise<string[]>,
+  deleteIds: (ids: string[]) => Promise<number>
+): Promise<number> {
+  let removed = 0;
+  for (let batch = 0; batch < MAX_BATCHES_PER_TABLE; batch++) {
+    const ids = await findIds(BATCH_SIZE);
+    if (ids.length === 0) break;
+    removed += await deleteIds(ids);
+    if (ids.length < BATCH_SIZE) break;
+  }
+  return removed;
+}
+
+async function purgeAppProxyLogs(now: Date): Promise<number> {
+  const where = { createdAt: { lt: cutoffFor(RETENTION_POLICIES.appProxyLog.days as number, now) } };
+  return deleteInBatches(
+    async (take) => (await prisma.appProxyLog.findMany({ where, select: { id: true }, take })).map((r) => r.id),
+    async (ids) => (await prisma.appProxyLog.deleteMany({ where: { id: { in: ids } } })).count
+  );
+}
+
+async function purgeAppErrors(now: Date): Promise<number> {
+  const where = { createdAt: { lt: cutoffFor(RETENTION_POLICIES.appError.days as number, now) } };
+  return deleteInBatches(
+    async (take) => (await prisma.appError.findMany({ where, select: { id: true }, take })).map((r) => r.id),
+    async (ids) => (await prisma.appError.deleteMany({ where: { id: { in: ids } } })).count
+  );
+}
+
+async function purgeExpiredCaches(now: Date): Promise<{ aiRankingCache: number; queryExpansionCache: number }> {
+  const where = { expiresAt: { lt: now } };
+  const aiRankingCache = await deleteInBatches(
+    async (take) => (await prisma.aIRankingCache.findMany({ where, select: { id: true }, take })).map((r) => r.id),
+    async (ids) => (await prisma.aIRankingCache.deleteMany({ where: { id: { in: ids } } })).count
+  );
+  const queryExpansionCache = await deleteInBatches(
+    async (take) => (await prisma.queryExpansionCache.findMany({ where, select: { id: true }, take })).map((r) => r.id),
+    async (ids) => (await prisma.queryExpansionCache.deleteMany({ where: { id: { in: ids } } })).count
+  );
+  return { aiRankingCache, queryExpansionCache };
+}
+
+// Completed and dead-lettered jobs only; queued and running jobs are never removed
+async function purgeFinishedJobs(now: Date): Promise<number> {
+  const where = {
+    status: { in: ["COMPLETED" as const, "DEAD" as const] },
+    finishedAt: { lt: cutoffFor(RETENTION_POLICIES.backgroundJob.days as number, now) },
+  };
+  return deleteInBatches(
+    async (take) => (await prisma.backgroundJob.findMany({ where, select: { id: true }, take })).map((r) => r.id),
+    async (ids) => (await prisma.backgroundJob.deleteMany({ where: { id: { in: ids } } })).count
+  );
+}
+
+/**
+ * Moves usage events past retention into UsageEventRollup (one transaction per batch)
+ */
+async function rollupOldUsageEvents(now: Date): Promise<number> {
+  const where = { createdAt: { lt: cutoffFor(RETENTION_POLICIES.usageEvent.days as number, now) } };
+  let removed = 0;
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_TABLE; batch++) {
+    const events = await prisma.usageEvent.findMany({
+      where,
+      select: { id: true, shopId: true, eventType: true, creditsBurned: true, createdAt: true },
+      orderBy: { createdAt: "asc" },
+      take: BATCH_SIZE,
+    });
+    if (events.length === 0) break;
+
+    const rollups = rollupUsageEvents(events);
+    const deleted = await prisma.$transaction(async (tx) => {
+      for (const rollup of rollups) {
+        await tx.usageEventRollup.upsert({
+          where: { shopId_day_eventType: { shopId: rollup.shopId, day: rollup.day, eventType: rollup.eventType } },
+          create: rollup,
+          update: { count: { increment: rollup.count }, creditsBurned: { increment: rollup.creditsBurned } },
+        });
+      }
+      return (await tx.usageEvent.deleteMany({ where: { id: { in: events.map((e) => e.id) } } })).count;
+    });
+    removed += deleted;
+    if (events.length < BATCH_SIZE) break;
+  }
+
+  return removed;
+}
+
+/**
+ * Deletes conversation messages past each shop's retention and clears the stored answers of those sessions.
+ * Query text (queryRaw / queryNormalized) and results are kept for analytics.
+ */
+async function purgeConversations(now: Date): Promise<number> {
+  const shops = await prisma.shop.findMany({ select: { id: true, conversationRetentionDays: true } });
+  let removed = 0;
+
+  for (const shop of shops) {
+    const cutoff = cutoffFor(resolveConversationRetentionDays(shop.conversationRetentionDays), now);
+    const where: Prisma.ConciergeMessageWhereInput = { session: { shopId: shop.id }, createdAt: { lt: cutoff } };
+
+    removed += await deleteInBatches(
+      async (take) => (await prisma.conciergeMessage.findMany({ where, select: { id: true }, take })).map((r) => r.id),
+      async (ids) => (await prisma.conciergeMessage.deleteMany({ where: { id: { in: ids } } })).count
+    );
+
+    await prisma.conciergeSession.updateMany({
+      where: {
+        shopId: shop.id,
+        createdAt: { lt: cutoff },
+        OR: [{ answersJson: { not: "[]" } }, { quizStateJson: { not: null } }],
+      },
+      data: { answersJson: "[]", quizStateJson: null },
+    });
+  }
+
+  return removed;
+}
+
+/**
+ * Runs every retention policy once. Returns null when another run holds the lease.
+ * A failing table does not stop the others; the run is marked failed with the first error.
+ */
+export async function runRetentionJob(trigger: "scheduled" | "manual" = "scheduled") {
+  const now = new Date();
+  const active = await prisma.retentionRun.findFirst({
+    where: { status: "running", startedAt: { gt: new Date(now.getTime() - RUN_LEASE_MS) } },
+    select: { id: true },
+  });
+  if (active) {
+    console.log("[Retention] Skipping run, another run is in progress", { runId: active.id });
+    return null;
+  }
+
+  const run = await prisma.retentionRun.create({ data: { trigger, status: "running" } });
+  const rows: RetentionRowCounts = {
+    appProxyLog: 0,
+    appError: 0,
+    usageEvent: 0,
+    conciergeMessage: 0,
+    aiRankingCache: 0,
+    queryExpansionCache: 0,
+    backgroundJob: 0,
+  };
+  const errors: string[] = [];
+
+  const steps: Array<[string, () => Promise<void>]> = [
+    ["appProxyLog", async () => { rows.appProxyLog = await purgeAppProxyLogs(now); }],
+    ["appError", async () => { rows.appError = await purgeAppErrors(now); }],
+    ["caches", async () => { Object.assign(rows, await purgeExpiredCaches(now)); }],
+    ["usageEvent", async () => { rows.usageEvent = await rollupOldUsageEvents(now); }],
+    ["conciergeMessage", async () => { rows.conciergeMessage = await purgeConversations(now); }],
+    ["backgroundJob", async () => { rows.backgroundJob = await purgeFinishedJobs(now); }],
+  ];
+  for (const [name, step] of steps) {
+    try {
+      await step();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error("[Retention] Step failed", { runId: run.id, step: name, error: message });
+      errors.push(`${name}: ${message}`);
+    }
+  }
+
+  console.log("[Retention] Run finished", { runId: run.id, trigger, rows, errors: errors.length });
+  return prisma.retentionRun.update({
+    where: { id: run.id },
+    data: {
+      status: errors.length > 0 ? "failed" : "completed",
+      rowsJson: rows as unknown as Prisma.InputJsonValue,
+      error: errors.length > 0 ? errors.join("; ") : null,
+      finishedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Latest retention run (any shop triggers the same global job)
+ */
+export async function getLastRetentionRun() {
+  return prisma.retentionRun.findFirst({ orderBy: { startedAt: "desc" } });
+}
+
+export async function updateConversationRetention(shopId: string, days: number | null) {
+  return prisma.shop.update({
+    where: { id: shopId },
+    data: { conversationRetentionDays: days == null ? null : resolveConversationRetentionDays(days) },
+  });
+}
@@ -0,0 +1,48 @@
+/**
+ * Unit tests for data retention helpers
+ * Per-shop conversation retention and usage event rollups
+ */
+
+import { describe, expect, it } from "vitest";
+import type { UsageEventType } from "@prisma/client";
+import { resolveConversationRetentionDays, rollupUsageEvents } from "./retention.server";
+
+describe("resolveConversationRetentionDays", () => {
+  it("uses the default when the shop has no setting", () => {
+    expect(resolveConversationRetentionDays(null)).toBe(90);
+    expect(resolveConversationRetentionDays(undefined)).toBe(90);
+  });
+
+  it("clamps the shop setting to the allowed range", () => {
+    expect(resolveConversationRetentionDays(30)).toBe(30);
+    expect(resolveConversationRetentionDays(1)).toBe(7);
+    expect(resolveConversationRetentionDays(5000)).toBe(730);
+  });
+});
+
+describe("rollupUsageEvents", () => {
+  it("groups events per shop, UTC day and event type", () => {
+    const event = (shopId: string, eventType: string, createdAt: string, creditsBurned = 0) => ({
+      shopId,
+      eventType: eventType as UsageEventType,
+      creditsBurned,
+      createdAt: new Date(createdAt),
+    });
+
+    const rollups = rollupUsageEvents([
+      event("shop_a", "SESSION_STARTED", "2025-01-01T00:30:00Z"),
+      event("shop_a", "SESSION_STARTED", "2025-01-01T23:59:00Z"),
+      event("shop_a", "AI_RANKING_EXECUTED", "2025-01-01T10:00:00Z", 1.5),
+      event("shop_a", "AI_RANKING_EXECUTED", "2025-01-01T11:00:00Z", 2),
+      event("shop_a", "SESSION_STARTED", "2025-01-02T00:00:00Z"),
+      event("shop_b", "SESSION_STARTED", "2025-01-01T12:00:00Z"),
+    ]);
+
+    expect(rollups).toEqual([
+      { shopId: "shop_a", day: new Date("2025-01-01T00:00:00Z"), eventType: "SESSION_STARTED", count: 2, creditsBurned: 0 },
+      { shopId: "shop_a", day: new Date("2025-01-01T00:00:00Z"), eventType: "AI_RANKING_EXECUTED", count: 2, creditsBurned: 3.5 },
+      { shopId: "shop_a", day: new Date("2025-01-02T00:00:00Z"), eventType: "SESSION_STARTED", count: 1, creditsBurned: 0 },
+      { shopId: "shop_b", day: new Date("2025-01-01T00:00:00Z"), eventType: "SESSION_STARTED", count: 1, creditsBurned: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,186 @@
+import prisma from "~/db.server";
+
+/**
+ * Merchant search vocabulary: reviewed LLM synonyms, one-way rewrites and blocked expansions
+ * Rules are per shop and feed expandTerm / expandTerms (utils/term-expansion.server) ahead of the built-in maps.
+ *
+ * - synonym "pinned":   always added to the term's expansion (even when LLM synonyms are off)
+ * - synonym "approved": kept alongside the LLM synonyms, and survives cache refreshes
+ * - synonym "rejected": removed from the term's expansion, whatever produced it
+ * - rewrite:            searching the term also searches the target and everything the target expands to
+ * - block:              removed from the term's expansion, whatever produced it (built-in maps included)
+ */
+
+export type VocabularyRuleKind = "synonym" | "rewrite" | "block";
+export type SynonymStatus = "approved" | "pinned" | "rejected";
+
+export const SYNONYM_STATUSES: SynonymStatus[] = ["approved", "pinned", "rejected"];
+const MAX_VOCABULARY_TERM_LENGTH = 100;
+
+/**
+ * Rules grouped by (lowercased) term, in the shape expandTerm consumes
+ */
+export type ShopVocabulary = {
+  pinned: Record<string, string[]>;
+  approved: Record<string, string[]>;
+  rewrites: Record<string, string[]>;
+  excluded: Record<string, string[]>; // Blocked expansions and rejected synonyms
+};
+
+export type VocabularyRuleRow = {
+  id: string;
+  kind: string;
+  term: string;
+  value: string;
+  status: string;
+  source: string;
+};
+
+export function normalizeVocabularyTerm(value: string): string {
+  return value.toLowerCase().trim().replace(/\s+/g, " ");
+}
+
+export function buildShopVocabulary(rules: VocabularyRuleRow[]): ShopVocabulary {
+  const vocabulary: ShopVocabulary = { pinned: {}, approved: {}, rewrites: {}, excluded: {} };
+  const add = (group: Record<string, string[]>, term: string, value: string) => {
+    const values = group[term] ?? (group[term] = []);
+    if (!values.includes(value)) values.push(value);
+  };
+
+  for (const rule of rules) {
+    if (rule.kind === "rewrite") add(vocabulary.rewrites, rule.term, rule.value);
+    else if (rule.kind === "block") add(vocabulary.excluded, rule.term, rule.value);
+    else if (rule.kind === "synonym" && rule.status === "pinned") add(vocabulary.pinned, rule.term, rule.value);
+    else if (rule.kind === "synonym" && rule.status === "approved") add(vocabulary.approved, rule.term, rule.value);
+    else if (rule.kind === "synonym" && rule.status === "rejected") add(vocabulary.excluded, rule.term, rule.value);
+  }
+  return vocabulary;
+}
+
+/**
+ * Loads a shop's rules for term expansion. Failures fall back to no rules so search keeps working.
+ */
+export async function loadShopVocabulary(shopId: string): Promise<ShopVocabulary | null> {
+  try {
+    const rules = await prisma.searchVocabularyRule.findMany({ where: { shopId } });
+    return rules.length > 0 ? buildShopVocabulary(rules) : null;
+  } catch (error) {
+    console.warn("[Vocabulary] Failed to load rules:", error);
+    return null;
+  }
+}
+
+export type CachedExpansionRow = {
+  term: string;
+  expiresAt: string;
+  synonyms: Array<{ value: string; status: SynonymStatus | "pending"; ruleId: string | null }>;
+};
+
+/**
+ * Data for the Search vocabulary page: cached LLM expansions with their review status, plus merchant rules
+ */
+export async function getVocabularyOverview(shopId: string) {
+  const [cached, rules] = await Promise.all([
+    prisma.queryExpansionCache.findMany({
+      where: { shopId, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: "desc" },
+      take: 200,
+    }),
+    prisma.searchVocabularyRule.findMany({
+      where: { shopId },
+      orderBy: [{ term: "asc" }, { value: "asc" }],
+    }),
+  ]);
+
+  const synonymRules = new Map(
+    rules.filter((r) => r.kind === "synonym").map((r) => [`${r.term}|${r.value}`, r])
+  );
+  const expansions: CachedExpansionRow[] = cached.map((row) => {
+    let synonyms: string[] = [];
+    try {
+      const parsed = JSON.parse(row.synonymsJson || "[]");
+      synonyms = Array.isArray(parsed) ? parsed.filter((s): s is string => typeof s === "string") : [];
+    } catch {
+      // Unreadable cache rows are listed without synonyms
+    }
+    // Reviewed synonyms that a later LLM refresh dropped are still shown
+    const reviewed = rules.filter((r) => r.kind === "synonym" && r.term === row.term).map((r) => r.value);
+    return {
+      term: row.term,
+      expiresAt: row.expiresAt.toISOString(),
+      synonyms: Array.from(new Set([...synonyms, ...reviewed])).map((value) => {
+        const rule = synonymRules.get(`${row.term}|${value}`);
+        return { value, status: (rule?.status as SynonymStatus | undefined) ?? "pending", ruleId: rule?.id ?? null };
+      }),
+    };
+  });
+
+  const cachedTerms = new Set(cached.map((row) => row.term));
+  return {
+    expansions,
+    // Synonyms the merchant added for terms the LLM has not expanded (or whose cache expired)
+    merchantSynonyms: rules.filter((r) => r.kind === "synonym" && !cachedTerms.has(r.term)),
+    rewrites: rules.filter((r) => r.kind === "rewrite"),
+    blocks: rules.filter((r) => r.kind === "block"),
+  };
+}
+
+function validateRuleInput(term: string, value: string) {
+  if (!term || !value) {
+    throw new Error("Both the search term and the value are required");
+  }
+  if (term.length > MAX_VOCABULARY_TERM_LENGTH || value.length > MAX_VOCABULARY_TERM_LENGTH) {
+    throw new Error(`Terms must be at most ${MAX_VOCABULARY_TERM_LENGTH} characters`);
+  }
+  if (term === value) {
+    throw new Error("The value must differ from the search term");
+  }
+}
+
+/**
+ * Reviews a synonym. "pending" removes the review so the synonym behaves like any other LLM synonym again.
+ */
+export async function setSynonymStatus(
+  shopId: string,
+  rawTerm: string,
+  rawValue: string,
+  status: SynonymStatus | "pending",
+  source: "llm" | "merchant" = "llm"
+) {
+  const term = normalizeVocabularyTerm(rawTerm);
+  const value = normalizeVocabularyTerm(rawValue);
+  validateRuleInput(term, value);
+
+  if (status === "pending") {
+    await prisma.searchVocabularyRule.deleteMany({ where: { shopId, kind: "synonym", term, value } });
+    return null;
+  }
+  if (!SYNONYM_STATUSES.includes(status)) {
+    throw new Error(`Unknown synonym status: ${status}`);
+  }
+  return prisma.searchVocabularyRule.upsert({
+    where: { shopId_kind_term_value: { shopId, kind: "synonym", term, value } },
+    create: { shopId, kind: "synonym", term, value, status, source },
+    update: { status },
+  });
+}
+
+/**
+ * Adds a one-way rewrite (term → value) or a blocked expansion (value never expands from term)
+ */
+export async function addVocabularyRule(shopId: string, kind: "rewrite" | "block", rawTerm: string, rawValue: string) {
+  const term = normalizeVocabularyTerm(rawTerm);
+  const value = normalizeVocabularyTerm(rawValue);
+  validateRuleInput(term, value);
+
+  return prisma.searchVocabularyRule.upsert({
+    where: { shopId_kind_term_value: { shopId, kind, term, value } },
+    create: { shopId, kind, term, value, status: "approved", source: "merchant" },
+    update: {},
+  });
+}
+
+export async function deleteVocabularyRule(shopId: string, id: string) {
+  const { count } = await prisma.searchVocabularyRule.deleteMany({ where: { id, shopId } });
+  return count > 0;
+}
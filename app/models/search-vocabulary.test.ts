@@ -0,0 +1,68 @@
+/**
+ * Unit tests for merchant search vocabulary
+ * Rule grouping and how rewrites, pinned synonyms and blocks shape expandTerm
+ */
+
+import { describe, expect, it } from "vitest";
+import { buildShopVocabulary, normalizeVocabularyTerm, type VocabularyRuleRow } from "./search-vocabulary.server";
+import { expandTerm } from "~/utils/term-expansion.server";
+
+const rule = (kind: string, term: string, value: string, status = "approved"): VocabularyRuleRow => ({
+  id: `${kind}-${term}-${value}`,
+  kind,
+  term,
+  value,
+  status,
+  source: "merchant",
+});
+
+describe("buildShopVocabulary", () => {
+  it("groups rules by term and treats rejected synonyms like blocks", () => {
+    const vocabulary = buildShopVocabulary([
+      rule("rewrite", "trainers", "sneakers"),
+      rule("synonym", "trainers", "kicks", "pinned"),
+      rule("synonym", "trainers", "runners", "approved"),
+      rule("synonym", "trainers", "pumps", "rejected"),
+      rule("block", "trainers", "plimsolls"),
+    ]);
+
+    expect(vocabulary).toEqual({
+      rewrites: { trainers: ["sneakers"] },
+      pinned: { trainers: ["kicks"] },
+      approved: { trainers: ["runners"] },
+      excluded: { trainers: ["pumps", "plimsolls"] },
+    });
+  });
+
+  it("normalizes terms for matching", () => {
+    expect(normalizeVocabularyTerm("  Running   Shoes ")).toBe("running shoes");
+  });
+});
+
+describe("expandTerm with merchant vocabulary", () => {
+  it("applies one-way rewrites and pinned synonyms", async () => {
+    const vocabulary = buildShopVocabulary([
+      rule("rewrite", "comfies", "sneakers"),
+      rule("synonym", "comfies", "loungers", "pinned"),
+    ]);
+
+    const comfies = await expandTerm("comfies", { vocabulary });
+    expect(comfies.expanded).toContain("comfies");
+    expect(comfies.expanded).toContain("sneakers");
+    expect(comfies.expanded).toContain("sneaker");
+    expect(comfies.expanded).toContain("loungers");
+
+    const sneakers = await expandTerm("sneakers", { vocabulary });
+    expect(sneakers.expanded).not.toContain("comfies");
+    expect(sneakers.expanded).not.toContain("loungers");
+  });
+
+  it("removes blocked expansions even when a built-in map suggests them", async () => {
+    const unblocked = await expandTerm("shoes", { vocabulary: null });
+    expect(unblocked.expanded).toContain("zapatos");
+
+    const blocked = await expandTerm("shoes", { vocabulary: buildShopVocabulary([rule("block", "shoes", "zapatos")]) });
+    expect(blocked.expanded).not.toContain("zapatos");
+    expect(blocked.expanded).toContain("shoes");
+  });
+});
@@ -0,0 +1,109 @@
+import { EventEmitter } from "node:events";
+import prisma from "~/db.server";
+
+/**
+ * Live progress of processSessionInBackground, streamed to the storefront by /apps/editmuse/session/stream
+ * Each update is saved on ConciergeSession.progressJson so a stream served by any instance can read it,
+ * and published in-process so a stream on the same instance sees it without waiting for its next read.
+ */
+
+export type SessionProgressStage = "understanding" | "searching" | "ranking";
+
+export type SessionProgress = {
+  stage: SessionProgressStage;
+  message: string;
+  productCount: number | null; // Products being searched (searching) or pre-ranked (ranking)
+  partialHandles: string[]; // Deterministic pre-ranking shown while the AI ranks
+  updatedAt: string;
+};
+
+const MAX_PARTIAL_HANDLES = 16;
+
+const progressEvents = new EventEmitter();
+progressEvents.setMaxListeners(0); // One listener per open stream
+
+/**
+ * Shopper-facing wording for a stage, e.g. "Searching 1,200 products"
+ */
+export function describeProgressStage(stage: SessionProgressStage, productCount: number | null = null): string {
+  switch (stage) {
+    case "understanding":
+      return "Understanding your request";
+    case "searching":
+      return productCount ? `Searching ${productCount.toLocaleString("en")} products` : "Searching products";
+    case "ranking":
+      return "Ranking the best matches";
+  }
+}
+
+export function parseSessionProgress(raw: string | null | undefined): SessionProgress | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || typeof parsed.stage !== "string") return null;
+    const stage = parsed.stage as SessionProgressStage;
+    const productCount = typeof parsed.productCount === "number" ? parsed.productCount : null;
+    return {
+      stage,
+      message: typeof parsed.message === "string" ? parsed.message : describeProgressStage(stage, productCount),
+      productCount,
+      partialHandles: Array.isArray(parsed.partialHandles)
+        ? parsed.partialHandles.filter((h: unknown): h is string => typeof h === "string")
+        : [],
+      updatedAt: typeof parsed.updatedAt === "string" ? parsed.updatedAt : new Date(0).toISOString(),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Records a stage for the session. Never throws: progress is best-effort and must not fail processing.
+ */
+export async function reportSessionProgress(
+  sessionToken: string,
+  update: { stage: SessionProgressStage; productCount?: number | null; partialHandles?: string[] }
+): Promise<void> {
+  const productCount = update.productCount ?? null;
+  const progress: SessionProgress = {
+    stage: update.stage,
+    message: describeProgressStage(update.stage, productCount),
+    productCount,
+    partialHandles: (update.partialHandles || []).slice(0, MAX_PARTIAL_HANDLES),
+    updatedAt: new Date().toISOString(),
+  };
+  try {
+    await prisma.conciergeSession.update({
+      where: { publicToken: sessionToken },
+      data: { progressJson: JSON.stringify(progress) },
+    });
+  } catch (error) {
+    console.warn("[Progress] Failed to save progress:", error instanceof Error ? error.message : String(error));
+  }
+  progressEvents.emit(sessionToken, progress);
+  console.log(`[Progress] sid=${sessionToken} stage=${progress.stage} productCount=${productCount ?? "null"} partial=${progress.partialHandles.length}`);
+}
+
+/**
+ * Signals that the session finished (COMPLETE or FAILED) so open streams read the result right away
+ */
+export function notifySessionFinished(sessionToken: string) {
+  progressEvents.emit(sessionToken, null);
+}
+
+/**
+ * Resolves on the next in-process update for the session, or after timeoutMs (whichever comes first)
+ */
+export function waitForSessionProgress(sessionToken: string, timeoutMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      progressEvents.off(sessionToken, done);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, timeoutMs);
+    progressEvents.on(sessionToken, done);
+    signal?.addEventListener("abort", done);
+  });
+}
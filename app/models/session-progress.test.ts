@@ -0,0 +1,62 @@
+/**
+ * Unit tests for live session progress
+ * Stage wording, progress snapshots and in-process wake-ups for open streams
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  describeProgressStage,
+  notifySessionFinished,
+  parseSessionProgress,
+  waitForSessionProgress,
+} from "./session-progress.server";
+
+describe("describeProgressStage", () => {
+  it("words each stage for shoppers", () => {
+    expect(describeProgressStage("understanding")).toBe("Understanding your request");
+    expect(describeProgressStage("searching", 1200)).toBe("Searching 1,200 products");
+    expect(describeProgressStage("searching")).toBe("Searching products");
+    expect(describeProgressStage("ranking", 40)).toBe("Ranking the best matches");
+  });
+});
+
+describe("parseSessionProgress", () => {
+  it("reads a saved snapshot and drops bad handles", () => {
+    const raw = JSON.stringify({
+      stage: "ranking",
+      message: "Ranking the best matches",
+      productCount: 40,
+      partialHandles: ["linen-shirt", 7, "oxford-shirt"],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+    expect(parseSessionProgress(raw)).toEqual({
+      stage: "ranking",
+      message: "Ranking the best matches",
+      productCount: 40,
+      partialHandles: ["linen-shirt", "oxford-shirt"],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+  });
+
+  it("returns null for missing or unreadable progress", () => {
+    expect(parseSessionProgress(null)).toBeNull();
+    expect(parseSessionProgress("{not json")).toBeNull();
+    expect(parseSessionProgress(JSON.stringify({ message: "no stage" }))).toBeNull();
+  });
+});
+
+describe("waitForSessionProgress", () => {
+  it("wakes up when the session finishes in this process", async () => {
+    const started = Date.now();
+    const waiting = waitForSessionProgress("sid-1", 5000);
+    notifySessionFinished("sid-1");
+    await waiting;
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it("resolves after the timeout without updates", async () => {
+    const started = Date.now();
+    await waitForSessionProgress("sid-2", 20);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(15);
+  });
+});
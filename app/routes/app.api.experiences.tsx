@@ -4,6 +4,8 @@ import type {
 } from "react-router";
 import { authenticate } from "~/shopify.server";
 import prisma from "~/db.server";
+import { parseRankingCacheHours } from "~/utils/ranking-cache-options";
+import { parseMerchandisingRules } from "~/utils/merchandising-rules";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
@@ -49,6 +51,10 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const includedCollections = formData.get("includedCollections") as string || "[]";
   const excludedTags = formData.get("excludedTags") as string || "[]";
   const inStockOnly = formData.get("inStockOnly") === "true";
+  const rankingCacheHours = formData.has("rankingCacheHours") ? parseRankingCacheHours(formData.get("rankingCacheHours")) : undefined;
+  const merchandisingRulesJson = formData.has("merchandisingRulesJson")
+    ? JSON.stringify(parseMerchandisingRules(formData.get("merchandisingRulesJson")))
+    : undefined;
 
   const experience = await prisma.experience.create({
     data: {
@@ -60,6 +66,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       includedCollections,
       excludedTags,
       inStockOnly,
+      rankingCacheHours,
+      merchandisingRulesJson,
     },
   });
 
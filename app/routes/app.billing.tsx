@@ -24,7 +24,8 @@ import {
   PLANS,
   type PlanInfo,
   creditsToX2,
-  computeCreditsBurned
+  computeCreditsBurned,
+  getCreditsBurnedToday
 } from "~/models/billing.server";
 import { createRecurringCharge, purchaseAddon, updateSubscriptionFromCharge, purchaseAddonUsageCharge, chargeRecurringAddonForCycle, getActiveCharge, getPaymentHistory, cancelSubscription, isDevelopmentStore } from "~/models/shopify-billing.server";
 
@@ -244,6 +245,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     paymentHistory,
     usageByExperience: Array.from(experienceMap.values()),
     recommendedPlan,
+    dailyCreditCap: shop.dailyCreditCap,
+    creditsUsedToday: await getCreditsBurnedToday(shop.id),
   };
 };
 
@@ -661,6 +664,17 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   }
 
 
+  // Daily credit spend cap (blank = no cap)
+  if (actionType === "update_daily_cap") {
+    const raw = String(formData.get("dailyCreditCap") || "").trim();
+    const dailyCreditCap = raw === "" ? null : Number(raw);
+    if (dailyCreditCap !== null && (!Number.isFinite(dailyCreditCap) || dailyCreditCap < 1)) {
+      return json({ error: "Daily credit cap must be at least 1 credit, or empty for no cap" }, { status: 400 });
+    }
+    await prisma.shop.update({ where: { id: shop.id }, data: { dailyCreditCap } });
+    return json({ ok: true, dailyCapSaved: true });
+  }
+
   // Cancel subscription
   if (actionType === "cancel_subscription") {
     const subscription = await prisma.subscription.findUnique({
@@ -705,11 +719,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
 export default function Billing() {
   const loaderData = useLoaderData<typeof loader>();
-  const { currentPlan, inTrial, usage, entitlements, subscription, experienceCount, shopDomain, availablePlans, approved: loaderApproved, errorParam, usageBalanceUsedUsd, usageCapAmountUsd, currentPeriodEnd, allPlans, paymentHistory, usageByExperience, recommendedPlan } = loaderData;
+  const { currentPlan, inTrial, usage, entitlements, subscription, experienceCount, shopDomain, availablePlans, approved: loaderApproved, errorParam, usageBalanceUsedUsd, usageCapAmountUsd, currentPeriodEnd, allPlans, paymentHistory, usageByExperience, recommendedPlan, dailyCreditCap, creditsUsedToday } = loaderData;
   
   // Type assertion for allPlans to ensure TypeScript knows it's PlanInfo[]
   const typedAllPlans: PlanInfo[] = allPlans as PlanInfo[];
-  const actionData = useActionData<typeof action>() as { approved?: boolean; addonPurchased?: boolean; usageRecordId?: string; disabled?: string; error?: string; ok?: boolean; confirmationUrl?: string; cancelled?: boolean; message?: string } | undefined;
+  const actionData = useActionData<typeof action>() as { approved?: boolean; addonPurchased?: boolean; usageRecordId?: string; disabled?: string; error?: string; ok?: boolean; confirmationUrl?: string; cancelled?: boolean; message?: string; dailyCapSaved?: boolean } | undefined;
   const navigation = useNavigation();
   const app = useAppBridge();
   
@@ -1170,6 +1184,50 @@ export default function Billing() {
               </div>
             </div>
           </div>
+
+          {/* Daily spend cap */}
+          <div style={{ marginTop: "1rem", paddingTop: "1rem", borderTop: "1px solid rgba(11,11,15,0.08)" }}>
+            <div style={{ fontSize: "0.875rem", color: "#666", fontWeight: "500" }}>Daily Credit Cap</div>
+            <div style={{ fontSize: "0.75rem", color: "#999", marginTop: "0.25rem" }}>
+              {creditsUsedToday.toFixed(1)} credits used today (UTC){dailyCreditCap !== null ? ` of ${dailyCreditCap}` : ""}. Once the cap is reached, new recommendation sessions are paused until tomorrow.
+            </div>
+            <Form method="post" style={{ marginTop: "0.5rem", display: "flex", gap: "0.5rem", alignItems: "center", flexWrap: "wrap" }}>
+              <input type="hidden" name="actionType" value="update_daily_cap" />
+              <input
+                name="dailyCreditCap"
+                type="number"
+                min={1}
+                step="0.5"
+                defaultValue={dailyCreditCap ?? ""}
+                placeholder="No cap"
+                aria-label="Daily credit cap"
+                style={{
+                  width: "8rem",
+                  padding: "0.5rem 0.75rem",
+                  border: "1px solid rgba(11,11,15,0.12)",
+                  borderRadius: "6px",
+                  fontSize: "0.875rem",
+                }}
+              />
+              <span style={{ fontSize: "0.875rem", color: "#666" }}>credits per day</span>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                style={{
+                  padding: "0.5rem 1rem",
+                  background: isSubmitting ? "#9CA3AF" : "#7C3AED",
+                  color: "#FFFFFF",
+                  border: "none",
+                  borderRadius: "8px",
+                  fontWeight: "500",
+                  cursor: isSubmitting ? "not-allowed" : "pointer",
+                }}
+              >
+                Save
+              </button>
+              {actionData?.dailyCapSaved && <span style={{ fontSize: "0.875rem", color: "#10B981" }}>Saved</span>}
+            </Form>
+          </div>
         </div>
 
         {/* Plan Comparison Table */}
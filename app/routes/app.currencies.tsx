@@ -0,0 +1,283 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { useEffect, useState } from "react";
+import { authenticate } from "~/shopify.server";
+import prisma from "~/db.server";
+import { showToast } from "~/components/Toast";
+import {
+  deleteShopRate,
+  getStoreCurrencies,
+  importShopRates,
+  listShopRates,
+  setShopRate,
+  type ShopRateRow,
+} from "~/models/currency-rates.server";
+import { SUPPORTED_CURRENCY_CODES } from "~/utils/currency.server";
+
+type LoaderData = {
+  shopCurrency: string | null;
+  presentmentCurrencies: string[];
+  supportedCurrencies: string[];
+  rates: ShopRateRow[];
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  const shop = await prisma.shop.findUnique({
+    where: { domain: session.shop },
+  });
+
+  if (!shop) {
+    throw new Response("Shop not found", { status: 404 });
+  }
+
+  let storeCurrencies: { shopCurrency: string | null; presentmentCurrencies: string[] } = {
+    shopCurrency: null,
+    presentmentCurrencies: [],
+  };
+  try {
+    storeCurrencies = await getStoreCurrencies(admin);
+  } catch (error) {
+    console.warn("[Currency] Failed to load store currencies:", error);
+  }
+
+  const data: LoaderData = {
+    ...storeCurrencies,
+    supportedCurrencies: SUPPORTED_CURRENCY_CODES,
+    rates: await listShopRates(shop.id),
+  };
+  return data;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  const shop = await prisma.shop.findUnique({
+    where: { domain: session.shop },
+  });
+
+  if (!shop) {
+    return Response.json({ error: "Shop not found" }, { status: 404 });
+  }
+
+  const formData = await request.formData();
+  const actionType = formData.get("actionType") as string;
+
+  try {
+    if (actionType === "delete_rate") {
+      await deleteShopRate(shop.id, String(formData.get("rateId") || ""));
+      return Response.json({ ok: true, message: "Rate removed" });
+    }
+
+    const { shopCurrency } = await getStoreCurrencies(admin);
+    if (!shopCurrency) {
+      return Response.json({ error: "Could not read the shop currency from Shopify" });
+    }
+    if (actionType === "set_rate") {
+      const rate = parseFloat(String(formData.get("rate") || ""));
+      await setShopRate(shop.id, shopCurrency, String(formData.get("currency") || ""), rate);
+      return Response.json({ ok: true, message: "Rate saved" });
+    }
+    if (actionType === "import_rates") {
+      const { imported, errors } = await importShopRates(shop.id, shopCurrency, String(formData.get("fileText") || ""));
+      if (imported === 0) {
+        return Response.json({ error: errors[0] || "No rates imported", errors });
+      }
+      return Response.json({
+        ok: true,
+        message: `Imported ${imported} rate${imported === 1 ? "" : "s"}${errors.length > 0 ? `, skipped ${errors.length}` : ""}`,
+        errors,
+      });
+    }
+  } catch (error) {
+    return Response.json({ error: error instanceof Error ? error.message : "Failed to update currency rates" });
+  }
+
+  return Response.json({ error: "Unknown action" }, { status: 400 });
+};
+
+const cardStyle = {
+  padding: "1rem 1.25rem",
+  backgroundColor: "#FFFFFF",
+  border: "1px solid rgba(11,11,15,0.12)",
+  borderRadius: "12px",
+  marginBottom: "1.5rem",
+  boxShadow: "0 2px 8px rgba(124, 58, 237, 0.1)",
+};
+const mutedStyle = { color: "rgba(11,11,15,0.62)", fontSize: "0.875rem" };
+const cellStyle = { borderBottom: "1px solid rgba(11,11,15,0.08)", padding: "0.5rem 0.75rem", textAlign: "left" as const };
+const inputStyle = { padding: "0.5rem 0.75rem", border: "1px solid rgba(11,11,15,0.12)", borderRadius: "8px", fontSize: "0.875rem" };
+const primaryButtonStyle = {
+  padding: "0.5rem 1rem",
+  background: "#7C3AED",
+  color: "#FFFFFF",
+  border: "none",
+  borderRadius: "8px",
+  fontWeight: "500",
+  cursor: "pointer",
+};
+const linkButtonStyle = { background: "none", border: "none", padding: 0, color: "#7C3AED", cursor: "pointer", fontSize: "0.8125rem" };
+
+export default function CurrenciesPage() {
+  const { shopCurrency, presentmentCurrencies, supportedCurrencies, rates } = useLoaderData<LoaderData>();
+  const fetcher = useFetcher<{ ok?: boolean; message?: string; error?: string; errors?: string[] }>();
+  const busy = fetcher.state !== "idle";
+  const [currency, setCurrency] = useState(presentmentCurrencies[0] || "");
+  const [rate, setRate] = useState("");
+  const [fileText, setFileText] = useState("");
+  const [fileName, setFileName] = useState("");
+
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data) return;
+    if (fetcher.data.error) showToast(fetcher.data.error, "error");
+    else if (fetcher.data.message) showToast(fetcher.data.message, "success");
+  }, [fetcher.state, fetcher.data]);
+
+  const ratesByCurrency = new Map(rates.map((r) => [r.currency, r]));
+  const missingPresentment = presentmentCurrencies.filter((code) => !ratesByCurrency.has(code));
+  const importErrors = fetcher.state === "idle" ? fetcher.data?.errors || [] : [];
+
+  return (
+    <s-page heading="Currencies">
+      <s-section>
+        <div style={{ maxWidth: "1200px", margin: "0 auto" }}>
+          <p style={{ ...mutedStyle, marginTop: 0, marginBottom: "1.5rem" }}>
+            Shoppers can give a budget in any currency (&quot;under €100&quot;, &quot;50 CAD&quot;). EditMuse converts it to your shop
+            currency with these rates before filtering products. On storefronts that sell in a local currency through Shopify
+            Markets, the live storefront rate is used for that currency.
+          </p>
+
+          <div style={cardStyle}>
+            <h2 style={{ marginTop: 0, color: "#0B0B0F" }}>Store currencies</h2>
+            <div>
+              Shop currency: <strong>{shopCurrency || "unknown"}</strong>
+            </div>
+            <div style={{ ...mutedStyle, marginTop: "0.25rem" }}>
+              Presentment currencies: {presentmentCurrencies.length > 0 ? presentmentCurrencies.join(", ") : "none"}
+            </div>
+            {missingPresentment.length > 0 && (
+              <div style={{ ...mutedStyle, marginTop: "0.5rem" }}>
+                No manual rate for {missingPresentment.join(", ")}. The storefront rate is used when shoppers browse in that
+                currency; add a rate to also convert budgets typed in it elsewhere.
+              </div>
+            )}
+          </div>
+
+          <div style={cardStyle}>
+            <h2 style={{ marginTop: 0, color: "#0B0B0F" }}>Rates</h2>
+            <p style={{ ...mutedStyle, marginTop: 0 }}>
+              How many units of each currency one {shopCurrency || "shop currency unit"} buys, e.g. 1.17 for EUR on a GBP store.
+            </p>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                fetcher.submit({ actionType: "set_rate", currency, rate }, { method: "post" });
+                setRate("");
+              }}
+              style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap", alignItems: "center", marginBottom: "1rem" }}
+            >
+              <select value={currency} onChange={(e) => setCurrency(e.target.value)} style={inputStyle} required>
+                <option value="">Currency</option>
+                {supportedCurrencies
+                  .filter((code) => code !== shopCurrency)
+                  .map((code) => (
+                    <option key={code} value={code}>
+                      {code}
+                    </option>
+                  ))}
+              </select>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                placeholder="Rate"
+                style={inputStyle}
+                required
+              />
+              <button type="submit" disabled={busy || !shopCurrency} style={{ ...primaryButtonStyle, opacity: busy ? 0.6 : 1 }}>
+                Save rate
+              </button>
+            </form>
+
+            {rates.length === 0 ? (
+              <div style={{ ...mutedStyle, marginBottom: "1rem" }}>No rates yet. Budgets in other currencies are compared as plain numbers.</div>
+            ) : (
+              <table style={{ width: "100%", borderCollapse: "collapse", marginBottom: "1rem" }}>
+                <thead>
+                  <tr style={{ backgroundColor: "#F9FAFB" }}>
+                    <th style={cellStyle}>Currency</th>
+                    <th style={cellStyle}>Rate</th>
+                    <th style={cellStyle}>Source</th>
+                    <th style={cellStyle}>Updated</th>
+                    <th style={cellStyle}></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rates.map((row) => (
+                    <tr key={row.id}>
+                      <td style={cellStyle}>{row.currency}</td>
+                      <td style={cellStyle}>{row.rate}</td>
+                      <td style={cellStyle}>{row.source}</td>
+                      <td style={cellStyle}>{new Date(row.updatedAt).toLocaleDateString()}</td>
+                      <td style={{ ...cellStyle, textAlign: "right" }}>
+                        <button
+                          type="button"
+                          disabled={busy}
+                          onClick={() => fetcher.submit({ actionType: "delete_rate", rateId: row.id }, { method: "post" })}
+                          style={linkButtonStyle}
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <h2 style={{ color: "#0B0B0F" }}>Import from a file</h2>
+            <p style={{ ...mutedStyle, marginTop: 0 }}>
+              CSV with one <code>CURRENCY,rate</code> per line, or JSON such as{" "}
+              <code>{`{ "base": "${shopCurrency || "GBP"}", "rates": { "EUR": 1.17 } }`}</code>. Imported rates replace existing ones.
+            </p>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                fetcher.submit({ actionType: "import_rates", fileText }, { method: "post" });
+              }}
+              style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap", alignItems: "center" }}
+            >
+              <input
+                type="file"
+                accept=".csv,.json,.txt,text/csv,application/json"
+                onChange={async (e) => {
+                  const file = e.target.files?.[0];
+                  setFileName(file?.name || "");
+                  setFileText(file ? await file.text() : "");
+                }}
+                style={inputStyle}
+              />
+              <button
+                type="submit"
+                disabled={busy || !fileText || !shopCurrency}
+                style={{ ...primaryButtonStyle, opacity: busy || !fileText ? 0.6 : 1 }}
+              >
+                Import {fileName ? `"${fileName}"` : ""}
+              </button>
+            </form>
+            {importErrors.length > 0 && (
+              <ul style={{ ...mutedStyle, color: "#991B1B", marginBottom: 0 }}>
+                {importErrors.slice(0, 10).map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </s-section>
+    </s-page>
+  );
+}
@@ -4,6 +4,7 @@ import prisma from "~/db.server";
 import { UsageEventType } from "@prisma/client";
 import { getOfflineAccessTokenForShop } from "~/shopify-admin.server";
 import { fetchShopifyProductsByHandlesGraphQL } from "~/shopify-admin.server";
+import { getAttributionReport } from "~/models/attribution.server";
 
 function safeJson(s: string | null): any {
   if (!s) return null;
@@ -327,6 +328,24 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     );
   });
 
+  // Order Attribution section (only when the merchant opted in; same window/model as the dashboard)
+  if (shop.orderAttributionEnabled) {
+    const report = await getAttributionReport(shop.id, fromDate, toDate);
+    const modelLabels = { last_touch: "Last touch", first_touch: "First touch", linear: "Linear" };
+    rows.push("");
+    rows.push("Order Attribution,Model,Window (days),Orders,Direct Orders,Assisted Orders,Revenue,Currency");
+    rows.push(
+      `,${modelLabels[report.settings.model]},${report.settings.windowDays},${report.totals.orders},${report.totals.directOrders},${report.totals.assistedOrders},${report.totals.revenue.toFixed(2)},${report.totals.currencyCode || ""}`
+    );
+    rows.push("");
+    rows.push("Attributed Revenue by Experience,Experience,Orders,Direct,Assisted,Revenue");
+    report.byExperience.forEach((row) => {
+      rows.push(
+        `,"${row.experienceName.replace(/"/g, '""')}",${+row.orders.toFixed(2)},${+row.directOrders.toFixed(2)},${+row.assistedOrders.toFixed(2)},${row.revenue.toFixed(2)}`
+      );
+    });
+  }
+
   const csv = rows.join("\n");
 
   return new Response(csv, {
@@ -1,5 +1,5 @@
-import type { LoaderFunctionArgs } from "react-router";
-import { useLoaderData, useNavigate, useSearchParams } from "react-router";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { Link, useFetcher, useLoaderData, useNavigate, useSearchParams } from "react-router";
 import { authenticate } from "~/shopify.server";
 import prisma from "~/db.server";
 import { UsageEventType, ConciergeSessionStatus } from "@prisma/client";
@@ -10,6 +10,14 @@ import { useAppBridge } from "@shopify/app-bridge-react";
 import { useNavigation, useRevalidator } from "react-router";
 import { showToast } from "~/components/Toast";
 import { LoadingSkeleton, TableSkeleton } from "~/components/LoadingSkeleton";
+import {
+  disableOrderAttribution,
+  enableOrderAttribution,
+  getAttributionReport,
+  updateAttributionSettings,
+  type AttributedRevenueRow,
+  type AttributionSettings,
+} from "~/models/attribution.server";
 
 function safeJson(s: string | null): any {
   if (!s) return null;
@@ -30,9 +38,15 @@ type DashboardData = {
     productClicked: number;
     addToCartClicked: number;
     checkoutStarted: number;
-    ordersAttributedDirect: number; // Always 0 - removed for PCD Level 0 compliance
-    ordersAttributedAssisted: number; // Always 0 - removed for PCD Level 0 compliance
-    revenue: number; // Always 0 - removed for PCD Level 0 compliance
+    ordersAttributedDirect: number; // 0 unless order attribution is enabled (PCD Level 0 by default)
+    ordersAttributedAssisted: number; // 0 unless order attribution is enabled
+    revenue: number; // 0 unless order attribution is enabled
+  };
+  orderAttribution: {
+    enabled: boolean;
+    settings: AttributionSettings;
+    currencyCode: string | null;
+    byExperience: AttributedRevenueRow[];
   };
   previousPeriodMetrics: {
     sessions: number;
@@ -63,6 +77,14 @@ type DashboardData = {
     addToCart: number;
     inStock: boolean;
   }>;
+  recentSessions: Array<{
+    id: string;
+    query: string | null;
+    status: string;
+    resultCount: number;
+    source: string | null; // Ranking source from the recommendation trace
+    createdAt: string;
+  }>;
 };
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
@@ -95,6 +117,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     },
     include: {
       result: true,
+      trace: { select: { source: true } },
     },
   });
 
@@ -374,6 +397,10 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     (e) => e.eventType === UsageEventType.ADD_TO_CART_CLICKED
   ).length;
 
+  // Order attribution (opt-in; only orders matched to a session are stored)
+  const attributionReport = await getAttributionReport(shop.id, fromDate, toDate);
+  const revenueByExperience = shop.orderAttributionEnabled ? attributionReport.byExperience : [];
+
   // Calculate performance metrics
   const sessionsWithResults = sessions.filter((s) => s.result).length;
   // Avg Results per Session = total number of products returned / total sessions
@@ -395,9 +422,15 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       productClicked,
       addToCartClicked,
       checkoutStarted,
-      ordersAttributedDirect: 0, // Removed for PCD Level 0 compliance
-      ordersAttributedAssisted: 0, // Removed for PCD Level 0 compliance
-      revenue: 0, // Removed for PCD Level 0 compliance
+      ordersAttributedDirect: shop.orderAttributionEnabled ? attributionReport.totals.directOrders : 0,
+      ordersAttributedAssisted: shop.orderAttributionEnabled ? attributionReport.totals.assistedOrders : 0,
+      revenue: shop.orderAttributionEnabled ? attributionReport.totals.revenue : 0,
+    },
+    orderAttribution: {
+      enabled: shop.orderAttributionEnabled,
+      settings: attributionReport.settings,
+      currencyCode: attributionReport.totals.currencyCode,
+      byExperience: revenueByExperience,
     },
     previousPeriodMetrics: {
       sessions: previousSessionsCount,
@@ -412,11 +445,61 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     funnel,
     topQueries,
     topProducts,
+    recentSessions: [...sessions]
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, 10)
+      .map((s) => ({
+        id: s.id,
+        query: s.queryRaw,
+        status: s.status,
+        resultCount: Array.isArray(s.result?.productHandles) ? s.result.productHandles.length : 0,
+        source: s.trace?.source || null,
+        createdAt: s.createdAt.toISOString(),
+      })),
   };
 
   return data;
 };
 
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  const shop = await prisma.shop.findUnique({
+    where: { domain: session.shop },
+  });
+
+  if (!shop) {
+    return Response.json({ error: "Shop not found" }, { status: 404 });
+  }
+
+  const formData = await request.formData();
+  const actionType = formData.get("actionType") as string;
+
+  try {
+    if (actionType === "enable_order_attribution") {
+      const appUrl = process.env.SHOPIFY_APP_URL || new URL(request.url).origin;
+      await enableOrderAttribution(admin, shop.id, appUrl);
+      return Response.json({ ok: true, enabled: true });
+    }
+    if (actionType === "disable_order_attribution") {
+      await disableOrderAttribution(admin, shop.id);
+      return Response.json({ ok: true, enabled: false });
+    }
+    if (actionType === "update_attribution_settings") {
+      const settings = await updateAttributionSettings(shop.id, {
+        windowDays: parseInt(String(formData.get("windowDays") || ""), 10),
+        model: String(formData.get("model") || ""),
+      });
+      return Response.json({ ok: true, enabled: true, settings });
+    }
+  } catch (error) {
+    console.error("[Dashboard] Order attribution update failed:", error);
+    return Response.json({ error: error instanceof Error ? error.message : "Failed to update order attribution" });
+  }
+
+  return Response.json({ error: "Unknown action" }, { status: 400 });
+};
+
 // Helper function to calculate percentage change
 function calculateChange(current: number, previous: number): { value: number; isPositive: boolean } | null {
   if (previous === 0) return current > 0 ? { value: 100, isPositive: true } : null;
@@ -435,6 +518,8 @@ export default function DashboardPage() {
   const [toDate, setToDate] = useState(data.to);
   const [preset, setPreset] = useState<string>("custom");
   const [isExporting, setIsExporting] = useState(false);
+  const attributionFetcher = useFetcher<{ ok?: boolean; enabled?: boolean; settings?: AttributionSettings; error?: string }>();
+  const isUpdatingAttribution = attributionFetcher.state !== "idle";
   const [autoRefresh, setAutoRefresh] = useState(false);
   const [topQueriesPage, setTopQueriesPage] = useState(1);
   const [topProductsPage, setTopProductsPage] = useState(1);
@@ -562,6 +647,51 @@ export default function DashboardPage() {
     }
   };
 
+  useEffect(() => {
+    if (attributionFetcher.state !== "idle" || !attributionFetcher.data) return;
+    if (attributionFetcher.data.error) {
+      showToast(attributionFetcher.data.error, "error");
+    } else if (attributionFetcher.data.ok) {
+      showToast(
+        attributionFetcher.data.settings
+          ? "Attribution settings saved"
+          : attributionFetcher.data.enabled ? "Order attribution enabled" : "Order attribution disabled",
+        "success"
+      );
+    }
+  }, [attributionFetcher.state, attributionFetcher.data]);
+
+  const handleEnableOrderAttribution = async () => {
+    try {
+      // read_orders is an optional scope: ask the merchant first, then register the webhook server-side
+      const response = await app.scopes.request(["read_orders"]);
+      if (response.result !== "granted-all") {
+        showToast("Order attribution needs permission to read orders", "error");
+        return;
+      }
+      attributionFetcher.submit({ actionType: "enable_order_attribution" }, { method: "post" });
+    } catch (error) {
+      console.error("Scope request failed:", error);
+      showToast("Failed to request order permissions. Please try again.", "error");
+    }
+  };
+
+  const formatRevenue = (amount: number) =>
+    data.orderAttribution.currencyCode
+      ? amount.toLocaleString(undefined, { style: "currency", currency: data.orderAttribution.currencyCode })
+      : amount.toFixed(2);
+
+  // Linear attribution splits an order across experiences, so per-experience counts can be fractional
+  const formatOrders = (count: number) => (Number.isInteger(count) ? String(count) : count.toFixed(2));
+
+  const handleAttributionSettingChange = (change: Partial<AttributionSettings>) => {
+    const settings = { ...data.orderAttribution.settings, ...change };
+    attributionFetcher.submit(
+      { actionType: "update_attribution_settings", windowDays: String(settings.windowDays), model: settings.model },
+      { method: "post" }
+    );
+  };
+
   return (
     <s-page heading="Dashboard">
       <s-section>
@@ -1191,6 +1321,249 @@ export default function DashboardPage() {
             </table>
           </div>
 
+          {/* Order Attribution (opt-in) */}
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "1rem" }}>
+            <h2 style={{ margin: 0, color: "#0B0B0F" }}>
+              Order Attribution
+            </h2>
+            {data.orderAttribution.enabled && (
+              <button
+                type="button"
+                onClick={() => attributionFetcher.submit({ actionType: "disable_order_attribution" }, { method: "post" })}
+                disabled={isUpdatingAttribution}
+                style={{
+                  padding: "0.5rem 1rem",
+                  background: "#FFFFFF",
+                  color: "#0B0B0F",
+                  border: "1px solid rgba(11,11,15,0.12)",
+                  borderRadius: "8px",
+                  fontWeight: "500",
+                  cursor: isUpdatingAttribution ? "not-allowed" : "pointer",
+                }}
+              >
+                {isUpdatingAttribution ? "Updating..." : "Turn off"}
+              </button>
+            )}
+          </div>
+          {!data.orderAttribution.enabled ? (
+            <div
+              style={{
+                padding: "1.5rem",
+                backgroundColor: "#FFFFFF",
+                border: "1px solid rgba(11,11,15,0.12)",
+                borderRadius: "12px",
+                marginBottom: "2rem",
+                boxShadow: "0 2px 8px rgba(124, 58, 237, 0.1)",
+              }}
+            >
+              <p style={{ margin: "0 0 1rem 0", color: "rgba(11,11,15,0.62)" }}>
+                See which orders came from EditMuse sessions and the revenue each experience drives. This asks for
+                permission to read orders; only orders matched to a session are stored (order number, total and
+                currency, no customer details). EditMuse does not access order data until you turn this on.
+              </p>
+              <button
+                type="button"
+                onClick={handleEnableOrderAttribution}
+                disabled={isUpdatingAttribution}
+                style={{
+                  padding: "0.75rem 1.5rem",
+                  background: isUpdatingAttribution ? "#9CA3AF" : "#7C3AED",
+                  color: "#FFFFFF",
+                  border: "none",
+                  borderRadius: "8px",
+                  fontWeight: "500",
+                  cursor: isUpdatingAttribution ? "not-allowed" : "pointer",
+                }}
+              >
+                {isUpdatingAttribution ? "Enabling..." : "Enable order attribution"}
+              </button>
+            </div>
+          ) : (
+            <div
+              style={{
+                backgroundColor: "#FFFFFF",
+                border: "1px solid rgba(11,11,15,0.12)",
+                borderRadius: "12px",
+                overflow: "hidden",
+                marginBottom: "2rem",
+                boxShadow: "0 2px 8px rgba(124, 58, 237, 0.1)",
+              }}
+            >
+              <div style={{ display: "flex", gap: "2rem", padding: "1rem", borderBottom: "1px solid rgba(11,11,15,0.12)" }}>
+                <div>
+                  <div style={{ fontSize: "0.875rem", color: "rgba(11,11,15,0.62)" }}>Attributed Revenue</div>
+                  <div style={{ fontSize: "1.25rem", fontWeight: "bold", color: "#7C3AED" }}>{formatRevenue(data.metrics.revenue)}</div>
+                </div>
+                <div>
+                  <div style={{ fontSize: "0.875rem", color: "rgba(11,11,15,0.62)" }}>Direct Orders</div>
+                  <div style={{ fontSize: "1.25rem", fontWeight: "bold", color: "#0B0B0F" }}>{data.metrics.ordersAttributedDirect}</div>
+                </div>
+                <div>
+                  <div style={{ fontSize: "0.875rem", color: "rgba(11,11,15,0.62)" }}>Assisted Orders</div>
+                  <div style={{ fontSize: "1.25rem", fontWeight: "bold", color: "#0B0B0F" }}>{data.metrics.ordersAttributedAssisted}</div>
+                </div>
+                <div style={{ marginLeft: "auto", display: "flex", gap: "1rem", alignItems: "flex-end" }}>
+                  <label style={{ fontSize: "0.875rem", color: "rgba(11,11,15,0.62)" }}>
+                    Window
+                    <select
+                      value={data.orderAttribution.settings.windowDays}
+                      onChange={(e) => handleAttributionSettingChange({ windowDays: parseInt(e.target.value, 10) })}
+                      disabled={isUpdatingAttribution}
+                      style={{ display: "block", marginTop: "0.25rem", padding: "0.375rem 0.5rem", border: "1px solid rgba(11,11,15,0.12)", borderRadius: "8px" }}
+                    >
+                      <option value={1}>1 day</option>
+                      <option value={7}>7 days</option>
+                      <option value={30}>30 days</option>
+                    </select>
+                  </label>
+                  <label style={{ fontSize: "0.875rem", color: "rgba(11,11,15,0.62)" }}>
+                    Model
+                    <select
+                      value={data.orderAttribution.settings.model}
+                      onChange={(e) => handleAttributionSettingChange({ model: e.target.value as AttributionSettings["model"] })}
+                      disabled={isUpdatingAttribution}
+                      style={{ display: "block", marginTop: "0.25rem", padding: "0.375rem 0.5rem", border: "1px solid rgba(11,11,15,0.12)", borderRadius: "8px" }}
+                    >
+                      <option value="last_touch">Last touch</option>
+                      <option value="first_touch">First touch</option>
+                      <option value="linear">Linear</option>
+                    </select>
+                  </label>
+                </div>
+              </div>
+              <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                <thead>
+                  <tr style={{ backgroundColor: "#F9FAFB" }}>
+                  <th
+                    style={{
+                      textAlign: "left",
+                      borderBottom: "1px solid rgba(11,11,15,0.12)",
+                      padding: "0.75rem 1rem",
+                      fontWeight: "500",
+                      color: "#0B0B0F",
+                    }}
+                  >
+                    Experience
+                  </th>
+                  <th
+                    style={{
+                      textAlign: "right",
+                      borderBottom: "1px solid rgba(11,11,15,0.12)",
+                      padding: "0.75rem 1rem",
+                      fontWeight: "500",
+                      color: "#0B0B0F",
+                    }}
+                  >
+                    Orders
+                  </th>
+                  <th
+                    style={{
+                      textAlign: "right",
+                      borderBottom: "1px solid rgba(11,11,15,0.12)",
+                      padding: "0.75rem 1rem",
+                      fontWeight: "500",
+                      color: "#0B0B0F",
+                    }}
+                  >
+                    Direct
+                  </th>
+                  <th
+                    style={{
+                      textAlign: "right",
+                      borderBottom: "1px solid rgba(11,11,15,0.12)",
+                      padding: "0.75rem 1rem",
+                      fontWeight: "500",
+                      color: "#0B0B0F",
+                    }}
+                  >
+                    Assisted
+                  </th>
+                  <th
+                    style={{
+                      textAlign: "right",
+                      borderBottom: "1px solid rgba(11,11,15,0.12)",
+                      padding: "0.75rem 1rem",
+                      fontWeight: "500",
+                      color: "#0B0B0F",
+                    }}
+                  >
+                    Revenue
+                  </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.orderAttribution.byExperience.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} style={{ padding: "2rem", textAlign: "center", color: "rgba(11,11,15,0.62)" }}>
+                        No attributed orders in this period
+                      </td>
+                    </tr>
+                  ) : (
+                    data.orderAttribution.byExperience.map((row, idx) => (
+                  <tr
+                    key={row.experienceId || "none"}
+                    style={{
+                      backgroundColor: idx % 2 === 0 ? "#FFFFFF" : "#F9FAFB",
+                    }}
+                  >
+                    <td
+                      style={{
+                        borderBottom: "1px solid rgba(11,11,15,0.08)",
+                        padding: "0.75rem 1rem",
+                        textAlign: "left",
+                        color: "#0B0B0F",
+                      }}
+                    >
+                      {row.experienceName}
+                    </td>
+                    <td
+                      style={{
+                        borderBottom: "1px solid rgba(11,11,15,0.08)",
+                        padding: "0.75rem 1rem",
+                        textAlign: "right",
+                        color: "#0B0B0F",
+                      }}
+                    >
+                      {formatOrders(row.orders)}
+                    </td>
+                    <td
+                      style={{
+                        borderBottom: "1px solid rgba(11,11,15,0.08)",
+                        padding: "0.75rem 1rem",
+                        textAlign: "right",
+                        color: "#0B0B0F",
+                      }}
+                    >
+                      {formatOrders(row.directOrders)}
+                    </td>
+                    <td
+                      style={{
+                        borderBottom: "1px solid rgba(11,11,15,0.08)",
+                        padding: "0.75rem 1rem",
+                        textAlign: "right",
+                        color: "#0B0B0F",
+                      }}
+                    >
+                      {formatOrders(row.assistedOrders)}
+                    </td>
+                    <td
+                      style={{
+                        borderBottom: "1px solid rgba(11,11,15,0.08)",
+                        padding: "0.75rem 1rem",
+                        textAlign: "right",
+                        color: "#0B0B0F",
+                      }}
+                    >
+                      {formatRevenue(row.revenue)}
+                    </td>
+                  </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+
           {/* Top Queries Table */}
           <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "1rem" }}>
             <h2 style={{ margin: 0, color: "#0B0B0F" }}>
@@ -1592,6 +1965,162 @@ export default function DashboardPage() {
               </div>
             )}
           </div>
+
+          {/* Recent Sessions Table */}
+          <h2 style={{ marginBottom: "1rem", color: "#0B0B0F" }}>
+            Recent Sessions
+          </h2>
+          <div
+            style={{
+              backgroundColor: "#FFFFFF",
+              border: "1px solid rgba(11,11,15,0.12)",
+              borderRadius: "12px",
+              overflow: "hidden",
+              marginBottom: "2rem",
+              boxShadow: "0 2px 8px rgba(124, 58, 237, 0.1)",
+            }}
+          >
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ backgroundColor: "#F9FAFB" }}>
+                  <th
+                    style={{
+                      textAlign: "left",
+                      borderBottom: "1px solid rgba(11,11,15,0.12)",
+                      padding: "0.75rem 1rem",
+                      fontWeight: "500",
+                      color: "#0B0B0F",
+                    }}
+                  >
+                    Session
+                  </th>
+                  <th
+                    style={{
+                      textAlign: "left",
+                      borderBottom: "1px solid rgba(11,11,15,0.12)",
+                      padding: "0.75rem 1rem",
+                      fontWeight: "500",
+                      color: "#0B0B0F",
+                    }}
+                  >
+                    Status
+                  </th>
+                  <th
+                    style={{
+                      textAlign: "right",
+                      borderBottom: "1px solid rgba(11,11,15,0.12)",
+                      padding: "0.75rem 1rem",
+                      fontWeight: "500",
+                      color: "#0B0B0F",
+                    }}
+                  >
+                    Results
+                  </th>
+                  <th
+                    style={{
+                      textAlign: "left",
+                      borderBottom: "1px solid rgba(11,11,15,0.12)",
+                      padding: "0.75rem 1rem",
+                      fontWeight: "500",
+                      color: "#0B0B0F",
+                    }}
+                  >
+                    Ranking
+                  </th>
+                  <th
+                    style={{
+                      textAlign: "right",
+                      borderBottom: "1px solid rgba(11,11,15,0.12)",
+                      padding: "0.75rem 1rem",
+                      fontWeight: "500",
+                      color: "#0B0B0F",
+                    }}
+                  >
+                    Trace
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.recentSessions.length === 0 ? (
+                  <tr>
+                    <td
+                      colSpan={5}
+                      style={{
+                        padding: "3rem",
+                        textAlign: "center",
+                        color: "rgba(11,11,15,0.62)",
+                      }}
+                    >
+                      <p style={{ fontSize: "1.125rem", margin: 0 }}>No sessions in this period</p>
+                    </td>
+                  </tr>
+                ) : (
+                  data.recentSessions.map((s, idx) => (
+                    <tr
+                      key={s.id}
+                      style={{
+                        backgroundColor: idx % 2 === 0 ? "#FFFFFF" : "#F9FAFB",
+                      }}
+                    >
+                      <td
+                        style={{
+                          borderBottom: "1px solid rgba(11,11,15,0.08)",
+                          padding: "0.75rem 1rem",
+                          textAlign: "left",
+                          color: "#0B0B0F",
+                        }}
+                      >
+                        {s.query || "(no query)"}
+                        <div style={{ fontSize: "0.75rem", color: "rgba(11,11,15,0.62)" }}>{new Date(s.createdAt).toLocaleString()}</div>
+                      </td>
+                      <td
+                        style={{
+                          borderBottom: "1px solid rgba(11,11,15,0.08)",
+                          padding: "0.75rem 1rem",
+                          textAlign: "left",
+                          color: "#0B0B0F",
+                        }}
+                      >
+                        {s.status}
+                      </td>
+                      <td
+                        style={{
+                          borderBottom: "1px solid rgba(11,11,15,0.08)",
+                          padding: "0.75rem 1rem",
+                          textAlign: "right",
+                          color: "#0B0B0F",
+                        }}
+                      >
+                        {s.resultCount}
+                      </td>
+                      <td
+                        style={{
+                          borderBottom: "1px solid rgba(11,11,15,0.08)",
+                          padding: "0.75rem 1rem",
+                          textAlign: "left",
+                          color: "#0B0B0F",
+                        }}
+                      >
+                        {s.source || "—"}
+                      </td>
+                      <td
+                        style={{
+                          borderBottom: "1px solid rgba(11,11,15,0.08)",
+                          padding: "0.75rem 1rem",
+                          textAlign: "right",
+                          color: "#0B0B0F",
+                        }}
+                      >
+                        <Link to={`/app/sessions/${s.id}`} style={{ color: "#7C3AED", fontWeight: "500" }}>
+                          View trace
+                        </Link>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
         </div>
       </s-section>
     </s-page>
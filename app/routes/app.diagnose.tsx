@@ -1,9 +1,20 @@
-import type { LoaderFunctionArgs } from "react-router";
-import { useLoaderData, useRevalidator } from "react-router";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { Form, useActionData, useLoaderData, useNavigation, useRevalidator } from "react-router";
 import { authenticate } from "~/shopify.server";
 import prisma from "~/db.server";
 import { useState, useMemo, useEffect } from "react";
 import { useAppBridge } from "@shopify/app-bridge-react";
+import { listGdprRequests } from "~/models/gdpr.server";
+import {
+  CONVERSATION_RETENTION_MAX_DAYS,
+  CONVERSATION_RETENTION_MIN_DAYS,
+  RETENTION_POLICIES,
+  getLastRetentionRun,
+  resolveConversationRetentionDays,
+  updateConversationRetention,
+  type RetentionTable,
+} from "~/models/retention.server";
+import { getJobQueueStats, type JobQueueStats } from "~/models/job-queue.server";
 
 type LoaderData = {
   errors: Array<{
@@ -23,8 +34,43 @@ type LoaderData = {
     durationMs: number;
     createdAt: Date;
   }>;
+  gdprRequests: Array<{
+    id: string;
+    topic: string;
+    customerId: string | null;
+    orderIds: string[];
+    status: string;
+    recordCountsJson: Record<string, number> | null;
+    error: string | null;
+    createdAt: Date;
+    completedAt: Date | null;
+  }>;
+  retention: {
+    conversationRetentionDays: number | null;
+    defaultConversationDays: number;
+    minConversationDays: number;
+    maxConversationDays: number;
+    policies: Array<{ table: RetentionTable; label: string; action: string; days: number | null }>;
+    lastRun: {
+      trigger: string;
+      status: string;
+      rowsJson: Partial<Record<RetentionTable, number>> | null;
+      error: string | null;
+      startedAt: Date;
+      finishedAt: Date | null;
+    } | null;
+  };
+  jobQueue: JobQueueStats;
 };
 
+// "45s", "12m", "3h" since the given time
+function formatAge(since: Date | string, now: number): string {
+  const seconds = Math.max(0, Math.round((now - new Date(since).getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  return `${Math.round(seconds / 3600)}h`;
+}
+
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
 
@@ -67,14 +113,70 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     },
   });
 
+  // GDPR compliance webhook audit log
+  const gdprRequests = await listGdprRequests(session.shop);
+
+  const lastRun = await getLastRetentionRun();
+
+  // Background job queue (shared by all shops)
+  const jobQueue = await getJobQueueStats();
+
   return {
     errors,
     proxyLogs,
+    gdprRequests,
+    retention: {
+      conversationRetentionDays: shop.conversationRetentionDays,
+      defaultConversationDays: resolveConversationRetentionDays(null),
+      minConversationDays: CONVERSATION_RETENTION_MIN_DAYS,
+      maxConversationDays: CONVERSATION_RETENTION_MAX_DAYS,
+      policies: (Object.keys(RETENTION_POLICIES) as RetentionTable[]).map((table) => ({
+        table,
+        ...RETENTION_POLICIES[table],
+        days: RETENTION_POLICIES[table].perShop
+          ? resolveConversationRetentionDays(shop.conversationRetentionDays)
+          : RETENTION_POLICIES[table].days,
+      })),
+      lastRun,
+    },
+    jobQueue,
   };
 };
 
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const shop = await prisma.shop.findUnique({
+    where: { domain: session.shop },
+  });
+
+  if (!shop) {
+    return Response.json({ error: "Shop not found" }, { status: 404 });
+  }
+
+  const formData = await request.formData();
+  const actionType = formData.get("actionType") as string;
+
+  if (actionType === "update_retention") {
+    const raw = String(formData.get("conversationRetentionDays") || "").trim();
+    const days = raw === "" ? null : Number(raw);
+    if (days != null && (!Number.isInteger(days) || days < CONVERSATION_RETENTION_MIN_DAYS || days > CONVERSATION_RETENTION_MAX_DAYS)) {
+      return Response.json({
+        error: `Conversation retention must be between ${CONVERSATION_RETENTION_MIN_DAYS} and ${CONVERSATION_RETENTION_MAX_DAYS} days`,
+      });
+    }
+    await updateConversationRetention(shop.id, days);
+    return Response.json({ ok: true });
+  }
+
+  return Response.json({ error: "Unknown action" }, { status: 400 });
+};
+
 export default function DiagnosePage() {
-  const { errors, proxyLogs } = useLoaderData<LoaderData>();
+  const { errors, proxyLogs, gdprRequests, retention, jobQueue } = useLoaderData<LoaderData>();
+  const actionData = useActionData<{ ok?: boolean; error?: string }>();
+  const navigation = useNavigation();
+  const isSavingRetention = navigation.state === "submitting" && navigation.formData?.get("actionType") === "update_retention";
   const revalidator = useRevalidator();
   const app = useAppBridge();
   const [copied, setCopied] = useState(false);
@@ -85,6 +187,7 @@ export default function DiagnosePage() {
   const [selectedError, setSelectedError] = useState<string | null>(null);
   const [isExportingErrors, setIsExportingErrors] = useState(false);
   const [isExportingLogs, setIsExportingLogs] = useState(false);
+  const [downloadingExport, setDownloadingExport] = useState<string | null>(null);
   const [autoRefresh, setAutoRefresh] = useState(false);
   const [groupErrors, setGroupErrors] = useState(true);
   const [resolvedErrors, setResolvedErrors] = useState<Set<string>>(new Set());
@@ -319,6 +422,32 @@ export default function DiagnosePage() {
     }
   };
 
+  const handleDownloadGdprExport = async (requestId: string) => {
+    if (downloadingExport) return;
+    setDownloadingExport(requestId);
+    try {
+      const response = await fetch(`/app/privacy/${requestId}/export`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`Export failed: ${response.status} ${response.statusText}`);
+      }
+
+      const blob = new Blob([await response.text()], { type: 'application/json;charset=utf-8' });
+      const blobUrl = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = blobUrl;
+      link.download = `data-request-${requestId}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(blobUrl);
+    } catch (error) {
+      console.error('Data request export failed:', error);
+      alert('Failed to download the data request export. Please try again.');
+    } finally {
+      setDownloadingExport(null);
+    }
+  };
+
   const handleExportLogsCSV = async () => {
     if (isExportingLogs) return;
     setIsExportingLogs(true);
@@ -1105,9 +1234,270 @@ export default function DiagnosePage() {
               </table>
             </div>
           </div>
+
+          {/* Background Jobs */}
+          <div style={{ marginTop: "2rem" }}>
+            <h2 style={{ margin: "0 0 0.5rem 0", color: "#0B0B0F" }}>Background Jobs</h2>
+            <p style={{ margin: "0 0 1rem 0", color: "rgba(11,11,15,0.62)", fontSize: "0.875rem" }}>
+              Recommendation sessions are processed from a queue. Failed jobs are retried with backoff; jobs that run out of attempts are dead-lettered and their session is marked failed.
+            </p>
+            <div
+              style={{
+                display: "grid",
+                gridTemplateColumns: "repeat(auto-fit, minmax(320px, 1fr))",
+                gap: "1rem",
+              }}
+            >
+              <div style={{
+                padding: "1rem",
+                backgroundColor: "#FFFFFF",
+                border: "1px solid rgba(11,11,15,0.12)",
+                borderRadius: "12px",
+                boxShadow: "0 2px 8px rgba(124, 58, 237, 0.1)",
+              }}>
+                <div style={{ fontSize: "0.875rem", color: "rgba(11,11,15,0.62)", marginBottom: "0.5rem" }}>Queue</div>
+                {([
+                  ["Queued", jobQueue.counts.QUEUED],
+                  ["Running", jobQueue.counts.RUNNING],
+                  ["Dead", jobQueue.counts.DEAD],
+                  ["Completed", jobQueue.counts.COMPLETED],
+                  ["Expired leases", jobQueue.expiredLeases],
+                ] as const).map(([label, count]) => (
+                  <div key={label} style={{ display: "flex", justifyContent: "space-between", fontSize: "0.875rem", color: "#0B0B0F" }}>
+                    <span>{label}</span>
+                    <span style={{ color: label === "Dead" && count > 0 ? "#EF4444" : "#0B0B0F" }}>{count}</span>
+                  </div>
+                ))}
+                <div style={{ display: "flex", justifyContent: "space-between", fontSize: "0.875rem", color: "rgba(11,11,15,0.62)", marginTop: "0.5rem" }}>
+                  <span>Oldest queued job</span>
+                  <span>{jobQueue.oldestQueuedAt ? formatAge(jobQueue.oldestQueuedAt, Date.now()) : "—"}</span>
+                </div>
+                <div style={{ display: "flex", justifyContent: "space-between", fontSize: "0.875rem", color: "rgba(11,11,15,0.62)" }}>
+                  <span>Oldest running job</span>
+                  <span>{jobQueue.oldestRunningAt ? formatAge(jobQueue.oldestRunningAt, Date.now()) : "—"}</span>
+                </div>
+              </div>
+
+              <div style={{
+                padding: "1rem",
+                backgroundColor: "#FFFFFF",
+                border: "1px solid rgba(11,11,15,0.12)",
+                borderRadius: "12px",
+                boxShadow: "0 2px 8px rgba(124, 58, 237, 0.1)",
+              }}>
+                <div style={{ fontSize: "0.875rem", color: "rgba(11,11,15,0.62)", marginBottom: "0.5rem" }}>Recent Dead Jobs</div>
+                {jobQueue.recentDead.length === 0 ? (
+                  <div style={{ fontSize: "0.875rem", color: "rgba(11,11,15,0.62)" }}>No dead jobs</div>
+                ) : (
+                  jobQueue.recentDead.map((job) => (
+                    <div key={job.id} style={{ fontSize: "0.875rem", color: "#0B0B0F", marginBottom: "0.5rem" }}>
+                      <div>
+                        {job.type} · {job.attempts} attempt(s)
+                        {job.finishedAt && (
+                          <span style={{ color: "rgba(11,11,15,0.62)" }}> · {new Date(job.finishedAt).toLocaleString()}</span>
+                        )}
+                      </div>
+                      {job.lastError && <div style={{ color: "#EF4444" }}>{job.lastError}</div>}
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Data Retention */}
+          <div style={{ marginTop: "2rem" }}>
+            <h2 style={{ margin: "0 0 0.5rem 0", color: "#0B0B0F" }}>Data Retention</h2>
+            <p style={{ margin: "0 0 1rem 0", color: "rgba(11,11,15,0.62)", fontSize: "0.875rem" }}>
+              Old logs, caches and conversations are removed automatically in batches every few hours.
+            </p>
+            <div
+              style={{
+                display: "grid",
+                gridTemplateColumns: "repeat(auto-fit, minmax(320px, 1fr))",
+                gap: "1rem",
+              }}
+            >
+              <div style={{
+                padding: "1rem",
+                backgroundColor: "#FFFFFF",
+                border: "1px solid rgba(11,11,15,0.12)",
+                borderRadius: "12px",
+                boxShadow: "0 2px 8px rgba(124, 58, 237, 0.1)",
+              }}>
+                <div style={{ fontSize: "0.875rem", color: "rgba(11,11,15,0.62)", marginBottom: "0.5rem" }}>Last Run</div>
+                {retention.lastRun ? (
+                  <>
+                    <div style={{ fontWeight: "500", color: "#0B0B0F", marginBottom: "0.25rem" }}>
+                      {new Date(retention.lastRun.startedAt).toLocaleString()}
+                      <span style={{
+                        marginLeft: "0.5rem",
+                        color: retention.lastRun.status === "failed" ? "#EF4444" : retention.lastRun.status === "completed" ? "#10B981" : "#F59E0B",
+                      }}>
+                        {retention.lastRun.status}
+                      </span>
+                    </div>
+                    <div style={{ fontSize: "0.875rem", color: "#0B0B0F", marginBottom: "0.5rem" }}>
+                      {Object.values(retention.lastRun.rowsJson || {}).reduce((sum, n) => sum + (n || 0), 0)} rows removed
+                    </div>
+                    {retention.policies.map((policy) => (
+                      <div key={policy.table} style={{ display: "flex", justifyContent: "space-between", fontSize: "0.875rem", color: "rgba(11,11,15,0.62)" }}>
+                        <span>{policy.label}</span>
+                        <span>{retention.lastRun?.rowsJson?.[policy.table] ?? 0}</span>
+                      </div>
+                    ))}
+                    {retention.lastRun.error && (
+                      <div style={{ marginTop: "0.5rem", fontSize: "0.875rem", color: "#EF4444" }}>{retention.lastRun.error}</div>
+                    )}
+                  </>
+                ) : (
+                  <div style={{ fontSize: "0.875rem", color: "rgba(11,11,15,0.62)" }}>No retention run yet</div>
+                )}
+              </div>
+
+              <div style={{
+                padding: "1rem",
+                backgroundColor: "#FFFFFF",
+                border: "1px solid rgba(11,11,15,0.12)",
+                borderRadius: "12px",
+                boxShadow: "0 2px 8px rgba(124, 58, 237, 0.1)",
+              }}>
+                <div style={{ fontSize: "0.875rem", color: "rgba(11,11,15,0.62)", marginBottom: "0.5rem" }}>Retention Periods</div>
+                {retention.policies.map((policy) => (
+                  <div key={policy.table} style={{ display: "flex", justifyContent: "space-between", fontSize: "0.875rem", color: "#0B0B0F" }}>
+                    <span>{policy.label}</span>
+                    <span>{policy.action === "expire" ? "until expiry" : `${policy.days} days`}</span>
+                  </div>
+                ))}
+                <Form method="post" style={{ marginTop: "1rem", display: "flex", gap: "0.5rem", alignItems: "center", flexWrap: "wrap" }}>
+                  <input type="hidden" name="actionType" value="update_retention" />
+                  <label htmlFor="conversationRetentionDays" style={{ fontSize: "0.875rem", color: "rgba(11,11,15,0.62)" }}>
+                    Keep conversations for
+                  </label>
+                  <input
+                    id="conversationRetentionDays"
+                    name="conversationRetentionDays"
+                    type="number"
+                    min={retention.minConversationDays}
+                    max={retention.maxConversationDays}
+                    defaultValue={retention.conversationRetentionDays ?? ""}
+                    placeholder={String(retention.defaultConversationDays)}
+                    style={{
+                      width: "6rem",
+                      padding: "0.5rem 0.75rem",
+                      border: "1px solid rgba(11,11,15,0.12)",
+                      borderRadius: "6px",
+                      fontSize: "0.875rem",
+                    }}
+                  />
+                  <span style={{ fontSize: "0.875rem", color: "rgba(11,11,15,0.62)" }}>days</span>
+                  <button
+                    type="submit"
+                    disabled={isSavingRetention}
+                    style={{
+                      padding: "0.5rem 1rem",
+                      background: isSavingRetention ? "#9CA3AF" : "#7C3AED",
+                      color: "#FFFFFF",
+                      border: "none",
+                      borderRadius: "8px",
+                      fontWeight: "500",
+                      cursor: isSavingRetention ? "not-allowed" : "pointer",
+                    }}
+                  >
+                    {isSavingRetention ? "Saving..." : "Save"}
+                  </button>
+                </Form>
+                {actionData?.error && (
+                  <div style={{ marginTop: "0.5rem", fontSize: "0.875rem", color: "#EF4444" }}>{actionData.error}</div>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Privacy Requests (GDPR webhook audit log) */}
+          <div style={{ marginTop: "2rem" }}>
+            <h2 style={{ margin: "0 0 0.5rem 0", color: "#0B0B0F" }}>Privacy Requests ({gdprRequests.length})</h2>
+            <p style={{ margin: "0 0 1rem 0", color: "rgba(11,11,15,0.62)", fontSize: "0.875rem" }}>
+              Customer data requests and redactions received from Shopify. Download a data request export to send it to the customer.
+            </p>
+            <div
+              style={{
+                backgroundColor: "#FFFFFF",
+                border: "1px solid rgba(11,11,15,0.12)",
+                borderRadius: "12px",
+                overflow: "hidden",
+                boxShadow: "0 2px 8px rgba(124, 58, 237, 0.1)",
+              }}
+            >
+              <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                <thead>
+                  <tr style={{ backgroundColor: "#F9FAFB" }}>
+                    <th style={{ textAlign: "left" as const, borderBottom: "1px solid rgba(11,11,15,0.12)", padding: "0.75rem 1rem", fontWeight: "500", color: "#0B0B0F" }}>Received</th>
+                    <th style={{ textAlign: "left" as const, borderBottom: "1px solid rgba(11,11,15,0.12)", padding: "0.75rem 1rem", fontWeight: "500", color: "#0B0B0F" }}>Topic</th>
+                    <th style={{ textAlign: "left" as const, borderBottom: "1px solid rgba(11,11,15,0.12)", padding: "0.75rem 1rem", fontWeight: "500", color: "#0B0B0F" }}>Customer</th>
+                    <th style={{ textAlign: "left" as const, borderBottom: "1px solid rgba(11,11,15,0.12)", padding: "0.75rem 1rem", fontWeight: "500", color: "#0B0B0F" }}>Status</th>
+                    <th style={{ textAlign: "left" as const, borderBottom: "1px solid rgba(11,11,15,0.12)", padding: "0.75rem 1rem", fontWeight: "500", color: "#0B0B0F" }}>Records</th>
+                    <th style={{ textAlign: "left" as const, borderBottom: "1px solid rgba(11,11,15,0.12)", padding: "0.75rem 1rem", fontWeight: "500", color: "#0B0B0F" }}>Export</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {gdprRequests.length === 0 ? (
+                    <tr>
+                      <td colSpan={6} style={{ padding: "2rem", textAlign: "center", color: "rgba(11,11,15,0.62)" }}>
+                        No privacy requests received
+                      </td>
+                    </tr>
+                  ) : (
+                    gdprRequests.map((req) => {
+                      const counts = req.recordCountsJson || {};
+                      const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+                      return (
+                        <tr key={req.id}>
+                          <td style={{ borderBottom: "1px solid rgba(11,11,15,0.08)", padding: "0.75rem 1rem", fontSize: "0.875rem" }}>{new Date(req.createdAt).toLocaleString()}</td>
+                          <td style={{ borderBottom: "1px solid rgba(11,11,15,0.08)", padding: "0.75rem 1rem", fontSize: "0.875rem" }}>{req.topic}</td>
+                          <td style={{ borderBottom: "1px solid rgba(11,11,15,0.08)", padding: "0.75rem 1rem", fontSize: "0.875rem" }}>
+                            {req.customerId || "—"}
+                            {req.orderIds.length > 0 && (
+                              <div style={{ color: "rgba(11,11,15,0.62)" }}>{req.orderIds.length} order(s)</div>
+                            )}
+                          </td>
+                          <td style={{ ...{ borderBottom: "1px solid rgba(11,11,15,0.08)", padding: "0.75rem 1rem", fontSize: "0.875rem" }, color: req.status === "failed" ? "#EF4444" : req.status === "completed" ? "#10B981" : "#F59E0B" }}>
+                            {req.status}
+                            {req.error && <div style={{ color: "rgba(11,11,15,0.62)" }}>{req.error}</div>}
+                          </td>
+                          <td style={{ borderBottom: "1px solid rgba(11,11,15,0.08)", padding: "0.75rem 1rem", fontSize: "0.875rem" }} title={Object.entries(counts).map(([table, n]) => `${table}: ${n}`).join(", ")}>
+                            {req.status === "completed" ? total : "—"}
+                          </td>
+                          <td style={{ borderBottom: "1px solid rgba(11,11,15,0.08)", padding: "0.75rem 1rem", fontSize: "0.875rem" }}>
+                            {req.topic === "customers/data_request" && req.status === "completed" ? (
+                              <button
+                                onClick={() => handleDownloadGdprExport(req.id)}
+                                disabled={downloadingExport === req.id}
+                                style={{
+                                  padding: 0,
+                                  background: "none",
+                                  border: "none",
+                                  color: "#7C3AED",
+                                  fontSize: "0.875rem",
+                                  cursor: downloadingExport === req.id ? "not-allowed" : "pointer",
+                                }}
+                              >
+                                {downloadingExport === req.id ? "Downloading..." : "Download JSON"}
+                              </button>
+                            ) : (
+                              "—"
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
         </div>
       </s-section>
     </s-page>
   );
 }
-
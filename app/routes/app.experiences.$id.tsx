@@ -4,9 +4,26 @@ import { authenticate } from "~/shopify.server";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import type { HeadersFunction } from "react-router";
 import prisma from "~/db.server";
+import { normalizeQuizQuestions, validateQuizBranching } from "~/utils/quiz-engine.server";
+import {
+  OPTION_QUESTION_TYPES,
+  QUESTION_TYPES,
+  assignQuestionIds,
+  isQuestionType,
+  newQuestionId,
+  validateQuestionDefinition,
+} from "~/utils/question-types";
+import { RANKING_CACHE_HOURS_OPTIONS, parseRankingCacheHours } from "~/utils/ranking-cache-options";
+import { parseMerchandisingRules, validateMerchandisingRules } from "~/utils/merchandising-rules";
+import { previewMerchandisingRules } from "~/utils/merchandising-rules.server";
+import { fetchCatalogProducts } from "~/models/catalog-index.server";
+import { getOfflineAccessTokenForShop } from "~/shopify-admin.server";
 import { useState, useEffect } from "react";
 import { isResultCountAllowed, getCurrentPlan } from "~/models/billing.server";
 import { withQuery } from "~/utils/redirect.server";
+import { QuestionLogicFields } from "~/components/QuestionLogicFields";
+import { QuestionTypeFields } from "~/components/QuestionTypeFields";
+import { MerchandisingRulesEditor } from "~/components/MerchandisingRulesEditor";
 
 export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
@@ -41,6 +58,8 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
 
   // Normalize questions: convert "prompt" to "question", normalize types, normalize options
   if (Array.isArray(parsedQuestions) && parsedQuestions.length > 0) {
+    // Ids first, in saved order, so they match the positions the quiz engine used before ids were saved
+    parsedQuestions = assignQuestionIds(parsedQuestions.filter((q) => q && typeof q === "object"));
     parsedQuestions = parsedQuestions.map((q: any) => {
       const normalized: any = { ...q };
       
@@ -50,23 +69,28 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
         delete normalized.prompt;
       }
       
-      // Normalize type names: single_select -> select, filter out unsupported types
+      // Normalize type names: single_select -> select, legacy aliases -> typed questions
       if (normalized.type === "single_select") {
         normalized.type = "select";
-      } else if (normalized.type === "boolean" || normalized.type === "yesno" || normalized.type === "multiselect") {
-        // Convert unsupported types to text
-        normalized.type = "text";
-        delete normalized.options; // Remove options if converting from select type
+      } else if (normalized.type === "boolean" || normalized.type === "yesno") {
+        normalized.type = "yes_no";
+        delete normalized.options; // Yes / No options are fixed
+      } else if (normalized.type === "multiselect") {
+        normalized.type = "multi_select";
       }
       
-      // Normalize options to {value, label} format (only for select type)
-      if (normalized.type === "select" && normalized.options) {
+      // Normalize options to {value, label} format (only for option types)
+      if (OPTION_QUESTION_TYPES.includes(normalized.type) && normalized.options) {
         normalized.options = normalized.options.map((opt: any) => {
           if (typeof opt === "string") {
             return { value: opt, label: opt };
           }
           if (typeof opt === "object" && opt.value !== undefined) {
-            return { value: String(opt.value), label: String(opt.label || opt.value) };
+            return {
+              value: String(opt.value),
+              label: String(opt.label || opt.value),
+              ...(opt.imageUrl ? { imageUrl: String(opt.imageUrl) } : {}),
+            };
           }
           return { value: String(opt), label: String(opt) };
         });
@@ -74,7 +98,7 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
       
       return normalized;
     })
-    .filter((q: any) => q.type === "text" || q.type === "select"); // Only keep supported types
+    .filter((q: any) => isQuestionType(q.type)); // Only keep supported types
   }
   
   // Normalize invalid mode to "hybrid"
@@ -104,6 +128,7 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
         question: "Any preferences? (brand, color, size, features)",
       },
     ];
+    parsedQuestions = assignQuestionIds(parsedQuestions);
   }
 
   const { getMaxResultCount } = await import("~/models/billing.server");
@@ -118,6 +143,7 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
       isDefault: (experience as any).isDefault || false,
       questionsJson: JSON.stringify(parsedQuestions),
       questions: parsedQuestions,
+      merchandisingRules: parseMerchandisingRules(experience.merchandisingRulesJson),
     },
     maxResultCount,
   };
@@ -166,6 +192,25 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     }
   }
 
+  // Preview which catalog products each merchandising rule affects (rule editor, not saved)
+  if (actionType === "preview_merchandising") {
+    const rules = parseMerchandisingRules(formData.get("merchandisingRulesJson") as string || "[]");
+    const sampleQuery = ((formData.get("sampleQuery") as string) || "").trim();
+    try {
+      const accessToken = await getOfflineAccessTokenForShop(shop.domain);
+      const products = await fetchCatalogProducts({
+        shopDomain: shop.domain,
+        accessToken: accessToken || "",
+        limit: 250,
+        collectionIds: JSON.parse(existing.includedCollections || "[]"),
+      });
+      return { preview: previewMerchandisingRules(rules, products, sampleQuery || null), sampleSize: products.length };
+    } catch (error) {
+      console.error("[EditExperience] Error previewing merchandising rules:", error);
+      return { error: error instanceof Error ? error.message : "Failed to preview merchandising rules" };
+    }
+  }
+
   // Handle update action
   const name = formData.get("name") as string;
   const mode = formData.get("mode") as string;
@@ -174,8 +219,10 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
   const includedCollections = formData.get("includedCollections") as string || "[]";
   const excludedTags = formData.get("excludedTags") as string || "[]";
   const inStockOnly = formData.get("inStockOnly") === "true" || formData.get("inStockOnly") === "on";
+  const rankingCacheHours = parseRankingCacheHours(formData.get("rankingCacheHours"));
   const isDefault = formData.get("isDefault") === "true" || formData.get("isDefault") === "on";
   const questionsJson = formData.get("questionsJson") as string || "[]";
+  const merchandisingRules = parseMerchandisingRules(formData.get("merchandisingRulesJson") as string || "[]");
 
   console.log("[EditExperience] Form data received", { 
     name, 
@@ -210,6 +257,11 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     };
   }
 
+  const merchandisingError = validateMerchandisingRules(merchandisingRules);
+  if (merchandisingError) {
+    return { error: merchandisingError };
+  }
+
   // Validate questionsJson - allow 0 questions for chat mode
   let parsedQuestions: any[] = [];
   try {
@@ -231,44 +283,41 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
       parsedQuestions = [];
     }
     
-    // Validate and normalize each question
-    const validTypes = ["text", "select"];
+    // Validate and normalize each question (type-specific rules live in utils/question-types)
     for (let i = 0; i < parsedQuestions.length; i++) {
       const q = parsedQuestions[i];
-      if (!q.type || !validTypes.includes(q.type)) {
-        return { error: `Question ${i + 1}: type must be "text" or "select"` };
-      }
       // Normalize "prompt" to "question" if present
       if (q.prompt && !q.question) {
         q.question = q.prompt;
         delete q.prompt;
       }
-      if (!q.question || q.question.trim() === "") {
-        return { error: `Question ${i + 1}: question text is required` };
+      const questionError = validateQuestionDefinition(q);
+      if (questionError) {
+        return { error: `Question ${i + 1}: ${questionError}` };
       }
-      if (q.type === "select") {
-        if (!q.options || !Array.isArray(q.options) || q.options.length < 2) {
-          return { error: `Question ${i + 1}: select must have at least 2 options` };
-        }
-        // Normalize options to {value, label} format
+      if (OPTION_QUESTION_TYPES.includes(q.type)) {
+        // Normalize options to {value, label} format (image choices keep imageUrl)
         parsedQuestions[i].options = q.options.map((opt: any) => {
-          if (typeof opt === "string") {
-            return { value: opt, label: opt };
-          }
           if (typeof opt === "object" && opt.value !== undefined) {
-            return { value: String(opt.value), label: String(opt.label || opt.value) };
+            return {
+              value: String(opt.value).trim(),
+              label: String(opt.label || opt.value).trim(),
+              ...(opt.imageUrl ? { imageUrl: String(opt.imageUrl).trim() } : {}),
+            };
           }
-          return { value: String(opt), label: String(opt) };
+          return { value: String(opt).trim(), label: String(opt).trim() };
         });
-        // Validate normalized options
-        for (let j = 0; j < parsedQuestions[i].options.length; j++) {
-          const opt = parsedQuestions[i].options[j];
-          if (!opt.value || opt.value.trim() === "" || !opt.label || opt.label.trim() === "") {
-            return { error: `Question ${i + 1}, Option ${j + 1}: value and label are required` };
-          }
-        }
       }
     }
+
+    // Questions from older editor sessions may arrive without ids
+    parsedQuestions = assignQuestionIds(parsedQuestions);
+
+    // Branching rules (showIf) must point at earlier questions and real options
+    const branchingError = validateQuizBranching(normalizeQuizQuestions(parsedQuestions));
+    if (branchingError) {
+      return { error: branchingError };
+    }
   } catch (e) {
     return { error: "Questions must be valid JSON array" };
   }
@@ -300,6 +349,8 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
           includedCollections,
           excludedTags,
           inStockOnly,
+          rankingCacheHours,
+          merchandisingRulesJson: JSON.stringify(merchandisingRules),
           isDefault,
           questionsJson: JSON.stringify(parsedQuestions),
         },
@@ -339,10 +390,14 @@ export default function EditExperience() {
       ? JSON.stringify(experience.excludedTags)
       : (experience.excludedTags || "[]"),
     inStockOnly: experience.inStockOnly,
+    rankingCacheHours: experience.rankingCacheHours,
     isDefault: experience.isDefault || false,
     questionsJson: JSON.stringify(initialQuestions),
   });
 
+  // Merchandising rules state for the rule editor
+  const [merchandisingRules, setMerchandisingRules] = useState(experience.merchandisingRules);
+
   // Questions state for the builder UI
   const [questions, setQuestions] = useState<any[]>(initialQuestions);
 
@@ -353,6 +408,7 @@ export default function EditExperience() {
     resultCount?: string;
     questionsJson?: string;
     questions?: Record<number, string>;
+    merchandisingRulesJson?: string;
   }>({});
 
   // Update form field
@@ -396,33 +452,9 @@ export default function EditExperience() {
     } else if (questions.length > 0) {
       const questionErrors: Record<number, string> = {};
       for (let i = 0; i < questions.length; i++) {
-        const q = questions[i];
-        const validTypes = ["text", "select"];
-        if (!q.type || !validTypes.includes(q.type)) {
-          questionErrors[i] = `Type must be "text" or "select"`;
-          continue;
-        }
-        if (!q.question || q.question.trim() === "") {
-          questionErrors[i] = "Question text is required";
-          continue;
-        }
-        if (q.type === "select") {
-          if (!q.options || !Array.isArray(q.options) || q.options.length < 2) {
-            questionErrors[i] = "Must have at least 2 options";
-            continue;
-          }
-          for (let j = 0; j < q.options.length; j++) {
-            const opt = q.options[j];
-            if (typeof opt === "object") {
-              if (!opt.value || opt.value.trim() === "" || !opt.label || opt.label.trim() === "") {
-                questionErrors[i] = `Option ${j + 1}: value and label are required`;
-                break;
-              }
-            } else if (!opt || String(opt).trim() === "") {
-              questionErrors[i] = `Option ${j + 1}: value is required`;
-              break;
-            }
-          }
+        const questionError = validateQuestionDefinition(questions[i]);
+        if (questionError) {
+          questionErrors[i] = questionError;
         }
       }
       if (Object.keys(questionErrors).length > 0) {
@@ -430,6 +462,11 @@ export default function EditExperience() {
         newErrors.questionsJson = "Please fix question errors";
       }
     }
+
+    const merchandisingError = validateMerchandisingRules(merchandisingRules);
+    if (merchandisingError) {
+      newErrors.merchandisingRulesJson = merchandisingError;
+    }
     
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -612,6 +649,31 @@ export default function EditExperience() {
               </label>
             </div>
 
+            <div>
+              <label htmlFor="rankingCacheHours" style={{ display: "block", marginBottom: "0.5rem", fontWeight: "500" }}>
+                Reuse AI picks for repeat searches
+              </label>
+              <select
+                id="rankingCacheHours"
+                name="rankingCacheHours"
+                value={String(form.rankingCacheHours)}
+                onChange={(e) => updateField("rankingCacheHours", Number(e.currentTarget.value))}
+                style={{
+                  width: "100%",
+                  padding: "0.5rem",
+                  border: "1px solid rgba(11,11,15,0.12)",
+                  borderRadius: "12px",
+                }}
+              >
+                {RANKING_CACHE_HOURS_OPTIONS.map((option) => (
+                  <option key={option.value} value={String(option.value)}>{option.label}</option>
+                ))}
+              </select>
+              <div style={{ fontSize: "0.875rem", color: "rgba(11,11,15,0.62)", marginTop: "0.25rem" }}>
+                Identical searches within this window reuse the last AI ranking instead of calling the AI again. Product and experience changes always start fresh.
+              </div>
+            </div>
+
             <div>
               <label style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
                 <input
@@ -745,12 +807,21 @@ export default function EditExperience() {
                             newQuestions[index] = {
                               ...newQuestions[index],
                               type: newType,
-                              ...(newType === "select"
+                              ...(OPTION_QUESTION_TYPES.some((t) => t === newType)
                                 ? { options: newQuestions[index].options || [{ value: "", label: "" }, { value: "", label: "" }] }
                                 : newType === "text"
                                 ? { placeholder: newQuestions[index].placeholder || "" }
+                                : newType === "range"
+                                ? { min: newQuestions[index].min ?? 0, max: newQuestions[index].max ?? 500, unit: newQuestions[index].unit || "currency" }
                                 : {}),
                             };
+                            if (!OPTION_QUESTION_TYPES.some((t) => t === newType)) {
+                              delete newQuestions[index].options;
+                            }
+                            // Reset a signal the new type cannot use (e.g. price on a non-range question)
+                            if (newQuestions[index].signal?.kind === "price" && newType !== "range") {
+                              delete newQuestions[index].signal;
+                            }
                             updateQuestions(newQuestions);
                           }}
                           style={{
@@ -760,8 +831,9 @@ export default function EditExperience() {
                             borderRadius: "4px",
                           }}
                         >
-                          <option value="text">Text</option>
-                          <option value="select">Select (Single Choice)</option>
+                          {QUESTION_TYPES.map((t) => (
+                            <option key={t.type} value={t.type}>{t.label}</option>
+                          ))}
                         </select>
                       </div>
 
@@ -811,7 +883,7 @@ export default function EditExperience() {
                         </div>
                       )}
 
-                      {q.type === "select" && (
+                      {OPTION_QUESTION_TYPES.includes(q.type) && (
                         <div style={{ marginBottom: "0.75rem" }}>
                           <label style={{ display: "block", marginBottom: "0.5rem", fontSize: "0.875rem", fontWeight: "500" }}>
                             Options <span style={{ color: "#DC2626" }}>*</span> (at least 2 required)
@@ -864,6 +936,29 @@ export default function EditExperience() {
                                     borderRadius: "4px",
                                   }}
                                 />
+                                {q.type === "image_choice" && (
+                                  <input
+                                    type="url"
+                                    value={normalizedOpt.imageUrl || ""}
+                                    onChange={(e) => {
+                                      const newQuestions = [...questions];
+                                      const currentOptions = [...(newQuestions[index].options || [])];
+                                      const current = typeof currentOptions[optIndex] === "object"
+                                        ? currentOptions[optIndex]
+                                        : { value: currentOptions[optIndex], label: currentOptions[optIndex] };
+                                      currentOptions[optIndex] = { ...current, imageUrl: e.target.value };
+                                      newQuestions[index] = { ...newQuestions[index], options: currentOptions };
+                                      updateQuestions(newQuestions);
+                                    }}
+                                    placeholder="Image or swatch URL"
+                                    style={{
+                                      flex: 2,
+                                      padding: "0.5rem",
+                                      border: "1px solid #ccc",
+                                      borderRadius: "4px",
+                                    }}
+                                  />
+                                )}
                                 <button
                                   type="button"
                                   onClick={() => {
@@ -909,6 +1004,9 @@ export default function EditExperience() {
                           </button>
                         </div>
                       )}
+
+                      <QuestionTypeFields questions={questions} index={index} onChange={updateQuestions} />
+                      <QuestionLogicFields questions={questions} index={index} onChange={updateQuestions} />
                     </div>
                   ))
                 )}
@@ -916,7 +1014,7 @@ export default function EditExperience() {
                 <button
                   type="button"
                   onClick={() => {
-                    const newQuestions = [...questions, { type: "text", question: "" }];
+                    const newQuestions = [...questions, { id: newQuestionId(questions), type: "text", question: "" }];
                     updateQuestions(newQuestions);
                   }}
                   style={{
@@ -939,6 +1037,37 @@ export default function EditExperience() {
               <input type="hidden" name="questionsJson" value={form.questionsJson} />
             </div>
 
+            <div>
+              <span style={{ display: "block", marginBottom: "0.5rem", fontWeight: "500" }}>
+                Merchandising Rules
+              </span>
+              <div style={{ fontSize: "0.875rem", color: "rgba(11,11,15,0.62)", marginBottom: "0.5rem" }}>
+                Pin, boost, bury or exclude products after the AI ranks results. Rules without request conditions apply to every search.
+              </div>
+              {errors.merchandisingRulesJson && (
+                <div style={{ color: "#DC2626", fontSize: "0.875rem", marginBottom: "0.5rem" }}>
+                  {errors.merchandisingRulesJson}
+                </div>
+              )}
+              <div style={{
+                border: "1px solid rgba(11,11,15,0.12)",
+                borderRadius: "12px",
+                padding: "1rem",
+                backgroundColor: "#FFFFFF",
+              }}>
+                <MerchandisingRulesEditor
+                  rules={merchandisingRules}
+                  onChange={(rules) => {
+                    setMerchandisingRules(rules);
+                    if (errors.merchandisingRulesJson) {
+                      setErrors((prev) => ({ ...prev, merchandisingRulesJson: undefined }));
+                    }
+                  }}
+                />
+              </div>
+              <input type="hidden" name="merchandisingRulesJson" value={JSON.stringify(merchandisingRules)} />
+            </div>
+
           </s-stack>
         </s-section>
 
@@ -0,0 +1,333 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { useEffect, useState } from "react";
+import { authenticate } from "~/shopify.server";
+import prisma from "~/db.server";
+import { showToast } from "~/components/Toast";
+import {
+  discoverCatalogFacets,
+  getShopFacetMapping,
+  saveShopFacetMapping,
+  type CatalogFacetDiscovery,
+  type DiscoveredFacetSource,
+} from "~/models/facet-mapping.server";
+import type { FacetMappingConfig } from "~/utils/facets.server";
+
+type LoaderData = {
+  config: FacetMappingConfig;
+  discovery: CatalogFacetDiscovery;
+};
+
+type SourceKind = "option" | "tag" | "metafield";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const shop = await prisma.shop.findUnique({
+    where: { domain: session.shop },
+  });
+
+  if (!shop) {
+    throw new Response("Shop not found", { status: 404 });
+  }
+
+  const [config, discovery] = await Promise.all([getShopFacetMapping(shop.id), discoverCatalogFacets(shop.id)]);
+  const data: LoaderData = { config: config || {}, discovery };
+  return data;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const shop = await prisma.shop.findUnique({
+    where: { domain: session.shop },
+  });
+
+  if (!shop) {
+    return Response.json({ error: "Shop not found" }, { status: 404 });
+  }
+
+  const formData = await request.formData();
+  const actionType = formData.get("actionType") as string;
+
+  if (actionType === "save_mapping") {
+    try {
+      const config = await saveShopFacetMapping(shop.id, JSON.parse(String(formData.get("config") || "{}")));
+      return Response.json({ ok: true, config });
+    } catch (error) {
+      console.error("[Facet Mapping] Save failed:", error);
+      return Response.json({ error: "Failed to save facet mapping" });
+    }
+  }
+
+  return Response.json({ error: "Unknown action" }, { status: 400 });
+};
+
+const cardStyle = {
+  padding: "1rem 1.25rem",
+  backgroundColor: "#FFFFFF",
+  border: "1px solid rgba(11,11,15,0.12)",
+  borderRadius: "12px",
+  marginBottom: "1.5rem",
+  boxShadow: "0 2px 8px rgba(124, 58, 237, 0.1)",
+};
+const mutedStyle = { color: "rgba(11,11,15,0.62)", fontSize: "0.875rem" };
+const cellStyle = { borderBottom: "1px solid rgba(11,11,15,0.08)", padding: "0.5rem 0.75rem", textAlign: "left" as const };
+const inputStyle = { padding: "0.5rem 0.75rem", border: "1px solid rgba(11,11,15,0.12)", borderRadius: "8px", fontSize: "0.875rem" };
+const primaryButtonStyle = {
+  padding: "0.5rem 1rem",
+  background: "#7C3AED",
+  color: "#FFFFFF",
+  border: "none",
+  borderRadius: "8px",
+  fontWeight: "500",
+  cursor: "pointer",
+};
+
+// Select values: "" = default for the kind (options keep their own name; tags / metafields are ignored), "__self" = own name
+const SELF = "__self";
+
+/**
+ * Current selection per source, derived from the saved config
+ */
+function initialSelections(config: FacetMappingConfig): Record<string, string> {
+  const aliases = config.preferredOptionNameAliases || {};
+  const selections: Record<string, string> = {};
+  for (const [source, facet] of Object.entries(aliases)) selections[`option:${source}`] = facet;
+  for (const prefix of config.tagPrefixes || []) selections[`tag:${prefix}`] = aliases[prefix] || SELF;
+  for (const key of config.metafieldKeysForConstraints || []) selections[`metafield:${key}`] = aliases[key] || SELF;
+  return selections;
+}
+
+/**
+ * Discovered sources plus configured ones the latest scan no longer found
+ */
+function withConfiguredSources(discovered: DiscoveredFacetSource[], configured: string[]): DiscoveredFacetSource[] {
+  const seen = new Set(discovered.map((d) => d.source));
+  return [...discovered, ...configured.filter((s) => !seen.has(s)).map((source) => ({ source, productCount: 0, sampleValues: [] }))];
+}
+
+function buildConfig(
+  selections: Record<string, string>,
+  customFacets: string[],
+  tagPrefixesEnabled: boolean
+): FacetMappingConfig {
+  const aliases: Record<string, string> = {};
+  const tagPrefixes: string[] = [];
+  const metafieldKeys: string[] = [];
+
+  for (const [id, facet] of Object.entries(selections)) {
+    if (!facet) continue;
+    const [kind, ...rest] = id.split(":");
+    const source = rest.join(":");
+    if (kind === "tag") tagPrefixes.push(source);
+    if (kind === "metafield") metafieldKeys.push(source);
+    if (facet !== SELF && facet !== source) aliases[source] = facet;
+  }
+
+  return {
+    preferredOptionNameAliases: aliases,
+    tagPrefixes,
+    metafieldKeysForConstraints: metafieldKeys,
+    customFacets,
+    ...(tagPrefixesEnabled ? {} : { tagPrefixesEnabled: false }),
+  };
+}
+
+function SourceTable({
+  kind,
+  title,
+  hint,
+  rows,
+  facets,
+  selections,
+  onChange,
+}: {
+  kind: SourceKind;
+  title: string;
+  hint: string;
+  rows: DiscoveredFacetSource[];
+  facets: string[];
+  selections: Record<string, string>;
+  onChange: (id: string, facet: string) => void;
+}) {
+  return (
+    <div style={cardStyle}>
+      <h2 style={{ marginTop: 0, color: "#0B0B0F" }}>{title}</h2>
+      <p style={{ ...mutedStyle, marginTop: 0 }}>{hint}</p>
+      {rows.length === 0 ? (
+        <div style={mutedStyle}>Nothing found in your catalog</div>
+      ) : (
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr style={{ backgroundColor: "#F9FAFB" }}>
+              <th style={cellStyle}>Found in catalog</th>
+              <th style={cellStyle}>Example values</th>
+              <th style={{ ...cellStyle, textAlign: "right" }}>Products</th>
+              <th style={cellStyle}>Facet</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const id = `${kind}:${row.source}`;
+              return (
+                <tr key={id}>
+                  <td style={{ ...cellStyle, fontWeight: 500 }}>{row.source}</td>
+                  <td style={{ ...cellStyle, ...mutedStyle }}>{row.sampleValues.join(", ") || "—"}</td>
+                  <td style={{ ...cellStyle, textAlign: "right" }}>{row.productCount}</td>
+                  <td style={cellStyle}>
+                    <select value={selections[id] || ""} onChange={(e) => onChange(id, e.target.value)} style={inputStyle}>
+                      <option value="">{kind === "option" ? `As is (${row.source})` : "Not used"}</option>
+                      {kind !== "option" && <option value={SELF}>As is ({row.source})</option>}
+                      {facets.filter((f) => f !== row.source).map((facet) => (
+                        <option key={facet} value={facet}>
+                          {facet}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function FacetMappingPage() {
+  const { config, discovery } = useLoaderData<LoaderData>();
+  const fetcher = useFetcher<{ ok?: boolean; error?: string }>();
+  const isSaving = fetcher.state !== "idle";
+
+  const [selections, setSelections] = useState<Record<string, string>>(() => initialSelections(config));
+  const [customFacets, setCustomFacets] = useState<string[]>(config.customFacets || []);
+  const [tagPrefixesEnabled, setTagPrefixesEnabled] = useState(config.tagPrefixesEnabled !== false);
+  const [newFacet, setNewFacet] = useState("");
+
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data) return;
+    if (fetcher.data.error) showToast(fetcher.data.error, "error");
+    else if (fetcher.data.ok) showToast("Facet mapping saved", "success");
+  }, [fetcher.state, fetcher.data]);
+
+  const facets = ["size", "color", "material", ...customFacets];
+  const handleChange = (id: string, facet: string) => setSelections((prev) => ({ ...prev, [id]: facet }));
+  const handleAddFacet = () => {
+    const name = newFacet.toLowerCase().trim().replace(/\s+/g, " ");
+    if (name && !facets.includes(name)) setCustomFacets((prev) => [...prev, name]);
+    setNewFacet("");
+  };
+  const handleRemoveFacet = (name: string) => {
+    setCustomFacets((prev) => prev.filter((f) => f !== name));
+    // Sources mapped to the removed facet go back to their default
+    setSelections((prev) => Object.fromEntries(Object.entries(prev).map(([id, facet]) => [id, facet === name ? "" : facet])));
+  };
+  const handleSave = () => {
+    const next = buildConfig(selections, customFacets, tagPrefixesEnabled);
+    fetcher.submit({ actionType: "save_mapping", config: JSON.stringify(next) }, { method: "post" });
+  };
+
+  return (
+    <s-page heading="Facet mapping">
+      <s-section>
+        <div style={{ maxWidth: "1200px", margin: "0 auto" }}>
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", gap: "1rem", marginBottom: "1.5rem" }}>
+            <p style={{ ...mutedStyle, margin: 0, maxWidth: "720px" }}>
+              Tell EditMuse which product options, tags and metafields describe things shoppers filter by. When a shopper
+              asks for a size, color, material or one of your own facets, only products matching it through these
+              sources are recommended. Scanned {discovery.productsScanned} products from your catalog.
+            </p>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              style={{ ...primaryButtonStyle, opacity: isSaving ? 0.6 : 1, cursor: isSaving ? "not-allowed" : "pointer" }}
+            >
+              {isSaving ? "Saving..." : "Save mapping"}
+            </button>
+          </div>
+
+          <div style={cardStyle}>
+            <h2 style={{ marginTop: 0, color: "#0B0B0F" }}>Custom facets</h2>
+            <p style={{ ...mutedStyle, marginTop: 0 }}>
+              Size, color and material are built in. Add facets specific to your store, such as &quot;fit&quot; or
+              &quot;scent family&quot;.
+            </p>
+            <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem", marginBottom: "0.75rem" }}>
+              {customFacets.length === 0 && <span style={mutedStyle}>No custom facets yet</span>}
+              {customFacets.map((facet) => (
+                <span
+                  key={facet}
+                  style={{ background: "#EDE9FE", color: "#5B21B6", borderRadius: "8px", padding: "0.25rem 0.625rem", fontSize: "0.875rem" }}
+                >
+                  {facet}{" "}
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveFacet(facet)}
+                    style={{ background: "none", border: "none", color: "#5B21B6", cursor: "pointer", padding: 0 }}
+                    aria-label={`Remove ${facet}`}
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+            <div style={{ display: "flex", gap: "0.5rem" }}>
+              <input
+                value={newFacet}
+                onChange={(e) => setNewFacet(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleAddFacet();
+                  }
+                }}
+                placeholder="e.g. fit"
+                style={inputStyle}
+              />
+              <button type="button" onClick={handleAddFacet} style={primaryButtonStyle}>
+                Add facet
+              </button>
+            </div>
+          </div>
+
+          <SourceTable
+            kind="option"
+            title="Product options"
+            hint="Variant options are always used. Map differently named options to the same facet (e.g. Shade → color)."
+            rows={withConfiguredSources(discovery.optionNames, Object.keys(config.preferredOptionNameAliases || {}).filter((s) => selections[`option:${s}`]))}
+            facets={facets}
+            selections={selections}
+            onChange={handleChange}
+          />
+
+          <SourceTable
+            kind="tag"
+            title="Tag prefixes"
+            hint='Tags like "fit-slim" or "scent:woody". Only prefixes you map are read as facets.'
+            rows={withConfiguredSources(discovery.tagPrefixes, config.tagPrefixes || [])}
+            facets={facets}
+            selections={selections}
+            onChange={handleChange}
+          />
+          <label style={{ display: "flex", gap: "0.5rem", alignItems: "center", margin: "-0.75rem 0 1.5rem 0", ...mutedStyle }}>
+            <input type="checkbox" checked={tagPrefixesEnabled} onChange={(e) => setTagPrefixesEnabled(e.target.checked)} />
+            Read facets from tags (turn off if your tags are not reliable)
+          </label>
+
+          <SourceTable
+            kind="metafield"
+            title="Metafields"
+            hint="Product metafields whose values are facet values (list metafields are supported)."
+            rows={withConfiguredSources(discovery.metafieldKeys, config.metafieldKeysForConstraints || [])}
+            facets={facets}
+            selections={selections}
+            onChange={handleChange}
+          />
+        </div>
+      </s-section>
+    </s-page>
+  );
+}
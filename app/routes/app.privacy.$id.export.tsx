@@ -0,0 +1,23 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "~/shopify.server";
+import { getGdprExport } from "~/models/gdpr.server";
+
+/**
+ * Downloads the JSON bundle of a customers/data_request (linked from Diagnostics > Privacy Requests)
+ */
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const gdprRequest = await getGdprExport(session.shop, params.id || "");
+  if (!gdprRequest) {
+    throw new Response("Export not found", { status: 404 });
+  }
+
+  const customer = gdprRequest.customerId || "unknown";
+  return new Response(JSON.stringify(gdprRequest.exportJson, null, 2), {
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="editmuse-data-request-${customer}-${gdprRequest.createdAt.toISOString().slice(0, 10)}.json"`,
+    },
+  });
+};
@@ -0,0 +1,320 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { useEffect, useState } from "react";
+import { authenticate } from "~/shopify.server";
+import prisma from "~/db.server";
+import { showToast } from "~/components/Toast";
+import {
+  addVocabularyRule,
+  deleteVocabularyRule,
+  getVocabularyOverview,
+  setSynonymStatus,
+  type CachedExpansionRow,
+  type SynonymStatus,
+} from "~/models/search-vocabulary.server";
+
+type RuleRow = { id: string; term: string; value: string; status: string };
+
+type LoaderData = {
+  expansions: CachedExpansionRow[];
+  merchantSynonyms: RuleRow[];
+  rewrites: RuleRow[];
+  blocks: RuleRow[];
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const shop = await prisma.shop.findUnique({
+    where: { domain: session.shop },
+  });
+
+  if (!shop) {
+    throw new Response("Shop not found", { status: 404 });
+  }
+
+  const overview = await getVocabularyOverview(shop.id);
+  const toRow = (r: RuleRow): RuleRow => ({ id: r.id, term: r.term, value: r.value, status: r.status });
+  const data: LoaderData = {
+    expansions: overview.expansions,
+    merchantSynonyms: overview.merchantSynonyms.map(toRow),
+    rewrites: overview.rewrites.map(toRow),
+    blocks: overview.blocks.map(toRow),
+  };
+  return data;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const shop = await prisma.shop.findUnique({
+    where: { domain: session.shop },
+  });
+
+  if (!shop) {
+    return Response.json({ error: "Shop not found" }, { status: 404 });
+  }
+
+  const formData = await request.formData();
+  const actionType = formData.get("actionType") as string;
+  const term = String(formData.get("term") || "");
+  const value = String(formData.get("value") || "");
+
+  try {
+    if (actionType === "set_synonym_status") {
+      await setSynonymStatus(shop.id, term, value, String(formData.get("status") || "") as SynonymStatus | "pending");
+      return Response.json({ ok: true, message: "Synonym updated" });
+    }
+    if (actionType === "add_synonym") {
+      await setSynonymStatus(shop.id, term, value, String(formData.get("status") || "pinned") as SynonymStatus, "merchant");
+      return Response.json({ ok: true, message: "Synonym added" });
+    }
+    if (actionType === "add_rewrite" || actionType === "add_block") {
+      await addVocabularyRule(shop.id, actionType === "add_rewrite" ? "rewrite" : "block", term, value);
+      return Response.json({ ok: true, message: actionType === "add_rewrite" ? "Rewrite added" : "Expansion blocked" });
+    }
+    if (actionType === "delete_rule") {
+      await deleteVocabularyRule(shop.id, String(formData.get("ruleId") || ""));
+      return Response.json({ ok: true, message: "Rule removed" });
+    }
+  } catch (error) {
+    return Response.json({ error: error instanceof Error ? error.message : "Failed to update search vocabulary" });
+  }
+
+  return Response.json({ error: "Unknown action" }, { status: 400 });
+};
+
+const cardStyle = {
+  padding: "1rem 1.25rem",
+  backgroundColor: "#FFFFFF",
+  border: "1px solid rgba(11,11,15,0.12)",
+  borderRadius: "12px",
+  marginBottom: "1.5rem",
+  boxShadow: "0 2px 8px rgba(124, 58, 237, 0.1)",
+};
+const mutedStyle = { color: "rgba(11,11,15,0.62)", fontSize: "0.875rem" };
+const cellStyle = { borderBottom: "1px solid rgba(11,11,15,0.08)", padding: "0.5rem 0.75rem", textAlign: "left" as const };
+const inputStyle = { padding: "0.5rem 0.75rem", border: "1px solid rgba(11,11,15,0.12)", borderRadius: "8px", fontSize: "0.875rem" };
+const primaryButtonStyle = {
+  padding: "0.5rem 1rem",
+  background: "#7C3AED",
+  color: "#FFFFFF",
+  border: "none",
+  borderRadius: "8px",
+  fontWeight: "500",
+  cursor: "pointer",
+};
+const linkButtonStyle = { background: "none", border: "none", padding: 0, color: "#7C3AED", cursor: "pointer", fontSize: "0.8125rem" };
+
+const STATUS_COLORS: Record<SynonymStatus | "pending", { background: string; color: string }> = {
+  pending: { background: "#F3F4F6", color: "#0B0B0F" },
+  approved: { background: "#D1FAE5", color: "#065F46" },
+  pinned: { background: "#EDE9FE", color: "#5B21B6" },
+  rejected: { background: "#FEE2E2", color: "#991B1B" },
+};
+
+type SubmitFn = (fields: Record<string, string>) => void;
+
+function RuleForm({
+  label,
+  hint,
+  actionType,
+  valuePlaceholder,
+  submit,
+  busy,
+  withStatus,
+}: {
+  label: string;
+  hint: string;
+  actionType: string;
+  valuePlaceholder: string;
+  submit: SubmitFn;
+  busy: boolean;
+  withStatus?: boolean;
+}) {
+  const [term, setTerm] = useState("");
+  const [value, setValue] = useState("");
+  const [status, setStatus] = useState("pinned");
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit({ actionType, term, value, ...(withStatus ? { status } : {}) });
+        setTerm("");
+        setValue("");
+      }}
+      style={{ marginBottom: "1rem" }}
+    >
+      <div style={{ fontWeight: 500, marginBottom: "0.25rem" }}>{label}</div>
+      <div style={{ ...mutedStyle, marginBottom: "0.5rem" }}>{hint}</div>
+      <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap", alignItems: "center" }}>
+        <input value={term} onChange={(e) => setTerm(e.target.value)} placeholder="Search term" style={inputStyle} required />
+        <span style={mutedStyle}>→</span>
+        <input value={value} onChange={(e) => setValue(e.target.value)} placeholder={valuePlaceholder} style={inputStyle} required />
+        {withStatus && (
+          <select value={status} onChange={(e) => setStatus(e.target.value)} style={inputStyle}>
+            <option value="pinned">Pinned (always used)</option>
+            <option value="approved">Approved (with AI synonyms)</option>
+          </select>
+        )}
+        <button type="submit" disabled={busy} style={{ ...primaryButtonStyle, opacity: busy ? 0.6 : 1 }}>
+          Add
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function RuleTable({ rows, arrow, submit, busy }: { rows: RuleRow[]; arrow: string; submit: SubmitFn; busy: boolean }) {
+  if (rows.length === 0) return <div style={{ ...mutedStyle, marginBottom: "1rem" }}>None yet</div>;
+  return (
+    <table style={{ width: "100%", borderCollapse: "collapse", marginBottom: "1rem" }}>
+      <tbody>
+        {rows.map((rule) => (
+          <tr key={rule.id}>
+            <td style={cellStyle}>
+              {rule.term} {arrow} {rule.value}
+              {rule.status === "pinned" || rule.status === "approved" ? <span style={mutedStyle}> · {rule.status}</span> : null}
+            </td>
+            <td style={{ ...cellStyle, textAlign: "right" }}>
+              <button type="button" disabled={busy} onClick={() => submit({ actionType: "delete_rule", ruleId: rule.id })} style={linkButtonStyle}>
+                Remove
+              </button>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function SearchVocabularyPage() {
+  const { expansions, merchantSynonyms, rewrites, blocks } = useLoaderData<LoaderData>();
+  const fetcher = useFetcher<{ ok?: boolean; message?: string; error?: string }>();
+  const busy = fetcher.state !== "idle";
+  const submit: SubmitFn = (fields) => fetcher.submit(fields, { method: "post" });
+
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data) return;
+    if (fetcher.data.error) showToast(fetcher.data.error, "error");
+    else if (fetcher.data.message) showToast(fetcher.data.message, "success");
+  }, [fetcher.state, fetcher.data]);
+
+  return (
+    <s-page heading="Search vocabulary">
+      <s-section>
+        <div style={{ maxWidth: "1200px", margin: "0 auto" }}>
+          <p style={{ ...mutedStyle, marginTop: 0, marginBottom: "1.5rem" }}>
+            Control how shopper terms are expanded before products are matched. Your rules apply ahead of EditMuse&apos;s
+            built-in synonyms and translations, and to every experience in your store.
+          </p>
+
+          <div style={cardStyle}>
+            <h2 style={{ marginTop: 0, color: "#0B0B0F" }}>Rewrites</h2>
+            <RuleForm
+              label="Add a rewrite"
+              hint="One-way: searching the term also searches the target and its synonyms, but not the other way round."
+              actionType="add_rewrite"
+              valuePlaceholder="e.g. sneakers"
+              submit={submit}
+              busy={busy}
+            />
+            <RuleTable rows={rewrites} arrow="→" submit={submit} busy={busy} />
+
+            <h2 style={{ color: "#0B0B0F" }}>Blocked expansions</h2>
+            <RuleForm
+              label="Block an expansion"
+              hint="The value is never searched for this term, even if a built-in or AI synonym suggests it."
+              actionType="add_block"
+              valuePlaceholder="e.g. pumps"
+              submit={submit}
+              busy={busy}
+            />
+            <RuleTable rows={blocks} arrow="↛" submit={submit} busy={busy} />
+
+            <h2 style={{ color: "#0B0B0F" }}>Your synonyms</h2>
+            <RuleForm
+              label="Add a synonym"
+              hint="Pinned synonyms are always searched; approved ones are searched together with AI synonyms."
+              actionType="add_synonym"
+              valuePlaceholder="e.g. kicks"
+              submit={submit}
+              busy={busy}
+              withStatus
+            />
+            <RuleTable rows={merchantSynonyms} arrow="↔" submit={submit} busy={busy} />
+          </div>
+
+          <div style={cardStyle}>
+            <h2 style={{ marginTop: 0, color: "#0B0B0F" }}>AI-generated synonyms</h2>
+            <p style={{ ...mutedStyle, marginTop: 0 }}>
+              Synonyms the AI suggested for recent searches. Approve to keep them, pin to always use them, or reject to stop
+              them being searched.
+            </p>
+            {expansions.length === 0 ? (
+              <div style={mutedStyle}>No AI synonyms yet. They appear here after shoppers search.</div>
+            ) : (
+              <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                <thead>
+                  <tr style={{ backgroundColor: "#F9FAFB" }}>
+                    <th style={cellStyle}>Term</th>
+                    <th style={cellStyle}>Synonyms</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {expansions.map((row) => (
+                    <tr key={row.term}>
+                      <td style={{ ...cellStyle, verticalAlign: "top", fontWeight: 500 }}>
+                        {row.term}
+                        <div style={mutedStyle}>refreshes {new Date(row.expiresAt).toLocaleDateString()}</div>
+                      </td>
+                      <td style={cellStyle}>
+                        {row.synonyms.length === 0 && <span style={mutedStyle}>none</span>}
+                        <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem" }}>
+                          {row.synonyms.map((synonym) => (
+                            <div
+                              key={synonym.value}
+                              style={{
+                                ...STATUS_COLORS[synonym.status],
+                                borderRadius: "8px",
+                                padding: "0.375rem 0.625rem",
+                                fontSize: "0.875rem",
+                              }}
+                            >
+                              <div>
+                                {synonym.value}
+                                {synonym.status !== "pending" && <span style={{ opacity: 0.7 }}> · {synonym.status}</span>}
+                              </div>
+                              <div style={{ display: "flex", gap: "0.5rem", marginTop: "0.25rem" }}>
+                                {(["approved", "pinned", "rejected", "pending"] as const)
+                                  .filter((status) => status !== synonym.status)
+                                  .map((status) => (
+                                    <button
+                                      key={status}
+                                      type="button"
+                                      disabled={busy}
+                                      onClick={() =>
+                                        submit({ actionType: "set_synonym_status", term: row.term, value: synonym.value, status })
+                                      }
+                                      style={linkButtonStyle}
+                                    >
+                                      {{ approved: "Approve", pinned: "Pin", rejected: "Reject", pending: "Reset" }[status]}
+                                    </button>
+                                  ))}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </s-section>
+    </s-page>
+  );
+}
@@ -0,0 +1,340 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { Link, useLoaderData } from "react-router";
+import { authenticate } from "~/shopify.server";
+import prisma from "~/db.server";
+import { getSessionTrace, type RecommendationTraceData } from "~/models/recommendation-trace.server";
+import { parseProductExplanations, type ProductExplanations } from "~/utils/product-explanations.server";
+
+type LoaderData = {
+  session: {
+    id: string;
+    status: string;
+    queryRaw: string | null;
+    experienceName: string | null;
+    createdAt: string;
+    productHandles: string[];
+    reasoning: string | null;
+    productExplanations: ProductExplanations;
+    version: number;
+  };
+  refinements: Array<{
+    version: number;
+    instruction: string;
+    previousHandles: string[];
+    productHandles: string[];
+    createdAt: string;
+  }>;
+  trace: RecommendationTraceData | null;
+};
+
+function toHandles(raw: unknown): string[] {
+  return Array.isArray(raw) ? raw.filter((h): h is string => typeof h === "string") : [];
+}
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const shop = await prisma.shop.findUnique({
+    where: { domain: session.shop },
+  });
+
+  if (!shop) {
+    throw new Response("Shop not found", { status: 404 });
+  }
+
+  const found = await getSessionTrace(shop.id, params.id || "");
+  if (!found) {
+    throw new Response("Session not found", { status: 404 });
+  }
+
+  const data: LoaderData = {
+    session: {
+      id: found.session.id,
+      status: found.session.status,
+      queryRaw: found.session.queryRaw,
+      experienceName: found.session.experience?.name || null,
+      createdAt: found.session.createdAt.toISOString(),
+      productHandles: toHandles(found.session.result?.productHandles),
+      reasoning: found.session.result?.reasoning || null,
+      productExplanations: parseProductExplanations(found.session.result?.productExplanations),
+      version: found.session.result?.version ?? 1,
+    },
+    refinements: found.session.refinements.map((r) => ({
+      version: r.version,
+      instruction: r.instruction,
+      previousHandles: toHandles(r.previousHandles),
+      productHandles: toHandles(r.productHandles),
+      createdAt: r.createdAt.toISOString(),
+    })),
+    trace: found.trace,
+  };
+  return data;
+};
+
+const cardStyle = {
+  padding: "1rem 1.25rem",
+  backgroundColor: "#FFFFFF",
+  border: "1px solid rgba(11,11,15,0.12)",
+  borderRadius: "12px",
+  marginBottom: "1.5rem",
+  boxShadow: "0 2px 8px rgba(124, 58, 237, 0.1)",
+};
+const mutedStyle = { color: "rgba(11,11,15,0.62)", fontSize: "0.875rem" };
+const cellStyle = { borderBottom: "1px solid rgba(11,11,15,0.08)", padding: "0.5rem 0.75rem", textAlign: "left" as const };
+
+function TermList({ label, terms }: { label: string; terms: string[] }) {
+  return (
+    <div style={{ marginBottom: "0.5rem" }}>
+      <span style={mutedStyle}>{label}: </span>
+      {terms.length === 0 ? <span style={mutedStyle}>none</span> : terms.join(", ")}
+    </div>
+  );
+}
+
+function HandleList({ handles }: { handles: string[] }) {
+  if (handles.length === 0) return <span style={mutedStyle}>none</span>;
+  return <code style={{ fontSize: "0.8125rem", wordBreak: "break-word" }}>{handles.join(", ")}</code>;
+}
+
+export default function SessionTracePage() {
+  const { session, refinements, trace } = useLoaderData<LoaderData>();
+
+  return (
+    <s-page heading="Session trace">
+      <s-section>
+        <div style={{ maxWidth: "1200px", margin: "0 auto" }}>
+          <div style={{ marginBottom: "1.5rem" }}>
+            <Link to="/app/dashboard" style={{ color: "#7C3AED", fontSize: "0.875rem" }}>← Back to dashboard</Link>
+            <h1 style={{ margin: "0.5rem 0", color: "#0B0B0F" }}>{session.queryRaw || "Session"}</h1>
+            <p style={{ ...mutedStyle, margin: 0 }}>
+              {new Date(session.createdAt).toLocaleString()} · {session.status}
+              {session.experienceName ? ` · ${session.experienceName}` : ""}
+            </p>
+          </div>
+
+          <div style={cardStyle}>
+            <h2 style={{ marginTop: 0, color: "#0B0B0F" }}>Result{session.version > 1 ? ` (version ${session.version})` : ""}</h2>
+            <HandleList handles={session.productHandles} />
+            {session.reasoning && <p style={{ ...mutedStyle, marginBottom: 0 }}>{session.reasoning}</p>}
+            {Object.keys(session.productExplanations).length > 0 && (
+              <table style={{ width: "100%", borderCollapse: "collapse", marginTop: "0.75rem", fontSize: "0.875rem" }}>
+                <tbody>
+                  {session.productHandles.filter((h) => session.productExplanations[h]).map((handle) => (
+                    <tr key={handle}>
+                      <td style={cellStyle}><code>{handle}</code></td>
+                      <td style={cellStyle}>{session.productExplanations[handle]}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {refinements.length > 0 && (
+            <div style={cardStyle}>
+              <h2 style={{ marginTop: 0, color: "#0B0B0F" }}>Refinements</h2>
+              <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                <thead>
+                  <tr>
+                    <th style={cellStyle}>Version</th>
+                    <th style={cellStyle}>Shopper asked</th>
+                    <th style={cellStyle}>Before</th>
+                    <th style={cellStyle}>After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {refinements.map((r) => (
+                    <tr key={r.version}>
+                      <td style={cellStyle}>
+                        {r.version}
+                        <div style={mutedStyle}>{new Date(r.createdAt).toLocaleTimeString()}</div>
+                      </td>
+                      <td style={cellStyle}>{r.instruction}</td>
+                      <td style={cellStyle}><HandleList handles={r.previousHandles} /></td>
+                      <td style={cellStyle}><HandleList handles={r.productHandles} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {!trace ? (
+            <div style={cardStyle}>
+              <p style={{ margin: 0, ...mutedStyle }}>
+                No trace was recorded for this session (it may still be processing, or it ran before tracing was available).
+              </p>
+            </div>
+          ) : (
+            <>
+              <div style={cardStyle}>
+                <h2 style={{ marginTop: 0, color: "#0B0B0F" }}>Parsed intent</h2>
+                {trace.intent ? (
+                  <>
+                    <p style={{ marginTop: 0 }}>{trace.intent.userIntent}</p>
+                    <div style={{ ...mutedStyle, marginBottom: "0.5rem" }}>
+                      Parsed by {trace.intent.parsedBy === "llm" ? "AI" : "pattern matching"}
+                      {trace.intent.isBundle ? ` · bundle of ${trace.intent.bundleItems.length} items` : ""}
+                      {trace.intent.priceMin != null || trace.intent.priceMax != null
+                        ? ` · price ${trace.intent.priceMin ?? "any"}–${trace.intent.priceMax ?? "any"}`
+                        : ""}
+                    </div>
+                    <TermList label="Hard terms" terms={trace.intent.hardTerms} />
+                    <TermList label="Soft terms" terms={trace.intent.softTerms} />
+                    <TermList label="Avoid terms" terms={trace.intent.avoidTerms} />
+                    <TermList
+                      label="Hard facets"
+                      terms={Object.entries(trace.intent.hardFacets).filter(([, v]) => v).map(([k, v]) => `${k}=${v}`)}
+                    />
+                    <TermList
+                      label="Facets"
+                      terms={Object.entries(trace.intent.facets ?? {}).map(([k, v]) => `${k}=${v.join(" | ")}`)}
+                    />
+                  </>
+                ) : (
+                  <span style={mutedStyle}>Intent was not parsed.</span>
+                )}
+              </div>
+
+              <div style={cardStyle}>
+                <h2 style={{ marginTop: 0, color: "#0B0B0F" }}>Gating</h2>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr>
+                      <th style={cellStyle}>Step</th>
+                      <th style={{ ...cellStyle, textAlign: "right" }}>Candidates</th>
+                      <th style={cellStyle}>Note</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {trace.gating.map((g, idx) => (
+                      <tr key={idx}>
+                        <td style={cellStyle}>{g.step}</td>
+                        <td style={{ ...cellStyle, textAlign: "right" }}>{g.count}</td>
+                        <td style={cellStyle}>{g.note || ""}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {trace.facetCoverage && (
+                  <div style={{ marginTop: "1rem" }}>
+                    <h3 style={{ margin: "0 0 0.5rem 0", fontSize: "1rem" }}>Facet coverage</h3>
+                    <TermList
+                      label="Coverage"
+                      terms={Object.entries(trace.facetCoverage.coverage).map(([facet, c]) => `${facet} ${(c * 100).toFixed(0)}%`)}
+                    />
+                    <TermList label="Enforced" terms={trace.facetCoverage.enforced} />
+                    <TermList
+                      label="Relaxed (low coverage)"
+                      terms={trace.facetCoverage.degraded.map((d) => `${d.facet}=${d.value}`)}
+                    />
+                    <div style={mutedStyle}>
+                      {trace.facetCoverage.before ?? "?"} → {trace.facetCoverage.after ?? "?"} candidates after facet gating
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div style={cardStyle}>
+                <h2 style={{ marginTop: 0, color: "#0B0B0F" }}>AI ranking</h2>
+                <div style={{ marginBottom: "0.5rem" }}>
+                  <span style={mutedStyle}>Source: </span>
+                  {trace.source || "not called"}
+                  {trace.cacheHit ? " · served from cache" : ""}
+                  {trace.trustFallback ? " · alternatives allowed" : ""}
+                </div>
+                {trace.parseFailReason && (
+                  <div style={{ marginBottom: "0.5rem", color: "#B91C1C" }}>Failure reason: {trace.parseFailReason}</div>
+                )}
+                <div style={{ marginBottom: "0.25rem", ...mutedStyle }}>Candidates sent to AI ({trace.aiWindow.length})</div>
+                <HandleList handles={trace.aiWindow} />
+              </div>
+
+              {trace.merchandising && trace.merchandising.length > 0 && (
+                <div style={cardStyle}>
+                  <h2 style={{ marginTop: 0, color: "#0B0B0F" }}>Merchandising rules</h2>
+                  <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                    <thead>
+                      <tr>
+                        <th style={cellStyle}>Rule</th>
+                        <th style={cellStyle}>Action</th>
+                        <th style={cellStyle}>Products</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {trace.merchandising.map((effect) => (
+                        <tr key={effect.ruleId}>
+                          <td style={cellStyle}>{effect.name || effect.ruleId}</td>
+                          <td style={cellStyle}>{effect.action}</td>
+                          <td style={cellStyle}><HandleList handles={effect.handles} /></td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div style={cardStyle}>
+                <h2 style={{ marginTop: 0, color: "#0B0B0F" }}>Rejected candidates</h2>
+                {trace.rejected.length === 0 ? (
+                  <span style={mutedStyle}>Every candidate sent to the AI made the final result.</span>
+                ) : (
+                  <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                    <thead>
+                      <tr>
+                        <th style={cellStyle}>Product</th>
+                        <th style={cellStyle}>Why</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {trace.rejected.map((r) => (
+                        <tr key={r.handle}>
+                          <td style={cellStyle}>
+                            {r.title || r.handle}
+                            <div style={mutedStyle}>{r.handle}</div>
+                          </td>
+                          <td style={cellStyle}>{r.why}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              {trace.stages.length > 0 && (
+                <div style={cardStyle}>
+                  <h2 style={{ marginTop: 0, color: "#0B0B0F" }}>Pipeline stages</h2>
+                  <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                    <thead>
+                      <tr>
+                        <th style={cellStyle}>Stage</th>
+                        <th style={cellStyle}>Status</th>
+                        <th style={{ ...cellStyle, textAlign: "right" }}>ms</th>
+                        <th style={{ ...cellStyle, textAlign: "right" }}>In → out</th>
+                        <th style={cellStyle}>Added / removed</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {trace.stages.map((stage, idx) => (
+                        <tr key={idx}>
+                          <td style={cellStyle}>
+                            {stage.stage}
+                            {stage.note && <div style={mutedStyle}>{stage.note}</div>}
+                          </td>
+                          <td style={cellStyle}>{stage.status}{stage.error ? `: ${stage.error}` : ""}</td>
+                          <td style={{ ...cellStyle, textAlign: "right" }}>{stage.durationMs}</td>
+                          <td style={{ ...cellStyle, textAlign: "right" }}>{stage.inputCount} → {stage.outputCount}</td>
+                          <td style={cellStyle}>+{stage.addedCount} / −{stage.removedCount}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </s-section>
+    </s-page>
+  );
+}
@@ -21,6 +21,9 @@ export default function App() {
       <s-app-nav>
         <s-link href="/app/dashboard">Dashboard</s-link>
         <s-link href="/app/experiences">Experiences</s-link>
+        <s-link href="/app/search-vocabulary">Search vocabulary</s-link>
+        <s-link href="/app/facet-mapping">Facet mapping</s-link>
+        <s-link href="/app/currencies">Currencies</s-link>
         <s-link href="/app/usage">Usage</s-link>
         <s-link href="/app/billing">Billing</s-link>
         <s-link href="/app/diagnose">Diagnose</s-link>
@@ -6,6 +6,7 @@ import prisma from "~/db.server";
 import { UsageEventType } from "@prisma/client";
 import { getEntitlements } from "~/models/billing.server";
 import { PLAN_TIER } from "~/models/billing.server";
+import { getRankingCacheStats, type RankingCacheStats } from "~/models/ranking-cache.server";
 import { useAppBridge } from "@shopify/app-bridge-react";
 import { showToast } from "~/components/Toast";
 
@@ -29,6 +30,7 @@ type LoaderData = {
     dailyBurn: Array<{ date: string; credits: number }>;
     hourlyPeak: { hour: number; credits: number };
   };
+  rankingCache: RankingCacheStats;
 };
 
 function safeJson(s: string | null) {
@@ -160,6 +162,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     }
   }
 
+  const rankingCache = await getRankingCacheStats(shop.id, fromDate, toDate);
+
   const data: LoaderData = {
     from: fromDate.toISOString().slice(0, 10),
     to: toDate.toISOString().slice(0, 10),
@@ -180,6 +184,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       dailyBurn,
       hourlyPeak,
     },
+    rankingCache,
   };
 
   return data;
@@ -833,6 +838,19 @@ export default function UsagePage() {
               <div style={{ fontSize: "0.875rem", color: "rgba(11,11,15,0.62)", marginBottom: "0.25rem" }}>AI executions</div>
               <div style={{ fontSize: "1.5rem", fontWeight: "bold", color: "#0B0B0F" }}>{data.totals["AI_RANKING_EXECUTED"] || 0}</div>
             </div>
+            <div style={{
+              padding: "1rem",
+              backgroundColor: "#FFFFFF",
+              border: "1px solid rgba(11,11,15,0.12)",
+              borderRadius: "12px",
+              boxShadow: "0 2px 8px rgba(124, 58, 237, 0.1)"
+            }}>
+              <div style={{ fontSize: "0.875rem", color: "rgba(11,11,15,0.62)", marginBottom: "0.25rem" }}>AI cache hits</div>
+              <div style={{ fontSize: "1.5rem", fontWeight: "bold", color: "#0B0B0F" }}>{data.rankingCache.hits}</div>
+              <div style={{ fontSize: "0.75rem", color: "rgba(11,11,15,0.62)", marginTop: "0.25rem" }}>
+                {data.rankingCache.liveEntries} cached {data.rankingCache.liveEntries === 1 ? "search" : "searches"} · no credits used
+              </div>
+            </div>
           </div>
         </div>
 
@@ -1103,6 +1121,8 @@ export default function UsagePage() {
               <option value="RECOMMENDATION_CLICKED">Product Clicks</option>
               <option value="ADD_TO_CART_CLICKED">Add to Cart</option>
               <option value="CHECKOUT_STARTED">Checkout Started</option>
+              <option value="SIMILAR_PRODUCTS_REQUESTED">More Like This</option>
+              <option value="AI_RANKING_CACHE_HIT">AI Cache Hits</option>
             </select>
           </div>
           <div style={{ display: "flex", gap: "0.5rem", alignItems: "center", flex: "1", minWidth: "200px" }}>
@@ -3,6 +3,7 @@ import { validateAppProxySignature, getShopFromAppProxy } from "~/app-proxy.serv
 import prisma from "~/db.server";
 import { UsageEventType } from "@prisma/client";
 import { trackUsageEvent } from "~/models/billing.server";
+import { guardProxyRequest } from "~/utils/rate-limit.server";
 import { resolveSessionForAttribution, upsertAttributionAttempt } from "~/models/attribution.server";
 import { withProxyLogging } from "~/utils/proxy-logging.server";
 
@@ -28,6 +29,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     return Response.json({ error: "Missing shop" }, { status: 400 });
   }
 
+  const blocked = guardProxyRequest(request, "event", shopDomain);
+  if (blocked) {
+    return blocked;
+  }
+
   return withProxyLogging(
     async () => {
       const shop = await prisma.shop.findUnique({ where: { domain: shopDomain } });
@@ -83,6 +89,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
           const sessionIdFromMeta = clientMetadata.sessionId || metadata.conciergeSessionId || null;
           const cartToken = clientMetadata.cartToken || null;
           const checkoutToken = clientMetadata.checkoutToken || null;
+          const visitorId = typeof clientMetadata.visitorId === "string" ? clientMetadata.visitorId.slice(0, 64) : null;
 
           // Only proceed if we have at least cartToken or checkoutToken
           if (cartToken || checkoutToken) {
@@ -100,6 +107,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
                 sessionToken: resolvedSession.publicToken,
                 cartToken: cartToken || null,
                 checkoutToken: checkoutToken || null,
+                visitorId,
               });
             }
           }
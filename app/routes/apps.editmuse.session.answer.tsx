@@ -1,7 +1,10 @@
 import type { ActionFunctionArgs } from "react-router";
 import { validateAppProxySignature, getShopFromAppProxy } from "~/app-proxy.server";
-import { addConciergeMessage, getConciergeSessionByToken } from "~/models/concierge.server";
-import { ConciergeRole } from "@prisma/client";
+import { advanceQuizSession, getQuizSession, startQuizSession } from "~/models/quiz-session.server";
+import { QuizStateError } from "~/utils/quiz-engine.server";
+import { ConciergeSessionStatus } from "@prisma/client";
+import prisma from "~/db.server";
+import { guardProxyRequest } from "~/utils/rate-limit.server";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   console.log("[App Proxy] POST /apps/editmuse/session/answer");
@@ -33,6 +36,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   console.log("[App Proxy] Shop domain:", shopDomain);
 
+  const blocked = guardProxyRequest(request, "sessionMessage", shopDomain);
+  if (blocked) {
+    return blocked;
+  }
+
   // Parse JSON body
   let body;
   try {
@@ -42,45 +50,83 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     return Response.json({ error: "Invalid JSON body" }, { status: 400 });
   }
 
-  const { sessionId, answer } = body;
+  const { sessionId, answer, experienceId, clientRequestId } = body;
+  const actionType = body.action === "skip" || body.action === "back" ? body.action : "answer";
 
-  if (!sessionId || !answer) {
+  // No session yet: start a step-by-step quiz session and return the first question
+  if (!sessionId && experienceId) {
+    const shop = await prisma.shop.findUnique({ where: { domain: shopDomain } });
+    if (!shop) {
+      console.log("[App Proxy] Shop not found:", shopDomain);
+      return Response.json({ error: "Shop not found" }, { status: 404 });
+    }
+
+    const started = await startQuizSession({
+      shopId: shop.id,
+      experienceId,
+      clientRequestId: typeof clientRequestId === "string" ? clientRequestId.trim() : null,
+    });
+    if (!started) {
+      console.log("[App Proxy] Experience not found for shop:", experienceId);
+      return Response.json({ error: "Experience not found" }, { status: 404 });
+    }
+
+    console.log("[App Proxy] Quiz session started:", started.sessionToken, { step: started.step.step, total: started.step.total });
+    return Response.json({
+      ok: true,
+      sid: started.sessionToken,
+      sessionId: started.sessionToken,
+      ...started.step,
+    });
+  }
+
+  if (!sessionId || (actionType === "answer" && (answer === undefined || answer === null || answer === ""))) {
     console.log("[App Proxy] Missing sessionId or answer");
     return Response.json({ error: "Missing sessionId or answer" }, { status: 400 });
   }
 
   // Get session and verify shop
-  const session = await getConciergeSessionByToken(sessionId);
-  if (!session) {
+  const quiz = await getQuizSession(sessionId);
+  if (!quiz) {
     console.log("[App Proxy] Session not found:", sessionId);
     return Response.json({ error: "Session not found" }, { status: 404 });
   }
 
-  if (session.shop.domain !== shopDomain) {
+  if (quiz.session.shop.domain !== shopDomain) {
     console.log("[App Proxy] Shop mismatch");
     return Response.json({ error: "Session shop mismatch" }, { status: 403 });
   }
 
-  // Add message
+  if (quiz.session.status !== ConciergeSessionStatus.COLLECTING) {
+    console.log("[App Proxy] Session is no longer collecting answers:", quiz.session.status);
+    return Response.json({ error: "Session is no longer collecting answers" }, { status: 409 });
+  }
+
+  let step;
   try {
-    await addConciergeMessage({
+    step = await advanceQuizSession({
       sessionToken: sessionId,
-      role: ConciergeRole.USER,
-      text: answer,
-      imageUrl: null,
+      questions: quiz.questions,
+      state: quiz.state,
+      action: actionType === "answer" ? { type: "answer", value: answer } : { type: actionType },
     });
-    console.log("[App Proxy] Message added to session:", sessionId);
+    console.log("[App Proxy] Quiz step applied:", { sessionId, action: actionType, step: step.step, total: step.total, done: step.done });
   } catch (error) {
-    console.error("[App Proxy] Error adding message:", error);
+    if (error instanceof QuizStateError) {
+      console.log("[App Proxy] Quiz action rejected:", error.code);
+      return Response.json({ ok: false, error: error.message, errorCode: error.code }, { status: 400 });
+    }
+    console.error("[App Proxy] Error saving answer:", error);
     return Response.json({ error: "Failed to save answer" }, { status: 500 });
   }
 
-  // For MVP: After first answer, redirect to results
-  // In future, this could return nextQuestion for multi-step flow
+  if (!step.done) {
+    return Response.json({ ok: true, ...step });
+  }
+
   return Response.json({
     ok: true,
-    done: true,
+    ...step,
     redirectUrl: `/pages/editmuse-results?editmuse_session=${encodeURIComponent(sessionId)}`,
   });
 };
-
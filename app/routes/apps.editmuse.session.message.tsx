@@ -1,7 +1,11 @@
 import type { ActionFunctionArgs } from "react-router";
 import { validateAppProxySignature, getShopFromAppProxy } from "~/app-proxy.server";
-import { addConciergeMessage, getConciergeSessionByToken } from "~/models/concierge.server";
-import { ConciergeRole } from "@prisma/client";
+import { addConciergeMessage } from "~/models/concierge.server";
+import { advanceQuizSession, getQuizSession } from "~/models/quiz-session.server";
+import { QuizStateError } from "~/utils/quiz-engine.server";
+import { ConciergeRole, ConciergeSessionStatus } from "@prisma/client";
+import prisma from "~/db.server";
+import { guardProxyRequest } from "~/utils/rate-limit.server";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   console.log("[App Proxy] POST /apps/editmuse/session/message");
@@ -30,6 +34,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     return Response.json({ error: "Missing shop parameter" }, { status: 400 });
   }
 
+  const blocked = guardProxyRequest(request, "sessionMessage", shopDomain);
+  if (blocked) {
+    return blocked;
+  }
+
   // Parse JSON body
   let body;
   try {
@@ -38,24 +47,46 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     return Response.json({ error: "Invalid JSON body" }, { status: 400 });
   }
 
-  const { sessionId, message, step } = body;
+  // "step" from older clients is ignored - the quiz position is persisted on the session
+  const { sessionId, message } = body;
 
   if (!sessionId || !message) {
     return Response.json({ error: "Missing sessionId or message" }, { status: 400 });
   }
 
-  // Get session to check experience and mode
-  const session = await getConciergeSessionByToken(sessionId);
-  if (!session) {
+  const quiz = await getQuizSession(sessionId);
+  if (!quiz) {
     return Response.json({ error: "Session not found" }, { status: 404 });
   }
 
   // Verify shop matches
-  if (session.shop.domain !== shopDomain) {
+  if (quiz.session.shop.domain !== shopDomain) {
     return Response.json({ error: "Session shop mismatch" }, { status: 403 });
   }
 
-  // Add message using helper
+  if (quiz.session.status !== ConciergeSessionStatus.COLLECTING) {
+    return Response.json({ error: "Session is no longer collecting answers" }, { status: 409 });
+  }
+
+  // Quiz / hybrid: a message answers the current question
+  if (quiz.state.currentId) {
+    try {
+      const step = await advanceQuizSession({
+        sessionToken: sessionId,
+        questions: quiz.questions,
+        state: quiz.state,
+        action: { type: "answer", value: message },
+      });
+      return Response.json({ ok: true, ...step });
+    } catch (error) {
+      if (error instanceof QuizStateError) {
+        return Response.json({ ok: false, error: error.message, errorCode: error.code }, { status: 400 });
+      }
+      throw error;
+    }
+  }
+
+  // Chat (or quiz already answered): free-form messages
   try {
     await addConciergeMessage({
       sessionToken: sessionId,
@@ -70,40 +101,13 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     throw error;
   }
 
-  // Determine next question or completion based on experience flow mode
-  // For MVP: Use block's start_mode (passed as flowMode in start) or default to hybrid
-  // Quiz mode: 3 steps (step 0, 1, 2), then done
-  // Chat mode: After 1-2 messages, done
-  // Hybrid: Quiz then chat
-
-  const currentStep = step !== undefined ? Number(step) : 0;
-  const totalQuizSteps = 3;
-
-  // For quiz mode: return next question until complete
-  if (session.experience?.mode === "modal" || currentStep < totalQuizSteps - 1) {
-    // Quiz flow - return next question
-    const questions = [
-      "What are you looking for?",
-      "What's your budget range?",
-      "Any specific preferences?",
-    ];
-    
-    if (currentStep < questions.length - 1) {
-      return Response.json({
-        ok: true,
-        nextQuestion: questions[currentStep + 1],
-        step: currentStep + 1,
-        done: false,
-      });
-    }
-  }
-
-  // For chat/hybrid: after minimum info, return done
-  // Count user messages
-  const userMessages = session.messages.filter(m => m.role === ConciergeRole.USER);
+  // Quiz answered, or chat with enough context: done
+  const userMessageCount = await prisma.conciergeMessage.count({
+    where: { sessionId: quiz.session.id, role: ConciergeRole.USER },
+  });
   const minMessagesForChat = 2;
 
-  if (userMessages.length >= minMessagesForChat || currentStep >= totalQuizSteps - 1) {
+  if (quiz.questions.length > 0 || userMessageCount >= minMessagesForChat) {
     return Response.json({
       ok: true,
       done: true,
@@ -117,4 +121,3 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     done: false,
   });
 };
-
@@ -0,0 +1,6 @@
+import type { ActionFunctionArgs } from "react-router";
+
+export async function action(args: ActionFunctionArgs) {
+  const { proxySessionRefineAction } = await import("~/app-proxy-session-refine.server");
+  return proxySessionRefineAction(args.request, "/apps/editmuse/session/refine");
+}
@@ -2,6 +2,7 @@ import type { LoaderFunctionArgs } from "react-router";
 import { validateAppProxySignature, getShopFromAppProxy } from "~/app-proxy.server";
 import { getConciergeSessionByToken } from "~/models/concierge.server";
 import { fetchShopifyProducts } from "~/shopify-admin.server";
+import { parseProductExplanations } from "~/utils/product-explanations.server";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   console.log("[App Proxy] GET /apps/editmuse/session/results");
@@ -56,6 +57,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       ? session.result.productHandles
       : [];
 
+    const explanations = parseProductExplanations(session.result.productExplanations);
+
     console.log("[App Proxy] Returning saved results:", productHandles.length, "products");
 
     return Response.json({
@@ -65,6 +68,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         .filter((h): h is string => typeof h === "string")
         .map((handle: string) => ({
           handle,
+          explanation: explanations[handle] || null,
           // Note: Full product details would require additional API call
         })),
       mode: "saved",
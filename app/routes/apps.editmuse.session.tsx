@@ -8,6 +8,7 @@ import { getOrCreateRequestId } from "~/utils/request-id.server";
 import { ConciergeSessionStatus } from "@prisma/client";
 import { chargeConciergeSessionOnce } from "~/models/billing.server";
 import prisma from "~/db.server";
+import { parseProductExplanations } from "~/utils/product-explanations.server";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   console.log("[App Proxy] GET /apps/editmuse/session");
@@ -172,6 +173,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       console.log("[App Proxy] Found products:", savedProducts.map(p => p.handle));
 
       const map = new Map(savedProducts.map((p) => [p.handle, p]));
+      const explanations = parseProductExplanations(session.result.productExplanations);
       const ordered = savedHandles
         .map((h) => map.get(h))
         .filter((p): p is NonNullable<typeof p> => Boolean(p))
@@ -183,6 +185,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
           priceAmount: p.priceAmount || p.price,
           currencyCode: p.currencyCode || null,
           url: p.url,
+          explanation: explanations[p.handle] || null,
         }));
 
       return Response.json({
@@ -191,6 +194,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         status: "COMPLETE",
         products: ordered,
         reasoning: session.result.reasoning || null,
+        version: session.result.version,
+        refinable: session.result.refineContextJson !== null,
         warning: ordered.length === 0 ? "Saved results could not be loaded (products missing/unpublished)" : null,
         requestId,
       }, {
@@ -205,6 +210,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         status: "COMPLETE",
         products: [],
         reasoning: session.result.reasoning || null,
+        version: session.result.version,
+        refinable: session.result.refineContextJson !== null,
         warning: "Saved result exists but contains no product handles",
         requestId,
       }, {
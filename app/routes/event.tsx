@@ -3,6 +3,7 @@ import { validateAppProxySignature, getShopFromAppProxy } from "~/app-proxy.serv
 import prisma from "~/db.server";
 import { UsageEventType } from "@prisma/client";
 import { trackUsageEvent } from "~/models/billing.server";
+import { guardProxyRequest } from "~/utils/rate-limit.server";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   if (request.method !== "POST") {
@@ -26,6 +27,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     return Response.json({ error: "Missing shop" }, { status: 400 });
   }
 
+  const blocked = guardProxyRequest(request, "event", shopDomain);
+  if (blocked) {
+    return blocked;
+  }
+
   const shop = await prisma.shop.findUnique({ where: { domain: shopDomain } });
   if (!shop) {
     return Response.json({ error: "Shop not found" }, { status: 404 });
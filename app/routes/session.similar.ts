@@ -0,0 +1,6 @@
+import type { LoaderFunctionArgs } from "react-router";
+
+export async function loader(args: LoaderFunctionArgs) {
+  const { proxySessionSimilarLoader } = await import("~/app-proxy-session-similar.server");
+  return proxySessionSimilarLoader(args.request, "/session/similar");
+}
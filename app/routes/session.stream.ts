@@ -0,0 +1,6 @@
+import type { LoaderFunctionArgs } from "react-router";
+
+export async function loader(args: LoaderFunctionArgs) {
+  const { proxySessionStreamLoader } = await import("~/app-proxy-session-stream.server");
+  return proxySessionStreamLoader(args.request, "/session/stream");
+}
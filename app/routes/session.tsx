@@ -8,6 +8,7 @@ import {
 import { ConciergeSessionStatus } from "@prisma/client";
 import prisma from "~/db.server";
 import { computeCreditsBurned, creditsToX2, trackUsageEvent } from "~/models/billing.server";
+import { parseProductExplanations } from "~/utils/product-explanations.server";
 
 type UsageEventType = "SESSION_STARTED" | "AI_RANKING_EXECUTED";
 
@@ -290,6 +291,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       console.log("[App Proxy] Found products:", savedProducts.map(p => p.handle));
 
       const map = new Map(savedProducts.map((p) => [p.handle, p]));
+      const explanations = parseProductExplanations(session.result.productExplanations);
       const ordered = savedHandles
         .map((h) => map.get(h))
         .filter((p): p is NonNullable<typeof p> => Boolean(p))
@@ -301,6 +303,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
           priceAmount: p.priceAmount || p.price,
           currencyCode: p.currencyCode || null,
           url: p.url,
+          explanation: explanations[p.handle] || null,
         }));
 
       console.log("[App Proxy] Returning", ordered.length, "products (saved-by-handle)");
@@ -324,6 +327,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         deliveredCount,
         products: ordered,
         reasoning: session.result.reasoning || null,
+        version: session.result.version,
+        refinable: session.result.refineContextJson !== null,
         warning: ordered.length === 0 ? "Saved results could not be loaded (products missing/unpublished)" : null,
         mode: "saved",
       });
@@ -344,6 +349,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         deliveredCount,
         products: [],
         reasoning: session.result.reasoning || null,
+        version: session.result.version,
+        refinable: session.result.refineContextJson !== null,
         mode: "saved",
       });
     }
@@ -1,6 +1,7 @@
 import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "~/shopify.server";
 import db from "~/db.server";
+import { ORDER_ATTRIBUTION_SCOPE, disableOrderAttribution } from "~/models/attribution.server";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
     const { payload, session, topic, shop } = await authenticate.webhook(request);
@@ -17,5 +18,16 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             },
         });
     }
+
+    // Order attribution depends on the optional read_orders scope; turn it off when the scope is revoked
+    if (!current.includes(ORDER_ATTRIBUTION_SCOPE)) {
+        const shopRecord = await db.shop.findUnique({
+            where: { domain: shop },
+            select: { id: true, orderAttributionEnabled: true },
+        });
+        if (shopRecord?.orderAttributionEnabled) {
+            await disableOrderAttribution(null, shopRecord.id);
+        }
+    }
     return new Response();
 };
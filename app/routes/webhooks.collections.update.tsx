@@ -0,0 +1,20 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "~/shopify.server";
+import { getOfflineAccessTokenForShop } from "~/shopify-admin.server";
+import { upsertCatalogCollectionFromWebhook } from "~/models/catalog-index.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, topic, shop } = await authenticate.webhook(request);
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  try {
+    // Payload has no product membership; a token lets us re-read it from the Admin API
+    const accessToken = await getOfflineAccessTokenForShop(shop);
+    await upsertCatalogCollectionFromWebhook(shop, payload as Parameters<typeof upsertCatalogCollectionFromWebhook>[1], accessToken);
+  } catch (error) {
+    console.error("[Catalog Index] Failed to apply collection webhook", { shop, topic, error });
+    return new Response(null, { status: 500 });
+  }
+
+  return new Response();
+};
@@ -0,0 +1,17 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "~/shopify.server";
+import { handleGdprWebhook } from "~/models/gdpr.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, topic, shop, webhookId } = await authenticate.webhook(request);
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  try {
+    await handleGdprWebhook({ topic: "customers/redact", shopDomain: shop, payload, webhookId });
+  } catch (error) {
+    console.error("[GDPR] Failed to process customers/redact webhook", { shop, topic, error });
+    return new Response(null, { status: 500 });
+  }
+
+  return new Response();
+};
@@ -0,0 +1,22 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "~/shopify.server";
+import { recordOrderFromWebhook } from "~/models/attribution.server";
+
+/**
+ * Opt-in order attribution: this subscription is registered per shop (see enableOrderAttribution),
+ * never in shopify.app.toml, so shops that have not granted read_orders never send orders here.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, topic, shop } = await authenticate.webhook(request);
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  try {
+    const result = await recordOrderFromWebhook(shop, payload);
+    console.log("[Attribution] orders/create processed", { shop, ...result });
+  } catch (error) {
+    console.error("[Attribution] Failed to process orders/create webhook", { shop, topic, error });
+    return new Response(null, { status: 500 });
+  }
+
+  return new Response();
+};
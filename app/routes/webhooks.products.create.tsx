@@ -0,0 +1,18 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "~/shopify.server";
+import { upsertCatalogProductFromWebhook } from "~/models/catalog-index.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, topic, shop } = await authenticate.webhook(request);
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  try {
+    await upsertCatalogProductFromWebhook(shop, payload);
+  } catch (error) {
+    console.error("[Catalog Index] Failed to apply product webhook", { shop, topic, error });
+    // Non-2xx makes Shopify retry the delivery
+    return new Response(null, { status: 500 });
+  }
+
+  return new Response();
+};
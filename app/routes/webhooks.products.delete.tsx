@@ -0,0 +1,17 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "~/shopify.server";
+import { deleteCatalogProductFromWebhook } from "~/models/catalog-index.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, topic, shop } = await authenticate.webhook(request);
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  try {
+    await deleteCatalogProductFromWebhook(shop, payload as { id?: string | number } | null);
+  } catch (error) {
+    console.error("[Catalog Index] Failed to apply product delete webhook", { shop, topic, error });
+    return new Response(null, { status: 500 });
+  }
+
+  return new Response();
+};
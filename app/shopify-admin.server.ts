@@ -131,11 +131,13 @@ function parseMaterialTags(tags: string[]): string[] {
 }
 
 /**
- * Classify option name as size, color, or material
+ * Classify option name as a facet
+ * size, color and material keep their broad signals; any other named option is a facet of its own
+ * under its lowercased name (e.g. "Vintage", "Skin Type", "Storage Capacity")
  */
-function classifyOptionName(name: string | null): "size" | "color" | "material" | null {
+export function classifyOptionName(name: string | null): string | null {
   if (!name) return null;
-  const n = name.toLowerCase();
+  const n = name.toLowerCase().trim().replace(/\s+/g, " ");
 
   // Size signals
   if (/(size|sizes|sizing)/.test(n)) return "size";
@@ -146,7 +148,28 @@ function classifyOptionName(name: string | null): "size" | "color" | "material"
   // Material signals
   if (/(material|fabric|composition)/.test(n)) return "material";
 
-  return null;
+  // Shopify's single-variant placeholder and unnamed options are not facets
+  if (!n || n === "title" || /^option\s*\d+$/.test(n)) return null;
+
+  return n;
+}
+
+/**
+ * Group option values by facet (option name -> values map in, facet -> values map out)
+ */
+export function extractFacetValues(optionValues: Record<string, string[]>): Record<string, string[]> {
+  const grouped: Record<string, (string | null)[]> = {};
+  for (const [name, values] of Object.entries(optionValues)) {
+    const facet = classifyOptionName(normStr(name));
+    if (!facet || !Array.isArray(values)) continue;
+    (grouped[facet] ??= []).push(...values);
+  }
+  const facets: Record<string, string[]> = {};
+  for (const [facet, values] of Object.entries(grouped)) {
+    const unique = uniqLower(values);
+    if (unique.length > 0) facets[facet] = unique;
+  }
+  return facets;
 }
 
 /**
@@ -162,7 +185,7 @@ function extractVariantFacetValues(product: any): {
 
   // Map option position -> facet type (size/color/material) using product.options
   // Shopify REST: product.options = [{ name, position, values }]
-  const positionToFacet = new Map<number, "size" | "color" | "material">();
+  const positionToFacet = new Map<number, string>();
   for (const opt of options) {
     const facet = classifyOptionName(normStr(opt?.name));
     const pos = typeof opt?.position === "number" ? opt.position : null;
@@ -402,8 +425,12 @@ export async function fetchShopifyProducts({
   price: string | null;
   priceAmount: string | null;
   currencyCode: string | null;
+  url: string;
   tags: string[];
   available: boolean;
+  productType: string | null;
+  vendor: string | null;
+  description: string | null;
   status: string | null;
 }>> {
   // Try GraphQL first (primary)
@@ -534,6 +561,7 @@ export async function fetchShopifyProducts({
         sizes: facets.sizes,
         colors: facets.colors,
         materials: facets.materials,
+        facets: extractFacetValues(optionValues), // Every option facet (vintage, skin type, ...)
         // Preserve variants for downstream processing
         variants: variants,
       } as any;
@@ -555,6 +583,258 @@ export async function fetchShopifyProducts({
   }
 }
 
+type AdminMoney = { amount?: string | null; currencyCode?: string | null } | null;
+
+type AdminEdges<T> = { edges?: Array<{ node?: T | null } | null> | null } | null;
+
+/**
+ * Admin GraphQL product node fields read by mapGraphQLProductNode (live fetches and index rows)
+ */
+export type AdminProductNode = {
+  handle: string;
+  title: string;
+  featuredImage?: { url?: string | null } | null;
+  priceRange?: { minVariantPrice?: AdminMoney } | null;
+  priceRangeV2?: { minVariantPrice?: AdminMoney; maxVariantPrice?: AdminMoney } | null;
+  onlineStoreUrl?: string | null;
+  tags?: string[] | null;
+  totalInventory?: number | null;
+  productType?: string | null;
+  vendor?: string | null;
+  status?: string | null;
+  options?: Array<{ name: string; values: string[] }> | null;
+  variants?: AdminEdges<{
+    title?: string | null;
+    availableForSale?: boolean | null;
+    selectedOptions?: unknown[] | null;
+    inventoryPolicy?: string | null;
+  }>;
+  collections?: AdminEdges<{ title?: string | null; handle?: string | null }>;
+  metafields?: AdminEdges<{ namespace?: string | null; key?: string | null; value?: string | null; type?: string | null }>;
+  productCategory?: { productTaxonomyNode?: { fullName?: string | null } | null } | null;
+};
+
+/**
+ * Candidate shape produced from a GraphQL product node
+ */
+export type MappedShopifyProduct = {
+  handle: string;
+  title: string;
+  image: string | null;
+  price: string | null;
+  priceAmount: string | null;
+  currencyCode: string | null;
+  url: string;
+  tags: string[];
+  available: boolean;
+  productType: string | null;
+  vendor: string | null;
+  description: string | null;
+  status: string | null;
+  options: Array<{ name: string; values: string[] }>;
+  optionValues: Record<string, string[]>;
+  variants: Array<{ title: string | null; availableForSale: boolean; selectedOptions: Array<{ name: string; value: string }> }>;
+  collections: Array<{ title: string; handle: string }>;
+  metafields: Array<{ namespace: string; key: string; value: string | null; type: string }>;
+  categoryFullName: string | null;
+  sizes: string[];
+  colors: string[];
+  materials: string[];
+  facets: Record<string, string[]>;
+};
+
+function isSelectedOption(opt: unknown): opt is { name: string; value: string } {
+  if (!opt || typeof opt !== "object") return false;
+  const { name, value } = opt as { name?: unknown; value?: unknown };
+  return typeof name === "string" && name !== "" && typeof value === "string" && value !== "";
+}
+
+/**
+ * Maps a GraphQL product node to the candidate shape used by the recommendation pipeline
+ * Shared by live Admin API fetches and the local catalog index
+ */
+export function mapGraphQLProductNode(node: AdminProductNode): MappedShopifyProduct {
+  // Prefer priceRangeV2 (has both min and max), fallback to priceRange
+  const priceRangeV2 = node.priceRangeV2;
+  const priceRange = node.priceRange;
+  
+  // Extract min price (prefer V2, fallback to V1)
+  const minPriceData = priceRangeV2?.minVariantPrice || priceRange?.minVariantPrice;
+  const minRawAmount = minPriceData?.amount || null;
+  const currencyCode = minPriceData?.currencyCode || priceRangeV2?.maxVariantPrice?.currencyCode || priceRange?.minVariantPrice?.currencyCode || null;
+  
+  // Extract max price (only from V2)
+  const maxPriceData = priceRangeV2?.maxVariantPrice;
+  const maxRawAmount = maxPriceData?.amount || null;
+  
+  // Helper to convert price to major units
+  const convertToMajorUnits = (rawAmount: string | null): string | null => {
+    if (rawAmount === null) return null;
+    const numAmount = parseFloat(rawAmount);
+    if (isNaN(numAmount)) return null;
+    
+    // Heuristic: if amount > 10000, almost certainly in cents
+    // If amount between 1000-10000, check if dividing by 100 gives reasonable value (< 1000)
+    if (numAmount > 10000) {
+      return (numAmount / 100).toFixed(2);
+    } else if (numAmount > 1000) {
+      const majorUnits = numAmount / 100;
+      // If dividing by 100 gives a value < 1000, assume it's in cents
+      if (majorUnits < 1000 && majorUnits >= 1) {
+        return majorUnits.toFixed(2);
+      } else {
+        return numAmount.toString();
+      }
+    } else {
+      // Already in major units (or very small price)
+      return numAmount.toString();
+    }
+  };
+  
+  // Convert both min and max to major units
+  const priceMinAmount = convertToMajorUnits(minRawAmount);
+  const priceMaxAmount = convertToMajorUnits(maxRawAmount);
+  
+  // For backwards compatibility, use min as the single price
+  const priceAmount = priceMinAmount;
+  
+  // Extract variant data (title, selectedOptions, availableForSale)
+  const variants: Array<{
+    title: string | null;
+    availableForSale: boolean;
+    selectedOptions: Array<{ name: string; value: string }>;
+  }> = [];
+  if (Array.isArray(node.variants?.edges)) {
+    for (const edge of node.variants.edges) {
+      const variant = edge?.node;
+      if (variant) {
+        variants.push({
+          title: variant.title || null,
+          availableForSale: variant.availableForSale || false,
+          selectedOptions: Array.isArray(variant.selectedOptions) 
+            ? variant.selectedOptions.filter(isSelectedOption)
+            : [],
+        });
+      }
+    }
+  }
+  
+  // Extract optionValues using unified function (supports both REST and GraphQL shapes)
+  // Build a product-like object for extractOptionValues
+  const graphqlOptions = Array.isArray(node.options) ? node.options : [];
+  const productForExtraction = {
+    options: graphqlOptions,
+    variants: variants,
+  };
+  const optionValues = extractOptionValues(productForExtraction);
+  
+  // Extract collections (title and handle)
+  const collections: Array<{ title: string; handle: string }> = [];
+  if (Array.isArray(node.collections?.edges)) {
+    for (const edge of node.collections.edges) {
+      const coll = edge?.node;
+      if (coll?.title && coll?.handle) {
+        collections.push({
+          title: coll.title,
+          handle: coll.handle,
+        });
+      }
+    }
+  }
+  
+  // Extract metafields (namespace, key, value, type)
+  const metafields: Array<{ namespace: string; key: string; value: string | null; type: string }> = [];
+  if (Array.isArray(node.metafields?.edges)) {
+    for (const edge of node.metafields.edges) {
+      const mf = edge?.node;
+      if (mf?.namespace && mf?.key) {
+        metafields.push({
+          namespace: mf.namespace,
+          key: mf.key,
+          value: mf.value || null,
+          type: mf.type || "single_line_text_field",
+        });
+      }
+    }
+  }
+  
+  // Extract productCategory fullName (guarded - may not be available)
+  const categoryFullName: string | null = node.productCategory?.productTaxonomyNode?.fullName || null;
+  
+  // Build convenience arrays for sizes/colors/materials
+  // Start with option-based values (option names classified like the REST path: "Size", "Colour", "Shade", ...)
+  const optionFacets = extractFacetValues(optionValues);
+  const sizesFromOptions: string[] = optionFacets["size"] || [];
+  const colorsFromOptions: string[] = optionFacets["color"] || [];
+  const materialsFromOptions: string[] = optionFacets["material"] || [];
+  
+  // Parse from tags (cf-size-*, cf-material-*, cf-color-*)
+  const tags = Array.isArray(node.tags) ? node.tags : [];
+  const sizesFromTags = parseSizeTags(tags);
+  const materialsFromTags = parseMaterialTags(tags);
+  const colorsFromTags: string[] = [];
+  
+  // Parse color tags (cf-color-*)
+  for (const tag of tags) {
+      if (typeof tag === "string" && tag.startsWith("cf-color-")) {
+      const color = tag.replace("cf-color-", "").trim().toLowerCase();
+      if (color && !colorsFromTags.includes(color)) {
+        colorsFromTags.push(color);
+      }
+    }
+  }
+  
+  // Merge option-based and tag-based values, dedupe
+  const sizes = uniqLower([...sizesFromOptions, ...sizesFromTags]);
+  const colors = uniqLower([...colorsFromOptions, ...colorsFromTags]);
+  const materials = uniqLower([...materialsFromOptions, ...materialsFromTags]);
+  
+  // Improved availability heuristic using variants
+  let available = false;
+  const totalInventory = node.totalInventory ?? 0;
+  if (totalInventory > 0) {
+    available = true;
+  } else if (variants.length > 0) {
+    // Check if any variant is availableForSale or has inventoryPolicy = "CONTINUE"
+    available = variants.some(v => v.availableForSale) || 
+                variants.some(v => {
+                  // Check inventoryPolicy from original node data if available
+                  const variantNode = node.variants?.edges?.find((e) => e?.node?.title === v.title)?.node;
+                  return variantNode?.inventoryPolicy === "CONTINUE";
+                });
+  } else {
+    // No variants - default to false
+    available = false;
+  }
+  
+  return {
+    handle: node.handle,
+    title: node.title,
+    image: node.featuredImage?.url || null,
+    price: priceAmount, // Keep for backwards compatibility
+    priceAmount: priceAmount,
+    currencyCode: currencyCode,
+    url: node.onlineStoreUrl || `/products/${node.handle}`,
+    tags: node.tags || [],
+    available: available,
+    productType: node.productType || null,
+    vendor: node.vendor || null,
+    description: null, // Not fetched in initial query - fetched separately for AI candidates
+    status: node.status || null,
+    // Add option intelligence
+    options: graphqlOptions, // Full options array with name and values
+    optionValues: optionValues, // Map of option name -> values array
+    variants: variants, // Variants array with title, selectedOptions, availableForSale
+    collections: collections, // Collections array with title and handle
+    metafields: metafields, // Metafields array with namespace, key, value, type
+    categoryFullName: categoryFullName, // Product category full name if available
+    sizes: sizes,
+    colors: colors,
+    materials: materials,
+    facets: optionFacets, // Every option facet (vintage, skin type, storage capacity, ...)
+  };
+}
+
 /**
  * Fetches products from Shopify Admin GraphQL API
  * Supports collection filtering and returns tags for filtering
@@ -1025,191 +1305,13 @@ export async function fetchShopifyProductsGraphQL({
     hadMorePages: hasNextPage && products.length >= TARGET_COUNT,
   });
 
-  const mapped = products.map((node: any) => {
-    // Prefer priceRangeV2 (has both min and max), fallback to priceRange
-    const priceRangeV2 = node.priceRangeV2;
-    const priceRange = node.priceRange;
-    
-    // Extract min price (prefer V2, fallback to V1)
-    const minPriceData = priceRangeV2?.minVariantPrice || priceRange?.minVariantPrice;
-    const minRawAmount = minPriceData?.amount || null;
-    const currencyCode = minPriceData?.currencyCode || priceRangeV2?.maxVariantPrice?.currencyCode || priceRange?.minVariantPrice?.currencyCode || null;
-    
-    // Extract max price (only from V2)
-    const maxPriceData = priceRangeV2?.maxVariantPrice;
-    const maxRawAmount = maxPriceData?.amount || null;
-    
-    // Helper to convert price to major units
-    const convertToMajorUnits = (rawAmount: string | null): string | null => {
-      if (rawAmount === null) return null;
-      const numAmount = parseFloat(rawAmount);
-      if (isNaN(numAmount)) return null;
-      
-      // Heuristic: if amount > 10000, almost certainly in cents
-      // If amount between 1000-10000, check if dividing by 100 gives reasonable value (< 1000)
-      if (numAmount > 10000) {
-        return (numAmount / 100).toFixed(2);
-      } else if (numAmount > 1000) {
-        const majorUnits = numAmount / 100;
-        // If dividing by 100 gives a value < 1000, assume it's in cents
-        if (majorUnits < 1000 && majorUnits >= 1) {
-          return majorUnits.toFixed(2);
-        } else {
-          return numAmount.toString();
-        }
-      } else {
-        // Already in major units (or very small price)
-        return numAmount.toString();
-      }
-    };
-    
-    // Convert both min and max to major units
-    const priceMinAmount = convertToMajorUnits(minRawAmount);
-    const priceMaxAmount = convertToMajorUnits(maxRawAmount);
-    
-    // For backwards compatibility, use min as the single price
-    const priceAmount = priceMinAmount;
-    
-    // Extract variant data (title, selectedOptions, availableForSale)
-    const variants: Array<{
-      title: string | null;
-      availableForSale: boolean;
-      selectedOptions: Array<{ name: string; value: string }>;
-    }> = [];
-    if (Array.isArray(node.variants?.edges)) {
-      for (const edge of node.variants.edges) {
-        const variant = edge?.node;
-        if (variant) {
-          variants.push({
-            title: variant.title || null,
-            availableForSale: variant.availableForSale || false,
-            selectedOptions: Array.isArray(variant.selectedOptions) 
-              ? variant.selectedOptions.filter((opt: any) => opt?.name && opt?.value)
-              : [],
-          });
-        }
-      }
-    }
-    
-    // Extract optionValues using unified function (supports both REST and GraphQL shapes)
-    // Build a product-like object for extractOptionValues
-    const graphqlOptions = Array.isArray(node.options) ? node.options : [];
-    const productForExtraction = {
-      options: graphqlOptions,
-      variants: variants,
-    };
-    const optionValues = extractOptionValues(productForExtraction);
-    
-    // Extract collections (title and handle)
-    const collections: Array<{ title: string; handle: string }> = [];
-    if (Array.isArray(node.collections?.edges)) {
-      for (const edge of node.collections.edges) {
-        const coll = edge?.node;
-        if (coll?.title && coll?.handle) {
-          collections.push({
-            title: coll.title,
-            handle: coll.handle,
-          });
-        }
-      }
-    }
-    
-    // Extract metafields (namespace, key, value, type)
-    const metafields: Array<{ namespace: string; key: string; value: string | null; type: string }> = [];
-    if (Array.isArray(node.metafields?.edges)) {
-      for (const edge of node.metafields.edges) {
-        const mf = edge?.node;
-        if (mf?.namespace && mf?.key) {
-          metafields.push({
-            namespace: mf.namespace,
-            key: mf.key,
-            value: mf.value || null,
-            type: mf.type || "single_line_text_field",
-          });
-        }
-      }
-    }
-    
-    // Extract productCategory fullName (guarded - may not be available)
-    const categoryFullName: string | null = node.productCategory?.productTaxonomyNode?.fullName || null;
-    
-    // Build convenience arrays for sizes/colors/materials
-    // Start with option-based values
-    const sizesFromOptions: string[] = optionValues["size"] || [];
-    const colorsFromOptions: string[] = (optionValues["color"] || []).concat(optionValues["colour"] || []);
-    const materialsFromOptions: string[] = optionValues["material"] || [];
-    
-    // Parse from tags (cf-size-*, cf-material-*, cf-color-*)
-    const tags = Array.isArray(node.tags) ? node.tags : [];
-    const sizesFromTags = parseSizeTags(tags);
-    const materialsFromTags = parseMaterialTags(tags);
-    const colorsFromTags: string[] = [];
-    
-    // Parse color tags (cf-color-*)
-    for (const tag of tags) {
-        if (typeof tag === "string" && tag.startsWith("cf-color-")) {
-        const color = tag.replace("cf-color-", "").trim().toLowerCase();
-        if (color && !colorsFromTags.includes(color)) {
-          colorsFromTags.push(color);
-        }
-      }
-    }
-    
-    // Merge option-based and tag-based values, dedupe
-    const sizes = uniqLower([...sizesFromOptions, ...sizesFromTags]);
-    const colors = uniqLower([...colorsFromOptions, ...colorsFromTags]);
-    const materials = uniqLower([...materialsFromOptions, ...materialsFromTags]);
-    
-    // Improved availability heuristic using variants
-    let available = false;
-    const totalInventory = node.totalInventory ?? 0;
-    if (totalInventory > 0) {
-      available = true;
-    } else if (variants.length > 0) {
-      // Check if any variant is availableForSale or has inventoryPolicy = "CONTINUE"
-      available = variants.some(v => v.availableForSale) || 
-                  variants.some(v => {
-                    // Check inventoryPolicy from original node data if available
-                    const variantNode = node.variants?.edges?.find((e: any) => e?.node?.title === v.title)?.node;
-                    return variantNode?.inventoryPolicy === "CONTINUE";
-                  });
-    } else {
-      // No variants - default to false
-      available = false;
-    }
-    
-    return {
-      handle: node.handle,
-      title: node.title,
-      image: node.featuredImage?.url || null,
-      price: priceAmount, // Keep for backwards compatibility
-      priceAmount: priceAmount,
-      currencyCode: currencyCode,
-      url: node.onlineStoreUrl || `/products/${node.handle}`,
-      tags: node.tags || [],
-      available: available,
-      productType: node.productType || null,
-      vendor: node.vendor || null,
-      description: null, // Not fetched in initial query - fetched separately for AI candidates
-      status: node.status || null,
-      // Add option intelligence
-      options: graphqlOptions, // Full options array with name and values
-      optionValues: optionValues, // Map of option name -> values array
-      variants: variants, // Variants array with title, selectedOptions, availableForSale
-      collections: collections, // Collections array with title and handle
-      metafields: metafields, // Metafields array with namespace, key, value, type
-      categoryFullName: categoryFullName, // Product category full name if available
-      sizes: sizes,
-      colors: colors,
-      materials: materials,
-    } as any;
-  });
+  const mapped = products.map((node) => mapGraphQLProductNode(node));
   
   // Debug log for GraphQL mapping
-  const withOptions = mapped.filter(p => Object.keys((p as any).optionValues || {}).length > 0).length;
-  const sizeValues = mapped.reduce((sum, p) => sum + ((p as any).sizes?.length || 0), 0);
-  const colorValues = mapped.reduce((sum, p) => sum + ((p as any).colors?.length || 0), 0);
-  const materialValues = mapped.reduce((sum, p) => sum + ((p as any).materials?.length || 0), 0);
+  const withOptions = mapped.filter(p => Object.keys(p.optionValues).length > 0).length;
+  const sizeValues = mapped.reduce((sum, p) => sum + p.sizes.length, 0);
+  const colorValues = mapped.reduce((sum, p) => sum + p.colors.length, 0);
+  const materialValues = mapped.reduce((sum, p) => sum + p.materials.length, 0);
   const availableTrueCount = mapped.filter(p => p.available).length;
   
   console.log("[Shopify Fetch] GraphQL mapped", {
@@ -7,6 +7,7 @@ import {
 import { PrismaSessionStorage } from "@shopify/shopify-app-session-storage-prisma";
 import prisma from "./db.server";
 import { validateEnv } from "./env-validation.server";
+import { startCatalogImportIfNeeded } from "./models/catalog-index.server";
 
 // Validate environment on module load
 const env = validateEnv();
@@ -23,6 +24,14 @@ const shopify = shopifyApp({
   future: {
     expiringOfflineAccessTokens: true,
   },
+  hooks: {
+    afterAuth: async ({ session }) => {
+      // Build the local catalog index in the background on install (no-op once built)
+      startCatalogImportIfNeeded(session.shop, session.accessToken || "").catch((error) => {
+        console.error("[Catalog Index] Failed to schedule import:", error);
+      });
+    },
+  },
   ...(process.env.SHOP_CUSTOM_DOMAIN
     ? { customShopDomains: [process.env.SHOP_CUSTOM_DOMAIN] }
     : {}),
@@ -0,0 +1,215 @@
+/**
+ * Structured intent signals from quiz answers
+ * Maps typed answers (multi-select, image choice, range, yes/no, rank, ...) to
+ * price bounds, hard facets and hard / soft / avoid terms using each question's signal,
+ * instead of relying on the free-text parsers to rediscover them.
+ */
+
+import {
+  coerceQuizAnswer,
+  formatQuizAnswer,
+  pruneHiddenAnswers,
+  type QuizAnswerEntry,
+  type QuizAnswerValue,
+  type QuizQuestion,
+} from "~/utils/quiz-engine.server";
+
+export type AnswerIntentSignals = {
+  priceMin: number | null;
+  priceMax: number | null;
+  hardFacets: Record<string, string[]>; // facet name (lowercased) -> allowed values (OR)
+  hardTerms: string[];
+  softTerms: string[]; // Ranked answers come first, most important first
+  avoidTerms: string[];
+};
+
+export function emptyAnswerSignals(): AnswerIntentSignals {
+  return { priceMin: null, priceMax: null, hardFacets: {}, hardTerms: [], softTerms: [], avoidTerms: [] };
+}
+
+function isAnswerEntry(item: unknown): item is Partial<QuizAnswerEntry> & { questionId: string } {
+  return !!item && typeof item === "object" && typeof (item as Record<string, unknown>).questionId === "string";
+}
+
+type ResolvedAnswerItem = { index: number; entry: QuizAnswerEntry };
+
+function resolveAnswerItems(questions: QuizQuestion[], answers: unknown[]): ResolvedAnswerItem[] {
+  const resolved: ResolvedAnswerItem[] = [];
+  answers.forEach((item, index) => {
+    let question: QuizQuestion | undefined;
+    let raw: unknown;
+    if (isAnswerEntry(item)) {
+      question = questions.find((q) => q.id === item.questionId);
+      raw = item.value !== undefined ? item.value : item.answer;
+    } else {
+      question = questions[index];
+      raw = item;
+    }
+    if (!question || raw === undefined || raw === null) return;
+
+    const value = coerceQuizAnswer(question, raw);
+    if (value === null) return;
+    resolved.push({
+      index,
+      entry: {
+        questionId: question.id,
+        question: question.question,
+        type: question.type,
+        answer: formatQuizAnswer(question, value),
+        value,
+      },
+    });
+  });
+  return resolved;
+}
+
+/**
+ * Indexes of answersJson items that answer a question hidden by its showIf
+ * conditions (e.g. a gift-recipient question answered before switching to "Myself")
+ */
+function hiddenAnswerIndexes(questions: QuizQuestion[], resolved: ResolvedAnswerItem[]): Set<number> {
+  const answers: Record<string, QuizAnswerValue> = {};
+  for (const { entry } of resolved) answers[entry.questionId] = entry.value;
+  const visible = pruneHiddenAnswers(questions, answers);
+  return new Set(resolved.filter(({ entry }) => visible[entry.questionId] === undefined).map(({ index }) => index));
+}
+
+/**
+ * Resolves raw answersJson items to typed entries.
+ * Structured entries ({ questionId, answer, value }) are matched by id. Plain
+ * values from older widgets are matched by position; option answers that do
+ * not fit the question at that position are dropped rather than guessed.
+ * Answers to questions hidden by branching are dropped.
+ */
+export function resolveAnswerEntries(questions: QuizQuestion[], answers: unknown[]): QuizAnswerEntry[] {
+  const resolved = resolveAnswerItems(questions, answers);
+  const hidden = hiddenAnswerIndexes(questions, resolved);
+  return resolved.filter(({ index }) => !hidden.has(index)).map(({ entry }) => entry);
+}
+
+/**
+ * Removes answersJson items that answer a hidden question, so neither the stored
+ * answers nor the free-text parsers see them. Unmatched items (free text) are kept.
+ */
+export function dropHiddenAnswers(questions: QuizQuestion[], answers: unknown[]): unknown[] {
+  const hidden = hiddenAnswerIndexes(questions, resolveAnswerItems(questions, answers));
+  return hidden.size === 0 ? answers : answers.filter((_, index) => !hidden.has(index));
+}
+
+/**
+ * Text form of answersJson items for the free-text parts of the pipeline
+ * (budget regexes, intent text, bundle detection)
+ */
+export function flattenAnswersForPipeline(answers: unknown[]): string[] {
+  return answers
+    .map((item) => {
+      if (isAnswerEntry(item)) return typeof item.answer === "string" ? item.answer : "";
+      if (typeof item === "string") return item;
+      const answer = item && typeof item === "object" ? (item as Record<string, unknown>).answer : undefined;
+      if (typeof answer === "string") return answer;
+      return item === null || item === undefined ? "" : String(item);
+    })
+    .filter((text) => text.trim().length > 0);
+}
+
+function optionLabels(question: QuizQuestion, value: QuizAnswerValue): string[] {
+  if (typeof value === "object" && !Array.isArray(value)) return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .map((v) => (question.options || []).find((opt) => opt.value.toLowerCase() === v.toLowerCase())?.label ?? v)
+    .map((label) => label.trim())
+    .filter((label) => label.length > 0);
+}
+
+function pushUnique(list: string[], values: string[], prepend = false) {
+  const seen = new Set(list.map((v) => v.toLowerCase()));
+  const fresh = values.filter((v) => {
+    const key = v.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  if (prepend) list.unshift(...fresh);
+  else list.push(...fresh);
+}
+
+export function extractAnswerSignals(questions: QuizQuestion[], entries: QuizAnswerEntry[]): AnswerIntentSignals {
+  const signals = emptyAnswerSignals();
+
+  for (const entry of entries) {
+    const question = questions.find((q) => q.id === entry.questionId);
+    if (!question) continue;
+    const { signal } = question;
+    if (signal.kind === "none") continue;
+
+    if (signal.kind === "price") {
+      if (typeof entry.value === "object" && !Array.isArray(entry.value)) {
+        // Several price questions: keep the most restrictive bounds
+        if (entry.value.min !== null) signals.priceMin = Math.max(signals.priceMin ?? entry.value.min, entry.value.min);
+        if (entry.value.max !== null) signals.priceMax = Math.min(signals.priceMax ?? entry.value.max, entry.value.max);
+      }
+      continue;
+    }
+
+    // Yes / No applies the configured term on "yes" and nothing on "no"
+    let values: string[];
+    if (question.type === "yes_no") {
+      values = entry.value === "yes" && signal.term ? [signal.term] : [];
+    } else if (question.type === "text" && typeof entry.value === "string") {
+      values = [entry.value.trim()].filter(Boolean);
+    } else {
+      values = optionLabels(question, entry.value);
+    }
+    if (values.length === 0) continue;
+
+    switch (signal.kind) {
+      case "hard_facet": {
+        const facet = (signal.facet || "").toLowerCase();
+        if (!facet) break;
+        signals.hardFacets[facet] = signals.hardFacets[facet] || [];
+        pushUnique(signals.hardFacets[facet], values);
+        break;
+      }
+      case "hard_term":
+        pushUnique(signals.hardTerms, values);
+        break;
+      case "avoid_term":
+        pushUnique(signals.avoidTerms, values);
+        break;
+      case "soft_term":
+        pushUnique(signals.softTerms, values, question.type === "rank");
+        break;
+    }
+  }
+
+  if (signals.priceMin !== null && signals.priceMax !== null && signals.priceMin > signals.priceMax) {
+    // Conflicting price questions - drop the floor rather than return nothing
+    signals.priceMin = null;
+  }
+
+  return signals;
+}
+
+/**
+ * Merges answer-derived terms into parsed intent terms. Explicit answers win:
+ * a term the shopper asked to avoid is removed from hard / soft terms.
+ */
+export function applyAnswerSignalTerms(
+  terms: { hardTerms: string[]; softTerms: string[]; avoidTerms: string[] },
+  signals: AnswerIntentSignals
+): { hardTerms: string[]; softTerms: string[]; avoidTerms: string[] } {
+  const hardTerms = [...terms.hardTerms];
+  const softTerms = [...terms.softTerms];
+  const avoidTerms = [...terms.avoidTerms];
+
+  pushUnique(hardTerms, signals.hardTerms);
+  pushUnique(softTerms, signals.softTerms.filter((t) => !hardTerms.some((h) => h.toLowerCase() === t.toLowerCase())));
+  pushUnique(avoidTerms, signals.avoidTerms);
+
+  const avoided = new Set(signals.avoidTerms.map((t) => t.toLowerCase()));
+  return {
+    hardTerms: hardTerms.filter((t) => !avoided.has(t.toLowerCase())),
+    softTerms: softTerms.filter((t) => !avoided.has(t.toLowerCase())),
+    avoidTerms,
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for mapping typed quiz answers to intent signals
+ */
+
+import { describe, it, expect } from "vitest";
+import { normalizeQuizQuestions } from "./quiz-engine.server";
+import {
+  applyAnswerSignalTerms,
+  dropHiddenAnswers,
+  extractAnswerSignals,
+  flattenAnswersForPipeline,
+  resolveAnswerEntries,
+} from "./answer-signals.server";
+
+const questions = normalizeQuizQuestions([
+  {
+    type: "image_choice",
+    question: "Pick a colour",
+    multiple: true,
+    options: [
+      { value: "navy", label: "Navy", imageUrl: "https://cdn.example.com/navy.png" },
+      { value: "olive", label: "Olive", imageUrl: "https://cdn.example.com/olive.png" },
+    ],
+    signal: { kind: "hard_facet", facet: "Color" },
+  },
+  { type: "range", question: "Budget", min: 0, max: 500 },
+  { type: "yes_no", question: "Need it waterproof?", signal: { kind: "hard_term", term: "waterproof" } },
+  { type: "rank", question: "Priorities", options: ["Comfort", "Style", "Price"] },
+  { type: "multi_select", question: "Anything to avoid?", options: ["Wool", "Leather"], signal: { kind: "avoid_term" } },
+  { type: "text", question: "Anything else?", optional: true },
+]);
+
+describe("resolveAnswerEntries", () => {
+  it("matches structured entries by id and plain answers by position", () => {
+    const entries = resolveAnswerEntries(questions, [
+      "navy, olive",
+      { questionId: "q3", answer: "Yes", value: "yes" },
+      { questionId: "q2", answer: "under 200", value: { min: null, max: 200 } },
+    ]);
+    expect(entries.map((e) => e.questionId)).toEqual(["q1", "q3", "q2"]);
+    expect(entries[0].value).toEqual(["navy", "olive"]);
+    expect(entries[2].answer).toBe("under 200");
+  });
+
+  it("drops answers that do not fit the question", () => {
+    expect(resolveAnswerEntries(questions, ["purple"])).toEqual([]);
+  });
+});
+
+describe("hidden questions", () => {
+  const branching = normalizeQuizQuestions([
+    { id: "for", type: "select", question: "Who is it for?", options: ["Gift", "Myself"] },
+    {
+      id: "recipient",
+      type: "multi_select",
+      question: "Who is the gift for?",
+      options: ["Kids", "Adults"],
+      signal: { kind: "hard_term" },
+      showIf: { questionId: "for", equals: "Gift" },
+    },
+    {
+      id: "budget",
+      type: "range",
+      question: "Gift budget",
+      min: 0,
+      max: 500,
+      signal: { kind: "price" },
+      showIf: { questionId: "for", equals: "Gift" },
+    },
+  ]);
+  const answers = [
+    { questionId: "for", answer: "Myself", value: "Myself" },
+    { questionId: "recipient", answer: "Kids", value: ["Kids"] },
+    { questionId: "budget", answer: "under 100", value: { min: null, max: 100 } },
+  ];
+
+  it("produces no signals from answers to hidden questions", () => {
+    const entries = resolveAnswerEntries(branching, answers);
+    expect(entries.map((e) => e.questionId)).toEqual(["for"]);
+    const signals = extractAnswerSignals(branching, entries);
+    expect(signals.hardTerms).toEqual([]);
+    expect(signals.priceMax).toBeNull();
+  });
+
+  it("keeps answers to questions whose condition holds", () => {
+    const gift = [{ questionId: "for", answer: "Gift", value: "Gift" }, ...answers.slice(1)];
+    const entries = resolveAnswerEntries(branching, gift);
+    expect(entries.map((e) => e.questionId)).toEqual(["for", "recipient", "budget"]);
+    const signals = extractAnswerSignals(branching, entries);
+    expect(signals.hardTerms).toEqual(["Kids"]);
+    expect(signals.priceMax).toBe(100);
+  });
+
+  it("drops hidden items from raw answers but keeps unmatched free text", () => {
+    expect(dropHiddenAnswers(branching, [...answers, { questionId: "note", answer: "cosy" }])).toEqual([
+      answers[0],
+      { questionId: "note", answer: "cosy" },
+    ]);
+  });
+});
+
+describe("extractAnswerSignals", () => {
+  const entries = resolveAnswerEntries(questions, [
+    ["navy", "olive"],
+    { min: 50, max: 200 },
+    "yes",
+    ["Style", "Comfort"],
+    ["Wool"],
+    "something cosy",
+  ]);
+  const signals = extractAnswerSignals(questions, entries);
+
+  it("maps each type to its configured signal", () => {
+    expect(signals.hardFacets).toEqual({ color: ["Navy", "Olive"] });
+    expect(signals.priceMin).toBe(50);
+    expect(signals.priceMax).toBe(200);
+    expect(signals.hardTerms).toEqual(["waterproof"]);
+    expect(signals.softTerms).toEqual(["Style", "Comfort"]);
+    expect(signals.avoidTerms).toEqual(["Wool"]);
+  });
+
+  it("ignores a no answer and context-only text", () => {
+    const noEntries = resolveAnswerEntries(questions, [undefined, undefined, "no"]);
+    expect(extractAnswerSignals(questions, noEntries).hardTerms).toEqual([]);
+  });
+
+  it("merges into parsed terms with avoided terms taking precedence", () => {
+    const merged = applyAnswerSignalTerms({ hardTerms: ["boots"], softTerms: ["wool", "warm"], avoidTerms: [] }, signals);
+    expect(merged.hardTerms).toEqual(["boots", "waterproof"]);
+    expect(merged.softTerms).toEqual(["warm", "Style", "Comfort"]);
+    expect(merged.avoidTerms).toEqual(["Wool"]);
+  });
+});
+
+describe("flattenAnswersForPipeline", () => {
+  it("uses the display text of structured entries", () => {
+    expect(flattenAnswersForPipeline([{ questionId: "q2", answer: "under 200" }, "navy", ""])).toEqual(["under 200", "navy"]);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * In-process scheduler for periodic maintenance jobs (data retention)
+ * Started once per server process from entry.server; disable with BACKGROUND_JOBS_DISABLED=true.
+ * Jobs guard against overlapping runs across instances themselves (see runRetentionJob).
+ */
+
+import { runRetentionJob } from "~/models/retention.server";
+
+const RETENTION_INTERVAL_MS = 6 * 60 * 60 * 1000; // Every 6 hours
+const RETENTION_INITIAL_DELAY_MS = 5 * 60 * 1000; // First run 5 minutes after boot
+
+declare global {
+  // eslint-disable-next-line no-var
+  var backgroundJobsStarted: boolean | undefined;
+}
+
+async function runRetentionSafely() {
+  try {
+    await runRetentionJob("scheduled");
+  } catch (error) {
+    console.error("[Background Jobs] Retention job failed:", error);
+  }
+}
+
+export function startBackgroundJobs() {
+  if (global.backgroundJobsStarted) return;
+  if (process.env.BACKGROUND_JOBS_DISABLED === "true" || process.env.NODE_ENV === "test") {
+    console.log("[Background Jobs] Disabled");
+    return;
+  }
+  global.backgroundJobsStarted = true;
+
+  // unref() so the timers never keep the process alive on shutdown
+  setTimeout(() => {
+    void runRetentionSafely();
+    setInterval(() => void runRetentionSafely(), RETENTION_INTERVAL_MS).unref();
+  }, RETENTION_INITIAL_DELAY_MS).unref();
+
+  console.log("[Background Jobs] Scheduled retention job", { intervalHours: RETENTION_INTERVAL_MS / 3600000 });
+}
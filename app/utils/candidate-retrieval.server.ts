@@ -0,0 +1,835 @@
+/**
+ * Single-item candidate retrieval shared by the session pipeline and the offline relevance eval
+ * Facet gating, hard-term gating (strict gate, morphology retry, staged fallback), the budget
+ * filter and the BM25 pre-rank with hard-term, boost-term, facet and type-anchor boosts.
+ */
+
+import { applyFacetMapping, extractMappedFacetValues, type FacetMappingConfig } from "~/utils/facets.server";
+import {
+  bm25Score,
+  calculateIDF,
+  expandQueryTokens,
+  expandTokenMorphology,
+  extractSearchText,
+  normalizeText,
+  tokenize,
+  unifiedNormalize,
+} from "~/utils/text-indexing.server";
+
+type CandidateVariant = {
+  selectedOptions?: Array<{ name?: string | null; value?: string | null }>;
+  available?: boolean;
+  availableForSale?: boolean;
+};
+
+export type RetrievalCandidate = {
+  handle: string;
+  title?: string | null;
+  productType?: string | null;
+  vendor?: string | null;
+  tags?: string[];
+  searchText?: string;
+  available?: boolean;
+  sizes?: string[];
+  colors?: string[];
+  materials?: string[];
+  optionValues?: Record<string, string[]>;
+  variants?: CandidateVariant[];
+  metafields?: unknown;
+  price?: string | number | null;
+  priceAmount?: string | number | null;
+  priceMinAmount?: number | null;
+  priceMaxAmount?: number | null;
+};
+
+type IndexMetafields = Array<{ namespace: string; key: string }> | null | undefined;
+
+// Denylist for common false positives (word that contains the term but isn't the term)
+const DENYLIST: Record<string, string[]> = {
+  "suit": ["suitcase", "suitable", "suited", "suiting"],
+};
+
+/**
+ * Word-boundary matching of hard terms
+ * Prevents false positives (e.g., "suit" matches " suit " but not "suitable")
+ */
+export function matchesHardTermWithBoundary(searchText: string, hardTerm: string): boolean {
+  const normalized = normalizeText(searchText);
+  const normalizedTerm = normalizeText(hardTerm);
+
+  // Escape special regex characters in the term
+  const escapedTerm = normalizedTerm.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+  if (normalizedTerm.includes(" ")) {
+    // Multi-word: require phrase match with word boundaries, allowing flexible whitespace
+    const phrasePattern = escapedTerm.replace(/\s+/g, "\\s+");
+    const regex = new RegExp(`\\b${phrasePattern}\\b`, "i");
+    return regex.test(normalized);
+  }
+
+  // Single word: match with word boundaries (e.g., \bsuit\b)
+  const regex = new RegExp(`\\b${escapedTerm}\\b`, "i");
+  if (!regex.test(normalized)) {
+    return false;
+  }
+
+  // Denylist: if a denylisted word appears in the text, the match is a false positive
+  const denylistTerms = DENYLIST[normalizedTerm];
+  if (denylistTerms && denylistTerms.length > 0) {
+    for (const denied of denylistTerms) {
+      const deniedRegex = new RegExp(`\\b${denied.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`, "i");
+      if (deniedRegex.test(normalized)) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Industry-agnostic boost terms detected from user intent ("3 piece", "set", "kit", "bundle", ...)
+ * Optional matching signals: they widen the strict gate and add to the BM25 pre-rank
+ */
+export function detectBoostTerms(userIntent: string): Set<string> {
+  const boostTerms = new Set<string>();
+  const lowerIntent = userIntent.toLowerCase();
+
+  // Generic multi-piece/set patterns
+  if (/\b(3\s*piece|three\s*piece|4\s*piece|four\s*piece|5\s*piece|five\s*piece)\b/i.test(lowerIntent)) {
+    const match = lowerIntent.match(/\b(\d+\s*piece|three\s*piece|four\s*piece|five\s*piece)\b/i);
+    if (match) {
+      boostTerms.add(match[1].toLowerCase());
+    }
+  }
+
+  // Generic collection terms
+  if (/\b(set|kit|bundle|collection|suite|system)\b/i.test(lowerIntent)) {
+    const match = lowerIntent.match(/\b(set|kit|bundle|collection|suite|system)\b/i);
+    if (match) {
+      boostTerms.add(match[1].toLowerCase());
+    }
+  }
+
+  return boostTerms;
+}
+
+/**
+ * Budget filter: applies priceMin/priceMax to candidates using price range overlap
+ * CRITICAL: priceMin/priceMax from answers is the SINGLE source of truth
+ * Do NOT use LLM totalBudget or priceCeiling for filtering
+ */
+export function applyBudgetFilterCandidates<T extends Pick<RetrievalCandidate, "price" | "priceAmount" | "priceMinAmount" | "priceMaxAmount">>(
+  candidates: T[],
+  priceMin: number | null,
+  priceMax: number | null
+): T[] {
+  const hadBudget = typeof priceMin === "number" || typeof priceMax === "number";
+  if (!hadBudget) return candidates;
+
+  const before = candidates.length;
+  let removedBelow = 0;
+  let removedAbove = 0;
+
+  console.log(`[BudgetFilter] applying budget min=${priceMin ?? "null"} max=${priceMax ?? "null"} before=${before}`);
+
+  const out = candidates.filter(c => {
+    // Prefer explicit min/max, fall back to single price
+    const candidateMin = c.priceMinAmount ?? null;
+    const candidateMax = c.priceMaxAmount ?? null;
+    const singlePrice = c.priceAmount != null ? parseFloat(String(c.priceAmount)) : (c.price != null ? parseFloat(String(c.price)) : NaN);
+
+    if (candidateMin !== null || candidateMax !== null) {
+      const candMin = candidateMin ?? candidateMax ?? (Number.isFinite(singlePrice) ? singlePrice : null);
+      const candMax = candidateMax ?? candidateMin ?? (Number.isFinite(singlePrice) ? singlePrice : null);
+
+      if (candMin === null || candMax === null) {
+        // Missing price data - keep it (don't drop unknown)
+        return true;
+      }
+
+      // Range overlap: candidateMax >= budgetMin AND candidateMin <= budgetMax
+      if (typeof priceMin === "number" && candMax < priceMin) {
+        removedBelow++;
+        return false;
+      }
+      if (typeof priceMax === "number" && candMin > priceMax) {
+        removedAbove++;
+        return false;
+      }
+      return true;
+    }
+
+    // Single price logic for candidates without a price range
+    if (!Number.isFinite(singlePrice)) return true; // keep unknown prices
+    if (typeof priceMin === "number" && singlePrice < priceMin) {
+      removedBelow++;
+      return false;
+    }
+    if (typeof priceMax === "number" && singlePrice > priceMax) {
+      removedAbove++;
+      return false;
+    }
+    return true;
+  });
+
+  const after = out.length;
+
+  if (removedBelow > 0 || removedAbove > 0) {
+    console.log(`[BudgetFilter] after=${after} removed_below_min=${removedBelow} removed_above_max=${removedAbove} min=${priceMin ?? "null"} max=${priceMax ?? "null"}`);
+  }
+  if (before !== after) {
+    console.log(`[BudgetFilter] applied=true before=${before} after=${after} min=${priceMin ?? "null"} max=${priceMax ?? "null"}`);
+    console.log(`[BudgetConstraint] applied=true floor=${priceMin ?? "null"} ceiling=${priceMax ?? "null"} removedBelow=${removedBelow} removedAbove=${removedAbove}`);
+  } else {
+    console.log(`[BudgetFilter] applied=true no_change count=${before} min=${priceMin ?? "null"} max=${priceMax ?? "null"}`);
+  }
+  return out;
+}
+
+function haystackFor(candidate: RetrievalCandidate, indexMetafields: IndexMetafields): string {
+  return unifiedNormalize(candidate.searchText || extractSearchText(candidate, indexMetafields));
+}
+
+function budgetSample(candidates: RetrievalCandidate[]) {
+  return candidates.slice(0, 15).map(c => ({
+    handle: c.handle,
+    title: c.title,
+    available: c.available,
+    priceMinAmount: c.priceMinAmount ?? null,
+    priceMaxAmount: c.priceMaxAmount ?? null,
+    priceAmount: c.priceAmount || c.price || null,
+  }));
+}
+
+// Normalizes an avoid term to handle misspellings and plural/singular variations (industry-agnostic)
+function avoidTermVariants(term: string): string[] {
+  const normalized = term.toLowerCase().trim();
+  const variants: string[] = [normalized];
+
+  const misspellings: Record<string, string> = {
+    "paterns": "patterns",
+    "patern": "pattern",
+    "pater": "pattern",
+  };
+  if (misspellings[normalized]) {
+    variants.push(misspellings[normalized]);
+  }
+
+  if (normalized.endsWith("s") && normalized.length > 1) {
+    variants.push(normalized.slice(0, -1));
+  } else if (normalized.length > 1) {
+    variants.push(normalized + "s");
+    if (/[sxz]$/.test(normalized) || /[ch]sh$/.test(normalized)) {
+      variants.push(normalized + "es");
+    }
+  }
+
+  return Array.from(new Set(variants));
+}
+
+export type FacetGateOptions = {
+  /** Facet name -> accepted values (alternatives, OR) */
+  constraints: Map<string, string[]>;
+  /** OR allow-lists from variant constraints, checked for facets not already enforced */
+  allowValues?: Record<string, string[]> | null;
+  inStockOnly: boolean;
+  facetMapping?: FacetMappingConfig;
+  indexMetafields?: IndexMetafields;
+};
+
+export type DegradedFacet = { facet: string; value: string; values: string[]; coverage: number };
+
+export type FacetGateResult<T> = {
+  candidates: T[];
+  /** Share of the pool carrying each constrained facet in structured data */
+  coverage: Record<string, number>;
+  enforcedConstraints: Map<string, string[]>;
+  enforcedFacets: { size: string[] | null; color: string[] | null; material: string[] | null };
+  /** Low-coverage facets that were not enforced; callers move their values to soft terms */
+  degraded: DegradedFacet[];
+};
+
+// Facet values match on equality or containment after normalization
+function facetValuesMatch(a: string, b: string): boolean {
+  const normalizedA = normalizeText(a);
+  const normalizedB = normalizeText(b);
+  return normalizedA === normalizedB || normalizedA.includes(normalizedB) || normalizedB.includes(normalizedA);
+}
+
+/**
+ * Gate 1: hard facets (industry-agnostic: any facet type) with OR allow-list support
+ * Facets carried by fewer than 25% of candidates are degraded instead of enforced. A constraint
+ * matches on structured values (variant options, optionValues, legacy colors/sizes/materials,
+ * merchant-mapped tags/metafields) or, when those are missing, on the indexed text.
+ */
+export function gateByFacets<T extends RetrievalCandidate>(candidates: T[], options: FacetGateOptions): FacetGateResult<T> {
+  const { constraints, allowValues, inStockOnly, facetMapping, indexMetafields } = options;
+  // Option name -> facet under the merchant's mapping (same as normalizeOptionName when none is configured)
+  const normalizeOptionName = (name: string) => applyFacetMapping(name, facetMapping);
+  const totalCandidates = candidates.length;
+
+  // STEP 1: coverage - share of candidates that carry each facet in structured data
+  const coverage: Record<string, number> = {};
+  if (totalCandidates > 0) {
+    for (const facetName of constraints.keys()) {
+      const candidatesWithFacet = candidates.filter(candidate => {
+        const inVariants = (candidate.variants || []).some(variant =>
+          (variant.selectedOptions || []).some(option => normalizeOptionName(option.name || "") === facetName)
+        );
+        if (inVariants) return true;
+        if (candidate.optionValues && Object.keys(candidate.optionValues).some(optName => normalizeOptionName(optName) === facetName)) {
+          return true;
+        }
+        // Legacy support: c.colors, c.sizes, c.materials
+        if (facetName === "color" && candidate.colors && candidate.colors.length > 0) return true;
+        if (facetName === "size" && candidate.sizes && candidate.sizes.length > 0) return true;
+        if (facetName === "material" && candidate.materials && candidate.materials.length > 0) return true;
+        // Merchant-mapped tag prefixes and metafields
+        if (facetMapping && extractMappedFacetValues(candidate, facetMapping).has(facetName)) return true;
+        // Tag-derived facets (cf-color-*, cf-size-*, cf-material-*)
+        const facetLower = facetName.toLowerCase();
+        return (candidate.tags || []).some(tag => {
+          if (typeof tag !== "string") return false;
+          const tagLower = tag.toLowerCase();
+          return (facetLower === "color" && tagLower.startsWith("cf-color-")) ||
+            (facetLower === "size" && tagLower.startsWith("cf-size-")) ||
+            (facetLower === "material" && tagLower.startsWith("cf-material-"));
+        });
+      }).length;
+      coverage[facetName] = candidatesWithFacet / totalCandidates;
+    }
+  }
+  console.log(`[FacetCoverage] ${JSON.stringify(coverage)} totals=${totalCandidates}`);
+
+  // STEP 2: confidence rule - enforce a facet only when coverage >= 0.25
+  const enforcedFacets: FacetGateResult<T>["enforcedFacets"] = { size: null, color: null, material: null };
+  const enforcedConstraints = new Map<string, string[]>();
+  const degraded: DegradedFacet[] = [];
+  for (const [facetName, constraintValues] of constraints.entries()) {
+    const facetCoverage = coverage[facetName] || 0;
+    const constraintValue = constraintValues.join(" | ");
+    if (facetCoverage < 0.25) {
+      degraded.push({ facet: facetName, value: constraintValue, values: constraintValues, coverage: facetCoverage });
+      console.log(`[Degrade] reason=low_facet_coverage facet=${facetName} selected=${constraintValue} coverage=${facetCoverage.toFixed(3)} moved_to_softTerms=true`);
+    } else {
+      enforcedConstraints.set(facetName, constraintValues);
+      if (facetName === "size") enforcedFacets.size = constraintValues;
+      if (facetName === "color") enforcedFacets.color = constraintValues;
+      if (facetName === "material") enforcedFacets.material = constraintValues;
+    }
+  }
+  const degradedNames = new Set(degraded.map(d => d.facet.toLowerCase()));
+  if (degradedNames.size > 0) {
+    console.log(`[Degrade] degradedFacets=${Array.from(degradedNames).join(",")}`);
+  }
+
+  // Color constraints also match on variants: a product is kept if any variant matches
+  const variantColorMatches = (candidate: T, values: string[], label: string): boolean => {
+    for (const variant of candidate.variants || []) {
+      for (const option of variant.selectedOptions || []) {
+        if (normalizeOptionName(option.name || "") === "color" && option.value) {
+          const optionValue = option.value;
+          if (values.some(value => facetValuesMatch(optionValue, value))) {
+            console.log(`[VariantMatch] product=${candidate.handle} variant_color="${optionValue}" ${label}`);
+            return true;
+          }
+        }
+      }
+    }
+    return false;
+  };
+
+  const structuredValuesFor = (candidate: T, facetName: string): string[] => {
+    const values: string[] = [];
+    for (const variant of candidate.variants || []) {
+      for (const option of variant.selectedOptions || []) {
+        if (normalizeOptionName(option.name || "") === facetName && option.value) {
+          values.push(option.value);
+        }
+      }
+    }
+    for (const [optName, optValues] of Object.entries(candidate.optionValues || {})) {
+      if (normalizeOptionName(optName) === facetName && Array.isArray(optValues)) {
+        values.push(...optValues.filter(v => typeof v === "string"));
+      }
+    }
+    if (facetName === "color" && candidate.colors) values.push(...candidate.colors);
+    if (facetName === "size" && candidate.sizes) values.push(...candidate.sizes);
+    if (facetName === "material" && candidate.materials) values.push(...candidate.materials);
+    if (facetMapping) values.push(...(extractMappedFacetValues(candidate, facetMapping).get(facetName) || []));
+    return values;
+  };
+
+  // Any accepted alternative is enough: structured match, variant color, then indexed text
+  const facetMatches = (candidate: T, facetValues: string[] | null, structuredValues: string[], indexedText: string, facetName: string): boolean => {
+    if (!facetValues || facetValues.length === 0) return true;
+    return facetValues.some(facetValue => {
+      if (structuredValues.some(val => facetValuesMatch(val, facetValue))) return true;
+      if (facetName === "color" && variantColorMatches(candidate, [facetValue], `matches_constraint="${facetValue}"`)) return true;
+      return indexedText.includes(normalizeText(facetValue));
+    });
+  };
+
+  // STEP 3: facet gating
+  const gated = candidates.filter(c => {
+    const indexedText = unifiedNormalize(c.searchText || extractSearchText(c, indexMetafields));
+
+    for (const [facetName, constraintValues] of enforcedConstraints.entries()) {
+      if (!facetMatches(c, constraintValues, structuredValuesFor(c, facetName), indexedText, facetName)) {
+        return false;
+      }
+    }
+
+    // Legacy: enforcedFacets for size/color/material
+    if (enforcedFacets.size && !facetMatches(c, enforcedFacets.size, c.sizes || [], indexedText, "size")) return false;
+    if (enforcedFacets.color && !facetMatches(c, enforcedFacets.color, c.colors || [], indexedText, "color")) return false;
+    if (enforcedFacets.material && !facetMatches(c, enforcedFacets.material, c.materials || [], indexedText, "material")) return false;
+
+    // allowValues (OR logic), skipping facets already enforced or degraded to soft terms
+    for (const [facetName, allowedValues] of Object.entries(allowValues || {})) {
+      if (!Array.isArray(allowedValues) || allowedValues.length === 0) continue;
+      const normalizedFacetName = normalizeOptionName(facetName);
+      if (enforcedConstraints.has(normalizedFacetName) || degradedNames.has(normalizedFacetName)) continue;
+
+      const hasMatch = structuredValuesFor(c, normalizedFacetName).some(val => allowedValues.some(allowed => facetValuesMatch(val, allowed))) ||
+        allowedValues.some(allowed => indexedText.includes(normalizeText(allowed))) ||
+        (normalizedFacetName === "color" && variantColorMatches(c, allowedValues, `matches_allowValues=[${allowedValues.join(", ")}]`));
+      if (!hasMatch) return false;
+    }
+
+    // Availability only when the experience is in-stock only
+    if (inStockOnly) {
+      const variants = c.variants || [];
+      const hasAvailableVariant = c.available === true || variants.some(v => v.available === true || v.availableForSale === true);
+      if (!hasAvailableVariant) {
+        const variantAvailableCount = variants.filter(v => v.available === true || v.availableForSale === true).length;
+        console.log(`[Availability] rejected handle=${c.handle} productAvailable=${c.available} variantCount=${variants.length} variantAvailableCount=${variantAvailableCount} reason=inStockOnly_required`);
+        return false;
+      }
+    }
+
+    return true;
+  });
+
+  return { candidates: gated, coverage, enforcedConstraints, enforcedFacets, degraded };
+}
+
+export type HardTermGateStage =
+  | "no_hard_terms"
+  | "stage_a_strict"
+  | "morphology_retry"
+  | "bm25_expanded_filter"
+  | "stage_b_relax_facets"
+  | "stage_c_token_containment"
+  | "stage_d_bm25_token_filter"
+  | "emergency_fallback"
+  | "no_match";
+
+export type HardTermGateOptions = {
+  hardTerms: string[];
+  boostTerms: Set<string>;
+  avoidTerms: string[];
+  priceMin: number | null;
+  priceMax: number | null;
+  /** Requested result count; the strict gate is kept when it holds resultCount + 6 candidates */
+  resultCount: number;
+  /** Stage C is used only when it keeps at least this many candidates */
+  minCandidatesForAI: number;
+  indexMetafields?: IndexMetafields;
+  /** Called with the trace step name and pool size as each gate is applied */
+  onStep?: (step: string, count: number) => void;
+};
+
+export type HardTermGateResult<T> = {
+  stage: HardTermGateStage;
+  /** Gated pool; when stage is "no_match" it is empty and the caller decides how to recover */
+  candidates: T[];
+  /** Candidates matching the hard terms (after the avoid filter, before the budget) */
+  strictGate: T[];
+  strictGateCount: number;
+  trustFallback: boolean;
+  relaxNote?: string;
+};
+
+/**
+ * Gate 2: hard terms
+ * STRICT: must match ALL hard terms when count >= 2, at least one when count == 1. Word-boundary
+ * matching on normalized text (title/productType/tags/descPlain), not substring.
+ * Stage A keeps the strict gate when it is large enough; an empty strict gate retries with
+ * morphology/decompound expansion and then BM25 over expanded tokens; a small strict gate broadens
+ * through stages B (all hard terms, relaxed facets), C (token containment) and D (any hard token).
+ */
+export function gateByHardTerms<T extends RetrievalCandidate>(
+  candidates: T[],
+  options: HardTermGateOptions
+): HardTermGateResult<T> {
+  const { hardTerms, boostTerms, avoidTerms, priceMin, priceMax, resultCount, minCandidatesForAI, indexMetafields, onStep } = options;
+  const recordStep = (step: string, count: number) => onStep?.(step, count);
+
+  if (hardTerms.length === 0) {
+    return { stage: "no_hard_terms", candidates, strictGate: [], strictGateCount: 0, trustFallback: false };
+  }
+
+  const hadBudget = typeof priceMin === "number" || typeof priceMax === "number";
+  const requireAllHardTerms = hardTerms.length >= 2; // AND logic when 2+ terms
+  let strictGate: T[] = [];
+
+  // For single-term queries, allow any morphology variant match
+  // For multi-term queries, still require all original terms (morphology helps with individual term matching)
+  const matchesTerm = (haystack: string, candidateTokens: Set<string>, phrase: string): boolean => {
+    const normalizedPhrase = unifiedNormalize(phrase);
+    if (matchesHardTermWithBoundary(haystack, normalizedPhrase)) {
+      return true;
+    }
+    const phraseTokens = tokenize(normalizedPhrase);
+    if (phraseTokens.length === 1) {
+      const morphVariants = expandTokenMorphology(phraseTokens[0]);
+      return Array.from(morphVariants).some(variant => candidateTokens.has(variant));
+    }
+    return false;
+  };
+
+  for (const candidate of candidates) {
+    const haystack = haystackFor(candidate, indexMetafields);
+    const candidateTokens = new Set(tokenize(haystack));
+
+    const matchesHardTerms = requireAllHardTerms
+      ? hardTerms.every(phrase => matchesTerm(haystack, candidateTokens, phrase))
+      : matchesTerm(haystack, candidateTokens, hardTerms[0]);
+
+    // Boost terms are optional, not required: a candidate with one passes the strict gate too
+    const hasBoostTerm = Array.from(boostTerms).some(term => matchesHardTermWithBoundary(haystack, unifiedNormalize(term)));
+
+    if (matchesHardTerms || hasBoostTerm) {
+      strictGate.push(candidate);
+    }
+  }
+
+  // Filter avoid terms from strict gate (industry-agnostic)
+  const avoidVariants = new Set<string>(avoidTerms.flatMap(avoidTermVariants));
+  if (avoidVariants.size > 0) {
+    const beforeAvoidFilter = strictGate.length;
+    strictGate = strictGate.filter(candidate => {
+      const searchableText = haystackFor(candidate, indexMetafields);
+      const hasAvoidTerm = Array.from(avoidVariants).some(avoidVariant => {
+        const pattern = new RegExp(`\\b${avoidVariant.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
+        return pattern.test(searchableText);
+      });
+      if (hasAvoidTerm) {
+        console.log(`[AvoidFilter] Rejected ${candidate.handle} - contains avoid term variant`);
+        return false;
+      }
+      return true;
+    });
+    if (beforeAvoidFilter !== strictGate.length) {
+      console.log(`[AvoidFilter] filtered=${beforeAvoidFilter - strictGate.length} remaining=${strictGate.length} avoidTerms=[${Array.from(avoidVariants).join(", ")}]`);
+    }
+  }
+
+  console.log("[App Proxy] [Layer 2] Strict gate (hard terms + facets):", strictGate.length, "candidates");
+  recordStep("strict_gate", strictGate.length);
+
+  if (hadBudget && strictGate.length > 0) {
+    console.log(`[BudgetDebug] strictGate_before_budget count=${strictGate.length} min=${priceMin ?? "null"} sample=${JSON.stringify(budgetSample(strictGate))}`);
+  }
+
+  // STAGED FALLBACK LOGIC
+  // Stage A: strict (hard terms + facets) - only broaden if not enough for the requested count
+  const buffer = 6; // Small buffer to ensure we have enough for AI ranking
+  const strictGateCount = strictGate.length;
+  const minNeededForRequested = resultCount + buffer;
+  const result = { strictGate, strictGateCount, trustFallback: false };
+
+  console.log(`[Gating] strictGateCount=${strictGateCount} requestedCount=${resultCount} buffer=${buffer} minNeeded=${minNeededForRequested}`);
+
+  if (strictGateCount >= minNeededForRequested) {
+    const gated = applyBudgetFilterCandidates(strictGate, priceMin, priceMax);
+    if (hadBudget && gated.length > 0) {
+      console.log(`[BudgetDebug] strictGate_after_budget before=${strictGateCount} after=${gated.length} min=${priceMin ?? "null"} sample=${JSON.stringify(budgetSample(gated))}`);
+    }
+    console.log(`[Gating] Stage A: strict (hard terms + facets) - strictGateCount=${strictGateCount} >= minNeeded=${minNeededForRequested} trustFallback=false`);
+    recordStep("stage_a_strict", strictGateCount);
+    return { ...result, stage: "stage_a_strict", candidates: gated };
+  }
+
+  if (strictGateCount === 0) {
+    // strictGateCount==0 - retry with morphology + decompounding expansion
+    console.log(`[Gating] strictGateCount=0 - retrying with morphology and decompounding expansion`);
+
+    // Vocabulary from the facet-gated pool (tokens of length >= 4)
+    const vocab = new Set<string>();
+    for (const candidate of candidates) {
+      for (const token of tokenize(haystackFor(candidate, indexMetafields))) {
+        if (token.length >= 4) {
+          vocab.add(token);
+        }
+      }
+    }
+
+    const originalQueryTokens = hardTerms.flatMap(term => tokenize(unifiedNormalize(term)));
+    const expandedTokens = expandQueryTokens(originalQueryTokens, vocab);
+    const originalTokensArray = Array.from(new Set(originalQueryTokens));
+    const expandedTokensArray = Array.from(expandedTokens);
+    const addedTokens = expandedTokensArray.filter(t => !originalTokensArray.includes(t));
+
+    if (addedTokens.length > 0) {
+      console.log(`[Morphology] originalTokens=[${originalTokensArray.join(",")}] expandedTokens=[${expandedTokensArray.join(",")}] applied=true`);
+      if (addedTokens.some(t => vocab.has(t))) {
+        console.log(`[Decompound] applied=true addedTokens=[${addedTokens.filter(t => vocab.has(t)).join(",")}]`);
+      }
+    }
+
+    // Retry strict gate using expanded tokens (OR logic - match any expanded token)
+    // Filter out matches where the hard term appears only inside compound words
+    // (e.g., "top-coat" nail polish or "one-coat" pet product vs actual "coat" clothing)
+    const retryStrictGate: T[] = [];
+    const primaryHardTerm = hardTerms[0];
+    const isSingleWordTerm = primaryHardTerm && primaryHardTerm.split(/\s+/).length === 1;
+
+    for (const candidate of candidates) {
+      const candidateTokens = new Set(tokenize(haystackFor(candidate, indexMetafields)));
+      const hasMatch = expandedTokensArray.some(token => candidateTokens.has(token));
+      if (!hasMatch) continue;
+
+      if (isSingleWordTerm) {
+        const primaryTerm = unifiedNormalize(primaryHardTerm);
+        const titleNormalized = unifiedNormalize(candidate.title || "");
+        const productTypeNormalized = candidate.productType ? unifiedNormalize(candidate.productType) : "";
+
+        const standaloneRegex = new RegExp(`\\b${primaryTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
+        const titleHasStandalone = standaloneRegex.test(titleNormalized);
+        const productTypeHasStandalone = productTypeNormalized ? standaloneRegex.test(productTypeNormalized) : false;
+        const titleHasCompound = titleNormalized.includes(primaryTerm) && !titleHasStandalone;
+
+        // Term only appears as a compound in the title and not in productType: skip clearly unrelated categories
+        if (titleHasCompound && !productTypeHasStandalone && !productTypeNormalized.includes(primaryTerm)) {
+          const unrelatedCategories = ["beauty", "pet", "health", "cosmetic", "nail", "hair", "skin", "treatment", "medicine"];
+          if (unrelatedCategories.some(cat => productTypeNormalized.includes(cat))) {
+            continue;
+          }
+        }
+      }
+
+      retryStrictGate.push(candidate);
+    }
+
+    if (retryStrictGate.length > 0) {
+      // Budget filter is deferred: it is applied later, once there are enough candidates to choose from
+      console.log(`[Gating] Retry with morphology/decompound succeeded: strictGateCount=${retryStrictGate.length} trustFallback=false (budget filter deferred)`);
+      return { ...result, stage: "morphology_retry", candidates: retryStrictGate, strictGateCount: retryStrictGate.length };
+    }
+
+    // Still 0 - try BM25 with expanded token filter
+    console.log(`[Gating] strictGateCount still 0 after morphology retry - trying BM25 with expanded token filter`);
+    const bm25Filtered = candidates.filter(candidate => {
+      const candidateTokens = new Set(tokenize(haystackFor(candidate, indexMetafields)));
+      return expandedTokensArray.some(token => candidateTokens.has(token));
+    });
+
+    if (bm25Filtered.length > 0) {
+      const candidateDocs = bm25Filtered.map(c => ({
+        candidate: c,
+        tokens: tokenize(c.searchText || extractSearchText(c, indexMetafields)),
+      }));
+      const { idf, avgDocLen } = buildBM25Index(candidateDocs);
+      const scoredCandidates = candidateDocs.map(d => ({
+        candidate: d.candidate,
+        score: bm25Score(expandedTokensArray, d.tokens, termFrequencies(d.tokens), d.tokens.length, avgDocLen, idf),
+      }));
+      scoredCandidates.sort((a, b) => {
+        if (Math.abs(b.score - a.score) > 0.01) return b.score - a.score;
+        if (a.candidate.available !== b.candidate.available) return a.candidate.available ? -1 : 1;
+        return a.candidate.handle.localeCompare(b.candidate.handle);
+      });
+
+      const gated = scoredCandidates.map(s => s.candidate);
+      console.log(`[Gating] BM25 with expanded token filter succeeded: strictGateCount=${gated.length} trustFallback=false (budget filter deferred)`);
+      return { ...result, stage: "bm25_expanded_filter", candidates: gated, strictGateCount: gated.length };
+    }
+
+    return { ...result, stage: "no_match", candidates: [] };
+  }
+
+  // Need to broaden - staged fallback
+  console.log(`[Gating] strictGateCount=${strictGateCount} < minNeeded=${minNeededForRequested} - starting staged fallback`);
+
+  // Stage B: Relax facets only (keep ALL hard terms)
+  const stageB = candidates.filter(candidate => {
+    const haystack = haystackFor(candidate, indexMetafields);
+    return hardTerms.every(phrase => matchesHardTermWithBoundary(haystack, unifiedNormalize(phrase)));
+  });
+  console.log(`[Gating] Stage B: relax facets only - count=${stageB.length} (strictGateCount=${strictGateCount})`);
+
+  if (stageB.length >= minNeededForRequested) {
+    const gated = applyBudgetFilterCandidates(stageB, priceMin, priceMax);
+    console.log(`[Gating] Stage B: relax facets only (keep all hardTerms) - count=${gated.length} anchor_terms=[${hardTerms.join(", ")}] trustFallback=false`);
+    recordStep("stage_b_relax_facets", gated.length);
+    return { ...result, stage: "stage_b_relax_facets", candidates: gated };
+  }
+
+  // Stage C: Relax hard terms (token containment)
+  // Prioritize multi-word phrases and longer terms (more specific) and filter out negative matches
+  const hardTermTokens = new Set<string>();
+  const primaryTermTokens = new Set<string>();
+  hardTerms.forEach(phrase => {
+    const tokens = tokenize(unifiedNormalize(phrase));
+    tokens.forEach(t => hardTermTokens.add(t));
+    if (phrase.includes(" ") || phrase.length >= 6) {
+      tokens.forEach(t => primaryTermTokens.add(t));
+    }
+  });
+
+  // Common stopwords that cause false matches
+  const stopwordTokens = new Set(["de", "du", "des", "le", "la", "les", "un", "une", "eau"]);
+  const meaningfulTokens = Array.from(hardTermTokens).filter(t => t.length >= 3 && !stopwordTokens.has(t.toLowerCase()));
+  // Negative indicators: "no perfume", "sans parfum", "perfume free", ...
+  const negativeIndicators = ["no", "sans", "free", "without", "not", "non", "zero", "0", "ohne", "sin"];
+  const primaryHardTerms = hardTerms.filter(term => term.length >= 4);
+
+  const stageC = candidates.filter(candidate => {
+    const haystack = haystackFor(candidate, indexMetafields);
+    const haystackLower = haystack.toLowerCase();
+
+    const hasNegativeMatch = primaryHardTerms.some(term => {
+      const escaped = term.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const pattern1 = new RegExp(`\\b(?:${negativeIndicators.join("|")})\\s+${escaped}\\b`, 'i');
+      const pattern2 = new RegExp(`\\b${escaped}\\s+(?:${negativeIndicators.join("|")})\\b`, 'i');
+      return pattern1.test(haystackLower) || pattern2.test(haystackLower);
+    });
+    if (hasNegativeMatch) {
+      return false;
+    }
+
+    const candidateTokens = new Set(tokenize(haystack));
+    if (primaryTermTokens.size > 0) {
+      const primaryMatch = Array.from(primaryTermTokens).some(token =>
+        token.length >= 3 && !stopwordTokens.has(token.toLowerCase()) && candidateTokens.has(token)
+      );
+      if (primaryMatch) return true;
+    }
+    return meaningfulTokens.some(token => candidateTokens.has(token));
+  });
+  console.log(`[Gating] Stage C: token containment - count=${stageC.length} hardTermTokens=[${Array.from(hardTermTokens).join(", ")}]`);
+
+  if (stageC.length >= minCandidatesForAI) {
+    const gated = applyBudgetFilterCandidates(stageC, priceMin, priceMax);
+    console.log(`[Gating] Stage C: relax hard terms (token containment, keep all terms) - count=${gated.length} anchor_terms=[${hardTerms.join(", ")}] trustFallback=false`);
+    recordStep("stage_c_token_containment", gated.length);
+    return { ...result, stage: "stage_c_token_containment", candidates: gated };
+  }
+
+  // Stage D: candidates that match at least one normalized hard token (ranked by BM25 later)
+  const stageD = candidates.filter(candidate => {
+    const candidateTokens = new Set(tokenize(haystackFor(candidate, indexMetafields)));
+    return Array.from(hardTermTokens).some(token => candidateTokens.has(token));
+  });
+  console.log(`[Gating] Stage D: BM25 with token filter - count=${stageD.length}`);
+
+  if (stageD.length > 0) {
+    const gated = applyBudgetFilterCandidates(stageD, priceMin, priceMax);
+    console.log(`[Gating] Stage D: BM25 with token filter - count=${gated.length} anchor_terms=[${hardTerms.join(", ")}] trustFallback=false`);
+    recordStep("stage_d_bm25_token_filter", gated.length);
+    return { ...result, stage: "stage_d_bm25_token_filter", candidates: gated };
+  }
+
+  // All stages failed - emergency fallback over the facet-gated pool (no billing)
+  console.log(`[Gating] All stages failed - emergency fallback required - count=${candidates.length} anchor_terms=[${hardTerms.join(", ")}] trustFallback=true`);
+  recordStep("emergency_fallback", candidates.length);
+  return {
+    ...result,
+    stage: "emergency_fallback",
+    candidates,
+    trustFallback: true,
+    relaxNote: `No matches found for "${hardTerms.join(", ")}" after staged fallback.`,
+  };
+}
+
+function termFrequencies(tokens: string[]): Map<string, number> {
+  const freq = new Map<string, number>();
+  for (const token of tokens) {
+    freq.set(token, (freq.get(token) || 0) + 1);
+  }
+  return freq;
+}
+
+export type BM25Index = { idf: Map<string, number>; avgDocLen: number };
+
+export function buildBM25Index(docs: Array<{ tokens: string[] }>): BM25Index {
+  return {
+    idf: calculateIDF(docs),
+    avgDocLen: docs.reduce((sum, d) => sum + d.tokens.length, 0) / docs.length || 1,
+  };
+}
+
+export type PreRankSignals<T> = {
+  queryTokens: string[];
+  index: BM25Index;
+  hardTerms: string[];
+  boostTerms: Set<string>;
+  hardFacets: { size?: string | null; color?: string | null; material?: string | null };
+  avoidTerms: string[];
+  /** Type-anchor boost, set when the anchor is used as a boost rather than a filter */
+  matchesTypeAnchor?: ((candidate: T) => boolean) | null;
+};
+
+/**
+ * Pre-ranks the gated pool with BM25 plus boosts, best first
+ * +2.0 per hard term, +1.5 per boost term, +3.0 for a type-anchor match in boost mode,
+ * +1.5 per matching size/color/material facet, -1.0 per avoid term
+ */
+export function preRankCandidates<T extends RetrievalCandidate>(
+  candidates: T[],
+  signals: PreRankSignals<T>
+): Array<{ candidate: T; score: number }> {
+  const { queryTokens, index, hardTerms, boostTerms, hardFacets, avoidTerms, matchesTypeAnchor } = signals;
+
+  const ranked = candidates.map(c => {
+    const docTokens = tokenize(c.searchText || "");
+    let score = bm25Score(queryTokens, docTokens, termFrequencies(docTokens), docTokens.length, index.avgDocLen, index.idf);
+
+    // Exact phrase match on title + productType + tags + vendor + searchText
+    const haystack = [
+      c.title || "",
+      c.productType || "",
+      (c.tags || []).join(" "),
+      c.vendor || "",
+      c.searchText || "",
+    ].join(" ");
+
+    for (const hardTerm of hardTerms) {
+      if (matchesHardTermWithBoundary(haystack, hardTerm)) {
+        score += 2.0;
+      }
+    }
+    for (const boostTerm of boostTerms) {
+      if (matchesHardTermWithBoundary(haystack, boostTerm)) {
+        score += 1.5;
+      }
+    }
+    if (matchesTypeAnchor && matchesTypeAnchor(c)) {
+      score += 3.0;
+    }
+
+    const { size, color, material } = hardFacets;
+    if (size && (c.sizes || []).some(s => normalizeText(s) === normalizeText(size))) {
+      score += 1.5;
+    }
+    if (color && (c.colors || []).some(col => normalizeText(col) === normalizeText(color))) {
+      score += 1.5;
+    }
+    if (material && (c.materials || []).some(m => normalizeText(m) === normalizeText(material))) {
+      score += 1.5;
+    }
+
+    if (avoidTerms.length > 0) {
+      const searchText = extractSearchText(c);
+      score -= avoidTerms.filter(avoid => searchText.includes(avoid.toLowerCase())).length * 1.0;
+    }
+
+    return { candidate: c, score };
+  });
+
+  ranked.sort((a, b) => b.score - a.score);
+  return ranked;
+}
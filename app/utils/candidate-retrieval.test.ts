@@ -0,0 +1,103 @@
+/**
+ * Unit tests for shared single-item retrieval
+ * Hard-term gating stages, facet gating, the budget filter and the BM25 pre-rank
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  applyBudgetFilterCandidates,
+  buildBM25Index,
+  detectBoostTerms,
+  gateByFacets,
+  gateByHardTerms,
+  matchesHardTermWithBoundary,
+  preRankCandidates,
+  type RetrievalCandidate,
+} from "./candidate-retrieval.server";
+import { tokenize } from "./text-indexing.server";
+
+function product(handle: string, title: string, extra: Partial<RetrievalCandidate> = {}): RetrievalCandidate {
+  return { handle, title, tags: [], searchText: title.toLowerCase(), available: true, ...extra };
+}
+
+const gateOptions = { boostTerms: new Set<string>(), avoidTerms: [], priceMin: null, priceMax: null, resultCount: 2, minCandidatesForAI: 50 };
+
+describe("matchesHardTermWithBoundary", () => {
+  it("matches whole words and rejects denylisted look-alikes", () => {
+    expect(matchesHardTermWithBoundary("navy wool suit", "suit")).toBe(true);
+    expect(matchesHardTermWithBoundary("hard shell suitcase", "suit")).toBe(false);
+    expect(matchesHardTermWithBoundary("rain jacket", "rain jacket")).toBe(true);
+  });
+
+  it("detects collection boost terms", () => {
+    expect(Array.from(detectBoostTerms("a 3 piece suit set"))).toEqual(["3 piece", "set"]);
+  });
+});
+
+describe("gateByHardTerms", () => {
+  const jackets = Array.from({ length: 8 }, (_, i) => product(`jacket-${i}`, `Rain Jacket ${i}`));
+
+  it("keeps the strict gate when it covers the requested count", () => {
+    const gate = gateByHardTerms([...jackets, product("mug", "Mug")], { ...gateOptions, hardTerms: ["jacket"] });
+    expect(gate.stage).toBe("stage_a_strict");
+    expect(gate.candidates.map((c) => c.handle)).not.toContain("mug");
+  });
+
+  it("falls back through the staged gates when the strict gate is small", () => {
+    const pool = [product("rain-jacket", "Rain Jacket"), product("rain-hat", "Rain Hat"), product("denim-jacket", "Denim Jacket"), product("mug", "Mug")];
+    const gate = gateByHardTerms(pool, { ...gateOptions, hardTerms: ["rain jacket"] });
+    expect(gate.stage).toBe("stage_d_bm25_token_filter");
+    expect(gate.strictGateCount).toBe(1);
+    expect(gate.candidates.map((c) => c.handle)).toEqual(["rain-jacket", "rain-hat", "denim-jacket"]);
+  });
+
+  it("reports no_match when nothing matches the hard terms", () => {
+    const gate = gateByHardTerms([product("mug", "Mug")], { ...gateOptions, hardTerms: ["overcoat"] });
+    expect(gate.stage).toBe("no_match");
+    expect(gate.candidates).toEqual([]);
+  });
+});
+
+describe("gateByFacets", () => {
+  it("enforces well-covered facets and degrades sparse ones", () => {
+    const pool = [
+      product("red-dress", "Dress", { colors: ["Red"] }),
+      product("blue-dress", "Dress", { colors: ["Blue"] }),
+    ];
+    const gate = gateByFacets(pool, {
+      constraints: new Map([["color", ["red"]], ["material", ["silk"]]]),
+      inStockOnly: false,
+    });
+    expect(gate.candidates.map((c) => c.handle)).toEqual(["red-dress"]);
+    expect(gate.degraded.map((d) => d.facet)).toEqual(["material"]);
+  });
+});
+
+describe("budget filter and pre-rank", () => {
+  it("filters on price range overlap and keeps unknown prices", () => {
+    const pool = [
+      product("cheap", "Shirt", { price: "20" }),
+      product("range", "Shirt", { priceMinAmount: 50, priceMaxAmount: 90 }),
+      product("dear", "Shirt", { price: "120" }),
+      product("unknown", "Shirt"),
+    ];
+    expect(applyBudgetFilterCandidates(pool, 40, 60).map((c) => c.handle)).toEqual(["range", "unknown"]);
+  });
+
+  it("ranks hard-term and facet matches first", () => {
+    const pool = [
+      product("tee", "Cotton Tee"),
+      product("oxford", "Oxford Shirt", { colors: ["Blue"] }),
+      product("flannel", "Flannel Shirt"),
+    ];
+    const ranked = preRankCandidates(pool, {
+      queryTokens: ["shirt", "blue"],
+      index: buildBM25Index(pool.map((c) => ({ tokens: tokenize(c.searchText || "") }))),
+      hardTerms: ["shirt"],
+      boostTerms: new Set(),
+      hardFacets: { color: "blue" },
+      avoidTerms: [],
+    });
+    expect(ranked.map((r) => r.candidate.handle)).toEqual(["oxford", "flannel", "tee"]);
+  });
+});
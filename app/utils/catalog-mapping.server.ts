@@ -0,0 +1,505 @@
+/**
+ * Catalog index mapping helpers
+ * Converts Shopify product payloads (bulk operation JSONL lines and REST webhook bodies)
+ * into catalog index records, and index rows back into the GraphQL node shape
+ * consumed by mapGraphQLProductNode. Pure functions only (no DB / network).
+ */
+
+import { cleanDescription } from "~/utils/text-indexing.server";
+
+export interface CatalogProductRecord {
+  productGid: string;
+  handle: string;
+  title: string;
+  description: string | null;
+  productType: string | null;
+  vendor: string | null;
+  status: string | null;
+  tags: string[];
+  imageUrl: string | null;
+  onlineStoreUrl: string | null;
+  minPrice: string | null;
+  maxPrice: string | null;
+  currencyCode: string | null;
+  totalInventory: number | null;
+  categoryFullName: string | null;
+  shopifyCreatedAt: Date | null;
+  shopifyUpdatedAt: Date | null;
+}
+
+export interface CatalogVariantRecord {
+  variantGid: string;
+  title: string | null;
+  price: string | null;
+  availableForSale: boolean;
+  inventoryPolicy: string | null;
+  selectedOptions: Array<{ name: string; value: string }>;
+  position: number;
+}
+
+export interface CatalogOptionRecord {
+  name: string;
+  position: number;
+  values: string[];
+}
+
+export interface CatalogMetafieldRecord {
+  namespace: string;
+  key: string;
+  value: string | null;
+  type: string;
+}
+
+export interface CatalogCollectionRef {
+  collectionGid: string;
+  handle: string;
+  title: string;
+}
+
+/**
+ * A product plus its child rows
+ * metafields/collections are undefined when the source payload does not carry them
+ * (e.g. REST product webhooks), meaning "keep whatever the index already has"
+ */
+export interface CatalogProductBundle {
+  product: CatalogProductRecord;
+  variants: CatalogVariantRecord[];
+  options: CatalogOptionRecord[];
+  metafields?: CatalogMetafieldRecord[];
+  collections?: CatalogCollectionRef[];
+}
+
+interface MoneyNode {
+  amount?: string | null;
+  currencyCode?: string | null;
+}
+
+/**
+ * Product line from a bulk operation JSONL file
+ * Fields are optional because the bulk query and Shopify's serializer decide what is present
+ */
+export interface BulkProductNode {
+  id: string;
+  handle?: string | null;
+  title?: string | null;
+  description?: string | null;
+  productType?: string | null;
+  vendor?: string | null;
+  status?: string | null;
+  tags?: unknown;
+  featuredImage?: { url?: string | null } | null;
+  onlineStoreUrl?: string | null;
+  priceRangeV2?: { minVariantPrice?: MoneyNode | null; maxVariantPrice?: MoneyNode | null } | null;
+  totalInventory?: number | null;
+  category?: { fullName?: string | null } | null;
+  createdAt?: string | null;
+  updatedAt?: string | null;
+  options?: Array<{ name?: string | null; position?: number | null; values?: unknown }> | null;
+}
+
+/**
+ * Child line (variant / metafield / collection) from a bulk operation JSONL file
+ */
+export interface BulkChildNode {
+  id?: string;
+  __parentId?: string;
+  title?: string | null;
+  price?: string | null;
+  availableForSale?: boolean | null;
+  inventoryPolicy?: string | null;
+  selectedOptions?: Array<{ name?: string | null; value?: string | null }> | null;
+  position?: number | null;
+  namespace?: string | null;
+  key?: string | null;
+  value?: string | null;
+  type?: string | null;
+  handle?: string | null;
+}
+
+/**
+ * Any line of a bulk operation JSONL file (children carry __parentId)
+ */
+export type BulkJsonlLine = BulkProductNode & BulkChildNode;
+
+interface WebhookVariant {
+  id?: number | string;
+  admin_graphql_api_id?: string | null;
+  title?: string | null;
+  price?: string | null;
+  option1?: string | null;
+  option2?: string | null;
+  option3?: string | null;
+  inventory_policy?: string | null;
+  inventory_quantity?: number | null;
+  inventory_management?: string | null;
+  position?: number | null;
+}
+
+interface WebhookOption {
+  name?: string | null;
+  position?: number | null;
+  values?: unknown;
+}
+
+/**
+ * REST products/create and products/update webhook body (the fields the index reads)
+ */
+export interface ProductWebhookPayload {
+  id: number | string;
+  admin_graphql_api_id?: string | null;
+  handle?: string | null;
+  title?: string | null;
+  body_html?: string | null;
+  product_type?: string | null;
+  vendor?: string | null;
+  status?: string | null;
+  tags?: string | string[] | null;
+  image?: { src?: string | null } | null;
+  images?: Array<{ src?: string | null }> | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+  variants?: WebhookVariant[] | null;
+  options?: WebhookOption[] | null;
+}
+
+/**
+ * Normalize a numeric or gid id to a Product gid
+ */
+export function toProductGid(id: string | number): string {
+  const value = String(id);
+  return value.startsWith("gid://") ? value : `gid://shopify/Product/${value}`;
+}
+
+/**
+ * Normalize a numeric or gid id to a Collection gid
+ */
+export function toCollectionGid(id: string | number): string {
+  const value = String(id);
+  return value.startsWith("gid://") ? value : `gid://shopify/Collection/${value}`;
+}
+
+function str(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function toDate(value: unknown): Date | null {
+  if (typeof value !== "string" || !value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function priceBounds(prices: Array<string | null>): { min: string | null; max: string | null } {
+  const parsed = prices
+    .map(p => (p === null ? NaN : parseFloat(p)))
+    .filter(n => isFinite(n));
+  if (parsed.length === 0) return { min: null, max: null };
+  return {
+    min: Math.min(...parsed).toFixed(2),
+    max: Math.max(...parsed).toFixed(2),
+  };
+}
+
+/**
+ * Build the lowercased haystack used for index lookups (title/type/vendor/tags)
+ */
+export function buildCatalogSearchText(product: Pick<CatalogProductRecord, "title" | "productType" | "vendor" | "tags">): string {
+  return [product.title, product.productType, product.vendor, ...(product.tags || [])]
+    .filter((part): part is string => typeof part === "string" && part.trim().length > 0)
+    .join(" ")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Map a product node from a bulk operation JSONL file (no children attached yet)
+ */
+export function mapBulkProductNode(node: BulkProductNode): CatalogProductBundle {
+  const minPrice = node?.priceRangeV2?.minVariantPrice;
+  const maxPrice = node?.priceRangeV2?.maxVariantPrice;
+
+  return {
+    product: {
+      productGid: String(node.id),
+      handle: String(node.handle || ""),
+      title: String(node.title || ""),
+      description: str(node.description),
+      productType: str(node.productType),
+      vendor: str(node.vendor),
+      status: str(node.status),
+      tags: Array.isArray(node.tags) ? node.tags.filter((t: unknown) => typeof t === "string") : [],
+      imageUrl: str(node.featuredImage?.url),
+      onlineStoreUrl: str(node.onlineStoreUrl),
+      minPrice: str(minPrice?.amount),
+      maxPrice: str(maxPrice?.amount),
+      currencyCode: str(minPrice?.currencyCode) || str(maxPrice?.currencyCode),
+      totalInventory: typeof node.totalInventory === "number" ? node.totalInventory : null,
+      categoryFullName: str(node.category?.fullName),
+      shopifyCreatedAt: toDate(node.createdAt),
+      shopifyUpdatedAt: toDate(node.updatedAt),
+    },
+    variants: [],
+    options: Array.isArray(node.options)
+      ? node.options.map((opt, index) => ({
+          name: String(opt?.name || ""),
+          position: typeof opt?.position === "number" ? opt.position : index + 1,
+          values: Array.isArray(opt?.values) ? opt.values.map(String) : [],
+        }))
+      : [],
+    metafields: [],
+    collections: [],
+  };
+}
+
+/**
+ * Attach a child line (variant / metafield / collection) from a bulk JSONL file to its parent bundle
+ * Returns false when the line type is not recognised
+ */
+export function attachBulkChildNode(bundle: CatalogProductBundle, node: BulkChildNode): boolean {
+  const gid = typeof node?.id === "string" ? node.id : "";
+
+  if (gid.startsWith("gid://shopify/ProductVariant/")) {
+    bundle.variants.push({
+      variantGid: gid,
+      title: str(node.title),
+      price: str(node.price),
+      availableForSale: node.availableForSale === true,
+      inventoryPolicy: str(node.inventoryPolicy),
+      selectedOptions: Array.isArray(node.selectedOptions)
+        ? node.selectedOptions
+            .filter(opt => opt?.name && opt?.value)
+            .map(opt => ({ name: String(opt.name), value: String(opt.value) }))
+        : [],
+      position: typeof node.position === "number" ? node.position : bundle.variants.length + 1,
+    });
+    return true;
+  }
+
+  if (gid.startsWith("gid://shopify/Metafield/")) {
+    if (node.namespace && node.key) {
+      (bundle.metafields ||= []).push({
+        namespace: String(node.namespace),
+        key: String(node.key),
+        value: typeof node.value === "string" ? node.value : null,
+        type: str(node.type) || "single_line_text_field",
+      });
+    }
+    return true;
+  }
+
+  if (gid.startsWith("gid://shopify/Collection/")) {
+    if (node.handle && node.title) {
+      (bundle.collections ||= []).push({
+        collectionGid: gid,
+        handle: String(node.handle),
+        title: String(node.title),
+      });
+    }
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Map a REST products/create or products/update webhook body
+ * Webhook bodies carry no metafields, collection membership or currency code
+ */
+export function mapWebhookProductPayload(payload: ProductWebhookPayload): CatalogProductBundle {
+  const restVariants: WebhookVariant[] = Array.isArray(payload?.variants) ? payload.variants : [];
+  const restOptions: WebhookOption[] = Array.isArray(payload?.options) ? payload.options : [];
+  const optionNames = restOptions
+    .slice()
+    .sort((a, b) => (a?.position ?? 0) - (b?.position ?? 0))
+    .map(opt => String(opt?.name || ""));
+
+  const variants: CatalogVariantRecord[] = restVariants.map((v, index) => {
+    const selectedOptions: Array<{ name: string; value: string }> = [];
+    [v?.option1, v?.option2, v?.option3].forEach((value, i) => {
+      if (typeof value === "string" && value && optionNames[i]) {
+        selectedOptions.push({ name: optionNames[i], value });
+      }
+    });
+
+    const policy = str(v?.inventory_policy);
+    const quantity = typeof v?.inventory_quantity === "number" ? v.inventory_quantity : null;
+    // Untracked inventory, positive stock or "continue selling" all mean purchasable
+    const availableForSale =
+      v?.inventory_management === null ||
+      (quantity !== null && quantity > 0) ||
+      policy?.toLowerCase() === "continue";
+
+    return {
+      variantGid: str(v?.admin_graphql_api_id) || `gid://shopify/ProductVariant/${v?.id}`,
+      title: str(v?.title),
+      price: str(v?.price),
+      availableForSale,
+      inventoryPolicy: policy ? policy.toUpperCase() : null,
+      selectedOptions,
+      position: typeof v?.position === "number" ? v.position : index + 1,
+    };
+  });
+
+  const tags = typeof payload?.tags === "string"
+    ? payload.tags.split(",").map(t => t.trim()).filter(Boolean)
+    : Array.isArray(payload?.tags) ? payload.tags.map(String) : [];
+
+  const bounds = priceBounds(variants.map(v => v.price));
+  const totalInventory = restVariants.some(v => typeof v?.inventory_quantity === "number")
+    ? restVariants.reduce((sum, v) => sum + (typeof v?.inventory_quantity === "number" ? v.inventory_quantity : 0), 0)
+    : null;
+  const description = cleanDescription(payload?.body_html);
+
+  return {
+    product: {
+      productGid: str(payload?.admin_graphql_api_id) || toProductGid(payload?.id),
+      handle: String(payload?.handle || ""),
+      title: String(payload?.title || ""),
+      description: description || null,
+      productType: str(payload?.product_type),
+      vendor: str(payload?.vendor),
+      status: str(payload?.status)?.toUpperCase() || null,
+      tags,
+      imageUrl: str(payload?.image?.src) || str(payload?.images?.[0]?.src),
+      onlineStoreUrl: null,
+      minPrice: bounds.min,
+      maxPrice: bounds.max,
+      currencyCode: null,
+      totalInventory,
+      categoryFullName: null,
+      shopifyCreatedAt: toDate(payload?.created_at),
+      shopifyUpdatedAt: toDate(payload?.updated_at),
+    },
+    variants,
+    options: restOptions.map((opt, index) => ({
+      name: String(opt?.name || ""),
+      position: typeof opt?.position === "number" ? opt.position : index + 1,
+      values: Array.isArray(opt?.values) ? opt.values.map(String) : [],
+    })),
+  };
+}
+
+/**
+ * Extract plain search terms from a Shopify Admin search query string
+ * e.g. `(title:coat OR tag:coat) OR (title:"rain jacket")` -> ["coat", "rain jacket"]
+ */
+export function extractSearchTermsFromQuery(query: string): string[] {
+  if (!query || typeof query !== "string") return [];
+
+  const terms = new Set<string>();
+  const pattern = /(?:[a-z_]+:)?(?:"((?:[^"\\]|\\.)*)"|([^\s()"]+))/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const raw = (match[1] ?? match[2] ?? "").replace(/\\(.)/g, "$1");
+    const term = raw.replace(/\*/g, "").trim().toLowerCase();
+    if (!term || term === "or" || term === "and" || term === "not") continue;
+    terms.add(term);
+  }
+
+  return Array.from(terms);
+}
+
+/**
+ * Catalog index row (with relations) as loaded by the catalog index model
+ */
+export interface CatalogProductRow {
+  handle: string;
+  title: string;
+  description: string | null;
+  productType: string | null;
+  vendor: string | null;
+  status: string | null;
+  tags: unknown;
+  imageUrl: string | null;
+  onlineStoreUrl: string | null;
+  minPrice: string | null;
+  maxPrice: string | null;
+  currencyCode: string | null;
+  totalInventory: number | null;
+  categoryFullName: string | null;
+  variants: Array<{ title: string | null; availableForSale: boolean; inventoryPolicy: string | null; selectedOptions: unknown; position: number }>;
+  options: Array<{ name: string; position: number; values: unknown }>;
+  metafields: Array<{ namespace: string; key: string; value: string | null; type: string }>;
+  collections: Array<{ collection: { handle: string; title: string } }>;
+}
+
+/**
+ * Admin GraphQL product node shape rebuilt from an index row
+ */
+export interface GraphQLProductNode {
+  handle: string;
+  title: string;
+  featuredImage: { url: string } | null;
+  priceRangeV2: { minVariantPrice: MoneyNode | null; maxVariantPrice: MoneyNode | null };
+  onlineStoreUrl: string | null;
+  tags: string[];
+  totalInventory: number | null;
+  productType: string | null;
+  vendor: string | null;
+  status: string | null;
+  options: Array<{ name: string; values: string[] }>;
+  variants: {
+    edges: Array<{ node: { title: string | null; availableForSale: boolean; selectedOptions: unknown[]; inventoryPolicy: string | null } }>;
+  };
+  collections: { edges: Array<{ node: { title: string; handle: string } }> };
+  metafields: { edges: Array<{ node: CatalogMetafieldRecord }> };
+  productCategory: { productTaxonomyNode: { fullName: string } } | null;
+}
+
+function jsonStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+/**
+ * Rebuild the Admin GraphQL product node shape from an index row
+ * so the pipeline receives exactly what a live fetch would produce
+ */
+export function toGraphQLProductNode(row: CatalogProductRow): GraphQLProductNode {
+  const money = (amount: string | null) =>
+    amount === null ? null : { amount, currencyCode: row.currencyCode };
+
+  return {
+    handle: row.handle,
+    title: row.title,
+    featuredImage: row.imageUrl ? { url: row.imageUrl } : null,
+    priceRangeV2: {
+      minVariantPrice: money(row.minPrice),
+      maxVariantPrice: money(row.maxPrice),
+    },
+    onlineStoreUrl: row.onlineStoreUrl,
+    tags: jsonStringArray(row.tags),
+    totalInventory: row.totalInventory,
+    productType: row.productType,
+    vendor: row.vendor,
+    status: row.status,
+    options: row.options
+      .slice()
+      .sort((a, b) => a.position - b.position)
+      .map(opt => ({ name: opt.name, values: jsonStringArray(opt.values) })),
+    variants: {
+      edges: row.variants
+        .slice()
+        .sort((a, b) => a.position - b.position)
+        .map(v => ({
+          node: {
+            title: v.title,
+            availableForSale: v.availableForSale,
+            selectedOptions: Array.isArray(v.selectedOptions) ? v.selectedOptions : [],
+            inventoryPolicy: v.inventoryPolicy,
+          },
+        })),
+    },
+    collections: {
+      edges: row.collections.map(c => ({ node: { title: c.collection.title, handle: c.collection.handle } })),
+    },
+    metafields: {
+      edges: row.metafields.map(mf => ({ node: mf })),
+    },
+    productCategory: row.categoryFullName
+      ? { productTaxonomyNode: { fullName: row.categoryFullName } }
+      : null,
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Unit tests for catalog index mapping
+ * Covers webhook/bulk payload mapping and search term extraction
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  attachBulkChildNode,
+  buildCatalogSearchText,
+  extractSearchTermsFromQuery,
+  mapBulkProductNode,
+  mapWebhookProductPayload,
+  toGraphQLProductNode,
+} from "./catalog-mapping.server";
+
+describe("extractSearchTermsFromQuery", () => {
+  it("extracts tokens from field-qualified OR clauses", () => {
+    const query = "(title:coat OR product_type:coat OR tag:coat OR vendor:coat) OR (title:wool OR tag:wool)";
+    expect(extractSearchTermsFromQuery(query)).toEqual(["coat", "wool"]);
+  });
+
+  it("keeps quoted phrases intact", () => {
+    const query = '(title:"rain jacket" OR tag:"rain jacket")';
+    expect(extractSearchTermsFromQuery(query)).toEqual(["rain jacket"]);
+  });
+
+  it("drops wildcards and boolean operators", () => {
+    expect(extractSearchTermsFromQuery("title:shirt* AND NOT tag:sale")).toEqual(["shirt", "sale"]);
+    expect(extractSearchTermsFromQuery("")).toEqual([]);
+  });
+});
+
+describe("mapWebhookProductPayload", () => {
+  const payload = {
+    id: 123,
+    admin_graphql_api_id: "gid://shopify/Product/123",
+    handle: "linen-shirt",
+    title: "Linen Shirt",
+    body_html: "<p>Breathable <strong>linen</strong></p>",
+    product_type: "Shirts",
+    vendor: "Acme",
+    status: "active",
+    tags: "summer, linen ,  ",
+    updated_at: "2026-01-02T10:00:00Z",
+    options: [
+      { name: "Size", position: 1, values: ["S", "M"] },
+      { name: "Color", position: 2, values: ["White"] },
+    ],
+    variants: [
+      { id: 1, title: "S / White", price: "40.00", option1: "S", option2: "White", inventory_quantity: 0, inventory_policy: "deny", inventory_management: "shopify" },
+      { id: 2, title: "M / White", price: "45.00", option1: "M", option2: "White", inventory_quantity: 3, inventory_policy: "deny", inventory_management: "shopify" },
+    ],
+    image: { src: "https://cdn.example.com/shirt.jpg" },
+  };
+
+  it("maps core product fields", () => {
+    const { product } = mapWebhookProductPayload(payload);
+    expect(product.productGid).toBe("gid://shopify/Product/123");
+    expect(product.status).toBe("ACTIVE");
+    expect(product.tags).toEqual(["summer", "linen"]);
+    expect(product.description).toBe("Breathable linen");
+    expect(product.minPrice).toBe("40.00");
+    expect(product.maxPrice).toBe("45.00");
+    expect(product.totalInventory).toBe(3);
+    expect(product.imageUrl).toBe("https://cdn.example.com/shirt.jpg");
+    expect(product.currencyCode).toBeNull();
+  });
+
+  it("builds selectedOptions from option1..3 and derives availability", () => {
+    const { variants } = mapWebhookProductPayload(payload);
+    expect(variants[0].selectedOptions).toEqual([
+      { name: "Size", value: "S" },
+      { name: "Color", value: "White" },
+    ]);
+    expect(variants[0].availableForSale).toBe(false);
+    expect(variants[1].availableForSale).toBe(true);
+    expect(variants[0].inventoryPolicy).toBe("DENY");
+  });
+
+  it("leaves metafields and collections undefined so the index keeps them", () => {
+    const bundle = mapWebhookProductPayload(payload);
+    expect(bundle.metafields).toBeUndefined();
+    expect(bundle.collections).toBeUndefined();
+  });
+});
+
+describe("bulk JSONL mapping", () => {
+  it("attaches variant, metafield and collection lines to the parent product", () => {
+    const bundle = mapBulkProductNode({
+      id: "gid://shopify/Product/9",
+      handle: "wool-coat",
+      title: "Wool Coat",
+      status: "ACTIVE",
+      tags: ["winter"],
+      priceRangeV2: {
+        minVariantPrice: { amount: "120.0", currencyCode: "EUR" },
+        maxVariantPrice: { amount: "150.0", currencyCode: "EUR" },
+      },
+      options: [{ name: "Size", position: 1, values: ["M", "L"] }],
+      category: { fullName: "Apparel > Coats" },
+    });
+
+    expect(attachBulkChildNode(bundle, {
+      id: "gid://shopify/ProductVariant/1",
+      title: "M",
+      price: "120.00",
+      availableForSale: true,
+      selectedOptions: [{ name: "Size", value: "M" }],
+      __parentId: "gid://shopify/Product/9",
+    })).toBe(true);
+    expect(attachBulkChildNode(bundle, {
+      id: "gid://shopify/Metafield/5",
+      namespace: "custom",
+      key: "fabric",
+      value: "wool",
+      type: "single_line_text_field",
+      __parentId: "gid://shopify/Product/9",
+    })).toBe(true);
+    expect(attachBulkChildNode(bundle, {
+      id: "gid://shopify/Collection/7",
+      handle: "outerwear",
+      title: "Outerwear",
+      __parentId: "gid://shopify/Product/9",
+    })).toBe(true);
+    expect(attachBulkChildNode(bundle, { id: "gid://shopify/MediaImage/1" })).toBe(false);
+
+    expect(bundle.product.currencyCode).toBe("EUR");
+    expect(bundle.product.categoryFullName).toBe("Apparel > Coats");
+    expect(bundle.variants).toHaveLength(1);
+    expect(bundle.metafields).toEqual([{ namespace: "custom", key: "fabric", value: "wool", type: "single_line_text_field" }]);
+    expect(bundle.collections).toEqual([{ collectionGid: "gid://shopify/Collection/7", handle: "outerwear", title: "Outerwear" }]);
+  });
+});
+
+describe("index rows", () => {
+  it("builds a lowercased search haystack", () => {
+    expect(buildCatalogSearchText({ title: "Wool Coat", productType: "Coats", vendor: null, tags: ["Winter", " "] }))
+      .toBe("wool coat coats winter");
+  });
+
+  it("rebuilds the GraphQL node shape with ordered options and variants", () => {
+    const node = toGraphQLProductNode({
+      handle: "wool-coat",
+      title: "Wool Coat",
+      description: null,
+      productType: "Coats",
+      vendor: "Acme",
+      status: "ACTIVE",
+      tags: ["winter"],
+      imageUrl: null,
+      onlineStoreUrl: null,
+      minPrice: "120.0",
+      maxPrice: "150.0",
+      currencyCode: "EUR",
+      totalInventory: 4,
+      categoryFullName: null,
+      variants: [
+        { title: "L", availableForSale: false, inventoryPolicy: "DENY", selectedOptions: [{ name: "Size", value: "L" }], position: 2 },
+        { title: "M", availableForSale: true, inventoryPolicy: "DENY", selectedOptions: [{ name: "Size", value: "M" }], position: 1 },
+      ],
+      options: [{ name: "Size", position: 1, values: ["M", "L"] }],
+      metafields: [],
+      collections: [{ collection: { handle: "outerwear", title: "Outerwear" } }],
+    });
+
+    expect(node.priceRangeV2.minVariantPrice).toEqual({ amount: "120.0", currencyCode: "EUR" });
+    expect(node.variants.edges.map(e => e.node.title)).toEqual(["M", "L"]);
+    expect(node.collections.edges[0].node).toEqual({ title: "Outerwear", handle: "outerwear" });
+    expect(node.options).toEqual([{ name: "Size", values: ["M", "L"] }]);
+    expect(node.featuredImage).toBeNull();
+  });
+});
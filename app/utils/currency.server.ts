@@ -0,0 +1,309 @@
+/**
+ * Currency detection and conversion for shopper budgets
+ * Detects ISO codes from symbols ("€", "C$"), words ("euros", "yen") and codes ("CAD") in free text,
+ * and converts amounts through a per-shop rate table (see models/currency-rates.server)
+ */
+
+/**
+ * Currencies EditMuse recognises in shopper text and accepts in rate tables
+ */
+export const SUPPORTED_CURRENCY_CODES = [
+  "USD", "EUR", "GBP", "CAD", "AUD", "NZD", "JPY", "CNY", "HKD", "SGD", "TWD", "KRW", "INR", "IDR",
+  "MYR", "THB", "VND", "PHP", "PKR", "AED", "SAR", "QAR", "ILS", "TRY", "CHF", "SEK", "NOK", "DKK",
+  "ISK", "PLN", "CZK", "HUF", "RON", "BGN", "RUB", "UAH", "ZAR", "NGN", "KES", "EGP", "MAD", "BRL",
+  "MXN", "ARS", "CLP", "COP", "PEN",
+];
+
+const SUPPORTED_CODES = new Set(SUPPORTED_CURRENCY_CODES);
+
+// Codes that are also everyday words; only trusted when written in capitals
+const WORD_LIKE_CODES = new Set(["TRY", "PEN", "MAD", "ARS"]);
+
+const DOLLAR_CURRENCIES = new Set(["USD", "CAD", "AUD", "NZD", "HKD", "SGD", "TWD", "MXN", "ARS", "CLP", "COP"]);
+const KRONA_CURRENCIES = new Set(["SEK", "NOK", "DKK", "ISK", "CZK"]);
+const PESO_CURRENCIES = new Set(["MXN", "ARS", "CLP", "COP", "PHP"]);
+const YEN_YUAN_CURRENCIES = new Set(["JPY", "CNY"]);
+const RUPEE_CURRENCIES = new Set(["INR", "PKR"]);
+
+const PREFIXED_DOLLARS: Record<string, string> = {
+  us: "USD",
+  c: "CAD",
+  ca: "CAD",
+  a: "AUD",
+  au: "AUD",
+  nz: "NZD",
+  hk: "HKD",
+  s: "SGD",
+  nt: "TWD",
+  r: "BRL",
+  mx: "MXN",
+};
+
+const SYMBOLS: Record<string, string> = {
+  "£": "GBP",
+  "€": "EUR",
+  "₹": "INR",
+  "₩": "KRW",
+  "₽": "RUB",
+  "₺": "TRY",
+  "₪": "ILS",
+  "₫": "VND",
+  "₱": "PHP",
+  "฿": "THB",
+  "₴": "UAH",
+  "₦": "NGN",
+  "zł": "PLN",
+};
+
+// Unambiguous currency words: recognised anywhere in the text
+const CURRENCY_WORDS: Array<[RegExp, string]> = [
+  [/\b(?:canadian|cdn)\s+dollars?\b/i, "CAD"],
+  [/\b(?:australian|aussie)\s+dollars?\b/i, "AUD"],
+  [/\b(?:new\s+zealand|nz)\s+dollars?\b/i, "NZD"],
+  [/\bhong\s+kong\s+dollars?\b/i, "HKD"],
+  [/\bsingapore\s+dollars?\b/i, "SGD"],
+  [/\b(?:us|american)\s+dollars?\b/i, "USD"],
+  [/\bswiss\s+francs?\b/i, "CHF"],
+  [/\bmexican\s+pesos?\b/i, "MXN"],
+  [/\beuros?\b/i, "EUR"],
+  [/\b(?:sterling|quid)\b/i, "GBP"],
+  [/\b(?:yuan|renminbi|rmb)\b/i, "CNY"],
+  [/\bzloty\b|\bzłoty\b/i, "PLN"],
+  [/\bforints?\b/i, "HUF"],
+  [/\blira\b/i, "TRY"],
+  [/\bdirhams?\b/i, "AED"],
+  [/\bshekels?\b/i, "ILS"],
+  [/\brubles?\b|\broubles?\b/i, "RUB"],
+  [/\brupiah\b/i, "IDR"],
+  [/\bringgit\b/i, "MYR"],
+  [/\bbaht\b/i, "THB"],
+  [/\breais\b/i, "BRL"],
+];
+
+// Words that only mean money next to a number ("20 pounds", "5000 won"); families resolve via the preferred currency
+const AMOUNT_WORDS: Array<[string, string | Set<string>, string]> = [
+  ["dollars?|bucks", DOLLAR_CURRENCIES, "USD"],
+  ["pounds?", "GBP", "GBP"],
+  ["yen", YEN_YUAN_CURRENCIES, "JPY"],
+  ["rupees?", RUPEE_CURRENCIES, "INR"],
+  ["pesos?", PESO_CURRENCIES, "MXN"],
+  ["francs?", "CHF", "CHF"],
+  ["kronor|kronur|krona|kroner|krone", KRONA_CURRENCIES, "SEK"],
+  ["won", "KRW", "KRW"],
+  ["rand", "ZAR", "ZAR"],
+  ["real", "BRL", "BRL"],
+  ["dong", "VND", "VND"],
+];
+
+const NUMBER = "\\d[\\d,.]*";
+
+/**
+ * Regex source for a currency written before an amount ("$", "C$", "€", "eur ")
+ * Lowercase-safe: parsePriceCeiling matches against lowercased text
+ */
+export const CURRENCY_PREFIX_PATTERN = `(?:(?:us|ca|c|au|a|nz|hk|s|nt|r|mx)?\\$|[£€¥₹₩₽₺₪₫₱฿₴₦]|zł|kr\\.?|(?:${SUPPORTED_CURRENCY_CODES.filter((c) => !WORD_LIKE_CODES.has(c)).join("|")})\\b)`;
+
+/**
+ * Regex source for a currency written after an amount ("100 euros", "5000 yen", "80 CAD")
+ */
+export const CURRENCY_SUFFIX_PATTERN = `(?:[£€¥₹₩₽₺₪₫₱฿₴₦]|zł|kr\\b|(?:${SUPPORTED_CURRENCY_CODES.filter((c) => !WORD_LIKE_CODES.has(c)).join("|")}|euros?|dollars?|bucks|pounds?|quid|yen|yuan|rupees?|pesos?|francs?|kronor|krona|kroner|krone|won|rand|reais)\\b)`;
+
+export function normalizeCurrencyCode(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const code = value.trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : null;
+}
+
+export function isCurrencyCode(value: unknown): value is string {
+  const code = normalizeCurrencyCode(value);
+  return code !== null && code === value && SUPPORTED_CODES.has(code);
+}
+
+function resolveFamily(family: string | Set<string>, fallback: string, preferredCurrency?: string | null): string {
+  if (typeof family === "string") return family;
+  const preferred = normalizeCurrencyCode(preferredCurrency);
+  return preferred && family.has(preferred) ? preferred : fallback;
+}
+
+/**
+ * Detects the currency a shopper wrote an amount in
+ * The preferred currency (storefront presentment currency, else shop currency) resolves shared symbols and words:
+ * "$" on a Canadian storefront is CAD, "kr" on a Danish one is DKK.
+ * Returns null when the text names no currency (the amount is then in the preferred currency).
+ */
+export function detectCurrencyCode(text: string, preferredCurrency?: string | null): string | null {
+  if (!text || typeof text !== "string") return null;
+  const matches: Array<{ index: number; code: string }> = [];
+  const add = (match: RegExpExecArray | RegExpMatchArray | null, code: string) => {
+    if (match && match.index !== undefined) matches.push({ index: match.index, code });
+  };
+
+  const dollarPattern = /(^|[^a-z])(us|ca|c|au|a|nz|hk|s|nt|r|mx)?\$/gi;
+  for (const match of text.matchAll(dollarPattern)) {
+    const prefix = match[2]?.toLowerCase();
+    const code = prefix ? PREFIXED_DOLLARS[prefix] : resolveFamily(DOLLAR_CURRENCIES, "USD", preferredCurrency);
+    matches.push({ index: (match.index ?? 0) + match[1].length, code });
+  }
+
+  const lower = text.toLowerCase();
+  for (const [symbol, code] of Object.entries(SYMBOLS)) {
+    const index = lower.indexOf(symbol);
+    if (index >= 0) matches.push({ index, code });
+  }
+  const yenIndex = text.search(/[¥￥]/);
+  if (yenIndex >= 0) matches.push({ index: yenIndex, code: resolveFamily(YEN_YUAN_CURRENCIES, "JPY", preferredCurrency) });
+  add(text.match(new RegExp(`(?:\\bkr\\.?\\s*${NUMBER}|${NUMBER}\\s*kr\\b)`, "i")), resolveFamily(KRONA_CURRENCIES, "SEK", preferredCurrency));
+
+  // ISO codes: capitals anywhere, lowercase only next to an amount
+  for (const match of text.matchAll(/\b[A-Z]{3}\b/g)) {
+    if (SUPPORTED_CODES.has(match[0])) add(match, match[0]);
+  }
+  for (const match of text.matchAll(new RegExp(`(${NUMBER})\\s*([a-z]{3})\\b|\\b([a-z]{3})\\s*${NUMBER}`, "gi"))) {
+    const code = (match[2] || match[3]).toUpperCase();
+    if (SUPPORTED_CODES.has(code) && !WORD_LIKE_CODES.has(code)) add(match, code);
+  }
+
+  for (const [pattern, code] of CURRENCY_WORDS) add(text.match(pattern), code);
+  for (const [words, family, fallback] of AMOUNT_WORDS) {
+    add(text.match(new RegExp(`${NUMBER}\\s*(?:${words})\\b`, "i")), resolveFamily(family, fallback, preferredCurrency));
+  }
+
+  if (matches.length === 0) return null;
+  matches.sort((a, b) => a.index - b.index);
+  return matches[0].code;
+}
+
+/**
+ * Rates are units of each currency per 1 unit of the base (shop) currency,
+ * the same direction as Shopify's storefront presentment rate (window.Shopify.currency.rate)
+ */
+export type CurrencyRateTable = {
+  baseCurrency: string;
+  rates: Record<string, number>;
+};
+
+export function getRate(table: CurrencyRateTable, currency: string): number | null {
+  if (currency === table.baseCurrency) return 1;
+  const rate = table.rates[currency];
+  return typeof rate === "number" && Number.isFinite(rate) && rate > 0 ? rate : null;
+}
+
+/**
+ * Units of toCurrency per 1 unit of fromCurrency (via the base currency), or null when either rate is missing
+ */
+export function getConversionRate(fromCurrency: string, toCurrency: string, table: CurrencyRateTable): number | null {
+  if (fromCurrency === toCurrency) return 1;
+  const fromRate = getRate(table, fromCurrency);
+  const toRate = getRate(table, toCurrency);
+  if (fromRate === null || toRate === null) return null;
+  return toRate / fromRate;
+}
+
+/**
+ * Converts an amount between any two currencies in the table, rounded to cents
+ * Returns null when either rate is missing
+ */
+export function convertAmount(amount: number, fromCurrency: string, toCurrency: string, table: CurrencyRateTable): number | null {
+  if (fromCurrency === toCurrency) return amount;
+  const rate = getConversionRate(fromCurrency, toCurrency, table);
+  return rate === null ? null : Math.round(amount * rate * 100) / 100;
+}
+
+export type RateImportResult = {
+  rates: Record<string, number>;
+  errors: string[];
+};
+
+function addImportedRate(result: RateImportResult, rawCode: unknown, rawRate: unknown, label: string) {
+  const code = normalizeCurrencyCode(rawCode);
+  const rate = typeof rawRate === "number" ? rawRate : parseFloat(String(rawRate ?? "").trim());
+  if (!code || !SUPPORTED_CODES.has(code)) {
+    result.errors.push(`${label}: unknown currency "${String(rawCode ?? "").slice(0, 20)}"`);
+  } else if (!Number.isFinite(rate) || rate <= 0) {
+    result.errors.push(`${label}: rate for ${code} must be a positive number`);
+  } else {
+    result.rates[code] = rate;
+  }
+}
+
+/**
+ * Parses an uploaded rate file
+ * CSV:  one "CODE,rate" per line (an optional "currency,rate" header and # comments are skipped)
+ * JSON: { "EUR": 1.17 } or { "base": "GBP", "rates": { "EUR": 1.17 } }
+ * A base in the file must match the shop currency; rates are units per 1 unit of the base.
+ */
+export function parseRateImport(text: string, baseCurrency: string): RateImportResult {
+  const result: RateImportResult = { rates: {}, errors: [] };
+  const trimmed = (text || "").trim();
+  if (!trimmed) {
+    result.errors.push("The file is empty");
+    return result;
+  }
+
+  if (trimmed.startsWith("{")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      result.errors.push("The file is not valid JSON");
+      return result;
+    }
+    const input = parsed as Record<string, unknown>;
+    let rates = input;
+    if (input.rates && typeof input.rates === "object" && !Array.isArray(input.rates)) {
+      const base = normalizeCurrencyCode(input.base);
+      if (base && base !== baseCurrency) {
+        result.errors.push(`Rates are based on ${base}, but the shop currency is ${baseCurrency}`);
+        return result;
+      }
+      rates = input.rates as Record<string, unknown>;
+    }
+    for (const [code, rate] of Object.entries(rates)) {
+      if (code === "base") continue;
+      addImportedRate(result, code, rate, code);
+    }
+  } else {
+    trimmed.split(/\r?\n/).forEach((line, i) => {
+      const row = line.trim();
+      if (!row || row.startsWith("#")) return;
+      const [code, rate] = row.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"|"$/g, ""));
+      if (i === 0 && /^currency$/i.test(code)) return;
+      addImportedRate(result, code, rate, `Line ${i + 1}`);
+    });
+  }
+
+  delete result.rates[baseCurrency];
+  if (Object.keys(result.rates).length === 0 && result.errors.length === 0) {
+    result.errors.push("No rates found in the file");
+  }
+  return result;
+}
+
+/**
+ * Reads the storefront's Shopify Markets presentment currency from the session-start body
+ * The rate is presentment units per 1 shop currency unit, as reported by window.Shopify.currency.rate
+ */
+export function parsePresentmentCurrency(body: { presentmentCurrency?: unknown; presentmentRate?: unknown } | null | undefined): {
+  currency: string;
+  rate: number | null;
+} | null {
+  const currency = normalizeCurrencyCode(body?.presentmentCurrency);
+  if (!currency) return null;
+  const rate = typeof body?.presentmentRate === "number" ? body.presentmentRate : parseFloat(String(body?.presentmentRate ?? ""));
+  return { currency, rate: Number.isFinite(rate) && rate > 0 ? rate : null };
+}
+
+/**
+ * Reads a presentment currency stored on a session (ConciergeSession.presentmentJson)
+ */
+export function parseStoredPresentment(json: string | null | undefined): { currency: string; rate: number | null } | null {
+  if (!json) return null;
+  try {
+    const parsed: unknown = JSON.parse(json);
+    if (!parsed || typeof parsed !== "object") return null;
+    const { currency, rate } = parsed as { currency?: unknown; rate?: unknown };
+    return parsePresentmentCurrency({ presentmentCurrency: currency, presentmentRate: rate });
+  } catch {
+    return null;
+  }
+}
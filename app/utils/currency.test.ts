@@ -0,0 +1,104 @@
+/**
+ * Unit tests for shopper budget currencies
+ * Detection from symbols, codes and words, rate-table conversion and rate file imports
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  convertAmount,
+  detectCurrencyCode,
+  getConversionRate,
+  parsePresentmentCurrency,
+  parseRateImport,
+  parseStoredPresentment,
+  type CurrencyRateTable,
+} from "./currency.server";
+
+describe("detectCurrencyCode", () => {
+  it("detects symbols, prefixed dollars and ISO codes", () => {
+    expect(detectCurrencyCode("under €100")).toBe("EUR");
+    expect(detectCurrencyCode("up to £80")).toBe("GBP");
+    expect(detectCurrencyCode("less than C$120")).toBe("CAD");
+    expect(detectCurrencyCode("around ₹2000")).toBe("INR");
+    expect(detectCurrencyCode("max 150 CAD")).toBe("CAD");
+    expect(detectCurrencyCode("spend aud 90")).toBe("AUD");
+  });
+
+  it("detects currency words", () => {
+    expect(detectCurrencyCode("under 100 euros")).toBe("EUR");
+    expect(detectCurrencyCode("about 5000 yen")).toBe("JPY");
+    expect(detectCurrencyCode("no more than 40 quid")).toBe("GBP");
+    expect(detectCurrencyCode("in canadian dollars please")).toBe("CAD");
+  });
+
+  it("resolves shared symbols and words with the preferred currency", () => {
+    expect(detectCurrencyCode("under $50")).toBe("USD");
+    expect(detectCurrencyCode("under $50", "CAD")).toBe("CAD");
+    expect(detectCurrencyCode("under $50", "EUR")).toBe("USD");
+    expect(detectCurrencyCode("under 500 kr", "DKK")).toBe("DKK");
+    expect(detectCurrencyCode("20 dollars", "AUD")).toBe("AUD");
+  });
+
+  it("ignores words and lowercase codes that are not money", () => {
+    expect(detectCurrencyCode("we won the match")).toBeNull();
+    expect(detectCurrencyCode("try a cad drawing pen")).toBeNull();
+    expect(detectCurrencyCode("under 100")).toBeNull();
+  });
+});
+
+describe("currency conversion", () => {
+  const table: CurrencyRateTable = { baseCurrency: "GBP", rates: { EUR: 1.17, USD: 1.27 } };
+
+  it("converts to and from the base currency", () => {
+    expect(convertAmount(117, "EUR", "GBP", table)).toBe(100);
+    expect(convertAmount(100, "GBP", "USD", table)).toBe(127);
+  });
+
+  it("converts between two non-base currencies via the base", () => {
+    expect(getConversionRate("EUR", "USD", table)).toBeCloseTo(1.27 / 1.17, 6);
+    expect(convertAmount(100, "EUR", "USD", table)).toBe(108.55);
+  });
+
+  it("returns null when a rate is missing", () => {
+    expect(convertAmount(100, "JPY", "GBP", table)).toBeNull();
+    expect(convertAmount(100, "GBP", "GBP", table)).toBe(100);
+  });
+});
+
+describe("parseRateImport", () => {
+  it("reads CSV with a header, comments and bad rows", () => {
+    const result = parseRateImport("currency,rate\n# ECB rates\nEUR,1.17\nusd; 1.27\nXYZ,2\nJPY,-1\n", "GBP");
+    expect(result.rates).toEqual({ EUR: 1.17, USD: 1.27 });
+    expect(result.errors).toHaveLength(2);
+  });
+
+  it("reads flat and based JSON and rejects a different base", () => {
+    expect(parseRateImport('{"EUR": 1.17, "GBP": 1}', "GBP").rates).toEqual({ EUR: 1.17 });
+    expect(parseRateImport('{"base": "GBP", "rates": {"USD": "1.27"}}', "GBP").rates).toEqual({ USD: 1.27 });
+
+    const wrongBase = parseRateImport('{"base": "USD", "rates": {"EUR": 0.92}}', "GBP");
+    expect(wrongBase.rates).toEqual({});
+    expect(wrongBase.errors[0]).toContain("USD");
+  });
+
+  it("reports empty and unreadable files", () => {
+    expect(parseRateImport("", "GBP").errors).toEqual(["The file is empty"]);
+    expect(parseRateImport("{not json", "GBP").errors).toEqual(["The file is not valid JSON"]);
+  });
+});
+
+describe("parsePresentmentCurrency", () => {
+  it("reads the storefront currency and rate", () => {
+    expect(parsePresentmentCurrency({ presentmentCurrency: "eur", presentmentRate: "1.1705" })).toEqual({ currency: "EUR", rate: 1.1705 });
+    expect(parsePresentmentCurrency({ presentmentCurrency: "CAD" })).toEqual({ currency: "CAD", rate: null });
+    expect(parsePresentmentCurrency({ presentmentCurrency: "dollars" })).toBeNull();
+    expect(parsePresentmentCurrency(null)).toBeNull();
+  });
+
+  it("reads the currency stored on a session back for a requeued job", () => {
+    expect(parseStoredPresentment(JSON.stringify({ currency: "EUR", rate: 1.1705 }))).toEqual({ currency: "EUR", rate: 1.1705 });
+    expect(parseStoredPresentment(JSON.stringify({ currency: "CAD", rate: null }))).toEqual({ currency: "CAD", rate: null });
+    expect(parseStoredPresentment("not json")).toBeNull();
+    expect(parseStoredPresentment(null)).toBeNull();
+  });
+});
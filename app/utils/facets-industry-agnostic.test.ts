@@ -13,7 +13,13 @@ import {
   mergeConstraints,
   relaxConstraints,
   extractConstraintsFromTags,
+  extractMappedFacetValues,
+  discoverTagPrefixes,
+  convertFacetValuesToConstraints,
+  mergeFacetValues,
+  buildAllowedFacetValues,
   FacetConstraint,
+  FacetMappingConfig,
 } from "./facets.server";
 
 describe("Facet Discovery - Non-Fashion Industries", () => {
@@ -302,3 +308,98 @@ describe("Value Matching - Size Equivalences", () => {
   });
 });
 
+describe("Merchant Facet Mapping", () => {
+  const mapping: FacetMappingConfig = {
+    preferredOptionNameAliases: { shade: "color", "fit type": "fit", "custom.scent_family": "scent family" },
+    tagPrefixes: ["fit"],
+    metafieldKeysForConstraints: ["custom.scent_family"],
+    customFacets: ["fit", "scent family"],
+  };
+
+  test("should map option names to the configured facet", () => {
+    const product = {
+      available: true,
+      variants: [{ availableForSale: true, selectedOptions: [{ name: "Shade", value: "Ruby Red" }, { name: "Fit Type", value: "Slim" }] }],
+    };
+
+    expect(productSatisfiesConstraints(product, [{ key: "color", value: "ruby red" }], true)).toBe(false);
+    expect(productSatisfiesConstraints(product, [{ key: "color", value: "ruby red" }], true, mapping)).toBe(true);
+    expect(productSatisfiesConstraints(product, [{ key: "fit", value: "slim" }], true, mapping)).toBe(true);
+
+    const vocabulary = discoverFacetVocabulary([product], mapping);
+    expect(vocabulary.optionNames.has("color")).toBe(true);
+    expect(vocabulary.optionNames.has("fit")).toBe(true);
+    expect(vocabulary.mapping).toBe(mapping);
+  });
+
+  test("should read mapped tag prefixes and list metafields", () => {
+    const values = extractMappedFacetValues(
+      {
+        tags: ["Fit-Relaxed", "sale", "fit:oversized"],
+        metafields: { custom: { scent_family: '["Woody","Citrus"]', other: "x" } },
+      },
+      mapping
+    );
+
+    expect(values.get("fit")).toEqual(["relaxed", "oversized"]);
+    expect(values.get("scent family")).toEqual(["woody", "citrus"]);
+    expect(extractConstraintsFromTags(["fit-relaxed"], new Set(), mapping)).toEqual([{ key: "fit", value: "relaxed" }]);
+    expect(extractConstraintsFromTags(["cf-size-large"], new Set(), { tagPrefixesEnabled: false })).toEqual([]);
+  });
+
+  test("should discover tag prefixes used across products", () => {
+    const prefixes = discoverTagPrefixes([
+      ["fit-slim", "cf-size-m", "new"],
+      ["fit-relaxed"],
+      ["fit-slim", "scent:woody"],
+    ]);
+
+    expect(prefixes).toEqual([{ prefix: "fit", productCount: 3, sampleValues: ["slim", "relaxed"] }]);
+  });
+});
+
+describe("Generic Facet Values", () => {
+  const wine = {
+    available: true,
+    variants: [
+      { availableForSale: true, selectedOptions: [{ name: "Vintage", value: "2016" }, { name: "Bottle Size", value: "750ml" }] },
+      { availableForSale: true, selectedOptions: [{ name: "Vintage", value: "2018" }, { name: "Bottle Size", value: "1.5L" }] },
+    ],
+  };
+
+  test("should convert facet values to constraints with alternatives", () => {
+    const constraints = convertFacetValuesToConstraints({ Vintage: ["2015", "2016 }},"], colour: ["Red"], shade: [] });
+
+    expect(constraints).toEqual([
+      { key: "vintage", value: "2015", values: ["2015", "2016"], scope: undefined },
+      { key: "color", value: "Red", values: ["Red"], scope: undefined },
+    ]);
+  });
+
+  test("should match any alternative of an arbitrary facet", () => {
+    expect(productSatisfiesConstraints(wine, convertFacetValuesToConstraints({ vintage: ["2015", "2016"] }), true)).toBe(true);
+    expect(productSatisfiesConstraints(wine, convertFacetValuesToConstraints({ vintage: ["2015", "2017"] }), true)).toBe(false);
+    // Both facets must hold on the same variant
+    expect(productSatisfiesConstraints(wine, convertFacetValuesToConstraints({ vintage: ["2016"], "bottle size": ["1.5l"] }), true)).toBe(false);
+    expect(productSatisfiesConstraints(wine, convertFacetValuesToConstraints({ vintage: ["2018"], "bottle size": ["1.5l"] }), true)).toBe(true);
+  });
+
+  test("should merge facet values case-insensitively under mapped names", () => {
+    const merged = mergeFacetValues(
+      [{ size: ["Large"] }, { Size: ["large", "XL"], "skin tone": ["Fair"] }],
+      { preferredOptionNameAliases: { "skin tone": "shade" } }
+    );
+
+    expect(merged).toEqual({ size: ["Large", "XL"], shade: ["Fair"] });
+  });
+
+  test("should build allowed values for the intent prompt from the vocabulary", () => {
+    const vocabulary = discoverFacetVocabulary([
+      wine,
+      { variants: [{ selectedOptions: [{ name: "Title", value: "Default Title" }] }] },
+    ]);
+
+    expect(buildAllowedFacetValues(vocabulary)).toEqual({ vintage: ["2016", "2018"], "bottle size": ["750ml", "1.5l"] });
+    expect(buildAllowedFacetValues(vocabulary, { maxFacets: 1, maxValuesPerFacet: 1 })).toEqual({ vintage: ["2016"] });
+  });
+});
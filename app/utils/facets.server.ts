@@ -30,6 +30,8 @@ export function normalizeOptionName(name: string): string {
  * Scans product variants' selectedOptions and builds a set of:
  * - option names seen (e.g. Size, Color, Shade, Scent, Finish, Pack Size, Capacity, Material, Length)
  * - values seen for each option name
+ * With a merchant mapping, option names are mapped to their facet and mapped tag prefixes / metafields
+ * contribute values too; the mapping is returned with the vocabulary so gating can apply it.
  */
 export function discoverFacetVocabulary(
   candidates: Array<{
@@ -37,10 +39,14 @@ export function discoverFacetVocabulary(
       selectedOptions?: Array<{ name: string; value: string }>;
     }>;
     optionValues?: Record<string, string[]>;
-  }>
+    tags?: unknown;
+    metafields?: unknown;
+  }>,
+  config?: FacetMappingConfig
 ): {
   optionNames: Set<string>;
   optionNameToValues: Map<string, Set<string>>;
+  mapping?: FacetMappingConfig;
 } {
   const optionNames = new Set<string>();
   const optionNameToValues = new Map<string, Set<string>>();
@@ -52,7 +58,7 @@ export function discoverFacetVocabulary(
         if (Array.isArray(variant.selectedOptions)) {
           for (const option of variant.selectedOptions) {
             if (option.name && option.value) {
-              const normalizedName = normalizeOptionName(option.name);
+              const normalizedName = applyFacetMapping(option.name, config);
               if (normalizedName) {
                 optionNames.add(normalizedName);
                 if (!optionNameToValues.has(normalizedName)) {
@@ -70,7 +76,7 @@ export function discoverFacetVocabulary(
     if (candidate.optionValues && typeof candidate.optionValues === "object") {
       for (const [optionName, values] of Object.entries(candidate.optionValues)) {
         if (optionName && Array.isArray(values)) {
-          const normalizedName = normalizeOptionName(optionName);
+          const normalizedName = applyFacetMapping(optionName, config);
           if (normalizedName) {
             optionNames.add(normalizedName);
             if (!optionNameToValues.has(normalizedName)) {
@@ -85,20 +91,45 @@ export function discoverFacetVocabulary(
         }
       }
     }
+    
+    // Merchant-mapped tag prefixes and metafields
+    if (config) {
+      for (const [facet, values] of extractMappedFacetValues(candidate, config)) {
+        optionNames.add(facet);
+        if (!optionNameToValues.has(facet)) {
+          optionNameToValues.set(facet, new Set<string>());
+        }
+        values.forEach((value) => optionNameToValues.get(facet)!.add(value));
+      }
+    }
   }
   
-  return { optionNames, optionNameToValues };
+  return config ? { optionNames, optionNameToValues, mapping: config } : { optionNames, optionNameToValues };
 }
 
+/**
+ * Generic facet model: facet name -> requested (or allowed) values
+ * e.g. { size: ["large"], vintage: ["2015", "2016"], "skin type": ["oily"], storage: ["256gb"] }
+ */
+export type FacetValues = Record<string, string[]>;
+
 /**
  * Generic constraint structure
  */
 export interface FacetConstraint {
   key: string; // Normalized option name (e.g., "size", "color", "scent", "capacity")
   value: string; // Constraint value (e.g., "large", "red", "vanilla", "200ml")
+  values?: string[]; // Accepted alternatives (OR), including value - e.g. "2015 or 2016"
   scope?: "global" | "item"; // For bundle mode
 }
 
+/**
+ * All values a constraint accepts (value plus any alternatives)
+ */
+export function getConstraintValues(constraint: FacetConstraint): string[] {
+  return constraint.values && constraint.values.length > 0 ? constraint.values : [constraint.value];
+}
+
 /**
  * Normalize facet value for matching (industry-agnostic)
  * Handles common variations and equivalences
@@ -218,7 +249,8 @@ export function variantSatisfiesConstraints(
   variant: {
     selectedOptions?: Array<{ name: string; value: string }>;
   },
-  constraints: FacetConstraint[]
+  constraints: FacetConstraint[],
+  config?: FacetMappingConfig
 ): boolean {
   if (!Array.isArray(variant.selectedOptions) || variant.selectedOptions.length === 0) {
     return false; // No options to match against
@@ -228,14 +260,14 @@ export function variantSatisfiesConstraints(
   const variantOptions = new Map<string, string>();
   for (const option of variant.selectedOptions) {
     if (option.name && option.value) {
-      const normalizedName = normalizeOptionName(option.name);
+      const normalizedName = applyFacetMapping(option.name, config);
       variantOptions.set(normalizedName, option.value);
     }
   }
   
   // Check each constraint
   for (const constraint of constraints) {
-    const normalizedKey = normalizeOptionName(constraint.key);
+    const normalizedKey = applyFacetMapping(constraint.key, config);
     const variantValue = variantOptions.get(normalizedKey);
     
     if (!variantValue) {
@@ -243,8 +275,8 @@ export function variantSatisfiesConstraints(
       return false;
     }
     
-    // Check if value matches
-    if (!valueMatchesConstraint(variantValue, constraint.value)) {
+    // Check if value matches (any accepted alternative)
+    if (!getConstraintValues(constraint).some((value) => valueMatchesConstraint(variantValue, value))) {
       return false;
     }
   }
@@ -264,7 +296,8 @@ export function productSatisfiesConstraints(
     available?: boolean;
   },
   constraints: FacetConstraint[],
-  requireAvailable: boolean = true
+  requireAvailable: boolean = true,
+  config?: FacetMappingConfig
 ): boolean {
   if (constraints.length === 0) {
     // No constraints - check availability only
@@ -282,7 +315,7 @@ export function productSatisfiesConstraints(
       continue; // Skip unavailable variants
     }
     
-    if (variantSatisfiesConstraints(variant, constraints)) {
+    if (variantSatisfiesConstraints(variant, constraints, config)) {
       return true;
     }
   }
@@ -295,15 +328,29 @@ export function productSatisfiesConstraints(
  * Parses tags with generic prefix patterns:
  * - cf-size-*, cf-color-*, cf-material-*
  * - {key}-{value} and {key}:{value} patterns where key is one of the discovered option names
+ * A merchant mapping can turn the adapter off, or add its own tag prefixes (mapped to their facet)
  */
 export function extractConstraintsFromTags(
   tags: string[],
-  discoveredOptionNames: Set<string>
+  discoveredOptionNames: Set<string>,
+  config?: FacetMappingConfig
 ): FacetConstraint[] {
   const constraints: FacetConstraint[] = [];
   const seen = new Set<string>(); // Dedupe by key+value
   
   if (!Array.isArray(tags)) return constraints;
+  if (config?.tagPrefixesEnabled === false) return constraints;
+  
+  // Merchant-mapped prefixes first, so their facet name wins over a same-named option
+  for (const [facet, values] of extractMappedFacetValues({ tags }, { tagPrefixes: config?.tagPrefixes, preferredOptionNameAliases: config?.preferredOptionNameAliases })) {
+    for (const value of values) {
+      const constraintKey = `${facet}:${value}`;
+      if (!seen.has(constraintKey)) {
+        seen.add(constraintKey);
+        constraints.push({ key: facet, value });
+      }
+    }
+  }
   
   for (const tag of tags) {
     if (typeof tag !== "string") continue;
@@ -314,7 +361,7 @@ export function extractConstraintsFromTags(
       if (parts.length >= 2) {
         const key = parts[0];
         const value = parts.slice(1).join("-");
-        const normalizedKey = normalizeOptionName(key);
+        const normalizedKey = applyFacetMapping(key, config);
         
         // Only add if key matches a discovered option name (or is a known generic key)
         if (discoveredOptionNames.has(normalizedKey) || 
@@ -355,12 +402,119 @@ export function extractConstraintsFromTags(
 }
 
 /**
- * Merchant-configurable facet mapping
+ * Merchant-configurable facet mapping (stored per shop, edited on the Facet mapping settings page)
  */
 export interface FacetMappingConfig {
-  preferredOptionNameAliases?: Record<string, string>; // e.g., { "colour": "color" }
-  metafieldKeysForConstraints?: string[]; // Optional metafield keys to check for constraints
+  preferredOptionNameAliases?: Record<string, string>; // Option name, tag prefix or "namespace.key" -> facet, e.g., { "colour": "color", "fit-type": "fit" }
+  metafieldKeysForConstraints?: string[]; // Optional metafield keys ("namespace.key") to check for constraints
   tagPrefixesEnabled?: boolean; // Whether to use tag adapters (default: true)
+  tagPrefixes?: string[]; // Extra tag prefixes read as facets ("fit" reads "fit-slim" and "fit:slim")
+  customFacets?: string[]; // Merchant-defined facets beyond size/color/material (e.g., "fit", "scent family")
+}
+
+/**
+ * Reads facet values from a product's merchant-mapped tag prefixes and metafields
+ * Accepts metafields as an array of { namespace, key, value } or as a namespace -> key -> value object.
+ * List metafields (JSON arrays) contribute each entry.
+ */
+export function extractMappedFacetValues(
+  product: { tags?: unknown; metafields?: unknown },
+  config?: FacetMappingConfig
+): Map<string, string[]> {
+  const result = new Map<string, string[]>();
+  if (!config) return result;
+  
+  const add = (facet: string, rawValue: string) => {
+    const value = rawValue.toLowerCase().trim();
+    if (!facet || !value) return;
+    const values = result.get(facet) ?? [];
+    if (!values.includes(value)) values.push(value);
+    result.set(facet, values);
+  };
+  
+  const prefixes = (config.tagPrefixes || []).map((p) => p.toLowerCase().trim()).filter(Boolean);
+  if (config.tagPrefixesEnabled !== false && prefixes.length > 0 && Array.isArray(product.tags)) {
+    for (const tag of product.tags) {
+      if (typeof tag !== "string") continue;
+      const lowerTag = tag.toLowerCase().trim();
+      for (const prefix of prefixes) {
+        if (lowerTag.startsWith(`${prefix}-`) || lowerTag.startsWith(`${prefix}:`)) {
+          add(applyFacetMapping(prefix, config), lowerTag.slice(prefix.length + 1));
+        }
+      }
+    }
+  }
+  
+  const metafieldKeys = new Set((config.metafieldKeysForConstraints || []).map((k) => k.toLowerCase().trim()));
+  if (metafieldKeys.size > 0 && product.metafields && typeof product.metafields === "object") {
+    const entries: Array<{ namespace: string; key: string; value: unknown }> = [];
+    if (Array.isArray(product.metafields)) {
+      entries.push(...product.metafields.filter((m) => m && typeof m.namespace === "string" && typeof m.key === "string"));
+    } else {
+      for (const [namespace, fields] of Object.entries(product.metafields as Record<string, unknown>)) {
+        if (fields && typeof fields === "object") {
+          for (const [key, value] of Object.entries(fields as Record<string, unknown>)) {
+            entries.push({ namespace, key, value });
+          }
+        }
+      }
+    }
+    
+    for (const entry of entries) {
+      const fullKey = `${entry.namespace}.${entry.key}`.toLowerCase();
+      if (!metafieldKeys.has(fullKey) || typeof entry.value !== "string") continue;
+      // Unmapped metafields use their key as the facet name
+      const facet = config.preferredOptionNameAliases?.[fullKey]
+        ? applyFacetMapping(fullKey, config)
+        : normalizeOptionName(entry.key.replace(/_/g, " "));
+      let values: unknown = entry.value;
+      if (entry.value.trim().startsWith("[")) {
+        try {
+          values = JSON.parse(entry.value);
+        } catch {
+          // Not a list metafield; use the raw string
+        }
+      }
+      for (const value of Array.isArray(values) ? values : [values]) {
+        if (typeof value === "string") add(facet, value);
+      }
+    }
+  }
+  
+  return result;
+}
+
+/**
+ * Finds tag prefixes that look like facets: "{prefix}-{value}" or "{prefix}:{value}" on at least
+ * minProducts products with at least two distinct values (cf-* adapter tags are always read, so skipped)
+ */
+export function discoverTagPrefixes(
+  tagLists: string[][],
+  minProducts: number = 3
+): Array<{ prefix: string; productCount: number; sampleValues: string[] }> {
+  const stats = new Map<string, { products: number; values: Set<string> }>();
+  
+  for (const tags of tagLists) {
+    const seenOnProduct = new Set<string>();
+    for (const tag of tags) {
+      if (typeof tag !== "string") continue;
+      const match = tag.toLowerCase().trim().match(/^([a-z][a-z0-9 _]{1,24})[-:](.+)$/);
+      if (!match || match[1] === "cf") continue;
+      const [, prefix, value] = match;
+      const entry = stats.get(prefix) ?? { products: 0, values: new Set<string>() };
+      entry.values.add(value.trim());
+      if (!seenOnProduct.has(prefix)) {
+        seenOnProduct.add(prefix);
+        entry.products++;
+      }
+      stats.set(prefix, entry);
+    }
+  }
+  
+  return Array.from(stats.entries())
+    .filter(([, entry]) => entry.products >= minProducts && entry.values.size >= 2)
+    .map(([prefix, entry]) => ({ prefix, productCount: entry.products, sampleValues: Array.from(entry.values).slice(0, 5) }))
+    .sort((a, b) => b.productCount - a.productCount);
 }
 
 /**
@@ -406,6 +560,86 @@ export function convertHardFacetsToConstraints(
   return constraints;
 }
 
+/**
+ * Convert generic facet values to constraints (one constraint per facet, values are OR alternatives)
+ * Facet names go through the merchant mapping; malformed and duplicate values are dropped
+ */
+export function convertFacetValuesToConstraints(
+  facets: FacetValues,
+  scope?: "global" | "item",
+  config?: FacetMappingConfig
+): FacetConstraint[] {
+  const constraints: FacetConstraint[] = [];
+  for (const [facet, values] of Object.entries(mergeFacetValues([facets], config))) {
+    const cleaned = values
+      .map((value) => value.trim().replace(/[}},]+$/, "").replace(/[,;]+$/, "").trim())
+      .filter((value) => value.length > 0);
+    if (cleaned.length === 0) continue;
+    constraints.push({ key: facet, value: cleaned[0], values: cleaned, scope });
+  }
+  return constraints;
+}
+
+/**
+ * Union of facet value maps, keyed by mapped facet name (values deduped case-insensitively, first spelling wins)
+ */
+export function mergeFacetValues(
+  sources: Array<FacetValues | null | undefined>,
+  config?: FacetMappingConfig
+): FacetValues {
+  const merged: FacetValues = {};
+  for (const source of sources) {
+    if (!source) continue;
+    for (const [name, values] of Object.entries(source)) {
+      const facet = applyFacetMapping(name, config);
+      if (!facet || !Array.isArray(values)) continue;
+      const target = merged[facet] ?? [];
+      for (const value of values) {
+        if (typeof value !== "string" || !value.trim()) continue;
+        if (!target.some((existing) => normalizeFacetValue(existing) === normalizeFacetValue(value))) {
+          target.push(value.trim());
+        }
+      }
+      if (target.length > 0) merged[facet] = target;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Legacy size/color/material facets as generic facet values
+ */
+export function hardFacetsToFacetValues(
+  hardFacets: { size?: string | null; color?: string | null; material?: string | null }
+): FacetValues {
+  const facets: FacetValues = {};
+  if (hardFacets.size) facets.size = [hardFacets.size];
+  if (hardFacets.color) facets.color = [hardFacets.color];
+  if (hardFacets.material) facets.material = [hardFacets.material];
+  return facets;
+}
+
+/**
+ * Turn a discovered vocabulary into the allowed facet names/values given to the intent LLM
+ * Facets seen on the most values come first; both facets and values are capped to keep the prompt small
+ */
+export function buildAllowedFacetValues(
+  vocabulary: { optionNameToValues: Map<string, Set<string>> },
+  limits: { maxFacets?: number; maxValuesPerFacet?: number } = {}
+): FacetValues {
+  const { maxFacets = 12, maxValuesPerFacet = 30 } = limits;
+  const allowed: FacetValues = {};
+  const entries = Array.from(vocabulary.optionNameToValues.entries())
+    // Shopify's single-variant placeholder option is not a facet
+    .filter(([name, values]) => name && name !== "title" && values.size > 0)
+    .sort((a, b) => b[1].size - a[1].size)
+    .slice(0, maxFacets);
+  for (const [name, values] of entries) {
+    allowed[name] = Array.from(values).slice(0, maxValuesPerFacet);
+  }
+  return allowed;
+}
+
 /**
  * Convert old optionConstraints format to generic constraints array
  */
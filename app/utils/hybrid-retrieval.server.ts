@@ -0,0 +1,111 @@
+/**
+ * Hybrid retrieval: BM25 and vector similarity fused with reciprocal rank fusion (RRF)
+ * RRF only looks at ranks, so BM25 scores and cosine similarities never need a common scale.
+ */
+
+import crypto from "crypto";
+import { cleanDescription } from "~/utils/text-indexing.server";
+
+export const RRF_K = 60;
+const MAX_DESCRIPTION_CHARS = 1000;
+
+export type EmbeddableProduct = {
+  title?: string | null;
+  productType?: string | null;
+  vendor?: string | null;
+  tags?: string[] | null;
+  description?: string | null;
+};
+
+/**
+ * Text embedded for a product; the same for catalog-index rows and live-fetched candidates
+ */
+export function buildEmbeddingText(product: EmbeddableProduct): string {
+  const description = cleanDescription(product.description).substring(0, MAX_DESCRIPTION_CHARS);
+  return [
+    product.title || "",
+    product.productType ? `Type: ${product.productType}` : "",
+    product.vendor ? `Brand: ${product.vendor}` : "",
+    product.tags && product.tags.length > 0 ? `Tags: ${product.tags.join(", ")}` : "",
+    description,
+  ].filter(Boolean).join("\n");
+}
+
+export function embeddingTextHash(text: string): string {
+  return crypto.createHash("sha1").update(text).digest("hex");
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Fuses ranked handle lists: score = sum of weight / (k + rank) over the lists a handle appears in
+ * Ties keep the order of the first list.
+ */
+export function reciprocalRankFusion(
+  rankings: Array<{ handles: string[]; weight?: number }>,
+  k: number = RRF_K
+): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const { handles, weight = 1 } of rankings) {
+    handles.forEach((handle, index) => {
+      scores.set(handle, (scores.get(handle) || 0) + weight / (k + index + 1));
+    });
+  }
+  return scores;
+}
+
+export type HybridFusionResult<T> = {
+  ranked: Array<{ candidate: T; score: number }>;
+  /** Candidates that had a vector (the rest only carry their BM25 rank) */
+  vectorCount: number;
+  /** Candidates moved into the top `window` by the vector ranking */
+  promoted: string[];
+};
+
+/**
+ * Re-orders BM25-ranked candidates with their vector similarity to the query
+ * `ranked` must already be sorted by BM25 score. The fused RRF score is rescaled so the top candidate
+ * keeps the top BM25 score: the AI window selection compares family scores in BM25 units.
+ */
+export function fuseHybridRanking<T extends { handle: string }>(
+  ranked: Array<{ candidate: T; score: number }>,
+  queryVector: number[],
+  vectors: Map<string, number[]>,
+  options: { k?: number; vectorWeight?: number; window?: number } = {}
+): HybridFusionResult<T> {
+  const byVector = ranked
+    .filter((r) => vectors.has(r.candidate.handle))
+    .map((r, index) => ({ handle: r.candidate.handle, similarity: cosineSimilarity(queryVector, vectors.get(r.candidate.handle)!), index }))
+    .sort((a, b) => b.similarity - a.similarity || a.index - b.index);
+
+  const fused = reciprocalRankFusion([
+    { handles: ranked.map((r) => r.candidate.handle) },
+    { handles: byVector.map((v) => v.handle), weight: options.vectorWeight ?? 1 },
+  ], options.k ?? RRF_K);
+
+  const topFused = Math.max(0, ...fused.values());
+  const topBM25 = ranked.length > 0 ? Math.max(ranked[0].score, 0) : 0;
+  const scale = topFused > 0 && topBM25 > 0 ? topBM25 / topFused : 1;
+  const reordered = ranked
+    .map((r, index) => ({ candidate: r.candidate, score: (fused.get(r.candidate.handle) || 0) * scale, index }))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  const window = options.window ?? 0;
+  const lexicalTop = new Set(ranked.slice(0, window).map((r) => r.candidate.handle));
+  return {
+    ranked: reordered.map(({ candidate, score }) => ({ candidate, score })),
+    vectorCount: byVector.length,
+    promoted: reordered.slice(0, window).map((r) => r.candidate.handle).filter((handle) => !lexicalTop.has(handle)),
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for hybrid retrieval
+ * Reciprocal rank fusion, BM25 + vector re-ordering, and the deterministic local embedding stub
+ */
+
+import { describe, expect, it } from "vitest";
+import { LocalHashEmbeddingProvider } from "~/models/embedding-provider.server";
+import {
+  buildEmbeddingText,
+  cosineSimilarity,
+  embeddingTextHash,
+  fuseHybridRanking,
+  reciprocalRankFusion,
+} from "./hybrid-retrieval.server";
+
+const ranked = (handles: string[]) => handles.map((handle, i) => ({ candidate: { handle }, score: 10 - i }));
+
+describe("reciprocalRankFusion", () => {
+  it("rewards handles ranked well in several lists", () => {
+    const scores = reciprocalRankFusion([{ handles: ["a", "b", "c"] }, { handles: ["c", "b", "a"] }, { handles: ["b"] }]);
+    expect(scores.get("b")!).toBeGreaterThan(scores.get("a")!);
+    expect(scores.get("a")).toBeCloseTo(scores.get("c")!);
+  });
+
+  it("applies list weights", () => {
+    const scores = reciprocalRankFusion([{ handles: ["a", "b"] }, { handles: ["b", "a"], weight: 2 }]);
+    expect(scores.get("b")!).toBeGreaterThan(scores.get("a")!);
+  });
+});
+
+describe("fuseHybridRanking", () => {
+  const query = [1, 0];
+  const vectors = new Map([
+    ["a", [0, 1]],
+    ["b", [0.9, 0.4]],
+    ["c", [0.1, 1]],
+    ["d", [1, 0]],
+    ["e", [0.5, 1]],
+  ]);
+
+  it("moves vector matches up and keeps the top score in BM25 units", () => {
+    // Vector order d, b, e, c, a
+    const fused = fuseHybridRanking(ranked(["a", "b", "c", "d", "e"]), query, vectors, { window: 2 });
+    expect(fused.ranked.map((r) => r.candidate.handle)).toEqual(["b", "d", "a", "c", "e"]);
+    expect(fused.ranked[0].score).toBeCloseTo(10);
+    expect(fused.vectorCount).toBe(5);
+    expect(fused.promoted).toEqual(["d"]);
+  });
+
+  it("keeps the BM25 order among candidates without vectors", () => {
+    const fused = fuseHybridRanking(ranked(["x", "y", "d"]), query, vectors);
+    expect(fused.ranked.map((r) => r.candidate.handle)).toEqual(["d", "x", "y"]);
+    expect(fused.vectorCount).toBe(1);
+  });
+});
+
+describe("LocalHashEmbeddingProvider", () => {
+  const provider = new LocalHashEmbeddingProvider();
+
+  it("is deterministic and L2-normalized", async () => {
+    const [first, again] = await provider.embed(["Waterproof hiking jacket", "Waterproof hiking jacket"]);
+    expect(first).toEqual(again);
+    expect(first).toHaveLength(256);
+    expect(cosineSimilarity(first, first)).toBeCloseTo(1);
+  });
+
+  it("places texts sharing words (and word forms) closer together", async () => {
+    const [query, jacket, mug] = await provider.embed([
+      "rain jackets",
+      buildEmbeddingText({ title: "Storm Rain Jacket", productType: "Outerwear", tags: ["waterproof"] }),
+      buildEmbeddingText({ title: "Ceramic Coffee Mug", productType: "Kitchen" }),
+    ]);
+    expect(cosineSimilarity(query, jacket)).toBeGreaterThan(cosineSimilarity(query, mug));
+  });
+});
+
+describe("buildEmbeddingText", () => {
+  it("strips description markup and hashes changes", () => {
+    const text = buildEmbeddingText({ title: "Linen Shirt", vendor: "Acme", description: "<p>Breathable &amp; light</p>" });
+    expect(text).toContain("Brand: Acme");
+    expect(text).not.toContain("<p>");
+    expect(embeddingTextHash(text)).toBe(embeddingTextHash(text));
+    expect(embeddingTextHash(text)).not.toBe(embeddingTextHash(`${text} `));
+  });
+});
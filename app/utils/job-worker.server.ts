@@ -0,0 +1,213 @@
+/**
+ * In-process worker for the Postgres job queue (models/job-queue.server) and the stale session sweeper
+ * Every server instance runs a worker; jobs are claimed with a lease so instances never run the same
+ * job twice, and a crashed instance's jobs are picked up again once their lease expires.
+ * Disable with JOB_WORKER_DISABLED=true (sessions then stay queued until another instance claims them).
+ */
+
+import os from "node:os";
+import { BackgroundJobStatus, ConciergeSessionStatus, type BackgroundJob } from "@prisma/client";
+import prisma from "~/db.server";
+import {
+  DEFAULT_JOB_LEASE_MS,
+  claimNextJob,
+  completeJob,
+  deadLetterExpiredJobs,
+  enqueueJob,
+  failJob,
+  onJobEnqueued,
+  renewJobLease,
+  sessionJobDedupeKey,
+  type JobType,
+} from "~/models/job-queue.server";
+import type { SessionProcessingJobPayload } from "~/app-proxy-session-start.server";
+import type { EmbeddingRefreshJobPayload } from "~/models/product-embeddings.server";
+import { parseStoredPresentment } from "~/utils/currency.server";
+
+const POLL_INTERVAL_MS = 1000;
+const LEASE_RENEW_INTERVAL_MS = 30 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const DEFAULT_CONCURRENCY = 2;
+
+export const STALE_SESSION_MS = 10 * 60 * 1000; // PROCESSING with no progress for 10 minutes
+export const MAX_SESSION_PROCESSING_MS = 30 * 60 * 1000; // Give up on a session after 30 minutes
+
+const SESSION_FAILED_MESSAGE = "We couldn't finish your recommendations. Please try again.";
+
+type JobHandler = {
+  run: (job: BackgroundJob) => Promise<void>;
+  onDead: (job: BackgroundJob) => Promise<void>; // Runs once when the job is dead-lettered
+};
+
+// Handlers import the session pipeline lazily (it is large and only needed when a job runs)
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  "session.process": {
+    run: async (job) => {
+      const { runSessionProcessingJob } = await import("~/app-proxy-session-start.server");
+      await runSessionProcessingJob(job.payloadJson as unknown as SessionProcessingJobPayload, job.attempts);
+    },
+    onDead: async (job) => {
+      const { failSessionProcessing } = await import("~/app-proxy-session-start.server");
+      const sessionToken = (job.payloadJson as { sessionToken?: string } | null)?.sessionToken;
+      if (sessionToken) await failSessionProcessing(sessionToken, SESSION_FAILED_MESSAGE);
+    },
+  },
+  "embeddings.refresh": {
+    run: async (job) => {
+      const { refreshShopEmbeddings } = await import("~/models/product-embeddings.server");
+      await refreshShopEmbeddings((job.payloadJson as unknown as EmbeddingRefreshJobPayload).shopDomain);
+    },
+    // Retrieval keeps using whatever vectors are stored; the next product change enqueues a new refresh
+    onDead: async (job) => {
+      console.error("[Job Worker] Embedding refresh dead-lettered:", { jobId: job.id, payload: job.payloadJson });
+    },
+  },
+};
+
+export type StaleSessionAction = "wait" | "requeue" | "fail";
+
+/**
+ * Decides what the sweeper does with a PROCESSING session, given its processing job (if any)
+ * - too old overall, dead-lettered, or completed without a result: fail
+ * - no job at all (crash before enqueue, or started before the queue existed) and no recent progress: requeue once
+ * - otherwise the queue still owns it: wait
+ */
+export function decideStaleSessionAction(
+  session: { createdAt: Date; updatedAt: Date },
+  jobStatus: BackgroundJobStatus | null,
+  now: Date
+): StaleSessionAction {
+  if (now.getTime() - session.createdAt.getTime() >= MAX_SESSION_PROCESSING_MS) return "fail";
+  if (jobStatus === BackgroundJobStatus.DEAD || jobStatus === BackgroundJobStatus.COMPLETED) return "fail";
+  if (jobStatus === null && now.getTime() - session.updatedAt.getTime() >= STALE_SESSION_MS) return "requeue";
+  return "wait";
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var jobWorkerStarted: boolean | undefined;
+}
+
+function createWorkerId(): string {
+  return `${os.hostname()}:${process.pid}:${Math.random().toString(36).slice(2, 8)}`;
+}
+
+async function runClaimedJob(job: BackgroundJob, workerId: string) {
+  const handler = JOB_HANDLERS[job.type as JobType];
+  const renewTimer = setInterval(() => {
+    void renewJobLease(job.id, workerId).catch((error) => {
+      console.error("[Job Worker] Lease renewal failed:", { jobId: job.id, error: error instanceof Error ? error.message : String(error) });
+    });
+  }, LEASE_RENEW_INTERVAL_MS);
+  renewTimer.unref();
+
+  try {
+    if (!handler) throw new Error(`No handler for job type ${job.type}`);
+    await handler.run(job);
+    await completeJob(job.id, workerId);
+  } catch (error) {
+    const status = await failJob(job, workerId, error);
+    if (status === BackgroundJobStatus.DEAD && handler) {
+      await handler.onDead(job).catch((deadError) => {
+        console.error("[Job Worker] Dead-letter handling failed:", { jobId: job.id, error: deadError });
+      });
+    }
+  } finally {
+    clearInterval(renewTimer);
+  }
+}
+
+/**
+ * Fails or requeues PROCESSING sessions the queue no longer owns, and dead-letters jobs whose
+ * lease expired on their last attempt
+ */
+export async function sweepStaleSessions(now: Date = new Date()): Promise<{ requeued: number; failed: number }> {
+  const deadJobs = await deadLetterExpiredJobs(now);
+  for (const job of deadJobs) {
+    await JOB_HANDLERS[job.type as JobType]?.onDead(job).catch(() => {});
+  }
+
+  const sessions = await prisma.conciergeSession.findMany({
+    where: {
+      status: ConciergeSessionStatus.PROCESSING,
+      updatedAt: { lt: new Date(now.getTime() - STALE_SESSION_MS) },
+    },
+    select: { publicToken: true, createdAt: true, updatedAt: true, presentmentJson: true },
+    take: 100,
+  });
+  if (sessions.length === 0) return { requeued: 0, failed: deadJobs.length };
+
+  const jobs = await prisma.backgroundJob.findMany({
+    where: { dedupeKey: { in: sessions.map((s) => sessionJobDedupeKey(s.publicToken)) } },
+    select: { dedupeKey: true, status: true },
+  });
+  const jobStatusByKey = new Map(jobs.map((j) => [j.dedupeKey, j.status]));
+
+  let requeued = 0;
+  let failed = deadJobs.length;
+  for (const session of sessions) {
+    const dedupeKey = sessionJobDedupeKey(session.publicToken);
+    const action = decideStaleSessionAction(session, jobStatusByKey.get(dedupeKey) ?? null, now);
+    if (action === "requeue") {
+      const payload: SessionProcessingJobPayload = {
+        sessionToken: session.publicToken,
+        presentment: parseStoredPresentment(session.presentmentJson),
+      };
+      await enqueueJob("session.process", payload, { dedupeKey });
+      requeued++;
+    } else if (action === "fail") {
+      const { failSessionProcessing } = await import("~/app-proxy-session-start.server");
+      await failSessionProcessing(session.publicToken, SESSION_FAILED_MESSAGE);
+      failed++;
+    }
+  }
+
+  if (requeued > 0 || failed > 0) {
+    console.warn("[Job Worker] Swept stale sessions", { requeued, failed });
+  }
+  return { requeued, failed };
+}
+
+export function startJobWorker() {
+  if (global.jobWorkerStarted) return;
+  if (process.env.JOB_WORKER_DISABLED === "true" || process.env.NODE_ENV === "test") {
+    console.log("[Job Worker] Disabled");
+    return;
+  }
+  global.jobWorkerStarted = true;
+
+  const workerId = createWorkerId();
+  const types = Object.keys(JOB_HANDLERS) as JobType[];
+  const concurrency = Math.max(1, parseInt(process.env.JOB_WORKER_CONCURRENCY || "", 10) || DEFAULT_CONCURRENCY);
+  let active = 0;
+  let polling = false;
+
+  // Claims jobs until the queue is empty or every slot is busy
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      while (active < concurrency) {
+        const job = await claimNextJob(types, workerId, DEFAULT_JOB_LEASE_MS);
+        if (!job) break;
+        active++;
+        void runClaimedJob(job, workerId).finally(() => {
+          active--;
+          void poll();
+        });
+      }
+    } catch (error) {
+      console.error("[Job Worker] Poll failed:", error);
+    } finally {
+      polling = false;
+    }
+  };
+
+  onJobEnqueued(() => void poll());
+  setInterval(() => void poll(), POLL_INTERVAL_MS).unref();
+  setInterval(() => {
+    void sweepStaleSessions().catch((error) => console.error("[Job Worker] Sweep failed:", error));
+  }, SWEEP_INTERVAL_MS).unref();
+
+  console.log("[Job Worker] Started", { workerId, concurrency, types });
+}
@@ -0,0 +1,233 @@
+/**
+ * Merchandising rules engine
+ * Applies an experience's rules (utils/merchandising-rules.ts) to the ranked result:
+ * exclude removes products, boost / bury move matching products up / down without changing the
+ * rest of the order, and pin places the best-ranked matching product at a fixed position (taken
+ * from the candidate pool when the ranking did not select one).
+ */
+
+import { normalizeText } from "~/utils/text-indexing.server";
+import type { MerchandisingAction, MerchandisingRule } from "~/utils/merchandising-rules";
+
+export type MerchandisingProduct = {
+  handle: string;
+  tags?: string[] | null;
+  vendor?: string | null;
+  price?: string | number | null;
+  collections?: Array<{ title?: string | null; handle?: string | null } | string> | null;
+  [key: string]: unknown;
+};
+
+export type MerchandisingQueryContext = {
+  query: string; // Shopper's request
+  intentTerms: string[]; // Parsed hard / soft terms
+};
+
+export type MerchandisingRuleEffect = {
+  ruleId: string;
+  name: string;
+  action: MerchandisingAction;
+  handles: string[]; // Products the rule moved, removed or pinned
+};
+
+export type MerchandisingOutcome = {
+  handles: string[];
+  applied: MerchandisingRuleEffect[]; // Rules that changed the result, in rule order
+  excluded: string[]; // Every pool product an active exclude rule matches
+  pins: Array<{ handle: string; position: number }>; // 1-based, as placed
+};
+
+function containsPhrase(text: string, term: string): boolean {
+  const phrase = normalizeText(term);
+  if (!phrase) return false;
+  const haystack = ` ${text} `;
+  return haystack.includes(` ${phrase} `) || haystack.includes(` ${phrase}s `) || haystack.includes(` ${phrase}es `);
+}
+
+/**
+ * Whether a rule fires for this request; rules without query conditions always fire
+ */
+export function ruleMatchesQuery(rule: MerchandisingRule, ctx: MerchandisingQueryContext): boolean {
+  const { queryTerms = [], intentTerms = [] } = rule.conditions;
+  if (queryTerms.length === 0 && intentTerms.length === 0) return true;
+
+  const query = normalizeText(ctx.query);
+  if (queryTerms.some((term) => containsPhrase(query, term))) return true;
+
+  const intent = normalizeText(ctx.intentTerms.join(" "));
+  return intentTerms.some((term) => containsPhrase(intent, term));
+}
+
+function lowerSet(values: Array<string | null | undefined>): Set<string> {
+  return new Set(values.map((v) => (v || "").trim().toLowerCase()).filter(Boolean));
+}
+
+function collectionKeys(product: MerchandisingProduct): Set<string> {
+  const keys: string[] = [];
+  for (const collection of product.collections || []) {
+    if (typeof collection === "string") keys.push(collection);
+    else if (collection) keys.push(collection.handle || "", collection.title || "");
+  }
+  return lowerSet(keys);
+}
+
+/**
+ * Whether a product meets every product condition of a rule
+ */
+export function productMatchesRule(rule: MerchandisingRule, product: MerchandisingProduct): boolean {
+  const { tags, vendors, collections, handles, minPrice, maxPrice } = rule.conditions;
+
+  if (handles?.length && !handles.includes(product.handle)) return false;
+  if (tags?.length) {
+    const productTags = lowerSet(product.tags || []);
+    if (!tags.some((tag) => productTags.has(tag.toLowerCase()))) return false;
+  }
+  if (vendors?.length) {
+    const vendor = (product.vendor || "").trim().toLowerCase();
+    if (!vendors.some((v) => v.toLowerCase() === vendor)) return false;
+  }
+  if (collections?.length) {
+    const keys = collectionKeys(product);
+    if (!collections.some((c) => keys.has(c.toLowerCase()))) return false;
+  }
+  if (minPrice != null || maxPrice != null) {
+    const price = product.price !== null && product.price !== undefined ? parseFloat(String(product.price)) : NaN;
+    if (!Number.isFinite(price)) return false;
+    if (minPrice != null && price < minPrice) return false;
+    if (maxPrice != null && price > maxPrice) return false;
+  }
+  return true;
+}
+
+/**
+ * Places pinned handles at their positions (first pin wins a slot, later pins take the next free one)
+ * and fills the remaining slots with the other handles in order
+ */
+function placePins(handles: string[], pins: Array<{ handle: string; position: number }>, limit: number): { handles: string[]; pins: Array<{ handle: string; position: number }> } {
+  const pinnedSet = new Set(pins.map((p) => p.handle));
+  const rest = handles.filter((h) => !pinnedSet.has(h));
+  const total = Math.min(rest.length + pins.length, limit);
+  const slots: Array<string | undefined> = new Array(total).fill(undefined);
+  const placed: Array<{ handle: string; position: number }> = [];
+
+  for (const pin of pins) {
+    let index = Math.min(pin.position - 1, total - 1);
+    while (index < total && slots[index] !== undefined) index++;
+    if (index >= total) index = slots.lastIndexOf(undefined);
+    if (index < 0) break;
+    slots[index] = pin.handle;
+    placed.push({ handle: pin.handle, position: index + 1 });
+  }
+
+  let next = 0;
+  const result = slots.map((slot) => slot ?? rest[next++]).filter((h): h is string => h !== undefined);
+  return { handles: result, pins: placed };
+}
+
+/**
+ * Applies the active rules to a ranked result
+ * @param rankedHandles Ranked result, best first
+ * @param pool Candidate pool (best first) that pins and exclusions are resolved against
+ * @param limit Result size; pins push the lowest-ranked products out
+ */
+export function applyMerchandisingRules(
+  rankedHandles: string[],
+  pool: MerchandisingProduct[],
+  rules: MerchandisingRule[],
+  ctx: MerchandisingQueryContext,
+  limit: number = rankedHandles.length
+): MerchandisingOutcome {
+  const active = rules.filter((rule) => rule.enabled && ruleMatchesQuery(rule, ctx));
+  const byHandle = new Map(pool.map((p) => [p.handle, p]));
+  const matches = (rule: MerchandisingRule, handle: string) => {
+    const product = byHandle.get(handle);
+    return product !== undefined && productMatchesRule(rule, product);
+  };
+  const applied: MerchandisingRuleEffect[] = [];
+  const record = (rule: MerchandisingRule, handles: string[]) => {
+    if (handles.length > 0) applied.push({ ruleId: rule.id, name: rule.name, action: rule.action, handles });
+  };
+
+  // Exclude
+  const excluded = new Set<string>();
+  for (const rule of active.filter((r) => r.action === "exclude")) {
+    const hits = new Set(pool.filter((p) => productMatchesRule(rule, p)).map((p) => p.handle));
+    hits.forEach((h) => excluded.add(h));
+    record(rule, rankedHandles.filter((h) => hits.has(h)));
+  }
+  let handles = rankedHandles.filter((h) => !excluded.has(h));
+
+  // Boost / bury: stable reorder by tier (boosted, untouched, buried)
+  const tier = new Map<string, number>();
+  for (const rule of active.filter((r) => r.action === "boost" || r.action === "bury")) {
+    const hits = handles.filter((h) => matches(rule, h));
+    hits.forEach((h) => tier.set(h, (tier.get(h) || 0) + (rule.action === "boost" ? 1 : -1)));
+    record(rule, hits);
+  }
+  if (tier.size > 0) {
+    handles = handles
+      .map((handle, index) => ({ handle, index, tier: Math.sign(tier.get(handle) || 0) }))
+      .sort((a, b) => b.tier - a.tier || a.index - b.index)
+      .map((entry) => entry.handle);
+  }
+
+  // Pin: best-ranked match from the result, else from the pool
+  const requested: Array<{ handle: string; position: number; rule: MerchandisingRule }> = [];
+  const taken = new Set<string>();
+  const inResult = new Set(handles);
+  const pinCandidates = [...handles, ...pool.map((p) => p.handle).filter((h) => !inResult.has(h))];
+  for (const rule of active.filter((r) => r.action === "pin")) {
+    const handle = pinCandidates.find((h) => !taken.has(h) && !excluded.has(h) && matches(rule, h));
+    if (!handle) continue;
+    taken.add(handle);
+    requested.push({ handle, position: rule.position ?? 1, rule });
+  }
+  const placed = placePins(handles, requested, Math.max(limit, requested.length));
+  placed.pins.forEach((pin) => record(requested.find((r) => r.handle === pin.handle)!.rule, [pin.handle]));
+  // Keep effects in rule order
+  applied.sort((a, b) => rules.findIndex((r) => r.id === a.ruleId) - rules.findIndex((r) => r.id === b.ruleId));
+
+  return {
+    handles: placed.handles,
+    applied,
+    excluded: Array.from(excluded),
+    pins: placed.pins,
+  };
+}
+
+/**
+ * Re-applies an outcome's exclusions and pins to a result changed by later steps (diversity, refills)
+ */
+export function enforceMerchandisingOutcome(handles: string[], outcome: Pick<MerchandisingOutcome, "excluded" | "pins">, limit: number = handles.length): string[] {
+  const excluded = new Set(outcome.excluded);
+  const kept = handles.filter((h) => !excluded.has(h));
+  if (outcome.pins.length === 0) return kept;
+  return placePins(kept, outcome.pins, Math.max(limit, outcome.pins.length)).handles;
+}
+
+export type MerchandisingRulePreview = {
+  ruleId: string;
+  firesForQuery: boolean | null; // null when no sample query was given
+  matchCount: number;
+  matches: Array<{ handle: string; title: string | null }>;
+};
+
+/**
+ * Products each rule would affect in a catalog sample (rule editor preview)
+ */
+export function previewMerchandisingRules(
+  rules: MerchandisingRule[],
+  pool: Array<MerchandisingProduct & { title?: string | null }>,
+  sampleQuery: string | null,
+  maxMatches = 10
+): MerchandisingRulePreview[] {
+  return rules.map((rule) => {
+    const matched = pool.filter((p) => productMatchesRule(rule, p));
+    return {
+      ruleId: rule.id,
+      firesForQuery: sampleQuery ? ruleMatchesQuery(rule, { query: sampleQuery, intentTerms: [] }) : null,
+      matchCount: matched.length,
+      matches: matched.slice(0, maxMatches).map((p) => ({ handle: p.handle, title: p.title ?? null })),
+    };
+  });
+}
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for merchandising rules
+ * Rule parsing / validation and the pin, boost, bury and exclude engine
+ */
+
+import { describe, expect, it } from "vitest";
+import { parseMerchandisingRules, validateMerchandisingRules, describeMerchandisingRule, type MerchandisingRule } from "./merchandising-rules";
+import {
+  applyMerchandisingRules,
+  enforceMerchandisingOutcome,
+  previewMerchandisingRules,
+  ruleMatchesQuery,
+  type MerchandisingProduct,
+} from "./merchandising-rules.server";
+
+const pool: MerchandisingProduct[] = [
+  { handle: "a", tags: ["new"], vendor: "Acme", price: "20" },
+  { handle: "b", tags: ["clearance"], vendor: "Acme", price: "15" },
+  { handle: "c", tags: [], vendor: "Other", price: "80", collections: [{ title: "Spring", handle: "spring" }] },
+  { handle: "d", tags: ["new"], vendor: "Other", price: "45" },
+  { handle: "bestseller", tags: ["Bestseller"], vendor: "Acme", price: "60" },
+];
+
+const rule = (overrides: Partial<MerchandisingRule>): MerchandisingRule => ({
+  id: "r1",
+  name: "",
+  enabled: true,
+  action: "boost",
+  conditions: {},
+  ...overrides,
+});
+
+const ctx = { query: "a gift for my mum", intentTerms: ["gift"] };
+
+describe("parseMerchandisingRules", () => {
+  it("normalizes stored rules and drops invalid ones", () => {
+    const rules = parseMerchandisingRules(JSON.stringify([
+      { action: "pin", position: "40", conditions: { tags: "bestseller, ", queryTerms: ["gift"] } },
+      { action: "promote", conditions: { tags: ["x"] } },
+      { id: "x", action: "exclude", conditions: { maxPrice: "abc", minPrice: "10" } },
+    ]));
+    expect(rules).toEqual([
+      { id: "rule_1", name: "", enabled: true, action: "pin", position: 16, conditions: { tags: ["bestseller"], queryTerms: ["gift"] } },
+      { id: "x", name: "", enabled: true, action: "exclude", conditions: { minPrice: 10 } },
+    ]);
+    expect(parseMerchandisingRules("not json")).toEqual([]);
+  });
+
+  it("requires a product condition and a sane price range", () => {
+    expect(validateMerchandisingRules([rule({ conditions: { queryTerms: ["gift"] } })])).toMatch(/product condition/);
+    expect(validateMerchandisingRules([rule({ conditions: { minPrice: 50, maxPrice: 10 } })])).toMatch(/minimum price/);
+    expect(validateMerchandisingRules([rule({ conditions: { tags: ["new"] } })])).toBeNull();
+  });
+
+  it("describes a rule in one line", () => {
+    expect(describeMerchandisingRule(rule({ action: "pin", position: 1, conditions: { tags: ["bestseller"], queryTerms: ["gift"] } })))
+      .toBe("Pin at #1: tag bestseller, when the request mentions gift");
+  });
+});
+
+describe("ruleMatchesQuery", () => {
+  it("fires on query words, plurals and intent terms", () => {
+    expect(ruleMatchesQuery(rule({ conditions: { queryTerms: ["gift"] } }), { query: "Gifts under $50", intentTerms: [] })).toBe(true);
+    expect(ruleMatchesQuery(rule({ conditions: { queryTerms: ["gift"] } }), { query: "giftwrap", intentTerms: [] })).toBe(false);
+    expect(ruleMatchesQuery(rule({ conditions: { intentTerms: ["dress"] } }), { query: "something nice", intentTerms: ["dress"] })).toBe(true);
+    expect(ruleMatchesQuery(rule({ conditions: { tags: ["new"] } }), { query: "", intentTerms: [] })).toBe(true);
+  });
+});
+
+describe("applyMerchandisingRules", () => {
+  it("excludes, boosts and buries without changing the rest of the order", () => {
+    const outcome = applyMerchandisingRules(["a", "b", "c", "d"], pool, [
+      rule({ id: "clearance", action: "exclude", conditions: { tags: ["clearance"] } }),
+      rule({ id: "spring", action: "boost", conditions: { collections: ["Spring"] } }),
+      rule({ id: "acme", action: "bury", conditions: { vendors: ["acme"] } }),
+    ], ctx);
+    expect(outcome.handles).toEqual(["c", "d", "a"]);
+    expect(outcome.excluded).toEqual(["b"]);
+    expect(outcome.applied.map((a) => [a.ruleId, a.handles])).toEqual([["clearance", ["b"]], ["spring", ["c"]], ["acme", ["a"]]]);
+  });
+
+  it("pins a pool product when the query matches and pushes the last result out", () => {
+    const rules = [rule({ action: "pin", position: 1, conditions: { tags: ["bestseller"], queryTerms: ["gift"] } })];
+    const outcome = applyMerchandisingRules(["a", "c", "d"], pool, rules, ctx, 3);
+    expect(outcome.handles).toEqual(["bestseller", "a", "c"]);
+    expect(outcome.pins).toEqual([{ handle: "bestseller", position: 1 }]);
+
+    expect(applyMerchandisingRules(["a", "c", "d"], pool, rules, { query: "shoes", intentTerms: [] }, 3).handles).toEqual(["a", "c", "d"]);
+  });
+
+  it("gives a taken position to the first pin and never pins excluded products", () => {
+    const outcome = applyMerchandisingRules(["a", "c"], pool, [
+      rule({ id: "p1", action: "pin", position: 2, conditions: { handles: ["d"] } }),
+      rule({ id: "p2", action: "pin", position: 2, conditions: { vendors: ["Acme"] } }),
+      rule({ id: "x", action: "exclude", conditions: { tags: ["new"] } }),
+    ], ctx, 4);
+    // "a" is new (excluded), so p2 falls back to the next Acme product in the pool
+    expect(outcome.handles).toEqual(["c", "b"]);
+    expect(outcome.pins).toEqual([{ handle: "b", position: 2 }]);
+  });
+
+  it("re-applies pins and exclusions after later steps", () => {
+    const outcome = applyMerchandisingRules(["a", "c"], pool, [
+      rule({ action: "pin", position: 1, conditions: { handles: ["c"] } }),
+      rule({ id: "r2", action: "exclude", conditions: { tags: ["clearance"] } }),
+    ], ctx);
+    expect(enforceMerchandisingOutcome(["a", "b", "d", "c"], outcome)).toEqual(["c", "a", "d"]);
+  });
+});
+
+describe("previewMerchandisingRules", () => {
+  it("lists matching products and whether the rule fires for the sample request", () => {
+    const [preview] = previewMerchandisingRules([rule({ conditions: { tags: ["new"], queryTerms: ["gift"] } })], pool, "birthday gift", 1);
+    expect(preview).toEqual({ ruleId: "r1", firesForQuery: true, matchCount: 2, matches: [{ handle: "a", title: null }] });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Merchandising rules per experience (Experience.merchandisingRulesJson)
+ * Shared by the experience editor (client validation, rule summaries), the editor actions and the
+ * recommendation pipeline (see utils/merchandising-rules.server.ts for how rules are applied).
+ *
+ * A rule fires when the shopper's request matches its query conditions (none = every request) and
+ * affects the products that match all of its product conditions.
+ */
+
+export type MerchandisingAction = "pin" | "boost" | "bury" | "exclude";
+
+export const MERCHANDISING_ACTIONS: Array<{ action: MerchandisingAction; label: string }> = [
+  { action: "pin", label: "Pin at position" },
+  { action: "boost", label: "Boost (move up)" },
+  { action: "bury", label: "Bury (move down)" },
+  { action: "exclude", label: "Exclude" },
+];
+
+export type MerchandisingConditions = {
+  // When the rule fires (any term; both lists set = either matches)
+  queryTerms?: string[]; // Words in the shopper's request
+  intentTerms?: string[]; // Parsed intent terms (hard / soft terms)
+  // Which products it affects (each list set must match; any value within a list)
+  tags?: string[];
+  vendors?: string[];
+  collections?: string[]; // Collection handles or titles
+  handles?: string[];
+  minPrice?: number | null;
+  maxPrice?: number | null;
+};
+
+export type MerchandisingRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  action: MerchandisingAction;
+  position?: number; // pin: 1-based result position
+  conditions: MerchandisingConditions;
+};
+
+export const MAX_MERCHANDISING_RULES = 20;
+export const MAX_PIN_POSITION = 16;
+
+const LIST_CONDITIONS = ["queryTerms", "intentTerms", "tags", "vendors", "collections", "handles"] as const;
+
+export function isMerchandisingAction(action: unknown): action is MerchandisingAction {
+  return typeof action === "string" && MERCHANDISING_ACTIONS.some((a) => a.action === action);
+}
+
+function toTermList(raw: unknown): string[] | undefined {
+  const values = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(",") : [];
+  const terms = Array.from(new Set(values.map((v) => String(v ?? "").trim()).filter(Boolean)));
+  return terms.length > 0 ? terms : undefined;
+}
+
+function toPrice(raw: unknown): number | null {
+  if (raw === null || raw === undefined || raw === "") return null;
+  const value = typeof raw === "number" ? raw : parseFloat(String(raw));
+  return Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+/**
+ * Normalizes one submitted / stored rule; null when it has no usable action
+ */
+export function normalizeMerchandisingRule(raw: unknown, index = 0): MerchandisingRule | null {
+  if (!raw || typeof raw !== "object") return null;
+  const rule = raw as Record<string, unknown>;
+  if (!isMerchandisingAction(rule.action)) return null;
+
+  const source = (rule.conditions && typeof rule.conditions === "object" ? rule.conditions : {}) as Record<string, unknown>;
+  const conditions: MerchandisingConditions = {};
+  for (const key of LIST_CONDITIONS) {
+    const terms = toTermList(source[key]);
+    if (terms) conditions[key] = terms;
+  }
+  const minPrice = toPrice(source.minPrice);
+  const maxPrice = toPrice(source.maxPrice);
+  if (minPrice !== null) conditions.minPrice = minPrice;
+  if (maxPrice !== null) conditions.maxPrice = maxPrice;
+
+  const normalized: MerchandisingRule = {
+    id: typeof rule.id === "string" && rule.id.trim() ? rule.id.trim() : `rule_${index + 1}`,
+    name: typeof rule.name === "string" ? rule.name.trim() : "",
+    enabled: rule.enabled !== false,
+    action: rule.action,
+    conditions,
+  };
+  if (rule.action === "pin") {
+    const position = parseInt(String(rule.position ?? ""), 10);
+    normalized.position = Number.isFinite(position) ? Math.min(Math.max(position, 1), MAX_PIN_POSITION) : 1;
+  }
+  return normalized;
+}
+
+/**
+ * Parses Experience.merchandisingRulesJson (string or array); invalid entries are dropped
+ */
+export function parseMerchandisingRules(raw: unknown): MerchandisingRule[] {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw || "[]");
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((rule, index) => normalizeMerchandisingRule(rule, index))
+    .filter((rule): rule is MerchandisingRule => rule !== null)
+    .slice(0, MAX_MERCHANDISING_RULES);
+}
+
+export function hasProductConditions(conditions: MerchandisingConditions): boolean {
+  return Boolean(
+    conditions.tags?.length ||
+    conditions.vendors?.length ||
+    conditions.collections?.length ||
+    conditions.handles?.length ||
+    conditions.minPrice != null ||
+    conditions.maxPrice != null
+  );
+}
+
+/**
+ * Error message for a rule the editor should not save, or null
+ */
+export function validateMerchandisingRule(rule: MerchandisingRule): string | null {
+  const label = rule.name || rule.id;
+  if (!hasProductConditions(rule.conditions)) {
+    return `Rule "${label}" needs at least one product condition (tag, vendor, collection, product or price)`;
+  }
+  const { minPrice, maxPrice } = rule.conditions;
+  if (minPrice != null && maxPrice != null && minPrice > maxPrice) {
+    return `Rule "${label}" has a minimum price above its maximum price`;
+  }
+  return null;
+}
+
+export function validateMerchandisingRules(rules: MerchandisingRule[]): string | null {
+  if (rules.length > MAX_MERCHANDISING_RULES) {
+    return `At most ${MAX_MERCHANDISING_RULES} merchandising rules per experience`;
+  }
+  const ids = new Set<string>();
+  for (const rule of rules) {
+    if (ids.has(rule.id)) return `Duplicate rule id "${rule.id}"`;
+    ids.add(rule.id);
+    const error = validateMerchandisingRule(rule);
+    if (error) return error;
+  }
+  return null;
+}
+
+/**
+ * One-line summary, e.g. "Pin at #1: tag bestseller, when the request mentions gift"
+ */
+export function describeMerchandisingRule(rule: MerchandisingRule): string {
+  const { conditions } = rule;
+  const action = rule.action === "pin"
+    ? `Pin at #${rule.position ?? 1}`
+    : MERCHANDISING_ACTIONS.find((a) => a.action === rule.action)!.label.replace(/ \(.*\)$/, "");
+
+  const products: string[] = [];
+  if (conditions.tags?.length) products.push(`tag ${conditions.tags.join(" / ")}`);
+  if (conditions.vendors?.length) products.push(`vendor ${conditions.vendors.join(" / ")}`);
+  if (conditions.collections?.length) products.push(`collection ${conditions.collections.join(" / ")}`);
+  if (conditions.handles?.length) products.push(`product ${conditions.handles.join(" / ")}`);
+  if (conditions.minPrice != null && conditions.maxPrice != null) products.push(`price ${conditions.minPrice}-${conditions.maxPrice}`);
+  else if (conditions.minPrice != null) products.push(`price from ${conditions.minPrice}`);
+  else if (conditions.maxPrice != null) products.push(`price up to ${conditions.maxPrice}`);
+
+  const when: string[] = [];
+  if (conditions.queryTerms?.length) when.push(`the request mentions ${conditions.queryTerms.join(" / ")}`);
+  if (conditions.intentTerms?.length) when.push(`the intent includes ${conditions.intentTerms.join(" / ")}`);
+
+  return `${action}: ${products.join(", ") || "no products"}${when.length > 0 ? `, when ${when.join(" or ")}` : ""}`;
+}
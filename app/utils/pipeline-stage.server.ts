@@ -0,0 +1,136 @@
+/**
+ * Recommendation pipeline stages
+ * A stage is a named step with typed input / output. The runner times each stage,
+ * records which product handles it added or removed, and isolates failures: a stage
+ * that throws returns its fallback output (usually the input unchanged) instead of
+ * failing the whole session.
+ */
+
+export type PipelineStageStatus = "ok" | "failed" | "skipped";
+
+export type PipelineStageTraceEntry = {
+  stage: string;
+  status: PipelineStageStatus;
+  durationMs: number;
+  inputCount: number;
+  outputCount: number;
+  added: string[]; // Handles present in the output but not in the input (capped)
+  removed: string[]; // Handles present in the input but not in the output (capped)
+  addedCount: number;
+  removedCount: number;
+  note?: string; // Short stage-specific summary (e.g. "collectionIntent=true")
+  error?: string;
+};
+
+export type PipelineTrace = {
+  entries: PipelineStageTraceEntry[];
+};
+
+export type PipelineStageContext = {
+  trace: PipelineTrace;
+  label?: string; // Log prefix, e.g. the session token
+};
+
+export interface PipelineStage<I, O> {
+  name: string;
+  run(input: I, ctx: PipelineStageContext): O | Promise<O>;
+  /** Output used when run() throws - must not throw itself */
+  fallback(input: I, error: unknown): O;
+  /** Handles going into the stage (for the added / removed trace) */
+  inputHandles?(input: I): string[];
+  /** Handles coming out of the stage */
+  outputHandles?(output: O): string[];
+  /** Optional one-line summary of the output for the trace */
+  describe?(output: O): string | undefined;
+  /** Return false to skip the stage; the fallback output is used and recorded as "skipped" */
+  enabled?(input: I): boolean;
+}
+
+const TRACE_HANDLE_LIMIT = 50;
+
+export function createPipelineTrace(): PipelineTrace {
+  return { entries: [] };
+}
+
+function diffHandles(before: string[], after: string[]): { added: string[]; removed: string[] } {
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  return {
+    added: after.filter((h) => !beforeSet.has(h)),
+    removed: before.filter((h) => !afterSet.has(h)),
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Runs one stage with timing, trace recording and failure isolation
+ */
+export async function runPipelineStage<I, O>(
+  stage: PipelineStage<I, O>,
+  input: I,
+  ctx: PipelineStageContext
+): Promise<O> {
+  const start = performance.now();
+  const inputHandles = stage.inputHandles ? stage.inputHandles(input) : [];
+  let output: O;
+  let status: PipelineStageStatus = "ok";
+  let error: string | undefined;
+
+  if (stage.enabled && !stage.enabled(input)) {
+    output = stage.fallback(input, null);
+    status = "skipped";
+  } else {
+    try {
+      output = await stage.run(input, ctx);
+    } catch (e) {
+      status = "failed";
+      error = errorMessage(e);
+      console.error(`[Pipeline] stage=${stage.name} failed${ctx.label ? ` sessionId=${ctx.label}` : ""}:`, e);
+      output = stage.fallback(input, e);
+    }
+  }
+
+  const outputHandles = stage.outputHandles ? stage.outputHandles(output) : [];
+  const { added, removed } = stage.inputHandles && stage.outputHandles
+    ? diffHandles(inputHandles, outputHandles)
+    : { added: [], removed: [] };
+  let note: string | undefined;
+  if (status !== "skipped" && stage.describe) {
+    try {
+      note = stage.describe(output);
+    } catch {
+      note = undefined;
+    }
+  }
+
+  const entry: PipelineStageTraceEntry = {
+    stage: stage.name,
+    status,
+    durationMs: Math.round(performance.now() - start),
+    inputCount: inputHandles.length,
+    outputCount: outputHandles.length,
+    added: added.slice(0, TRACE_HANDLE_LIMIT),
+    removed: removed.slice(0, TRACE_HANDLE_LIMIT),
+    addedCount: added.length,
+    removedCount: removed.length,
+    ...(note ? { note } : {}),
+    ...(error ? { error } : {}),
+  };
+  ctx.trace.entries.push(entry);
+  console.log(
+    `[Pipeline] stage=${entry.stage} status=${entry.status} ms=${entry.durationMs} in=${entry.inputCount} out=${entry.outputCount} added=${entry.addedCount} removed=${entry.removedCount}${note ? ` ${note}` : ""}`
+  );
+  return output;
+}
+
+/**
+ * One-line summary of a trace for the session log
+ */
+export function formatPipelineTrace(trace: PipelineTrace): string {
+  return trace.entries
+    .map((e) => `${e.stage}:${e.status}:${e.durationMs}ms(+${e.addedCount}/-${e.removedCount})`)
+    .join(" ");
+}
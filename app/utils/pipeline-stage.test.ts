@@ -0,0 +1,89 @@
+/**
+ * Unit tests for the pipeline stage runner
+ * Trace entries, handle diffs, skipped stages and failure isolation
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  createPipelineTrace,
+  formatPipelineTrace,
+  runPipelineStage,
+  type PipelineStage,
+} from "./pipeline-stage.server";
+
+const dropFirst: PipelineStage<string[], string[]> = {
+  name: "drop_first",
+  run: (handles) => [...handles.slice(1), "added-handle"],
+  fallback: (handles) => handles,
+  inputHandles: (handles) => handles,
+  outputHandles: (handles) => handles,
+  describe: (handles) => `kept=${handles.length}`,
+};
+
+describe("runPipelineStage", () => {
+  it("records timing, counts and added / removed handles", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    const output = await runPipelineStage(dropFirst, ["a", "b", "c"], ctx);
+
+    expect(output).toEqual(["b", "c", "added-handle"]);
+    expect(ctx.trace.entries).toHaveLength(1);
+    const entry = ctx.trace.entries[0];
+    expect(entry).toMatchObject({
+      stage: "drop_first",
+      status: "ok",
+      inputCount: 3,
+      outputCount: 3,
+      added: ["added-handle"],
+      removed: ["a"],
+      addedCount: 1,
+      removedCount: 1,
+      note: "kept=3",
+    });
+    expect(entry.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("returns the fallback output and records the error when a stage throws", async () => {
+    const ctx = { trace: createPipelineTrace(), label: "sess_1" };
+    const failing: PipelineStage<string[], string[]> = {
+      ...dropFirst,
+      name: "failing",
+      run: async () => {
+        throw new Error("catalog unavailable");
+      },
+    };
+
+    const output = await runPipelineStage(failing, ["a", "b"], ctx);
+
+    expect(output).toEqual(["a", "b"]);
+    expect(ctx.trace.entries[0]).toMatchObject({ stage: "failing", status: "failed", error: "catalog unavailable", addedCount: 0, removedCount: 0 });
+  });
+
+  it("skips disabled stages without calling run", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    let called = false;
+    const disabled: PipelineStage<string[], string[]> = {
+      ...dropFirst,
+      name: "disabled",
+      enabled: () => false,
+      run: (handles) => {
+        called = true;
+        return handles;
+      },
+    };
+
+    const output = await runPipelineStage(disabled, ["a"], ctx);
+
+    expect(called).toBe(false);
+    expect(output).toEqual(["a"]);
+    expect(ctx.trace.entries[0].status).toBe("skipped");
+    expect(ctx.trace.entries[0].note).toBeUndefined();
+  });
+
+  it("formats a trace as one line per session", async () => {
+    const ctx = { trace: createPipelineTrace() };
+    await runPipelineStage(dropFirst, ["a", "b"], ctx);
+    await runPipelineStage({ ...dropFirst, name: "second", enabled: () => false }, ["x"], ctx);
+
+    expect(formatPipelineTrace(ctx.trace)).toMatch(/^drop_first:ok:\d+ms\(\+1\/-1\) second:skipped:\d+ms\(\+0\/-0\)$/);
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Shopper price constraints: ceilings, floors, ranges and targets ("around €30")
+ * Parsed deterministically from text (parsePriceConstraint) or taken from the LLM intent (normalizePriceConstraint),
+ * then resolved to min/max bounds for gating and widened step by step when too few products fit
+ */
+
+import { CURRENCY_PREFIX_PATTERN, CURRENCY_SUFFIX_PATTERN, detectCurrencyCode, normalizeCurrencyCode } from "~/utils/currency.server";
+
+export type PriceConstraint = {
+  min: number | null;
+  max: number | null;
+  target: number | null; // "around 30": the shopper's ideal price
+  tolerance: number | null; // Fraction of target accepted either side (0.2 = ±20%)
+  currency: string | null; // ISO code the amounts were given in (null = storefront currency)
+};
+
+export type PriceBounds = { min: number | null; max: number | null };
+
+export const DEFAULT_TARGET_TOLERANCE = 0.2;
+const MAX_TARGET_TOLERANCE = 0.5;
+// Widening applied to the bounds, in order, when too few products fit (0.15 = floor -15%, ceiling +15%)
+export const PRICE_RELAXATION_STEPS = [0.15, 0.3, 0.5];
+
+// Thousands-separated or plain amount; the lookahead stops "5000" being read as "500"
+const PRICE_AMOUNT_PATTERN = "(\\d{1,3}(?:,\\d{3})*(?:\\.\\d+)?(?!\\d)|\\d+(?:\\.\\d+)?)";
+// Optional currency before the amount (group 1), the amount (group 2), optional currency after it (group 3)
+const PRICE_WITH_CURRENCY = `(${CURRENCY_PREFIX_PATTERN}?)\\s*${PRICE_AMOUNT_PATTERN}(?:\\s*(${CURRENCY_SUFFIX_PATTERN}))?`;
+
+// Words that make a bare number a price ("at least 200" alone could be a quantity)
+const PRICE_CONTEXT = /\b(?:budget|price[sd]?|spend(?:ing)?|pay(?:ing)?|costs?|costing|cheap|expensive|afford)/;
+
+type PricePattern = { pattern: RegExp; name: string; requiresCurrency?: boolean; requiresPriceContext?: boolean };
+
+const CEILING_PATTERNS: PricePattern[] = [
+  // "budget is $600"
+  { pattern: new RegExp(`budget\\s+is\\s*${PRICE_WITH_CURRENCY}`, "i"), name: "budget is" },
+  // "maximum budget is $600" or "max budget is $600"
+  { pattern: new RegExp(`(?:maximum|max)\\s+budget\\s+is\\s*${PRICE_WITH_CURRENCY}`, "i"), name: "max budget is" },
+  // "max budget $600" (without "is")
+  { pattern: new RegExp(`(?:maximum|max)\\s+budget\\s+${PRICE_WITH_CURRENCY}`, "i"), name: "max budget" },
+  // "up to $600"
+  { pattern: new RegExp(`up\\s+to\\s+${PRICE_WITH_CURRENCY}`, "i"), name: "up to" },
+  // "under $600" / "below $600" / "less than $600"
+  { pattern: new RegExp(`(?:under|below|less\\s+than)\\s+${PRICE_WITH_CURRENCY}`, "i"), name: "under/below/less than" },
+  // "anything under 80" / "anything below 80"
+  { pattern: new RegExp(`anything\\s+(?:under|below)\\s+${PRICE_WITH_CURRENCY}`, "i"), name: "anything under/below" },
+  // "total budget is $600" or "my total budget is $600"
+  { pattern: new RegExp(`(?:my\\s+)?total\\s+budget\\s+is\\s*${PRICE_WITH_CURRENCY}`, "i"), name: "total budget is" },
+  // "$600 budget" or "600 euros total" or "$600 for all" (currency required)
+  {
+    pattern: new RegExp(`(${CURRENCY_PREFIX_PATTERN}?)\\s*${PRICE_AMOUNT_PATTERN}\\s*(${CURRENCY_SUFFIX_PATTERN})?\\s+(?:budget|total|for\\s+all|for\\s+everything)`, "i"),
+    name: "currency amount budget",
+    requiresCurrency: true,
+  },
+  // "total of $600" or "budget of $600"
+  { pattern: new RegExp(`(?:total|budget)\\s+of\\s+${PRICE_WITH_CURRENCY}`, "i"), name: "total/budget of" },
+  // "spend $600" or "spending $600"
+  { pattern: new RegExp(`spend(?:ing)?\\s+${PRICE_WITH_CURRENCY}`, "i"), name: "spend/spending" },
+];
+
+const FLOOR_PATTERNS: PricePattern[] = [
+  // "at least $200" / "no less than $200" / "minimum $200"
+  { pattern: new RegExp(`(?:at\\s+least|no\\s+less\\s+than|not\\s+less\\s+than|minimum(?:\\s+of)?|min)\\s+${PRICE_WITH_CURRENCY}`, "i"), name: "at least", requiresPriceContext: true },
+  // "over $200" / "above $200" / "more than $200" / "starting at $200"
+  { pattern: new RegExp(`(?:over|above|more\\s+than|starting\\s+(?:at|from))\\s+${PRICE_WITH_CURRENCY}`, "i"), name: "over/above" },
+  // "$200 or more" / "$200 and up" / "$200+"
+  { pattern: new RegExp(`${PRICE_WITH_CURRENCY}\\s*(?:or\\s+more|and\\s+(?:up|above|over)|\\+)`, "i"), name: "or more", requiresCurrency: true },
+];
+
+const TARGET_PATTERNS: PricePattern[] = [
+  // "around 30 euros" / "about $50" / "roughly £40" / "~$60"
+  { pattern: new RegExp(`(?:around|about|approximately|approx\\.?|roughly|circa|close\\s+to|somewhere\\s+near|~)\\s*${PRICE_WITH_CURRENCY}`, "i"), name: "around", requiresPriceContext: true },
+  // "$50-ish" / "50ish"
+  { pattern: new RegExp(`${PRICE_WITH_CURRENCY}\\s*-?\\s*ish\\b`, "i"), name: "ish", requiresPriceContext: true },
+];
+
+// "between £50 and £80" / "from 50 to 80 euros" / "$50-$80" / "50 to 80"
+const RANGE_PATTERN = new RegExp(
+  `(?:between\\s+|from\\s+)?${PRICE_WITH_CURRENCY}\\s*(?:-|–|to|and)\\s*${PRICE_WITH_CURRENCY}`,
+  "i"
+);
+
+type PriceMatch = { value: number; currencyText: string; rawValue: string };
+
+function readPriceMatch(match: RegExpMatchArray, offset = 0): PriceMatch | null {
+  const prefix = match[offset + 1] || "";
+  const rawValue = (match[offset + 2] || "").replace(/,/g, "");
+  const suffix = match[offset + 3] || "";
+  const value = parseFloat(rawValue);
+  if (isNaN(value) || !isFinite(value) || value <= 0) return null;
+  return { value, rawValue, currencyText: `${prefix}${rawValue} ${suffix}`.trim() };
+}
+
+function hasCurrency(match: RegExpMatchArray, offset = 0): boolean {
+  return !!(match[offset + 1] || match[offset + 3]);
+}
+
+function matchFirst(text: string, patterns: PricePattern[]): { match: RegExpMatchArray; price: PriceMatch; name: string } | null {
+  for (const { pattern, name, requiresCurrency, requiresPriceContext } of patterns) {
+    const match = text.match(pattern);
+    if (!match || (requiresCurrency && !hasCurrency(match))) continue;
+    if (requiresPriceContext && !hasCurrency(match) && !PRICE_CONTEXT.test(text)) continue;
+    const price = readPriceMatch(match);
+    if (price) return { match, price, name };
+  }
+  return null;
+}
+
+function currencyOf(match: RegExpMatchArray, price: PriceMatch, preferredCurrency?: string | null, offset = 0): string | null {
+  // Re-attach the amount so word currencies ("100 pounds") are read in context
+  return hasCurrency(match, offset) ? detectCurrencyCode(price.currencyText, preferredCurrency) : null;
+}
+
+/**
+ * Parse numeric price ceiling from user intent text (industry-agnostic)
+ * Extracts a single numeric ceiling (maxPriceCeiling) from natural language phrases
+ * Supports currency symbols, codes and words before or after the amount ("under €100", "up to 80 CAD", "100 euros") and optional commas
+ * preferredCurrency resolves shared symbols ("$" on a Canadian storefront is CAD)
+ * Returns { value: number, currency: string | null } or null if no valid ceiling is found
+ */
+export function parsePriceCeiling(text: string, preferredCurrency?: string | null): { value: number; currency: string | null } | null {
+  if (!text || typeof text !== "string") {
+    return null;
+  }
+
+  const found = matchFirst(text.toLowerCase(), CEILING_PATTERNS);
+  if (!found) return null;
+
+  const currencyCode = currencyOf(found.match, found.price, preferredCurrency);
+  console.log("[Constraints] Parsed price ceiling", {
+    value: found.price.value,
+    pattern: found.name,
+    currencyDetected: hasCurrency(found.match) ? found.price.currencyText : "none",
+    currencyCode: currencyCode || "none"
+  });
+  return { value: found.price.value, currency: currencyCode };
+}
+
+/**
+ * Parses a full price constraint from text: range first, then target, then floor and/or ceiling
+ * "between £50 and £80" → min 50, max 80; "at least $200" → min 200; "around 30 euros" → target 30 ±20%
+ * Returns null when the text states no price
+ */
+export function parsePriceConstraint(text: string, preferredCurrency?: string | null): PriceConstraint | null {
+  if (!text || typeof text !== "string") return null;
+  const normalizedText = text.toLowerCase();
+
+  const rangeMatch = normalizedText.match(RANGE_PATTERN);
+  // Bare "10 to 12" needs a currency or price context to avoid catching quantities and sizes
+  const rangeHasContext =
+    !!rangeMatch &&
+    (hasCurrency(rangeMatch) || hasCurrency(rangeMatch, 3) || rangeMatch[0].startsWith("between") || PRICE_CONTEXT.test(normalizedText));
+  if (rangeMatch && rangeHasContext) {
+    const low = readPriceMatch(rangeMatch);
+    const high = readPriceMatch(rangeMatch, 3);
+    if (low && high && low.value < high.value) {
+      const currency = currencyOf(rangeMatch, low, preferredCurrency) || currencyOf(rangeMatch, high, preferredCurrency, 3);
+      return { min: low.value, max: high.value, target: null, tolerance: null, currency };
+    }
+  }
+
+  const target = matchFirst(normalizedText, TARGET_PATTERNS);
+  if (target) {
+    return {
+      min: null,
+      max: null,
+      target: target.price.value,
+      tolerance: DEFAULT_TARGET_TOLERANCE,
+      currency: currencyOf(target.match, target.price, preferredCurrency),
+    };
+  }
+
+  const floor = matchFirst(normalizedText, FLOOR_PATTERNS);
+  const ceiling = parsePriceCeiling(text, preferredCurrency);
+  if (!floor && !ceiling) return null;
+
+  const floorCurrency = floor ? currencyOf(floor.match, floor.price, preferredCurrency) : null;
+  let min = floor?.price.value ?? null;
+  const max = ceiling?.value ?? null;
+  // "over 50, under 30" cannot be met - keep the ceiling (the usual intent)
+  if (min !== null && max !== null && min >= max) min = null;
+  return { min, max, target: null, tolerance: null, currency: ceiling?.currency || floorCurrency };
+}
+
+function toPositiveNumber(value: unknown): number | null {
+  const n = typeof value === "number" ? value : typeof value === "string" ? parseFloat(value) : NaN;
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/**
+ * Validates a price constraint from the LLM intent; returns null when it carries no usable price
+ */
+export function normalizePriceConstraint(raw: unknown): PriceConstraint | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const input = raw as Record<string, unknown>;
+  let min = toPositiveNumber(input.min);
+  let max = toPositiveNumber(input.max);
+  const target = toPositiveNumber(input.target);
+  if (min !== null && max !== null && min > max) [min, max] = [max, min];
+  if (min === null && max === null && target === null) return null;
+
+  let tolerance = target !== null ? toPositiveNumber(input.tolerance) ?? DEFAULT_TARGET_TOLERANCE : null;
+  // Accept "20" meaning 20%
+  if (tolerance !== null && tolerance >= 1) tolerance = tolerance / 100;
+  if (tolerance !== null) tolerance = Math.min(tolerance, MAX_TARGET_TOLERANCE);
+
+  return { min, max, target, tolerance, currency: normalizeCurrencyCode(input.currency) };
+}
+
+function roundPrice(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Min/max bounds a constraint allows; a target becomes target ± tolerance (clamped by any explicit min/max)
+ */
+export function priceConstraintBounds(constraint: PriceConstraint): PriceBounds {
+  let min = constraint.min;
+  let max = constraint.max;
+  if (constraint.target !== null) {
+    const tolerance = constraint.tolerance ?? DEFAULT_TARGET_TOLERANCE;
+    const low = roundPrice(constraint.target * (1 - tolerance));
+    const high = roundPrice(constraint.target * (1 + tolerance));
+    min = min === null ? low : Math.max(min, low);
+    max = max === null ? high : Math.min(max, high);
+  }
+  return { min, max };
+}
+
+/**
+ * Progressively wider bounds to try, in order, when too few products fit the original bounds
+ */
+export function buildPriceRelaxationLadder(bounds: PriceBounds, steps: number[] = PRICE_RELAXATION_STEPS): PriceBounds[] {
+  if (bounds.min === null && bounds.max === null) return [];
+  return steps.map((step) => ({
+    min: bounds.min === null ? null : roundPrice(bounds.min * (1 - step)),
+    max: bounds.max === null ? null : roundPrice(bounds.max * (1 + step)),
+  }));
+}
+
+export function priceWithinBounds(price: number, bounds: PriceBounds): boolean {
+  if (bounds.min !== null && price < bounds.min) return false;
+  if (bounds.max !== null && price > bounds.max) return false;
+  return true;
+}
+
+export function formatPrice(amount: number, currency: string | null): string {
+  const fractionDigits = Number.isInteger(amount) ? 0 : 2;
+  if (!currency) return amount.toFixed(fractionDigits);
+  try {
+    return new Intl.NumberFormat("en", {
+      style: "currency",
+      currency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    }).format(amount);
+  } catch {
+    return `${amount.toFixed(fractionDigits)} ${currency}`;
+  }
+}
+
+/**
+ * Shopper-facing wording of a constraint: "between £50 and £80", "around €30", "at least $200", "up to $100"
+ */
+export function describePriceConstraint(constraint: PriceConstraint, currency: string | null): string {
+  if (constraint.target !== null) return `around ${formatPrice(constraint.target, currency)}`;
+  if (constraint.min !== null && constraint.max === null) return `at least ${formatPrice(constraint.min, currency)}`;
+  return describePriceBounds({ min: constraint.min, max: constraint.max }, currency);
+}
+
+export function describePriceBounds(bounds: PriceBounds, currency: string | null): string {
+  if (bounds.min !== null && bounds.max !== null) {
+    return `between ${formatPrice(bounds.min, currency)} and ${formatPrice(bounds.max, currency)}`;
+  }
+  if (bounds.min !== null) return `from ${formatPrice(bounds.min, currency)}`;
+  if (bounds.max !== null) return `up to ${formatPrice(bounds.max, currency)}`;
+  return "";
+}
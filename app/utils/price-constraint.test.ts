@@ -0,0 +1,88 @@
+/**
+ * Unit tests for shopper price constraints
+ * Ranges, floors, targets and ceilings from text, LLM output validation, bounds and relaxation wording
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  buildPriceRelaxationLadder,
+  describePriceBounds,
+  describePriceConstraint,
+  normalizePriceConstraint,
+  parsePriceCeiling,
+  parsePriceConstraint,
+  priceConstraintBounds,
+} from "./price-constraint.server";
+
+describe("parsePriceConstraint", () => {
+  it("parses ranges with currencies on either side", () => {
+    expect(parsePriceConstraint("a jacket between £50 and £80")).toEqual({ min: 50, max: 80, target: null, tolerance: null, currency: "GBP" });
+    expect(parsePriceConstraint("from 100 to 150 euros")).toMatchObject({ min: 100, max: 150, currency: "EUR" });
+    expect(parsePriceConstraint("$1,200-$1,500 please")).toMatchObject({ min: 1200, max: 1500, currency: "USD" });
+  });
+
+  it("parses floors", () => {
+    expect(parsePriceConstraint("at least $200 for a good one")).toMatchObject({ min: 200, max: null, currency: "USD" });
+    expect(parsePriceConstraint("something over 50")).toMatchObject({ min: 50, max: null });
+    expect(parsePriceConstraint("€300 and up")).toMatchObject({ min: 300, currency: "EUR" });
+  });
+
+  it("parses targets with the default tolerance", () => {
+    expect(parsePriceConstraint("a red wine around 30 euros")).toEqual({ min: null, max: null, target: 30, tolerance: 0.2, currency: "EUR" });
+    expect(parsePriceConstraint("budget about 40")).toMatchObject({ target: 40, currency: null });
+  });
+
+  it("combines a floor and a ceiling, keeping the ceiling when they conflict", () => {
+    expect(parsePriceConstraint("over $50 but under $90")).toMatchObject({ min: 50, max: 90 });
+    expect(parsePriceConstraint("over $90 but under $50")).toMatchObject({ min: null, max: 50 });
+    expect(parsePriceConstraint("under 5000 yen")).toMatchObject({ max: 5000, currency: "JPY" });
+  });
+
+  it("ignores numbers that are not prices", () => {
+    expect(parsePriceConstraint("a tent for 2 to 3 people")).toBeNull();
+    expect(parsePriceConstraint("at least 4 bedrooms worth of lights")).toBeNull();
+    expect(parsePriceConstraint("around 30 cm wide")).toBeNull();
+    expect(parsePriceConstraint("a blue linen shirt")).toBeNull();
+  });
+});
+
+describe("parsePriceCeiling", () => {
+  it("extracts only the ceiling", () => {
+    expect(parsePriceCeiling("anything under 80 CAD")).toEqual({ value: 80, currency: "CAD" });
+    expect(parsePriceCeiling("at least $200")).toBeNull();
+  });
+});
+
+describe("normalizePriceConstraint", () => {
+  it("validates LLM output", () => {
+    expect(normalizePriceConstraint({ min: 80, max: 50, target: null, tolerance: null, currency: "gbp" })).toEqual({
+      min: 50, max: 80, target: null, tolerance: null, currency: "GBP",
+    });
+    expect(normalizePriceConstraint({ min: null, max: null, target: "30", tolerance: 10, currency: null })).toMatchObject({ target: 30, tolerance: 0.1 });
+    expect(normalizePriceConstraint({ min: null, max: -5, target: null, tolerance: null, currency: "USD" })).toBeNull();
+    expect(normalizePriceConstraint(null)).toBeNull();
+  });
+});
+
+describe("bounds and relaxation", () => {
+  it("turns a target into bounds clamped by explicit limits", () => {
+    expect(priceConstraintBounds({ min: null, max: null, target: 30, tolerance: 0.2, currency: null })).toEqual({ min: 24, max: 36 });
+    expect(priceConstraintBounds({ min: null, max: 32, target: 30, tolerance: 0.2, currency: null })).toEqual({ min: 24, max: 32 });
+  });
+
+  it("widens each side that is set", () => {
+    expect(buildPriceRelaxationLadder({ min: 100, max: 200 }, [0.1, 0.5])).toEqual([
+      { min: 90, max: 220 },
+      { min: 50, max: 300 },
+    ]);
+    expect(buildPriceRelaxationLadder({ min: null, max: 100 }, [0.15])).toEqual([{ min: null, max: 115 }]);
+    expect(buildPriceRelaxationLadder({ min: null, max: null })).toEqual([]);
+  });
+
+  it("describes constraints and bounds for shoppers", () => {
+    expect(describePriceConstraint({ min: null, max: null, target: 30, tolerance: 0.2, currency: null }, "EUR")).toBe("around €30");
+    expect(describePriceConstraint({ min: 200, max: null, target: null, tolerance: null, currency: null }, "USD")).toBe("at least $200");
+    expect(describePriceBounds({ min: 42.5, max: 92 }, "GBP")).toBe("between £42.50 and £92");
+    expect(describePriceBounds({ min: null, max: 115 }, null)).toBe("up to 115");
+  });
+});
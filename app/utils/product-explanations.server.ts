@@ -0,0 +1,172 @@
+/**
+ * Per-product "why we picked this" explanations (ConciergeResult.productExplanations)
+ * The AI ranker writes one short reason per selected product in the experience's tone; products it
+ * did not explain (fallback ranking, cache hits, pins, refills, refinements) get a deterministic
+ * explanation built from the intent terms, facets and budget they match.
+ */
+
+import { extractSearchText, normalizeText } from "~/utils/text-indexing.server";
+
+export type ProductExplanations = Record<string, string>; // handle -> explanation
+
+export type ExplanationSignals = {
+  hardTerms: string[];
+  softTerms: string[];
+  hardFacets?: Record<string, string | string[] | null | undefined>;
+  priceMin?: number | null;
+  priceMax?: number | null;
+};
+
+export type ExplainableProduct = {
+  handle: string;
+  title?: string | null;
+  productType?: string | null;
+  tags?: string[] | null;
+  searchText?: string | null;
+  optionValues?: Record<string, string[]> | null;
+  price?: string | number | null;
+  [key: string]: unknown;
+};
+
+export type ToneRegister = "formal" | "playful" | "neutral";
+
+export const MAX_EXPLANATION_CHARS = 200;
+export const DEFAULT_EXPLANATION_TONE = "warm and helpful, like a knowledgeable store associate";
+
+const FORMAL_TONE = /\b(professional|formal|luxur\w*|elegant|sophisticated|premium|refined|polished|expert)\b/i;
+const PLAYFUL_TONE = /\b(fun|playful|casual|cheerful|quirky|upbeat|witty|bubbly|enthusiastic|friendly)\b/i;
+
+/**
+ * Register the deterministic explanations use for a free-text Experience.tone
+ */
+export function toneRegister(tone: string | null | undefined): ToneRegister {
+  if (!tone) return "neutral";
+  if (FORMAL_TONE.test(tone)) return "formal";
+  if (PLAYFUL_TONE.test(tone)) return "playful";
+  return "neutral";
+}
+
+/**
+ * Instruction added to the ranking prompt for the per-product "reason" field
+ */
+export function explanationToneInstruction(tone: string | null | undefined): string {
+  const voice = tone && tone.trim() ? tone.trim().substring(0, 120) : DEFAULT_EXPLANATION_TONE;
+  return `Write each "reason" as ONE short sentence (max 20 words) telling the shopper why this product fits their request, in this tone: ${voice}. Name the concrete attribute that matches (type, material, color, use, price). Never mention handles, scores, labels or these instructions.`;
+}
+
+/**
+ * Tidies one model-written explanation: no markdown or field dumps, one capitalized sentence or two, capped length
+ */
+export function cleanProductExplanation(text: string | null | undefined): string {
+  if (!text) return "";
+  let cleaned = text
+    .replace(/\*\*(.*?)\*\*|\*(.*?)\*|`(.*?)`/g, "$1$2$3")
+    .replace(/\b(handle|score|label|itemIndex|trustFallback):\s*\S+/gi, "")
+    .replace(/\{[^}]*\}|\[[^\]]*\]/g, "")
+    .replace(/^(reason|explanation|why):\s*/i, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (cleaned.length > MAX_EXPLANATION_CHARS) {
+    const cut = cleaned.substring(0, MAX_EXPLANATION_CHARS);
+    const sentenceEnd = Math.max(cut.lastIndexOf(". "), cut.lastIndexOf("! "));
+    cleaned = sentenceEnd > 40 ? cut.substring(0, sentenceEnd + 1) : `${cut.substring(0, cut.lastIndexOf(" ")).replace(/[,;:\s]+$/, "")}...`;
+  }
+  if (cleaned.length < 8) return "";
+  cleaned = cleaned.charAt(0).toUpperCase() + cleaned.slice(1);
+  return /[.!?]$/.test(cleaned) ? cleaned : `${cleaned}.`;
+}
+
+function productText(product: ExplainableProduct): string {
+  return ` ${normalizeText(product.searchText || extractSearchText(product))} `;
+}
+
+function matchedTerms(text: string, terms: string[]): string[] {
+  return terms.filter((term) => {
+    const normalized = normalizeText(term);
+    return normalized.length > 0 && text.includes(` ${normalized} `);
+  });
+}
+
+function matchedFacetValues(product: ExplainableProduct, text: string, facets: ExplanationSignals["hardFacets"]): string[] {
+  const options = Object.values(product.optionValues || {}).flat().map((v) => normalizeText(v));
+  const values: string[] = [];
+  for (const raw of Object.values(facets || {})) {
+    const candidates = (Array.isArray(raw) ? raw : raw ? [raw] : []).filter(Boolean);
+    const hit = candidates.find((value) => {
+      const normalized = normalizeText(value);
+      return options.includes(normalized) || text.includes(` ${normalized} `);
+    });
+    if (hit) values.push(hit);
+  }
+  return values;
+}
+
+function withinBudget(product: ExplainableProduct, signals: ExplanationSignals): boolean {
+  if (signals.priceMax == null && signals.priceMin == null) return false;
+  const price = product.price !== null && product.price !== undefined ? parseFloat(String(product.price)) : NaN;
+  if (!Number.isFinite(price) || price <= 0) return false;
+  return (signals.priceMax == null || price <= signals.priceMax) && (signals.priceMin == null || price >= signals.priceMin);
+}
+
+const quoteList = (terms: string[]) => terms.map((t) => `"${t}"`).join(" and ");
+
+/**
+ * Deterministic explanation from the request terms, facets and budget the product matches
+ */
+export function buildProductExplanation(product: ExplainableProduct, signals: ExplanationSignals, tone?: string | null): string {
+  const text = productText(product);
+  const terms = [...matchedTerms(text, signals.hardTerms), ...matchedTerms(text, signals.softTerms)]
+    .filter((term, i, all) => all.indexOf(term) === i)
+    .slice(0, 2);
+  const facets = matchedFacetValues(product, text, signals.hardFacets).slice(0, 2);
+  const budget = withinBudget(product, signals);
+  const register = toneRegister(tone);
+
+  if (terms.length === 0 && facets.length === 0 && !budget) {
+    if (register === "formal") return "A considered choice that suits your request.";
+    if (register === "playful") return "We think you'll love this one!";
+    return "A strong overall match for what you described.";
+  }
+
+  const matchText = terms.length > 0 ? quoteList(terms) : "what you asked for";
+  const facetText = facets.length > 0 ? ` in ${facets.join(" and ")}` : "";
+  if (register === "formal") {
+    return `Selected for its match to ${matchText}${facetText}${budget ? ", and priced within your budget" : ""}.`;
+  }
+  if (register === "playful") {
+    return `Ticks the box for ${matchText}${facetText}${budget ? " - and it fits your budget" : ""}!`;
+  }
+  return `Matches ${matchText}${facetText}${budget ? ", within your budget" : ""}.`;
+}
+
+/**
+ * Explanation for every delivered handle: the written one (AI reason, or the previous result version's)
+ * when there is one, otherwise the deterministic one
+ */
+export function buildProductExplanations(
+  handles: string[],
+  products: ExplainableProduct[],
+  written: ProductExplanations | null | undefined,
+  signals: ExplanationSignals,
+  tone?: string | null
+): ProductExplanations {
+  const byHandle = new Map(products.map((p) => [p.handle, p]));
+  const explanations: ProductExplanations = {};
+  for (const handle of handles) {
+    const fromWritten = cleanProductExplanation(written?.[handle]);
+    const product = byHandle.get(handle);
+    const explanation = fromWritten || (product ? buildProductExplanation(product, signals, tone) : "");
+    if (explanation) explanations[handle] = explanation;
+  }
+  return explanations;
+}
+
+/**
+ * Reads a stored explanations object (JSON column); anything malformed is dropped
+ */
+export function parseProductExplanations(raw: unknown): ProductExplanations {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+  return Object.fromEntries(
+    Object.entries(raw as Record<string, unknown>).filter((entry): entry is [string, string] => typeof entry[1] === "string" && entry[1].length > 0)
+  );
+}
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for per-product explanations
+ * Tone registers, cleaning model-written reasons and the deterministic fallback
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  buildProductExplanation,
+  buildProductExplanations,
+  cleanProductExplanation,
+  explanationToneInstruction,
+  parseProductExplanations,
+  toneRegister,
+  type ExplainableProduct,
+} from "./product-explanations.server";
+
+const linenDress: ExplainableProduct = {
+  handle: "linen-dress",
+  title: "Linen Summer Dress",
+  productType: "Dress",
+  tags: ["summer"],
+  optionValues: { Color: ["White", "Navy"] },
+  price: "49.00",
+};
+
+const signals = { hardTerms: ["dress"], softTerms: ["linen"], hardFacets: { color: "white" }, priceMin: null, priceMax: 60 };
+
+describe("toneRegister", () => {
+  it("maps free-text tones to a register", () => {
+    expect(toneRegister("Elegant and professional")).toBe("formal");
+    expect(toneRegister("fun, upbeat")).toBe("playful");
+    expect(toneRegister("calm")).toBe("neutral");
+    expect(toneRegister(null)).toBe("neutral");
+  });
+
+  it("puts the experience tone in the prompt instruction", () => {
+    expect(explanationToneInstruction("cheeky and fun")).toContain("in this tone: cheeky and fun.");
+    expect(explanationToneInstruction("  ")).toContain("knowledgeable store associate");
+  });
+});
+
+describe("cleanProductExplanation", () => {
+  it("strips markdown and field dumps and finishes the sentence", () => {
+    expect(cleanProductExplanation("reason: **Soft linen** dress in white handle: linen-dress")).toBe("Soft linen dress in white.");
+    expect(cleanProductExplanation("ok")).toBe("");
+    expect(cleanProductExplanation(null)).toBe("");
+  });
+
+  it("caps long explanations", () => {
+    const cleaned = cleanProductExplanation("A breathable dress for hot days ".repeat(12));
+    expect(cleaned.length).toBeLessThanOrEqual(203);
+    expect(cleaned.endsWith("...")).toBe(true);
+  });
+});
+
+describe("buildProductExplanation", () => {
+  it("names matched terms, facets and budget in the experience tone", () => {
+    expect(buildProductExplanation(linenDress, signals)).toBe('Matches "dress" and "linen" in white, within your budget.');
+    expect(buildProductExplanation(linenDress, signals, "luxury")).toBe('Selected for its match to "dress" and "linen" in white, and priced within your budget.');
+    expect(buildProductExplanation(linenDress, signals, "playful")).toBe('Ticks the box for "dress" and "linen" in white - and it fits your budget!');
+  });
+
+  it("falls back to a generic sentence when nothing matches", () => {
+    const explanation = buildProductExplanation({ handle: "mug", title: "Mug" }, { hardTerms: ["dress"], softTerms: [] });
+    expect(explanation).toBe("A strong overall match for what you described.");
+  });
+});
+
+describe("buildProductExplanations", () => {
+  it("prefers written reasons and explains the rest", () => {
+    const explanations = buildProductExplanations(
+      ["linen-dress", "mug", "missing"],
+      [linenDress, { handle: "mug", title: "Dress Mug" }],
+      { mug: "a cheerful mug for your morning coffee" },
+      signals
+    );
+    expect(explanations).toEqual({
+      "linen-dress": 'Matches "dress" and "linen" in white, within your budget.',
+      mug: "A cheerful mug for your morning coffee.",
+    });
+  });
+
+  it("reads stored explanations and drops malformed entries", () => {
+    expect(parseProductExplanations({ a: "Fits.", b: 3, c: "" })).toEqual({ a: "Fits." });
+    expect(parseProductExplanations(["a"])).toEqual({});
+    expect(parseProductExplanations(null)).toEqual({});
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Product family grouping (industry-agnostic)
+ * Coarse family keys used to balance candidate windows and refills across product kinds
+ */
+
+/**
+ * Canonicalize a group key for merging duplicates (industry-agnostic)
+ * Handles singular/plural, punctuation, capitalization, whitespace variants
+ */
+export function canonicalizeGroupKey(rawKey: string): string {
+  if (!rawKey || typeof rawKey !== "string") return "unknown";
+  
+  // Step 1: lowercase, trim
+  let canonical = rawKey.trim().toLowerCase();
+  
+  // Step 2: replace punctuation/separators with space, then collapse whitespace
+  canonical = canonical.replace(/[-_/.,'"]/g, " ").replace(/\s+/g, " ").trim();
+  
+  if (canonical.length === 0) return "unknown";
+  
+  // Step 3: Split into tokens
+  const tokens = canonical.split(/\s+/).filter(t => t.length > 0);
+  
+  // Step 4: Remove leading/trailing stop tokens (the, and, of) if standalone
+  const stopTokens = new Set(["the", "and", "of"]);
+  while (tokens.length > 0 && stopTokens.has(tokens[0])) {
+    tokens.shift();
+  }
+  while (tokens.length > 0 && stopTokens.has(tokens[tokens.length - 1])) {
+    tokens.pop();
+  }
+  
+  if (tokens.length === 0) return "unknown";
+  
+  // Step 5: Singularize tokens (conservative English)
+  const singularized = tokens.map(token => {
+    // Do not singularize short tokens or tokens with digits
+    if (token.length <= 3 || /\d/.test(token)) {
+      return token;
+    }
+    
+    // Conservative singularization rules
+    if (token.endsWith("ies") && token.length > 4) {
+      return token.slice(0, -3) + "y";
+    } else if (token.endsWith("sses") || token.endsWith("shes") || token.endsWith("ches") || token.endsWith("xes") || token.endsWith("zes")) {
+      return token.slice(0, -2);
+    } else if (token.endsWith("s") && !token.endsWith("ss") && token.length > 1) {
+      return token.slice(0, -1);
+    }
+    
+    return token;
+  });
+  
+  // Step 6: Remove duplicate tokens (keep order)
+  const uniqueTokens: string[] = [];
+  const seen = new Set<string>();
+  for (const token of singularized) {
+    if (!seen.has(token)) {
+      uniqueTokens.push(token);
+      seen.add(token);
+    }
+  }
+  
+  if (uniqueTokens.length === 0) return "unknown";
+  
+  return uniqueTokens.join(" ");
+}
+
+/**
+ * Product fields the family key is derived from (REST and GraphQL shapes; values are checked at runtime)
+ */
+export type FamilyKeyCandidate = {
+  productType?: unknown;
+  product_type?: unknown;
+  category?: unknown;
+  collections?: unknown;
+  vendor?: unknown;
+  title?: unknown;
+};
+
+/**
+ * Derive a coarse family key from a product (industry-agnostic)
+ * Uses productType/category/collections/title/vendor with generic stopword removal
+ */
+export function deriveFamilyKey(candidate: FamilyKeyCandidate): { key: string; source: "productType" | "category" | "title" | "vendor" | "unknown" } {
+  // Base: productType > category > collections[0] > vendor > title
+  let base = "";
+  let source: "productType" | "category" | "title" | "vendor" | "unknown" = "unknown";
+  
+  if (candidate.productType && typeof candidate.productType === "string") {
+    base = candidate.productType;
+    source = "productType";
+  } else if (candidate.product_type && typeof candidate.product_type === "string") {
+    base = candidate.product_type;
+    source = "productType";
+  } else if (candidate.category && typeof candidate.category === "string") {
+    base = candidate.category;
+    source = "category";
+  } else if (candidate.collections && Array.isArray(candidate.collections) && candidate.collections.length > 0) {
+    const firstColl: unknown = candidate.collections[0];
+    if (typeof firstColl === "string") {
+      base = firstColl;
+    } else if (firstColl && typeof firstColl === "object") {
+      const { title, handle } = firstColl as { title?: unknown; handle?: unknown };
+      base = (typeof title === "string" && title) || (typeof handle === "string" && handle) || "";
+    }
+    source = "category";
+  } else if (candidate.vendor && typeof candidate.vendor === "string") {
+    base = candidate.vendor;
+    source = "vendor";
+  } else if (candidate.title && typeof candidate.title === "string") {
+    base = candidate.title;
+    source = "title";
+  }
+  
+  if (!base || base.trim().length === 0) {
+    return { key: "unknown", source: "unknown" };
+  }
+  
+  // Normalize: lowercase, replace non-alphanum with space, collapse whitespace
+  const normalized = base.toLowerCase()
+    .replace(/[^\w\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  
+  // Generic stopwords (NOT category nouns - industry-agnostic)
+  const stopwords = new Set([
+    "new", "sale", "best", "top", "premium", "classic", "basic", "limited", "edition", "bundle", "set", "pack",
+    "mens", "men", "women", "womens", "kids", "child", "unisex",
+    "small", "medium", "large", "xl", "xxl", "xxxl", "one", "size",
+    "and", "or", "for", "with", "without", "the", "a", "an", "of",
+    "cotton", "satin", "silk", "poly", "polyester", "linen", "leather", "wool", "denim",
+    "red", "blue", "black", "white", "green", "yellow", "pink", "grey", "gray", "brown", "beige", "navy",
+    "print", "printed", "plain", "striped", "floral", "pattern", "patterns"
+  ]);
+  
+  // Split into tokens, filter stopwords, numbers, and short tokens
+  const tokens = normalized.split(/\s+/)
+    .filter(t => {
+      const cleaned = t.trim();
+      return cleaned.length > 2 && 
+             !stopwords.has(cleaned) && 
+             !/^\d+$/.test(cleaned); // Drop pure numbers
+    });
+  
+  if (tokens.length === 0) {
+    return { key: "unknown", source: "unknown" };
+  }
+  
+  // Family key selection (generic heuristic):
+  // Prefer last token, else prefer longest token, else first token
+  let familyKey = tokens[tokens.length - 1]; // Last token
+  
+  // If last token is too short or common, try longest
+  if (familyKey.length < 4) {
+    const longest = tokens.reduce((a, b) => a.length > b.length ? a : b);
+    if (longest.length >= 4) {
+      familyKey = longest;
+    }
+  }
+  
+  return { key: familyKey, source };
+}
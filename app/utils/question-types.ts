@@ -0,0 +1,219 @@
+/**
+ * Experience question types
+ * Shared by the experience editor (client validation), the editor actions and the quiz engine.
+ * Each type maps to a structured intent signal (see utils/answer-signals.server.ts).
+ */
+
+export type QuestionType =
+  | "text"
+  | "select"
+  | "multi_select"
+  | "image_choice"
+  | "range"
+  | "yes_no"
+  | "rank";
+
+export const QUESTION_TYPES: Array<{ type: QuestionType; label: string }> = [
+  { type: "text", label: "Text" },
+  { type: "select", label: "Select (Single Choice)" },
+  { type: "multi_select", label: "Multi-select" },
+  { type: "image_choice", label: "Image choice (swatches / images)" },
+  { type: "range", label: "Numeric range / price slider" },
+  { type: "yes_no", label: "Yes / No" },
+  { type: "rank", label: "Rank these" },
+];
+
+/**
+ * Question types whose answers come from a list of options
+ */
+export const OPTION_QUESTION_TYPES: QuestionType[] = ["select", "multi_select", "image_choice", "rank"];
+
+/**
+ * What an answer contributes to intent parsing:
+ * - soft_term / hard_term / avoid_term: the answer text becomes a search term of that strength
+ * - hard_facet: the answer must match a product facet (e.g. color) - facet name required
+ * - price: numeric range becomes a price floor / ceiling
+ * - none: answer is kept as conversation context only
+ */
+export type QuestionSignalKind = "soft_term" | "hard_term" | "avoid_term" | "hard_facet" | "price" | "none";
+
+export const QUESTION_SIGNAL_KINDS: Array<{ kind: QuestionSignalKind; label: string }> = [
+  { kind: "soft_term", label: "Preference (soft term)" },
+  { kind: "hard_term", label: "Requirement (hard term)" },
+  { kind: "avoid_term", label: "Exclude (avoid term)" },
+  { kind: "hard_facet", label: "Product facet (e.g. color, size)" },
+  { kind: "price", label: "Price range" },
+  { kind: "none", label: "Context only" },
+];
+
+export type QuestionSignal = {
+  kind: QuestionSignalKind;
+  facet?: string; // hard_facet: option / facet name (color, size, material, ...)
+  term?: string; // yes_no: term (or facet value) applied when the shopper answers "yes"
+};
+
+/**
+ * Choice option as saved by the editor: a plain value, or value / label (plus image for image_choice)
+ */
+export type QuestionOptionDefinition = string | { value: string; label: string; imageUrl?: string };
+
+/**
+ * "Show only if" rule as saved by the editor (the quiz engine normalizes it to QuizCondition)
+ */
+export type QuestionConditionDefinition = {
+  questionId: string;
+  equals?: string;
+  notEquals?: string;
+  in?: string[];
+};
+
+/**
+ * One question as saved in Experience.questionsJson by the editor
+ * Range bounds may still be strings while being edited; validateQuestionDefinition checks them.
+ */
+export type QuestionDefinition = {
+  id?: string;
+  type: string;
+  question?: string;
+  placeholder?: string;
+  options?: QuestionOptionDefinition[];
+  multiple?: boolean; // image_choice
+  min?: number | string; // range
+  max?: number | string; // range
+  step?: number | string; // range
+  unit?: string; // range
+  optional?: boolean;
+  showIf?: QuestionConditionDefinition | QuestionConditionDefinition[];
+  signal?: QuestionSignal | null;
+};
+
+/**
+ * Id for a question saved without one: the quiz engine's positional fallback (`q1`, `q2`, ...)
+ * so existing branching rules and stored quiz state keep pointing at the same question,
+ * or a random id when that one is taken
+ */
+export function defaultQuestionId(questions: Array<{ id?: string } | null | undefined>, index: number): string {
+  const used = new Set(questions.map((q) => q?.id).filter(Boolean));
+  let id = `q${index + 1}`;
+  while (used.has(id)) {
+    id = `q${Math.random().toString(36).slice(2, 8)}`;
+  }
+  return id;
+}
+
+/**
+ * Id for a question added in the editor; never positional, so reordering or deleting questions
+ * cannot hand an old id (and its stored answers) to a different question
+ */
+export function newQuestionId(questions: Array<{ id?: string } | null | undefined>): string {
+  const used = new Set(questions.map((q) => q?.id).filter(Boolean));
+  let id: string;
+  do {
+    id = `q${Math.random().toString(36).slice(2, 8)}`;
+  } while (used.has(id));
+  return id;
+}
+
+/**
+ * Gives every question a stable id before it is edited or saved (see defaultQuestionId)
+ * Must run on questions in their saved order, before any reordering.
+ */
+export function assignQuestionIds<T extends { id?: string }>(questions: T[]): T[] {
+  const withIds = questions.slice();
+  withIds.forEach((q, index) => {
+    if (typeof q.id === "string" && q.id.trim() !== "") return;
+    withIds[index] = { ...q, id: defaultQuestionId(withIds, index) };
+  });
+  return withIds;
+}
+
+export function isQuestionType(type: unknown): type is QuestionType {
+  return typeof type === "string" && QUESTION_TYPES.some((t) => t.type === type);
+}
+
+/**
+ * Default signal per type when the merchant has not configured one
+ */
+export function defaultSignalForType(type: string): QuestionSignal {
+  switch (type) {
+    case "range":
+      return { kind: "price" };
+    case "text":
+      return { kind: "none" }; // Free text is already parsed from the conversation
+    default:
+      return { kind: "soft_term" };
+  }
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Validates one question definition from the editor.
+ * Returns an error message (without the "Question N:" prefix) or null.
+ */
+export function validateQuestionDefinition(q: QuestionDefinition | null | undefined): string | null {
+  if (!q || !isQuestionType(q.type)) {
+    return `Type must be one of: ${QUESTION_TYPES.map((t) => t.type).join(", ")}`;
+  }
+  if (!q.question || String(q.question).trim() === "") {
+    return "Question text is required";
+  }
+
+  if (OPTION_QUESTION_TYPES.includes(q.type)) {
+    if (!Array.isArray(q.options) || q.options.length < 2) {
+      return "Must have at least 2 options";
+    }
+    for (let j = 0; j < q.options.length; j++) {
+      const opt = q.options[j];
+      if (typeof opt === "object" && opt !== null) {
+        if (!opt.value || String(opt.value).trim() === "" || !opt.label || String(opt.label).trim() === "") {
+          return `Option ${j + 1}: value and label are required`;
+        }
+        if (q.type === "image_choice" && (!opt.imageUrl || String(opt.imageUrl).trim() === "")) {
+          return `Option ${j + 1}: image URL is required`;
+        }
+      } else if (!opt || String(opt).trim() === "") {
+        return `Option ${j + 1}: value is required`;
+      } else if (q.type === "image_choice") {
+        return `Option ${j + 1}: image URL is required`;
+      }
+    }
+  }
+
+  if (q.type === "range") {
+    const min = toNumber(q.min);
+    const max = toNumber(q.max);
+    if (min === null || max === null) {
+      return "Range needs a minimum and maximum";
+    }
+    if (min >= max) {
+      return "Range minimum must be less than maximum";
+    }
+    const step = toNumber(q.step);
+    if (q.step !== undefined && q.step !== "" && (step === null || step <= 0)) {
+      return "Range step must be a positive number";
+    }
+  }
+
+  if (q.signal !== undefined && q.signal !== null) {
+    const kind = q.signal.kind;
+    if (!QUESTION_SIGNAL_KINDS.some((k) => k.kind === kind)) {
+      return "Intent signal is not recognised";
+    }
+    if (kind === "hard_facet" && (!q.signal.facet || String(q.signal.facet).trim() === "")) {
+      return "Facet name is required for a product facet signal";
+    }
+    if (kind === "price" && q.type !== "range") {
+      return "Only range questions can set a price range";
+    }
+    if (q.type === "yes_no" && kind !== "none" && (!q.signal.term || String(q.signal.term).trim() === "")) {
+      return "Yes / No questions need the term to apply when shoppers answer yes";
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,540 @@
+/**
+ * Quiz state machine for step-by-step concierge sessions
+ * Walks Experience.questionsJson one question at a time with branching (showIf),
+ * skips for optional questions, back-navigation and a completion check.
+ * Pure functions only - persistence lives in models/quiz-session.server.ts
+ */
+
+import { defaultSignalForType, type QuestionSignal } from "~/utils/question-types";
+
+export type QuizQuestionOption = { value: string; label: string; imageUrl?: string };
+
+/**
+ * A single branching condition on an earlier answer.
+ * Exactly one of equals / notEquals / in is expected; `in` wins if several are set.
+ */
+export type QuizCondition = {
+  questionId: string;
+  equals?: string;
+  notEquals?: string;
+  in?: string[];
+};
+
+export type QuizQuestion = {
+  id: string;
+  type: string;
+  question: string;
+  placeholder?: string;
+  options?: QuizQuestionOption[];
+  multiple?: boolean; // image_choice: allow several images to be picked
+  min?: number; // range
+  max?: number; // range
+  step?: number; // range
+  unit?: string; // range: "currency" renders a price slider, anything else is a display unit
+  optional: boolean;
+  showIf: QuizCondition[]; // All conditions must hold for the question to be shown
+  signal: QuestionSignal;
+};
+
+/**
+ * Canonical answer value per question type:
+ * text / select / yes_no -> string, multi_select / image_choice / rank -> string[] (option values),
+ * range -> { min, max }
+ */
+export type QuizAnswerValue = string | string[] | { min: number | null; max: number | null };
+
+/**
+ * One answered question as stored in ConciergeSession.answersJson.
+ * `answer` is display text (labels) so conversation / query extraction keep working;
+ * `value` is the canonical value used for structured intent signals.
+ */
+export type QuizAnswerEntry = {
+  questionId: string;
+  question: string;
+  type: string;
+  answer: string;
+  value: QuizAnswerValue;
+};
+
+export type QuizState = {
+  currentId: string | null; // null once there is no further visible question
+  answers: Record<string, QuizAnswerValue>;
+  skipped: string[];
+  history: string[]; // Question ids in the order they were answered or skipped (back stack)
+};
+
+export type QuizAction =
+  | { type: "answer"; value: unknown }
+  | { type: "skip" }
+  | { type: "back" };
+
+export type QuizErrorCode =
+  | "no_current_question"
+  | "answer_required"
+  | "invalid_option"
+  | "not_skippable"
+  | "nothing_to_go_back_to";
+
+export class QuizStateError extends Error {
+  readonly code: QuizErrorCode;
+
+  constructor(code: QuizErrorCode, message: string) {
+    super(message);
+    this.name = "QuizStateError";
+    this.code = code;
+  }
+}
+
+function normalizeValue(value: unknown): string {
+  return String(value ?? "").trim().toLowerCase();
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = typeof value === "number" ? value : parseFloat(String(value).replace(/,/g, ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+function normalizeSignal(raw: unknown, type: string): QuestionSignal {
+  if (!raw || typeof raw !== "object") return defaultSignalForType(type);
+  const r = raw as Record<string, unknown>;
+  const kind = typeof r.kind === "string" ? r.kind : "";
+  if (!["soft_term", "hard_term", "avoid_term", "hard_facet", "price", "none"].includes(kind)) {
+    return defaultSignalForType(type);
+  }
+  const signal: QuestionSignal = { kind: kind as QuestionSignal["kind"] };
+  if (typeof r.facet === "string" && r.facet.trim() !== "") signal.facet = r.facet.trim();
+  if (typeof r.term === "string" && r.term.trim() !== "") signal.term = r.term.trim();
+  return signal;
+}
+
+function normalizeConditions(raw: unknown): QuizCondition[] {
+  if (!raw) return [];
+  const list = Array.isArray(raw) ? raw : [raw];
+  const conditions: QuizCondition[] = [];
+  for (const item of list) {
+    if (!item || typeof item !== "object") continue;
+    const c = item as Record<string, unknown>;
+    const questionId = typeof c.questionId === "string" ? c.questionId.trim() : "";
+    if (!questionId) continue;
+    const condition: QuizCondition = { questionId };
+    if (Array.isArray(c.in)) {
+      condition.in = c.in.map((v) => String(v)).filter((v) => v.trim() !== "");
+    } else if (c.equals !== undefined) {
+      condition.equals = String(c.equals);
+    } else if (c.notEquals !== undefined) {
+      condition.notEquals = String(c.notEquals);
+    } else {
+      continue;
+    }
+    conditions.push(condition);
+  }
+  return conditions;
+}
+
+/**
+ * Normalizes raw questionsJson (string or array) into quiz questions.
+ * Mirrors the normalization in the session start route (prompt -> question,
+ * single_select -> select, {value,label} options) and assigns stable ids
+ * (`q1`, `q2`, ...) to questions saved before ids existed.
+ */
+export function normalizeQuizQuestions(raw: unknown): QuizQuestion[] {
+  let list: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      list = JSON.parse(raw || "[]");
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(list)) return [];
+
+  const usedIds = new Set<string>();
+  return list
+    .filter((item) => item && typeof item === "object")
+    .map((item, index) => {
+      const q = item as Record<string, unknown>;
+      let id = typeof q.id === "string" && q.id.trim() !== "" ? q.id.trim() : `q${index + 1}`;
+      while (usedIds.has(id)) id = `${id}_${index + 1}`;
+      usedIds.add(id);
+
+      const type = q.type === "single_select" ? "select" : q.type === "boolean" ? "yes_no" : String(q.type || "text");
+      const normalized: QuizQuestion = {
+        id,
+        type,
+        question: String(q.question || q.prompt || "").trim(),
+        optional: q.optional === true,
+        showIf: normalizeConditions(q.showIf),
+        signal: normalizeSignal(q.signal, type),
+      };
+      if (typeof q.placeholder === "string" && q.placeholder !== "") {
+        normalized.placeholder = q.placeholder;
+      }
+      if (Array.isArray(q.options)) {
+        normalized.options = q.options.map((opt: unknown) => {
+          const o = (typeof opt === "object" && opt !== null ? opt : {}) as Record<string, unknown>;
+          if (o.value !== undefined) {
+            const option: QuizQuestionOption = { value: String(o.value), label: String(o.label || o.value) };
+            if (typeof o.imageUrl === "string" && o.imageUrl.trim() !== "") option.imageUrl = o.imageUrl.trim();
+            return option;
+          }
+          return { value: String(opt), label: String(opt) };
+        });
+      }
+      if (type === "yes_no" && !normalized.options) {
+        normalized.options = [
+          { value: "yes", label: "Yes" },
+          { value: "no", label: "No" },
+        ];
+      }
+      if (type === "image_choice") {
+        normalized.multiple = q.multiple === true;
+      }
+      if (type === "range") {
+        normalized.min = toNumber(q.min) ?? 0;
+        normalized.max = toNumber(q.max) ?? 100;
+        const step = toNumber(q.step);
+        if (step !== null && step > 0) normalized.step = step;
+        if (typeof q.unit === "string" && q.unit.trim() !== "") normalized.unit = q.unit.trim();
+      }
+      return normalized;
+    });
+}
+
+/**
+ * Answer values a condition can compare against: the string itself, or each
+ * selected option for multi-value answers (range answers never match)
+ */
+function comparableValues(answer: QuizAnswerValue | undefined): string[] {
+  if (answer === undefined) return [];
+  if (typeof answer === "string") return answer.trim() === "" ? [] : [normalizeValue(answer)];
+  if (Array.isArray(answer)) return answer.map(normalizeValue);
+  return [];
+}
+
+function conditionHolds(condition: QuizCondition, answers: Record<string, QuizAnswerValue>): boolean {
+  const values = comparableValues(answers[condition.questionId]);
+  if (condition.in) {
+    return condition.in.some((v) => values.includes(normalizeValue(v)));
+  }
+  if (condition.equals !== undefined) {
+    return values.includes(normalizeValue(condition.equals));
+  }
+  if (condition.notEquals !== undefined) {
+    return !values.includes(normalizeValue(condition.notEquals));
+  }
+  return true;
+}
+
+/**
+ * Whether a question should be shown given the answers so far.
+ * Conditions on unanswered (or skipped) questions only pass for notEquals.
+ */
+export function isQuestionVisible(question: QuizQuestion, answers: Record<string, QuizAnswerValue>): boolean {
+  return question.showIf.every((c) => conditionHolds(c, answers));
+}
+
+function findNextVisibleId(questions: QuizQuestion[], answers: Record<string, QuizAnswerValue>, afterIndex: number): string | null {
+  for (let i = afterIndex + 1; i < questions.length; i++) {
+    if (isQuestionVisible(questions[i], answers)) return questions[i].id;
+  }
+  return null;
+}
+
+/**
+ * Drops answers to questions that are no longer visible (e.g. after changing an
+ * earlier answer on back-navigation). Repeats until stable because hiding one
+ * question can hide the questions that depend on it.
+ */
+export function pruneHiddenAnswers(questions: QuizQuestion[], answers: Record<string, QuizAnswerValue>): Record<string, QuizAnswerValue> {
+  const pruned = { ...answers };
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const q of questions) {
+      if (pruned[q.id] !== undefined && !isQuestionVisible(q, pruned)) {
+        delete pruned[q.id];
+        changed = true;
+      }
+    }
+  }
+  return pruned;
+}
+
+export function createQuizState(questions: QuizQuestion[]): QuizState {
+  return {
+    currentId: findNextVisibleId(questions, {}, -1),
+    answers: {},
+    skipped: [],
+    history: [],
+  };
+}
+
+/**
+ * Restores persisted state, falling back to a fresh state when the stored JSON
+ * is missing, malformed, or points at a question that no longer exists.
+ */
+export function parseQuizState(json: string | null | undefined, questions: QuizQuestion[]): QuizState {
+  if (!json) return createQuizState(questions);
+  try {
+    const parsed = JSON.parse(json);
+    const ids = new Set(questions.map((q) => q.id));
+    const currentId = typeof parsed?.currentId === "string" && ids.has(parsed.currentId) ? parsed.currentId : null;
+    const answers: Record<string, QuizAnswerValue> = {};
+    if (parsed?.answers && typeof parsed.answers === "object") {
+      for (const [id, value] of Object.entries(parsed.answers)) {
+        if (!ids.has(id)) continue;
+        if (typeof value === "string") {
+          answers[id] = value;
+        } else if (Array.isArray(value)) {
+          answers[id] = value.map((v) => String(v));
+        } else if (value && typeof value === "object") {
+          const range = value as Record<string, unknown>;
+          answers[id] = { min: toNumber(range.min), max: toNumber(range.max) };
+        }
+      }
+    }
+    const history = Array.isArray(parsed?.history) ? parsed.history.filter((id: unknown) => typeof id === "string" && ids.has(id)) : [];
+    const skipped = Array.isArray(parsed?.skipped) ? parsed.skipped.filter((id: unknown) => typeof id === "string" && ids.has(id)) : [];
+    if (currentId === null && history.length === 0) return createQuizState(questions);
+    return { currentId, answers, skipped, history };
+  } catch {
+    return createQuizState(questions);
+  }
+}
+
+export function getCurrentQuestion(questions: QuizQuestion[], state: QuizState): QuizQuestion | null {
+  if (!state.currentId) return null;
+  return questions.find((q) => q.id === state.currentId) || null;
+}
+
+function matchOption(question: QuizQuestion, raw: unknown): QuizQuestionOption {
+  const needle = normalizeValue(raw);
+  const match = (question.options || []).find(
+    (opt) => normalizeValue(opt.value) === needle || normalizeValue(opt.label) === needle
+  );
+  if (!match) {
+    throw new QuizStateError("invalid_option", `"${String(raw ?? "").trim()}" is not one of the options for "${question.question}"`);
+  }
+  return match;
+}
+
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string") return value.split(/\s*(?:,|>)\s*/).filter((v) => v !== "");
+  return value === undefined || value === null ? [] : [value];
+}
+
+/**
+ * Parses a range answer from { min, max }, [min, max] or "50-150" / "50 to 150" / "under 100"
+ */
+function parseRangeAnswer(question: QuizQuestion, value: unknown): { min: number | null; max: number | null } {
+  let min: number | null = null;
+  let max: number | null = null;
+  if (Array.isArray(value)) {
+    min = toNumber(value[0]);
+    max = toNumber(value[1]);
+  } else if (value && typeof value === "object") {
+    min = toNumber((value as Record<string, unknown>).min);
+    max = toNumber((value as Record<string, unknown>).max);
+  } else {
+    const text = String(value ?? "").toLowerCase();
+    const numbers = (text.match(/\d+(?:[.,]\d+)*/g) || []).map((n) => toNumber(n));
+    if (numbers.length >= 2) {
+      [min, max] = [numbers[0], numbers[1]];
+    } else if (numbers.length === 1) {
+      if (/\b(under|below|less than|up to|max)\b/.test(text)) max = numbers[0];
+      else if (/\b(over|above|more than|at least|min)\b|\+/.test(text)) min = numbers[0];
+      else min = max = numbers[0];
+    }
+  }
+  if (min === null && max === null) {
+    throw new QuizStateError("answer_required", `A range is required for "${question.question}"`);
+  }
+  if (min !== null && max !== null && min > max) [min, max] = [max, min];
+  // Clamp to the configured bounds; a value at the bound means "no limit" on that side
+  if (min !== null && question.min !== undefined && min <= question.min) min = null;
+  if (max !== null && question.max !== undefined && max >= question.max) max = null;
+  return { min, max };
+}
+
+function resolveAnswer(question: QuizQuestion, value: unknown): QuizAnswerValue {
+  if (question.type === "range") {
+    return parseRangeAnswer(question, value);
+  }
+
+  const isMulti = question.type === "multi_select" || question.type === "rank" || (question.type === "image_choice" && question.multiple === true);
+  if (isMulti) {
+    const picked = toList(value).map((v) => matchOption(question, v).value);
+    const unique = Array.from(new Set(picked));
+    if (unique.length === 0) {
+      throw new QuizStateError("answer_required", `An answer is required for "${question.question}"`);
+    }
+    return unique;
+  }
+
+  const raw = Array.isArray(value) ? value[0] : value;
+  const trimmed = String(raw ?? "").trim();
+  if (trimmed === "") {
+    throw new QuizStateError("answer_required", `An answer is required for "${question.question}"`);
+  }
+  if (question.type === "yes_no") {
+    if (/^(true|y|yes)$/i.test(trimmed)) return "yes";
+    if (/^(false|n|no)$/i.test(trimmed)) return "no";
+  }
+  if (question.options && question.options.length > 0 && question.type !== "text") {
+    return matchOption(question, trimmed).value;
+  }
+  return trimmed;
+}
+
+function optionLabel(question: QuizQuestion, value: string): string {
+  const option = (question.options || []).find((opt) => normalizeValue(opt.value) === normalizeValue(value));
+  return option ? option.label : value;
+}
+
+/**
+ * Display text for an answer, in a form the free-text budget / intent parsers
+ * already understand ("50-150", "Navy, Black", "Comfort > Price")
+ */
+export function formatQuizAnswer(question: QuizQuestion, value: QuizAnswerValue): string {
+  if (Array.isArray(value)) {
+    const labels = value.map((v) => optionLabel(question, v));
+    return labels.join(question.type === "rank" ? " > " : ", ");
+  }
+  if (typeof value === "object" && value !== null) {
+    const suffix = question.unit && question.unit !== "currency" ? ` ${question.unit}` : "";
+    if (value.min !== null && value.max !== null) return `${value.min}-${value.max}${suffix}`;
+    if (value.max !== null) return `under ${value.max}${suffix}`;
+    if (value.min !== null) return `over ${value.min}${suffix}`;
+    return "";
+  }
+  return optionLabel(question, value);
+}
+
+/**
+ * Coerces a raw widget answer into a canonical value without throwing
+ * (used when answers arrive in one shot via /session/start). Returns null if unusable.
+ */
+export function coerceQuizAnswer(question: QuizQuestion, value: unknown): QuizAnswerValue | null {
+  try {
+    return resolveAnswer(question, value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Applies an answer / skip / back action and returns the next state.
+ * Throws QuizStateError for actions that are not valid in the current state.
+ */
+export function applyQuizAction(questions: QuizQuestion[], state: QuizState, action: QuizAction): QuizState {
+  if (action.type === "back") {
+    if (state.history.length === 0) {
+      throw new QuizStateError("nothing_to_go_back_to", "Already at the first question");
+    }
+    const history = state.history.slice(0, -1);
+    const previousId = state.history[state.history.length - 1];
+    // Keep the previous answer so the client can prefill it
+    return { ...state, currentId: previousId, history, skipped: state.skipped.filter((id) => id !== previousId) };
+  }
+
+  const current = getCurrentQuestion(questions, state);
+  if (!current) {
+    throw new QuizStateError("no_current_question", "There is no question left to answer");
+  }
+  const currentIndex = questions.findIndex((q) => q.id === current.id);
+
+  let answers = { ...state.answers };
+  let skipped = state.skipped.filter((id) => id !== current.id);
+
+  if (action.type === "skip") {
+    if (!current.optional) {
+      throw new QuizStateError("not_skippable", `"${current.question}" cannot be skipped`);
+    }
+    delete answers[current.id];
+    skipped = [...skipped, current.id];
+  } else {
+    answers[current.id] = resolveAnswer(current, action.value);
+  }
+
+  answers = pruneHiddenAnswers(questions, answers);
+  skipped = skipped.filter((id) => {
+    const q = questions.find((candidate) => candidate.id === id);
+    return q ? isQuestionVisible(q, answers) : false;
+  });
+
+  return {
+    currentId: findNextVisibleId(questions, answers, currentIndex),
+    answers,
+    skipped,
+    history: [...state.history, current.id],
+  };
+}
+
+/**
+ * A quiz is complete when no question is pending and every visible required
+ * question has an answer.
+ */
+export function isQuizComplete(questions: QuizQuestion[], state: QuizState): boolean {
+  if (state.currentId !== null) return false;
+  return questions.every((q) => {
+    if (!isQuestionVisible(q, state.answers)) return true;
+    if (q.optional) return true;
+    return state.answers[q.id] !== undefined;
+  });
+}
+
+/**
+ * 1-based position of the current question among the questions visible with
+ * the current answers. `total` can change as branching answers come in.
+ */
+export function getQuizProgress(questions: QuizQuestion[], state: QuizState): { step: number; total: number } {
+  const visible = questions.filter((q) => isQuestionVisible(q, state.answers));
+  if (state.currentId === null) {
+    return { step: visible.length, total: visible.length };
+  }
+  const index = visible.findIndex((q) => q.id === state.currentId);
+  return { step: index + 1, total: visible.length };
+}
+
+/**
+ * Ordered answers for the recommendation pipeline (stored in answersJson)
+ */
+export function buildQuizAnswers(questions: QuizQuestion[], state: QuizState): QuizAnswerEntry[] {
+  return questions
+    .filter((q) => state.answers[q.id] !== undefined && isQuestionVisible(q, state.answers))
+    .map((q) => ({
+      questionId: q.id,
+      question: q.question,
+      type: q.type,
+      answer: formatQuizAnswer(q, state.answers[q.id]),
+      value: state.answers[q.id],
+    }));
+}
+
+/**
+ * Validates branching rules at save time: conditions must reference an earlier
+ * question, and equals/in values must be options of the source choice question.
+ * Returns an error message or null.
+ */
+export function validateQuizBranching(questions: QuizQuestion[]): string | null {
+  for (let i = 0; i < questions.length; i++) {
+    for (const condition of questions[i].showIf) {
+      const sourceIndex = questions.findIndex((q) => q.id === condition.questionId);
+      if (sourceIndex === -1 || sourceIndex >= i) {
+        return `Question ${i + 1}: "show only if" must refer to an earlier question`;
+      }
+      const source = questions[sourceIndex];
+      const expected = condition.in ?? (condition.equals !== undefined ? [condition.equals] : []);
+      if (source.type !== "text" && source.type !== "range" && source.options && expected.length > 0) {
+        const optionValues = new Set(source.options.map((o) => normalizeValue(o.value)));
+        const unknown = expected.find((v) => !optionValues.has(normalizeValue(v)));
+        if (unknown !== undefined) {
+          return `Question ${i + 1}: "${unknown}" is not an option of question ${sourceIndex + 1}`;
+        }
+      }
+    }
+  }
+  return null;
+}
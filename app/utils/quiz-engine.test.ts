@@ -0,0 +1,176 @@
+/**
+ * Unit tests for the quiz state machine
+ * Branching, skips, back-navigation and completion
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  QuizStateError,
+  applyQuizAction,
+  buildQuizAnswers,
+  coerceQuizAnswer,
+  createQuizState,
+  formatQuizAnswer,
+  getQuizProgress,
+  isQuizComplete,
+  normalizeQuizQuestions,
+  parseQuizState,
+  validateQuizBranching,
+} from "./quiz-engine.server";
+import { assignQuestionIds } from "./question-types";
+
+const questions = normalizeQuizQuestions([
+  {
+    type: "select",
+    question: "Who is it for?",
+    options: [
+      { value: "gift", label: "A gift" },
+      { value: "me", label: "Myself" },
+    ],
+  },
+  { type: "text", question: "Any colour preference?", optional: true },
+  { type: "text", question: "Who is the gift for?", showIf: { questionId: "q1", equals: "gift" } },
+  { type: "text", prompt: "What's your budget?" },
+]);
+
+describe("normalizeQuizQuestions", () => {
+  it("assigns fallback ids and normalizes prompt/options", () => {
+    expect(questions.map((q) => q.id)).toEqual(["q1", "q2", "q3", "q4"]);
+    expect(questions[3].question).toBe("What's your budget?");
+    expect(questions[2].showIf).toEqual([{ questionId: "q1", equals: "gift" }]);
+    expect(normalizeQuizQuestions("not json")).toEqual([]);
+  });
+});
+
+describe("applyQuizAction", () => {
+  it("shows a branch question only when its condition holds", () => {
+    let state = createQuizState(questions);
+    state = applyQuizAction(questions, state, { type: "answer", value: "Myself" });
+    state = applyQuizAction(questions, state, { type: "skip" });
+    expect(state.currentId).toBe("q4");
+
+    let giftState = createQuizState(questions);
+    giftState = applyQuizAction(questions, giftState, { type: "answer", value: "gift" });
+    giftState = applyQuizAction(questions, giftState, { type: "answer", value: "navy" });
+    expect(giftState.currentId).toBe("q3");
+    expect(getQuizProgress(questions, giftState)).toEqual({ step: 3, total: 4 });
+  });
+
+  it("rejects invalid options and skipping required questions", () => {
+    const state = createQuizState(questions);
+    expect(() => applyQuizAction(questions, state, { type: "answer", value: "someone" })).toThrow(QuizStateError);
+    expect(() => applyQuizAction(questions, state, { type: "skip" })).toThrowError(/cannot be skipped/);
+    expect(() => applyQuizAction(questions, state, { type: "back" })).toThrowError(/first question/);
+  });
+
+  it("goes back and drops answers to branches that no longer apply", () => {
+    let state = createQuizState(questions);
+    state = applyQuizAction(questions, state, { type: "answer", value: "gift" });
+    state = applyQuizAction(questions, state, { type: "skip" });
+    state = applyQuizAction(questions, state, { type: "answer", value: "my sister" });
+    expect(state.answers.q3).toBe("my sister");
+
+    state = applyQuizAction(questions, state, { type: "back" });
+    state = applyQuizAction(questions, state, { type: "back" });
+    state = applyQuizAction(questions, state, { type: "back" });
+    expect(state.currentId).toBe("q1");
+    expect(state.answers.q1).toBe("gift");
+
+    state = applyQuizAction(questions, state, { type: "answer", value: "me" });
+    expect(state.answers.q3).toBeUndefined();
+  });
+});
+
+describe("completion", () => {
+  it("is complete once every visible required question is answered", () => {
+    let state = createQuizState(questions);
+    state = applyQuizAction(questions, state, { type: "answer", value: "me" });
+    state = applyQuizAction(questions, state, { type: "answer", value: "green" });
+    expect(isQuizComplete(questions, state)).toBe(false);
+
+    state = applyQuizAction(questions, state, { type: "answer", value: "under $50" });
+    expect(state.currentId).toBeNull();
+    expect(isQuizComplete(questions, state)).toBe(true);
+    expect(buildQuizAnswers(questions, state).map((entry) => entry.answer)).toEqual(["Myself", "green", "under $50"]);
+  });
+
+  it("round-trips persisted state and recovers from bad JSON", () => {
+    let state = createQuizState(questions);
+    state = applyQuizAction(questions, state, { type: "answer", value: "gift" });
+    expect(parseQuizState(JSON.stringify(state), questions)).toEqual(state);
+    expect(parseQuizState("{oops", questions)).toEqual(createQuizState(questions));
+  });
+});
+
+describe("typed questions", () => {
+  const typed = normalizeQuizQuestions([
+    { type: "multi_select", question: "Colours?", options: ["Navy", "Black", "Olive"] },
+    { type: "range", question: "Budget?", min: 0, max: 500, step: 10 },
+    { type: "boolean", question: "Waterproof?", signal: { kind: "hard_term", term: "waterproof" } },
+    { type: "rank", question: "What matters most?", options: ["Comfort", "Price", "Style"] },
+  ]);
+
+  it("normalizes type aliases and defaults", () => {
+    expect(typed.map((q) => q.type)).toEqual(["multi_select", "range", "yes_no", "rank"]);
+    expect(typed[1].signal).toEqual({ kind: "price" });
+    expect(typed[2].options?.map((o) => o.value)).toEqual(["yes", "no"]);
+  });
+
+  it("coerces answers to canonical values", () => {
+    expect(coerceQuizAnswer(typed[0], "navy, black")).toEqual(["Navy", "Black"]);
+    expect(coerceQuizAnswer(typed[0], ["Pink"])).toBeNull();
+    expect(coerceQuizAnswer(typed[1], { min: 0, max: 150 })).toEqual({ min: null, max: 150 });
+    expect(coerceQuizAnswer(typed[1], "50 to 150")).toEqual({ min: 50, max: 150 });
+    expect(coerceQuizAnswer(typed[2], true)).toBe("yes");
+    expect(coerceQuizAnswer(typed[3], ["Price", "Comfort"])).toEqual(["Price", "Comfort"]);
+  });
+
+  it("formats answers for the free-text parsers", () => {
+    expect(formatQuizAnswer(typed[1], { min: null, max: 150 })).toBe("under 150");
+    expect(formatQuizAnswer(typed[3], ["Price", "Comfort"])).toBe("Price > Comfort");
+  });
+
+  it("branches on one of several picked values", () => {
+    const branching = normalizeQuizQuestions([
+      typed[0],
+      { type: "text", question: "Which navy?", showIf: { questionId: "q1", equals: "Navy" } },
+    ]);
+    let state = createQuizState(branching);
+    state = applyQuizAction(branching, state, { type: "answer", value: ["Black", "Navy"] });
+    expect(state.currentId).toBe("q2");
+  });
+});
+
+describe("validateQuizBranching", () => {
+  it("requires conditions to reference earlier questions and known options", () => {
+    expect(validateQuizBranching(questions)).toBeNull();
+
+    const forward = normalizeQuizQuestions([
+      { type: "text", question: "A", showIf: { questionId: "q2", equals: "x" } },
+      { type: "text", question: "B" },
+    ]);
+    expect(validateQuizBranching(forward)).toMatch(/earlier question/);
+
+    const badOption = normalizeQuizQuestions([
+      { type: "select", question: "A", options: ["x", "y"] },
+      { type: "text", question: "B", showIf: { questionId: "q1", equals: "z" } },
+    ]);
+    expect(validateQuizBranching(badOption)).toMatch(/"z" is not an option/);
+  });
+});
+
+describe("editor question ids", () => {
+  it("keeps branching on the same question after the editor reorders saved questions", () => {
+    const saved = assignQuestionIds([
+      { type: "select", question: "Who is it for?", options: ["gift", "me"] },
+      { id: "budget", type: "text", question: "Budget?" },
+      { type: "text", question: "Who is the gift for?", showIf: { questionId: "q1", equals: "gift" } },
+    ]);
+    expect(saved.map((q) => q.id)).toEqual(["q1", "budget", "q3"]);
+
+    const reordered = normalizeQuizQuestions([saved[1], saved[0], saved[2]]);
+    expect(reordered.map((q) => q.id)).toEqual(["budget", "q1", "q3"]);
+    expect(reordered[2].showIf).toEqual([{ questionId: "q1", equals: "gift" }]);
+    expect(validateQuizBranching(reordered)).toBeNull();
+  });
+});
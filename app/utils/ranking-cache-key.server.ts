@@ -0,0 +1,96 @@
+/**
+ * AI ranking cache keys
+ * A key is only reused while the shop's catalog version, the experience's ranking config and the
+ * shopper's (normalized) intent are unchanged, so product edits or experience edits never serve stale picks.
+ */
+
+import crypto from "crypto";
+
+export type RankingCacheExperienceConfig = {
+  mode: string;
+  resultCount: number;
+  tone: string | null;
+  includedCollections: string;
+  excludedTags: string;
+  inStockOnly: boolean;
+  searchSynonymsJson: string | null;
+};
+
+export type RankingCacheKeyInput = {
+  userIntent: string;
+  catalogVersion: number;
+  configHash: string;
+  candidateHandles: string[];
+  resultCount: number;
+  variantConstraints?: { size: string | null; color: string | null; material: string | null };
+  variantPreferences?: Record<string, string>;
+  includeTerms?: string[];
+  avoidTerms?: string[];
+  hardTerms?: string[];
+  hardFacets?: Record<string, string[]>;
+  trustFallback?: boolean;
+};
+
+/**
+ * "Black dress, under 100!" and "black dress under 100" share a cache entry
+ */
+export function normalizeRankingIntent(userIntent: string): string {
+  return (userIntent || "")
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\p{L}\p{N}$£€.\s-]+/gu, " ")
+    .replace(/(?<!\d)\.|\.(?!\d)/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function sha256(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Hash of the experience settings that change what the AI is asked (or which products it sees)
+ */
+export function experienceConfigHash(config: RankingCacheExperienceConfig | null): string {
+  if (!config) return "none";
+  return sha256(JSON.stringify([
+    config.mode,
+    config.resultCount,
+    config.tone || "",
+    config.includedCollections,
+    config.excludedTags,
+    config.inStockOnly,
+    config.searchSynonymsJson || "",
+  ])).substring(0, 16);
+}
+
+const sorted = (values: string[] | undefined) => [...(values || [])].map((v) => v.toLowerCase()).sort();
+
+function sortedRecord<T>(record: Record<string, T> | undefined): Array<[string, T]> {
+  return Object.entries(record || {}).sort(([a], [b]) => a.localeCompare(b));
+}
+
+/**
+ * Hash of the candidate window (order-independent)
+ */
+export function candidateWindowHash(handles: string[]): string {
+  return sha256([...handles].sort().join(",")).substring(0, 32);
+}
+
+export function buildRankingCacheKey(input: RankingCacheKeyInput): string {
+  return sha256(JSON.stringify({
+    intent: normalizeRankingIntent(input.userIntent),
+    catalogVersion: input.catalogVersion,
+    config: input.configHash,
+    window: candidateWindowHash(input.candidateHandles),
+    resultCount: input.resultCount,
+    constraints: sortedRecord(input.variantConstraints),
+    preferences: sortedRecord(input.variantPreferences),
+    includeTerms: sorted(input.includeTerms),
+    avoidTerms: sorted(input.avoidTerms),
+    hardTerms: sorted(input.hardTerms),
+    hardFacets: sortedRecord(input.hardFacets).map(([facet, values]) => [facet, sorted(values)]),
+    trustFallback: input.trustFallback ?? false,
+  }));
+}
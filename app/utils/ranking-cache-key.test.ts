@@ -0,0 +1,70 @@
+/**
+ * Unit tests for AI ranking cache keys
+ * Intent normalization, catalog/config versioning, and the per-experience freshness option
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  buildRankingCacheKey,
+  experienceConfigHash,
+  normalizeRankingIntent,
+  type RankingCacheKeyInput,
+} from "./ranking-cache-key.server";
+import { parseRankingCacheHours, DEFAULT_RANKING_CACHE_HOURS } from "./ranking-cache-options";
+
+const base: RankingCacheKeyInput = {
+  userIntent: "Black dress under 100",
+  catalogVersion: 3,
+  configHash: "abc",
+  candidateHandles: ["a", "b", "c"],
+  resultCount: 8,
+};
+
+describe("normalizeRankingIntent", () => {
+  it("ignores case, accents and punctuation but keeps prices", () => {
+    expect(normalizeRankingIntent("Black Dress, under $99.50!")).toBe("black dress under $99.50");
+    expect(normalizeRankingIntent("  Café   crème ")).toBe("cafe creme");
+  });
+});
+
+describe("buildRankingCacheKey", () => {
+  it("shares a key for equivalent intents and reordered candidates", () => {
+    const other = { ...base, userIntent: "black dress, UNDER 100.", candidateHandles: ["c", "a", "b"] };
+    expect(buildRankingCacheKey(other)).toBe(buildRankingCacheKey(base));
+  });
+
+  it("changes when the catalog, experience config or candidate window changes", () => {
+    const key = buildRankingCacheKey(base);
+    expect(buildRankingCacheKey({ ...base, catalogVersion: 4 })).not.toBe(key);
+    expect(buildRankingCacheKey({ ...base, configHash: "def" })).not.toBe(key);
+    expect(buildRankingCacheKey({ ...base, candidateHandles: ["a", "b", "d"] })).not.toBe(key);
+    expect(buildRankingCacheKey({ ...base, hardFacets: { color: ["black"] } })).not.toBe(key);
+  });
+});
+
+describe("experienceConfigHash", () => {
+  const config = {
+    mode: "hybrid",
+    resultCount: 8,
+    tone: null,
+    includedCollections: "[]",
+    excludedTags: "[]",
+    inStockOnly: false,
+    searchSynonymsJson: null,
+  };
+
+  it("tracks ranking-relevant settings", () => {
+    expect(experienceConfigHash(config)).toBe(experienceConfigHash({ ...config }));
+    expect(experienceConfigHash({ ...config, inStockOnly: true })).not.toBe(experienceConfigHash(config));
+    expect(experienceConfigHash(null)).toBe("none");
+  });
+});
+
+describe("parseRankingCacheHours", () => {
+  it("accepts the offered options and falls back to the default", () => {
+    expect(parseRankingCacheHours("0")).toBe(0);
+    expect(parseRankingCacheHours("72")).toBe(72);
+    expect(parseRankingCacheHours("5")).toBe(DEFAULT_RANKING_CACHE_HOURS);
+    expect(parseRankingCacheHours(null)).toBe(DEFAULT_RANKING_CACHE_HOURS);
+  });
+});
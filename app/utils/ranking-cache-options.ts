@@ -0,0 +1,22 @@
+/**
+ * AI ranking cache freshness per experience (Experience.rankingCacheHours)
+ * Shared by the experience editor and the server; 0 turns the cache off for that experience.
+ */
+
+export const RANKING_CACHE_HOURS_OPTIONS = [
+  { value: 0, label: "Off (always ask the AI)" },
+  { value: 1, label: "1 hour" },
+  { value: 6, label: "6 hours" },
+  { value: 24, label: "24 hours" },
+  { value: 72, label: "3 days" },
+] as const;
+
+export const DEFAULT_RANKING_CACHE_HOURS = 24;
+
+/**
+ * Parses a submitted freshness value; anything outside the offered options falls back to the default
+ */
+export function parseRankingCacheHours(raw: unknown): number {
+  const hours = typeof raw === "number" ? raw : parseInt(String(raw ?? ""), 10);
+  return RANKING_CACHE_HOURS_OPTIONS.some((option) => option.value === hours) ? hours : DEFAULT_RANKING_CACHE_HOURS;
+}
@@ -0,0 +1,170 @@
+/**
+ * Abuse protection for storefront (app proxy) endpoints
+ * Token buckets per shop and per visitor, kept in memory per server instance (limits are generous
+ * enough that running several instances does not matter), plus bot detection via isbot.
+ * The daily credit cap lives in billing.server (checkDailyCreditCap) since it is based on charges.
+ */
+
+import { isbot } from "isbot";
+
+export type TokenBucketConfig = {
+  capacity: number; // Burst size
+  refillPerSecond: number;
+};
+
+export type TokenBucketState = {
+  tokens: number;
+  updatedAtMs: number;
+};
+
+export type RateLimitScope = "sessionStart" | "sessionMessage" | "event" | "similar";
+
+// Visitor limits stop a single client looping; shop limits cap the total a store can be hit for
+export const RATE_LIMITS: Record<RateLimitScope, { shop: TokenBucketConfig; visitor: TokenBucketConfig }> = {
+  sessionStart: {
+    shop: { capacity: 120, refillPerSecond: 1 }, // ~3600 sessions/hour sustained
+    visitor: { capacity: 6, refillPerSecond: 1 / 30 }, // 6 back-to-back, then one every 30s
+  },
+  sessionMessage: {
+    shop: { capacity: 600, refillPerSecond: 10 },
+    visitor: { capacity: 30, refillPerSecond: 1 / 2 },
+  },
+  event: {
+    shop: { capacity: 1200, refillPerSecond: 20 },
+    visitor: { capacity: 60, refillPerSecond: 1 },
+  },
+  similar: {
+    shop: { capacity: 300, refillPerSecond: 5 },
+    visitor: { capacity: 20, refillPerSecond: 1 / 3 },
+  },
+};
+
+const MAX_TRACKED_BUCKETS = 50000;
+
+/**
+ * Refills the bucket for the elapsed time and takes one token if available
+ * Returns the new state and, when denied, how long until a token is available
+ */
+export function takeToken(
+  state: TokenBucketState | undefined,
+  config: TokenBucketConfig,
+  nowMs: number
+): { allowed: boolean; state: TokenBucketState; retryAfterMs: number } {
+  const elapsedSeconds = state ? Math.max(0, nowMs - state.updatedAtMs) / 1000 : 0;
+  const available = state ? Math.min(config.capacity, state.tokens + elapsedSeconds * config.refillPerSecond) : config.capacity;
+
+  if (available >= 1) {
+    return { allowed: true, state: { tokens: available - 1, updatedAtMs: nowMs }, retryAfterMs: 0 };
+  }
+  const retryAfterMs = config.refillPerSecond > 0 ? Math.ceil(((1 - available) / config.refillPerSecond) * 1000) : Infinity;
+  return { allowed: false, state: { tokens: available, updatedAtMs: nowMs }, retryAfterMs };
+}
+
+const buckets = new Map<string, TokenBucketState>();
+
+function consume(key: string, config: TokenBucketConfig, nowMs: number) {
+  const result = takeToken(buckets.get(key), config, nowMs);
+  // Re-insert so Map iteration order tracks recency, and drop the least recently used buckets
+  buckets.delete(key);
+  buckets.set(key, result.state);
+  if (buckets.size > MAX_TRACKED_BUCKETS) {
+    const oldest = buckets.keys().next().value;
+    if (oldest !== undefined) buckets.delete(oldest);
+  }
+  return result;
+}
+
+/**
+ * Shopper IP for app proxy requests, or null
+ * Requests arrive through Shopify's proxy, so the peer address, `x-real-ip` and the right-most
+ * X-Forwarded-For entry are Shopify's egress IP; the left-most entry is the original client.
+ */
+export function getClientIp(request: Request): string | null {
+  const forwarded = request.headers.get("x-forwarded-for");
+  if (forwarded) {
+    const first = forwarded.split(",")[0]?.trim();
+    if (first) return first;
+  }
+  return null;
+}
+
+/**
+ * Visitor identity for rate limiting: the logged-in customer (signed by the app proxy), else the
+ * storefront visitor ID, else the shopper IP. Every identity here can be rotated except the customer,
+ * so the shop bucket is what bounds aggregate traffic.
+ */
+export function getVisitorKey(request: Request, visitorId?: string | null): string {
+  const customerId = new URL(request.url).searchParams.get("logged_in_customer_id");
+  if (customerId) return `cid:${customerId}`;
+  if (visitorId) return `vid:${visitorId}`;
+  const ip = getClientIp(request);
+  if (ip) return `ip:${ip}`;
+  return "anonymous";
+}
+
+export function isBotRequest(request: Request): boolean {
+  return isbot(request.headers.get("user-agent") || "");
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; limitedBy: "shop" | "visitor"; retryAfterSeconds: number };
+
+/**
+ * Takes a token from the visitor bucket, then the shop bucket
+ */
+export function checkRateLimit(
+  scope: RateLimitScope,
+  shopDomain: string,
+  visitorKey: string,
+  nowMs: number = Date.now()
+): RateLimitResult {
+  const limits = RATE_LIMITS[scope];
+  const visitor = consume(`${scope}:${shopDomain}:${visitorKey}`, limits.visitor, nowMs);
+  if (!visitor.allowed) {
+    return { allowed: false, limitedBy: "visitor", retryAfterSeconds: Math.ceil(visitor.retryAfterMs / 1000) };
+  }
+  const shop = consume(`${scope}:${shopDomain}`, limits.shop, nowMs);
+  if (!shop.allowed) {
+    return { allowed: false, limitedBy: "shop", retryAfterSeconds: Math.ceil(shop.retryAfterMs / 1000) };
+  }
+  return { allowed: true };
+}
+
+/**
+ * 429 response the storefront widget understands (errorCode + Retry-After)
+ */
+export function rateLimitedResponse(
+  retryAfterSeconds: number,
+  errorCode: "RATE_LIMITED" | "DAILY_LIMIT_REACHED" = "RATE_LIMITED"
+): Response {
+  const error =
+    errorCode === "DAILY_LIMIT_REACHED"
+      ? "Recommendations are unavailable for the rest of today. Please try again tomorrow."
+      : "Too many requests. Please wait a moment and try again.";
+  return Response.json(
+    { ok: false, error, errorCode, retryAfterSeconds },
+    { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+  );
+}
+
+/**
+ * Shared guard for app proxy actions: 403 for bots, 429 when a bucket is empty, null to continue
+ */
+export function guardProxyRequest(
+  request: Request,
+  scope: RateLimitScope,
+  shopDomain: string,
+  visitorId?: string | null
+): Response | null {
+  if (isBotRequest(request)) {
+    console.warn("[Rate Limit] Bot request blocked", { scope, shop: shopDomain, userAgent: request.headers.get("user-agent") });
+    return Response.json({ ok: false, error: "Automated requests are not allowed", errorCode: "BOT_DETECTED" }, { status: 403 });
+  }
+  const result = checkRateLimit(scope, shopDomain, getVisitorKey(request, visitorId));
+  if (!result.allowed) {
+    console.warn("[Rate Limit] Request limited", { scope, shop: shopDomain, limitedBy: result.limitedBy, retryAfterSeconds: result.retryAfterSeconds });
+    return rateLimitedResponse(result.retryAfterSeconds);
+  }
+  return null;
+}
@@ -0,0 +1,63 @@
+/**
+ * Unit tests for app proxy abuse protection
+ * Token bucket refill, per-visitor / per-shop limits, visitor keys and bot detection
+ */
+
+import { describe, expect, it } from "vitest";
+import { checkRateLimit, getVisitorKey, guardProxyRequest, isBotRequest, takeToken } from "./rate-limit.server";
+
+describe("takeToken", () => {
+  const config = { capacity: 2, refillPerSecond: 0.5 };
+
+  it("allows a burst up to capacity, then denies with a retry delay", () => {
+    const first = takeToken(undefined, config, 0);
+    const second = takeToken(first.state, config, 0);
+    const third = takeToken(second.state, config, 0);
+    expect([first.allowed, second.allowed, third.allowed]).toEqual([true, true, false]);
+    expect(third.retryAfterMs).toBe(2000);
+  });
+
+  it("refills over time without exceeding capacity", () => {
+    const empty = { tokens: 0, updatedAtMs: 0 };
+    expect(takeToken(empty, config, 1000).allowed).toBe(false);
+    expect(takeToken(empty, config, 2000).allowed).toBe(true);
+    expect(takeToken(empty, config, 60000).state.tokens).toBe(1);
+  });
+});
+
+describe("checkRateLimit", () => {
+  it("limits each visitor separately before the shop", () => {
+    const shop = `limit-${Math.random()}.myshopify.com`;
+    for (let i = 0; i < 6; i++) {
+      expect(checkRateLimit("sessionStart", shop, "ip:1.1.1.1", 0).allowed).toBe(true);
+    }
+    const limited = checkRateLimit("sessionStart", shop, "ip:1.1.1.1", 0);
+    expect(limited).toEqual({ allowed: false, limitedBy: "visitor", retryAfterSeconds: 30 });
+    expect(checkRateLimit("sessionStart", shop, "ip:2.2.2.2", 0).allowed).toBe(true);
+  });
+});
+
+describe("visitor identity and bots", () => {
+  const request = (headers: Record<string, string>) => new Request("https://example.com/apps/editmuse/event", { headers });
+
+  it("keys shoppers behind Shopify's proxy on their own identity", () => {
+    const viaProxy = { "x-forwarded-for": "203.0.113.5, 23.227.38.1", "x-real-ip": "23.227.38.1" };
+    expect(getVisitorKey(request(viaProxy), null)).toBe("ip:203.0.113.5");
+    expect(getVisitorKey(request(viaProxy), "vid-1")).toBe("vid:vid-1");
+    const loggedIn = new Request("https://example.com/apps/editmuse/event?logged_in_customer_id=42", { headers: viaProxy });
+    expect(getVisitorKey(loggedIn, "vid-1")).toBe("cid:42");
+    expect(getVisitorKey(request({}), "vid-1")).toBe("vid:vid-1");
+    expect(getVisitorKey(request({}), null)).toBe("anonymous");
+  });
+
+  it("detects crawler user agents", () => {
+    expect(isBotRequest(request({ "user-agent": "Googlebot/2.1 (+http://www.google.com/bot.html)" }))).toBe(true);
+    expect(isBotRequest(request({ "user-agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15" }))).toBe(false);
+  });
+
+  it("returns 403 for bots and null for shoppers", () => {
+    const shop = `guard-${Math.random()}.myshopify.com`;
+    expect(guardProxyRequest(request({ "user-agent": "curl/8.0" }), "event", shop)?.status).toBe(403);
+    expect(guardProxyRequest(request({ "user-agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0 Safari/537.36" }), "event", shop)).toBeNull();
+  });
+});
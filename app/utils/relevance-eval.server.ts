@@ -0,0 +1,276 @@
+/**
+ * Offline relevance evaluation: golden query sets, metrics and baseline diffs
+ * A golden query lists the handles a good result set contains (optionally graded) and the ones it
+ * must never contain; the runner (models/relevance-eval.server) produces the results scored here.
+ */
+
+import { buildSearchText, normalizeText } from "~/utils/text-indexing.server";
+
+export type EvalCatalogProduct = {
+  handle: string;
+  title: string;
+  productType?: string | null;
+  vendor?: string | null;
+  tags?: string[];
+  price?: string | null;
+  available?: boolean;
+  description?: string | null;
+  status?: string | null;
+  sizes?: string[];
+  colors?: string[];
+  materials?: string[];
+  optionValues?: Record<string, string[]>;
+};
+
+export type GoldenQueryConstraints = {
+  minPrice?: number;
+  maxPrice?: number;
+  inStockOnly?: boolean;
+  /** Every result must mention at least one of these (title, type, vendor, tags, options, description) */
+  requiredTerms?: string[];
+};
+
+export type GoldenQuery = {
+  id: string;
+  query: string;
+  resultCount?: number;
+  /** Relevant handles; an object assigns graded relevance (1 = relevant, 2 = ideal, ...) for NDCG */
+  relevant: string[] | Record<string, number>;
+  /** Handles that must never be returned */
+  forbidden?: string[];
+  constraints?: GoldenQueryConstraints;
+  /** Passed to the ranker as hard terms, as the LLM intent parser would */
+  hardTerms?: string[];
+};
+
+export type GoldenSet = {
+  name?: string;
+  /** Cutoff for precision / recall / NDCG (default DEFAULT_EVAL_K) */
+  k?: number;
+  experience?: { excludedTags?: string[]; inStockOnly?: boolean; resultCount?: number; merchandisingRules?: unknown[] };
+  queries: GoldenQuery[];
+};
+
+export type EvalMetrics = {
+  precisionAtK: number;
+  recallAtK: number;
+  ndcgAtK: number;
+  violationRate: number;
+  diversity: number;
+};
+
+export type EvalQueryResult = EvalMetrics & {
+  id: string;
+  query: string;
+  results: string[];
+  violations: Array<{ handle: string; reason: string }>;
+};
+
+export type EvalReport = {
+  name: string;
+  k: number;
+  summary: EvalMetrics;
+  queries: EvalQueryResult[];
+};
+
+export type EvalMetricDiff = {
+  metric: keyof EvalMetrics;
+  baseline: number;
+  current: number;
+  delta: number;
+  regressed: boolean;
+};
+
+export type EvalReportDiff = {
+  summary: EvalMetricDiff[];
+  queries: Array<{ id: string; diffs: EvalMetricDiff[] }>;
+  missingQueries: string[]; // In the baseline, not in the current run
+  newQueries: string[];
+  regressed: boolean;
+};
+
+export const DEFAULT_EVAL_K = 8;
+export const DEFAULT_REGRESSION_TOLERANCE = 0.02;
+
+export const EVAL_METRICS: Array<keyof EvalMetrics> = ["precisionAtK", "recallAtK", "ndcgAtK", "violationRate", "diversity"];
+
+// Lower is better for these
+const LOWER_IS_BETTER = new Set<keyof EvalMetrics>(["violationRate"]);
+
+export function relevanceGrades(relevant: GoldenQuery["relevant"]): Map<string, number> {
+  if (Array.isArray(relevant)) return new Map(relevant.map((handle) => [handle, 1]));
+  return new Map(Object.entries(relevant).filter(([, grade]) => grade > 0));
+}
+
+export function precisionAtK(results: string[], relevant: Map<string, number>, k: number): number {
+  if (k <= 0) return 0;
+  return results.slice(0, k).filter((handle) => relevant.has(handle)).length / k;
+}
+
+export function recallAtK(results: string[], relevant: Map<string, number>, k: number): number {
+  if (relevant.size === 0) return 1;
+  return results.slice(0, k).filter((handle) => relevant.has(handle)).length / relevant.size;
+}
+
+/**
+ * NDCG with exponential gain (2^grade - 1); 1 when the top k is ideally ordered
+ */
+export function ndcgAtK(results: string[], relevant: Map<string, number>, k: number): number {
+  const dcg = (grades: number[]) => grades.reduce((sum, grade, i) => sum + (Math.pow(2, grade) - 1) / Math.log2(i + 2), 0);
+  const ideal = dcg([...relevant.values()].sort((a, b) => b - a).slice(0, k));
+  if (ideal === 0) return 1;
+  return dcg(results.slice(0, k).map((handle) => relevant.get(handle) || 0)) / ideal;
+}
+
+function productText(product: EvalCatalogProduct): string {
+  return normalizeText(`${buildSearchText({ ...product, tags: product.tags || [] })} ${product.description || ""}`);
+}
+
+/**
+ * Results that break the golden query's constraints (forbidden handles, price, stock, required terms)
+ */
+export function findConstraintViolations(
+  results: string[],
+  query: GoldenQuery,
+  catalog: Map<string, EvalCatalogProduct>
+): Array<{ handle: string; reason: string }> {
+  const forbidden = new Set(query.forbidden || []);
+  const constraints = query.constraints || {};
+  const requiredTerms = (constraints.requiredTerms || []).map((term) => normalizeText(term)).filter(Boolean);
+  const violations: Array<{ handle: string; reason: string }> = [];
+
+  for (const handle of results) {
+    const product = catalog.get(handle);
+    if (forbidden.has(handle)) {
+      violations.push({ handle, reason: "forbidden" });
+      continue;
+    }
+    if (!product) {
+      violations.push({ handle, reason: "not_in_catalog" });
+      continue;
+    }
+    const price = product.price ? parseFloat(product.price) : NaN;
+    if (constraints.maxPrice !== undefined && Number.isFinite(price) && price > constraints.maxPrice) {
+      violations.push({ handle, reason: `price>${constraints.maxPrice}` });
+    } else if (constraints.minPrice !== undefined && Number.isFinite(price) && price < constraints.minPrice) {
+      violations.push({ handle, reason: `price<${constraints.minPrice}` });
+    } else if (constraints.inStockOnly && product.available === false) {
+      violations.push({ handle, reason: "out_of_stock" });
+    } else if (requiredTerms.length > 0) {
+      const text = productText(product);
+      if (!requiredTerms.some((term) => text.includes(term))) {
+        violations.push({ handle, reason: `missing:${requiredTerms.join("|")}` });
+      }
+    }
+  }
+  return violations;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Scores one query's results; diversity comes from measureResultDiversity in the runner
+ */
+export function scoreEvalQuery(
+  query: GoldenQuery,
+  results: string[],
+  catalog: Map<string, EvalCatalogProduct>,
+  k: number,
+  diversity: number
+): EvalQueryResult {
+  const grades = relevanceGrades(query.relevant);
+  const violations = findConstraintViolations(results, query, catalog);
+  return {
+    id: query.id,
+    query: query.query,
+    results,
+    violations,
+    precisionAtK: round(precisionAtK(results, grades, k)),
+    recallAtK: round(recallAtK(results, grades, k)),
+    ndcgAtK: round(ndcgAtK(results, grades, k)),
+    violationRate: round(results.length > 0 ? new Set(violations.map((v) => v.handle)).size / results.length : 0),
+    diversity: round(diversity),
+  };
+}
+
+export function buildEvalReport(name: string, k: number, queries: EvalQueryResult[]): EvalReport {
+  const summary = Object.fromEntries(
+    EVAL_METRICS.map((metric) => [metric, round(mean(queries.map((q) => q[metric])))])
+  ) as EvalMetrics;
+  return { name, k, summary, queries };
+}
+
+function diffMetrics(baseline: EvalMetrics, current: EvalMetrics, tolerance: number): EvalMetricDiff[] {
+  return EVAL_METRICS.map((metric) => {
+    const delta = round(current[metric] - baseline[metric]);
+    const worse = LOWER_IS_BETTER.has(metric) ? delta > tolerance : delta < -tolerance;
+    return { metric, baseline: baseline[metric], current: current[metric], delta, regressed: worse };
+  });
+}
+
+/**
+ * Compares a run with a saved baseline; any summary metric or query metric that got worse by
+ * more than the tolerance (or a baseline query that disappeared) counts as a regression
+ */
+export function diffEvalReports(
+  baseline: EvalReport,
+  current: EvalReport,
+  tolerance: number = DEFAULT_REGRESSION_TOLERANCE
+): EvalReportDiff {
+  const baselineById = new Map(baseline.queries.map((q) => [q.id, q]));
+  const currentIds = new Set(current.queries.map((q) => q.id));
+
+  const summary = diffMetrics(baseline.summary, current.summary, tolerance);
+  const queries = current.queries
+    .filter((q) => baselineById.has(q.id))
+    .map((q) => ({ id: q.id, diffs: diffMetrics(baselineById.get(q.id)!, q, tolerance).filter((d) => d.delta !== 0) }))
+    .filter((q) => q.diffs.length > 0);
+  const missingQueries = baseline.queries.filter((q) => !currentIds.has(q.id)).map((q) => q.id);
+  const newQueries = current.queries.filter((q) => !baselineById.has(q.id)).map((q) => q.id);
+
+  return {
+    summary,
+    queries,
+    missingQueries,
+    newQueries,
+    regressed: missingQueries.length > 0 || summary.some((d) => d.regressed) || queries.some((q) => q.diffs.some((d) => d.regressed)),
+  };
+}
+
+const pad = (text: string, width: number) => text.padEnd(width);
+const fixed = (value: number) => value.toFixed(3);
+const signed = (value: number) => `${value > 0 ? "+" : ""}${value.toFixed(3)}`;
+
+export function formatEvalReport(report: EvalReport): string {
+  const lines = [
+    `Relevance eval: ${report.name} (k=${report.k}, ${report.queries.length} queries)`,
+    `${pad("query", 28)}${EVAL_METRICS.map((m) => pad(m, 15)).join("")}`,
+    ...report.queries.map((q) => `${pad(q.id, 28)}${EVAL_METRICS.map((m) => pad(fixed(q[m]), 15)).join("")}`),
+    `${pad("MEAN", 28)}${EVAL_METRICS.map((m) => pad(fixed(report.summary[m]), 15)).join("")}`,
+  ];
+  const violations = report.queries.filter((q) => q.violations.length > 0);
+  if (violations.length > 0) {
+    lines.push("", "Constraint violations:");
+    violations.forEach((q) => lines.push(`  ${q.id}: ${q.violations.map((v) => `${v.handle} (${v.reason})`).join(", ")}`));
+  }
+  return lines.join("\n");
+}
+
+export function formatEvalDiff(diff: EvalReportDiff): string {
+  const mark = (d: EvalMetricDiff) => (d.regressed ? "  REGRESSED" : "");
+  const lines = [
+    "Against baseline:",
+    ...diff.summary.map((d) => `  ${pad(d.metric, 15)}${fixed(d.baseline)} -> ${fixed(d.current)} (${signed(d.delta)})${mark(d)}`),
+  ];
+  diff.queries.forEach((q) => {
+    lines.push(`  ${q.id}: ${q.diffs.map((d) => `${d.metric} ${signed(d.delta)}${mark(d)}`).join(", ")}`);
+  });
+  if (diff.missingQueries.length > 0) lines.push(`  Missing from this run: ${diff.missingQueries.join(", ")}`);
+  if (diff.newQueries.length > 0) lines.push(`  New (not in baseline): ${diff.newQueries.join(", ")}`);
+  lines.push(diff.regressed ? "Result: REGRESSION" : "Result: no regression");
+  return lines.join("\n");
+}
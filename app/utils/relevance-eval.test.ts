@@ -0,0 +1,90 @@
+/**
+ * Unit tests for offline relevance metrics
+ * precision / recall / NDCG at k, constraint violations, and baseline diffs
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  buildEvalReport,
+  diffEvalReports,
+  findConstraintViolations,
+  ndcgAtK,
+  precisionAtK,
+  recallAtK,
+  relevanceGrades,
+  scoreEvalQuery,
+  type EvalCatalogProduct,
+  type GoldenQuery,
+} from "./relevance-eval.server";
+
+const catalog = new Map<string, EvalCatalogProduct>([
+  ["rain-jacket", { handle: "rain-jacket", title: "Rain Jacket", price: "120.00", tags: ["waterproof"] }],
+  ["puffer", { handle: "puffer", title: "Down Puffer", price: "220.00", tags: ["winter"] }],
+  ["shell", { handle: "shell", title: "Trail Shell", price: "90.00", tags: ["waterproof"], available: false }],
+]);
+
+describe("ranking metrics", () => {
+  const grades = relevanceGrades({ a: 2, b: 1, c: 0 });
+
+  it("ignores zero grades and accepts plain handle lists", () => {
+    expect([...grades.keys()]).toEqual(["a", "b"]);
+    expect(relevanceGrades(["x", "y"]).get("y")).toBe(1);
+  });
+
+  it("computes precision and recall at k", () => {
+    expect(precisionAtK(["a", "x", "b", "y"], grades, 4)).toBe(0.5);
+    expect(recallAtK(["a", "x"], grades, 2)).toBe(0.5);
+    expect(recallAtK(["x"], new Map(), 2)).toBe(1);
+  });
+
+  it("rewards putting higher grades first", () => {
+    expect(ndcgAtK(["a", "b"], grades, 2)).toBeCloseTo(1);
+    expect(ndcgAtK(["b", "a"], grades, 2)).toBeLessThan(1);
+    expect(ndcgAtK(["x", "y"], grades, 2)).toBe(0);
+  });
+});
+
+describe("findConstraintViolations", () => {
+  it("flags forbidden handles, price, stock and missing required terms", () => {
+    const query: GoldenQuery = {
+      id: "rain",
+      query: "waterproof jacket under 150",
+      relevant: ["rain-jacket"],
+      forbidden: ["puffer"],
+      constraints: { maxPrice: 150, inStockOnly: true, requiredTerms: ["waterproof"] },
+    };
+    expect(findConstraintViolations(["rain-jacket", "puffer", "shell", "ghost"], query, catalog)).toEqual([
+      { handle: "puffer", reason: "forbidden" },
+      { handle: "shell", reason: "out_of_stock" },
+      { handle: "ghost", reason: "not_in_catalog" },
+    ]);
+  });
+});
+
+describe("diffEvalReports", () => {
+  const query: GoldenQuery = { id: "rain", query: "rain jacket", relevant: ["rain-jacket", "shell"] };
+  const baseline = buildEvalReport("sample", 2, [scoreEvalQuery(query, ["rain-jacket", "shell"], catalog, 2, 0.5)]);
+
+  it("reports no regression for an identical run", () => {
+    expect(diffEvalReports(baseline, baseline).regressed).toBe(false);
+  });
+
+  it("flags metrics that got worse beyond the tolerance and missing queries", () => {
+    const worse = buildEvalReport("sample", 2, [scoreEvalQuery(query, ["rain-jacket", "puffer"], catalog, 2, 0.5)]);
+    const diff = diffEvalReports(baseline, worse);
+    expect(diff.regressed).toBe(true);
+    expect(diff.summary.find((d) => d.metric === "recallAtK")).toMatchObject({ baseline: 1, current: 0.5, regressed: true });
+    expect(diff.queries[0].id).toBe("rain");
+
+    const empty = buildEvalReport("sample", 2, []);
+    expect(diffEvalReports(baseline, empty).missingQueries).toEqual(["rain"]);
+  });
+
+  it("treats a higher violation rate as a regression", () => {
+    const strict = { ...query, forbidden: ["shell"] };
+    const before = buildEvalReport("sample", 2, [scoreEvalQuery(strict, ["rain-jacket"], catalog, 2, 0.5)]);
+    const after = buildEvalReport("sample", 2, [scoreEvalQuery(strict, ["rain-jacket", "shell"], catalog, 2, 0.5)]);
+    const diff = diffEvalReports(before, after);
+    expect(diff.summary.find((d) => d.metric === "violationRate")?.regressed).toBe(true);
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * Conversational refinement of a delivered result set ("cheaper", "in black", "no leather",
+ * "more like the second one")
+ * Works on the RefinementContext saved with the result (parsed intent + ranked candidate pool), so a
+ * refinement never re-fetches the catalog or calls the AI: it merges the new constraints into the
+ * session's and re-ranks the stored pool deterministically.
+ */
+
+import { bm25Score, calculateIDF, normalizeText, tokenize } from "~/utils/text-indexing.server";
+import {
+  describePriceBounds,
+  parsePriceConstraint,
+  priceConstraintBounds,
+  priceWithinBounds,
+  type PriceBounds,
+  type PriceConstraint,
+} from "~/utils/price-constraint.server";
+import { convertAmount, type CurrencyRateTable } from "~/utils/currency.server";
+import {
+  mergeConstraints,
+  mergePreferences,
+  parseConstraintsFromText,
+  parsePreferencesFromText,
+  type VariantConstraints,
+  type VariantPreferences,
+} from "~/utils/variant-constraints.server";
+
+export type RefinementCandidate = {
+  handle: string;
+  title: string;
+  productType: string | null;
+  vendor: string | null;
+  tags: string[];
+  price: number | null; // Shop currency
+  optionValues: Record<string, string[]>;
+  searchText: string;
+};
+
+export type RefinementContext = {
+  userIntent: string;
+  hardTerms: string[];
+  softTerms: string[];
+  avoidTerms: string[];
+  variantConstraints: VariantConstraints;
+  variantPreferences: VariantPreferences;
+  priceBounds: PriceBounds | null; // Shop currency
+  currency: { shopCurrency: string | null; shopperCurrency: string | null; rateTable: CurrencyRateTable | null };
+  resultCount: number;
+  tone?: string | null; // Experience.tone, for explanations of products a refinement brings in
+  candidates: RefinementCandidate[]; // Pre-ranked pool, best first (always includes the delivered products)
+};
+
+export type RefinementRequest = {
+  instruction: string;
+  priceDirection: "lower" | "higher" | null;
+  priceConstraint: PriceConstraint | null;
+  constraints: VariantConstraints;
+  preferences: VariantPreferences;
+  avoidTerms: string[];
+  includeTerms: string[];
+  similarTo: number | "last" | null; // 1-based position in the current results
+};
+
+export type RefinementOutcome = {
+  handles: string[];
+  constraints: VariantConstraints;
+  preferences: VariantPreferences;
+  avoidTerms: string[];
+  priceBounds: PriceBounds | null;
+  anchorTitle: string | null;
+  reasoning: string;
+};
+
+export const MAX_REFINEMENT_CANDIDATES = 80;
+
+const CHEAPER_PATTERN = /\b(cheaper|less expensive|lower price[sd]?|more affordable|affordable|budget|cheapest|lower cost)\b/;
+const PRICIER_PATTERN = /\b(more expensive|pricier|higher end|high end|premium|fancier|luxury|more upmarket)\b/;
+const NEGATION_PATTERN = /\b(?:no|not|without|avoid|except|minus|nothing in)\s+(?:any\s+)?([a-z][a-z-]{2,})/g;
+const SIMILAR_PATTERN = /\b(?:like|similar to|closer to)\s+(?:the\s+|#|number\s+)?(first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth|last|\d{1,2})(?:st|nd|rd|th)?\b/;
+const ORDINALS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+};
+// Words that steer the refinement itself rather than describe products
+const REFINEMENT_STOPWORDS = new Set([
+  "more", "less", "like", "similar", "closer", "one", "ones", "show", "please", "something", "things", "options",
+  "instead", "maybe", "also", "just", "only", "too", "much", "very", "really", "want", "need", "looking", "prefer",
+  "first", "second", "third", "fourth", "fifth", "sixth", "seventh", "eighth", "ninth", "tenth", "last",
+  "cheaper", "expensive", "pricier", "affordable", "budget", "cheapest", "price", "cost", "premium", "fancier", "luxury",
+  "lower", "higher", "end", "high",
+]);
+
+function uniqueLower(values: string[]): string[] {
+  return Array.from(new Set(values.map((v) => v.trim().toLowerCase()).filter(Boolean)));
+}
+
+function containsWord(text: string, word: string): boolean {
+  const escaped = word.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+");
+  return new RegExp(`\\b${escaped}\\b`, "i").test(text);
+}
+
+/**
+ * Reads a shopper's refinement instruction
+ * Negated phrases ("no leather") are taken out before constraint parsing so they never become requirements.
+ */
+export function parseRefinementInstruction(
+  instruction: string,
+  knownOptionNames: string[],
+  preferredCurrency?: string | null
+): RefinementRequest {
+  const text = (instruction || "").trim().slice(0, 300);
+  const lower = text.toLowerCase();
+
+  const avoidTerms: string[] = [];
+  const withoutNegations = lower.replace(NEGATION_PATTERN, (_match, term: string) => {
+    if (!REFINEMENT_STOPWORDS.has(term)) avoidTerms.push(term);
+    return " ";
+  });
+
+  let similarTo: number | "last" | null = null;
+  const similarMatch = withoutNegations.match(SIMILAR_PATTERN);
+  if (similarMatch) {
+    const ref = similarMatch[1];
+    similarTo = ref === "last" ? "last" : ORDINALS[ref] ?? (parseInt(ref, 10) || null);
+  }
+  const remaining = similarMatch ? withoutNegations.replace(similarMatch[0], " ") : withoutNegations;
+
+  const priceDirection = CHEAPER_PATTERN.test(remaining) ? "lower" : PRICIER_PATTERN.test(remaining) ? "higher" : null;
+  const priceConstraint = parsePriceConstraint(remaining, preferredCurrency);
+
+  const parsed = parseConstraintsFromText(remaining);
+  // Single-letter sizes ("s", "m") match too easily in short instructions: only explicit sizes count
+  const constraints: VariantConstraints = {
+    size: /\b(size|uk\s?\d)/.test(remaining) ? parsed.size : null,
+    color: parsed.color,
+    material: parsed.material,
+  };
+  if (parsed.allowValues) {
+    const rest = Object.fromEntries(Object.entries(parsed.allowValues).filter(([attribute]) => attribute !== "size"));
+    if (Object.keys(rest).length > 0) constraints.allowValues = rest;
+  }
+
+  const constraintWords = new Set(
+    [constraints.color, constraints.material, constraints.size]
+      .filter((v): v is string => Boolean(v))
+      .flatMap((v) => tokenize(v))
+  );
+  const includeTerms = uniqueLower(
+    tokenize(remaining).filter((t) => !REFINEMENT_STOPWORDS.has(t) && !constraintWords.has(t) && !/^\d/.test(t))
+  );
+
+  return {
+    instruction: text,
+    priceDirection,
+    priceConstraint,
+    constraints,
+    preferences: parsePreferencesFromText(remaining, knownOptionNames),
+    avoidTerms: uniqueLower(avoidTerms),
+    includeTerms,
+    similarTo,
+  };
+}
+
+export function knownOptionNamesFor(context: RefinementContext): string[] {
+  return Array.from(new Set(context.candidates.flatMap((c) => Object.keys(c.optionValues || {}))));
+}
+
+function candidateMatchesValue(candidate: RefinementCandidate, value: string): boolean {
+  const optionHit = Object.values(candidate.optionValues || {}).some((values) =>
+    values.some((v) => v.toLowerCase() === value.toLowerCase())
+  );
+  return optionHit || containsWord(candidate.searchText, value);
+}
+
+function candidateSatisfiesConstraints(candidate: RefinementCandidate, constraints: VariantConstraints): boolean {
+  for (const attribute of ["size", "color", "material"] as const) {
+    const allowed = constraints.allowValues?.[attribute];
+    if (allowed && allowed.length > 0) {
+      if (!allowed.some((v) => candidateMatchesValue(candidate, v))) return false;
+    } else if (constraints[attribute] && !candidateMatchesValue(candidate, constraints[attribute] as string)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function toShopCurrency(amount: number | null, fromCurrency: string | null, context: RefinementContext): number | null {
+  if (amount === null) return null;
+  const { shopCurrency, shopperCurrency, rateTable } = context.currency;
+  const from = fromCurrency || shopperCurrency;
+  if (!from || !shopCurrency || from === shopCurrency || !rateTable) return amount;
+  return convertAmount(amount, from, shopCurrency, rateTable) ?? amount;
+}
+
+function similarityTokens(candidate: RefinementCandidate): Set<string> {
+  return new Set(tokenize([candidate.productType, candidate.vendor, ...candidate.tags, candidate.searchText].filter(Boolean).join(" ")));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((t) => {
+    if (b.has(t)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Resolves the price bounds for the refinement: an explicit amount replaces the session's bounds,
+ * "cheaper" / "pricier" split at the median price of the current results
+ */
+function resolvePriceBounds(
+  context: RefinementContext,
+  request: RefinementRequest,
+  currentPrices: number[]
+): PriceBounds | null {
+  if (request.priceConstraint) {
+    const bounds = priceConstraintBounds(request.priceConstraint);
+    return {
+      min: toShopCurrency(bounds.min, request.priceConstraint.currency, context),
+      max: toShopCurrency(bounds.max, request.priceConstraint.currency, context),
+    };
+  }
+  const mid = median(currentPrices);
+  if (request.priceDirection === "lower" && mid !== null) {
+    return { min: null, max: mid };
+  }
+  if (request.priceDirection === "higher" && mid !== null) {
+    return { min: mid, max: context.priceBounds?.max ?? null };
+  }
+  return context.priceBounds;
+}
+
+function describeOutcome(
+  request: RefinementRequest,
+  outcome: Omit<RefinementOutcome, "reasoning">,
+  currency: string | null
+): string {
+  const parts: string[] = [];
+  if (outcome.anchorTitle) parts.push(`more like ${outcome.anchorTitle}`);
+  if (request.priceConstraint && outcome.priceBounds) parts.push(describePriceBounds(outcome.priceBounds, currency));
+  else if (request.priceDirection === "lower") parts.push("at lower prices");
+  else if (request.priceDirection === "higher") parts.push("at higher price points");
+  const attributes = [request.constraints.color, request.constraints.material, request.constraints.size].filter(Boolean);
+  if (attributes.length > 0) parts.push(`in ${attributes.join(", ").toLowerCase()}`);
+  const leading = parts.length > 0 ? `Here are options ${parts.join(", ")}.` : "I've updated your picks.";
+  return request.avoidTerms.length > 0 ? `${leading} I've left out anything with ${request.avoidTerms.join(" or ")}.` : leading;
+}
+
+/**
+ * Applies a refinement to the stored pool: merged constraints and avoid terms filter, the original
+ * intent plus any new terms rank (BM25), and "more like the Nth" ranks by similarity to that product.
+ * Returns no handles when nothing in the pool fits - the caller keeps the current results.
+ */
+export function applyRefinement(
+  context: RefinementContext,
+  currentHandles: string[],
+  request: RefinementRequest
+): RefinementOutcome {
+  // A new value for an attribute replaces the session's (an old allow-list for it would contradict it)
+  const previous: VariantConstraints = { ...context.variantConstraints };
+  if (previous.allowValues) {
+    const allowValues = { ...previous.allowValues };
+    for (const attribute of ["size", "color", "material"] as const) {
+      if (request.constraints[attribute] || request.constraints.allowValues?.[attribute]) delete allowValues[attribute];
+    }
+    previous.allowValues = Object.keys(allowValues).length > 0 ? allowValues : undefined;
+  }
+  const constraints = mergeConstraints(request.constraints, previous);
+  const preferences = mergePreferences(request.preferences, context.variantPreferences);
+  const avoidTerms = uniqueLower([...context.avoidTerms, ...request.avoidTerms]);
+
+  const byHandle = new Map(context.candidates.map((c) => [c.handle, c]));
+  const current = currentHandles.map((h) => byHandle.get(h)).filter((c): c is RefinementCandidate => Boolean(c));
+  const priceBounds = resolvePriceBounds(
+    context,
+    request,
+    current.map((c) => c.price).filter((p): p is number => p !== null)
+  );
+
+  const anchorIndex = request.similarTo === "last" ? currentHandles.length - 1 : request.similarTo !== null ? request.similarTo - 1 : -1;
+  const anchor = anchorIndex >= 0 ? byHandle.get(currentHandles[anchorIndex]) ?? null : null;
+  const anchorTokens = anchor ? similarityTokens(anchor) : null;
+
+  const pool = context.candidates.filter((c) => {
+    if (anchor && c.handle === anchor.handle) return false;
+    if (avoidTerms.some((term) => containsWord(c.searchText, term))) return false;
+    if (priceBounds && c.price !== null && !priceWithinBounds(c.price, priceBounds)) return false;
+    if (request.priceDirection === "lower" && priceBounds?.max != null && c.price !== null && c.price >= priceBounds.max) return false;
+    return candidateSatisfiesConstraints(c, constraints);
+  });
+
+  const queryTokens = tokenize([...context.hardTerms, ...context.softTerms, ...request.includeTerms].join(" "));
+  const docs = pool.map((c) => ({ tokens: tokenize(normalizeText(c.searchText)) }));
+  const idf = calculateIDF(docs);
+  const avgDocLen = docs.reduce((sum, d) => sum + d.tokens.length, 0) / Math.max(1, docs.length);
+  const includeSet = new Set(request.includeTerms);
+  const preferenceValues = Object.values(preferences);
+
+  const scored = pool.map((candidate, index) => {
+    const tokens = docs[index].tokens;
+    const freq = new Map<string, number>();
+    tokens.forEach((t) => freq.set(t, (freq.get(t) || 0) + 1));
+    let score = queryTokens.length > 0 ? bm25Score(queryTokens, tokens, freq, tokens.length, avgDocLen, idf) : 0;
+    score += tokens.filter((t) => includeSet.has(t)).length > 0 ? 2 : 0;
+    score += preferenceValues.filter((v) => candidateMatchesValue(candidate, v)).length;
+    if (anchorTokens) score += jaccard(anchorTokens, similarityTokens(candidate)) * 20;
+    return { candidate, score, index };
+  });
+  scored.sort((a, b) => b.score - a.score || a.index - b.index);
+
+  const handles = scored.slice(0, context.resultCount).map((s) => s.candidate.handle);
+  const outcome = { handles, constraints, preferences, avoidTerms, priceBounds, anchorTitle: anchor?.title ?? null };
+  return { ...outcome, reasoning: describeOutcome(request, outcome, context.currency.shopCurrency) };
+}
+
+/**
+ * Compact pool entry for the refinement context (pipeline candidates carry much more)
+ */
+export function toRefinementCandidate(candidate: {
+  handle: string;
+  title: string;
+  productType?: string | null;
+  vendor?: string | null;
+  tags?: string[] | null;
+  price?: string | number | null;
+  optionValues?: Record<string, string[]> | null;
+  searchText?: string | null;
+}): RefinementCandidate {
+  const price = candidate.price === null || candidate.price === undefined ? NaN : parseFloat(String(candidate.price));
+  return {
+    handle: candidate.handle,
+    title: candidate.title,
+    productType: candidate.productType || null,
+    vendor: candidate.vendor || null,
+    tags: (candidate.tags || []).slice(0, 20),
+    price: Number.isFinite(price) ? price : null,
+    optionValues: candidate.optionValues || {},
+    searchText: (candidate.searchText || candidate.title).slice(0, 600),
+  };
+}
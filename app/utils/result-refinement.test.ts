@@ -0,0 +1,110 @@
+/**
+ * Unit tests for conversational result refinement
+ * Instruction parsing (price direction, negations, "like the second one", colors) and re-ranking of the stored pool
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  applyRefinement,
+  parseRefinementInstruction,
+  toRefinementCandidate,
+  type RefinementContext,
+} from "./result-refinement.server";
+
+function candidate(handle: string, title: string, price: number, extra: { tags?: string[]; color?: string; text?: string } = {}) {
+  return toRefinementCandidate({
+    handle,
+    title,
+    productType: "Bag",
+    vendor: "Acme",
+    tags: extra.tags ?? [],
+    price: price.toFixed(2),
+    optionValues: extra.color ? { Color: [extra.color] } : {},
+    searchText: `${title} ${extra.text ?? ""} ${extra.color ?? ""}`.toLowerCase(),
+  });
+}
+
+function context(overrides: Partial<RefinementContext> = {}): RefinementContext {
+  return {
+    userIntent: "a work bag",
+    hardTerms: ["bag"],
+    softTerms: ["work"],
+    avoidTerms: [],
+    variantConstraints: { size: null, color: null, material: null },
+    variantPreferences: {},
+    priceBounds: null,
+    currency: { shopCurrency: "USD", shopperCurrency: "USD", rateTable: null },
+    resultCount: 3,
+    candidates: [
+      candidate("tote-leather", "Leather Work Tote", 180, { color: "Brown", text: "full grain leather" }),
+      candidate("backpack-canvas", "Canvas Work Backpack", 90, { color: "Black", text: "waxed canvas" }),
+      candidate("messenger-nylon", "Nylon Messenger Bag", 60, { color: "Black", text: "recycled nylon" }),
+      candidate("tote-canvas", "Canvas Shopper Bag", 45, { color: "Natural", text: "cotton canvas" }),
+      candidate("briefcase-leather", "Leather Briefcase", 240, { color: "Black", text: "full grain leather laptop sleeve" }),
+    ],
+    ...overrides,
+  };
+}
+
+describe("parseRefinementInstruction", () => {
+  it("reads price direction", () => {
+    expect(parseRefinementInstruction("cheaper please", []).priceDirection).toBe("lower");
+    expect(parseRefinementInstruction("something more premium", []).priceDirection).toBe("higher");
+    expect(parseRefinementInstruction("in black", []).priceDirection).toBeNull();
+  });
+
+  it("turns negations into avoid terms instead of requirements", () => {
+    const request = parseRefinementInstruction("no leather", []);
+    expect(request.avoidTerms).toEqual(["leather"]);
+    expect(request.constraints.material).toBeNull();
+    expect(request.includeTerms).toEqual([]);
+  });
+
+  it("reads a reference to a current result", () => {
+    expect(parseRefinementInstruction("more like the second one", []).similarTo).toBe(2);
+    expect(parseRefinementInstruction("similar to #3", []).similarTo).toBe(3);
+    expect(parseRefinementInstruction("like the last one", []).similarTo).toBe("last");
+  });
+
+  it("parses colors and explicit prices", () => {
+    const request = parseRefinementInstruction("in black under $100", []);
+    expect(request.constraints.color).toBe("Black");
+    expect(request.priceConstraint).toMatchObject({ max: 100, currency: "USD" });
+  });
+});
+
+describe("applyRefinement", () => {
+  const current = ["tote-leather", "backpack-canvas", "briefcase-leather"];
+
+  it("narrows to cheaper products than the current median", () => {
+    const outcome = applyRefinement(context(), current, parseRefinementInstruction("cheaper", []));
+    expect(outcome.priceBounds).toEqual({ min: null, max: 180 });
+    expect(outcome.handles).not.toContain("tote-leather");
+    expect(outcome.handles).not.toContain("briefcase-leather");
+    expect(outcome.reasoning).toContain("lower prices");
+  });
+
+  it("keeps the session constraints and adds the new color", () => {
+    const outcome = applyRefinement(context(), current, parseRefinementInstruction("in black", []));
+    expect(outcome.handles.sort()).toEqual(["backpack-canvas", "briefcase-leather", "messenger-nylon"]);
+    expect(outcome.constraints.color).toBe("Black");
+  });
+
+  it("excludes avoided materials, including those the session already avoided", () => {
+    const outcome = applyRefinement(context({ avoidTerms: ["nylon"] }), current, parseRefinementInstruction("no leather", []));
+    expect(outcome.handles).toEqual(["backpack-canvas", "tote-canvas"]);
+    expect(outcome.avoidTerms).toEqual(["nylon", "leather"]);
+  });
+
+  it("ranks by similarity to the referenced product and leaves it out", () => {
+    const outcome = applyRefinement(context(), current, parseRefinementInstruction("more like the first one", []));
+    expect(outcome.handles[0]).toBe("briefcase-leather");
+    expect(outcome.handles).not.toContain("tote-leather");
+    expect(outcome.anchorTitle).toBe("Leather Work Tote");
+  });
+
+  it("returns nothing when no stored product fits", () => {
+    const outcome = applyRefinement(context(), current, parseRefinementInstruction("in black under $20", []));
+    expect(outcome.handles).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * "More like this": products similar to one recommended product
+ * BM25 over buildSearchText (the source product's own text is the query), with products sharing
+ * the source's type anchor (productMatchesTypeAnchor) ranked ahead of the rest.
+ */
+
+import { bm25Score, buildSearchText, calculateIDF, tokenize } from "~/utils/text-indexing.server";
+import { normalizeTypeTerm, productMatchesTypeAnchor } from "~/utils/type-lexicon.server";
+
+export type SimilarityProduct = {
+  handle: string;
+  title: string;
+  productType?: string | null;
+  vendor?: string | null;
+  tags?: string[] | null;
+  optionValues?: Record<string, string[]>;
+  sizes?: string[];
+  colors?: string[];
+  materials?: string[];
+  collections?: Array<{ title?: string } | string> | null;
+  available?: boolean;
+  status?: string | null;
+};
+
+export type ExperienceRules = {
+  excludedTags: string[];
+  inStockOnly: boolean;
+};
+
+export type SimilarMatch<T> = {
+  product: T;
+  score: number;
+  sharesType: boolean;
+};
+
+export const DEFAULT_SIMILAR_LIMIT = 6;
+export const MAX_SIMILAR_LIMIT = 12;
+
+/**
+ * The experience's catalog rules (includedCollections is applied when fetching the pool)
+ */
+export function applyExperienceRules<T extends SimilarityProduct>(products: T[], rules: ExperienceRules): T[] {
+  const excluded = new Set(rules.excludedTags.map((tag) => tag.toLowerCase()));
+  return products.filter((p) => {
+    if (p.status === "ARCHIVED" || p.status === "DRAFT") return false;
+    if (rules.inStockOnly && p.available !== true) return false;
+    return !(p.tags || []).some((tag) => excluded.has(tag.toLowerCase()));
+  });
+}
+
+function productTokens(product: SimilarityProduct): string[] {
+  return tokenize(
+    buildSearchText({
+      title: product.title,
+      productType: product.productType,
+      vendor: product.vendor,
+      tags: product.tags || [],
+      optionValues: product.optionValues,
+      sizes: product.sizes,
+      colors: product.colors,
+      materials: product.materials,
+    })
+  );
+}
+
+/**
+ * Ranks the pool by similarity to the source product (which is never returned)
+ * Products sharing the source's type come first; others only fill in with some text overlap.
+ */
+export function rankSimilarProducts<T extends SimilarityProduct>(
+  source: SimilarityProduct,
+  pool: T[],
+  options: { limit?: number; excludeHandles?: string[] } = {}
+): SimilarMatch<T>[] {
+  const limit = Math.min(MAX_SIMILAR_LIMIT, Math.max(1, options.limit ?? DEFAULT_SIMILAR_LIMIT));
+  const excluded = new Set([source.handle, ...(options.excludeHandles || [])]);
+  const seen = new Set<string>();
+  const candidates = pool.filter((p) => {
+    if (excluded.has(p.handle) || seen.has(p.handle)) return false;
+    seen.add(p.handle);
+    return true;
+  });
+  if (candidates.length === 0) return [];
+
+  const docs = candidates.map((p) => ({ tokens: productTokens(p) }));
+  const sourceTokens = productTokens(source);
+  const idf = calculateIDF([...docs, { tokens: sourceTokens }]);
+  const avgDocLen = docs.reduce((sum, d) => sum + d.tokens.length, 0) / docs.length || 1;
+  const queryTokens = Array.from(new Set(sourceTokens));
+  const typeAnchor = source.productType ? normalizeTypeTerm(source.productType) : "";
+
+  const matches = candidates.map((product, index) => {
+    const tokens = docs[index].tokens;
+    const freq = new Map<string, number>();
+    tokens.forEach((t) => freq.set(t, (freq.get(t) || 0) + 1));
+    return {
+      product,
+      score: bm25Score(queryTokens, tokens, freq, tokens.length, avgDocLen, idf),
+      sharesType: typeAnchor.length > 0 && productMatchesTypeAnchor(product, typeAnchor),
+      index,
+    };
+  });
+
+  return matches
+    .filter((m) => m.sharesType || m.score > 0)
+    .sort((a, b) => Number(b.sharesType) - Number(a.sharesType) || b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map(({ product, score, sharesType }) => ({ product, score, sharesType }));
+}
@@ -0,0 +1,58 @@
+/**
+ * Unit tests for "more like this" similarity
+ * Experience rules (excluded tags, stock, status) and ranking by type anchor + BM25
+ */
+
+import { describe, expect, it } from "vitest";
+import { applyExperienceRules, rankSimilarProducts, type SimilarityProduct } from "./similar-products.server";
+
+function product(handle: string, title: string, productType: string, extra: Partial<SimilarityProduct> = {}): SimilarityProduct {
+  return { handle, title, productType, vendor: "Acme", tags: [], available: true, status: "ACTIVE", ...extra };
+}
+
+const source = product("wool-overcoat", "Grey Wool Overcoat", "Coat", { tags: ["wool", "winter"], colors: ["grey"] });
+
+describe("applyExperienceRules", () => {
+  const pool = [
+    product("a", "A", "Coat", { tags: ["Sale"] }),
+    product("b", "B", "Coat", { available: false }),
+    product("c", "C", "Coat", { status: "DRAFT" }),
+    product("d", "D", "Coat"),
+  ];
+
+  it("drops excluded tags case-insensitively and unpublished products", () => {
+    expect(applyExperienceRules(pool, { excludedTags: ["sale"], inStockOnly: false }).map((p) => p.handle)).toEqual(["b", "d"]);
+  });
+
+  it("drops unavailable products when inStockOnly is set", () => {
+    expect(applyExperienceRules(pool, { excludedTags: [], inStockOnly: true }).map((p) => p.handle)).toEqual(["a", "d"]);
+  });
+});
+
+describe("rankSimilarProducts", () => {
+  const pool = [
+    source,
+    product("wool-scarf", "Grey Wool Scarf", "Scarf", { tags: ["wool", "winter"], colors: ["grey"] }),
+    product("rain-coat", "Yellow Rain Coat", "Coat", { tags: ["waterproof"] }),
+    product("wool-coat", "Charcoal Wool Coat", "Coat", { tags: ["wool", "winter"] }),
+    product("sandals", "Leather Sandals", "Shoes", { tags: ["summer"] }),
+  ];
+
+  it("ranks products sharing the type first, by text similarity, and never returns the source", () => {
+    const handles = rankSimilarProducts(source, pool).map((m) => m.product.handle);
+    expect(handles.slice(0, 2)).toEqual(["wool-coat", "rain-coat"]);
+    expect(handles).not.toContain("wool-overcoat");
+  });
+
+  it("fills in with other products that overlap, and leaves out unrelated ones", () => {
+    const handles = rankSimilarProducts(source, pool).map((m) => m.product.handle);
+    expect(handles).toContain("wool-scarf");
+    expect(handles).not.toContain("sandals");
+  });
+
+  it("respects the limit and excluded handles", () => {
+    const matches = rankSimilarProducts(source, pool, { limit: 1, excludeHandles: ["wool-coat"] });
+    expect(matches.map((m) => m.product.handle)).toEqual(["rain-coat"]);
+    expect(matches[0].sharesType).toBe(true);
+  });
+});
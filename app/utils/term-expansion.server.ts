@@ -4,6 +4,8 @@
  */
 
 import prisma from "~/db.server";
+import { getLLMProvider, llmChat } from "~/models/llm-provider.server";
+import { loadShopVocabulary, type ShopVocabulary } from "~/models/search-vocabulary.server";
 
 /**
  * Multi-lingual term mappings (industry-agnostic)
@@ -817,19 +819,16 @@ export async function expandSynonymsLLM(
 }
 
 /**
- * Generate synonyms via OpenAI LLM
+ * Generate synonyms via the configured LLM provider
  */
 async function generateSynonymsViaLLM(
   term: string,
   maxSynonyms: number
 ): Promise<string[]> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
+  if (!getLLMProvider().isConfigured()) {
     return [];
   }
   
-  const model = process.env.OPENAI_MODEL || "gpt-4o-mini";
-  
   const prompt = `Return up to ${maxSynonyms} common synonyms, aliases, regional variants, abbreviations, multilingual terms (Spanish, French, German, Italian, Portuguese, etc.), and near-equivalents that shoppers might use when searching for products containing the term "${term}".
 
 Rules:
@@ -852,35 +851,23 @@ Example for "shoes" (multilingual):
 Return JSON array:`;
 
   try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          { role: "system", content: "You are a helpful assistant that returns only valid JSON arrays." },
-          { role: "user", content: prompt },
-        ],
-        temperature: 0.3,
-        max_tokens: 200,
-      }),
+    const response = await llmChat({
+      purpose: "synonyms",
+      messages: [
+        { role: "system", content: "You are a helpful assistant that returns only valid JSON arrays." },
+        { role: "user", content: prompt },
+      ],
+      temperature: 0.3,
+      maxTokens: 200,
+      timeoutMs: 10000,
     });
     
-    if (!response.ok) {
-      return [];
-    }
-    
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-    if (!content) {
+    if (!response.content) {
       return [];
     }
     
     // Parse JSON array
-    const parsed = JSON.parse(content);
+    const parsed = JSON.parse(response.content);
     if (Array.isArray(parsed)) {
       return parsed
         .filter((s: any) => typeof s === "string" && s.trim().length > 0)
@@ -897,7 +884,8 @@ Return JSON array:`;
 
 /**
  * Full term expansion pipeline
- * Combines morphology, locale variants, abbreviations, and optionally LLM synonyms
+ * Combines merchant vocabulary, morphology, locale variants, abbreviations, and optionally LLM synonyms.
+ * The shop's vocabulary is loaded when shopId is given and options.vocabulary is not (null = no rules).
  */
 export async function expandTerm(
   term: string,
@@ -906,6 +894,7 @@ export async function expandTerm(
     contextTerms?: string[];
     includeLLMSynonyms?: boolean;
     maxLLMSynonyms?: number;
+    vocabulary?: ShopVocabulary | null;
   } = {}
 ): Promise<{
   canonical: string;
@@ -919,6 +908,23 @@ export async function expandTerm(
   const expanded = new Set<string>();
   const localePairsUsed: string[] = [];
   const abbrevPreserved: string[] = [];
+  const vocabulary = options.vocabulary !== undefined ? options.vocabulary : shopId ? await loadShopVocabulary(shopId) : null;
+  
+  // Step 0: Merchant vocabulary (ahead of the built-in SYNONYM_MAP / MULTILINGUAL_MAP)
+  if (vocabulary) {
+    // One-way rewrites: the target expands fully, but the target's own rewrites are not followed
+    for (const target of vocabulary.rewrites[canonical] || []) {
+      const rewritten = await expandTerm(target, { ...options, vocabulary: { ...vocabulary, rewrites: {} } });
+      for (const variant of rewritten.expanded) {
+        expanded.add(variant);
+      }
+    }
+    for (const synonym of vocabulary.pinned[canonical] || []) {
+      for (const variant of expandMorphology(synonym)) {
+        expanded.add(variant);
+      }
+    }
+  }
   
   // Step 1: Morphology expansion
   const morphVariants = expandMorphology(canonical);
@@ -978,7 +984,9 @@ export async function expandTerm(
   // Step 4: LLM synonyms (if enabled and shopId provided)
   if (includeLLMSynonyms && shopId) {
     const llmSynonyms = await expandSynonymsLLM(canonical, shopId, maxLLMSynonyms);
-    for (const synonym of llmSynonyms) {
+    // Merchant-approved synonyms are kept even when a cache refresh no longer returns them
+    const approvedSynonyms = vocabulary?.approved[canonical] || [];
+    for (const synonym of new Set([...approvedSynonyms, ...llmSynonyms])) {
       // Also expand morphology for synonyms
       const synonymMorph = expandMorphology(synonym);
       for (const variant of synonymMorph) {
@@ -987,6 +995,15 @@ export async function expandTerm(
     }
   }
   
+  // Step 5: Blocked expansions and rejected synonyms override every source (the term itself is always kept)
+  for (const excluded of vocabulary?.excluded[canonical] || []) {
+    for (const variant of expandMorphology(excluded)) {
+      if (variant !== canonical) {
+        expanded.delete(variant);
+      }
+    }
+  }
+  
   return {
     canonical,
     expanded,
@@ -1005,6 +1022,7 @@ export async function expandTerms(
     contextTerms?: string[];
     includeLLMSynonyms?: boolean;
     maxLLMSynonyms?: number;
+    vocabulary?: ShopVocabulary | null;
   } = {}
 ): Promise<{
   canonicalTerms: string[];
@@ -1018,9 +1036,13 @@ export async function expandTerms(
   const queryTokens: string[] = [];
   const allLocalePairs: string[] = [];
   const allAbbrevPreserved: string[] = [];
+  // Load the shop's vocabulary once for the whole batch
+  const vocabulary = options.vocabulary !== undefined
+    ? options.vocabulary
+    : options.shopId && canonicalTerms.length > 0 ? await loadShopVocabulary(options.shopId) : null;
   
   for (const term of canonicalTerms) {
-    const expansion = await expandTerm(term, options);
+    const expansion = await expandTerm(term, { ...options, vocabulary });
     
     // Add all expanded variants
     for (const variant of expansion.expanded) {
@@ -12,7 +12,7 @@ export function normalizeText(str: string | null | undefined): string {
   return str
     .toLowerCase()
     // Remove punctuation except hyphen, slash, apostrophe
-    .replace(/[^\w\s\-\/']/g, " ")
+    .replace(/[^\w\s\-/']/g, " ")
     // Collapse whitespace
     .replace(/\s+/g, " ")
     .trim();
@@ -296,3 +296,191 @@ export function expandQueryTokens(
   return expanded;
 }
 
+/**
+ * Unified normalize function: used everywhere for consistency
+ * lowercasing, trimming, collapsing whitespace, converting hyphens/underscores to spaces, removing duplicate punctuation
+ */
+export function unifiedNormalize(text: string | null | undefined): string {
+  if (!text || typeof text !== "string") return "";
+  
+  return text
+    .toLowerCase()
+    .trim()
+    // Convert hyphens and underscores to spaces
+    .replace(/[-_]/g, " ")
+    // Remove duplicate punctuation (keep single instance)
+    .replace(/[.,;:!?]{2,}/g, (match) => match[0])
+    // Collapse whitespace
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Catalog fields extractSearchText reads
+ * Candidates come from live fetches, the catalog index and stored pools, so every field is optional
+ * and still type-checked at runtime.
+ */
+export type SearchTextSource = {
+  title?: string | null;
+  handle?: string | null;
+  productType?: string | null;
+  product_type?: string | null;
+  productCategory?: unknown;
+  taxonomy?: unknown;
+  collections?: unknown;
+  tags?: unknown;
+  vendor?: string | null;
+  variants?: unknown;
+  optionValues?: unknown;
+  sizes?: unknown;
+  colors?: unknown;
+  materials?: unknown;
+  metafields?: unknown; // namespace -> key -> value
+  description?: string | null;
+  descPlain?: string | null;
+  desc1000?: string | null;
+};
+
+/**
+ * Extract searchable text from product candidate (industry-agnostic)
+ * Combines common catalog fields: title, handle, productType, tags, vendor, description snippet
+ * Uses cleanDescription to strip HTML and normalize
+ */
+export function extractSearchText(candidate: SearchTextSource, indexMetafields?: Array<{ namespace: string; key: string }> | null): string {
+  const parts: string[] = [];
+  
+  // Title
+  if (candidate.title && typeof candidate.title === "string") {
+    parts.push(candidate.title);
+  }
+  
+  // Handle (CRITICAL: often contains product type)
+  if (candidate.handle && typeof candidate.handle === "string") {
+    parts.push(candidate.handle);
+  }
+  
+  // ProductType (handles both productType and product_type)
+  const productType = candidate.productType || candidate.product_type;
+  if (productType && typeof productType === "string") {
+    parts.push(productType);
+  }
+  
+  // ProductCategory/Taxonomy (if available from Shopify)
+  if (candidate.productCategory && typeof candidate.productCategory === "string") {
+    parts.push(candidate.productCategory);
+  }
+  if (candidate.taxonomy && typeof candidate.taxonomy === "string") {
+    parts.push(candidate.taxonomy);
+  }
+  
+  // Collections (if available from Shopify GraphQL)
+  if (candidate.collections && Array.isArray(candidate.collections)) {
+    for (const coll of candidate.collections) {
+      if (typeof coll === "string") {
+        parts.push(coll);
+      } else if (coll && typeof coll === "object") {
+        if (coll.title && typeof coll.title === "string") {
+          parts.push(coll.title);
+        }
+        if (coll.handle && typeof coll.handle === "string") {
+          parts.push(coll.handle);
+        }
+      }
+    }
+  }
+  
+  // Tags (array or string)
+  if (Array.isArray(candidate.tags)) {
+    parts.push(...candidate.tags.filter((t) => typeof t === "string"));
+  } else if (candidate.tags && typeof candidate.tags === "string") {
+    parts.push(candidate.tags);
+  }
+  
+  // Vendor (optional)
+  if (candidate.vendor && typeof candidate.vendor === "string") {
+    parts.push(candidate.vendor);
+  }
+  
+  // Variant titles and SKUs (if available from Shopify GraphQL)
+  if (candidate.variants && Array.isArray(candidate.variants)) {
+    for (const variant of candidate.variants) {
+      if (variant && typeof variant === "object") {
+        if (variant.title && typeof variant.title === "string") {
+          parts.push(variant.title);
+        }
+        if (variant.sku && typeof variant.sku === "string") {
+          parts.push(variant.sku);
+        }
+      }
+    }
+  }
+  
+  // Option values (all option names and values)
+  if (candidate.optionValues && typeof candidate.optionValues === "object") {
+    for (const [key, values] of Object.entries(candidate.optionValues)) {
+      if (key && typeof key === "string") {
+        parts.push(key); // Option name (e.g., "Size", "Color")
+      }
+      if (Array.isArray(values)) {
+        parts.push(...values.filter((v) => typeof v === "string"));
+      } else if (values && typeof values === "string") {
+        parts.push(values);
+      }
+    }
+  }
+  
+  // Sizes, colors, materials (if available separately)
+  if (Array.isArray(candidate.sizes)) {
+    parts.push(...candidate.sizes.filter((s) => typeof s === "string"));
+  }
+  if (Array.isArray(candidate.colors)) {
+    parts.push(...candidate.colors.filter((c) => typeof c === "string"));
+  }
+  if (Array.isArray(candidate.materials)) {
+    parts.push(...candidate.materials.filter((m) => typeof m === "string"));
+  }
+  
+  // Metafields (if configured in Experience and available)
+  if (indexMetafields && Array.isArray(indexMetafields) && candidate.metafields && typeof candidate.metafields === "object") {
+    const metafields = candidate.metafields as Record<string, Record<string, unknown> | undefined>;
+    for (const metafieldConfig of indexMetafields) {
+      if (metafields[metafieldConfig.namespace]?.[metafieldConfig.key]) {
+        const value = metafields[metafieldConfig.namespace]?.[metafieldConfig.key];
+        if (typeof value === "string") {
+          parts.push(value);
+        } else if (typeof value === "object" && value !== null) {
+          // Handle JSON metafields
+          try {
+            parts.push(JSON.stringify(value));
+          } catch (e) {
+            // Skip if not serializable
+          }
+        }
+      }
+    }
+  }
+  
+  // Description snippet (use existing cleanDescription if available, or extract snippet)
+  // When constraint terms exist, include longer description snippet (300-500 chars) for BM25 ranking
+  let descText = "";
+  if (candidate.description) {
+    descText = cleanDescription(candidate.description);
+  } else if (candidate.descPlain) {
+    descText = candidate.descPlain;
+  } else if (candidate.desc1000) {
+    descText = cleanDescription(candidate.desc1000);
+  }
+  
+  // Truncate description: use longer snippet (500 chars) when constraints exist, otherwise 400 chars
+  // This helps BM25 rank products that match constraint terms in description
+  const descMaxChars = 500; // Increased from 400 to help with constraint term matching
+  if (descText.length > descMaxChars) {
+    descText = descText.substring(0, descMaxChars);
+  }
+  if (descText) {
+    parts.push(descText);
+  }
+  
+  // Join and normalize using unified normalize
+  return unifiedNormalize(parts.join(" "));
+}
@@ -0,0 +1,218 @@
+/**
+ * Variant constraints (size / color / material) and option preferences parsed from shopper text
+ * Shared by the session pipeline (app-proxy-session-start) and result refinement.
+ */
+
+export type VariantConstraints = {
+  size: string | null;
+  color: string | null;
+  material: string | null;
+  allowValues?: Record<string, string[]>; // OR allow-list: attribute -> array of allowed values (case-normalized)
+};
+
+export function extractAllowList(text: string, validValues: string[]): string[] | null {
+  // Patterns for OR: "A or B", "either A or B", "A / B", "A, B, or C"
+  // Match words around "or", "either...or", or "/"
+  const orPatterns = [
+    /\b(\w+)\s+or\s+(\w+)\b/gi,
+    /\beither\s+(\w+)\s+or\s+(\w+)\b/gi,
+    /\b(\w+)\s*\/\s*(\w+)\b/gi,
+    /\b(\w+),\s*(\w+)(?:,\s*or\s+(\w+))?/gi,
+  ];
+  
+  for (const pattern of orPatterns) {
+    const match = pattern.exec(text);
+    if (match) {
+      const values: string[] = [];
+      // Extract all matched groups (skip full match at index 0)
+      for (let i = 1; i < match.length; i++) {
+        if (match[i]) {
+          const value = match[i].trim().toLowerCase();
+          // Check if value is in the valid values list (case-insensitive)
+          const normalized = validValues.find(v => v.toLowerCase() === value);
+          if (normalized) {
+            values.push(normalized);
+          }
+        }
+      }
+      if (values.length >= 2) {
+        // Normalize values (capitalize first letter)
+        return values.map(v => v.split(" ").map(w => w[0].toUpperCase() + w.slice(1)).join(" "));
+      }
+    }
+  }
+  
+  return null;
+}
+
+export function parseConstraintsFromText(text: string): VariantConstraints {
+  const t = (text || "").toLowerCase();
+  const allowValues: Record<string, string[]> = {};
+
+  // Size parsing (keep conservative)
+  const sizeMap: Record<string, string> = {
+    "xxs": "XXS",
+    "xs": "XS",
+    "small": "Small",
+    "s": "S",
+    "medium": "Medium",
+    "m": "M",
+    "large": "Large",
+    "l": "L",
+    "xl": "XL",
+    "xxl": "XXL",
+  };
+  
+  const sizeValues = Object.keys(sizeMap);
+
+  // Common "UK 10" style sizes (fashion)
+  const ukDress = t.match(/\buk\s?(\d{1,2})\b/);
+  const numericSize = t.match(/\bsize\s?(\d{1,2})\b/);
+
+  // Try to extract OR allow-list for size first
+  const sizeAllowList = extractAllowList(text, sizeValues);
+  if (sizeAllowList) {
+    allowValues.size = sizeAllowList;
+    const sourceMatch = text.match(/\b(?:size\s+)?(?:either\s+)?\w+\s+(?:or|\/)\s+\w+/i);
+    if (sourceMatch) {
+      console.log("[Constraints] allow_list", { attribute: "size", values: sizeAllowList, sourceTextSnippet: sourceMatch[0] });
+    }
+  }
+
+  let size: string | null = null;
+  for (const key of Object.keys(sizeMap)) {
+    const re = new RegExp(`\\b${key}\\b`, "i");
+    if (re.test(text)) { size = sizeMap[key]; break; }
+  }
+  if (!size && ukDress?.[1]) size = `UK ${ukDress[1]}`;
+  if (!size && numericSize?.[1]) size = `Size ${numericSize[1]}`;
+
+  // Color parsing (simple list; expand later)
+  const colors = [
+    "black","white","grey","gray","navy","blue","green","red","pink","purple",
+    "beige","cream","brown","tan","orange","yellow","gold","silver","khaki",
+  ];
+  
+  // Try to extract OR allow-list for color first
+  const colorAllowList = extractAllowList(text, colors);
+  if (colorAllowList) {
+    allowValues.color = colorAllowList;
+    const sourceMatch = text.match(/\b(?:color|colour)?\s*(?:in\s+)?(?:either\s+)?\w+\s+(?:or|\/)\s+\w+/i);
+    if (sourceMatch) {
+      console.log("[Constraints] allow_list", { attribute: "color", values: colorAllowList, sourceTextSnippet: sourceMatch[0] });
+    }
+  }
+  
+  let color: string | null = null;
+  for (const c of colors) {
+    const re = new RegExp(`\\b${c}\\b`, "i");
+    if (re.test(text)) { color = c[0].toUpperCase() + c.slice(1); break; }
+  }
+
+  // Material/Ingredient parsing (industry-agnostic: Fashion, Beauty, Home, Health)
+  // Fashion: fabrics and materials
+  // Beauty: key ingredients
+  // Home: construction materials
+  // Health: active ingredients
+  const materials = [
+    // Fashion/Apparel materials
+    "cotton","linen","silk","wool","leather","denim","polyester","viscose","nylon","cashmere","spandex","elastane",
+    // Beauty/Cosmetics ingredients
+    "retinol","hyaluronic acid","vitamin c","niacinamide","peptide","ceramide","collagen","aloe vera","shea butter",
+    "coconut oil","argan oil","jojoba","glycerin","salicylic acid","benzoyl peroxide","squalane","snail mucin",
+    // Home/Garden materials
+    "wood","metal","glass","ceramic","plastic","bamboo","marble","granite","stainless steel","aluminum","brass","copper",
+    "fabric","upholstery","leather","rattan","wicker","mdf","particle board","solid wood",
+    // Health/Wellness ingredients
+    "protein","fiber","vitamin","mineral","omega","probiotic","prebiotic","antioxidant","turmeric","ginger","echinacea"
+  ];
+  
+  // Try to extract OR allow-list for material first
+  const materialAllowList = extractAllowList(text, materials);
+  if (materialAllowList) {
+    allowValues.material = materialAllowList;
+    const sourceMatch = text.match(/\b(?:material|fabric)?\s*(?:in\s+)?(?:either\s+)?\w+(?:\s+\w+)?\s+(?:or|\/)\s+\w+/i);
+    if (sourceMatch) {
+      console.log("[Constraints] allow_list", { attribute: "material", values: materialAllowList, sourceTextSnippet: sourceMatch[0] });
+    }
+  }
+  
+  let material: string | null = null;
+  for (const m of materials) {
+    const re = new RegExp(`\\b${m.replace(/\s+/g, "\\s+")}\\b`, "i");
+    if (re.test(text)) { 
+      material = m.split(" ").map(w => w[0].toUpperCase() + w.slice(1)).join(" "); 
+      break; 
+    }
+  }
+
+  const result: VariantConstraints = { size, color, material };
+  if (Object.keys(allowValues).length > 0) {
+    result.allowValues = allowValues;
+  }
+  return result;
+}
+
+export function mergeConstraints(a: VariantConstraints, b: VariantConstraints): VariantConstraints {
+  // a has priority over b
+  // Merge allowValues: a's allowValues take priority, but merge if both exist for same attribute
+  const allowValues: Record<string, string[]> = {};
+  if (a.allowValues) {
+    Object.assign(allowValues, a.allowValues);
+  }
+  if (b.allowValues) {
+    for (const [key, values] of Object.entries(b.allowValues)) {
+      if (!allowValues[key]) {
+        allowValues[key] = values;
+      }
+    }
+  }
+  
+  const result: VariantConstraints = {
+    size: a.size ?? b.size,
+    color: a.color ?? b.color,
+    material: a.material ?? b.material,
+  };
+  
+  if (Object.keys(allowValues).length > 0) {
+    result.allowValues = allowValues;
+  }
+  
+  return result;
+}
+
+export type VariantPreferences = Record<string, string>;
+
+export function normKey(key: string): string {
+  return key.trim().replace(/\s+/g, " ");
+}
+
+export function mergePreferences(primary: VariantPreferences, secondary: VariantPreferences): VariantPreferences {
+  // primary wins
+  return { ...secondary, ...primary };
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function parsePreferencesFromText(text: string, knownOptionNames: string[]): VariantPreferences {
+  const prefs: VariantPreferences = {};
+  const t = (text || "").trim();
+  if (!t) return prefs;
+
+  // Try "OptionName: value" / "OptionName=value" / "OptionName value"
+  for (const optionName of knownOptionNames) {
+    const re = new RegExp(
+      `\\b${escapeRegExp(optionName)}\\b\\s*(?:[:=]|is|in)?\\s*([A-Za-z0-9][A-Za-z0-9 &/\\-]{0,30})`,
+      "i"
+    );
+    const m = t.match(re);
+    if (m?.[1]) prefs[normKey(optionName)] = m[1].trim();
+  }
+
+  // Fallback: keep Patch 2's size/color/material inference (optional)
+  // If you already have parseConstraintsFromText(), reuse it:
+  // - map size->Size, color->Color, material->Material if those option names exist.
+  return prefs;
+}
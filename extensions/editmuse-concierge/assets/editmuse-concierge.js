@@ -1410,12 +1410,15 @@
         error: null,
         stillWorking: false,
         pollMaxReached: false, // Track when max poll time is reached
+        progressMessage: null, // Live stage from the session stream ("Searching 1,200 products")
+        previewProducts: [], // Deterministic pre-ranking streamed while the AI ranks
         status: 'idle' // 'idle' | 'submitting' | 'stillWorking' | 'done' | 'error'
       };
       
-      // Polling state
+      // Polling state (the session stream is tried first, polling is the fallback)
       this.pollingController = null;
       this.pollingTimeout = null;
+      this.sessionStream = null;
       
       // Quiz answers storage (for backward compatibility and step restoration)
       this.quizAnswers = {};
@@ -1446,8 +1449,14 @@
       var question = this.state.questions[this.state.current];
       if (!question) return null;
       
+      // Multi-choice and range answers live in state only (arrays / {min, max})
+      if (this.isMultiChoiceQuestion(question) || question.type === 'range') {
+        var typedAnswer = this.state.answers[this.state.current];
+        return this.hasAnswerValue(typedAnswer) ? typedAnswer : null;
+      }
+      
       // For select questions: check state first, then radio/select DOM
-      if (question.type === 'select') {
+      if (this.isChoiceQuestion(question)) {
         // Check state first (most reliable)
         var stateAnswer = this.state.answers[this.state.current];
         if (stateAnswer) return stateAnswer;
@@ -1486,6 +1495,143 @@
       }
     }
     
+    // Question types answered by picking options (pills)
+    isChoiceQuestion(question) {
+      if (!question) return false;
+      return ['select', 'multi_select', 'image_choice', 'yes_no', 'rank'].indexOf(question.type) !== -1;
+    }
+    
+    // Choice questions that take several values (rank keeps the order they were picked in)
+    isMultiChoiceQuestion(question) {
+      if (!question) return false;
+      return question.type === 'multi_select' || question.type === 'rank' ||
+        (question.type === 'image_choice' && question.multiple === true);
+    }
+    
+    // Options for a choice question (yes/no questions have fixed options)
+    getChoiceOptions(question) {
+      if (question.type === 'yes_no' && (!Array.isArray(question.options) || question.options.length === 0)) {
+        return [{ value: 'yes', label: 'Yes' }, { value: 'no', label: 'No' }];
+      }
+      return question.options || [];
+    }
+    
+    // Toggle a value for multi-choice questions, replace it for single choice
+    toggleChoiceAnswer(question, value) {
+      if (!this.isMultiChoiceQuestion(question)) return value;
+      var current = Array.isArray(this.state.answers[this.state.current]) ? this.state.answers[this.state.current].slice() : [];
+      var existing = current.indexOf(value);
+      if (existing === -1) {
+        current.push(value);
+      } else {
+        current.splice(existing, 1);
+      }
+      return current;
+    }
+    
+    // Whether an answer value has content (string, array of values, or {min, max} range)
+    hasAnswerValue(answer) {
+      if (answer === undefined || answer === null) return false;
+      if (typeof answer === 'string') return answer.trim() !== '';
+      if (Array.isArray(answer)) return answer.length > 0;
+      if (typeof answer === 'object') return answer.min !== null || answer.max !== null;
+      return true;
+    }
+    
+    // Display text for an answer (sent alongside the typed value)
+    formatAnswerText(question, answer) {
+      if (typeof answer === 'string') {
+        var options = this.isChoiceQuestion(question) ? this.getChoiceOptions(question) : [];
+        for (var i = 0; i < options.length; i++) {
+          var opt = options[i];
+          if (typeof opt === 'object' && opt.value === answer) return opt.label || opt.value;
+        }
+        return answer;
+      }
+      if (Array.isArray(answer)) {
+        var labels = answer.map((value) => this.formatAnswerText(question, value));
+        return labels.join(question.type === 'rank' ? ' > ' : ', ');
+      }
+      if (answer && typeof answer === 'object') {
+        var unit = question.unit && question.unit !== 'currency' ? ' ' + question.unit : '';
+        if (answer.min !== null && answer.max !== null) return answer.min + '-' + answer.max + unit;
+        if (answer.max !== null) return 'under ' + answer.max + unit;
+        if (answer.min !== null) return 'over ' + answer.min + unit;
+      }
+      return '';
+    }
+    
+    // Question id used in answer entries (questions saved before ids existed get q1, q2, ...)
+    getQuestionId(question, index) {
+      return question && question.id ? question.id : 'q' + (index + 1);
+    }
+    
+    // Values a showIf condition compares against (range answers never match)
+    getComparableValues(answer) {
+      if (typeof answer === 'string') return answer.trim() === '' ? [] : [answer.trim().toLowerCase()];
+      if (Array.isArray(answer)) return answer.map((value) => String(value).trim().toLowerCase());
+      return [];
+    }
+    
+    // Whether a question's showIf conditions hold for answers keyed by question id
+    conditionsHold(question, answersById) {
+      var conditions = question && question.showIf ? (Array.isArray(question.showIf) ? question.showIf : [question.showIf]) : [];
+      for (var i = 0; i < conditions.length; i++) {
+        var condition = conditions[i];
+        if (!condition || typeof condition !== 'object' || !condition.questionId) continue;
+        var values = this.getComparableValues(answersById[condition.questionId]);
+        var holds = true;
+        if (Array.isArray(condition.in)) {
+          holds = condition.in.some((value) => values.indexOf(String(value).trim().toLowerCase()) !== -1);
+        } else if (condition.equals !== undefined) {
+          holds = values.indexOf(String(condition.equals).trim().toLowerCase()) !== -1;
+        } else if (condition.notEquals !== undefined) {
+          holds = values.indexOf(String(condition.notEquals).trim().toLowerCase()) === -1;
+        }
+        if (!holds) return false;
+      }
+      return true;
+    }
+    
+    // Answers keyed by question id, without answers to questions hidden by branching
+    // (repeats until stable because hiding one question can hide the ones that depend on it)
+    getVisibleAnswersById() {
+      var questions = this.state.questions || [];
+      var answersById = {};
+      for (var i = 0; i < questions.length; i++) {
+        if (this.hasAnswerValue(this.state.answers[i])) {
+          answersById[this.getQuestionId(questions[i], i)] = this.state.answers[i];
+        }
+      }
+      var changed = true;
+      while (changed) {
+        changed = false;
+        for (var j = 0; j < questions.length; j++) {
+          var id = this.getQuestionId(questions[j], j);
+          if (answersById[id] !== undefined && !this.conditionsHold(questions[j], answersById)) {
+            delete answersById[id];
+            changed = true;
+          }
+        }
+      }
+      return answersById;
+    }
+    
+    // Whether a step is shown given the answers so far (merchant branching via showIf)
+    isStepVisible(stepIndex) {
+      var question = (this.state.questions || [])[stepIndex];
+      return !!question && this.conditionsHold(question, this.getVisibleAnswersById());
+    }
+    
+    // Next visible step from stepIndex in direction (1 or -1), or -1 when there is none
+    findVisibleStep(stepIndex, direction) {
+      var total = this.state.questions ? this.state.questions.length : 0;
+      for (var i = stepIndex; i >= 0 && i < total; i += direction) {
+        if (this.isStepVisible(i)) return i;
+      }
+      return -1;
+    }
+    
     // Validate step (returns boolean)
     validateStep(stepEl) {
       if (!stepEl) return false;
@@ -1500,10 +1646,8 @@
       var answer = this.getStepAnswer(stepEl);
       if (!answer) return false;
       
-      // For text, ensure non-empty string
-      if (typeof answer === 'string' && answer.trim() === '') return false;
-      
-      return true;
+      // For text, ensure non-empty string; arrays / ranges need at least one value
+      return this.hasAnswerValue(answer);
     }
     
     // Update navigation state (enables/disables Next/Submit, sets button label)
@@ -1512,7 +1656,7 @@
       
       var currentStepEl = this.getStepEl(this.state.current);
       var isValid = this.validateStep(currentStepEl);
-      var isLastStep = this.state.current === this.state.questions.length - 1;
+      var isLastStep = this.findVisibleStep(this.state.current + 1, 1) === -1;
       var nextBtn = this.modalElement.querySelector('[data-editmuse-next]');
       
       if (nextBtn) {
@@ -1903,7 +2047,19 @@
           e.preventDefault();
           e.stopPropagation();
           var value = pill.getAttribute('data-value') || pill.dataset.value;
-          if (value) {
+          var pillQuestion = this.state.questions[this.state.current];
+          if (value && this.isMultiChoiceQuestion(pillQuestion)) {
+            // Multi-choice: toggle the value and re-sync pills (rank badges follow pick order)
+            var toggled = this.toggleChoiceAnswer(pillQuestion, value);
+            if (toggled.length > 0) {
+              this.setStepAnswer(this.state.current, toggled);
+            } else {
+              delete this.state.answers[this.state.current];
+              delete this.quizAnswers[this.state.current];
+            }
+            this.restoreAnswer(pillQuestion, toggled);
+            this.updateNavState();
+          } else if (value) {
             // Set answer using unified function
             this.setStepAnswer(this.state.current, value);
             
@@ -2041,6 +2197,24 @@
           }
           // Update navigation state
           this.updateNavState();
+        } else if (e.target.matches('[data-em-range]')) {
+          // Range questions store { min, max }; an empty field means "no bound"
+          var rangeStepEl = this.getStepEl(this.state.current);
+          var minInput = rangeStepEl ? rangeStepEl.querySelector('[data-em-range="min"]') : null;
+          var maxInput = rangeStepEl ? rangeStepEl.querySelector('[data-em-range="max"]') : null;
+          var minValue = minInput && minInput.value !== '' ? parseFloat(minInput.value) : null;
+          var maxValue = maxInput && maxInput.value !== '' ? parseFloat(maxInput.value) : null;
+          var range = {
+            min: minValue !== null && isFinite(minValue) ? minValue : null,
+            max: maxValue !== null && isFinite(maxValue) ? maxValue : null
+          };
+          if (this.hasAnswerValue(range)) {
+            this.setStepAnswer(this.state.current, range);
+          } else {
+            delete this.state.answers[this.state.current];
+            delete this.quizAnswers[this.state.current];
+          }
+          this.updateNavState();
         }
       }, { signal });
     }
@@ -2089,7 +2263,7 @@
           var value = pill.getAttribute('data-value') || pill.dataset.value;
           if (value) {
             // Update state immediately
-            this.state.answers[this.state.current] = value;
+            this.state.answers[this.state.current] = this.toggleChoiceAnswer(this.state.questions[this.state.current], value);
             // Re-render to update selected state
             this.render();
             // Update navigation state
@@ -2336,6 +2510,9 @@
         if (!response.ok) {
           // Safely parse error response - don't assume it's JSON
           var result = await this.safeParseJson(response);
+          if (response.status === 429) {
+            throw this.createRateLimitError(result.parsed, response);
+          }
           var errorMessage = 'Failed to fetch questions';
           if (result.parsed && result.parsed.error) {
             errorMessage = result.parsed.error;
@@ -2748,13 +2925,14 @@
         });
       }
 
-      // Check if last step
-      if (this.state.current === this.state.questions.length - 1) {
+      // Check if last visible step (questions hidden by showIf are skipped)
+      var nextStep = this.findVisibleStep(this.state.current + 1, 1);
+      if (nextStep === -1) {
         // Submit
         this.handleSubmit();
       } else {
-        // Advance to next step
-        this.state.current++;
+        // Advance to next visible step
+        this.state.current = nextStep;
         this.state.error = null;
         this.render();
         // Update navigation state after render
@@ -2782,8 +2960,9 @@
           }
         }
         
-        // Go back one step
-        this.state.current--;
+        // Go back to the previous visible step
+        var prevStep = this.findVisibleStep(this.state.current - 1, -1);
+        this.state.current = prevStep === -1 ? 0 : prevStep;
         this.state.error = null;
         this.hideError();
         this.render();
@@ -2863,6 +3042,21 @@
       }
     }
 
+    /**
+     * Error for a 429 from the app proxy (rate limit or the shop's daily cap) - shown as-is, never retried
+     */
+    createRateLimitError(data, response) {
+      var retryAfter = (data && data.retryAfterSeconds) || parseInt(response.headers.get('Retry-After') || '', 10) || null;
+      var message = (data && data.error) || 'Too many requests. Please wait a moment and try again.';
+      if (data && data.errorCode === 'RATE_LIMITED' && retryAfter && retryAfter < 120) {
+        message = 'Too many requests. Please try again in ' + retryAfter + ' seconds.';
+      }
+      var error = new Error(message);
+      error.name = 'RateLimitError';
+      error.retryAfterSeconds = retryAfter;
+      return error;
+    }
+
     /**
      * Start session with timeout - returns sid if received, throws TimeoutError if timeout
      */
@@ -2906,6 +3100,9 @@
         if (!response.ok) {
           // Safely parse error response - don't assume it's JSON
           var result = await this.safeParseJson(response);
+          if (response.status === 429) {
+            throw this.createRateLimitError(result.parsed, response);
+          }
           var errorMessage = 'Failed to submit';
           if (result.parsed && result.parsed.error) {
             errorMessage = result.parsed.error;
@@ -2968,6 +3165,9 @@
         if (!response.ok) {
           // Safely parse error response - don't assume it's JSON
           var result = await this.safeParseJson(response);
+          if (response.status === 429) {
+            throw this.createRateLimitError(result.parsed, response);
+          }
           var errorMessage = 'Failed to resume session';
           if (result.parsed && result.parsed.error) {
             errorMessage = result.parsed.error;
@@ -2993,6 +3193,9 @@
         }
       } catch (error) {
         // Wrap network errors but preserve server errors
+        if (error.name === 'RateLimitError') {
+          throw error;
+        }
         if (!error.message || (!error.message.includes('Failed to resume') && !error.message.includes('Invalid response'))) {
           var networkError = new Error('Resume request failed: ' + (error.message || 'network error'));
           networkError.name = 'NetworkError';
@@ -3003,12 +3206,169 @@
     }
 
     /**
-     * Poll session until complete - throws if error status, returns when complete
+     * Session finished - store sid and redirect to the results page (which loads and bills the result)
+     */
+    finishSession(sid) {
+      console.debug('[Concierge] done sid=', sid);
+      // Reset pollMaxReached flag on success
+      this.state.pollMaxReached = false;
+      // Release lock before redirect
+      window.__EDITMUSE_SUBMIT_LOCK.inFlight = false;
+      window.__EDITMUSE_SUBMIT_LOCK.requestId = null;
+
+      // Store sid
+      this.state.sessionId = sid;
+      sessionStorage.setItem('editmuse_sid', sid);
+
+      // Redirect to results
+      var redirectUrl = this.getResultUrl();
+      var u = new URL(redirectUrl, window.location.origin);
+      u.searchParams.set('sid', sid);
+      
+      // Preserve Shopify params
+      var cur = new URL(window.location.href);
+      var shop = cur.searchParams.get('shop');
+      var signature = cur.searchParams.get('signature');
+      var timestamp = cur.searchParams.get('timestamp');
+      if (shop) u.searchParams.set('shop', shop);
+      if (signature) u.searchParams.set('signature', signature);
+      if (timestamp) u.searchParams.set('timestamp', timestamp);
+      
+      var previewThemeId = cur.searchParams.get('preview_theme_id');
+      if (previewThemeId) {
+        u.searchParams.set('preview_theme_id', previewThemeId);
+      }
+      
+      window.location.href = u.pathname + u.search;
+    }
+
+    /**
+     * Follow session progress over server-sent events (/session/stream)
+     * Resolves true once the session is COMPLETE; false when EventSource is unavailable or the
+     * stream fails or times out, so the caller falls back to polling
+     */
+    streamSession(sid) {
+      var self = this;
+      if (typeof window.EventSource !== 'function') {
+        return Promise.resolve(false);
+      }
+      this.closeSessionStream();
+
+      var url = proxyUrl('/session/stream') + '?sid=' + encodeURIComponent(sid);
+      var shop = new URLSearchParams(window.location.search).get('shop');
+      if (shop) {
+        url += '&shop=' + encodeURIComponent(shop);
+      }
+
+      return new Promise(function(resolve) {
+        var source = new EventSource(url);
+        var settled = false;
+        self.sessionStream = source;
+
+        function settle(completed) {
+          if (settled) return;
+          settled = true;
+          source.close();
+          if (self.sessionStream === source) {
+            self.sessionStream = null;
+          }
+          resolve(completed);
+        }
+
+        function readData(event) {
+          try {
+            return JSON.parse(event.data);
+          } catch (e) {
+            return null;
+          }
+        }
+
+        source.addEventListener('progress', function(event) {
+          var data = readData(event);
+          console.debug('[Concierge] stream progress sid=', sid, data && data.stage);
+          if (data && data.message) {
+            self.showStreamProgress(data.message);
+          }
+        });
+        source.addEventListener('partial', function(event) {
+          var data = readData(event);
+          if (data && Array.isArray(data.products)) {
+            self.showStreamPreview(data.products);
+          }
+        });
+        source.addEventListener('complete', function() {
+          settle(true);
+        });
+        source.addEventListener('failed', function() {
+          settle(false);
+        });
+        source.addEventListener('timeout', function() {
+          settle(false);
+        });
+        // Network error or closed connection: EventSource would reconnect on its own, polling takes over instead
+        source.onerror = function() {
+          console.debug('[Concierge] stream unavailable, falling back to polling sid=', sid);
+          settle(false);
+        };
+      });
+    }
+
+    closeSessionStream() {
+      if (this.sessionStream) {
+        this.sessionStream.close();
+        this.sessionStream = null;
+      }
+    }
+
+    // Replace the canned loading messages with the live stage from the stream
+    showStreamProgress(message) {
+      this.state.progressMessage = message;
+      if (this._loadingMessageInterval) {
+        clearInterval(this._loadingMessageInterval);
+        this._loadingMessageInterval = null;
+      }
+      var loadingText = this.modalElement && this.modalElement.querySelector('[data-editmuse-concierge-loading-text]');
+      if (loadingText && !this.state.stillWorking) {
+        loadingText.textContent = message;
+        loadingText.className = 'editmuse-loading-text fade-in';
+      }
+    }
+
+    // Show the pre-ranked products while the final ranking runs
+    showStreamPreview(products) {
+      this.state.previewProducts = products.slice(0, 4);
+      var preview = this.modalElement && this.modalElement.querySelector('[data-editmuse-concierge-preview]');
+      if (preview) {
+        preview.innerHTML = this.getStreamPreviewHTML();
+      }
+    }
+
+    getStreamPreviewHTML() {
+      var self = this;
+      var products = this.state.previewProducts || [];
+      if (products.length === 0) return '';
+      return '<p class="editmuse-preview-label">Early matches</p><div class="editmuse-preview-list">' +
+        products.map(function(product) {
+          return '<div class="editmuse-preview-item">' +
+            (product.image ? '<img src="' + self.escapeHtml(product.image) + '" alt="" loading="lazy">' : '') +
+            '<span>' + self.escapeHtml(product.title || '') + '</span>' +
+            '</div>';
+        }).join('') +
+        '</div>';
+    }
+
+    /**
+     * Wait for the session to complete: stream first, polling as the fallback - throws if error status, returns when complete
      */
     async pollSession(sid) {
       var maxPollTime = 180000; // 180 seconds (3 minutes)
       var startTime = Date.now();
       var attempt = 0;
+
+      if (await this.streamSession(sid)) {
+        this.finishSession(sid);
+        return;
+      }
       
       // Create AbortController for polling
       if (this.pollingController) {
@@ -3114,37 +3474,7 @@
 
             // Stop immediately if status is COMPLETE (has products or status is COMPLETE)
             if (productCount > 0 || status === 'COMPLETE') {
-              console.debug('[Concierge] done sid=', sid);
-              // Reset pollMaxReached flag on success
-              self.state.pollMaxReached = false;
-              // Release lock before redirect
-              window.__EDITMUSE_SUBMIT_LOCK.inFlight = false;
-              window.__EDITMUSE_SUBMIT_LOCK.requestId = null;
-
-              // Store sid
-              self.state.sessionId = sid;
-              sessionStorage.setItem('editmuse_sid', sid);
-
-              // Redirect to results
-              var redirectUrl = self.getResultUrl();
-              var u = new URL(redirectUrl, window.location.origin);
-              u.searchParams.set('sid', sid);
-              
-              // Preserve Shopify params
-              var cur = new URL(window.location.href);
-              var shop = cur.searchParams.get('shop');
-              var signature = cur.searchParams.get('signature');
-              var timestamp = cur.searchParams.get('timestamp');
-              if (shop) u.searchParams.set('shop', shop);
-              if (signature) u.searchParams.set('signature', signature);
-              if (timestamp) u.searchParams.set('timestamp', timestamp);
-              
-              var previewThemeId = cur.searchParams.get('preview_theme_id');
-              if (previewThemeId) {
-                u.searchParams.set('preview_theme_id', previewThemeId);
-              }
-              
-              window.location.href = u.pathname + u.search;
+              self.finishSession(sid);
               resolve();
               return;
             }
@@ -3192,6 +3522,9 @@
             return;
           }
         } catch (resumeError) {
+          if (resumeError.name === 'RateLimitError') {
+            throw resumeError;
+          }
           resumeAttempt++;
           if (resumeAttempt >= maxResumeAttempts) {
             // Max resume attempts reached - keep polling with error state but don't fail
@@ -3214,6 +3547,7 @@
      * Stop polling (cleanup)
      */
     stopPolling() {
+      this.closeSessionStream();
       if (this.pollingController) {
         this.pollingController.abort();
         this.pollingController = null;
@@ -3313,12 +3647,24 @@
       } else {
         // Normal flow: collect answers from questions
         // Skip optional questions if they're empty (e.g., hybrid chat question)
+        // and questions hidden by branching (showIf), even if they were answered before going back
+        var visibleAnswers = this.getVisibleAnswersById();
         for (var i = 0; i < this.state.questions.length; i++) {
           var question = this.state.questions[i];
           var answer = this.state.answers[i];
+          if (visibleAnswers[this.getQuestionId(question, i)] === undefined) {
+            continue;
+          }
           // Include answer if it exists and is non-empty, OR if question is optional (allow empty)
-          if (answer !== undefined && answer !== null && answer !== '') {
-            messages.push(answer);
+          if (this.hasAnswerValue(answer)) {
+            // Typed entry so the server can map the answer to the right question even when optional ones were skipped
+            messages.push({
+              questionId: this.getQuestionId(question, i),
+              question: question ? (question.question || question.prompt || '') : '',
+              type: question ? question.type : 'text',
+              answer: typeof answer === 'string' ? answer : this.formatAnswerText(question, answer),
+              value: answer
+            });
           } else if (question && question.optional === true) {
             // Optional question with empty answer - skip it (don't add to messages)
             // This allows submission without filling optional fields
@@ -3340,15 +3686,24 @@
       this.hideError();
 
       this.state.loading = true;
+      this.state.progressMessage = null;
+      this.state.previewProducts = [];
       this.render();
       // Start loading animation after render
       this.startConciergeLoadingAnimation();
 
       try {
           var requestBody = {
-            clientRequestId: window.__EDITMUSE_SUBMIT_LOCK.requestId
+            clientRequestId: window.__EDITMUSE_SUBMIT_LOCK.requestId,
+            visitorId: getVisitorId() // Links this visitor's sessions for multi-touch attribution
           };
 
+          // Shopify Markets: budgets typed on a local-currency storefront are in that currency
+          if (window.Shopify && window.Shopify.currency && window.Shopify.currency.active) {
+            requestBody.presentmentCurrency = window.Shopify.currency.active;
+            requestBody.presentmentRate = window.Shopify.currency.rate;
+          }
+
         var experienceId = this.getExperienceId();
           if (experienceId && experienceId.trim() !== '') {
             requestBody.experienceId = experienceId;
@@ -3394,6 +3749,10 @@
               return; // Exit early, do not show analysing spinner
             }
           } catch (timeoutError) {
+            // Rate limited: resuming would be limited too, so show the message instead
+            if (timeoutError.name === 'RateLimitError') {
+              throw timeoutError;
+            }
             // Timeout is NOT an error - backend is still processing
             console.log('[EditMuse] startSession timed out; switching to resume/poll flow');
             console.debug('[Concierge] submit timeout → stillWorking');
@@ -3427,6 +3786,9 @@
                 break; // Got sid, exit retry loop
               } catch (resumeError) {
                 console.debug('[Concierge] resume attempt', resumeAttempts, 'failed:', resumeError.message);
+                if (resumeError.name === 'RateLimitError') {
+                  throw resumeError;
+                }
                 
                 // If this was the last attempt, check if it's a real error
                 if (resumeAttempts >= maxResumeAttempts) {
@@ -3614,8 +3976,8 @@
       var question = this.state.questions[this.state.current];
       if (!question) return null;
 
-      // For select questions, always use state (never query DOM)
-      if (question.type === 'select') {
+      // For choice and range questions, always use state (never query DOM)
+      if (this.isChoiceQuestion(question) || question.type === 'range') {
         return this.state.answers[this.state.current] || null;
       }
 
@@ -3778,15 +4140,17 @@
       // Ensure questions is an array
       var questions = this.state.questions || [];
       var currentQuestion = questions[this.state.current] || null;
-      var isLastStep = this.state.current === questions.length - 1;
+      var isLastStep = this.findVisibleStep(this.state.current + 1, 1) === -1;
       var totalSteps = questions.length;
       var progress = totalSteps > 0 ? ((this.state.current + 1) / totalSteps) * 100 : 0;
       var currentAnswer = this.state.answers[this.state.current] || '';
 
       var questionHTML = '';
       if (currentQuestion) {
-        if (currentQuestion.type === 'select') {
+        if (this.isChoiceQuestion(currentQuestion)) {
           questionHTML = this.renderSelectQuestion(currentQuestion, currentAnswer);
+        } else if (currentQuestion.type === 'range') {
+          questionHTML = this.renderRangeQuestion(currentQuestion, currentAnswer);
         } else {
           questionHTML = this.renderTextQuestion(currentQuestion, currentAnswer);
         }
@@ -3869,13 +4233,14 @@
                   <div class="editmuse-concierge-loading" data-editmuse-concierge-loading>
                     <div class="editmuse-spinner"></div>
                     <div class="editmuse-loading-messages">
-                      <p class="editmuse-loading-text" data-editmuse-concierge-loading-text>${this.state.pollMaxReached ? 'Still working… this can take a bit longer for broad searches.' : (this.state.stillWorking ? 'Still working... This may take a moment.' : 'Analyzing your preferences...')}</p>
+                      <p class="editmuse-loading-text" data-editmuse-concierge-loading-text>${this.state.pollMaxReached ? 'Still working… this can take a bit longer for broad searches.' : (this.state.stillWorking ? 'Still working... This may take a moment.' : this.escapeHtml(this.state.progressMessage || 'Analyzing your preferences...'))}</p>
                       ${this.state.pollMaxReached ? `
                         <button type="button" class="editmuse-concierge-keep-waiting" data-editmuse-keep-waiting style="margin-top: 12px; padding: 8px 16px; background: var(--em-accent, #000); color: var(--em-surface, #fff); border: none; border-radius: var(--em-btn-radius, 4px); cursor: pointer; font-size: 14px;">
                           Keep waiting
                         </button>
                       ` : ''}
                     </div>
+                    <div class="editmuse-preview" data-editmuse-concierge-preview>${this.getStreamPreviewHTML()}</div>
                   </div>
                 ` : questionHTML}
                 <div class="editmuse-concierge-error" style="display: ${this.state.error ? 'block' : 'none'};">${this.state.error ? this.escapeHtml(this.state.error) : ''}</div>
@@ -4025,7 +4390,9 @@
     // Render select question
     renderSelectQuestion(question, selectedValue) {
       var questionText = question.question || question.prompt || 'Question';
-      var options = question.options || [];
+      var options = this.getChoiceOptions(question);
+      var isMulti = this.isMultiChoiceQuestion(question);
+      var selectedValues = Array.isArray(selectedValue) ? selectedValue : (selectedValue ? [selectedValue] : []);
       var optionLayout = this.getAttribute('data-option-layout') || 'stacked';
       var optionStyle = this.getAttribute('data-option-style') || 'cards';
       var pillsClass = optionLayout === 'grid2' ? 'editmuse-option-pills editmuse-option-pills-grid2' : 'editmuse-option-pills';
@@ -4033,24 +4400,38 @@
       var pillsHTML = options.map((opt, idx) => {
         var optValue = typeof opt === 'string' ? opt : (opt.value || opt.label || '');
         var optLabel = typeof opt === 'string' ? opt : (opt.label || opt.value || '');
-        var isSelected = selectedValue === optValue;
+        var selectedIndex = selectedValues.indexOf(optValue);
+        var isSelected = selectedIndex !== -1;
         var selectedClass = isSelected ? 'selected is-selected' : '';
+        var imageUrl = typeof opt === 'object' && opt.imageUrl ? opt.imageUrl : '';
+        var imageHTML = imageUrl
+          ? `<img class="editmuse-option-pill-image" src="${this.escapeHtml(imageUrl)}" alt="" loading="lazy" style="display: block; width: 100%; max-width: 96px; aspect-ratio: 1; object-fit: cover; border-radius: 6px; margin: 0 auto 0.375rem;">`
+          : '';
+        // Rank questions show the pick order (1 = most important)
+        var rankHTML = question.type === 'rank'
+          ? `<span class="editmuse-option-pill-rank" data-em-rank="true" style="margin-right: 0.375rem; font-weight: 600;">${isSelected ? selectedIndex + 1 : ''}</span>`
+          : '';
         
         return `
-          <button type="button" class="editmuse-option-pill ${selectedClass}" data-em-option="true" data-value="${this.escapeHtml(optValue)}" tabindex="0" role="radio" aria-checked="${isSelected}" aria-pressed="${isSelected}">
-            <input type="radio" name="editmuse-q-${this.state.current}" id="editmuse-opt-${this.state.current}-${idx}" value="${this.escapeHtml(optValue)}" ${isSelected ? 'checked' : ''} style="display: none;">
-            <span class="editmuse-option-pill-label">${this.escapeHtml(optLabel)}</span>
+          <button type="button" class="editmuse-option-pill ${selectedClass}" data-em-option="true" data-value="${this.escapeHtml(optValue)}" tabindex="0" role="${isMulti ? 'checkbox' : 'radio'}" aria-checked="${isSelected}" aria-pressed="${isSelected}">
+            <input type="${isMulti ? 'checkbox' : 'radio'}" name="editmuse-q-${this.state.current}" id="editmuse-opt-${this.state.current}-${idx}" value="${this.escapeHtml(optValue)}" ${isSelected ? 'checked' : ''} style="display: none;">
+            ${imageHTML}${rankHTML}<span class="editmuse-option-pill-label">${this.escapeHtml(optLabel)}</span>
           </button>
         `;
       }).join('');
 
-      var selectHTML = `
+      // Hint for multi-choice questions (native select only supports single choice on mobile)
+      var hintHTML = question.type === 'rank'
+        ? '<div class="editmuse-concierge-hint" style="font-size: 0.875rem; opacity: 0.7; margin-bottom: 0.5rem;">Tap in order of importance</div>'
+        : (isMulti ? '<div class="editmuse-concierge-hint" style="font-size: 0.875rem; opacity: 0.7; margin-bottom: 0.5rem;">Choose all that apply</div>' : '');
+
+      var selectHTML = isMulti ? '' : `
         <select class="editmuse-concierge-input editmuse-option-select-mobile" data-em-select="true">
           <option value="">Select an option...</option>
           ${options.map(opt => {
             var optValue = typeof opt === 'string' ? opt : (opt.value || opt.label || '');
             var optLabel = typeof opt === 'string' ? opt : (opt.label || opt.value || '');
-            var selected = selectedValue === optValue ? 'selected' : '';
+            var selected = selectedValues.indexOf(optValue) !== -1 ? 'selected' : '';
             return `<option value="${this.escapeHtml(optValue)}" ${selected}>${this.escapeHtml(optLabel)}</option>`;
           }).join('')}
         </select>
@@ -4060,6 +4441,7 @@
         <div class="editmuse-concierge-step" data-step="${this.state.current}">
           <h2 class="editmuse-concierge-step-title">${this.escapeHtml(questionText)}</h2>
           <div class="editmuse-concierge-input-wrapper">
+            ${hintHTML}
             <div class="${pillsClass}" data-editmuse-pills="${this.state.current}">
               ${pillsHTML}
             </div>
@@ -4069,6 +4451,33 @@
       `;
     }
 
+    // Render range question (numeric range / price slider) as min + max inputs
+    renderRangeQuestion(question, currentValue) {
+      var questionText = question.question || question.prompt || 'Question';
+      var range = currentValue && typeof currentValue === 'object' && !Array.isArray(currentValue) ? currentValue : { min: null, max: null };
+      var min = typeof question.min === 'number' ? question.min : 0;
+      var max = typeof question.max === 'number' ? question.max : 100;
+      var step = typeof question.step === 'number' && question.step > 0 ? question.step : 1;
+      var unitLabel = question.unit && question.unit !== 'currency' ? ' (' + question.unit + ')' : '';
+      var inputAttrs = `type="number" class="editmuse-concierge-input" min="${min}" max="${max}" step="${step}" inputmode="decimal"`;
+
+      return `
+        <div class="editmuse-concierge-step" data-step="${this.state.current}">
+          <h2 class="editmuse-concierge-step-title">${this.escapeHtml(questionText)}</h2>
+          <div class="editmuse-concierge-input-wrapper" style="display: flex; gap: 0.75rem;">
+            <label style="flex: 1;">
+              <span class="editmuse-concierge-hint" style="display: block; font-size: 0.875rem; opacity: 0.7;">${this.escapeHtml('Min' + unitLabel)}</span>
+              <input ${inputAttrs} data-em-range="min" placeholder="${min}" value="${range.min !== null && range.min !== undefined ? this.escapeHtml(String(range.min)) : ''}">
+            </label>
+            <label style="flex: 1;">
+              <span class="editmuse-concierge-hint" style="display: block; font-size: 0.875rem; opacity: 0.7;">${this.escapeHtml('Max' + unitLabel)}</span>
+              <input ${inputAttrs} data-em-range="max" placeholder="${max}" value="${range.max !== null && range.max !== undefined ? this.escapeHtml(String(range.max)) : ''}">
+            </label>
+          </div>
+        </div>
+      `;
+    }
+
     // Render text question
     renderTextQuestion(question, currentValue) {
       var questionText = question.question || question.prompt || 'Question';
@@ -4097,7 +4506,28 @@
       var stepEl = this.getStepEl(this.state.current);
       if (!stepEl) return;
       
-      if (question.type === 'select') {
+      if (this.isMultiChoiceQuestion(question)) {
+        // Multi-choice: select every picked pill and refresh rank badges
+        var picked = Array.isArray(answer) ? answer : [answer];
+        var multiPills = stepEl.querySelectorAll('[data-em-option]');
+        for (var m = 0; m < multiPills.length; m++) {
+          var multiPill = multiPills[m];
+          var multiValue = multiPill.getAttribute('data-value') || multiPill.dataset.value;
+          var position = picked.indexOf(multiValue);
+          var isPicked = position !== -1;
+          multiPill.classList.toggle('selected', isPicked);
+          multiPill.classList.toggle('is-selected', isPicked);
+          multiPill.setAttribute('aria-checked', String(isPicked));
+          multiPill.setAttribute('aria-pressed', String(isPicked));
+          var checkbox = multiPill.querySelector('input[type="checkbox"]');
+          if (checkbox) checkbox.checked = isPicked;
+          var rankBadge = multiPill.querySelector('[data-em-rank]');
+          if (rankBadge) rankBadge.textContent = isPicked ? String(position + 1) : '';
+        }
+      } else if (question.type === 'range') {
+        // Range inputs are rendered with their values; nothing to restore
+        return;
+      } else if (this.isChoiceQuestion(question)) {
         // Restore mobile select
         var select = stepEl.querySelector('[data-em-select]');
         if (select) {
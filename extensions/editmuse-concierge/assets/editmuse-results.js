@@ -42,6 +42,19 @@
     }
   }
 
+  // Adds the cart token (matched against orders) and visitor ID (links the visitor's sessions) to checkout events
+  function withAttributionTokens(metadata) {
+    try {
+      var cartMatch = document.cookie.match(/(?:^|;\s*)cart=([^;]+)/);
+      if (cartMatch) metadata.cartToken = decodeURIComponent(cartMatch[1]);
+      var vid = localStorage.getItem('editmuse_vid');
+      if (vid) metadata.visitorId = vid;
+    } catch (e) {
+      // Cookies / localStorage unavailable - event is still sent without tokens
+    }
+    return metadata;
+  }
+
   // Safe insertBefore helper
   function safeInsertBefore(parent, node, before) {
     if (!parent || !node) {
@@ -300,6 +313,119 @@
     }
   }
 
+  function formatProductPrice(product) {
+    // Use priceAmount if available, otherwise fallback to price
+    var priceValue = product.priceAmount || product.price;
+    var currencyCode = product.currencyCode || 'USD';
+    
+    // Backwards compatibility: detect if price is in cents (e.g., "74995.0")
+    var numPrice = parseFloat(priceValue);
+    if (numPrice > 1000 && !isNaN(numPrice)) {
+      // If price > 10000, almost certainly in cents (no product costs $10,000+ typically)
+      // If price between 1000-10000, check if dividing by 100 gives reasonable value (< 1000)
+      var majorUnits = numPrice / 100;
+      if (numPrice > 10000 || (numPrice > 1000 && majorUnits < 1000 && majorUnits >= 1)) {
+        numPrice = majorUnits;
+      }
+    }
+    
+    // Format using Intl.NumberFormat
+    try {
+      var formatter = new Intl.NumberFormat(undefined, {
+        style: 'currency',
+        currency: currencyCode,
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2
+      });
+      return formatter.format(numPrice);
+    } catch (e) {
+      // Fallback if currency code is invalid
+      return currencyCode + ' ' + numPrice.toFixed(2);
+    }
+  }
+
+  // "More like this": similar products for one card, shown in a panel below the grid
+  function renderSimilarProducts(source, products, message) {
+    var container = document.querySelector('[data-editmuse-results]');
+    if (!container) return;
+    var panel = container.querySelector('[data-editmuse-similar]');
+    if (!panel) return;
+    var heading = panel.querySelector('[data-editmuse-similar-title]');
+    var grid = panel.querySelector('[data-editmuse-similar-grid]');
+    var status = panel.querySelector('[data-editmuse-similar-status]');
+    if (heading) heading.textContent = 'More like ' + (source.title || 'this');
+    if (status) {
+      status.textContent = message || '';
+      status.style.display = message ? '' : 'none';
+    }
+    if (grid) {
+      grid.innerHTML = '';
+      (products || []).forEach(function(product, index) {
+        var card = document.createElement('a');
+        card.href = product.url || '/products/' + (product.handle || '');
+        card.className = 'editmuse-results-similar-card';
+        if (product.image) {
+          var img = document.createElement('img');
+          img.src = product.image;
+          img.alt = product.title || '';
+          img.className = 'editmuse-results-similar-image';
+          card.appendChild(img);
+        }
+        var title = document.createElement('span');
+        title.className = 'editmuse-results-similar-name';
+        title.textContent = product.title || product.handle || '';
+        card.appendChild(title);
+        if (product.price || product.priceAmount) {
+          var price = document.createElement('span');
+          price.className = 'editmuse-results-similar-price';
+          price.textContent = formatProductPrice(product);
+          card.appendChild(price);
+        }
+        card.addEventListener('click', function() {
+          sendEvent('RECOMMENDATION_CLICKED', getSessionId(), {
+            handle: product.handle || null,
+            url: card.href || null,
+            position: index + 1,
+            similarTo: source.handle || null
+          });
+        });
+        grid.appendChild(card);
+      });
+    }
+    panel.style.display = '';
+  }
+
+  function loadSimilarProducts(source) {
+    var sid = getSessionId();
+    if (!sid || !source.handle) return;
+
+    var url = proxyUrl('/session/similar') + '?sid=' + encodeURIComponent(sid) + '&handle=' + encodeURIComponent(source.handle);
+    var shop = new URLSearchParams(window.location.search).get('shop');
+    if (shop) {
+      url += '&shop=' + encodeURIComponent(shop);
+    }
+    renderSimilarProducts(source, [], 'Finding similar products...');
+    debug('similar: fetching', url);
+
+    fetch(url, { credentials: 'same-origin' })
+      .then(function(r) {
+        return r.json().then(function(data) {
+          if (!r.ok || !data.ok) {
+            throw new Error(data.error || 'Unable to load similar products.');
+          }
+          return data;
+        });
+      })
+      .then(function(data) {
+        var products = data.products || [];
+        renderSimilarProducts(source, products, products.length === 0 ? 'No similar products found.' : '');
+      })
+      .catch(function(err) {
+        debug('similar: error', err);
+        renderSimilarProducts(source, [], err.message || 'Unable to load similar products.');
+      });
+  }
+
   function renderProducts(products) {
     debug('renderProducts called with', products.length, 'products');
     console.log('[EditMuse Results] products returned:', products.length);
@@ -386,39 +512,32 @@
       if (product.price || product.priceAmount) {
         var price = document.createElement('p');
         price.className = 'editmuse-results-card-price';
-        
-        // Use priceAmount if available, otherwise fallback to price
-        var priceValue = product.priceAmount || product.price;
-        var currencyCode = product.currencyCode || 'USD';
-        
-        // Backwards compatibility: detect if price is in cents (e.g., "74995.0")
-        var numPrice = parseFloat(priceValue);
-        if (numPrice > 1000 && !isNaN(numPrice)) {
-          // If price > 10000, almost certainly in cents (no product costs $10,000+ typically)
-          // If price between 1000-10000, check if dividing by 100 gives reasonable value (< 1000)
-          var majorUnits = numPrice / 100;
-          if (numPrice > 10000 || (numPrice > 1000 && majorUnits < 1000 && majorUnits >= 1)) {
-            numPrice = majorUnits;
-          }
-        }
-        
-        // Format using Intl.NumberFormat
-        try {
-          var formatter = new Intl.NumberFormat(undefined, {
-            style: 'currency',
-            currency: currencyCode,
-            minimumFractionDigits: 2,
-            maximumFractionDigits: 2
-          });
-          price.textContent = formatter.format(numPrice);
-        } catch (e) {
-          // Fallback if currency code is invalid
-          price.textContent = currencyCode + ' ' + numPrice.toFixed(2);
-        }
-        
+        price.textContent = formatProductPrice(product);
         cardInfo.appendChild(price);
       }
 
+      // "Why we picked this" (hidden with the block's show-reasoning setting)
+      if (product.explanation) {
+        var why = document.createElement('p');
+        why.className = 'editmuse-results-card-reasoning';
+        why.textContent = product.explanation;
+        cardInfo.appendChild(why);
+      }
+
+      if (product.handle) {
+        var similarButton = document.createElement('button');
+        similarButton.type = 'button';
+        similarButton.className = 'editmuse-results-card-similar';
+        similarButton.textContent = 'More like this';
+        similarButton.addEventListener('click', function(e) {
+          // The card is a link: keep this click from navigating or counting as a product click
+          e.preventDefault();
+          e.stopPropagation();
+          loadSimilarProducts(product);
+        });
+        cardInfo.appendChild(similarButton);
+      }
+
       card.appendChild(cardInfo);
 
       // Add click tracking
@@ -640,6 +759,80 @@ function escapeHtml(text) {
       }
     }
 
+  // Refinement ("cheaper", "in black", "no leather") re-ranks the session's stored results server-side,
+  // then the results are reloaded through /session. RESULTS_VIEWED is only sent for the first load.
+  var resultsViewedSent = false;
+
+  function setRefineStatus(form, message) {
+    var status = form.querySelector('[data-editmuse-refine-status]');
+    if (!status) return;
+    status.textContent = message || '';
+    status.style.display = message ? '' : 'none';
+  }
+
+  function reloadResults() {
+    var container = document.querySelector('[data-editmuse-results]');
+    if (!container) return;
+    delete container.dataset.editmuseResultsInit;
+    var similarPanel = container.querySelector('[data-editmuse-similar]');
+    if (similarPanel) similarPanel.style.display = 'none';
+    loadResults();
+  }
+
+  function showRefineForm() {
+    var container = document.querySelector('[data-editmuse-results]');
+    if (!container) return;
+    var form = container.querySelector('[data-editmuse-refine]');
+    if (!form) return;
+    form.style.display = '';
+    if (form.dataset.editmuseRefineInit === '1') return;
+    form.dataset.editmuseRefineInit = '1';
+
+    form.addEventListener('submit', function(e) {
+      e.preventDefault();
+      var input = form.querySelector('[data-editmuse-refine-input]');
+      var button = form.querySelector('[data-editmuse-refine-button]');
+      var instruction = input ? input.value.trim() : '';
+      var sid = getSessionId();
+      if (!instruction || !sid) return;
+
+      if (button) button.disabled = true;
+      setRefineStatus(form, 'Updating your picks...');
+      debug('refine: submitting', { sid: sid, instruction: instruction });
+
+      fetch(proxyUrl('/session/refine') + window.location.search, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify({ sid: sid, instruction: instruction })
+      })
+      .then(function(r) {
+        return r.json().then(function(data) {
+          if (!r.ok || !data.ok) {
+            throw new Error(data.error || 'Unable to refine results. Please try again.');
+          }
+          return data;
+        });
+      })
+      .then(function(data) {
+        debug('refine: response', data);
+        if (button) button.disabled = false;
+        if (!data.changed) {
+          setRefineStatus(form, data.reasoning);
+          return;
+        }
+        if (input) input.value = '';
+        setRefineStatus(form, '');
+        reloadResults();
+      })
+      .catch(function(err) {
+        debug('refine: error', err);
+        if (button) button.disabled = false;
+        setRefineStatus(form, err.message || 'Unable to refine results. Please try again.');
+      });
+    });
+  }
+
   function loadResults() {
     // Per-container init guard
     var container = document.querySelector('[data-editmuse-results]');
@@ -752,7 +945,8 @@ function escapeHtml(text) {
                     title: product.title || '',
                     image: product.featured_image || null,
                     price: product.variants && product.variants[0] ? product.variants[0].price : null,
-                    url: '/products/' + item.handle
+                    url: '/products/' + item.handle,
+                    explanation: item.explanation || null
                   };
                 })
                 .catch(function(err) {
@@ -762,7 +956,8 @@ function escapeHtml(text) {
                     title: item.handle,
                     image: null,
                     price: null,
-                    url: '/products/' + item.handle
+                    url: '/products/' + item.handle,
+                    explanation: item.explanation || null
                   };
                 });
             });
@@ -808,13 +1003,20 @@ function escapeHtml(text) {
             debug('Rendering', products.length, 'products');
             renderProducts(products);
             
-            // Fire RESULTS_VIEWED once after products render
+            // Fire RESULTS_VIEWED once after products render (not again after a refinement)
             var sessionId = getSessionId();
-            sendEvent('RESULTS_VIEWED', sessionId, {
-              page: window.location.pathname,
-              ref: document.referrer || null
-            });
+            if (!resultsViewedSent) {
+              resultsViewedSent = true;
+              sendEvent('RESULTS_VIEWED', sessionId, {
+                page: window.location.pathname,
+                ref: document.referrer || null,
+                version: data.version || 1
+              });
+            }
             showReasoning(data.reasoning, detectedMode, data.error, products.length);
+            if (data.status === 'COMPLETE' && data.refinable) {
+              showRefineForm();
+            }
           } else if (data.ok && products.length === 0) {
             debug('No products in response');
             if (data.status === 'PROCESSING') {
@@ -1194,10 +1396,10 @@ function escapeHtml(text) {
       }
 
       if (checkoutButton) {
-        sendEvent('CHECKOUT_STARTED', sessionId, {
+        sendEvent('CHECKOUT_STARTED', sessionId, withAttributionTokens({
           source: 'click',
           element: checkoutButton.tagName || 'unknown'
-        });
+        }));
       }
     }, true); // Use capture phase
 
@@ -1213,10 +1415,10 @@ function escapeHtml(text) {
                         (action.indexOf('/cart') !== -1 && !action.includes('/cart/add'));
         
         if (isCheckout) {
-          sendEvent('CHECKOUT_STARTED', sessionId, {
+          sendEvent('CHECKOUT_STARTED', sessionId, withAttributionTokens({
             source: 'form_submit',
             action: action
-          });
+          }));
         }
       }
     }, true); // Use capture phase
@@ -0,0 +1,96 @@
+/**
+ * Offline relevance evaluation against a golden query set
+ * Runs the recommendation pipeline on a fixture catalog with a stubbed LLM, prints precision@k,
+ * recall@k, NDCG, constraint-violation rate and diversity, and diffs them against a saved baseline.
+ *
+ * Usage: npm run eval:relevance -- [options]
+ *   --catalog <path>        Fixture catalog (default scripts/relevance-eval/catalog.json)
+ *   --golden <path>         Golden query set (default scripts/relevance-eval/golden.json)
+ *   --baseline <path>       Saved report to diff against (default scripts/relevance-eval/baseline.json)
+ *   --llm-fixtures <path>   Recorded LLM responses to replay instead of the stub ranker
+ *   --hybrid                Turn on hybrid retrieval with the local embedding provider
+ *   --tolerance <n>         Allowed drop per metric before it counts as a regression (default 0.02)
+ *   --write-baseline        Save this run as the new baseline
+ *   --json <path>           Also write this run's report to a file
+ *   --verbose               Keep pipeline logs
+ *
+ * Exits 1 when a metric regressed against the baseline.
+ */
+
+import { parseArgs } from "node:util";
+import { LocalHashEmbeddingProvider } from "~/models/embedding-provider.server";
+import {
+  loadEvalCatalog,
+  loadEvalReport,
+  loadGoldenSet,
+  loadLLMFixtures,
+  runRelevanceEval,
+  saveEvalReport,
+} from "~/models/relevance-eval.server";
+import {
+  DEFAULT_REGRESSION_TOLERANCE,
+  diffEvalReports,
+  formatEvalDiff,
+  formatEvalReport,
+} from "~/utils/relevance-eval.server";
+
+const FIXTURE_DIR = "scripts/relevance-eval";
+
+const { values } = parseArgs({
+  options: {
+    catalog: { type: "string", default: `${FIXTURE_DIR}/catalog.json` },
+    golden: { type: "string", default: `${FIXTURE_DIR}/golden.json` },
+    baseline: { type: "string", default: `${FIXTURE_DIR}/baseline.json` },
+    "llm-fixtures": { type: "string" },
+    hybrid: { type: "boolean", default: false },
+    tolerance: { type: "string" },
+    "write-baseline": { type: "boolean", default: false },
+    json: { type: "string" },
+    verbose: { type: "boolean", default: false },
+  },
+});
+
+async function main(): Promise<number> {
+  const catalog = loadEvalCatalog(values.catalog!);
+  const golden = loadGoldenSet(values.golden!);
+  const tolerance = values.tolerance ? parseFloat(values.tolerance) : DEFAULT_REGRESSION_TOLERANCE;
+
+  // The pipeline logs every step; only the report is interesting here
+  const log = console.log;
+  if (!values.verbose) console.log = () => {};
+  let report;
+  try {
+    report = await runRelevanceEval(catalog, golden, {
+      llmFixtures: values["llm-fixtures"] ? loadLLMFixtures(values["llm-fixtures"]) : [],
+      embeddingProvider: values.hybrid ? new LocalHashEmbeddingProvider() : null,
+    });
+  } finally {
+    console.log = log;
+  }
+
+  console.log(formatEvalReport(report));
+  if (values.json) saveEvalReport(values.json, report);
+
+  if (values["write-baseline"]) {
+    saveEvalReport(values.baseline!, report);
+    console.log(`\nBaseline written to ${values.baseline}`);
+    return 0;
+  }
+
+  const baseline = loadEvalReport(values.baseline!);
+  if (!baseline) {
+    console.log(`\nNo baseline at ${values.baseline} (run with --write-baseline to create one)`);
+    return 0;
+  }
+  const diff = diffEvalReports(baseline, report, tolerance);
+  console.log(`\n${formatEvalDiff(diff)}`);
+  return diff.regressed ? 1 : 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error("[Relevance Eval] Failed:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);